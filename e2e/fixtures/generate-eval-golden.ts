@@ -0,0 +1,179 @@
+/**
+ * Build the anonymised golden datasets for the AI proxy evaluation harness.
+ *
+ * Run: npx tsx e2e/fixtures/generate-eval-golden.ts [path/to/rvtools.xlsx]
+ *
+ * Reads: e2e/fixtures/test-rvtools.xlsx (default)
+ * Produces: functions/ai-proxy/eval/golden/{classification,risk-analysis}.json
+ *
+ * VM names are replaced with `<role>-<nnn>` tokens and identifying fields
+ * (hosts, IPs, DNS names, UUIDs) are dropped, so the datasets can be
+ * committed and shared. The fixed name pattern also lets the harness spot
+ * VM names the model invented.
+ */
+import * as XLSX from 'xlsx';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const INPUT_PATH = process.argv[2]
+  ? path.resolve(process.argv[2])
+  : path.resolve(__dirname, 'test-rvtools.xlsx');
+const OUTPUT_DIR = path.resolve(__dirname, '..', '..', 'functions', 'ai-proxy', 'eval', 'golden');
+
+/** Role prefixes kept from the original VM name (everything else becomes `vm`) */
+const ROLE_PREFIXES = ['web', 'db', 'sql', 'app', 'api', 'dc', 'dns', 'backup', 'mq', 'k8s', 'ocp'];
+
+/**
+ * Expected workload type per original VM name, reviewed by hand against the
+ * category definitions in functions/ai-proxy/prompts.js
+ */
+const EXPECTED_WORKLOADS: Record<string, string> = {
+  'web-server-01': 'Middleware / Application Servers',
+  'db-server-01': 'Databases',
+  'app-server-01': 'Middleware / Application Servers',
+};
+
+/** Acceptable go/no-go recommendations for the fixture's risk profile */
+const EXPECTED_GO_NO_GO = ['conditional', 'no-go'];
+
+const SNAPSHOT_AGE_BLOCKER_DAYS = 30;
+
+type Row = Record<string, string | number | undefined>;
+
+function readSheet(wb: XLSX.WorkBook, name: string): Row[] {
+  const sheet = wb.Sheets[name];
+  return sheet ? XLSX.utils.sheet_to_json<Row>(sheet) : [];
+}
+
+function createNameMap(vmNames: string[]): Map<string, string> {
+  const counters = new Map<string, number>();
+  const map = new Map<string, string>();
+  for (const name of vmNames) {
+    const first = name.toLowerCase().split(/[-_.\s]/)[0];
+    const role = ROLE_PREFIXES.includes(first) ? first : 'vm';
+    const next = (counters.get(role) ?? 0) + 1;
+    counters.set(role, next);
+    map.set(name, `${role}-${String(next).padStart(3, '0')}`);
+  }
+  return map;
+}
+
+/** Strip IPs, FQDNs and e-mail addresses from free-text annotations */
+function scrubAnnotation(text: string): string {
+  return text
+    .replace(/\b\d{1,3}(\.\d{1,3}){3}\b/g, '[ip]')
+    .replace(/\b[\w.+-]+@[\w-]+(\.[\w-]+)+\b/g, '[email]')
+    .replace(/\b[\w-]+(\.[\w-]+){2,}\b/g, '[host]')
+    .trim();
+}
+
+const wb = XLSX.read(fs.readFileSync(INPUT_PATH));
+const vInfo = readSheet(wb, 'vInfo').filter(row => String(row.Template).toUpperCase() !== 'TRUE');
+const nameMap = createNameMap(vInfo.map(row => String(row.VM)));
+const anonymise = (vmName: unknown) => nameMap.get(String(vmName)) ?? 'vm-unknown';
+const source = path.relative(path.resolve(__dirname, '..', '..'), INPUT_PATH);
+
+// ── Classification ───────────────────────────────────────────────────────────
+const classificationVMs = vInfo.map(row => ({
+  vmName: anonymise(row.VM),
+  guestOS: String(row['Guest OS'] ?? ''),
+  annotation: scrubAnnotation(String(row.Annotation ?? '')),
+  vCPUs: Number(row.CPUs ?? 0),
+  memoryMB: Number(row.Memory ?? 0),
+  diskCount: Number(row.Disks ?? 0),
+  nicCount: Number(row.NICs ?? 0),
+  powerState: String(row.Powerstate ?? ''),
+}));
+
+const expectedLabels = Object.fromEntries(
+  vInfo
+    .filter(row => EXPECTED_WORKLOADS[String(row.VM)])
+    .map(row => [anonymise(row.VM), EXPECTED_WORKLOADS[String(row.VM)]])
+);
+
+const classificationDataset = {
+  name: 'classification',
+  endpoint: '/api/classify',
+  source,
+  cases: [
+    {
+      id: 'fixture-all-vms',
+      request: { vms: classificationVMs },
+      expected: { labels: expectedLabels },
+    },
+  ],
+};
+
+// ── Risk analysis ────────────────────────────────────────────────────────────
+const cutoff = Date.now() - SNAPSHOT_AGE_BLOCKER_DAYS * 24 * 60 * 60 * 1000;
+const oldSnapshotVMs = new Set(
+  readSheet(wb, 'vSnapshot')
+    .filter(row => new Date(String(row['Date / time'])).getTime() < cutoff)
+    .map(row => anonymise(row.VM))
+);
+const missingToolsVMs = readSheet(wb, 'vTools')
+  .filter(row => row['Tools Status'] === 'toolsNotInstalled')
+  .map(row => anonymise(row.VM));
+const connectedCdVMs = readSheet(wb, 'vCD')
+  .filter(row => String(row.Connected).toUpperCase() === 'TRUE')
+  .map(row => anonymise(row.VM));
+
+const blockerSummary = [
+  ...(oldSnapshotVMs.size > 0 ? [`${oldSnapshotVMs.size} VMs with snapshots older than ${SNAPSHOT_AGE_BLOCKER_DAYS} days`] : []),
+  ...(missingToolsVMs.length > 0 ? [`${missingToolsVMs.length} VMs without VMware Tools`] : []),
+];
+
+const riskDataset = {
+  name: 'risk-analysis',
+  endpoint: '/api/risk-analysis',
+  source,
+  cases: [
+    {
+      id: 'fixture-blockers',
+      request: {
+        data: {
+          riskAssessment: {
+            overallRisk: 'amber',
+            goNoGo: 'conditional',
+            domains: [
+              {
+                name: 'Technical',
+                severity: blockerSummary.length > 0 ? 'high' : 'low',
+                autoSeverity: blockerSummary.length > 0 ? 'high' : 'low',
+                evidence: blockerSummary.map(title => ({ title })),
+              },
+              {
+                name: 'Operational',
+                severity: connectedCdVMs.length > 0 ? 'medium' : 'low',
+                autoSeverity: connectedCdVMs.length > 0 ? 'medium' : 'low',
+                evidence: connectedCdVMs.length > 0 ? [{ title: `${connectedCdVMs.length} VMs with connected CD-ROMs` }] : [],
+              },
+              { name: 'Security', severity: 'low', autoSeverity: null, evidence: [] },
+            ],
+          },
+          totalVMs: vInfo.length,
+          totalHosts: readSheet(wb, 'vHost').length,
+          blockerSummary,
+          complexitySummary: {
+            simple: vInfo.length - oldSnapshotVMs.size,
+            moderate: 0,
+            complex: 0,
+            blocker: oldSnapshotVMs.size,
+          },
+        },
+      },
+      expected: { goNoGo: EXPECTED_GO_NO_GO },
+    },
+  ],
+};
+
+// ── Write ────────────────────────────────────────────────────────────────────
+fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+for (const dataset of [classificationDataset, riskDataset]) {
+  const outPath = path.join(OUTPUT_DIR, `${dataset.name}.json`);
+  fs.writeFileSync(outPath, JSON.stringify(dataset, null, 2) + '\n');
+  console.log(`Golden dataset written to ${outPath}`);
+}
@@ -12,11 +12,19 @@
  *   - createActionStripper(): a small state machine that buffers text deltas
  *     and decides what to forward vs. what to hold as the envelope tail.
  *   - parseActionEnvelope(text): tolerant parser that returns
- *     { suggestions: AISuggestion[] } | null. Drops malformed entries.
+ *     { suggestions?: AISuggestion[], toolCalls?: ChatToolCall[] } | null.
+ *     Drops malformed entries.
  */
 
+const { normaliseToolCall, MAX_TOOL_CALLS } = require('./chatTools');
+
 const SENTINEL = '<<<ACTIONS:';
 
+const MAX_VM_NAMES = 50;
+const RISK_CATEGORIES = ['Financial', 'Business / Org', 'Skills / Knowledge', 'Ops & Tooling', 'Backup & DR', 'Technical'];
+const RISK_STATUSES = ['red', 'amber', 'green'];
+const TARGETS = ['roks', 'vsi', 'powervs'];
+
 /**
  * Build a streaming stripper that detects the SENTINEL across chunk boundaries.
  *
@@ -73,8 +81,8 @@ function createActionStripper() {
  * `<<<ACTIONS:` (with surrounding whitespace or markdown code fences) and
  * returns a normalised payload or null on any failure.
  *
- * Each kept suggestion is assigned a fresh server-generated id so the client
- * can dedup across messages.
+ * Each kept suggestion and tool call is assigned a fresh server-generated id
+ * so the client can dedup across messages.
  */
 function parseActionEnvelope(text, idPrefix = 'chat') {
   if (!text || typeof text !== 'string') return null;
@@ -91,14 +99,14 @@ function parseActionEnvelope(text, idPrefix = 'chat') {
   } catch {
     return null;
   }
-  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.suggestions)) {
-    return null;
-  }
+  if (!parsed || typeof parsed !== 'object') return null;
+  const suggestions = Array.isArray(parsed.suggestions) ? parsed.suggestions : [];
+  const toolCalls = Array.isArray(parsed.toolCalls) ? parsed.toolCalls : [];
 
   const stamp = Date.now();
   const out = [];
-  for (let i = 0; i < parsed.suggestions.length; i++) {
-    const sg = parsed.suggestions[i];
+  for (let i = 0; i < suggestions.length; i++) {
+    const sg = suggestions[i];
     if (!sg || typeof sg !== 'object') continue;
     if (typeof sg.reason !== 'string' || !sg.reason.trim()) continue;
     const action = normaliseAction(sg.action);
@@ -109,7 +117,36 @@ function parseActionEnvelope(text, idPrefix = 'chat') {
       action,
     });
   }
-  return out.length > 0 ? { suggestions: out } : null;
+
+  const calls = [];
+  for (let i = 0; i < toolCalls.length && calls.length < MAX_TOOL_CALLS; i++) {
+    const call = normaliseToolCall(toolCalls[i]);
+    if (!call) continue;
+    calls.push({ id: `${idPrefix}-tool-${stamp}-${i}`, ...call });
+  }
+
+  if (out.length === 0 && calls.length === 0) return null;
+  return {
+    ...(out.length > 0 && { suggestions: out }),
+    ...(calls.length > 0 && { toolCalls: calls }),
+  };
+}
+
+/**
+ * Trimmed, de-duplicated VM names (capped); null when none are usable
+ */
+function normaliseVMNames(names) {
+  if (!Array.isArray(names)) return null;
+  const out = [...new Set(names.filter((n) => typeof n === 'string' && n.trim()).map((n) => n.trim()))];
+  return out.length > 0 ? out.slice(0, MAX_VM_NAMES) : null;
+}
+
+function ratioInRange(value, min, max) {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function optionalText(value) {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
 }
 
 /**
@@ -139,6 +176,49 @@ function normaliseAction(a) {
       return typeof a.vmName === 'string' && a.vmName.trim()
         ? { type: 'excludeVM', vmName: a.vmName.trim() }
         : null;
+    case 'excludeVMs': {
+      const vmNames = normaliseVMNames(a.vmNames);
+      return vmNames ? { type: 'excludeVMs', vmNames } : null;
+    }
+    case 'setWorkloadType': {
+      const vmNames = normaliseVMNames(a.vmNames);
+      const workloadType = optionalText(a.workloadType);
+      return vmNames && workloadType ? { type: 'setWorkloadType', vmNames, workloadType } : null;
+    }
+    case 'moveVMsToWave': {
+      const vmNames = normaliseVMNames(a.vmNames);
+      return vmNames && Number.isInteger(a.wave) && a.wave >= 1
+        ? { type: 'moveVMsToWave', vmNames, wave: a.wave }
+        : null;
+    }
+    case 'setTargetPlatform': {
+      const vmNames = normaliseVMNames(a.vmNames);
+      return vmNames && TARGETS.includes(a.target)
+        ? { type: 'setTargetPlatform', vmNames, target: a.target }
+        : null;
+    }
+    case 'addRisk': {
+      const description = optionalText(a.description);
+      if (!description || !RISK_CATEGORIES.includes(a.category)) return null;
+      return {
+        type: 'addRisk',
+        category: a.category,
+        description,
+        status: RISK_STATUSES.includes(a.status) ? a.status : 'amber',
+        impactArea: optionalText(a.impactArea) ?? '',
+        mitigationPlan: optionalText(a.mitigationPlan) ?? '',
+      };
+    }
+    case 'setOvercommit': {
+      const cpu = ratioInRange(a.cpuOvercommit, 1, 10) ? a.cpuOvercommit : undefined;
+      const memory = ratioInRange(a.memoryOvercommit, 1, 2) ? a.memoryOvercommit : undefined;
+      if (cpu === undefined && memory === undefined) return null;
+      return {
+        type: 'setOvercommit',
+        ...(cpu !== undefined && { cpuOvercommit: cpu }),
+        ...(memory !== undefined && { memoryOvercommit: memory }),
+      };
+    }
     default:
       return null;
   }
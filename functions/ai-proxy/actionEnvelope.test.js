@@ -86,13 +86,13 @@ test('parseActionEnvelope: drops malformed entries but keeps valid ones', () =>
       { reason: 'no action' }, // missing action → drop
       { reason: 'bad type', action: { type: 'rmRf' } }, // unknown type → drop
       { reason: 'missing field', action: { type: 'excludeCluster' } }, // missing clusterName → drop
-      { reason: 'r2', action: { type: 'excludeByVMNamePattern', pattern: '^dev-' } },
+      { reason: 'r2', action: { type: 'excludeByVMNamePattern', pattern: 'dev-*' } },
     ],
   });
   const out = parseActionEnvelope(env);
   assert.equal(out.suggestions.length, 2);
   assert.equal(out.suggestions[0].action.clusterName, 'C1');
-  assert.equal(out.suggestions[1].action.pattern, '^dev-');
+  assert.equal(out.suggestions[1].action.pattern, 'dev-*');
 });
 
 test('parseActionEnvelope: returns null on unparseable JSON', () => {
@@ -126,3 +126,46 @@ test('parseActionEnvelope: trims whitespace from reason and action fields', () =
   assert.equal(out.suggestions[0].reason, 'trimmed');
   assert.equal(out.suggestions[0].action.clusterName, 'C1');
 });
+
+test('parseActionEnvelope: keeps known tool calls, capped and with ids', () => {
+  const env = JSON.stringify({
+    toolCalls: [
+      { tool: 'countVMsBy', args: { attribute: 'cluster' } },
+      { tool: 'deleteEverything', args: {} }, // unknown tool → drop
+      { tool: 'getWaveContents' }, // missing args → {}
+      { tool: 'filterVMs', args: { hasRDM: true } },
+      { tool: 'getCostBreakdown', args: { target: 'roks' } }, // over the cap → drop
+    ],
+  });
+  const out = parseActionEnvelope(env);
+  assert.equal(out.suggestions, undefined);
+  assert.deepEqual(out.toolCalls.map((c) => c.tool), ['countVMsBy', 'getWaveContents', 'filterVMs']);
+  assert.deepEqual(out.toolCalls[1].args, {});
+  assert.match(out.toolCalls[0].id, /^chat-tool-\d+-0$/);
+});
+
+test('parseActionEnvelope: validates plan-changing actions', () => {
+  const env = JSON.stringify({
+    suggestions: [
+      { reason: 'a', action: { type: 'excludeVMs', vmNames: [' vm-1 ', 'vm-1', 'vm-2', 3] } },
+      { reason: 'b', action: { type: 'moveVMsToWave', vmNames: ['db-01'], wave: 2 } },
+      { reason: 'c', action: { type: 'moveVMsToWave', vmNames: ['db-01'], wave: 0 } }, // bad wave → drop
+      { reason: 'd', action: { type: 'setTargetPlatform', vmNames: ['sap-01'], target: 'powervs' } },
+      { reason: 'e', action: { type: 'setTargetPlatform', vmNames: ['sap-01'], target: 'aws' } }, // bad target → drop
+      { reason: 'f', action: { type: 'addRisk', category: 'Backup & DR', description: ' No backup tooling ' } },
+      { reason: 'g', action: { type: 'addRisk', category: 'Weather', description: 'x' } }, // bad category → drop
+      { reason: 'h', action: { type: 'setOvercommit', cpuOvercommit: 4, memoryOvercommit: 3 } },
+      { reason: 'i', action: { type: 'setOvercommit', memoryOvercommit: 5 } }, // out of range → drop
+      { reason: 'j', action: { type: 'setWorkloadType', vmNames: ['db-01'], workloadType: 'Database' } },
+    ],
+  });
+  const actions = parseActionEnvelope(env).suggestions.map((s) => s.action);
+  assert.deepEqual(actions, [
+    { type: 'excludeVMs', vmNames: ['vm-1', 'vm-2'] },
+    { type: 'moveVMsToWave', vmNames: ['db-01'], wave: 2 },
+    { type: 'setTargetPlatform', vmNames: ['sap-01'], target: 'powervs' },
+    { type: 'addRisk', category: 'Backup & DR', description: 'No backup tooling', status: 'amber', impactArea: '', mitigationPlan: '' },
+    { type: 'setOvercommit', cpuOvercommit: 4 },
+    { type: 'setWorkloadType', vmNames: ['db-01'], workloadType: 'Database' },
+  ]);
+});
@@ -0,0 +1,112 @@
+/**
+ * Chat tool catalogue.
+ *
+ * The chat model can ask for data it does not have by adding `toolCalls` to
+ * its action envelope. The tools run in the browser against the loaded
+ * RVTools data; the user reviews each result and the decisions are posted back
+ * as `toolResults` on the next `/api/chat/stream` request. Declined calls are
+ * sent as `withheld` entries without a result.
+ *
+ * This file exports:
+ *   - CHAT_TOOLS: tool names with the argument documentation shown to the model
+ *   - normaliseToolCall(call): validated `{ tool, args }` or null
+ *   - normaliseToolResults(results): validated, size-capped results or null
+ *   - formatToolResults(results): the user-turn text carrying the results
+ *   - describeToolsForPrompt(): tool list for the chat system prompt
+ */
+
+const CHAT_TOOLS = {
+  filterVMs: {
+    description: 'List VMs matching filters',
+    args: '{ "cluster"?: string, "guestOS"?: string (substring), "powerState"?: "poweredOn"|"poweredOff"|"suspended", "namePattern"?: string (substring, or glob with * and ?), "hasRDM"?: boolean, "hasSharedDisk"?: boolean, "hasSnapshot"?: boolean, "minVCPUs"?: number, "minMemoryGiB"?: number, "limit"?: number }',
+  },
+  countVMsBy: {
+    description: 'Count VMs grouped by one attribute',
+    args: '{ "attribute": "cluster"|"guestOS"|"powerState"|"host"|"datacenter"|"hardwareVersion" }',
+  },
+  getPreflightResults: {
+    description: 'Pre-flight blockers and warnings, for named VMs or summarised per check',
+    args: '{ "mode": "roks"|"ove"|"vsi", "vmNames"?: string[], "checkId"?: string }',
+  },
+  getWaveContents: {
+    description: 'Migration waves from the saved wave plan; one wave in detail when "wave" is given',
+    args: '{ "wave"?: number (1-based) | string (wave name) }',
+  },
+  getCostBreakdown: {
+    description: 'Monthly cost by category and top line items of the current estimate',
+    args: '{ "target": "roks"|"ove"|"vsi" }',
+  },
+};
+
+const MAX_TOOL_CALLS = 3;
+const MAX_RESULT_CHARS = 12000;
+
+/**
+ * Validate a model-provided tool call. Returns null for unknown tools.
+ */
+function normaliseToolCall(call) {
+  if (!call || typeof call !== 'object' || typeof call.tool !== 'string') return null;
+  const tool = call.tool.trim();
+  if (!Object.prototype.hasOwnProperty.call(CHAT_TOOLS, tool)) return null;
+  const args = call.args && typeof call.args === 'object' && !Array.isArray(call.args) ? call.args : {};
+  return { tool, args };
+}
+
+/**
+ * Validate client-posted tool results. Results are re-serialised and truncated
+ * so an oversized result cannot blow the model's context window.
+ */
+function normaliseToolResults(results) {
+  if (!Array.isArray(results)) return null;
+  const out = [];
+  for (const r of results.slice(0, MAX_TOOL_CALLS)) {
+    const call = normaliseToolCall(r);
+    if (!call) continue;
+    if (r.withheld === true) {
+      out.push({ ...call, withheld: true });
+      continue;
+    }
+    let json;
+    try {
+      json = JSON.stringify(r.result ?? null);
+    } catch {
+      continue;
+    }
+    if (json.length > MAX_RESULT_CHARS) {
+      json = `${json.slice(0, MAX_RESULT_CHARS)}… (truncated)`;
+    }
+    out.push({ ...call, json });
+  }
+  return out.length > 0 ? out : null;
+}
+
+/**
+ * Render tool results as the next user turn; declined calls are listed as withheld
+ */
+function formatToolResults(results) {
+  const blocks = results.map(r =>
+    `${r.tool}(${JSON.stringify(r.args)}):\n${r.withheld ? '(withheld by user)' : r.json}`
+  );
+  const closing = results.some(r => r.withheld)
+    ? 'Answer the original question using the shared results and the aggregated context, and say what could not be checked because a result was withheld.'
+    : 'Answer the original question using these results.';
+  return `Results of the tools you requested, as shared by the user:\n\n${blocks.join('\n\n')}\n\n${closing}`;
+}
+
+/**
+ * Tool list for the chat system prompt
+ */
+function describeToolsForPrompt() {
+  return Object.entries(CHAT_TOOLS)
+    .map(([name, t]) => `  ${name} — ${t.description}\n    args: ${t.args}`)
+    .join('\n');
+}
+
+module.exports = {
+  CHAT_TOOLS,
+  MAX_TOOL_CALLS,
+  normaliseToolCall,
+  normaliseToolResults,
+  formatToolResults,
+  describeToolsForPrompt,
+};
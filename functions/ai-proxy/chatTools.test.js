@@ -0,0 +1,40 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normaliseToolResults, formatToolResults } = require('./chatTools');
+
+test('normaliseToolResults: drops unknown tools and non-array input', () => {
+  assert.equal(normaliseToolResults(undefined), null);
+  assert.equal(normaliseToolResults({ tool: 'countVMsBy' }), null);
+  assert.equal(normaliseToolResults([{ tool: 'shell', result: 'x' }]), null);
+
+  const out = normaliseToolResults([
+    { tool: 'countVMsBy', args: { attribute: 'powerState' }, result: { poweredOn: 10, poweredOff: 2 } },
+    { tool: 'shell', result: 'x' },
+  ]);
+  assert.equal(out.length, 1);
+  assert.equal(out[0].json, '{"poweredOn":10,"poweredOff":2}');
+});
+
+test('normaliseToolResults: truncates oversized results', () => {
+  const rows = Array.from({ length: 2000 }, (_, i) => ({ name: `vm-${i}`, cluster: 'Cluster-A' }));
+  const [out] = normaliseToolResults([{ tool: 'filterVMs', args: {}, result: rows }]);
+  assert.ok(out.json.length < 12100);
+  assert.ok(out.json.endsWith('… (truncated)'));
+});
+
+test('formatToolResults: labels each result with its call', () => {
+  const text = formatToolResults(normaliseToolResults([
+    { tool: 'getWaveContents', args: { wave: 2 }, result: { name: 'Wave 2', vmCount: 14 } },
+  ]));
+  assert.match(text, /getWaveContents\(\{"wave":2\}\):\n\{"name":"Wave 2","vmCount":14\}/);
+  assert.match(text, /Answer the original question/);
+});
+
+test('formatToolResults: lists declined calls as withheld', () => {
+  const text = formatToolResults(normaliseToolResults([
+    { tool: 'countVMsBy', args: { attribute: 'cluster' }, result: { A: 3 } },
+    { tool: 'filterVMs', args: { hasRDM: true }, withheld: true },
+  ]));
+  assert.match(text, /filterVMs\(\{"hasRDM":true\}\):\n\(withheld by user\)/);
+  assert.match(text, /say what could not be checked/);
+});
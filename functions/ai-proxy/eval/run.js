@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+/**
+ * Prompt evaluation harness
+ *
+ * Replays the golden datasets in eval/golden against a running AI proxy and
+ * scores the answers (classification accuracy, JSON validity, hallucinated VM
+ * names), recording prompt version, model and latency for every case.
+ *
+ * Usage:
+ *   node eval/run.js [--url http://localhost:8080] [--dataset classification] [--out report.json]
+ *   node eval/run.js --stub
+ *
+ * Options:
+ *   --url      Proxy to evaluate (default: AI_PROXY_URL or http://localhost:8080).
+ *              Point a local proxy at a local model with LLM_PROVIDER=openai.
+ *   --stub     Start this proxy against eval/stubModel.js instead, to check the
+ *              harness end to end without a model
+ *   --dataset  Only run one golden dataset (repeatable)
+ *   --out      Report path (default: eval/results/<timestamp>.json)
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { spawn } = require('child_process');
+const { SCORERS, summariseResults } = require('./scoring');
+const { startStubModel } = require('./stubModel');
+
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+const RESULTS_DIR = path.join(__dirname, 'results');
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+const STARTUP_TIMEOUT_MS = 15 * 1000;
+
+function parseArgs(argv) {
+  const args = { url: process.env.AI_PROXY_URL || 'http://localhost:8080', stub: false, datasets: [], out: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--stub') args.stub = true;
+    else if (arg === '--url') args.url = argv[++i];
+    else if (arg === '--dataset') args.datasets.push(argv[++i]);
+    else if (arg === '--out') args.out = argv[++i];
+    else throw new Error(`Unknown option: ${arg}`);
+  }
+  return args;
+}
+
+function loadDatasets(names) {
+  return fs.readdirSync(GOLDEN_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, file), 'utf8')))
+    .filter(dataset => names.length === 0 || names.includes(dataset.name));
+}
+
+/**
+ * Start the proxy on a free port against the stub model
+ *
+ * @returns {Promise<{ url: string, stop: () => Promise<void> }>}
+ */
+async function startStubProxy() {
+  const model = await startStubModel();
+  const port = 18000 + Math.floor(Math.random() * 1000);
+  const proxy = spawn(process.execPath, [path.join(__dirname, '..', 'index.js')], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      LLM_PROVIDER: 'openai',
+      OPENAI_BASE_URL: model.baseUrl,
+      OPENAI_MODEL_ID: 'eval-stub',
+    },
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+
+  const stop = async () => {
+    proxy.kill();
+    await model.close();
+  };
+
+  const url = `http://127.0.0.1:${port}`;
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(`${url}/health`);
+      if (res.ok) return { url, stop };
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  await stop();
+  throw new Error('Proxy did not start against the stub model');
+}
+
+async function post(url, body) {
+  const started = Date.now();
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Skip-Cache': 'true' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await res.text();
+    let parsed = null;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Scored as invalid JSON
+    }
+    return { ok: res.ok, status: res.status, body: parsed, roundTripMs: Date.now() - started };
+  } catch (error) {
+    return { ok: false, status: 0, body: null, error: error.message, roundTripMs: Date.now() - started };
+  }
+}
+
+async function runCase(proxyUrl, dataset, testCase) {
+  const response = await post(`${proxyUrl}${dataset.endpoint}`, testCase.request);
+  const score = SCORERS[dataset.name](testCase, response);
+  return {
+    dataset: dataset.name,
+    caseId: testCase.id,
+    status: response.status,
+    ...(response.error && { error: response.error }),
+    ...(response.body?.error && { error: response.body.message || response.body.error }),
+    cached: response.body?.cached === true,
+    provenance: {
+      promptVersion: response.body?.promptVersion ?? null,
+      model: response.body?.model ?? null,
+      provider: response.body?.provider ?? null,
+      latencyMs: response.body?.processingTimeMs ?? response.roundTripMs,
+      roundTripMs: response.roundTripMs,
+    },
+    score,
+  };
+}
+
+function printSummary(summary) {
+  for (const [name, entry] of Object.entries(summary)) {
+    const accuracy = entry.accuracy === null ? 'n/a' : `${(entry.accuracy * 100).toFixed(1)}%`;
+    console.log(
+      `${name}: accuracy ${accuracy} (${entry.correct}/${entry.labelled}), `
+      + `JSON valid ${entry.jsonValid}/${entry.cases}, hallucinated VM names ${entry.hallucinatedVMNames}, `
+      + `avg latency ${entry.avgLatencyMs}ms, prompt ${entry.promptVersions.join(', ') || 'unknown'}, `
+      + `model ${entry.models.join(', ') || 'unknown'}`
+    );
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const datasets = loadDatasets(args.datasets);
+  if (datasets.length === 0) {
+    throw new Error(`No golden datasets found in ${GOLDEN_DIR}`);
+  }
+  const unscored = datasets.filter(d => !SCORERS[d.name]);
+  if (unscored.length > 0) {
+    throw new Error(`No scorer for dataset: ${unscored.map(d => d.name).join(', ')}`);
+  }
+
+  const stubProxy = args.stub ? await startStubProxy() : null;
+  const proxyUrl = stubProxy ? stubProxy.url : args.url.replace(/\/+$/, '');
+
+  try {
+    const health = await fetch(`${proxyUrl}/health`).then(res => res.json()).catch(() => ({}));
+    const results = [];
+    for (const dataset of datasets) {
+      for (const testCase of dataset.cases) {
+        const result = await runCase(proxyUrl, dataset, testCase);
+        if (result.cached) {
+          console.warn(`[eval] ${dataset.name}/${testCase.id} was served from the proxy cache`);
+        }
+        results.push(result);
+      }
+    }
+
+    const summary = summariseResults(results);
+    const report = {
+      generatedAt: new Date().toISOString(),
+      proxyUrl: stubProxy ? 'stub' : proxyUrl,
+      provider: health.provider ?? null,
+      promptVersions: health.promptVersions ?? null,
+      summary,
+      results,
+    };
+
+    const outPath = args.out
+      ? path.resolve(args.out)
+      : path.join(RESULTS_DIR, `${report.generatedAt.replace(/[:.]/g, '-')}.json`);
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2) + '\n');
+
+    printSummary(summary);
+    console.log(`Report written to ${outPath}`);
+  } finally {
+    if (stubProxy) await stubProxy.stop();
+  }
+}
+
+main().catch((error) => {
+  console.error(`[eval] ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,172 @@
+/**
+ * Scoring for the prompt evaluation harness
+ *
+ * Each scorer takes a golden case and the proxy's HTTP response and returns
+ * plain numbers, so runs against different prompt versions or models can be
+ * diffed as JSON. Golden VM names follow the `<role>-<nnn>` pattern written by
+ * e2e/fixtures/generate-eval-golden.ts, which is what lets us recognise VM
+ * names the model made up.
+ */
+
+const ANONYMISED_VM_NAME = /\b(?:web|db|sql|app|api|dc|dns|backup|mq|k8s|ocp|vm)-\d{3}\b/g;
+
+const GO_NO_GO_VALUES = ['go', 'conditional', 'no-go'];
+
+/**
+ * VM names present in a golden request
+ *
+ * @param {Object} request - Request body sent to the proxy
+ * @returns {Set<string>}
+ */
+function knownVMNames(request) {
+  const vms = Array.isArray(request?.vms) ? request.vms : [];
+  return new Set(vms.map(vm => vm.vmName));
+}
+
+/**
+ * Names the model returned that do not exist in the input
+ *
+ * @param {Iterable<string>} names - VM names found in the output
+ * @param {Set<string>} known - VM names from the input
+ * @returns {string[]} Unique hallucinated names, sorted
+ */
+function findHallucinatedVMNames(names, known) {
+  return [...new Set([...names].filter(name => !known.has(name)))].sort();
+}
+
+/**
+ * Anonymised VM names mentioned anywhere in free-text output
+ *
+ * @param {unknown} value - Parsed model output
+ * @returns {string[]}
+ */
+function extractVMNames(value) {
+  return JSON.stringify(value ?? '').match(ANONYMISED_VM_NAME) || [];
+}
+
+/**
+ * Score a classification case: accuracy against expected labels, output shape
+ * and VM names that were not in the batch
+ *
+ * @param {Object} testCase - Golden case with `request.vms` and `expected.labels`
+ * @param {{ ok: boolean, body: Object|null }} response - Proxy response
+ * @returns {Object} Case score
+ */
+function scoreClassification(testCase, response) {
+  const known = knownVMNames(testCase.request);
+  const labels = testCase.expected?.labels || {};
+  const classifications = response.ok && Array.isArray(response.body?.classifications)
+    ? response.body.classifications
+    : null;
+
+  const jsonValid = !!classifications && classifications.every(c =>
+    c && typeof c.vmName === 'string' && typeof c.workloadType === 'string'
+    && typeof c.confidence === 'number' && c.confidence >= 0 && c.confidence <= 1
+  );
+
+  const byName = new Map((classifications || []).map(c => [c.vmName, c.workloadType]));
+  const labelled = Object.keys(labels);
+  const mismatches = labelled
+    .filter(vmName => byName.get(vmName) !== labels[vmName])
+    .map(vmName => ({ vmName, expected: labels[vmName], actual: byName.get(vmName) ?? null }));
+
+  return {
+    jsonValid,
+    labelled: labelled.length,
+    correct: labelled.length - mismatches.length,
+    accuracy: labelled.length > 0 ? (labelled.length - mismatches.length) / labelled.length : null,
+    missingVMs: [...known].filter(vmName => !byName.has(vmName)).sort(),
+    hallucinatedVMNames: findHallucinatedVMNames(byName.keys(), known),
+    mismatches,
+  };
+}
+
+/**
+ * Score a risk analysis case: go/no-go label against the accepted values,
+ * output shape and VM names the model invented
+ *
+ * @param {Object} testCase - Golden case with `expected.goNoGo` (accepted recommendations)
+ * @param {{ ok: boolean, body: Object|null }} response - Proxy response
+ * @returns {Object} Case score
+ */
+function scoreRiskAnalysis(testCase, response) {
+  const known = knownVMNames(testCase.request);
+  const result = response.ok ? response.body?.result : null;
+  const goNoGo = result?.goNoGoAnalysis;
+
+  const jsonValid = !!result
+    && ['severityAdjustments', 'missedRisks', 'securityRisks'].every(key => Array.isArray(result[key]))
+    && !!goNoGo && GO_NO_GO_VALUES.includes(goNoGo.recommendation)
+    && typeof goNoGo.confidence === 'number' && goNoGo.confidence >= 0 && goNoGo.confidence <= 1;
+
+  const accepted = testCase.expected?.goNoGo || [];
+  const recommendation = goNoGo?.recommendation ?? null;
+  const labelMatch = accepted.includes(recommendation);
+
+  return {
+    jsonValid,
+    labelled: accepted.length > 0 ? 1 : 0,
+    correct: labelMatch ? 1 : 0,
+    accuracy: accepted.length > 0 ? (labelMatch ? 1 : 0) : null,
+    recommendation,
+    hallucinatedVMNames: findHallucinatedVMNames(extractVMNames(result), known),
+  };
+}
+
+const SCORERS = {
+  classification: scoreClassification,
+  'risk-analysis': scoreRiskAnalysis,
+};
+
+/**
+ * Aggregate case results per dataset
+ *
+ * @param {Array<Object>} results - Case results with `dataset`, `score` and `provenance`
+ * @returns {Object} Summary keyed by dataset name
+ */
+function summariseResults(results) {
+  const summary = {};
+  for (const { dataset, score, provenance } of results) {
+    const entry = summary[dataset] || {
+      cases: 0,
+      jsonValid: 0,
+      labelled: 0,
+      correct: 0,
+      hallucinatedVMNames: 0,
+      totalLatencyMs: 0,
+      promptVersions: [],
+      models: [],
+    };
+    entry.cases++;
+    if (score.jsonValid) entry.jsonValid++;
+    entry.labelled += score.labelled;
+    entry.correct += score.correct;
+    entry.hallucinatedVMNames += score.hallucinatedVMNames.length;
+    entry.totalLatencyMs += provenance.latencyMs || 0;
+    if (provenance.promptVersion && !entry.promptVersions.includes(provenance.promptVersion)) {
+      entry.promptVersions.push(provenance.promptVersion);
+    }
+    if (provenance.model && !entry.models.includes(provenance.model)) {
+      entry.models.push(provenance.model);
+    }
+    summary[dataset] = entry;
+  }
+
+  for (const entry of Object.values(summary)) {
+    entry.jsonValidityRate = entry.jsonValid / entry.cases;
+    entry.accuracy = entry.labelled > 0 ? entry.correct / entry.labelled : null;
+    entry.avgLatencyMs = Math.round(entry.totalLatencyMs / entry.cases);
+    delete entry.totalLatencyMs;
+  }
+  return summary;
+}
+
+module.exports = {
+  ANONYMISED_VM_NAME,
+  SCORERS,
+  findHallucinatedVMNames,
+  extractVMNames,
+  scoreClassification,
+  scoreRiskAnalysis,
+  summariseResults,
+};
@@ -0,0 +1,88 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { scoreClassification, scoreRiskAnalysis, summariseResults } = require('./scoring');
+const { getPromptVersion } = require('../prompts');
+
+const classificationCase = {
+  id: 'case',
+  request: { vms: [{ vmName: 'web-001' }, { vmName: 'db-001' }, { vmName: 'vm-001' }] },
+  expected: { labels: { 'web-001': 'Middleware / Application Servers', 'db-001': 'Databases' } },
+};
+
+test('scoreClassification: accuracy over labelled VMs, missing and hallucinated names', () => {
+  const score = scoreClassification(classificationCase, {
+    ok: true,
+    body: {
+      classifications: [
+        { vmName: 'web-001', workloadType: 'Middleware / Application Servers', confidence: 0.9 },
+        { vmName: 'db-001', workloadType: 'Other', confidence: 0.4 },
+        { vmName: 'db-002', workloadType: 'Databases', confidence: 0.8 },
+      ],
+    },
+  });
+
+  assert.equal(score.jsonValid, true);
+  assert.equal(score.accuracy, 0.5);
+  assert.deepEqual(score.mismatches, [{ vmName: 'db-001', expected: 'Databases', actual: 'Other' }]);
+  assert.deepEqual(score.missingVMs, ['vm-001']);
+  assert.deepEqual(score.hallucinatedVMNames, ['db-002']);
+});
+
+test('scoreClassification: failed requests and malformed entries are invalid JSON', () => {
+  const failed = scoreClassification(classificationCase, { ok: false, body: { error: 'Classification failed' } });
+  assert.equal(failed.jsonValid, false);
+  assert.equal(failed.accuracy, 0);
+
+  const malformed = scoreClassification(classificationCase, {
+    ok: true,
+    body: { classifications: [{ vmName: 'web-001', workloadType: 'Databases', confidence: 'high' }] },
+  });
+  assert.equal(malformed.jsonValid, false);
+});
+
+test('scoreRiskAnalysis: go/no-go against accepted labels and VM names in free text', () => {
+  const riskCase = { id: 'risk', request: { data: { totalVMs: 3 } }, expected: { goNoGo: ['conditional', 'no-go'] } };
+  const score = scoreRiskAnalysis(riskCase, {
+    ok: true,
+    body: {
+      result: {
+        severityAdjustments: [],
+        missedRisks: [{ domain: 'Technical', title: 'Snapshot on db-007', severity: 'high', description: '' }],
+        securityRisks: [],
+        goNoGoAnalysis: { recommendation: 'go', confidence: 0.7, reasoning: 'Fine', keyConditions: [] },
+      },
+    },
+  });
+
+  assert.equal(score.jsonValid, true);
+  assert.equal(score.recommendation, 'go');
+  assert.equal(score.accuracy, 0);
+  assert.deepEqual(score.hallucinatedVMNames, ['db-007']);
+});
+
+test('summariseResults: aggregates per dataset with prompt versions and models', () => {
+  const provenance = { promptVersion: getPromptVersion('classify'), model: 'granite3.3:8b', latencyMs: 100 };
+  const summary = summariseResults([
+    { dataset: 'classification', score: { jsonValid: true, labelled: 2, correct: 2, hallucinatedVMNames: [] }, provenance },
+    { dataset: 'classification', score: { jsonValid: false, labelled: 2, correct: 0, hallucinatedVMNames: ['vm-009'] }, provenance: { ...provenance, latencyMs: 300 } },
+  ]);
+
+  assert.deepEqual(summary.classification, {
+    cases: 2,
+    jsonValid: 1,
+    labelled: 4,
+    correct: 2,
+    hallucinatedVMNames: 1,
+    promptVersions: [getPromptVersion('classify')],
+    models: ['granite3.3:8b'],
+    jsonValidityRate: 0.5,
+    accuracy: 0.5,
+    avgLatencyMs: 200,
+  });
+});
+
+test('getPromptVersion: stable short hash per task, unknown for other tasks', () => {
+  assert.match(getPromptVersion('classify'), /^[0-9a-f]{12}$/);
+  assert.notEqual(getPromptVersion('classify'), getPromptVersion('risk-analysis'));
+  assert.equal(getPromptVersion('no-such-task'), 'unknown');
+});
@@ -0,0 +1,94 @@
+/**
+ * Deterministic OpenAI-compatible model server for the evaluation harness
+ *
+ * Answers `POST /v1/chat/completions` with canned, rule-based JSON so the
+ * harness, the proxy's parsing and the scoring can be exercised without a
+ * real model. Scores from a stub run say nothing about prompt quality.
+ */
+
+const http = require('http');
+
+const NAME_RULES = [
+  { pattern: /\b(db|sql|oracle|postgres|mongo)|database/i, workloadType: 'Databases' },
+  { pattern: /\b(web|app|api|www)\b|\b(web|app|api)-/i, workloadType: 'Middleware / Application Servers' },
+  { pattern: /\b(dc|dns|ldap)\b|\b(dc|dns)-/i, workloadType: 'Identity & Access' },
+  { pattern: /\bbackup/i, workloadType: 'Backup & Recovery' },
+];
+
+/**
+ * Answer a classification prompt from the VM lines it contains
+ */
+function classify(prompt) {
+  const lines = prompt.match(/^\d+\. Name: "[^"]*".*$/gm) || [];
+  return lines.map(line => {
+    const vmName = line.match(/Name: "([^"]*)"/)[1];
+    const rule = NAME_RULES.find(r => r.pattern.test(line));
+    return {
+      vmName,
+      workloadType: rule ? rule.workloadType : 'Other',
+      confidence: rule ? 0.8 : 0.3,
+      reasoning: rule ? 'Matched a name or annotation keyword' : 'No keyword matched',
+      alternatives: [],
+    };
+  });
+}
+
+/**
+ * Answer a risk analysis prompt from its blocker line
+ */
+function analyseRisk(prompt) {
+  const hasBlockers = /Key blockers: \S/.test(prompt);
+  return {
+    severityAdjustments: [],
+    missedRisks: [],
+    securityRisks: [],
+    goNoGoAnalysis: {
+      recommendation: hasBlockers ? 'conditional' : 'go',
+      confidence: 0.6,
+      reasoning: hasBlockers ? 'Blockers must be remediated before migration.' : 'No blockers were reported.',
+      keyConditions: hasBlockers ? ['Remediate the listed blockers'] : [],
+    },
+  };
+}
+
+function respond(prompt) {
+  if (prompt.includes('workload classification expert')) return classify(prompt);
+  if (prompt.includes('migration risk assessment expert')) return analyseRisk(prompt);
+  return {};
+}
+
+/**
+ * Start the stub on a free local port
+ *
+ * @returns {Promise<{ baseUrl: string, close: () => Promise<void> }>}
+ */
+function startStubModel() {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+        res.writeHead(404).end();
+        return;
+      }
+      const body = JSON.parse(raw || '{}');
+      const prompt = (body.messages || []).map(m => m.content).join('\n');
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(respond(prompt)) }, finish_reason: 'stop' }],
+      }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        baseUrl: `http://127.0.0.1:${server.address().port}/v1`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+module.exports = { startStubModel, classify, analyseRisk };
@@ -1,10 +1,11 @@
 /**
- * IBM Code Engine - AI Proxy for watsonx.ai
+ * IBM Code Engine - AI Proxy for watsonx.ai or an OpenAI-compatible model server
  *
- * This service proxies requests to IBM watsonx.ai, keeping API credentials
- * server-side and providing caching to manage API costs.
+ * This service proxies requests to the configured LLM provider, keeping API
+ * credentials server-side and providing caching to manage API costs.
  *
  * Environment Variables:
+ *   - LLM_PROVIDER: `watsonx` (default) or `openai` — see providers.js for provider settings
  *   - IBM_CLOUD_API_KEY: IBM Cloud API key with watsonx.ai access
  *   - WATSONX_PROJECT_ID: watsonx.ai project ID
  *   - WATSONX_MODEL_ID: Model to use (default: ibm/granite-3-8b-instruct)
@@ -14,7 +15,7 @@
 
 const express = require('express');
 const cors = require('cors');
-const { generateText, chat, generateTextStream, chatStream, chatStreamWithActions } = require('./watsonx');
+const { createProvider } = require('./providers');
 const {
   buildClassificationPrompt,
   buildRightsizingPrompt,
@@ -30,19 +31,22 @@ const {
   buildReportNarrativePrompt,
   buildDiscoveryQuestionsPrompt,
   buildInterviewPrompt,
+  PROMPT_VERSIONS,
+  getPromptVersion,
 } = require('./prompts');
+const { normaliseToolResults, formatToolResults } = require('./chatTools');
 
 const app = express();
 const PORT = process.env.PORT || 8080;
 
 // Configuration
-const API_KEY = process.env.IBM_CLOUD_API_KEY;
-const PROJECT_ID = process.env.WATSONX_PROJECT_ID;
-const MODEL_ID = process.env.WATSONX_MODEL_ID || 'ibm/granite-3-3-8b-instruct';
+const provider = createProvider(process.env);
+const { generateText, chat, generateTextStream, chatStreamWithActions } = provider;
+const MODEL_ID = provider.models.default;
 
 // Tiered model selection — lighter model for simple tasks, larger for complex reasoning
-const FAST_MODEL = process.env.WATSONX_FAST_MODEL_ID || 'ibm/granite-3-3-8b-instruct';
-const COMPLEX_MODEL = process.env.WATSONX_COMPLEX_MODEL_ID || 'ibm/granite-4-h-small';
+const FAST_MODEL = provider.models.fast;
+const COMPLEX_MODEL = provider.models.complex;
 
 /**
  * Select model based on task complexity
@@ -58,6 +62,19 @@ function selectModel(task) {
   return FAST_MODEL;
 }
 
+/**
+ * Provenance fields recorded on every AI result: which provider, model and
+ * prompt version produced it, and how long it took
+ */
+function provenance(task, modelId, startTime) {
+  return {
+    model: modelId,
+    provider: provider.name,
+    promptVersion: getPromptVersion(task),
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
 /**
  * Run batches in parallel with concurrency limit
  * @param {Array} items - Items to process
@@ -185,20 +202,25 @@ app.use('/api', rateLimit);
 app.get('/health', (req, res) => {
   res.status(200).json({
     status: 'healthy',
+    provider: provider.name,
+    providerLabel: provider.label,
     model: MODEL_ID,
     fastModel: FAST_MODEL,
     complexModel: COMPLEX_MODEL,
-    projectId: PROJECT_ID ? 'configured' : 'not configured',
+    promptVersions: PROMPT_VERSIONS,
+    ...(provider.name === 'watsonx' && {
+      projectId: provider.readiness.checks.projectId === 'configured' ? 'configured' : 'not configured',
+    }),
     streaming: true,
   });
 });
 
 app.get('/ready', (req, res) => {
-  const ready = !!API_KEY && !!PROJECT_ID;
+  const { ready, checks } = provider.readiness;
   res.status(ready ? 200 : 503).json({
     status: ready ? 'ready' : 'not ready',
-    apiKey: API_KEY ? 'configured' : 'missing',
-    projectId: PROJECT_ID ? 'configured' : 'missing',
+    provider: provider.name,
+    ...checks,
   });
 });
 
@@ -402,8 +424,6 @@ app.post('/api/classify', async (req, res) => {
         const prompt = buildClassificationPrompt(batch, categories);
         const rawResponse = await generateText({
           prompt,
-          apiKey: API_KEY,
-          projectId: PROJECT_ID,
           modelId,
           parameters: { max_new_tokens: 8192, temperature: 0.1 },
         });
@@ -418,8 +438,7 @@ app.post('/api/classify', async (req, res) => {
 
     const result = {
       classifications: allClassifications,
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('classify', modelId, startTime),
       totalBatches: Math.ceil(vms.length / 10),
     };
 
@@ -466,8 +485,6 @@ app.post('/api/rightsizing', async (req, res) => {
         const prompt = buildRightsizingPrompt(batch, availableProfiles);
         const rawResponse = await generateText({
           prompt,
-          apiKey: API_KEY,
-          projectId: PROJECT_ID,
           modelId,
           parameters: { max_new_tokens: 8192, temperature: 0.1 },
         });
@@ -482,8 +499,7 @@ app.post('/api/rightsizing', async (req, res) => {
 
     const result = {
       recommendations: allRecommendations,
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('rightsizing', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -530,8 +546,6 @@ app.post('/api/insights', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.2 },
     });
@@ -584,16 +598,14 @@ app.post('/api/insights', async (req, res) => {
       // Don't cache invalid responses - return without caching
       return res.json({
         insights: normalizedInsights,
-        model: modelId,
-        processingTimeMs: Date.now() - startTime,
+        ...provenance('insights', modelId, startTime),
         warning: 'Response may be incomplete',
       });
     }
 
     const result = {
       insights: normalizedInsights,
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('insights', modelId, startTime),
     };
 
     // Only cache valid responses
@@ -643,8 +655,6 @@ app.post('/api/chat', async (req, res) => {
 
     const responseText = await chat({
       messages,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_tokens: 1024, temperature: 0.3 },
     });
@@ -655,8 +665,7 @@ app.post('/api/chat', async (req, res) => {
     const result = {
       response: responseText,
       suggestedFollowUps,
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('chat', modelId, startTime),
     };
 
     // Chat is not cached (conversational)
@@ -694,8 +703,6 @@ app.post('/api/wave-suggestions', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.2 },
     });
@@ -707,8 +714,7 @@ app.post('/api/wave-suggestions', async (req, res) => {
         ...parsed,
         source: 'watsonx',
       },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('wave-suggestions', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -746,8 +752,6 @@ app.post('/api/cost-optimization', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.2 },
     });
@@ -759,8 +763,7 @@ app.post('/api/cost-optimization', async (req, res) => {
         ...parsed,
         source: 'watsonx',
       },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('cost-optimization', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -799,8 +802,6 @@ app.post('/api/remediation', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.2 },
     });
@@ -812,8 +813,7 @@ app.post('/api/remediation', async (req, res) => {
         ...parsed,
         source: 'watsonx',
       },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('remediation', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -881,13 +881,18 @@ function generateSuggestedFollowUps(context) {
 
 /**
  * POST /api/chat/stream - Streaming chat endpoint (SSE)
+ *
+ * A follow-up turn may carry `toolResults` (the user's approved results of the
+ * tool calls requested in the previous answer, and withheld entries for the
+ * declined ones) instead of a message.
  */
 app.post('/api/chat/stream', async (req, res) => {
   try {
-    const { message, conversationHistory, context } = req.body;
+    const { message, conversationHistory, context, toolResults } = req.body;
+    const sharedResults = normaliseToolResults(toolResults);
 
-    if (!message || typeof message !== 'string') {
-      return res.status(400).json({ error: 'Request must include a message string' });
+    if ((!message || typeof message !== 'string') && !sharedResults) {
+      return res.status(400).json({ error: 'Request must include a message string or toolResults' });
     }
 
     const modelId = selectModel('chat');
@@ -897,10 +902,16 @@ app.post('/api/chat/stream', async (req, res) => {
     if (conversationHistory && Array.isArray(conversationHistory)) {
       const recentHistory = conversationHistory.slice(-20);
       for (const msg of recentHistory) {
+        if (!msg.content) continue;
         messages.push({ role: msg.role, content: msg.content });
       }
     }
-    messages.push({ role: 'user', content: message });
+    if (message) {
+      messages.push({ role: 'user', content: message });
+    }
+    if (sharedResults) {
+      messages.push({ role: 'user', content: formatToolResults(sharedResults) });
+    }
 
     // Set SSE headers
     res.writeHead(200, {
@@ -908,12 +919,11 @@ app.post('/api/chat/stream', async (req, res) => {
       'Cache-Control': 'no-cache',
       Connection: 'keep-alive',
       'X-Model-Id': modelId,
+      'X-Prompt-Version': getPromptVersion('chat'),
     });
 
     await chatStreamWithActions({
       messages,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_tokens: 1024, temperature: 0.3 },
       res,
@@ -947,12 +957,11 @@ app.post('/api/insights/stream', async (req, res) => {
       'Cache-Control': 'no-cache',
       Connection: 'keep-alive',
       'X-Model-Id': modelId,
+      'X-Prompt-Version': getPromptVersion('insights'),
     });
 
     await generateTextStream({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.2 },
       res,
@@ -995,8 +1004,6 @@ app.post('/api/target-selection', async (req, res) => {
         const prompt = buildTargetSelectionPrompt(batch);
         const rawResponse = await generateText({
           prompt,
-          apiKey: API_KEY,
-          projectId: PROJECT_ID,
           modelId,
           parameters: { max_new_tokens: 8192, temperature: 0.2 },
         });
@@ -1011,8 +1018,7 @@ app.post('/api/target-selection', async (req, res) => {
 
     const result = {
       selections: allSelections,
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('target-selection', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1046,8 +1052,6 @@ app.post('/api/wave-sequencing', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 4096, temperature: 0.2 },
     });
@@ -1056,8 +1060,7 @@ app.post('/api/wave-sequencing', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('wave-sequencing', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1091,8 +1094,6 @@ app.post('/api/anomaly-detection', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 4096, temperature: 0.2 },
     });
@@ -1101,8 +1102,7 @@ app.post('/api/anomaly-detection', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('anomaly-detection', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1136,8 +1136,6 @@ app.post('/api/risk-analysis', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 4096, temperature: 0.2 },
     });
@@ -1146,8 +1144,7 @@ app.post('/api/risk-analysis', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('risk-analysis', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1181,8 +1178,6 @@ app.post('/api/report-narrative', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 4096, temperature: 0.3 },
     });
@@ -1191,8 +1186,7 @@ app.post('/api/report-narrative', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('report-narrative', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1226,8 +1220,6 @@ app.post('/api/discovery-questions', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 2048, temperature: 0.3 },
     });
@@ -1236,8 +1228,7 @@ app.post('/api/discovery-questions', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('discovery-questions', modelId, startTime),
     };
 
     setCache(cacheKey, result);
@@ -1270,8 +1261,6 @@ app.post('/api/interview', async (req, res) => {
 
     const rawResponse = await generateText({
       prompt,
-      apiKey: API_KEY,
-      projectId: PROJECT_ID,
       modelId,
       parameters: { max_new_tokens: 1024, temperature: 0.3 },
     });
@@ -1280,8 +1269,7 @@ app.post('/api/interview', async (req, res) => {
 
     const result = {
       result: { ...parsed, source: 'watsonx' },
-      model: modelId,
-      processingTimeMs: Date.now() - startTime,
+      ...provenance('interview', modelId, startTime),
     };
 
     return res.json(result);
@@ -1295,8 +1283,8 @@ app.post('/api/interview', async (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`AI proxy server listening on port ${PORT}`);
-  console.log(`API key configured: ${API_KEY ? 'Yes' : 'No'}`);
-  console.log(`Project ID configured: ${PROJECT_ID ? 'Yes' : 'No'}`);
+  console.log(`LLM provider: ${provider.label}${provider.baseUrl ? ` (${provider.baseUrl})` : ''}`);
+  console.log(`Provider ready: ${provider.readiness.ready ? 'Yes' : 'No'}`, provider.readiness.checks);
   console.log(`Models — default: ${MODEL_ID}, fast: ${FAST_MODEL}, complex: ${COMPLEX_MODEL}`);
   console.log(`CORS: ${process.env.ALLOWED_ORIGINS ? 'restricted' : 'open'}`);
 });
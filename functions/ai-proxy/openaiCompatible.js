@@ -0,0 +1,217 @@
+/**
+ * OpenAI-compatible chat-completions client
+ *
+ * Talks to any server exposing `POST {baseUrl}/chat/completions` — vLLM,
+ * Ollama, llama.cpp server or a hosted OpenAI-compatible endpoint — so the
+ * proxy can run fully air-gapped against a local model. Text generation is
+ * sent as a single user message; watsonx-style generation parameters are
+ * mapped to their chat-completions equivalents.
+ */
+
+const { pipeSSE, pipeChatStreamWithActions } = require('./streaming');
+
+const GENERATION_DEFAULTS = {
+  max_tokens: 2048,
+  temperature: 0.1,
+  top_p: 1,
+};
+
+const CHAT_DEFAULTS = {
+  max_tokens: 2048,
+  temperature: 0.3,
+  top_p: 0.95,
+  frequency_penalty: 0.1,
+};
+
+/**
+ * Map watsonx text-generation parameters onto chat-completions parameters.
+ * Parameters without an equivalent (decoding_method, repetition_penalty) are dropped.
+ */
+function toChatParameters(parameters = {}) {
+  const {
+    max_new_tokens,
+    stop_sequences,
+    decoding_method: _decodingMethod,
+    repetition_penalty: _repetitionPenalty,
+    ...rest
+  } = parameters;
+  const mapped = { ...rest };
+  if (max_new_tokens != null) mapped.max_tokens = max_new_tokens;
+  if (Array.isArray(stop_sequences) && stop_sequences.length > 0) mapped.stop = stop_sequences;
+  return mapped;
+}
+
+/**
+ * POST a chat-completions request
+ *
+ * @param {Object} options
+ * @param {string} options.baseUrl - Server base URL including the `/v1` prefix
+ * @param {string} [options.apiKey] - Bearer token; local servers usually need none
+ * @param {Object} options.body - Request body
+ * @param {boolean} [options.stream] - Request an SSE stream
+ * @returns {Promise<Response>}
+ */
+async function postChatCompletions({ baseUrl, apiKey, body, stream = false }) {
+  const headers = {
+    'Content-Type': 'application/json',
+    Accept: stream ? 'text/event-stream' : 'application/json',
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(stream ? { ...body, stream: true } : body),
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`OpenAI-compatible API error ${response.status}: ${errorBody}`);
+  }
+  return response;
+}
+
+/**
+ * Non-streaming chat completion
+ *
+ * @param {Object} options
+ * @param {Array<{role: string, content: string}>} options.messages - Chat messages
+ * @param {string} options.baseUrl - Server base URL including the `/v1` prefix
+ * @param {string} [options.apiKey] - Bearer token
+ * @param {string} options.modelId - Model identifier as known to the server
+ * @param {Object} [options.parameters] - Chat-completions parameters
+ * @returns {Promise<string>} Assistant response
+ */
+async function chat({
+  messages,
+  baseUrl,
+  apiKey,
+  modelId,
+  parameters = {},
+}) {
+  const startTime = Date.now();
+  const response = await postChatCompletions({
+    baseUrl,
+    apiKey,
+    body: { model: modelId, messages, ...CHAT_DEFAULTS, ...parameters },
+  });
+
+  const data = await response.json();
+  console.log(`[openai] Chat response in ${Date.now() - startTime}ms, tokens: ${data.usage?.completion_tokens || 'unknown'}`);
+
+  if (!data.choices || data.choices.length === 0) {
+    throw new Error('OpenAI-compatible chat returned empty choices');
+  }
+
+  return data.choices[0].message.content;
+}
+
+/**
+ * Text generation as a single-turn chat
+ *
+ * @param {Object} options
+ * @param {string} options.prompt - The prompt to send
+ * @param {string} options.baseUrl - Server base URL including the `/v1` prefix
+ * @param {string} [options.apiKey] - Bearer token
+ * @param {string} options.modelId - Model identifier as known to the server
+ * @param {Object} [options.parameters] - watsonx-style generation parameters
+ * @returns {Promise<string>} Generated text
+ */
+async function generateText({
+  prompt,
+  baseUrl,
+  apiKey,
+  modelId,
+  parameters = {},
+}) {
+  return chat({
+    messages: [{ role: 'user', content: prompt }],
+    baseUrl,
+    apiKey,
+    modelId,
+    parameters: { ...GENERATION_DEFAULTS, ...toChatParameters(parameters) },
+  });
+}
+
+/**
+ * Stream text generation as a single-turn chat via SSE
+ *
+ * @param {Object} options - As `generateText`, plus `res`
+ * @param {import('express').Response} options.res - Express response to pipe SSE into
+ */
+async function generateTextStream({
+  prompt,
+  baseUrl,
+  apiKey,
+  modelId,
+  parameters = {},
+  res,
+}) {
+  const response = await postChatCompletions({
+    baseUrl,
+    apiKey,
+    stream: true,
+    body: {
+      model: modelId,
+      messages: [{ role: 'user', content: prompt }],
+      ...GENERATION_DEFAULTS,
+      ...toChatParameters(parameters),
+    },
+  });
+  await pipeSSE(response, res);
+}
+
+/**
+ * Stream a chat response via SSE
+ *
+ * @param {Object} options - As `chat`, plus `res`
+ * @param {import('express').Response} options.res - Express response to pipe SSE into
+ */
+async function chatStream({
+  messages,
+  baseUrl,
+  apiKey,
+  modelId,
+  parameters = {},
+  res,
+}) {
+  const response = await postChatCompletions({
+    baseUrl,
+    apiKey,
+    stream: true,
+    body: { model: modelId, messages, ...CHAT_DEFAULTS, ...parameters },
+  });
+  await pipeSSE(response, res);
+}
+
+/**
+ * Streaming chat that also detects an optional `<<<ACTIONS:` envelope.
+ * See `pipeChatStreamWithActions` in streaming.js.
+ */
+async function chatStreamWithActions({
+  messages,
+  baseUrl,
+  apiKey,
+  modelId,
+  parameters = {},
+  res,
+}) {
+  const response = await postChatCompletions({
+    baseUrl,
+    apiKey,
+    stream: true,
+    body: { model: modelId, messages, ...CHAT_DEFAULTS, ...parameters },
+  });
+  await pipeChatStreamWithActions(response, res);
+}
+
+module.exports = {
+  generateText,
+  chat,
+  generateTextStream,
+  chatStream,
+  chatStreamWithActions,
+  toChatParameters,
+};
@@ -4,6 +4,9 @@
  * Each function returns a formatted prompt string for watsonx.ai
  */
 
+const crypto = require('crypto');
+const { describeToolsForPrompt, MAX_TOOL_CALLS } = require('./chatTools');
+
 /**
  * Build a workload classification prompt for a batch of VMs
  *
@@ -308,9 +311,10 @@ When answering:
 - Use markdown formatting for clarity (lists, bold, code blocks)
 
 Action envelope (optional):
-- If — and only if — your answer recommends a concrete change to migration scope,
-  you MAY append a structured action envelope after your prose answer so the user
-  can apply it with one click. Otherwise omit the envelope entirely.
+- If — and only if — your answer recommends a concrete change to the migration
+  plan (scope, workload types, waves, risks, sizing or target platform), you MAY
+  append a structured action envelope after your prose answer so the user can
+  apply it with one click. Otherwise omit the envelope entirely.
 - The envelope MUST be the last thing in your response and MUST begin with the
   literal sentinel line on its own line:
   <<<ACTIONS:
@@ -322,14 +326,37 @@ Action envelope (optional):
   ] }
 - Action is exactly one of:
   { "type": "excludeCluster",              "clusterName": "<exact cluster name>" }
-  { "type": "excludeByResourcePoolPattern","pattern":     "<regex>" }
-  { "type": "excludeByVMNamePattern",      "pattern":     "<regex>" }
+  { "type": "excludeByResourcePoolPattern","pattern":     "<substring, or glob with * and ?>" }
+  { "type": "excludeByVMNamePattern",      "pattern":     "<substring, or glob with * and ?>" }
   { "type": "forceIncludeVM",              "vmName":      "<exact VM name>" }
   { "type": "excludeVM",                   "vmName":      "<exact VM name>" }
+  { "type": "excludeVMs",        "vmNames": ["<exact VM name>", ...] }
+  { "type": "setWorkloadType",   "vmNames": [...], "workloadType": "<e.g. Database>" }
+  { "type": "moveVMsToWave",     "vmNames": [...], "wave": <1-based wave number> }
+  { "type": "setTargetPlatform", "vmNames": [...], "target": "roks"|"vsi"|"powervs" }
+  { "type": "addRisk", "category": "Financial"|"Business / Org"|"Skills / Knowledge"|"Ops & Tooling"|"Backup & DR"|"Technical",
+    "description": "<risk>", "status": "red"|"amber"|"green", "impactArea"?: "<area>", "mitigationPlan"?: "<plan>" }
+  { "type": "setOvercommit", "cpuOvercommit"?: <1-10>, "memoryOvercommit"?: <1-2> }
 - Only reference cluster, VM, resource-pool, or annotation names that appear
-  in the environment context above. Do not invent identifiers.
+  in the environment context above or in tool results. Do not invent identifiers.
+  At most 50 VM names per action.
 - Suggest at most 5 actions per response. Omit the envelope when the answer is
   informational, conversational, or when no specific scope change is implied.
+
+Data tools (optional):
+- The environment context above is aggregated. When a question needs per-VM
+  detail it does not contain (e.g. "which Windows 2012 VMs in cluster X have
+  RDM disks?"), request up to ${MAX_TOOL_CALLS} tool calls in the same envelope
+  instead of guessing:
+  { "toolCalls": [ { "tool": "<tool name>", "args": { ... } } ] }
+- Before the envelope, write one short sentence saying what you will look up.
+  Do not answer the question yet.
+- Available tools:
+${describeToolsForPrompt()}
+- The tools run in the user's browser. The user approves each result before it
+  is shared; results arrive in the next user message. If a result is not
+  shared, answer from the aggregated context and say what could not be checked.
+- "suggestions" and "toolCalls" may appear in the same envelope.
 ${envInfo}`;
 }
 
@@ -727,7 +754,52 @@ Provide a JSON response with:
 Respond ONLY with valid JSON, no other text.`;
 }
 
+// ===== PROMPT VERSIONS =====
+
+/**
+ * Prompt builder per task, keyed by the same task names as selectModel()
+ */
+const PROMPT_BUILDERS = {
+  classify: buildClassificationPrompt,
+  rightsizing: buildRightsizingPrompt,
+  insights: buildInsightsPrompt,
+  chat: buildChatSystemPrompt,
+  'wave-suggestions': buildWaveSuggestionsPrompt,
+  'cost-optimization': buildCostOptimizationPrompt,
+  remediation: buildRemediationPrompt,
+  'target-selection': buildTargetSelectionPrompt,
+  'wave-sequencing': buildWaveSequencingPrompt,
+  'anomaly-detection': buildAnomalyDetectionPrompt,
+  'risk-analysis': buildRiskAnalysisPrompt,
+  'report-narrative': buildReportNarrativePrompt,
+  'discovery-questions': buildDiscoveryQuestionsPrompt,
+  interview: buildInterviewPrompt,
+};
+
+/**
+ * Content hash of each prompt builder, so any edit to a template yields a new
+ * version without anyone having to bump a number by hand
+ */
+const PROMPT_VERSIONS = Object.fromEntries(
+  Object.entries(PROMPT_BUILDERS).map(([task, builder]) => {
+    const source = task === 'chat' ? builder.toString() + describeToolsForPrompt() : builder.toString();
+    return [task, crypto.createHash('sha256').update(source).digest('hex').slice(0, 12)];
+  })
+);
+
+/**
+ * Get the version of the prompt used for a task
+ *
+ * @param {string} task - Task name (e.g. 'classify', 'risk-analysis')
+ * @returns {string} Short content hash, or 'unknown' for tasks without a prompt
+ */
+function getPromptVersion(task) {
+  return PROMPT_VERSIONS[task] || 'unknown';
+}
+
 module.exports = {
+  PROMPT_VERSIONS,
+  getPromptVersion,
   buildClassificationPrompt,
   buildRightsizingPrompt,
   buildInsightsPrompt,
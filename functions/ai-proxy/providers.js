@@ -0,0 +1,103 @@
+/**
+ * LLM provider selection
+ *
+ * Every endpoint talks to the model through a provider with the same five
+ * calls (generateText, chat, generateTextStream, chatStream,
+ * chatStreamWithActions). The provider binds its own credentials and
+ * endpoint, so callers pass only the prompt or messages, model and parameters.
+ *
+ * Environment Variables:
+ *   - LLM_PROVIDER: `watsonx` (default) or `openai` for an OpenAI-compatible server
+ *   watsonx:
+ *   - IBM_CLOUD_API_KEY, WATSONX_PROJECT_ID
+ *   - WATSONX_MODEL_ID, WATSONX_FAST_MODEL_ID, WATSONX_COMPLEX_MODEL_ID
+ *   openai:
+ *   - OPENAI_BASE_URL: Server base URL including `/v1` (default: http://localhost:11434/v1, Ollama)
+ *   - OPENAI_API_KEY: Bearer token, if the server requires one
+ *   - OPENAI_MODEL_ID, OPENAI_FAST_MODEL_ID, OPENAI_COMPLEX_MODEL_ID
+ */
+
+const watsonx = require('./watsonx');
+const openaiCompatible = require('./openaiCompatible');
+
+const CALLS = ['generateText', 'chat', 'generateTextStream', 'chatStream', 'chatStreamWithActions'];
+
+/**
+ * Bind a client's calls to the provider's credentials
+ */
+function bindCalls(client, credentials) {
+  const bound = {};
+  for (const call of CALLS) {
+    bound[call] = (options) => client[call]({ ...options, ...credentials });
+  }
+  return bound;
+}
+
+function createWatsonxProvider(env) {
+  const apiKey = env.IBM_CLOUD_API_KEY;
+  const projectId = env.WATSONX_PROJECT_ID;
+  const defaultModel = env.WATSONX_MODEL_ID || 'ibm/granite-3-3-8b-instruct';
+
+  return {
+    name: 'watsonx',
+    label: 'watsonx.ai',
+    models: {
+      default: defaultModel,
+      fast: env.WATSONX_FAST_MODEL_ID || 'ibm/granite-3-3-8b-instruct',
+      complex: env.WATSONX_COMPLEX_MODEL_ID || 'ibm/granite-4-h-small',
+    },
+    readiness: {
+      ready: !!apiKey && !!projectId,
+      checks: {
+        apiKey: apiKey ? 'configured' : 'missing',
+        projectId: projectId ? 'configured' : 'missing',
+      },
+    },
+    ...bindCalls(watsonx, { apiKey, projectId }),
+  };
+}
+
+function createOpenAICompatibleProvider(env) {
+  const baseUrl = env.OPENAI_BASE_URL || 'http://localhost:11434/v1';
+  const apiKey = env.OPENAI_API_KEY;
+  const defaultModel = env.OPENAI_MODEL_ID || 'granite3.3:8b';
+
+  return {
+    name: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    baseUrl,
+    models: {
+      default: defaultModel,
+      fast: env.OPENAI_FAST_MODEL_ID || defaultModel,
+      complex: env.OPENAI_COMPLEX_MODEL_ID || defaultModel,
+    },
+    readiness: {
+      ready: !!baseUrl,
+      checks: {
+        baseUrl: 'configured',
+        apiKey: apiKey ? 'configured' : 'not required',
+      },
+    },
+    ...bindCalls(openaiCompatible, { baseUrl, apiKey }),
+  };
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER
+ *
+ * @param {Record<string, string | undefined>} env - Usually `process.env`
+ */
+function createProvider(env) {
+  const selected = (env.LLM_PROVIDER || 'watsonx').toLowerCase();
+  if (selected === 'openai' || selected === 'openai-compatible') {
+    return createOpenAICompatibleProvider(env);
+  }
+  if (selected !== 'watsonx') {
+    console.warn(`[providers] Unknown LLM_PROVIDER "${env.LLM_PROVIDER}", using watsonx`);
+  }
+  return createWatsonxProvider(env);
+}
+
+module.exports = {
+  createProvider,
+};
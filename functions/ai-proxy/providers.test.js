@@ -0,0 +1,111 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createProvider } = require('./providers');
+const { toChatParameters } = require('./openaiCompatible');
+
+/**
+ * Replace global fetch for one test, recording requests
+ */
+function mockFetch(t, respond) {
+  const calls = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = async (url, init) => {
+    calls.push({ url, init, body: JSON.parse(init.body) });
+    return respond(url, init);
+  };
+  t.after(() => {
+    globalThis.fetch = original;
+  });
+  return calls;
+}
+
+function sseResponse(frames) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function fakeRes() {
+  return {
+    written: '',
+    ended: false,
+    write(chunk) {
+      this.written += chunk;
+    },
+    end() {
+      this.ended = true;
+    },
+  };
+}
+
+test('createProvider: defaults to watsonx with tiered models', () => {
+  const provider = createProvider({ IBM_CLOUD_API_KEY: 'key', WATSONX_PROJECT_ID: 'proj' });
+  assert.equal(provider.name, 'watsonx');
+  assert.equal(provider.models.complex, 'ibm/granite-4-h-small');
+  assert.equal(provider.readiness.ready, true);
+  assert.equal(createProvider({}).readiness.ready, false);
+});
+
+test('createProvider: openai provider falls back to one model for every tier', () => {
+  const provider = createProvider({ LLM_PROVIDER: 'openai', OPENAI_MODEL_ID: 'llama3.1:8b', OPENAI_COMPLEX_MODEL_ID: 'qwen2.5:32b' });
+  assert.equal(provider.name, 'openai-compatible');
+  assert.equal(provider.baseUrl, 'http://localhost:11434/v1');
+  assert.deepEqual(provider.models, { default: 'llama3.1:8b', fast: 'llama3.1:8b', complex: 'qwen2.5:32b' });
+  assert.equal(provider.readiness.ready, true);
+});
+
+test('toChatParameters: maps watsonx generation parameters', () => {
+  assert.deepEqual(
+    toChatParameters({ max_new_tokens: 512, temperature: 0.2, stop_sequences: [], decoding_method: 'greedy', repetition_penalty: 1.05 }),
+    { max_tokens: 512, temperature: 0.2 }
+  );
+  assert.deepEqual(toChatParameters({ stop_sequences: ['\n\n'] }), { stop: ['\n\n'] });
+});
+
+test('openai generateText: posts a single-turn chat to the local server', async (t) => {
+  const calls = mockFetch(t, async () => Response.json({ choices: [{ message: { content: '{"ok":true}' } }] }));
+  const provider = createProvider({ LLM_PROVIDER: 'openai', OPENAI_BASE_URL: 'http://127.0.0.1:8000/v1/' });
+
+  const text = await provider.generateText({ prompt: 'classify', modelId: 'granite', parameters: { max_new_tokens: 100 } });
+
+  assert.equal(text, '{"ok":true}');
+  assert.equal(calls[0].url, 'http://127.0.0.1:8000/v1/chat/completions');
+  assert.equal(calls[0].init.headers.Authorization, undefined);
+  assert.deepEqual(calls[0].body.messages, [{ role: 'user', content: 'classify' }]);
+  assert.equal(calls[0].body.model, 'granite');
+  assert.equal(calls[0].body.max_tokens, 100);
+});
+
+test('openai chat: sends the bearer token and surfaces server errors', async (t) => {
+  const calls = mockFetch(t, async () => new Response('model not loaded', { status: 404 }));
+  const provider = createProvider({ LLM_PROVIDER: 'openai', OPENAI_API_KEY: 'secret' });
+
+  await assert.rejects(
+    provider.chat({ messages: [{ role: 'user', content: 'hi' }], modelId: 'm' }),
+    /OpenAI-compatible API error 404: model not loaded/
+  );
+  assert.equal(calls[0].init.headers.Authorization, 'Bearer secret');
+});
+
+test('openai chatStreamWithActions: strips the action envelope from streamed deltas', async (t) => {
+  const delta = (content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+  mockFetch(t, async () => sseResponse([
+    delta('Move the database '),
+    delta('first.<<<ACTIONS:{"suggestions":[]}'),
+    'data: [DONE]\n\n',
+  ]));
+  const provider = createProvider({ LLM_PROVIDER: 'openai' });
+  const res = fakeRes();
+
+  await provider.chatStreamWithActions({ messages: [], modelId: 'm', res });
+
+  const chunks = [...res.written.matchAll(/data: (\{"chunk".*\})\n\n/g)].map((m) => JSON.parse(m[1]).chunk);
+  assert.equal(chunks.join(''), 'Move the database first.');
+  assert.ok(res.written.endsWith('data: [DONE]\n\n'));
+  assert.equal(res.ended, true);
+});
@@ -0,0 +1,112 @@
+/**
+ * SSE streaming helpers shared by the model adapters.
+ *
+ * Both watsonx.ai and OpenAI-compatible servers stream chat deltas as
+ * `data: {"choices":[{"delta":{"content":"..."}}]}` frames, so the relay and
+ * action-envelope handling live here rather than in each adapter.
+ */
+
+const { createActionStripper, parseActionEnvelope } = require('./actionEnvelope');
+
+/**
+ * Pipe an upstream SSE response body through to an Express response unchanged,
+ * ending with a `[DONE]` frame.
+ *
+ * @param {Response} response - Upstream fetch response
+ * @param {import('express').Response} res - Express response to pipe SSE into
+ */
+async function pipeSSE(response, res) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      res.write(chunk);
+    }
+  } finally {
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+}
+
+/**
+ * Relay a chat-completions SSE stream, stripping an optional `<<<ACTIONS:`
+ * envelope appended by the model and emitting it as a terminal SSE
+ * `event: actions` frame.
+ *
+ * Behaviour:
+ *   - Each upstream delta is parsed; the text content is run through an
+ *     `actionEnvelope` stripper so the envelope (if any) does not reach the
+ *     client as visible text.
+ *   - Cleaned text is forwarded to `res` as a `data: {"chunk": "..."}` frame
+ *     (a shape the Lite client accepts alongside the raw upstream delta).
+ *   - On stream close: any envelope text is parsed; if valid, a
+ *     `event: actions\ndata: {...}\n\n` frame is sent before `[DONE]`.
+ *
+ * @param {Response} response - Upstream fetch response
+ * @param {import('express').Response} res - Express response to pipe SSE into
+ */
+async function pipeChatStreamWithActions(response, res) {
+  const stripper = createActionStripper();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let sseBuffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      sseBuffer += decoder.decode(value, { stream: true });
+
+      // SSE frames split on \n\n. Hold any partial trailing frame back for the next read.
+      const frames = sseBuffer.split('\n\n');
+      sseBuffer = frames.pop() ?? '';
+
+      for (const frame of frames) {
+        const dataLines = frame
+          .split('\n')
+          .filter((l) => l.startsWith('data:'))
+          .map((l) => l.slice(5).trim());
+        for (const data of dataLines) {
+          if (!data || data === '[DONE]') continue;
+          let parsed;
+          try {
+            parsed = JSON.parse(data);
+          } catch {
+            continue;
+          }
+          const text =
+            parsed?.choices?.[0]?.delta?.content ??
+            parsed?.choices?.[0]?.message?.content ??
+            '';
+          if (!text) continue;
+          const forward = stripper.push(text);
+          if (forward) {
+            res.write(`data: ${JSON.stringify({ chunk: forward })}\n\n`);
+          }
+        }
+      }
+    }
+  } finally {
+    const { forward, envelope } = stripper.flush();
+    if (forward) {
+      res.write(`data: ${JSON.stringify({ chunk: forward })}\n\n`);
+    }
+    if (envelope) {
+      const payload = parseActionEnvelope(envelope);
+      if (payload) {
+        res.write(`event: actions\ndata: ${JSON.stringify(payload)}\n\n`);
+      }
+    }
+    res.write('data: [DONE]\n\n');
+    res.end();
+  }
+}
+
+module.exports = {
+  pipeSSE,
+  pipeChatStreamWithActions,
+};
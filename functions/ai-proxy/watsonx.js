@@ -4,8 +4,10 @@
  * Supports both synchronous and streaming text generation/chat.
  */
 
+const { pipeSSE, pipeChatStreamWithActions } = require('./streaming');
+
 const API_VERSION = '2024-05-31';
-const BASE_URL = 'https://us-south.ml.cloud.ibm.com';
+const BASE_URL = process.env.WATSONX_URL || 'https://us-south.ml.cloud.ibm.com';
 
 // Token cache with 5-minute expiry buffer
 let tokenCache = {
@@ -245,20 +247,7 @@ async function generateTextStream({
   }
 
   // Pipe the SSE stream through to the client
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      const chunk = decoder.decode(value, { stream: true });
-      res.write(chunk);
-    }
-  } finally {
-    res.write('data: [DONE]\n\n');
-    res.end();
-  }
+  await pipeSSE(response, res);
 }
 
 /**
@@ -316,34 +305,13 @@ async function chatStream({
   }
 
   // Pipe the SSE stream through to the client
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      const chunk = decoder.decode(value, { stream: true });
-      res.write(chunk);
-    }
-  } finally {
-    res.write('data: [DONE]\n\n');
-    res.end();
-  }
+  await pipeSSE(response, res);
 }
 
 /**
  * Streaming chat that also detects an optional `<<<ACTIONS:` envelope appended
  * by the model and emits it as a terminal SSE `event: actions` frame.
- *
- * Behaviour:
- *   - Each watsonx delta is parsed; the text content is run through an
- *     `actionEnvelope` stripper so the envelope (if any) does not reach the
- *     client as visible text.
- *   - Cleaned text is forwarded to `res` as a `data: {"chunk": "..."}` frame
- *     (a shape the Lite client accepts alongside the raw watsonx delta).
- *   - On stream close: any envelope text is parsed; if valid, a
- *     `event: actions\ndata: {...}\n\n` frame is sent before `[DONE]`.
+ * See `pipeChatStreamWithActions` in streaming.js.
  */
 async function chatStreamWithActions({
   messages,
@@ -353,8 +321,6 @@ async function chatStreamWithActions({
   parameters = {},
   res,
 }) {
-  const { createActionStripper, parseActionEnvelope } = require('./actionEnvelope');
-
   const token = await getAccessToken(apiKey);
 
   const defaultParams = {
@@ -390,60 +356,7 @@ async function chatStreamWithActions({
     throw new Error(`watsonx.ai chat stream API error ${response.status}: ${errorBody}`);
   }
 
-  const stripper = createActionStripper();
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder();
-  let sseBuffer = '';
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      sseBuffer += decoder.decode(value, { stream: true });
-
-      // SSE frames split on \n\n. Hold any partial trailing frame back for the next read.
-      const frames = sseBuffer.split('\n\n');
-      sseBuffer = frames.pop() ?? '';
-
-      for (const frame of frames) {
-        const dataLines = frame
-          .split('\n')
-          .filter((l) => l.startsWith('data:'))
-          .map((l) => l.slice(5).trim());
-        for (const data of dataLines) {
-          if (!data || data === '[DONE]') continue;
-          let parsed;
-          try {
-            parsed = JSON.parse(data);
-          } catch {
-            continue;
-          }
-          const text =
-            parsed?.choices?.[0]?.delta?.content ??
-            parsed?.choices?.[0]?.message?.content ??
-            '';
-          if (!text) continue;
-          const forward = stripper.push(text);
-          if (forward) {
-            res.write(`data: ${JSON.stringify({ chunk: forward })}\n\n`);
-          }
-        }
-      }
-    }
-  } finally {
-    const { forward, envelope } = stripper.flush();
-    if (forward) {
-      res.write(`data: ${JSON.stringify({ chunk: forward })}\n\n`);
-    }
-    if (envelope) {
-      const payload = parseActionEnvelope(envelope);
-      if (payload) {
-        res.write(`event: actions\ndata: ${JSON.stringify(payload)}\n\n`);
-      }
-    }
-    res.write('data: [DONE]\n\n');
-    res.end();
-  }
+  await pipeChatStreamWithActions(response, res);
 }
 
 module.exports = {
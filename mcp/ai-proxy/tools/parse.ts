@@ -8,6 +8,7 @@ import {
   parseVCPU,
   parseVMemory,
   parseVDisk,
+  parseVPartition,
   parseVDatastore,
   parseVSnapshot,
   parseVNetwork,
@@ -17,6 +18,7 @@ import {
   parseVHost,
   parseVLicense,
   parseVRP,
+  parseVHealth,
   parseVSource,
 } from '@/services/parser/tabParsers';
 import type { RVToolsData } from '@/types/rvtools';
@@ -49,6 +51,7 @@ export function parseRvtools(filePath?: string): { content: Array<{ type: 'text'
     vCPU: parseSheet('vCPU', parseVCPU),
     vMemory: parseSheet('vMemory', parseVMemory),
     vDisk: parseSheet('vDisk', parseVDisk),
+    vPartition: parseSheet('vPartition', parseVPartition),
     vDatastore: parseSheet('vDatastore', parseVDatastore),
     vSnapshot: parseSheet('vSnapshot', parseVSnapshot),
     vNetwork: parseSheet('vNetwork', parseVNetwork),
@@ -59,13 +62,13 @@ export function parseRvtools(filePath?: string): { content: Array<{ type: 'text'
     vLicense: parseSheet('vLicense', parseVLicense),
     vResourcePool: parseSheet('vRP', parseVRP),
     vSource: parseSheet('vSource', parseVSource),
-    vHealth: [],
+    vHealth: parseSheet('vHealth', parseVHealth),
   };
 
   setParsedData(data, path.basename(resolvedPath));
 
   const sheetsFound = sheets.filter(s =>
-    ['vInfo', 'vCPU', 'vMemory', 'vDisk', 'vDatastore', 'vSnapshot', 'vNetwork', 'vCD', 'vTools', 'vCluster', 'vHost', 'vLicense', 'vRP', 'vSource'].includes(s)
+    ['vInfo', 'vCPU', 'vMemory', 'vDisk', 'vPartition', 'vDatastore', 'vSnapshot', 'vNetwork', 'vCD', 'vTools', 'vCluster', 'vHost', 'vLicense', 'vRP', 'vHealth', 'vSource'].includes(s)
   );
 
   const activeVMs = data.vInfo.filter(vm => vm.powerState === 'poweredOn' && !vm.template);
@@ -86,6 +89,7 @@ export function parseRvtools(filePath?: string): { content: Array<{ type: 'text'
           vCPU: data.vCPU.length,
           vMemory: data.vMemory.length,
           vDisk: data.vDisk.length,
+          vPartition: data.vPartition.length,
           vDatastore: data.vDatastore.length,
           vSnapshot: data.vSnapshot.length,
           vNetwork: data.vNetwork.length,
@@ -93,6 +97,7 @@ export function parseRvtools(filePath?: string): { content: Array<{ type: 'text'
           vTools: data.vTools.length,
           vCluster: data.vCluster.length,
           vHost: data.vHost.length,
+          vHealth: data.vHealth.length,
         },
       }, null, 2),
     }],
@@ -32,44 +32,27 @@ export function AIInsightsPanel({
 }: AIInsightsPanelProps) {
   const { insights, isLoading, error, fetchInsights, refreshInsights, isAvailable } = useAIInsights();
 
-  // Auto-fetch when data is provided and AI is available
+  // Auto-fetch when data is provided (rule-based when AI is unavailable)
   useEffect(() => {
-    if (data && isAvailable && !insights && !isLoading) {
+    if (data && !insights && !isLoading) {
       fetchInsights(data);
     }
-  }, [data, isAvailable, insights, isLoading, fetchInsights]);
+  }, [data, insights, isLoading, fetchInsights]);
 
-  if (!isAvailable) {
-    const isConfigured = isAIProxyConfigured();
-    // Fully hide when proxy is not configured
-    if (!isConfigured) {
-      return null;
-    }
-    // Show unavailable state when configured but disabled
-    return (
-      <Tile className={`ai-insights-panel ${compact ? 'ai-insights-panel--compact' : ''} ai-insights-panel--unavailable`}>
-        <div className="ai-insights-panel__header">
-          <div className="ai-insights-panel__title">
-            <CloudOffline size={20} />
-            <h4>{title}</h4>
-            <Tag type="gray" size="sm">AI Unavailable</Tag>
-          </div>
-        </div>
-        <p className="ai-insights-panel__unavailable-text">
-          AI features are disabled.{' '}
-          <Link href={ROUTES.settings}>Enable in Settings</Link>
-        </p>
-      </Tile>
-    );
-  }
+  // Without AI the hook serves rule-based insights
+  const isRuleBased = !isAvailable || insights?.source === 'rule-based';
 
   return (
     <Tile className={`ai-insights-panel ${compact ? 'ai-insights-panel--compact' : ''}`}>
       <div className="ai-insights-panel__header">
         <div className="ai-insights-panel__title">
-          <WatsonHealthAiResults size={20} />
+          {isRuleBased ? <CloudOffline size={20} /> : <WatsonHealthAiResults size={20} />}
           <h4>{title}</h4>
-          <Tag type="purple" size="sm">AI</Tag>
+          {isRuleBased ? (
+            <Tag type="gray" size="sm">Rule-based</Tag>
+          ) : (
+            <Tag type="purple" size="sm">AI</Tag>
+          )}
         </div>
         {insights && (
           <Button
@@ -84,6 +67,19 @@ export function AIInsightsPanel({
         )}
       </div>
 
+      {!isAvailable && (
+        <p className="ai-insights-panel__unavailable-text">
+          {isAIProxyConfigured() ? (
+            <>
+              AI features are disabled; showing rule-based insights.{' '}
+              <Link href={ROUTES.settings}>Enable in Settings</Link>
+            </>
+          ) : (
+            'AI is not configured; showing rule-based insights.'
+          )}
+        </p>
+      )}
+
       {isLoading && (
         <div className="ai-insights-panel__loading">
           <InlineLoading
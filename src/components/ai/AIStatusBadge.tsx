@@ -1,24 +1,35 @@
 // AI Status Badge - compact indicator showing AI feature availability
 
+import { useEffect } from 'react';
 import { Tag } from '@carbon/react';
 import { WatsonHealthAiResults, CloudOffline } from '@carbon/icons-react';
-import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
-import { useAISettings } from '@/hooks/useAISettings';
+import { useAIStatus } from '@/hooks/useAIStatus';
 
 export function AIStatusBadge() {
-  const { settings } = useAISettings();
-  const isConfigured = isAIProxyConfigured();
+  const { isConfigured, isEnabled, proxyHealth, isTestingProxy, testProxy } = useAIStatus();
+
+  // Ask the proxy which model backend is active once AI is switched on
+  useEffect(() => {
+    if (isConfigured && isEnabled && !proxyHealth && !isTestingProxy) {
+      testProxy();
+    }
+  }, [isConfigured, isEnabled, proxyHealth, isTestingProxy, testProxy]);
 
   // Don't render if proxy isn't configured at all
   if (!isConfigured) {
     return null;
   }
 
-  if (settings.enabled) {
+  if (isEnabled) {
+    const providerLabel = proxyHealth?.success ? proxyHealth.providerLabel : undefined;
     return (
-      <Tag type="purple" size="sm" title="AI features are active">
+      <Tag
+        type="purple"
+        size="sm"
+        title={providerLabel ? `AI features are active (${providerLabel}${proxyHealth?.model ? `, ${proxyHealth.model}` : ''})` : 'AI features are active'}
+      >
         <WatsonHealthAiResults size={12} />
-        &nbsp;AI Active
+        &nbsp;AI Active{providerLabel ? ` · ${providerLabel}` : ''}
       </Tag>
     );
   }
@@ -7,6 +7,7 @@ import {
   InlineLoading,
   InlineNotification,
   UnorderedList,
+  OrderedList,
   ListItem,
   SkeletonText,
   Link,
@@ -14,8 +15,9 @@ import {
   AccordionItem,
 } from '@carbon/react';
 import { WatsonHealthAiResults, Renew, CloudOffline } from '@carbon/icons-react';
-import type { WaveSuggestionInput, WaveSuggestionResult } from '@/services/ai/types';
+import type { WaveSuggestionInput, WaveSuggestionResult, WaveSequencingInput, WaveSequencingResult } from '@/services/ai/types';
 import { useAIWaveSuggestions } from '@/hooks/useAIWaveSuggestions';
+import { useAIWaveSequencing } from '@/hooks/useAIWaveSequencing';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { useEffect } from 'react';
 import { ROUTES } from '@/utils/constants';
@@ -23,64 +25,78 @@ import './AIWaveAnalysisPanel.scss';
 
 interface AIWaveAnalysisPanelProps {
   data: WaveSuggestionInput | null;
+  /** Wave order, dependencies and risk schedule input; rule-based when AI is unavailable */
+  sequencingData?: WaveSequencingInput | null;
   title?: string;
 }
 
+const RISK_TAG_TYPE = { low: 'green', medium: 'warm-gray', high: 'red' } as const;
+
 export function AIWaveAnalysisPanel({
   data,
+  sequencingData = null,
   title = 'AI Wave Analysis',
 }: AIWaveAnalysisPanelProps) {
-  const { suggestions, isLoading, error, fetchSuggestions, isAvailable } = useAIWaveSuggestions();
+  const { suggestions, isLoading: suggestionsLoading, error, fetchSuggestions, isAvailable } = useAIWaveSuggestions();
+  const { sequencing, isLoading: sequencingLoading, fetchSequencing } = useAIWaveSequencing();
+  const isLoading = suggestionsLoading || sequencingLoading;
 
   useEffect(() => {
-    if (data && isAvailable && !suggestions && !isLoading) {
+    if (data && !suggestions && !suggestionsLoading) {
       fetchSuggestions(data);
     }
-  }, [data, isAvailable, suggestions, isLoading, fetchSuggestions]);
+  }, [data, suggestions, suggestionsLoading, fetchSuggestions]);
 
-  if (!isAvailable) {
-    const isConfigured = isAIProxyConfigured();
-    if (!isConfigured) {
-      return null;
+  useEffect(() => {
+    if (sequencingData && !sequencing && !sequencingLoading) {
+      fetchSequencing(sequencingData);
     }
-    return (
-      <Tile className="ai-wave-analysis-panel ai-wave-analysis-panel--unavailable">
-        <div className="ai-wave-analysis-panel__header">
-          <div className="ai-wave-analysis-panel__title">
-            <CloudOffline size={20} />
-            <h4>{title}</h4>
-            <Tag type="gray" size="sm">AI Unavailable</Tag>
-          </div>
-        </div>
-        <p className="ai-wave-analysis-panel__unavailable-text">
-          AI features are disabled.{' '}
-          <Link href={ROUTES.settings}>Enable in Settings</Link>
-        </p>
-      </Tile>
-    );
-  }
+  }, [sequencingData, sequencing, sequencingLoading, fetchSequencing]);
+
+  // Without AI the hook serves rule-based suggestions
+  const isRuleBased = !isAvailable || suggestions?.source === 'rule-based';
 
   return (
     <Tile className="ai-wave-analysis-panel">
       <div className="ai-wave-analysis-panel__header">
         <div className="ai-wave-analysis-panel__title">
-          <WatsonHealthAiResults size={20} />
+          {isRuleBased ? <CloudOffline size={20} /> : <WatsonHealthAiResults size={20} />}
           <h4>{title}</h4>
-          <Tag type="purple" size="sm">AI</Tag>
+          {isRuleBased ? (
+            <Tag type="gray" size="sm">Rule-based</Tag>
+          ) : (
+            <Tag type="purple" size="sm">AI</Tag>
+          )}
         </div>
-        {suggestions && (
+        {(suggestions || sequencing) && (
           <Button
             kind="ghost"
             size="sm"
             renderIcon={Renew}
             iconDescription="Refresh analysis"
             hasIconOnly
-            onClick={() => data && fetchSuggestions(data)}
+            onClick={() => {
+              if (data) fetchSuggestions(data);
+              if (sequencingData) fetchSequencing(sequencingData);
+            }}
             disabled={isLoading}
           />
         )}
       </div>
 
+      {!isAvailable && (
+        <p className="ai-wave-analysis-panel__unavailable-text">
+          {isAIProxyConfigured() ? (
+            <>
+              AI features are disabled; showing rule-based suggestions.{' '}
+              <Link href={ROUTES.settings}>Enable in Settings</Link>
+            </>
+          ) : (
+            'AI is not configured; showing rule-based suggestions.'
+          )}
+        </p>
+      )}
+
       {isLoading && (
         <div className="ai-wave-analysis-panel__loading">
           <InlineLoading
@@ -107,6 +123,10 @@ export function AIWaveAnalysisPanel({
       {suggestions && !isLoading && (
         <WaveAnalysisContent suggestions={suggestions} />
       )}
+
+      {sequencing && !isLoading && (
+        <WaveSequencingContent sequencing={sequencing} />
+      )}
     </Tile>
   );
 }
@@ -162,3 +182,65 @@ function WaveAnalysisContent({ suggestions }: { suggestions: WaveSuggestionResul
     </div>
   );
 }
+
+function WaveSequencingContent({ sequencing }: { sequencing: WaveSequencingResult }) {
+  return (
+    <div className="ai-wave-analysis-panel__content">
+      {sequencing.suggestedOrder.length > 0 && (
+        <div className="ai-wave-analysis-panel__section">
+          <h5>Suggested Wave Order</h5>
+          <OrderedList>
+            {sequencing.suggestedOrder.map((name) => (
+              <ListItem key={name}>{name}</ListItem>
+            ))}
+          </OrderedList>
+        </div>
+      )}
+
+      {sequencing.dependencies.length > 0 && (
+        <div className="ai-wave-analysis-panel__section">
+          <h5>Wave Dependencies</h5>
+          <UnorderedList>
+            {sequencing.dependencies.map((d) => (
+              <ListItem key={`${d.from}->${d.to}`}>
+                {d.from} before {d.to}{d.reason && `: ${d.reason}`}
+              </ListItem>
+            ))}
+          </UnorderedList>
+        </div>
+      )}
+
+      {sequencing.riskSchedule.length > 0 && (
+        <div className="ai-wave-analysis-panel__section">
+          <h5>Risk Schedule</h5>
+          <UnorderedList>
+            {sequencing.riskSchedule.map((r) => (
+              <ListItem key={r.waveName}>
+                {r.waveName} <Tag type={RISK_TAG_TYPE[r.riskLevel]} size="sm">{r.riskLevel}</Tag> {r.riskReason}
+              </ListItem>
+            ))}
+          </UnorderedList>
+        </div>
+      )}
+
+      {sequencing.vmMoveRecommendations.length > 0 && (
+        <div className="ai-wave-analysis-panel__section">
+          <h5>Recommended VM Moves</h5>
+          <UnorderedList>
+            {sequencing.vmMoveRecommendations.map((m, i) => (
+              <ListItem key={`${m.vmDescription}-${i}`}>
+                {m.vmDescription}: {m.fromWave} → {m.toWave}{m.reason && ` (${m.reason})`}
+              </ListItem>
+            ))}
+          </UnorderedList>
+        </div>
+      )}
+
+      <div className="ai-wave-analysis-panel__footer">
+        <Tag type="gray" size="sm">
+          Sequencing: {sequencing.source === 'watsonx' ? 'watsonx.ai' : sequencing.source}
+        </Tag>
+      </div>
+    </div>
+  );
+}
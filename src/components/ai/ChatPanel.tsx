@@ -1,7 +1,7 @@
 // Shared Chat UI component - used by both ChatWidget and ChatPage
 // Supports streaming responses, markdown rendering, and persistent history
 
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   TextInput,
   Button,
@@ -10,10 +10,14 @@ import {
   InlineLoading,
 } from '@carbon/react';
 import { Send, TrashCan, Renew, StopFilled } from '@carbon/icons-react';
-import type { ChatMessage, ChatContext } from '@/services/ai/types';
+import type { ChatMessage, ChatContext, ChatToolRequest, ChatSuggestion } from '@/services/ai/types';
+import type { RVToolsData } from '@/types';
 import { useAIChat } from '@/hooks/useAIChat';
+import { useChatActions } from '@/hooks/useChatActions';
 import { useData } from '@/hooks';
 import { buildChatContext } from '@/services/ai/chatContextBuilder';
+import { runChatTool, describeToolCall } from '@/services/ai/chatTools';
+import { describeChatAction } from '@/services/ai/chatActions';
 import { useLocation } from 'react-router-dom';
 import './ChatPanel.scss';
 
@@ -31,10 +35,14 @@ export function ChatPanel({ className = '' }: ChatPanelProps) {
     error,
     suggestedFollowUps,
     sendUserMessageStreaming,
+    approveToolCall,
+    declineToolCall,
+    setSuggestionStatus,
     stopStreaming,
     clearConversation,
     isAvailable,
   } = useAIChat();
+  const { applyAction, undoAction, canUndo } = useChatActions();
 
   const [inputValue, setInputValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -76,6 +84,43 @@ export function ChatPanel({ className = '' }: ChatPanelProps) {
     [sendUserMessageStreaming, buildContext]
   );
 
+  const handleApproveTool = useCallback(
+    (messageId: string, callId: string, result: unknown) => {
+      approveToolCall(messageId, callId, result, buildContext());
+    },
+    [approveToolCall, buildContext]
+  );
+
+  const handleDeclineTool = useCallback(
+    (messageId: string, callId: string) => {
+      declineToolCall(messageId, callId, buildContext());
+    },
+    [declineToolCall, buildContext]
+  );
+
+  const handleApplyAction = useCallback(
+    (messageId: string, suggestion: ChatSuggestion) => {
+      const outcome = applyAction(suggestion.id, suggestion.action);
+      setSuggestionStatus(messageId, suggestion.id, 'applied', outcome);
+    },
+    [applyAction, setSuggestionStatus]
+  );
+
+  const handleUndoAction = useCallback(
+    (messageId: string, suggestionId: string) => {
+      undoAction(suggestionId);
+      setSuggestionStatus(messageId, suggestionId, 'undone');
+    },
+    [undoAction, setSuggestionStatus]
+  );
+
+  const handleDismissAction = useCallback(
+    (messageId: string, suggestionId: string) => {
+      setSuggestionStatus(messageId, suggestionId, 'dismissed');
+    },
+    [setSuggestionStatus]
+  );
+
   if (!isAvailable) {
     return (
       <div className={`chat-panel ${className}`}>
@@ -109,7 +154,18 @@ export function ChatPanel({ className = '' }: ChatPanelProps) {
         )}
 
         {messages.map((msg) => (
-          <MessageBubble key={msg.id} message={msg} />
+          <MessageBubble
+            key={msg.id}
+            message={msg}
+            rawData={rawData}
+            toolsDisabled={isStreaming}
+            onApproveTool={handleApproveTool}
+            onDeclineTool={handleDeclineTool}
+            canUndoAction={canUndo}
+            onApplyAction={handleApplyAction}
+            onUndoAction={handleUndoAction}
+            onDismissAction={handleDismissAction}
+          />
         ))}
 
         {isLoading && !isStreaming && (
@@ -194,7 +250,29 @@ export function ChatPanel({ className = '' }: ChatPanelProps) {
 
 // ===== SUB-COMPONENTS =====
 
-function MessageBubble({ message }: { message: ChatMessage }) {
+interface MessageBubbleProps {
+  message: ChatMessage;
+  rawData: RVToolsData | null;
+  toolsDisabled: boolean;
+  onApproveTool: (messageId: string, callId: string, result: unknown) => void;
+  onDeclineTool: (messageId: string, callId: string) => void;
+  canUndoAction: (suggestionId: string) => boolean;
+  onApplyAction: (messageId: string, suggestion: ChatSuggestion) => void;
+  onUndoAction: (messageId: string, suggestionId: string) => void;
+  onDismissAction: (messageId: string, suggestionId: string) => void;
+}
+
+function MessageBubble({
+  message,
+  rawData,
+  toolsDisabled,
+  onApproveTool,
+  onDeclineTool,
+  canUndoAction,
+  onApplyAction,
+  onUndoAction,
+  onDismissAction,
+}: MessageBubbleProps) {
   const isUser = message.role === 'user';
 
   return (
@@ -208,7 +286,143 @@ function MessageBubble({ message }: { message: ChatMessage }) {
         <div className="chat-panel__text">
           <MarkdownContent content={message.content} messageId={message.id} />
         </div>
+        {message.toolCalls?.map((call) => (
+          <ToolCallCard
+            key={call.id}
+            call={call}
+            rawData={rawData}
+            disabled={toolsDisabled}
+            onApprove={(result) => onApproveTool(message.id, call.id, result)}
+            onDecline={() => onDeclineTool(message.id, call.id)}
+          />
+        ))}
+        {message.suggestions?.map((suggestion) => (
+          <ActionCard
+            key={suggestion.id}
+            suggestion={suggestion}
+            canUndo={canUndoAction(suggestion.id)}
+            onApply={() => onApplyAction(message.id, suggestion)}
+            onUndo={() => onUndoAction(message.id, suggestion.id)}
+            onDismiss={() => onDismissAction(message.id, suggestion.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const TOOL_PREVIEW_CHARS = 1500;
+
+/** A data tool the assistant wants to run — the user sees the result before it is shared */
+function ToolCallCard({
+  call,
+  rawData,
+  disabled,
+  onApprove,
+  onDecline,
+}: {
+  call: ChatToolRequest;
+  rawData: RVToolsData | null;
+  disabled: boolean;
+  onApprove: (result: unknown) => void;
+  onDecline: () => void;
+}) {
+  const isPending = call.status === 'pending';
+  const result = useMemo(() => {
+    if (!isPending) return call.result;
+    return rawData ? runChatTool(call, rawData) : { error: 'No RVTools data loaded' };
+  }, [call, rawData, isPending]);
+
+  const preview = useMemo(() => {
+    const json = JSON.stringify(result, null, 2) ?? '';
+    return json.length > TOOL_PREVIEW_CHARS ? `${json.slice(0, TOOL_PREVIEW_CHARS)}\n…` : json;
+  }, [result]);
+
+  return (
+    <div className="chat-panel__tool-call">
+      <div className="chat-panel__tool-call-header">
+        <span className="chat-panel__tool-call-title">{describeToolCall(call)}</span>
+        {call.status === 'approved' && <Tag type="green" size="sm">Shared</Tag>}
+        {call.status === 'declined' && <Tag type="gray" size="sm">Not shared</Tag>}
+      </div>
+      {isPending && (
+        <>
+          <pre className="chat-panel__tool-call-preview">
+            <code>{preview}</code>
+          </pre>
+          <div className="chat-panel__tool-call-actions">
+            <Button kind="primary" size="sm" onClick={() => onApprove(result)} disabled={disabled}>
+              Share result
+            </Button>
+            <Button kind="ghost" size="sm" onClick={onDecline} disabled={disabled}>
+              Don&apos;t share
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+const ACTION_STATUS_TAGS = {
+  applied: { type: 'green', label: 'Applied' },
+  dismissed: { type: 'gray', label: 'Dismissed' },
+  undone: { type: 'gray', label: 'Undone' },
+} as const;
+
+/** A plan change the assistant proposed — nothing changes until the user applies it */
+function ActionCard({
+  suggestion,
+  canUndo,
+  onApply,
+  onUndo,
+  onDismiss,
+}: {
+  suggestion: ChatSuggestion;
+  canUndo: boolean;
+  onApply: () => void;
+  onUndo: () => void;
+  onDismiss: () => void;
+}) {
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const tag = suggestion.status === 'pending' ? null : ACTION_STATUS_TAGS[suggestion.status];
+
+  const handleApply = () => {
+    try {
+      onApply();
+      setApplyError(null);
+    } catch (err) {
+      setApplyError(err instanceof Error ? err.message : 'Could not apply this change');
+    }
+  };
+
+  return (
+    <div className="chat-panel__action">
+      <div className="chat-panel__action-header">
+        <span className="chat-panel__action-title">{describeChatAction(suggestion.action)}</span>
+        {tag && <Tag type={tag.type} size="sm">{tag.label}</Tag>}
       </div>
+      <p className="chat-panel__action-reason">
+        {suggestion.status === 'applied' && suggestion.outcome ? suggestion.outcome : suggestion.reason}
+      </p>
+      {applyError && <p className="chat-panel__action-error">{applyError}</p>}
+      {suggestion.status === 'pending' && (
+        <div className="chat-panel__action-buttons">
+          <Button kind="primary" size="sm" onClick={handleApply}>
+            Apply
+          </Button>
+          <Button kind="ghost" size="sm" onClick={onDismiss}>
+            Dismiss
+          </Button>
+        </div>
+      )}
+      {suggestion.status === 'applied' && canUndo && (
+        <div className="chat-panel__action-buttons">
+          <Button kind="ghost" size="sm" onClick={onUndo}>
+            Undo
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
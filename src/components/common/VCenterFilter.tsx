@@ -0,0 +1,33 @@
+// vCenter scope selector for merged multi-vCenter uploads
+import { useMemo } from 'react';
+import { Dropdown } from '@carbon/react';
+import { useData } from '@/hooks';
+import { getSourceVCenters } from '@/services/parser/mergeRVTools';
+import './VCenterFilter.scss';
+
+const ALL_VCENTERS = 'All vCenters';
+
+export function VCenterFilter() {
+  const { rawData, vCenterFilter, setVCenterFilter } = useData();
+
+  const vCenters = useMemo(() => (rawData ? getSourceVCenters(rawData) : []), [rawData]);
+
+  // Single-vCenter uploads have nothing to filter
+  if (vCenters.length < 2) return null;
+
+  return (
+    <div className="vcenter-filter">
+      <Dropdown
+        id="vcenter-filter"
+        titleText="vCenter"
+        label="Select a vCenter"
+        size="sm"
+        items={[ALL_VCENTERS, ...vCenters]}
+        selectedItem={vCenterFilter ?? ALL_VCENTERS}
+        onChange={({ selectedItem }: { selectedItem: string | null }) => {
+          setVCenterFilter(!selectedItem || selectedItem === ALL_VCENTERS ? null : selectedItem);
+        }}
+      />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ export { CheckResultCell } from './CheckResultCell';
 export { ErrorBoundary } from './ErrorBoundary';
 export { SectionErrorBoundary } from './SectionErrorBoundary';
 export { FilterBadge } from './FilterBadge';
+export { VCenterFilter } from './VCenterFilter';
 export { LoadingSkeleton } from './LoadingSkeleton';
 export { MetricCard } from './MetricCard';
 export type { MetricCardVariant } from './MetricCard';
@@ -11,7 +11,11 @@ interface PlatformSelectionPanelProps {
   score: PlatformSelectionScore;
   roksMonthlyCost?: number | null;
   rovMonthlyCost?: number | null;
+  oveMonthlyCost?: number | null;
+  roksVsiMonthlyCost?: number | null;
   vsiMonthlyCost?: number | null;
+  vmwareRetainMonthlyCost?: number | null;
+  vmwareRetainHostCount?: number | null;
   totalVMCount: number;
 }
 
@@ -24,15 +28,17 @@ const ANSWER_ITEMS = [
 
 const vsiFactors = factorsData.factors.filter(f => f.target === 'vsi');
 const roksFactors = factorsData.factors.filter(f => f.target === 'roks');
+const vmwareFactors = factorsData.factors.filter(f => f.target === 'vmware');
 const dynamicFactors = factorsData.factors.filter(f => f.target === 'dynamic');
 
-export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roksMonthlyCost, rovMonthlyCost, vsiMonthlyCost, totalVMCount }: PlatformSelectionPanelProps) {
+export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roksMonthlyCost, rovMonthlyCost, oveMonthlyCost, roksVsiMonthlyCost, vsiMonthlyCost, vmwareRetainMonthlyCost, vmwareRetainHostCount, totalVMCount }: PlatformSelectionPanelProps) {
   const leaningText =
     score.leaning === 'vsi' ? 'VPC VSI' :
     score.leaning === 'roks' ? 'ROKS (OpenShift Virtualization)' :
     'Neutral';
 
   const hasAnswers = score.answeredCount > 0;
+  const favoursRetain = score.vmwareCount > Math.max(score.vsiCount, score.roksCount);
   const hasCosts = roksMonthlyCost != null || vsiMonthlyCost != null;
 
   const costLeaningLabel =
@@ -44,7 +50,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
     <div style={{ paddingTop: '1rem' }}>
       {/* Cost tiles */}
       <Grid narrow>
-        <Column lg={5} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+        <Column lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
           <Tile style={{ borderLeft: '4px solid #009d9a', height: '100%' }}>
             <h5>All ROKS</h5>
             <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
@@ -55,7 +61,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
             </p>
           </Tile>
         </Column>
-        <Column lg={5} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+        <Column lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
           <Tile style={{ borderLeft: `4px solid ${score.roksVariant === 'rov' ? '#24a148' : '#009d9a'}`, height: '100%', opacity: score.roksVariant === 'rov' ? 1 : 0.6 }}>
             <h5>All ROV</h5>
             <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
@@ -66,7 +72,29 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
             </p>
           </Tile>
         </Column>
-        <Column lg={6} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+        <Column lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+          <Tile style={{ borderLeft: '4px solid #198038', height: '100%' }}>
+            <h5>All OVE</h5>
+            <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
+              {oveMonthlyCost != null ? `${formatCurrency(oveMonthlyCost)}/mo` : 'Not configured'}
+            </p>
+            <p style={{ fontSize: '0.875rem', color: '#525252' }}>
+              All {totalVMCount} VMs on a VM-only OpenShift Virtualization Engine cluster
+            </p>
+          </Tile>
+        </Column>
+        <Column lg={4} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+          <Tile style={{ borderLeft: '4px solid #8a3ffc', height: '100%' }}>
+            <h5>ROKS on VSI Workers</h5>
+            <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
+              {roksVsiMonthlyCost != null ? `${formatCurrency(roksVsiMonthlyCost)}/mo` : 'Not configured'}
+            </p>
+            <p style={{ fontSize: '0.875rem', color: '#525252' }}>
+              All {totalVMCount} workloads as containers on VSI worker pools
+            </p>
+          </Tile>
+        </Column>
+        <Column lg={8} md={4} sm={4} style={{ marginBottom: '1rem' }}>
           <Tile style={{ borderLeft: '4px solid #0f62fe', height: '100%' }}>
             <h5>All VSI</h5>
             <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
@@ -77,6 +105,17 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
             </p>
           </Tile>
         </Column>
+        <Column lg={8} md={4} sm={4} style={{ marginBottom: '1rem' }}>
+          <Tile style={{ borderLeft: '4px solid #ff832b', height: '100%' }}>
+            <h5>Retain VMware (VCF)</h5>
+            <p style={{ fontSize: '1.5rem', fontWeight: 600 }}>
+              {vmwareRetainMonthlyCost != null ? `${formatCurrency(vmwareRetainMonthlyCost)}/mo` : 'Not configured'}
+            </p>
+            <p style={{ fontSize: '0.875rem', color: '#525252' }}>
+              All {totalVMCount} VMs as-is on {vmwareRetainHostCount ?? 0} classic bare metal hosts with VMware Cloud Foundation
+            </p>
+          </Tile>
+        </Column>
       </Grid>
 
       {/* ROV callout when applicable */}
@@ -91,6 +130,17 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
         </Tile>
       )}
 
+      {/* Retain callout when the questionnaire favours staying on VMware */}
+      {favoursRetain && (
+        <Tile style={{ borderLeft: '4px solid #ff832b', marginBottom: '1rem', background: '#fff2e8' }}>
+          <h5 style={{ margin: '0 0 0.25rem' }}>Retaining VMware Favoured</h5>
+          <p style={{ margin: 0, fontSize: '0.875rem' }}>
+            Your responses favour keeping workloads on VMware for now. <strong>VMware Cloud Foundation on IBM Cloud</strong> moves
+            the estate out of the data centre without conversion; ROKS or VSI can follow once the constraints are resolved.
+          </p>
+        </Tile>
+      )}
+
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
         <p style={{ color: '#525252', margin: 0 }}>
           Answer each factor to help determine which platform best fits your organizational needs.
@@ -105,7 +155,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
 
       <Grid narrow>
         {/* VSI Column */}
-        <Column lg={8} md={4} sm={4}>
+        <Column lg={6} md={4} sm={4}>
           <h5 style={{ marginBottom: '0.75rem', color: '#0f62fe' }}>Factors favouring VPC VSI</h5>
           {vsiFactors.map(factor => (
             <div key={factor.id} style={{ marginBottom: '1rem' }}>
@@ -126,7 +176,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
         </Column>
 
         {/* ROKS Column */}
-        <Column lg={8} md={4} sm={4}>
+        <Column lg={5} md={4} sm={4}>
           <h5 style={{ marginBottom: '0.75rem', color: '#009d9a' }}>Factors favouring ROKS</h5>
           {roksFactors.map(factor => (
             <div key={factor.id} style={{ marginBottom: '1rem' }}>
@@ -146,6 +196,27 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
           ))}
         </Column>
 
+        {/* VMware-retain Column */}
+        <Column lg={5} md={8} sm={4}>
+          <h5 style={{ marginBottom: '0.75rem', color: '#ff832b' }}>Factors favouring retaining VMware</h5>
+          {vmwareFactors.map(factor => (
+            <div key={factor.id} style={{ marginBottom: '1rem' }}>
+              <Dropdown
+                id={`factor-${factor.id}`}
+                titleText={factor.label}
+                helperText={factor.description}
+                items={ANSWER_ITEMS}
+                itemToString={(item: typeof ANSWER_ITEMS[number] | null) => item?.text ?? ''}
+                selectedItem={ANSWER_ITEMS.find(i => i.id === answers[factor.id]) ?? null}
+                onChange={({ selectedItem }: { selectedItem: typeof ANSWER_ITEMS[number] | null }) => {
+                  onAnswer(factor.id, selectedItem ? selectedItem.id as FactorAnswer : null);
+                }}
+                label="Select..."
+              />
+            </div>
+          ))}
+        </Column>
+
         {/* Dynamic factors (cost) - full width */}
         {dynamicFactors.length > 0 && (
           <Column lg={16} md={8} sm={4} style={{ marginTop: '0.5rem' }}>
@@ -176,7 +247,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
         )}
 
         {/* Score Summary */}
-        <Column lg={8} md={4} sm={4} style={{ marginTop: '0.5rem' }}>
+        <Column lg={6} md={3} sm={4} style={{ marginTop: '0.5rem' }}>
           <Tile style={{ borderLeft: '4px solid #0f62fe' }}>
             <h5 style={{ margin: 0 }}>VSI Factors</h5>
             <p style={{ fontSize: '1.5rem', fontWeight: 600, margin: '0.25rem 0 0' }}>
@@ -184,7 +255,7 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
             </p>
           </Tile>
         </Column>
-        <Column lg={8} md={4} sm={4} style={{ marginTop: '0.5rem' }}>
+        <Column lg={5} md={3} sm={4} style={{ marginTop: '0.5rem' }}>
           <Tile style={{ borderLeft: '4px solid #009d9a' }}>
             <h5 style={{ margin: 0 }}>ROKS Factors</h5>
             <p style={{ fontSize: '1.5rem', fontWeight: 600, margin: '0.25rem 0 0' }}>
@@ -192,13 +263,21 @@ export function PlatformSelectionPanel({ answers, onAnswer, onReset, score, roks
             </p>
           </Tile>
         </Column>
+        <Column lg={5} md={2} sm={4} style={{ marginTop: '0.5rem' }}>
+          <Tile style={{ borderLeft: '4px solid #ff832b' }}>
+            <h5 style={{ margin: 0 }}>Retain VMware Factors</h5>
+            <p style={{ fontSize: '1.5rem', fontWeight: 600, margin: '0.25rem 0 0' }}>
+              {score.vmwareCount} of {vmwareFactors.length}
+            </p>
+          </Tile>
+        </Column>
 
         {/* Leaning */}
         {hasAnswers && (
           <Column lg={16} md={8} sm={4} style={{ marginTop: '0.5rem' }}>
             <Tile>
               <p style={{ margin: 0 }}>
-                <strong>Questionnaire leans toward:</strong> {leaningText}
+                <strong>Questionnaire leans toward:</strong> {favoursRetain ? 'Retaining VMware (VCF on IBM Cloud)' : leaningText}
               </p>
             </Tile>
           </Column>
@@ -10,19 +10,23 @@ interface RecommendationBannerProps {
 }
 
 export function RecommendationBanner({ recommendation, platformScore, roksVariant }: RecommendationBannerProps) {
-  // Use these colors: all-roks → teal (#009d9a), all-vsi → blue (#0f62fe), split → purple (#8a3ffc)
+  // Use these colors: all-roks → teal (#009d9a), all-vsi → blue (#0f62fe), split → purple (#8a3ffc), vmware-retain → orange (#ff832b)
   const colorMap: Record<string, string> = {
     'all-roks': '#009d9a',
     'all-vsi': '#0f62fe',
     'all-powervs': '#8a3ffc',
+    'vmware-retain': '#ff832b',
     'split': '#a56eff',
   };
   const borderColor = colorMap[recommendation.type] || '#0f62fe';
 
   // Determine if questionnaire agrees/disagrees with auto-recommendation
-  const autoLeaning = recommendation.type === 'all-roks' ? 'roks' : recommendation.type === 'all-vsi' ? 'vsi' : recommendation.type === 'all-powervs' ? 'powervs' : null;
+  const autoLeaning = recommendation.type === 'all-roks' ? 'roks' : recommendation.type === 'all-vsi' ? 'vsi' : recommendation.type === 'all-powervs' ? 'powervs' : recommendation.type === 'vmware-retain' ? 'vmware' : null;
   const hasQuestionnaireAnswers = platformScore && platformScore.answeredCount > 0;
-  const questionnaireDisagrees = hasQuestionnaireAnswers && autoLeaning && platformScore.leaning !== 'neutral' && platformScore.leaning !== autoLeaning;
+  const questionnaireLeaning = platformScore && platformScore.vmwareCount > Math.max(platformScore.vsiCount, platformScore.roksCount)
+    ? 'vmware'
+    : platformScore?.leaning;
+  const questionnaireDisagrees = hasQuestionnaireAnswers && autoLeaning && questionnaireLeaning !== 'neutral' && questionnaireLeaning !== autoLeaning;
 
   return (
     <Tile style={{ borderLeft: `4px solid ${borderColor}`, marginBottom: '1rem' }}>
@@ -46,16 +50,18 @@ export function RecommendationBanner({ recommendation, platformScore, roksVarian
       </UnorderedList>
       <div style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: '#525252' }}>
         {recommendation.roksPercentage}% ROKS / {recommendation.vsiPercentage}% VSI / {recommendation.powervsPercentage}% PowerVS
+        {recommendation.blockedPercentage != null && ` — ${recommendation.blockedPercentage}% blocked on every cloud target`}
       </div>
       {hasQuestionnaireAnswers && (
         <div style={{ marginTop: '0.75rem', paddingTop: '0.75rem', borderTop: '1px solid #e0e0e0', fontSize: '0.875rem' }}>
           <p style={{ margin: 0 }}>
             <strong>Platform questionnaire:</strong> {platformScore.vsiCount} factor{platformScore.vsiCount !== 1 ? 's' : ''} favour
-            VSI, {platformScore.roksCount} factor{platformScore.roksCount !== 1 ? 's' : ''} favour ROKS.
+            VSI, {platformScore.roksCount} factor{platformScore.roksCount !== 1 ? 's' : ''} favour ROKS,
+            {' '}{platformScore.vmwareCount} factor{platformScore.vmwareCount !== 1 ? 's' : ''} favour retaining VMware.
           </p>
           {questionnaireDisagrees ? (
             <p style={{ margin: '0.25rem 0 0', color: '#da1e28' }}>
-              Note: Your questionnaire responses suggest {platformScore.leaning === 'vsi' ? 'VPC VSI' : 'ROKS'} may be a better fit.
+              Note: Your questionnaire responses suggest {questionnaireLeaning === 'vsi' ? 'VPC VSI' : questionnaireLeaning === 'vmware' ? 'retaining VMware' : 'ROKS'} may be a better fit.
             </p>
           ) : (
             <p style={{ margin: '0.25rem 0 0', color: '#198038' }}>
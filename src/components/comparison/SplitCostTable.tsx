@@ -0,0 +1,69 @@
+import { Tile, Table, TableHead, TableRow, TableHeader, TableBody, TableCell, Button } from '@carbon/react';
+import { Download } from '@carbon/icons-react';
+import { formatCurrency } from '@/services/costEstimation';
+import type { SplitTargetCost } from '@/services/export';
+
+interface SplitCostTableProps {
+  roks: SplitTargetCost;
+  vsi: SplitTargetCost;
+  powervs: SplitTargetCost;
+  onDownloadBOM: () => void;
+}
+
+export function SplitCostTable({ roks, vsi, powervs, onDownloadBOM }: SplitCostTableProps) {
+  const columns = [
+    { id: 'roks', label: 'ROKS', cost: roks },
+    { id: 'vsi', label: 'VSI', cost: vsi },
+    { id: 'powervs', label: 'PowerVS', cost: powervs },
+  ];
+  const totalVMs = columns.reduce((sum, c) => sum + c.cost.vmCount, 0);
+  const totalMonthly = columns.reduce((sum, c) => sum + (c.cost.monthlyCost ?? 0), 0);
+  const isPartial = columns.some(c => c.cost.vmCount > 0 && c.cost.monthlyCost == null);
+
+  const formatCost = (cost: SplitTargetCost, months: number) => {
+    if (cost.vmCount === 0) return '—';
+    return cost.monthlyCost != null ? formatCurrency(cost.monthlyCost * months) : 'Not configured';
+  };
+
+  return (
+    <Tile style={{ borderLeft: '4px solid #a56eff' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <h5 style={{ margin: 0 }}>Split Migration Cost</h5>
+        <Button kind="ghost" size="sm" renderIcon={Download} onClick={onDownloadBOM}>
+          Download BOM (XLSX)
+        </Button>
+      </div>
+      <Table size="sm">
+        <TableHead>
+          <TableRow>
+            <TableHeader />
+            {columns.map(c => <TableHeader key={c.id}>{c.label}</TableHeader>)}
+            <TableHeader>Total</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          <TableRow>
+            <TableCell>VMs</TableCell>
+            {columns.map(c => <TableCell key={c.id}>{c.cost.vmCount}</TableCell>)}
+            <TableCell>{totalVMs}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Monthly cost</TableCell>
+            {columns.map(c => <TableCell key={c.id}>{formatCost(c.cost, 1)}</TableCell>)}
+            <TableCell><strong>{formatCurrency(totalMonthly)}{isPartial ? '*' : ''}</strong></TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Annual cost</TableCell>
+            {columns.map(c => <TableCell key={c.id}>{formatCost(c.cost, 12)}</TableCell>)}
+            <TableCell><strong>{formatCurrency(totalMonthly * 12)}{isPartial ? '*' : ''}</strong></TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+      <p style={{ marginTop: '0.5rem', fontSize: '0.75rem', color: '#525252' }}>
+        ROKS and VSI costs are the all-VM estimates from their sizing pages, pro-rated by assigned VM count.
+        PowerVS is sized per LPAR from the VMs assigned to it.
+        {isPartial && ' * Excludes targets whose sizing page has not been opened yet.'}
+      </p>
+    </Tile>
+  );
+}
@@ -0,0 +1,192 @@
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, LineController, LineElement, PointElement, type ChartOptions } from 'chart.js';
+import {
+  Tile, Grid, Column, NumberInput, Button,
+  Table, TableHead, TableRow, TableHeader, TableBody, TableCell,
+} from '@carbon/react';
+import { Reset } from '@carbon/icons-react';
+import { ChartWrapper } from '@/components/charts';
+import { formatCurrency } from '@/services/costEstimation';
+import { getActiveCurrency } from '@/services/pricing/currency';
+import type { TCOProjection, VMwareBaselineSettings } from '@/services/tcoProjection';
+import { CARBON_COLORS, getChartColors } from '@/utils/chartConfig';
+
+ChartJS.register(LineController, LineElement, PointElement);
+
+const SCENARIO_COLORS = [CARBON_COLORS.blue60, CARBON_COLORS.teal50, CARBON_COLORS.purple60, CARBON_COLORS.orange40];
+
+interface TCOProjectionPanelProps {
+  projection: TCOProjection;
+  baseline: VMwareBaselineSettings;
+  derivedLicensedCores: number;
+  annualGrowthRate: number;
+  onBaselineChange: (changes: Partial<VMwareBaselineSettings>) => void;
+  onReset: () => void;
+}
+
+function formatBreakEven(month: number | null): string {
+  if (month == null) return 'Not within horizon';
+  return `Month ${month}`;
+}
+
+export function TCOProjectionPanel({
+  projection,
+  baseline,
+  derivedLicensedCores,
+  annualGrowthRate,
+  onBaselineChange,
+  onReset,
+}: TCOProjectionPanelProps) {
+  const chartColors = getChartColors();
+  const { symbol } = getActiveCurrency();
+  const years = projection.statusQuo.yearly.length;
+
+  const chartData = {
+    labels: projection.statusQuo.cumulative.map((_, m) => `M${m + 1}`),
+    datasets: [
+      {
+        label: 'VMware status quo',
+        data: projection.statusQuo.cumulative,
+        borderColor: CARBON_COLORS.gray60,
+        backgroundColor: CARBON_COLORS.gray60,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        borderWidth: 2,
+      },
+      ...projection.scenarios.map((s, i) => ({
+        label: s.label,
+        data: s.cumulative,
+        borderColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length],
+        backgroundColor: SCENARIO_COLORS[i % SCENARIO_COLORS.length],
+        pointRadius: 0,
+        borderWidth: 2,
+      })),
+    ],
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { position: 'bottom', labels: { color: chartColors.text } },
+      tooltip: {
+        backgroundColor: chartColors.tooltipBg,
+        callbacks: {
+          label: (context) => `${context.dataset.label}: ${formatCurrency(context.raw as number)}`,
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { color: chartColors.text, maxTicksLimit: 12 }, grid: { display: false } },
+      y: {
+        ticks: { color: chartColors.text, callback: (value) => formatCurrency(Number(value)) },
+        grid: { color: chartColors.grid },
+      },
+    },
+  };
+
+  return (
+    <Tile style={{ borderLeft: '4px solid #0f62fe' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <h5 style={{ margin: 0 }}>Multi-Year TCO</h5>
+        <Button kind="ghost" size="sm" renderIcon={Reset} onClick={onReset}>
+          Reset baseline
+        </Button>
+      </div>
+      <p style={{ fontSize: '0.875rem', color: '#525252', marginBottom: '1rem' }}>
+        Cumulative cost over {years} year{years !== 1 ? 's' : ''} at {annualGrowthRate}% annual growth.
+        Cloud spend ramps up as each wave starts; VMware keeps running until month {projection.exitMonth}, when the migration timeline ends.
+      </p>
+
+      <Grid narrow>
+        <Column lg={3} md={2} sm={2}>
+          <NumberInput
+            id="tco-licence-cost"
+            label={`Licence ${symbol}/core/year`}
+            min={0}
+            step={10}
+            value={baseline.licenceCostPerCoreYear}
+            onChange={(_, { value }) => onBaselineChange({ licenceCostPerCoreYear: Number(value) || 0 })}
+          />
+        </Column>
+        <Column lg={3} md={2} sm={2}>
+          <NumberInput
+            id="tco-licensed-cores"
+            label="Licensed cores"
+            helperText={`From vLicense: ${derivedLicensedCores}`}
+            min={0}
+            value={baseline.licensedCoresOverride ?? derivedLicensedCores}
+            onChange={(_, { value }) => onBaselineChange({ licensedCoresOverride: Number(value) || 0 })}
+          />
+        </Column>
+        <Column lg={4} md={2} sm={2}>
+          <NumberInput
+            id="tco-support-cost"
+            label={`Annual support (${symbol})`}
+            min={0}
+            step={1000}
+            value={baseline.annualSupportCost}
+            onChange={(_, { value }) => onBaselineChange({ annualSupportCost: Number(value) || 0 })}
+          />
+        </Column>
+        <Column lg={3} md={1} sm={2}>
+          <NumberInput
+            id="tco-refresh-cost"
+            label={`Hardware refresh (${symbol})`}
+            min={0}
+            step={10000}
+            value={baseline.hardwareRefreshCost}
+            onChange={(_, { value }) => onBaselineChange({ hardwareRefreshCost: Number(value) || 0 })}
+          />
+        </Column>
+        <Column lg={3} md={1} sm={2}>
+          <NumberInput
+            id="tco-refresh-year"
+            label="Refresh in year"
+            min={1}
+            max={10}
+            value={baseline.hardwareRefreshYear}
+            onChange={(_, { value }) => onBaselineChange({ hardwareRefreshYear: Number(value) || 1 })}
+          />
+        </Column>
+      </Grid>
+
+      <div style={{ marginTop: '1rem' }}>
+        <ChartWrapper title="Cumulative Cost" height={280}>
+          <Line data={chartData} options={options} />
+        </ChartWrapper>
+      </div>
+
+      <Table size="sm">
+        <TableHead>
+          <TableRow>
+            <TableHeader>Scenario</TableHeader>
+            {projection.statusQuo.yearly.map((_, y) => <TableHeader key={y}>Year {y + 1}</TableHeader>)}
+            <TableHeader>Total</TableHeader>
+            <TableHeader>Dual-running</TableHeader>
+            <TableHeader>Break-even</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          <TableRow>
+            <TableCell>VMware status quo</TableCell>
+            {projection.statusQuo.yearly.map((cost, y) => <TableCell key={y}>{formatCurrency(cost)}</TableCell>)}
+            <TableCell><strong>{formatCurrency(projection.statusQuo.total)}</strong></TableCell>
+            <TableCell>—</TableCell>
+            <TableCell>—</TableCell>
+          </TableRow>
+          {projection.scenarios.map(s => (
+            <TableRow key={s.id}>
+              <TableCell>{s.label}</TableCell>
+              {s.yearly.map((cost, y) => <TableCell key={y}>{formatCurrency(cost)}</TableCell>)}
+              <TableCell><strong>{formatCurrency(s.total)}</strong></TableCell>
+              <TableCell>{formatCurrency(s.dualRunningCost)}</TableCell>
+              <TableCell>{formatBreakEven(s.breakEvenMonth)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Tile>
+  );
+}
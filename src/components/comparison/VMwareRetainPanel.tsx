@@ -0,0 +1,181 @@
+import {
+  Tile, Grid, Column, NumberInput, Button, Dropdown, Toggle,
+  Table, TableHead, TableRow, TableHeader, TableBody, TableCell,
+} from '@carbon/react';
+import { Reset } from '@carbon/icons-react';
+import { MetricCard } from '@/components/common';
+import { formatCurrency, type CostEstimate } from '@/services/costEstimation';
+import {
+  getVMwareRetainHostProfiles,
+  getVMwareRetainSizingConfig,
+  type CloudBlockerSummary,
+  type VMwareRetainLimitingFactor,
+  type VMwareRetainSettings,
+  type VMwareRetainSizing,
+} from '@/services/migration/vmwareRetainSizing';
+import { formatNumber } from '@/utils/formatters';
+
+interface VMwareRetainPanelProps {
+  sizing: VMwareRetainSizing;
+  estimate: CostEstimate | null;
+  blockers: CloudBlockerSummary | null;
+  settings: VMwareRetainSettings;
+  onSettingsChange: (changes: Partial<VMwareRetainSettings>) => void;
+  onReset: () => void;
+}
+
+const LIMITING_FACTOR_LABELS: Record<VMwareRetainLimitingFactor, string> = {
+  cpu: 'CPU',
+  memory: 'Memory',
+  storage: 'vSAN capacity',
+  minimum: 'vSAN minimum',
+};
+
+const HOST_PROFILE_ITEMS = Object.entries(getVMwareRetainHostProfiles()).map(([id, profile]) => ({ id, text: profile.name }));
+
+export function VMwareRetainPanel({ sizing, estimate, blockers, settings, onSettingsChange, onReset }: VMwareRetainPanelProps) {
+  const config = getVMwareRetainSizingConfig();
+  const matchSource = settings.vcpuPerCore == null;
+
+  return (
+    <Tile style={{ borderLeft: '4px solid #ff832b', marginTop: '1rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <h5 style={{ margin: 0 }}>Retain VMware — VCF on IBM Cloud</h5>
+        <Button kind="ghost" size="sm" renderIcon={Reset} onClick={onReset}>
+          Reset sizing
+        </Button>
+      </div>
+      <p style={{ fontSize: '0.875rem', color: '#525252', marginBottom: '1rem' }}>
+        Each source vSphere cluster is rebuilt on classic bare metal with VMware Cloud Foundation, so VMs move as-is.
+        Hosts cover the larger of CPU, memory and vSAN capacity at the utilisation ceiling, plus HA spares
+        (at least {config.minHosts} per cluster for vSAN). vSphere and vSAN are subscribed per physical core.
+      </p>
+
+      <Grid narrow>
+        <Column lg={4} md={4} sm={4}>
+          <Dropdown
+            id="vmware-retain-host-profile"
+            titleText="Host profile"
+            label="Select..."
+            items={HOST_PROFILE_ITEMS}
+            itemToString={(item: typeof HOST_PROFILE_ITEMS[number] | null) => item?.text ?? ''}
+            selectedItem={HOST_PROFILE_ITEMS.find(i => i.id === sizing.hostProfileId) ?? null}
+            onChange={({ selectedItem }: { selectedItem: typeof HOST_PROFILE_ITEMS[number] | null }) => {
+              if (selectedItem) onSettingsChange({ hostProfile: selectedItem.id });
+            }}
+          />
+        </Column>
+        <Column lg={3} md={2} sm={2}>
+          <Toggle
+            id="vmware-retain-match-source"
+            labelText="Consolidation ratio"
+            labelA="Fixed"
+            labelB="Match source"
+            toggled={matchSource}
+            onToggle={(checked: boolean) => onSettingsChange({ vcpuPerCore: checked ? null : config.defaultVcpuPerCore })}
+            size="sm"
+          />
+        </Column>
+        <Column lg={3} md={2} sm={2}>
+          <NumberInput
+            id="vmware-retain-vcpu-per-core"
+            label="vCPU : pCore"
+            min={1}
+            max={config.maxVcpuPerCore}
+            step={0.5}
+            disabled={matchSource}
+            value={settings.vcpuPerCore ?? config.defaultVcpuPerCore}
+            onChange={(_, { value }) => onSettingsChange({ vcpuPerCore: Number(value) || 1 })}
+          />
+        </Column>
+        <Column lg={2} md={2} sm={2}>
+          <NumberInput
+            id="vmware-retain-memory-overcommit"
+            label="Memory overcommit"
+            min={1}
+            max={2}
+            step={0.1}
+            value={settings.memoryOvercommit}
+            onChange={(_, { value }) => onSettingsChange({ memoryOvercommit: Number(value) || 1 })}
+          />
+        </Column>
+        <Column lg={2} md={1} sm={2}>
+          <NumberInput
+            id="vmware-retain-max-utilisation"
+            label="Max utilisation %"
+            min={50}
+            max={100}
+            step={5}
+            value={settings.maxUtilisationPct}
+            onChange={(_, { value }) => onSettingsChange({ maxUtilisationPct: Number(value) || config.maxUtilisationPct })}
+          />
+        </Column>
+        <Column lg={2} md={1} sm={2}>
+          <NumberInput
+            id="vmware-retain-spare-hosts"
+            label="HA spare hosts"
+            min={0}
+            max={4}
+            value={settings.haSpareHosts}
+            onChange={(_, { value }) => onSettingsChange({ haSpareHosts: Number(value) || 0 })}
+          />
+        </Column>
+
+        <Column lg={4} md={2} sm={2} style={{ marginTop: '1rem' }}>
+          <MetricCard label="Target Hosts" value={sizing.totalHosts} variant="primary" tooltip={`Replacing ${sizing.sourceHosts} source hosts`} />
+        </Column>
+        <Column lg={4} md={2} sm={2} style={{ marginTop: '1rem' }}>
+          <MetricCard label="Licensed Cores" value={formatNumber(sizing.licensedCores)} variant="info" tooltip="vSphere and vSAN cores, after the per-socket minimum" />
+        </Column>
+        <Column lg={4} md={2} sm={2} style={{ marginTop: '1rem' }}>
+          <MetricCard label="Monthly Cost" value={estimate ? formatCurrency(estimate.totalMonthly) : 'Not configured'} variant="teal" />
+        </Column>
+        <Column lg={4} md={2} sm={2} style={{ marginTop: '1rem' }}>
+          <MetricCard
+            label="Blocked on Every Cloud Target"
+            value={blockers ? `${blockers.blockedVMs} (${blockers.blockedPercentage}%)` : '—'}
+            variant={blockers && blockers.blockedVMs > 0 ? 'warning' : 'default'}
+            tooltip="VMs with a pre-flight blocker on both ROKS and VSI"
+          />
+        </Column>
+      </Grid>
+
+      <div style={{ marginTop: '1rem' }}>
+        <Table size="sm">
+          <TableHead>
+            <TableRow>
+              <TableHeader>Cluster</TableHeader>
+              <TableHeader>Source hosts</TableHeader>
+              <TableHeader>Source cores</TableHeader>
+              <TableHeader>VMs</TableHeader>
+              <TableHeader>vCPUs</TableHeader>
+              <TableHeader>Memory (GiB)</TableHeader>
+              <TableHeader>Storage (GiB)</TableHeader>
+              <TableHeader>Observed ratio</TableHeader>
+              <TableHeader>Sized ratio</TableHeader>
+              <TableHeader>Target hosts</TableHeader>
+              <TableHeader>Limited by</TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sizing.clusters.map(c => (
+              <TableRow key={c.cluster}>
+                <TableCell>{c.cluster}</TableCell>
+                <TableCell>{c.sourceHosts}</TableCell>
+                <TableCell>{formatNumber(c.sourceCores)}</TableCell>
+                <TableCell>{c.vmCount}</TableCell>
+                <TableCell>{formatNumber(c.vcpus)}</TableCell>
+                <TableCell>{formatNumber(c.memoryGiB)}</TableCell>
+                <TableCell>{formatNumber(c.storageGiB)}</TableCell>
+                <TableCell>{c.observedRatio}:1</TableCell>
+                <TableCell>{c.consolidationRatio}:1</TableCell>
+                <TableCell>{c.hosts} (incl. {c.spareHosts} spare)</TableCell>
+                <TableCell>{LIMITING_FACTOR_LABELS[c.limitingFactor]}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Tile>
+  );
+}
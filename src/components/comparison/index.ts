@@ -1,3 +1,6 @@
 export { RecommendationBanner } from './RecommendationBanner';
 export { VMAssignmentTable } from './VMAssignmentTable';
 export { PlatformSelectionPanel } from './PlatformSelectionPanel';
+export { SplitCostTable } from './SplitCostTable';
+export { TCOProjectionPanel } from './TCOProjectionPanel';
+export { VMwareRetainPanel } from './VMwareRetainPanel';
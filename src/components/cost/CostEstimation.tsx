@@ -1,5 +1,5 @@
 // Cost Estimation Component
-import { useMemo, useEffect } from 'react';
+import { useMemo, useEffect, useCallback } from 'react';
 import {
   Tile,
   Select,
@@ -21,17 +21,21 @@ import {
 } from '@carbon/react';
 import { Download, Calculator } from '@carbon/icons-react';
 import { MetricCard } from '@/components/common';
-import { PricingRefresh } from '@/components/pricing';
+import { PricingRefresh, PricingSnapshotControls } from '@/components/pricing';
 import { ProfilesRefresh } from '@/components/profiles';
-import { useDynamicPricing, useDynamicProfiles, useTargetLocation, useCostSettings } from '@/hooks';
-import type { CostEstimate, RegionCode, DiscountType, ROKSSizingInput, VSISizingInput, DataQuality } from '@/services/costEstimation';
+import { useDynamicPricing, useDynamicProfiles, useTargetLocation, useCostSettings, usePricingSnapshots } from '@/hooks';
+import type { IBMCloudPricing } from '@/services/pricing/pricingCache';
+import type { CostEstimate, RegionCode, DiscountType, ROKSSizingInput, ROKSVSISizingInput, VSISizingInput, DataQuality } from '@/services/costEstimation';
 import {
   calculateROKSCost,
+  calculateOVECost,
+  calculateROKSVSICost,
   calculateVSICost,
   getRegions,
   getDiscountOptions,
   formatCurrency,
   formatCurrencyPrecise,
+  describeCurrency,
   getBareMetalProfiles,
 } from '@/services/costEstimation';
 import { downloadBOM, downloadVSIBOMExcel, downloadROKSBOMExcel } from '@/services/export';
@@ -43,22 +47,33 @@ import { cacheBOMData } from '@/services/bomCache';
 import { sortProfileCosts, findBestValueProfileId } from './profileCostSort';
 import './CostEstimation.scss';
 
+/** Region, discount and pricing data the estimate was calculated with */
+export interface EstimatePricingInputs {
+  region: RegionCode;
+  discountType: DiscountType;
+  pricing: IBMCloudPricing;
+}
+
 interface CostEstimationProps {
   type: 'roks' | 'vsi';
   roksSizing?: ROKSSizingInput;
+  /** ROKS on VSI worker pools; replaces the bare metal sizing when set */
+  roksVsiSizing?: ROKSVSISizingInput;
   vsiSizing?: VSISizingInput;
+  /** VSI sizing from measured utilisation, priced alongside the allocated sizing */
+  rightSizedVsiSizing?: VSISizingInput | null;
   vmDetails?: VMDetail[];
   roksNodeDetails?: ROKSNodeDetail[];
   title?: string;
   showPricingRefresh?: boolean;
   onProfileSelect?: (profileId: string) => void;
-  onEstimateChange?: (totalMonthly: number | null) => void;
+  onEstimateChange?: (totalMonthly: number | null, pricingInputs: EstimatePricingInputs) => void;
   onOdfTierChange?: (tier: 'advanced' | 'essentials') => void;
   onIncludeAcmChange?: (include: boolean) => void;
   roksVariant?: 'full' | 'rov';
 }
 
-export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNodeDetails, title, showPricingRefresh = true, onProfileSelect, onEstimateChange, onOdfTierChange, onIncludeAcmChange, roksVariant = 'full' }: CostEstimationProps) {
+export function CostEstimation({ type, roksSizing, roksVsiSizing, vsiSizing, rightSizedVsiSizing, vmDetails, roksNodeDetails, title, showPricingRefresh = true, onProfileSelect, onEstimateChange, onOdfTierChange, onIncludeAcmChange, roksVariant = 'full' }: CostEstimationProps) {
   const { targetMzr } = useTargetLocation();
 
   // Initialize region from Discovery's MZR selection, validated against available regions
@@ -93,8 +108,13 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
     profileCounts,
   } = useDynamicProfiles();
 
-  const regionsResult = getRegions(pricing);
-  const discountResult = getDiscountOptions(pricing);
+  // Pricing snapshot the estimate is pinned to, if any
+  const pricingSnapshots = usePricingSnapshots(type);
+  const pinnedSnapshot = pricingSnapshots.pin;
+  const effectivePricing = pinnedSnapshot?.data ?? pricing;
+
+  const regionsResult = getRegions(effectivePricing);
+  const discountResult = getDiscountOptions(effectivePricing);
   const regions = regionsResult.data;
   const discountOptions = discountResult.data;
 
@@ -106,27 +126,54 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
       ? 'static'
       : 'live';
 
-  const estimate = useMemo<CostEstimate | null>(() => {
-    if (type === 'roks' && roksSizing) {
-      return calculateROKSCost(roksSizing, region, discountType, pricing);
+  // Price the current sizing with the given pricing data (also used by the price drift view)
+  const calculateEstimate = useCallback((pricingData: IBMCloudPricing): CostEstimate | null => {
+    if (type === 'roks' && roksVsiSizing) {
+      return calculateROKSVSICost(roksVsiSizing, region, discountType, pricingData);
+    } else if (type === 'roks' && roksSizing) {
+      return calculateROKSCost(roksSizing, region, discountType, pricingData);
     } else if (type === 'vsi' && vsiSizing) {
       // Add networking options to the sizing input
       const sizingWithNetworking: VSISizingInput = {
         ...vsiSizing,
         networking: networkingOptions,
       };
-      return calculateVSICost(sizingWithNetworking, region, discountType, pricing);
+      return calculateVSICost(sizingWithNetworking, region, discountType, pricingData);
     }
     return null;
-  }, [type, roksSizing, vsiSizing, region, discountType, pricing, networkingOptions]);
+  }, [type, roksSizing, roksVsiSizing, vsiSizing, region, discountType, networkingOptions]);
+
+  const withSnapshot = useCallback((result: CostEstimate | null): CostEstimate | null => {
+    if (!result || !pinnedSnapshot) return result;
+    return { ...result, metadata: { ...result.metadata, pricingSnapshotId: pinnedSnapshot.id } };
+  }, [pinnedSnapshot]);
 
-  // Compute ROV estimate alongside ROKS estimate
+  const estimate = useMemo<CostEstimate | null>(
+    () => withSnapshot(calculateEstimate(effectivePricing)),
+    [calculateEstimate, withSnapshot, effectivePricing],
+  );
+
+  // Compute ROV estimate alongside ROKS estimate (bare metal only — VSI workers cannot run VMs)
   const rovEstimate = useMemo<CostEstimate | null>(() => {
-    if (type === 'roks' && roksSizing) {
-      return calculateROKSCost(roksSizing, region, discountType, pricing, 'rov');
+    if (type === 'roks' && roksSizing && !roksVsiSizing) {
+      return withSnapshot(calculateROKSCost(roksSizing, region, discountType, effectivePricing, 'rov'));
     }
     return null;
-  }, [type, roksSizing, region, discountType, pricing]);
+  }, [type, roksSizing, roksVsiSizing, region, discountType, effectivePricing, withSnapshot]);
+
+  // Same bare metal cluster under the VM-only OpenShift Virtualization Engine entitlement
+  const oveEstimate = useMemo<CostEstimate | null>(() => {
+    if (type === 'roks' && roksSizing && !roksVsiSizing) {
+      return withSnapshot(calculateOVECost(roksSizing, region, discountType, effectivePricing));
+    }
+    return null;
+  }, [type, roksSizing, roksVsiSizing, region, discountType, effectivePricing, withSnapshot]);
+
+  // Price the right-sized VSI sizing with the same region, discount and networking
+  const rightSizedEstimate = useMemo<CostEstimate | null>(() => {
+    if (type !== 'vsi' || !rightSizedVsiSizing) return null;
+    return withSnapshot(calculateVSICost({ ...rightSizedVsiSizing, networking: networkingOptions }, region, discountType, effectivePricing));
+  }, [type, rightSizedVsiSizing, networkingOptions, region, discountType, effectivePricing, withSnapshot]);
 
   // Sync region when Discovery MZR changes
   useEffect(() => {
@@ -137,22 +184,22 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
 
   // Notify parent of estimate changes
   useEffect(() => {
-    onEstimateChange?.(estimate?.totalMonthly ?? null);
-  }, [estimate?.totalMonthly, onEstimateChange]);
+    onEstimateChange?.(estimate?.totalMonthly ?? null, { region, discountType, pricing: effectivePricing });
+  }, [estimate?.totalMonthly, onEstimateChange, region, discountType, effectivePricing]);
 
   // Cache BOM data for Export page — use ROV estimate when platform selection indicates ROV
   useEffect(() => {
     const estimateToCache = type === 'roks' && roksVariant === 'rov' && rovEstimate ? rovEstimate : estimate;
     if (estimateToCache) {
-      cacheBOMData(type, estimateToCache, vmDetails, roksNodeDetails, region, discountType);
+      cacheBOMData(type, estimateToCache, vmDetails, roksNodeDetails, region, discountType, oveEstimate);
     }
-  }, [estimate, rovEstimate, roksVariant, type, vmDetails, roksNodeDetails, region, discountType]);
+  }, [estimate, rovEstimate, oveEstimate, roksVariant, type, vmDetails, roksNodeDetails, region, discountType]);
 
   // Calculate costs for all bare metal profiles (ROKS only)
   const allProfileCosts = useMemo(() => {
-    if (type !== 'roks' || !roksSizing) return null;
+    if (type !== 'roks' || !roksSizing || roksVsiSizing) return null;
 
-    const profilesResult = getBareMetalProfiles(pricing);
+    const profilesResult = getBareMetalProfiles(effectivePricing);
     const profiles = profilesResult.data;
     // Filter to only NVMe profiles for ODF compatibility
     const nvmeProfiles = profiles.filter(p => p.hasNvme);
@@ -178,8 +225,8 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
         computeProfile: profile.id,
         computeNodes: nodeCount,
       };
-      const cost = calculateROKSCost(profileSizing, region, discountType, pricing);
-      const rovCost = calculateROKSCost(profileSizing, region, discountType, pricing, 'rov');
+      const cost = calculateROKSCost(profileSizing, region, discountType, effectivePricing);
+      const rovCost = calculateROKSCost(profileSizing, region, discountType, effectivePricing, 'rov');
 
       // Check if ODF reservation exceeds this profile's CPU capacity
       let cpuViable = true;
@@ -225,7 +272,7 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
         isBestValue: c.profile.id === lowestCostProfileId,
       }))
     );
-  }, [type, roksSizing, region, discountType, pricing]);
+  }, [type, roksSizing, roksVsiSizing, region, discountType, effectivePricing]);
 
   // Detect if the selected profile has no pricing (custom profile with $0 rates)
   const hasUnpriceableCompute = estimate?.lineItems.some(
@@ -252,6 +299,11 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
     { key: 'monthlyCost', header: 'Monthly' },
     { key: 'annualCost', header: 'Annual' },
   ];
+  // Rate card estimates show the contracted price next to the list price
+  const rateCard = estimate.metadata.rateCard;
+  if (rateCard) {
+    tableHeaders.push({ key: 'contractedCost', header: 'Contracted Monthly' });
+  }
 
   const tableRows = estimate.lineItems.map((item, idx) => {
     const isUnpriceable = item.notes === 'Custom profile - no pricing available';
@@ -264,6 +316,8 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
       unitCost: isUnpriceable ? 'N/A' : (item.unitCost < 1 ? formatCurrencyPrecise(item.unitCost) : formatCurrency(item.unitCost)),
       monthlyCost: isUnpriceable ? 'Unable to Price' : formatCurrency(item.monthlyCost),
       annualCost: isUnpriceable ? 'Unable to Price' : formatCurrency(item.annualCost),
+      contractedCost: item.contractedMonthlyCost == null ? ''
+        : `${formatCurrency(item.contractedMonthlyCost)}${item.discountPct ? ` (-${item.discountPct}%)` : ''}`,
       notes: item.notes,
     };
   });
@@ -274,7 +328,7 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
       if (type === 'vsi' && vmDetails && vmDetails.length > 0) {
         await downloadVSIBOMExcel(vmDetails, estimate, 'Default VPC', region, discountType);
       } else if (type === 'roks' && roksNodeDetails && roksNodeDetails.length > 0) {
-        await downloadROKSBOMExcel(estimate, roksNodeDetails, 'ROKS Cluster', region, discountType);
+        await downloadROKSBOMExcel(estimate, roksNodeDetails, 'ROKS Cluster', region, discountType, undefined, oveEstimate);
       } else {
         // Fallback to text BOM if no detailed data
         downloadBOM(estimate, 'text');
@@ -313,6 +367,7 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
                 />
               </>
             )}
+            <PricingSnapshotControls snapshots={pricingSnapshots} calculate={calculateEstimate} />
             <Button
               kind="ghost"
               size="sm"
@@ -355,6 +410,8 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
             labelText="Pricing"
             value={discountType}
             onChange={(e) => setDiscountType(e.target.value as DiscountType)}
+            disabled={!!rateCard}
+            helperText={rateCard ? `Rate card "${rateCard.name}" applied (Settings)` : undefined}
           >
             {discountOptions.map((d) => (
               <SelectItem
@@ -369,22 +426,24 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
         {/* ROKS Licensing Options */}
         {type === 'roks' && (
           <div className="cost-estimation__roks-options">
-            <Select
-              id="odf-tier-select"
-              labelText="ODF Tier"
-              value={roksSizing?.odfTier ?? 'advanced'}
-              onChange={(e) => onOdfTierChange?.(e.target.value as 'advanced' | 'essentials')}
-            >
-              <SelectItem value="advanced" text="ODF Advanced ($681.82/node/mo)" />
-              <SelectItem value="essentials" text="ODF Essentials ($545.46/node/mo)" />
-            </Select>
+            {!roksVsiSizing && (
+              <Select
+                id="odf-tier-select"
+                labelText="ODF Tier"
+                value={roksSizing?.odfTier ?? 'advanced'}
+                onChange={(e) => onOdfTierChange?.(e.target.value as 'advanced' | 'essentials')}
+              >
+                <SelectItem value="advanced" text="ODF Advanced ($681.82/node/mo)" />
+                <SelectItem value="essentials" text="ODF Essentials ($545.46/node/mo)" />
+              </Select>
+            )}
 
             <Toggle
               id="acm-toggle"
               labelText="Advanced Cluster Management (ACM)"
               labelA="Off"
               labelB="On"
-              toggled={roksSizing?.includeAcm ?? false}
+              toggled={(roksVsiSizing ?? roksSizing)?.includeAcm ?? false}
               onToggle={(checked) => onIncludeAcmChange?.(checked)}
             />
             <span className="cost-estimation__networking-hint">Per-vCPU charge (~$21.75/vCPU/mo, estimated)</span>
@@ -536,6 +595,30 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
             />
           </>
         )}
+        {type === 'roks' && oveEstimate && !hasUnpriceableCompute && (
+          <MetricCard
+            label="OVE Monthly"
+            value={formatCurrency(oveEstimate.totalMonthly)}
+            detail="VM-only OpenShift Virtualization Engine licence"
+            variant="teal"
+          />
+        )}
+        {rightSizedEstimate && !hasUnpriceableCompute && (
+          <>
+            <MetricCard
+              label="Right-sized Monthly"
+              value={formatCurrency(rightSizedEstimate.totalMonthly)}
+              detail={`Save ${formatCurrency(estimate.totalMonthly - rightSizedEstimate.totalMonthly)}/mo vs allocated`}
+              variant="teal"
+            />
+            <MetricCard
+              label="Right-sized Annual"
+              value={formatCurrency(rightSizedEstimate.totalAnnual)}
+              detail={`Save ${formatCurrency(estimate.totalAnnual - rightSizedEstimate.totalAnnual)}/yr vs allocated`}
+              variant="teal"
+            />
+          </>
+        )}
       </div>
 
       {/* Bare Metal Profile Comparison (ROKS only) */}
@@ -652,9 +735,33 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
                     <TableCell colSpan={5}><strong>Subtotal</strong></TableCell>
                     <TableCell><strong>{hasUnpriceableCompute ? 'Unable to Price' : formatCurrency(estimate.subtotalMonthly)}</strong></TableCell>
                     <TableCell><strong>{hasUnpriceableCompute ? 'Unable to Price' : formatCurrency(estimate.subtotalAnnual)}</strong></TableCell>
+                    {rateCard && <TableCell><strong>{formatCurrency(estimate.subtotalMonthly - rateCard.lineDiscountMonthly)}</strong></TableCell>}
                   </TableRow>
+                  {/* Rate card rows */}
+                  {!hasUnpriceableCompute && rateCard && (
+                    <>
+                      <TableRow className="cost-estimation__discount-row">
+                        <TableCell colSpan={5}>
+                          <em>Rate card discounts ({rateCard.name})</em>
+                        </TableCell>
+                        <TableCell><em>-{formatCurrency(rateCard.lineDiscountMonthly)}</em></TableCell>
+                        <TableCell><em>-{formatCurrency(rateCard.lineDiscountMonthly * 12)}</em></TableCell>
+                        <TableCell />
+                      </TableRow>
+                      {rateCard.creditMonthly > 0 && (
+                        <TableRow className="cost-estimation__discount-row">
+                          <TableCell colSpan={5}>
+                            <em>Committed-use credit</em>
+                          </TableCell>
+                          <TableCell><em>-{formatCurrency(rateCard.creditMonthly)}</em></TableCell>
+                          <TableCell><em>-{formatCurrency(rateCard.creditMonthly * 12)}</em></TableCell>
+                          <TableCell><em>-{formatCurrency(rateCard.creditMonthly)}</em></TableCell>
+                        </TableRow>
+                      )}
+                    </>
+                  )}
                   {/* Discount row */}
-                  {!hasUnpriceableCompute && estimate.discountPct > 0 && (
+                  {!hasUnpriceableCompute && !rateCard && estimate.discountPct > 0 && (
                     <TableRow className="cost-estimation__discount-row">
                       <TableCell colSpan={5}>
                         <em>Discount ({estimate.discountPct}%)</em>
@@ -668,6 +775,7 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
                     <TableCell colSpan={5}><strong>Total</strong></TableCell>
                     <TableCell><strong>{hasUnpriceableCompute ? 'Unable to Price' : formatCurrency(estimate.totalMonthly)}</strong></TableCell>
                     <TableCell><strong>{hasUnpriceableCompute ? 'Unable to Price' : formatCurrency(estimate.totalAnnual)}</strong></TableCell>
+                    {rateCard && <TableCell><strong>{hasUnpriceableCompute ? 'Unable to Price' : formatCurrency(estimate.totalMonthly)}</strong></TableCell>}
                   </TableRow>
                 </TableBody>
               </Table>
@@ -689,7 +797,9 @@ export function CostEstimation({ type, roksSizing, vsiSizing, vmDetails, roksNod
       <div className="cost-estimation__metadata">
         <span>Architecture: {estimate.architecture}</span>
         <span>Region: {estimate.regionName}</span>
-        <span>Pricing Version: {estimate.metadata.pricingVersion}</span>
+        <span>Pricing Version: {estimate.metadata.pricingVersion}{pinnedSnapshot ? ' (pinned)' : ''}</span>
+        <span>Currency: {describeCurrency(estimate)}</span>
+        {rateCard && <span>Rate Card: {rateCard.name} (list {formatCurrency(estimate.subtotalMonthly)}/mo, contracted {formatCurrency(estimate.totalMonthly)}/mo)</span>}
       </div>
     </div>
   );
@@ -1,2 +1,3 @@
 // Cost components
 export { CostEstimation } from './CostEstimation';
+export type { EstimatePricingInputs } from './CostEstimation';
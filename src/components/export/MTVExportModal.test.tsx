@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, cleanup } from '@testing-library/react';
+import { MTVExportModal } from './MTVExportModal';
+import type { MTVExportOptions } from '@/types/mtvYaml';
+import type { VNetworkInfo, VDatastoreInfo, VDiskInfo, VirtualMachine } from '@/types/rvtools';
+
+const mockDownloadBlob = vi.fn();
+vi.mock('@/services/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/export')>()),
+  downloadBlob: (...args: unknown[]) => mockDownloadBlob(...args),
+}));
+
+const options: MTVExportOptions = {
+  namespace: 'openshift-mtv',
+  sourceProviderName: 'vmware-source',
+  destinationProviderName: 'host',
+  networkMapName: 'vmware-network-map',
+  storageMapName: 'vmware-storage-map',
+  defaultStorageClass: 'ocs-storagecluster-ceph-rbd',
+  targetNamespace: 'migrated-vms',
+};
+
+const waves = [{ name: 'wave-1', vms: [{ vmName: 'web-01', uuid: 'uuid-1' }] as VirtualMachine[] }];
+const networks = [{ vmName: 'web-01', networkName: 'VLAN-100', switchName: 'dvs-prod' }] as VNetworkInfo[];
+const datastores = [{ name: 'ds-ssd' }] as VDatastoreInfo[];
+const disks = [{ vmName: 'web-01', diskPath: '[ds-ssd] web-01/web-01.vmdk' }] as VDiskInfo[];
+
+// jsdom's Blob has no text(); the bundle is stored uncompressed, so its YAML reads back as text
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+}
+
+function renderModal(onExported = vi.fn()) {
+  render(
+    <MTVExportModal
+      open
+      onClose={vi.fn()}
+      waves={waves}
+      networks={networks}
+      datastores={datastores}
+      disks={disks}
+      options={options}
+      filename="mtv.zip"
+      onExported={onExported}
+    />
+  );
+  return onExported;
+}
+
+describe('MTVExportModal', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockDownloadBlob.mockClear();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('blocks the export while sources only have the default mappings', async () => {
+    const onExported = renderModal();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Export MTV YAML' }));
+
+    expect(await screen.findByText(/Network "VLAN-100" used by 1 VM is not mapped/)).toBeInTheDocument();
+    expect(screen.getByText(/Datastore "ds-ssd" used by 1 VM is not mapped/)).toBeInTheDocument();
+    expect(mockDownloadBlob).not.toHaveBeenCalled();
+    expect(onExported).not.toHaveBeenCalled();
+  });
+
+  it('exports the bundle with the entered mappings', async () => {
+    const onExported = renderModal();
+
+    fireEvent.change(screen.getByLabelText('VLAN-100 (1 VM)'), { target: { value: 'vms/vlan-100' } });
+    fireEvent.change(screen.getByLabelText('ds-ssd (1 VM)'), { target: { value: 'ibmc-vpc-block-10iops-tier' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Export MTV YAML' }));
+
+    await waitFor(() => expect(mockDownloadBlob).toHaveBeenCalledTimes(1));
+    const [blob, filename] = mockDownloadBlob.mock.calls[0];
+    const content = await readBlob(blob as Blob);
+    expect(filename).toBe('mtv.zip');
+    expect(content).toContain('type: multus');
+    expect(content).toContain('name: vlan-100');
+    expect(content).toContain('storageClass: ibmc-vpc-block-10iops-tier');
+    expect(onExported).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,141 @@
+// MTV Export Modal - Network and storage mappings and download for the MTV YAML bundle
+import { useState, useMemo } from 'react';
+import { Modal, TextInput, InlineNotification } from '@carbon/react';
+import type { MTVExportOptions, NetworkMapEntry } from '@/types/mtvYaml';
+import type { VNetworkInfo, VDatastoreInfo, VDiskInfo } from '@/types/rvtools';
+import type { MTVWave } from '@/services/export';
+import { MTVYAMLGenerator, collectBundleSources, parseNetworkDestination, downloadBlob } from '@/services/export';
+import { useMTVMappings } from '@/hooks/useMTVMappings';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('MTVExportModal');
+
+export interface MTVExportModalProps {
+  open: boolean;
+  onClose: () => void;
+  waves: MTVWave[];
+  networks: VNetworkInfo[];
+  datastores: VDatastoreInfo[];
+  disks: VDiskInfo[];
+  options: MTVExportOptions;
+  filename: string;
+  onExported?: () => void;
+}
+
+export function MTVExportModal({
+  open,
+  onClose,
+  waves,
+  networks,
+  datastores,
+  disks,
+  options,
+  filename,
+  onExported,
+}: MTVExportModalProps) {
+  const { mappings, setNetworkMapping, setStorageMapping } = useMTVMappings();
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const sources = useMemo(() => collectBundleSources(waves, networks, disks), [waves, networks, disks]);
+  const totalVMs = waves.reduce((sum, w) => sum + w.vms.length, 0);
+
+  const handleExport = async () => {
+    // Only the sources in this bundle get an entry; anything left blank is reported by validation
+    const networkMappings: Record<string, NetworkMapEntry['destination']> = {};
+    for (const { name } of sources.networks) {
+      const destination = parseNetworkDestination(mappings.networks[name] ?? '');
+      if (destination) networkMappings[name] = destination;
+    }
+    const storageMappings: Record<string, string> = {};
+    for (const { name } of sources.datastores) {
+      if (mappings.datastores[name]) storageMappings[name] = mappings.datastores[name];
+    }
+
+    const generator = new MTVYAMLGenerator({ ...options, networkMappings, storageMappings });
+    const validation = generator.validateBundle(waves, networks, disks);
+    if (!validation.valid) {
+      setValidationErrors(validation.errors.map(e => e.message));
+      return;
+    }
+
+    setValidationErrors([]);
+    setIsExporting(true);
+    try {
+      const blob = await generator.generateBundle(waves, networks, datastores, disks);
+      downloadBlob(blob, filename);
+      onExported?.();
+      onClose();
+    } catch (error) {
+      logger.error('MTV YAML export failed', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onClose}
+      modalHeading="Export MTV YAML Bundle"
+      modalLabel="Migration Toolkit for Virtualization"
+      primaryButtonText={isExporting ? 'Generating...' : 'Export MTV YAML'}
+      primaryButtonDisabled={isExporting || totalVMs === 0}
+      secondaryButtonText="Cancel"
+      onRequestSubmit={handleExport}
+      size="md"
+    >
+      <InlineNotification
+        kind="info"
+        title="Map every source before export"
+        subtitle={`Map the ${sources.networks.length} networks and ${sources.datastores.length} datastores used by ${totalVMs} VMs across ${waves.length} waves. Unmapped sources block the export.`}
+        lowContrast
+        hideCloseButton
+      />
+      {validationErrors.length > 0 && (
+        <InlineNotification
+          kind="error"
+          title="Bundle not exported"
+          subtitle={validationErrors.join('; ')}
+          lowContrast
+          onCloseButtonClick={() => setValidationErrors([])}
+        />
+      )}
+
+      <h5 style={{ margin: '1rem 0 0.5rem' }}>Network mappings</h5>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {sources.networks.map(({ name, vmCount }) => {
+          const value = mappings.networks[name] ?? '';
+          return (
+            <TextInput
+              key={name}
+              id={`mtv-network-${name}`}
+              labelText={`${name} (${vmCount} VM${vmCount !== 1 ? 's' : ''})`}
+              placeholder="pod or namespace/network-attachment-definition"
+              value={value}
+              invalid={value !== '' && !parseNetworkDestination(value)}
+              invalidText='Enter "pod" or "namespace/name" of a NetworkAttachmentDefinition'
+              onChange={(e) => setNetworkMapping(name, e.target.value)}
+            />
+          );
+        })}
+      </div>
+
+      <h5 style={{ margin: '1rem 0 0.5rem' }}>Storage mappings</h5>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        {sources.datastores.map(({ name, vmCount }) => (
+          <TextInput
+            key={name}
+            id={`mtv-datastore-${name}`}
+            labelText={`${name} (${vmCount} VM${vmCount !== 1 ? 's' : ''})`}
+            placeholder={`Storage class, e.g. ${options.defaultStorageClass}`}
+            value={mappings.datastores[name] ?? ''}
+            onChange={(e) => setStorageMapping(name, e.target.value)}
+          />
+        ))}
+      </div>
+    </Modal>
+  );
+}
+
+export default MTVExportModal;
@@ -13,7 +13,7 @@ import {
   TabPanel,
   Tag,
 } from '@carbon/react';
-import type { WaveGroup, NetworkGroupBy } from '@/services/migration';
+import type { WaveGroup, NetworkGroupBy, MigrationMode } from '@/services/migration';
 import type { WavePlanningMode } from '@/components/migration/WavePlanningPanel';
 import type { VMDetail, RackwareRmmConfig } from '@/services/export';
 import { downloadRackwareRmmCSV, downloadRackwareRmmPerWaveZip } from '@/services/export';
@@ -23,7 +23,7 @@ export interface RackwareExportModalProps {
   onClose: () => void;
   waves: WaveGroup[];
   vmDetails?: VMDetail[];
-  mode?: 'vsi' | 'roks';
+  mode?: MigrationMode;
   wavePlanningMode?: WavePlanningMode;
   networkGroupBy?: NetworkGroupBy;
 }
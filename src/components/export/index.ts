@@ -1,3 +1,4 @@
 // Export components
 export { PDFExport } from './PDFExport';
 export { RackwareExportModal } from './RackwareExportModal';
+export { MTVExportModal } from './MTVExportModal';
@@ -19,6 +19,7 @@ import { ROUTES } from '@/utils/constants';
 import { useData, usePDFExport, useExcelExport, useDocxExport, useAISettings, usePlatformSelection } from '@/hooks';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIInsights } from '@/services/ai/aiInsightsApi';
+import { buildRuleBasedInsights } from '@/services/ai/ruleBasedFallbacks';
 import { buildInsightsInput } from '@/services/ai/insightsInputBuilder';
 import { downloadHandoverFile } from '@/services/export/handoverExporter';
 import { extractSettingsFromFile, type ExtractedSettings } from '@/services/settingsExtractor';
@@ -37,15 +38,25 @@ const AI_INSIGHTS_TIMEOUT_MS = 45000;
 
 /**
  * Fetch AI insights with timeout and logging.
- * Returns { insights, warning } — warning is set if insights could not be fetched.
+ * Falls back to rule-based insights when AI is unavailable or the fetch fails,
+ * so reports always include the insight sections.
+ * Returns { insights, warning } — warning is set if AI insights could not be fetched.
  */
 async function fetchInsightsForExport(
   rawData: RVToolsData,
   exportType: string,
-): Promise<{ insights: MigrationInsights | null; warning: string | null }> {
+  aiAvailable: boolean,
+): Promise<{ insights: MigrationInsights; warning: string | null }> {
+  const insightsInput = buildInsightsInput(rawData);
+  const fallback = (warning: string | null) => ({ insights: buildRuleBasedInsights(insightsInput), warning });
+
+  if (!aiAvailable) {
+    logger.info(`[${exportType}] AI unavailable, using rule-based insights`);
+    return fallback(null);
+  }
+
   logger.info(`[${exportType}] Fetching AI insights for export`);
   try {
-    const insightsInput = buildInsightsInput(rawData);
     logger.debug(`[${exportType}] InsightsInput built`, {
       totalVMs: insightsInput.totalVMs,
       totalVCPUs: insightsInput.totalVCPUs,
@@ -61,12 +72,12 @@ async function fetchInsightsForExport(
 
     if (result === 'timeout') {
       logger.warn(`[${exportType}] AI insights timed out after ${AI_INSIGHTS_TIMEOUT_MS / 1000}s`);
-      return { insights: null, warning: `AI insights timed out after ${AI_INSIGHTS_TIMEOUT_MS / 1000}s — report generated without AI sections.` };
+      return fallback(`AI insights timed out after ${AI_INSIGHTS_TIMEOUT_MS / 1000}s — report generated with rule-based insights.`);
     }
 
     if (!result) {
       logger.warn(`[${exportType}] AI insights returned null (proxy may have returned empty/invalid data)`);
-      return { insights: null, warning: 'AI insights returned empty data — report generated without AI sections.' };
+      return fallback('AI insights returned empty data — report generated with rule-based insights.');
     }
 
     logger.info(`[${exportType}] AI insights fetched successfully`, {
@@ -80,7 +91,7 @@ async function fetchInsightsForExport(
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.error(`[${exportType}] AI insights fetch failed`, error instanceof Error ? error : new Error(message));
-    return { insights: null, warning: `AI insights failed: ${message} — report generated without AI sections.` };
+    return fallback(`AI insights failed: ${message} — report generated with rule-based insights.`);
   }
 }
 
@@ -120,12 +131,8 @@ export function AppLayout() {
     if (!rawData) return;
     setAIWarning(null);
 
-    let aiInsights = null;
-    if (aiSettings.enabled && isAIProxyConfigured()) {
-      const { insights, warning } = await fetchInsightsForExport(rawData, 'Excel');
-      aiInsights = insights;
-      if (warning) setAIWarning(warning);
-    }
+    const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'Excel', aiSettings.enabled && isAIProxyConfigured());
+    if (warning) setAIWarning(warning);
 
     exportExcel(rawData, undefined, aiInsights);
   }, [rawData, exportExcel, aiSettings.enabled]);
@@ -136,16 +143,12 @@ export function AppLayout() {
 
     setIsDocxExporting(true);
     try {
-      let aiInsights = null;
-      if (aiSettings.enabled && isAIProxyConfigured()) {
-        const { insights, warning } = await fetchInsightsForExport(rawData, 'DOCX');
-        aiInsights = insights;
-        if (warning) setAIWarning(warning);
-      }
+      const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'DOCX', aiSettings.enabled && isAIProxyConfigured());
+      if (warning) setAIWarning(warning);
 
       await exportDocx(rawData, {
         aiInsights,
-        wavePlanningPreference: getWavePlanningPreference(),
+        wavePlanningPreference: getWavePlanningPreference(rawData),
         platformSelection: platformScore.answeredCount > 0 ? { score: platformScore, answers: platformAnswers, roksMonthlyCost: calculatedCosts?.roksMonthlyCost, rovMonthlyCost: calculatedCosts?.rovMonthlyCost, vsiMonthlyCost: calculatedCosts?.vsiMonthlyCost } : null,
       });
     } catch {
@@ -242,12 +245,8 @@ export function AppLayout() {
     setAIWarning(null);
 
     try {
-      let aiInsights = null;
-      if (aiSettings.enabled && isAIProxyConfigured()) {
-        const { insights, warning } = await fetchInsightsForExport(rawData, 'PDF');
-        aiInsights = insights;
-        if (warning) setAIWarning(warning);
-      }
+      const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'PDF', aiSettings.enabled && isAIProxyConfigured());
+      if (warning) setAIWarning(warning);
 
       await exportPDF(rawData, { ...exportOptions, aiInsights });
       setIsExportModalOpen(false);
@@ -25,7 +25,7 @@ import { ROUTES } from '@/utils/constants';
 // Route groups for active-state detection
 const infrastructureRoutes = [
   ROUTES.compute, ROUTES.storage, ROUTES.network,
-  ROUTES.cluster, ROUTES.hosts, ROUTES.resourcePools, ROUTES.tables,
+  ROUTES.cluster, ROUTES.hosts, ROUTES.resourcePools, ROUTES.tables, ROUTES.environmentDelta,
 ];
 
 const migrationRoutes = [
@@ -155,6 +155,13 @@ export function SideNav({ isExpanded = true }: SideNavProps) {
           >
             Data Tables
           </SideNavMenuItem>
+          <SideNavMenuItem
+            href="#"
+            onClick={(e: React.MouseEvent) => handleNavClick(e, ROUTES.environmentDelta, true)}
+            isActive={isActive(ROUTES.environmentDelta)}
+          >
+            Environment Delta
+          </SideNavMenuItem>
         </SideNavMenu>
 
         {/* Step 2: Prepare */}
@@ -90,8 +90,8 @@ export function ComplexityAssessmentPanel({
       },
     ];
 
-    // Add HW Version column for ROKS mode
-    if (mode === 'roks') {
+    // Add HW Version column for OpenShift (ROKS/OVE) modes
+    if (mode !== 'vsi') {
       baseColumns.push({
         accessorKey: 'hwVersion',
         header: 'HW Version',
@@ -171,7 +171,7 @@ export function OSCompatibilityPanel({ mode, osStatusCounts, vms }: OSCompatibil
         </Column>
       )}
 
-      {mode === 'roks' && (
+      {mode !== 'vsi' && (
         <Column lg={16} md={8} sm={4}>
           <Tile className="migration-page__recommendation-tile">
             <h4>OpenShift Virtualization OS Support</h4>
@@ -1,19 +1,24 @@
 // VSI Sizing tab panel content - extracted from VSIMigrationPage
 
-import { Tile, Tag, Button, InlineNotification, Tooltip } from '@carbon/react';
+import { Tile, Tag, Button, InlineNotification, Tooltip, RadioButtonGroup, RadioButton, Slider } from '@carbon/react';
 import { Grid, Column } from '@carbon/react';
-import { Settings, Reset, ArrowUp, ArrowDown } from '@carbon/icons-react';
+import { Settings, Reset, ArrowUp, ArrowDown, Checkmark } from '@carbon/icons-react';
 import { formatNumber } from '@/utils/formatters';
 import { DoughnutChart, HorizontalBarChart } from '@/components/charts';
 import { EnhancedDataTable } from '@/components/tables';
 import { MetricCard, RedHatDocLink } from '@/components/common';
-import { ProfileSelector, StorageTierSelector } from '@/components/sizing';
+import { ProfileSelector, StorageTierSelector, PerformanceMetricsPanel } from '@/components/sizing';
 import { isBurstableProfile } from '@/services/migration';
 import type { ColumnDef } from '@tanstack/react-table';
-import type { VMProfileMapping } from '@/services/migration';
+import type { VMProfileMapping, StoragePlanSummary } from '@/services/migration';
 import type { CustomProfile } from '@/hooks/useCustomProfiles';
 import type { ProfileRecommendation as AIProfileRecommendation } from '@/services/ai/types';
 import type { StorageTierType } from '@/utils/workloadClassification';
+import { getStorageTierLabel } from '@/utils/workloadClassification';
+import type { StorageMetric } from '@/utils/guestStorage';
+import type { UsePerformanceMetricsReturn } from '@/hooks/usePerformanceMetrics';
+import type { RightSizingComparison } from '@/services/migration/performanceMetrics';
+import type { VirtualMachine } from '@/types/rvtools';
 
 export interface VSISizingPanelProps {
   totalVSIs: number;
@@ -33,6 +38,16 @@ export interface VSISizingPanelProps {
   aiRecommendations: Record<string, AIProfileRecommendation>;
   setStorageTierOverride: (vmName: string, tier: StorageTierType) => void;
   removeStorageTierOverride: (vmName: string) => void;
+  storageMetric: StorageMetric;
+  setStorageMetric: (value: StorageMetric) => void;
+  guestHeadroom: number;
+  setGuestHeadroom: (value: number) => void;
+  hasPartitionData: boolean;
+  vsiStorageTiB: number;
+  storagePlan: StoragePlanSummary;
+  performanceMetrics: UsePerformanceMetricsReturn;
+  poweredOnVMs: VirtualMachine[];
+  rightSizedVMCount: number;
 }
 
 export function VSISizingPanel({
@@ -52,7 +67,39 @@ export function VSISizingPanel({
   aiRecommendations,
   setStorageTierOverride,
   removeStorageTierOverride,
+  storageMetric,
+  setStorageMetric,
+  guestHeadroom,
+  setGuestHeadroom,
+  hasPartitionData,
+  vsiStorageTiB,
+  storagePlan,
+  performanceMetrics,
+  poweredOnVMs,
+  rightSizedVMCount,
 }: VSISizingPanelProps) {
+  // Allocation-based vs right-sized profile totals; costs are compared on the Cost Estimation tab
+  const rightSizingComparison: RightSizingComparison | null = rightSizedVMCount > 0
+    ? {
+      matchedVMs: rightSizedVMCount,
+      totalVMs: totalVSIs,
+      allocated: { vcpus: vsiTotalVCPUs, memoryGiB: vsiTotalMemory, monthlyCost: null },
+      rightSized: vmProfileMappings.reduce((acc, m) => {
+        const profile = !m.isOverridden && m.rightSizedProfile ? m.rightSizedProfile : m.profile;
+        return { ...acc, vcpus: acc.vcpus + profile.vcpus, memoryGiB: acc.memoryGiB + profile.memoryGiB };
+      }, { vcpus: 0, memoryGiB: 0, monthlyCost: null }),
+    }
+    : null;
+
+  // VMs whose right-sized profile differs from the auto-mapped one and are not already overridden
+  const rightSizeCandidates = vmProfileMappings.filter(m => m.rightSizedProfile && !m.isOverridden && m.rightSizedProfile.name !== m.profile.name);
+
+  const applyRightSizedProfiles = () => {
+    for (const m of rightSizeCandidates) {
+      setProfileOverride(m.vmName, m.rightSizedProfile!.name, m.autoProfile.name);
+    }
+  };
+
   // Table columns
   type ProfileMappingRow = VMProfileMapping;
   const profileMappingColumns: ColumnDef<ProfileMappingRow, unknown>[] = [
@@ -158,6 +205,21 @@ export function VSISizingPanel({
         );
       },
     },
+    {
+      id: 'rightSizedProfile',
+      header: 'Right-sized Profile',
+      enableSorting: true,
+      accessorFn: (row) => row.rightSizedProfile?.name ?? '',
+      cell: ({ row }) => {
+        const rightSized = row.original.rightSizedProfile;
+        if (!rightSized) return <span style={{ color: 'var(--cds-text-helper)' }}>—</span>;
+        return (
+          <span title={`${rightSized.vcpus} vCPU, ${rightSized.memoryGiB} GiB from measured p95 utilisation`}>
+            {rightSized.name}
+          </span>
+        );
+      },
+    },
     {
       id: 'storage',
       header: 'Storage (GiB)',
@@ -166,12 +228,16 @@ export function VSISizingPanel({
       cell: ({ row }) => {
         const provisioned = row.original.provisionedStorageGiB;
         const inUse = row.original.inUseStorageGiB;
+        const guestUsed = row.original.guestUsedStorageGiB;
         return (
           <span>
             {formatNumber(provisioned)}
             {inUse > 0 && (
               <span style={{ color: 'var(--cds-text-helper)', fontSize: '0.75rem' }}> ({formatNumber(inUse)} used)</span>
             )}
+            {guestUsed !== null && (
+              <span style={{ color: 'var(--cds-text-helper)', fontSize: '0.75rem' }}> ({formatNumber(guestUsed)} guest)</span>
+            )}
           </span>
         );
       },
@@ -188,6 +254,7 @@ export function VSISizingPanel({
           autoTier={row.original.autoStorageTier}
           isOverridden={row.original.isStorageTierOverridden}
           workloadCategory={row.original.workloadCategory}
+          measuredIOPS={row.original.measuredIOPS}
           onTierChange={setStorageTierOverride}
           onResetToAuto={removeStorageTierOverride}
         />
@@ -235,6 +302,76 @@ export function VSISizingPanel({
         <MetricCard label="Total Memory" value={`${formatNumber(vsiTotalMemory)} GiB`} variant="purple" tooltip="Sum of memory across all recommended VSI profiles." />
       </Column>
 
+      <Column lg={16} md={8} sm={4}>
+        <PerformanceMetricsPanel
+          performanceMetrics={performanceMetrics}
+          vms={poweredOnVMs}
+          comparison={rightSizingComparison}
+          actions={
+            <Button kind="ghost" size="sm" renderIcon={Checkmark} onClick={applyRightSizedProfiles} disabled={rightSizeCandidates.length === 0}>
+              Apply Right-sized Profiles {rightSizeCandidates.length > 0 && `(${rightSizeCandidates.length})`}
+            </Button>
+          }
+        />
+      </Column>
+
+      <Column lg={16} md={8} sm={4}>
+        <Tile className="migration-page__recommendation-tile">
+          <h4>Block Storage Sizing</h4>
+          <RadioButtonGroup
+            legendText="Storage metric for data volumes"
+            name="vsi-storage-metric"
+            valueSelected={storageMetric}
+            onChange={(value) => setStorageMetric(value as StorageMetric)}
+            orientation="horizontal"
+          >
+            <RadioButton id="vsi-storage-disk-capacity" value="diskCapacity" labelText="Disk Capacity" />
+            <RadioButton id="vsi-storage-inuse" value="inUse" labelText="In Use" />
+            <RadioButton id="vsi-storage-provisioned" value="provisioned" labelText="Provisioned" />
+            <RadioButton id="vsi-storage-guest-used" value="guestUsed" labelText="Guest Used + Headroom" disabled={!hasPartitionData} />
+          </RadioButtonGroup>
+          {storageMetric === 'guestUsed' && (
+            <Slider
+              id="vsi-guest-headroom"
+              labelText="Guest Storage Headroom"
+              min={0}
+              max={100}
+              step={5}
+              value={guestHeadroom}
+              onChange={({ value }) => setGuestHeadroom(value)}
+              formatLabel={(val) => `${val}%`}
+            />
+          )}
+          <p className="migration-page__cost-description">
+            Data volumes are scaled to the selected metric and never exceed source disk capacity. Boot volumes keep their source size.
+            {!hasPartitionData && ' Guest Used requires the vPartition sheet.'}
+            {' '}Total block storage: {formatNumber(vsiStorageTiB)} TiB.
+            {' '}Data volume profiles are chosen per disk from measured IOPS and throughput, or the workload category default.
+          </p>
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+            <Tag type="gray" size="sm">Boot (General Purpose): {formatNumber(storagePlan.bootStorageGiB)} GB</Tag>
+            {(Object.entries(storagePlan.storageByTierGiB) as [StorageTierType, number][]).map(([tier, gib]) => (
+              <Tag key={tier} type="blue" size="sm">{getStorageTierLabel(tier)}: {formatNumber(gib)} GB</Tag>
+            ))}
+            {storagePlan.customIOPS.volumes > 0 && (
+              <Tag type="magenta" size="sm">
+                Custom IOPS (sdp): {formatNumber(storagePlan.customIOPS.capacityGiB)} GB, {formatNumber(storagePlan.customIOPS.iops)} IOPS
+              </Tag>
+            )}
+          </div>
+          {storagePlan.warnings.length > 0 && (
+            <InlineNotification
+              kind="warning"
+              title={`${storagePlan.warnings.length} VPC block storage limit warning${storagePlan.warnings.length !== 1 ? 's' : ''}`}
+              subtitle={storagePlan.warnings.slice(0, 5).map(w => `${w.vmName} (${w.volume}): ${w.message}`).join(' ')
+                + (storagePlan.warnings.length > 5 ? ` …and ${storagePlan.warnings.length - 5} more.` : '')}
+              lowContrast
+              hideCloseButton
+            />
+          )}
+        </Tile>
+      </Column>
+
       <Column lg={8} md={8} sm={4}>
         <Tile className="migration-page__chart-tile">
           <DoughnutChart title="Profile Family Distribution" subtitle="VMs by instance family type" data={familyChartData} height={280} colors={['#0f62fe', '#8a3ffc', '#009d9a']} formatValue={(v) => `${v} VM${v !== 1 ? 's' : ''}`} />
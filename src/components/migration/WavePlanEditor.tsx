@@ -0,0 +1,275 @@
+// Wave Plan Editor - drag VMs between waves, split, merge, rename and lock waves
+
+import { useState, useMemo } from 'react';
+import { Tile, Tag, Button, TextInput, Dropdown, OverflowMenu, OverflowMenuItem } from '@carbon/react';
+import { Locked, Unlocked, Reset } from '@carbon/icons-react';
+import { formatNumber } from '@/utils/formatters';
+import type { VMWaveData } from '@/services/migration';
+import type { EditableWave } from '@/services/migration/wavePlanEditing';
+import './WavePlanEditor.scss';
+
+export interface WavePlanEditing {
+  /** Every in-scope VM for the current target, used for VM details and VMs not yet placed in the plan */
+  vmWaveData: VMWaveData[];
+  editableWaves: EditableWave[];
+  isPlanEdited: boolean;
+  moveVMs: (vmNames: string[], targetWaveId: string) => void;
+  splitWave: (waveId: string, vmNames: string[], name?: string) => void;
+  mergeWaves: (sourceWaveId: string, targetWaveId: string) => void;
+  renameWave: (waveId: string, name: string) => void;
+  setWaveLocked: (waveId: string, locked: boolean) => void;
+  resetWavePlan: () => void;
+}
+
+export interface WavePlanEditorProps {
+  editing: WavePlanEditing;
+}
+
+// Chips rendered per wave before "show all"
+const VISIBLE_VM_LIMIT = 60;
+
+const DRAG_TYPE = 'application/x-vcf-vm-names';
+
+export function WavePlanEditor({ editing }: WavePlanEditorProps) {
+  const { vmWaveData, editableWaves, isPlanEdited } = editing;
+  const [selectedVMs, setSelectedVMs] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget] = useState<EditableWave | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [expandedWaves, setExpandedWaves] = useState<Set<string>>(new Set());
+
+  const vmsByName = useMemo(
+    () => new Map(vmWaveData.map(vm => [vm.vmName, vm])),
+    [vmWaveData]
+  );
+
+  // In-scope VMs the plan does not mention (new or re-included since the plan was edited)
+  const unassignedVMs = useMemo(() => {
+    const planned = new Set(editableWaves.flatMap(wave => wave.vmNames));
+    return [...vmsByName.keys()].filter(name => !planned.has(name));
+  }, [editableWaves, vmsByName]);
+
+  const lockedVMs = useMemo(
+    () => new Set(editableWaves.filter(wave => wave.locked).flatMap(wave => wave.vmNames)),
+    [editableWaves]
+  );
+
+  const toggleSelected = (vmName: string) => {
+    setSelectedVMs(prev => {
+      const next = new Set(prev);
+      if (next.has(vmName)) next.delete(vmName);
+      else next.add(vmName);
+      return next;
+    });
+  };
+
+  const clearSelection = () => setSelectedVMs(new Set());
+
+  const moveSelected = (targetWaveId: string) => {
+    if (selectedVMs.size === 0) return;
+    editing.moveVMs([...selectedVMs], targetWaveId);
+    clearSelection();
+  };
+
+  const handleDragStart = (event: React.DragEvent, vmName: string) => {
+    // Dragging a selected VM carries the whole selection
+    const names = selectedVMs.has(vmName) ? [...selectedVMs] : [vmName];
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(names));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDrop = (event: React.DragEvent, wave: EditableWave) => {
+    event.preventDefault();
+    setDropTarget(null);
+    if (wave.locked) return;
+    try {
+      const names = JSON.parse(event.dataTransfer.getData(DRAG_TYPE)) as string[];
+      if (Array.isArray(names) && names.length > 0) {
+        editing.moveVMs(names, wave.id);
+        clearSelection();
+      }
+    } catch { /* not a VM drag */ }
+  };
+
+  const handleSplit = (wave: EditableWave) => {
+    const names = wave.vmNames.filter(name => selectedVMs.has(name));
+    editing.splitWave(wave.id, names);
+    clearSelection();
+  };
+
+  const toggleExpanded = (waveId: string) => {
+    setExpandedWaves(prev => {
+      const next = new Set(prev);
+      if (next.has(waveId)) next.delete(waveId);
+      else next.add(waveId);
+      return next;
+    });
+  };
+
+  const renderVMChip = (vmName: string, locked: boolean) => {
+    const vm = vmsByName.get(vmName);
+    if (!vm) return null;
+    const selected = selectedVMs.has(vmName);
+    return (
+      <button
+        key={vmName}
+        type="button"
+        className={`wave-plan-editor__vm ${selected ? 'wave-plan-editor__vm--selected' : ''} ${vm.hasBlocker ? 'wave-plan-editor__vm--blocker' : ''}`}
+        draggable={!locked}
+        disabled={locked}
+        aria-pressed={selected}
+        title={`${vmName} — ${vm.vcpus} vCPU, ${formatNumber(vm.memoryGiB)} GiB${vm.hasBlocker ? ', has blockers' : ''}`}
+        onClick={() => toggleSelected(vmName)}
+        onDragStart={(event) => handleDragStart(event, vmName)}
+      >
+        {vmName}
+      </button>
+    );
+  };
+
+  const renderVMList = (waveKey: string, vmNames: string[], locked: boolean) => {
+    const expanded = expandedWaves.has(waveKey);
+    const visible = expanded ? vmNames : vmNames.slice(0, VISIBLE_VM_LIMIT);
+    return (
+      <div className="wave-plan-editor__vms">
+        {visible.map(vmName => renderVMChip(vmName, locked))}
+        {vmNames.length > VISIBLE_VM_LIMIT && (
+          <Button kind="ghost" size="sm" onClick={() => toggleExpanded(waveKey)}>
+            {expanded ? 'Show fewer' : `Show all ${formatNumber(vmNames.length)} VMs`}
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const selectionInLockedWave = [...selectedVMs].some(name => lockedVMs.has(name));
+  const unlockedWaves = editableWaves.filter(wave => !wave.locked);
+
+  return (
+    <Tile className="wave-plan-editor">
+      <div className="wave-plan-editor__header">
+        <div>
+          <h3>
+            Edit Wave Plan {isPlanEdited && <Tag type="purple" size="sm">Edited</Tag>}
+          </h3>
+          <p className="wave-plan-editor__help">
+            Drag VMs between waves, or select VMs and use Move to. Locked waves keep their VMs.
+            Edits are saved for this environment and used by the timeline and all exports.
+          </p>
+        </div>
+        <Button
+          kind="ghost"
+          size="sm"
+          renderIcon={Reset}
+          disabled={!isPlanEdited}
+          onClick={() => { editing.resetWavePlan(); clearSelection(); }}
+        >
+          Reset to generated waves
+        </Button>
+      </div>
+
+      <div className="wave-plan-editor__toolbar">
+        <span>{formatNumber(selectedVMs.size)} selected</span>
+        <Dropdown
+          id="wave-plan-editor-move-target"
+          titleText=""
+          label="Move to wave"
+          hideLabel
+          size="sm"
+          items={unlockedWaves}
+          itemToString={(wave: EditableWave | null) => wave?.name ?? ''}
+          selectedItem={moveTarget}
+          onChange={({ selectedItem }: { selectedItem: EditableWave | null }) => setMoveTarget(selectedItem)}
+        />
+        <Button
+          kind="secondary"
+          size="sm"
+          disabled={selectedVMs.size === 0 || !moveTarget || selectionInLockedWave}
+          onClick={() => moveTarget && moveSelected(moveTarget.id)}
+        >
+          Move to
+        </Button>
+        <Button kind="ghost" size="sm" disabled={selectedVMs.size === 0} onClick={clearSelection}>
+          Clear selection
+        </Button>
+      </div>
+
+      <div className="wave-plan-editor__waves">
+        {editableWaves.map((wave, index) => {
+          const previous = editableWaves[index - 1];
+          const next = editableWaves[index + 1];
+          const selectedInWave = wave.vmNames.filter(name => selectedVMs.has(name)).length;
+          return (
+            <div
+              key={wave.id}
+              className={`wave-plan-editor__wave ${wave.locked ? 'wave-plan-editor__wave--locked' : ''} ${dropTarget === wave.id ? 'wave-plan-editor__wave--drop' : ''}`}
+              onDragOver={(event) => {
+                if (wave.locked) return;
+                event.preventDefault();
+                setDropTarget(wave.id);
+              }}
+              onDragLeave={() => setDropTarget(current => (current === wave.id ? null : current))}
+              onDrop={(event) => handleDrop(event, wave)}
+            >
+              <div className="wave-plan-editor__wave-header">
+                <TextInput
+                  key={wave.name}
+                  id={`wave-name-${wave.id}`}
+                  labelText="Wave name"
+                  hideLabel
+                  size="sm"
+                  defaultValue={wave.name}
+                  disabled={wave.locked}
+                  onBlur={(event) => {
+                    if (event.target.value !== wave.name) editing.renameWave(wave.id, event.target.value);
+                  }}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') (event.target as HTMLInputElement).blur();
+                  }}
+                />
+                <Tag type="gray" size="sm">{formatNumber(wave.vmNames.length)} VMs</Tag>
+                <Button
+                  kind="ghost"
+                  size="sm"
+                  hasIconOnly
+                  renderIcon={wave.locked ? Locked : Unlocked}
+                  iconDescription={wave.locked ? 'Unlock wave' : 'Lock wave'}
+                  onClick={() => editing.setWaveLocked(wave.id, !wave.locked)}
+                />
+                <OverflowMenu size="sm" flipped iconDescription="Wave actions">
+                  <OverflowMenuItem
+                    itemText={`Split off ${selectedInWave} selected VM${selectedInWave !== 1 ? 's' : ''}`}
+                    disabled={wave.locked || selectedInWave === 0 || selectedInWave === wave.vmNames.length}
+                    onClick={() => handleSplit(wave)}
+                  />
+                  <OverflowMenuItem
+                    itemText="Merge into previous wave"
+                    disabled={wave.locked || !previous || previous.locked}
+                    onClick={() => previous && editing.mergeWaves(wave.id, previous.id)}
+                  />
+                  <OverflowMenuItem
+                    itemText="Merge into next wave"
+                    disabled={wave.locked || !next || next.locked}
+                    onClick={() => next && editing.mergeWaves(wave.id, next.id)}
+                  />
+                </OverflowMenu>
+              </div>
+              {renderVMList(wave.id, wave.vmNames, wave.locked)}
+            </div>
+          );
+        })}
+
+        {unassignedVMs.length > 0 && (
+          <div className="wave-plan-editor__wave wave-plan-editor__wave--unassigned">
+            <div className="wave-plan-editor__wave-header">
+              <h4>Not in plan</h4>
+              <Tag type="red" size="sm">{formatNumber(unassignedVMs.length)} VMs</Tag>
+            </div>
+            {renderVMList('unassigned', unassignedVMs, false)}
+          </div>
+        )}
+      </div>
+    </Tile>
+  );
+}
+
+export default WavePlanEditor;
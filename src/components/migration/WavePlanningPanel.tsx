@@ -7,12 +7,16 @@ import { HorizontalBarChart } from '@/components/charts';
 import { RedHatDocLink } from '@/components/common';
 import { RackwareExportModal } from '@/components/export';
 import { WaveVMTable } from './WaveVMTable';
+import { WavePlanEditor } from './WavePlanEditor';
+import type { WavePlanEditing } from './WavePlanEditor';
+import { DependencyWavePanel } from './DependencyWavePanel';
 import { formatNumber } from '@/utils/formatters';
 import { downloadWavePlanningExcel } from '@/services/export';
 import type { VMDetail } from '@/services/export';
-import type { WaveGroup, NetworkWaveGroup, NetworkGroupBy, MigrationMode } from '@/services/migration';
+import type { WaveGroup, NetworkGroupBy, MigrationMode } from '@/services/migration';
+import type { CutDependency, DependencyWaveConfig } from '@/services/migration/dependencyWaves';
 
-export type WavePlanningMode = 'complexity' | 'network';
+export type WavePlanningMode = 'complexity' | 'network' | 'dependency';
 
 export interface WavePlanningPanelProps {
   mode: MigrationMode;
@@ -20,8 +24,8 @@ export interface WavePlanningPanelProps {
   networkGroupBy: NetworkGroupBy;
   onWavePlanningModeChange: (mode: WavePlanningMode) => void;
   onNetworkGroupByChange: (groupBy: NetworkGroupBy) => void;
-  networkWaves: NetworkWaveGroup[];
-  complexityWaves: WaveGroup[];
+  /** Waves in effect — the edited plan when there is one, otherwise the generated waves */
+  activeWaves: WaveGroup[];
   waveChartData: Array<{ label: string; value: number }>;
   waveResources: Array<{
     name: string;
@@ -36,6 +40,12 @@ export interface WavePlanningPanelProps {
   vmDetails?: VMDetail[];
   // Optional: platform leaning from Migration Review — controls which platform-specific sections appear
   platformLeaning?: 'roks' | 'vsi' | 'neutral';
+  // Optional: plan editing state and actions from useWavePlanning — shows the wave plan editor
+  planEditing?: WavePlanEditing;
+  // Optional: dependency-based planning settings and results from useWavePlanning
+  dependencyConfig?: DependencyWaveConfig;
+  onDependencyConfigChange?: (update: Partial<DependencyWaveConfig>) => void;
+  cutDependencies?: CutDependency[];
 }
 
 export function WavePlanningPanel({
@@ -44,43 +54,35 @@ export function WavePlanningPanel({
   networkGroupBy,
   onWavePlanningModeChange,
   onNetworkGroupByChange,
-  networkWaves,
-  complexityWaves,
+  activeWaves,
   waveChartData,
   waveResources,
   vmDetails,
   platformLeaning,
+  planEditing,
+  dependencyConfig,
+  onDependencyConfigChange,
+  cutDependencies = [],
 }: WavePlanningPanelProps) {
   const isNetworkMode = wavePlanningMode === 'network';
+  const isDependencyMode = wavePlanningMode === 'dependency';
   const [showRackwareModal, setShowRackwareModal] = useState(false);
   const [selectedWave, setSelectedWave] = useState<string | null>(null);
 
-  // Get active waves based on mode
-  const activeWaves = isNetworkMode ? networkWaves : complexityWaves;
+  const isPlanEdited = planEditing?.isPlanEdited ?? false;
 
   // Handle export to Excel
   const handleExcelExport = () => {
-    const waveExportData = isNetworkMode
-      ? networkWaves.map(wave => ({
-          name: wave.name,
-          description: wave.description,
-          vmCount: wave.vmCount,
-          vcpus: wave.vcpus,
-          memoryGiB: wave.memoryGiB,
-          storageGiB: wave.storageGiB,
-          hasBlockers: wave.hasBlockers,
-          vms: wave.vms,
-        }))
-      : complexityWaves.map(wave => ({
-          name: wave.name,
-          description: wave.description,
-          vmCount: wave.vmCount,
-          vcpus: wave.vcpus,
-          memoryGiB: wave.memoryGiB,
-          storageGiB: wave.storageGiB,
-          hasBlockers: wave.hasBlockers,
-          vms: wave.vms,
-        }));
+    const waveExportData = activeWaves.map(wave => ({
+      name: wave.name,
+      description: wave.description,
+      vmCount: wave.vmCount,
+      vcpus: wave.vcpus,
+      memoryGiB: wave.memoryGiB,
+      storageGiB: wave.storageGiB,
+      hasBlockers: wave.hasBlockers,
+      vms: wave.vms,
+    }));
     downloadWavePlanningExcel(waveExportData, wavePlanningMode, networkGroupBy);
   };
 
@@ -114,8 +116,12 @@ export function WavePlanningPanel({
             <div>
               <h3>Migration Wave Planning</h3>
               <p>
-                {isNetworkMode
-                  ? `${networkWaves.length} ${networkGroupBy === 'cluster' ? 'clusters' : 'port groups'} — each ${networkGroupBy === 'cluster' ? 'cluster' : 'subnet'} migrates as a single wave`
+                {isPlanEdited
+                  ? `VMs organized into ${activeWaves.length} waves (edited plan)`
+                  : isNetworkMode
+                  ? `${activeWaves.length} ${networkGroupBy === 'cluster' ? 'clusters' : 'port groups'} — each ${networkGroupBy === 'cluster' ? 'cluster' : 'subnet'} migrates as a single wave`
+                  : isDependencyMode
+                  ? `VMs organized into ${waveResources.length} waves that keep connected VMs together (${cutDependencies.length} dependencies cut)`
                   : `VMs organized into ${waveResources.length} waves from simplest to most complex`}
               </p>
               {isNetworkMode && (
@@ -146,10 +152,13 @@ export function WavePlanningPanel({
                 >
                   <RadioButton labelText="Network-Based" value="network" id={`wave-network-${mode}`} />
                   <RadioButton labelText="Complexity-Based" value="complexity" id={`wave-complexity-${mode}`} />
+                  <RadioButton labelText="Dependency-Based" value="dependency" id={`wave-dependency-${mode}`} />
                 </RadioButtonGroup>
                 <p style={{ fontSize: '0.75rem', color: 'var(--cds-text-helper)', marginTop: '0.25rem', maxWidth: '420px', }}>
                   {isNetworkMode
                     ? 'Migrate VMs together that share the same network infrastructure. Best for "keep your IP" strategies where entire subnets or clusters are cut over as a unit.'
+                    : isDependencyMode
+                    ? 'Keep application tiers together using network adjacency, folders, vApps, annotations and declared application groups, within per-wave VM and storage limits.'
                     : 'Migrate VMs in waves ordered by complexity — start with simple workloads to build confidence, then tackle harder ones. Best for "new IP" strategies.'}
                 </p>
               </div>
@@ -265,6 +274,24 @@ export function WavePlanningPanel({
         </Tile>
       </Column>
 
+      {/* Dependency-based planning settings and cut dependencies */}
+      {isDependencyMode && dependencyConfig && onDependencyConfigChange && (
+        <Column lg={16} md={8} sm={4}>
+          <DependencyWavePanel
+            config={dependencyConfig}
+            onConfigChange={onDependencyConfigChange}
+            cutDependencies={cutDependencies}
+          />
+        </Column>
+      )}
+
+      {/* Wave plan editor - move, split, merge, rename and lock waves */}
+      {planEditing && (
+        <Column lg={16} md={8} sm={4}>
+          <WavePlanEditor editing={planEditing} />
+        </Column>
+      )}
+
       {/* Workflow section for VSI mode */}
       {effectiveMode === 'vsi' && workflowSteps.length > 0 && (
         <Column lg={16} md={8} sm={4}>
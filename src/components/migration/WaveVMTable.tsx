@@ -13,7 +13,7 @@ interface WaveVMTableProps {
   waves: (WaveGroup | NetworkWaveGroup)[];
   selectedWave: string | null;
   onWaveSelect: (waveName: string | null) => void;
-  mode: 'complexity' | 'network';
+  mode: 'complexity' | 'network' | 'dependency';
 }
 
 interface WaveVMRow {
@@ -157,7 +157,7 @@ export function WaveVMTable({
       {/* Wave selection tiles */}
       <div className="wave-vm-table__filters">
         <span className="wave-vm-table__filter-label">
-          {mode === 'complexity' ? 'Wave' : 'Group'}:
+          {mode === 'network' ? 'Group' : 'Wave'}:
         </span>
         <ClickableTile
           className={`wave-vm-table__filter-tile ${selectedWave === null ? 'wave-vm-table__filter-tile--selected' : ''}`}
@@ -190,7 +190,7 @@ export function WaveVMTable({
           title={selectedWave ? `VMs in ${selectedWave}` : 'All VMs'}
           description={selectedWave && selectedWaveData
             ? (selectedWaveData.description || `${formatNumber(selectedWaveData.vmCount)} VMs`)
-            : `${formatNumber(totalVMs)} VMs across all ${mode === 'complexity' ? 'waves' : 'groups'}`}
+            : `${formatNumber(totalVMs)} VMs across all ${mode === 'network' ? 'groups' : 'waves'}`}
           enableSearch
           enablePagination
           enableSorting
@@ -8,6 +8,12 @@ export type { WavePlanningPanelProps, WavePlanningMode } from './WavePlanningPan
 
 export { WaveVMTable } from './WaveVMTable';
 
+export { DependencyWavePanel } from './DependencyWavePanel';
+export type { DependencyWavePanelProps } from './DependencyWavePanel';
+
+export { WavePlanEditor } from './WavePlanEditor';
+export type { WavePlanEditorProps, WavePlanEditing } from './WavePlanEditor';
+
 export { OSCompatibilityPanel } from './OSCompatibilityPanel';
 export type { OSCompatibilityPanelProps } from './OSCompatibilityPanel';
 
@@ -0,0 +1,146 @@
+// Currency Settings - quote currency selector and exchange rate table
+
+import { useCallback, useRef, useState } from 'react';
+import {
+  Select,
+  SelectItem,
+  NumberInput,
+  Button,
+  Tag,
+  InlineNotification,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+} from '@carbon/react';
+import { Currency, Upload, Reset } from '@carbon/icons-react';
+import { useCurrencySettings } from '@/hooks/useCurrencySettings';
+import {
+  getCurrencies,
+  getBundledRate,
+  getExchangeRatesDate,
+  parseExchangeRatesFile,
+  BASE_CURRENCY,
+} from '@/services/pricing/currency';
+
+const currencies = getCurrencies();
+
+export function CurrencySettings() {
+  const { settings, activeCurrency, setCurrency, setRate, importRates, resetRates } = useCurrencySettings();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Reset input so the same file can be re-selected
+    e.target.value = '';
+
+    setImportError(null);
+    try {
+      importRates(parseExchangeRatesFile(await file.text()), file.name);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read the exchange rate file.');
+    }
+  }, [importRates]);
+
+  const hasCustomRates = Object.keys(settings.customRates).length > 0;
+  const sourceLabel = settings.customRatesSource === 'file' && settings.customRatesFileName
+    ? `Loaded from ${settings.customRatesFileName}`
+    : 'User-entered';
+
+  return (
+    <>
+      <h2 className="settings-page__section-title">
+        <Currency size={20} />
+        Quote Currency
+      </h2>
+      <p className="settings-page__cache-description">
+        IBM Cloud list prices are in {BASE_CURRENCY}. Cost estimates, BOMs and reports are converted
+        into the selected currency, and each estimate records the currency and rate used.
+        Bundled rates are indicative ({getExchangeRatesDate()}); enter contractual rates or load them
+        from a JSON file.
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <Select
+          id="quote-currency"
+          labelText="Currency"
+          value={settings.currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          style={{ minWidth: '16rem' }}
+        >
+          {currencies.map(c => (
+            <SelectItem key={c.code} value={c.code} text={`${c.code} — ${c.name}`} />
+          ))}
+        </Select>
+        <Tag type={activeCurrency.rateSource === 'bundled' ? 'gray' : 'blue'} size="md">
+          1 {BASE_CURRENCY} = {activeCurrency.rate} {activeCurrency.code}
+        </Tag>
+      </div>
+
+      {importError && (
+        <InlineNotification
+          kind="error"
+          title="Import failed"
+          subtitle={importError}
+          lowContrast
+          onCloseButtonClick={() => setImportError(null)}
+        />
+      )}
+
+      <Table size="sm">
+        <TableHead>
+          <TableRow>
+            <TableHeader>Currency</TableHeader>
+            <TableHeader>Bundled rate</TableHeader>
+            <TableHeader>Rate per 1 {BASE_CURRENCY}</TableHeader>
+            <TableHeader>Source</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {currencies.filter(c => c.code !== BASE_CURRENCY).map(c => {
+            const custom = settings.customRates[c.code];
+            return (
+              <TableRow key={c.code}>
+                <TableCell>{c.code} — {c.name}</TableCell>
+                <TableCell>{getBundledRate(c.code)}</TableCell>
+                <TableCell>
+                  <NumberInput
+                    id={`rate-${c.code}`}
+                    label=""
+                    hideLabel
+                    size="sm"
+                    min={0}
+                    step={0.01}
+                    value={custom ?? getBundledRate(c.code) ?? 0}
+                    onChange={(_, { value }) => setRate(c.code, Number(value) || null)}
+                  />
+                </TableCell>
+                <TableCell>{custom != null ? sourceLabel : 'Bundled'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        style={{ display: 'none' }}
+        onChange={handleFileSelect}
+      />
+      <div className="settings-page__cache-actions" style={{ marginTop: '1rem' }}>
+        <Button kind="tertiary" size="sm" renderIcon={Upload} onClick={() => fileRef.current?.click()}>
+          Load Rates from JSON
+        </Button>
+        <Button kind="ghost" size="sm" renderIcon={Reset} onClick={resetRates} disabled={!hasCustomRates}>
+          Reset to Bundled Rates
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,185 @@
+// Price Drift Modal - diffs two pricing snapshots and shows the effect on the current estimate
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  Select,
+  SelectItem,
+  InlineNotification,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+  Tag,
+} from '@carbon/react';
+import type { CostEstimate } from '@/services/costEstimation';
+import { formatCurrency, formatCurrencyPrecise, convertFromBase } from '@/services/costEstimation';
+import type { IBMCloudPricing } from '@/services/pricing/pricingCache';
+import { describeSnapshot, type PricingSnapshot, type PricingSnapshotSummary } from '@/services/pricing/pricingHistory';
+import { diffPricing, diffEstimates, type PriceChange } from '@/services/pricing/pricingDrift';
+
+interface PriceDriftModalProps {
+  open: boolean;
+  onClose: () => void;
+  snapshots: PricingSnapshotSummary[];
+  loadSnapshot: (id: string) => Promise<PricingSnapshot | null>;
+  /** Prices the current sizing with the given pricing data */
+  calculate: (pricing: IBMCloudPricing) => CostEstimate | null;
+  initialFromId?: string;
+  initialToId?: string;
+}
+
+const KIND_LABELS: Record<PriceChange['kind'], string> = {
+  bareMetal: 'Bare Metal',
+  vsi: 'VSI',
+  storage: 'Block Storage',
+};
+
+function formatPct(pct: number | null): string {
+  if (pct == null) return '—';
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`;
+}
+
+function formatRate(value: number | null, precise: boolean): string {
+  if (value == null) return 'n/a';
+  // Catalog rates are in the pricing base currency
+  const converted = convertFromBase(value);
+  return precise ? formatCurrencyPrecise(converted) : formatCurrency(converted);
+}
+
+function ChangeTable({ title, changes, precise }: { title: string; changes: PriceChange[]; precise: boolean }) {
+  if (changes.length === 0) {
+    return <p className="price-drift__empty">No {title.toLowerCase()} changes between these snapshots.</p>;
+  }
+  return (
+    <Table size="sm" aria-label={title}>
+      <TableHead>
+        <TableRow>
+          <TableHeader>Type</TableHeader>
+          <TableHeader>{title}</TableHeader>
+          <TableHeader>From</TableHeader>
+          <TableHeader>To</TableHeader>
+          <TableHeader>Change</TableHeader>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {changes.map(c => (
+          <TableRow key={`${c.kind}-${c.name}`}>
+            <TableCell>{KIND_LABELS[c.kind]}</TableCell>
+            <TableCell>{c.name}</TableCell>
+            <TableCell>{formatRate(c.from, precise)}</TableCell>
+            <TableCell>{formatRate(c.to, precise)}</TableCell>
+            <TableCell>
+              {c.from == null ? <Tag type="green" size="sm">Added</Tag>
+                : c.to == null ? <Tag type="red" size="sm">Removed</Tag>
+                  : formatPct(c.deltaPct)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function PriceDriftModal({
+  open,
+  onClose,
+  snapshots,
+  loadSnapshot,
+  calculate,
+  initialFromId,
+  initialToId,
+}: PriceDriftModalProps) {
+  const [fromId, setFromId] = useState(initialFromId ?? snapshots[snapshots.length - 1]?.id ?? '');
+  const [toId, setToId] = useState(initialToId ?? snapshots[0]?.id ?? '');
+  const [loaded, setLoaded] = useState<{ from: PricingSnapshot | null; to: PricingSnapshot | null }>({ from: null, to: null });
+
+  useEffect(() => {
+    if (!open || !fromId || !toId) return;
+    let cancelled = false;
+    void Promise.all([loadSnapshot(fromId), loadSnapshot(toId)]).then(([from, to]) => {
+      if (!cancelled) setLoaded({ from, to });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, fromId, toId, loadSnapshot]);
+
+  const pricingDiff = useMemo(
+    () => (loaded.from && loaded.to ? diffPricing(loaded.from.data, loaded.to.data) : null),
+    [loaded],
+  );
+
+  const estimateDrift = useMemo(() => {
+    if (!loaded.from || !loaded.to) return null;
+    const fromEstimate = calculate(loaded.from.data);
+    const toEstimate = calculate(loaded.to.data);
+    return fromEstimate && toEstimate ? diffEstimates(fromEstimate, toEstimate) : null;
+  }, [loaded, calculate]);
+
+  return (
+    <Modal
+      open={open}
+      onRequestClose={onClose}
+      modalHeading="Price Drift"
+      passiveModal
+      size="lg"
+      className="price-drift"
+    >
+      <div className="price-drift__selectors">
+        <Select id="drift-from" labelText="From snapshot" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+          {snapshots.map(s => <SelectItem key={s.id} value={s.id} text={describeSnapshot(s)} />)}
+        </Select>
+        <Select id="drift-to" labelText="To snapshot" value={toId} onChange={(e) => setToId(e.target.value)}>
+          {snapshots.map(s => <SelectItem key={s.id} value={s.id} text={describeSnapshot(s)} />)}
+        </Select>
+      </div>
+
+      {estimateDrift && (
+        <InlineNotification
+          kind={estimateDrift.delta > 0 ? 'warning' : 'info'}
+          title="Impact on current estimate"
+          subtitle={`${formatCurrency(estimateDrift.fromTotal)} → ${formatCurrency(estimateDrift.toTotal)} per month (${formatPct(estimateDrift.deltaPct)})`}
+          lowContrast
+          hideCloseButton
+        />
+      )}
+
+      {estimateDrift && estimateDrift.lines.length > 0 && (
+        <Table size="sm" aria-label="Estimate line items">
+          <TableHead>
+            <TableRow>
+              <TableHeader>Category</TableHeader>
+              <TableHeader>Line item</TableHeader>
+              <TableHeader>From</TableHeader>
+              <TableHeader>To</TableHeader>
+              <TableHeader>Change</TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {estimateDrift.lines.map(line => (
+              <TableRow key={`${line.category}-${line.description}`}>
+                <TableCell>{line.category}</TableCell>
+                <TableCell>{line.description}</TableCell>
+                <TableCell>{formatCurrency(line.from)}</TableCell>
+                <TableCell>{formatCurrency(line.to)}</TableCell>
+                <TableCell>{`${line.delta > 0 ? '+' : ''}${formatCurrency(line.delta)}`}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {pricingDiff && (
+        <>
+          <h5 className="price-drift__heading">Profiles (monthly rate)</h5>
+          <ChangeTable title="Profile" changes={pricingDiff.profiles} precise={false} />
+          <h5 className="price-drift__heading">Storage tiers (per GB-month)</h5>
+          <ChangeTable title="Storage tier" changes={pricingDiff.storageTiers} precise />
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,83 @@
+// Pricing Snapshot Controls - pin an estimate to a pricing snapshot and open the price drift view
+
+import { useState } from 'react';
+import { Select, SelectItem, Button, Tag } from '@carbon/react';
+import { Pin, PinFilled, ChartLine } from '@carbon/icons-react';
+import type { CostEstimate } from '@/services/costEstimation';
+import type { IBMCloudPricing } from '@/services/pricing/pricingCache';
+import { describeSnapshot } from '@/services/pricing/pricingHistory';
+import type { UsePricingSnapshotsReturn } from '@/hooks/usePricingSnapshots';
+import { PriceDriftModal } from './PriceDriftModal';
+import './PricingSnapshotControls.scss';
+
+interface PricingSnapshotControlsProps {
+  snapshots: UsePricingSnapshotsReturn;
+  /** Prices the current sizing with the given pricing data, used by the drift view */
+  calculate: (pricing: IBMCloudPricing) => CostEstimate | null;
+}
+
+export function PricingSnapshotControls({ snapshots, calculate }: PricingSnapshotControlsProps) {
+  const { snapshots: available, pin, pinSnapshot, unpin, loadSnapshot } = snapshots;
+  const [selectedId, setSelectedId] = useState('');
+  const [isDriftOpen, setIsDriftOpen] = useState(false);
+
+  const options = pin && !available.some(s => s.id === pin.id) ? [pin, ...available] : available;
+  const currentId = selectedId || pin?.id || options[0]?.id || '';
+
+  return (
+    <div className="pricing-snapshot-controls">
+      {pin ? (
+        <>
+          <Tag type="purple" size="sm" renderIcon={PinFilled} title={describeSnapshot(pin)}>
+            Pinned: {pin.pricingVersion}
+          </Tag>
+          <Button kind="ghost" size="sm" onClick={unpin}>
+            Unpin
+          </Button>
+        </>
+      ) : (
+        <>
+          <Select
+            id="pricing-snapshot-select"
+            labelText="Pricing snapshot"
+            hideLabel
+            size="sm"
+            value={currentId}
+            onChange={(e) => setSelectedId(e.target.value)}
+          >
+            {options.map(s => <SelectItem key={s.id} value={s.id} text={describeSnapshot(s)} />)}
+          </Select>
+          <Button
+            kind="ghost"
+            size="sm"
+            renderIcon={Pin}
+            disabled={!currentId}
+            onClick={() => void pinSnapshot(currentId)}
+          >
+            Pin
+          </Button>
+        </>
+      )}
+      <Button
+        kind="ghost"
+        size="sm"
+        renderIcon={ChartLine}
+        disabled={options.length < 2}
+        onClick={() => setIsDriftOpen(true)}
+      >
+        Price drift
+      </Button>
+      {isDriftOpen && (
+        <PriceDriftModal
+          open
+          onClose={() => setIsDriftOpen(false)}
+          snapshots={options}
+          loadSnapshot={loadSnapshot}
+          calculate={calculate}
+          initialFromId={pin?.id ?? options[options.length - 1]?.id}
+          initialToId={options[0]?.id}
+        />
+      )}
+    </div>
+  );
+}
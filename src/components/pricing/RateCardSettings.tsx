@@ -0,0 +1,162 @@
+// Rate Card Settings - per-service contracted discounts and committed-use credit
+
+import { useCallback, useRef, useState } from 'react';
+import {
+  NumberInput,
+  TextInput,
+  Toggle,
+  Button,
+  Tag,
+  InlineNotification,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+} from '@carbon/react';
+import { Receipt, Upload, Download, TrashCan } from '@carbon/icons-react';
+import { useRateCard } from '@/hooks/useRateCard';
+import { downloadBlob } from '@/services/export';
+import { BASE_CURRENCY } from '@/services/pricing/currency';
+import {
+  RATE_CARD_SERVICES,
+  parseRateCardFile,
+  generateRateCardTemplate,
+} from '@/services/pricing/rateCard';
+
+export function RateCardSettings() {
+  const { settings, setEnabled, setDiscount, setMonthlyCredit, setName, importRateCard, clearRateCard } = useRateCard();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const rateCard = settings.rateCard;
+
+  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Reset input so the same file can be re-selected
+    e.target.value = '';
+
+    setImportError(null);
+    try {
+      importRateCard(parseRateCardFile(await file.arrayBuffer(), file.name));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read the rate card file.');
+    }
+  }, [importRateCard]);
+
+  const handleDownloadTemplate = useCallback(() => {
+    const csv = generateRateCardTemplate(rateCard);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), 'rate-card-template.csv');
+  }, [rateCard]);
+
+  return (
+    <>
+      <h2 className="settings-page__section-title">
+        <Receipt size={20} />
+        Enterprise Rate Card
+      </h2>
+      <p className="settings-page__cache-description">
+        Apply contracted per-service discounts and a committed-use credit to ROKS and VSI estimates
+        in place of the flat pricing option. Estimates show list price next to contracted price, and
+        the rate card is included in handover files so colleagues get identical numbers.
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <Toggle
+          id="rate-card-enabled"
+          labelText="Apply rate card to estimates"
+          labelA="Off"
+          labelB="On"
+          toggled={settings.enabled}
+          onToggle={setEnabled}
+        />
+        {rateCard && (
+          <TextInput
+            id="rate-card-name"
+            labelText="Rate card name"
+            value={rateCard.name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ minWidth: '16rem' }}
+          />
+        )}
+        {rateCard?.source === 'file' && rateCard.fileName && (
+          <Tag type="blue" size="md">Loaded from {rateCard.fileName}</Tag>
+        )}
+      </div>
+
+      {importError && (
+        <InlineNotification
+          kind="error"
+          title="Import failed"
+          subtitle={importError}
+          lowContrast
+          onCloseButtonClick={() => setImportError(null)}
+        />
+      )}
+
+      <Table size="sm">
+        <TableHead>
+          <TableRow>
+            <TableHeader>Service</TableHeader>
+            <TableHeader>Discount off list (%)</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {RATE_CARD_SERVICES.map(({ id, label }) => (
+            <TableRow key={id}>
+              <TableCell>{label}</TableCell>
+              <TableCell>
+                <NumberInput
+                  id={`rate-card-${id}`}
+                  label=""
+                  hideLabel
+                  size="sm"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={rateCard?.discounts[id] ?? 0}
+                  onChange={(_, { value }) => setDiscount(id, Number(value) || null)}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell>Committed-use credit ({BASE_CURRENCY}/month)</TableCell>
+            <TableCell>
+              <NumberInput
+                id="rate-card-credit"
+                label=""
+                hideLabel
+                size="sm"
+                min={0}
+                step={100}
+                value={rateCard?.monthlyCredit ?? 0}
+                onChange={(_, { value }) => setMonthlyCredit(Number(value) || 0)}
+              />
+            </TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        style={{ display: 'none' }}
+        onChange={handleFileSelect}
+      />
+      <div className="settings-page__cache-actions" style={{ marginTop: '1rem' }}>
+        <Button kind="tertiary" size="sm" renderIcon={Upload} onClick={() => fileRef.current?.click()}>
+          Import Rate Card (XLSX/CSV)
+        </Button>
+        <Button kind="ghost" size="sm" renderIcon={Download} onClick={handleDownloadTemplate}>
+          Download Template
+        </Button>
+        <Button kind="ghost" size="sm" renderIcon={TrashCan} onClick={clearRateCard} disabled={!rateCard}>
+          Remove Rate Card
+        </Button>
+      </div>
+    </>
+  );
+}
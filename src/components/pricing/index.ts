@@ -1,2 +1,6 @@
 // Pricing components exports
 export { PricingRefresh } from './PricingRefresh';
+export { CurrencySettings } from './CurrencySettings';
+export { RateCardSettings } from './RateCardSettings';
+export { PricingSnapshotControls } from './PricingSnapshotControls';
+export { PriceDriftModal } from './PriceDriftModal';
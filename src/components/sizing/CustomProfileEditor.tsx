@@ -25,10 +25,15 @@ import {
 } from '@carbon/react';
 import { Add, TrashCan, Edit } from '@carbon/icons-react';
 import type { CustomProfile } from '@/hooks/useCustomProfiles';
+import { formatCurrencyPrecise } from '@/services/costEstimation';
+import { BASE_CURRENCY } from '@/services/pricing/currency';
 import './CustomProfileEditor.scss';
 
 const HOURS_PER_MONTH = 730;
 
+// Custom profile rates are entered in the pricing base currency, like the IBM Cloud list prices
+const formatRate = (amount: number, decimals?: number) => formatCurrencyPrecise(amount, BASE_CURRENCY, decimals);
+
 interface CustomProfileEditorProps {
   isOpen: boolean;
   onClose: () => void;
@@ -187,8 +192,8 @@ export function CustomProfileEditor({
     id: profile.id,
     name: profile.name,
     specs: `${profile.vcpus} vCPU, ${profile.memoryGiB} GiB`,
-    hourly: `$${profile.hourlyRate.toFixed(4)}`,
-    monthly: `$${profile.monthlyRate.toFixed(2)}`,
+    hourly: formatRate(profile.hourlyRate, 4),
+    monthly: formatRate(profile.monthlyRate),
   }));
 
   return (
@@ -337,7 +342,7 @@ export function CustomProfileEditor({
 
               <NumberInput
                 id="profile-hourly"
-                label="Hourly Rate ($)"
+                label={`Hourly Rate (${BASE_CURRENCY})`}
                 min={0.001}
                 max={100}
                 step={0.001}
@@ -380,7 +385,7 @@ export function CustomProfileEditor({
               <strong>Preview:</strong>{' '}
               <code>{formState.name || '(enter name)'}</code> —{' '}
               {formState.vcpus} vCPU, {formState.memoryGiB} GiB —{' '}
-              ${formState.hourlyRate.toFixed(4)}/hr (${(formState.hourlyRate * HOURS_PER_MONTH).toFixed(2)}/mo)
+              {formatRate(formState.hourlyRate, 4)}/hr ({formatRate(formState.hourlyRate * HOURS_PER_MONTH)}/mo)
             </div>
           </div>
         )}
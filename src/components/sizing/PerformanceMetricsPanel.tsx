@@ -0,0 +1,166 @@
+// Performance Metrics Panel - import measured utilisation and compare allocated vs right-sized totals
+
+import { useCallback, useRef, useState } from 'react';
+import {
+  Tile,
+  Button,
+  NumberInput,
+  Tag,
+  InlineNotification,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+} from '@carbon/react';
+import { Upload, Download, TrashCan } from '@carbon/icons-react';
+import type { UsePerformanceMetricsReturn } from '@/hooks/usePerformanceMetrics';
+import { downloadBlob } from '@/services/export';
+import { formatCurrency } from '@/services/costEstimation';
+import {
+  parsePerformanceFile,
+  generatePerformanceTemplate,
+  type RightSizingComparison,
+} from '@/services/migration/performanceMetrics';
+import { formatNumber } from '@/utils/formatters';
+import type { VirtualMachine } from '@/types/rvtools';
+
+interface PerformanceMetricsPanelProps {
+  performanceMetrics: UsePerformanceMetricsReturn;
+  /** In-scope VMs, used for the match count and to pre-fill the template */
+  vms: VirtualMachine[];
+  comparison?: RightSizingComparison | null;
+  /** Page-specific controls for adopting the right-sized result */
+  actions?: React.ReactNode;
+}
+
+function formatChange(allocated: number, rightSized: number): string {
+  if (allocated <= 0) return '—';
+  const pct = Math.round(((rightSized - allocated) / allocated) * 100);
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
+export function PerformanceMetricsPanel({ performanceMetrics, vms, comparison, actions }: PerformanceMetricsPanelProps) {
+  const { dataset, headroomPercent, metricsByVM, importDataset, clearDataset, setHeadroomPercent } = performanceMetrics;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    // Reset input so the same file can be re-selected
+    e.target.value = '';
+
+    setImportError(null);
+    try {
+      importDataset(parsePerformanceFile(await file.arrayBuffer(), file.name));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read the performance metrics file.');
+    }
+  }, [importDataset]);
+
+  const handleDownloadTemplate = useCallback(() => {
+    const csv = generatePerformanceTemplate(vms);
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), 'performance-metrics-template.csv');
+  }, [vms]);
+
+  const rows = comparison
+    ? [
+      { label: 'vCPUs', allocated: comparison.allocated.vcpus, rightSized: comparison.rightSized.vcpus, format: formatNumber },
+      { label: 'Memory (GiB)', allocated: comparison.allocated.memoryGiB, rightSized: comparison.rightSized.memoryGiB, format: formatNumber },
+      ...(comparison.allocated.nodes != null && comparison.rightSized.nodes != null
+        ? [{ label: 'Nodes', allocated: comparison.allocated.nodes, rightSized: comparison.rightSized.nodes, format: formatNumber }]
+        : []),
+      ...(comparison.allocated.monthlyCost != null && comparison.rightSized.monthlyCost != null
+        ? [{ label: 'Monthly node cost', allocated: comparison.allocated.monthlyCost, rightSized: comparison.rightSized.monthlyCost, format: formatCurrency }]
+        : []),
+    ]
+    : [];
+
+  return (
+    <Tile>
+      <h4>Measured Utilisation</h4>
+      <p style={{ color: '#525252', margin: '0.25rem 0 1rem' }}>
+        Import 30-day p95 CPU, memory, IOPS and throughput per VM from an Aria Operations CSV export or the
+        template. Right-sized vCPU and memory are the measured p95 plus headroom, never more than the allocation,
+        and measured IOPS select the block storage tier.
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <NumberInput
+          id="rightsizing-headroom"
+          label="Headroom over p95 (%)"
+          min={0}
+          max={100}
+          step={5}
+          value={headroomPercent}
+          onChange={(_, { value }) => setHeadroomPercent(Number(value) || 0)}
+        />
+        {dataset && (
+          <>
+            <Tag type="blue" size="md">
+              Loaded from {dataset.fileName}{dataset.format === 'aria' ? ' (Aria Operations)' : ''}
+            </Tag>
+            <Tag type={metricsByVM.size > 0 ? 'green' : 'red'} size="md">
+              {formatNumber(metricsByVM.size)} of {formatNumber(vms.length)} VMs matched
+            </Tag>
+          </>
+        )}
+      </div>
+
+      {importError && (
+        <InlineNotification
+          kind="error"
+          title="Import failed"
+          subtitle={importError}
+          lowContrast
+          onCloseButtonClick={() => setImportError(null)}
+        />
+      )}
+
+      {rows.length > 0 && (
+        <Table size="sm" aria-label="Allocated vs right-sized">
+          <TableHead>
+            <TableRow>
+              <TableHeader />
+              <TableHeader>Allocated</TableHeader>
+              <TableHeader>Right-sized</TableHeader>
+              <TableHeader>Change</TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.label}>
+                <TableCell>{row.label}</TableCell>
+                <TableCell>{row.format(row.allocated)}</TableCell>
+                <TableCell>{row.format(row.rightSized)}</TableCell>
+                <TableCell>{formatChange(row.allocated, row.rightSized)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        style={{ display: 'none' }}
+        onChange={handleFileSelect}
+      />
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center', marginTop: '1rem' }}>
+        <Button kind="tertiary" size="sm" renderIcon={Upload} onClick={() => fileRef.current?.click()}>
+          Import Performance Metrics (CSV/XLSX)
+        </Button>
+        <Button kind="ghost" size="sm" renderIcon={Download} onClick={handleDownloadTemplate}>
+          Download Template
+        </Button>
+        <Button kind="ghost" size="sm" renderIcon={TrashCan} onClick={clearDataset} disabled={!dataset}>
+          Remove Metrics
+        </Button>
+        {actions}
+      </div>
+    </Tile>
+  );
+}
@@ -3,6 +3,7 @@ import {
   Grid,
   Column,
   Tile,
+  Toggle,
 } from '@carbon/react';
 import { useSizingCalculator } from '@/hooks/useSizingCalculator';
 import { SizingProfileSection } from '@/components/sizing/SizingProfileSection';
@@ -13,6 +14,7 @@ import { SizingWorkloadResults } from '@/components/sizing/SizingWorkloadResults
 import { SizingRedundancyValidation } from '@/components/sizing/SizingRedundancyValidation';
 import { SizingVMFitValidation } from '@/components/sizing/SizingVMFitValidation';
 import { SizingDataQualityBanner } from '@/components/sizing/SizingDataQualityBanner';
+import { PerformanceMetricsPanel } from '@/components/sizing/PerformanceMetricsPanel';
 import { useDataInconsistencies } from '@/hooks';
 import './SizingCalculator.scss';
 
@@ -111,6 +113,9 @@ export function SizingCalculator({ onSizingChange, requestedProfile, onRequested
         <SizingStorageSection
           storageMetric={sizing.storageMetric}
           setStorageMetric={sizing.setStorageMetric}
+          guestHeadroom={sizing.guestHeadroom}
+          setGuestHeadroom={sizing.setGuestHeadroom}
+          hasPartitionData={sizing.hasPartitionData}
           replicaFactor={sizing.replicaFactor}
           setReplicaFactor={sizing.setReplicaFactor}
           operationalCapacity={sizing.operationalCapacity}
@@ -129,6 +134,30 @@ export function SizingCalculator({ onSizingChange, requestedProfile, onRequested
           setEvictionThreshold={sizing.setEvictionThreshold}
         />
 
+        {/* Measured utilisation: allocated vs right-sized workload totals */}
+        {sizing.hasData && (
+          <Column lg={16} md={8} sm={4}>
+            <PerformanceMetricsPanel
+              performanceMetrics={sizing.performanceMetrics}
+              vms={sizing.inScopeVMs}
+              comparison={sizing.rightSizingComparison}
+              actions={
+                <Toggle
+                  id="sizing-from-utilisation"
+                  size="sm"
+                  labelText="Size nodes from measured utilisation"
+                  hideLabel
+                  labelA="Size from allocation"
+                  labelB="Size from measured utilisation"
+                  toggled={sizing.sizeFromUtilisation}
+                  disabled={sizing.performanceMetrics.metricsByVM.size === 0}
+                  onToggle={sizing.setSizeFromUtilisation}
+                />
+              }
+            />
+          </Column>
+        )}
+
         {/* Per-Node Capacity Results */}
         <SizingNodeCapacity
           selectedProfile={sizing.selectedProfile}
@@ -175,9 +204,12 @@ export function SizingCalculator({ onSizingChange, requestedProfile, onRequested
           />
         )}
 
-        {/* Per-VM Node Fit Check */}
-        {sizing.vmFitValidation && !sizing.vmFitValidation.allFit && (
-          <SizingVMFitValidation vmFitValidation={sizing.vmFitValidation} />
+        {/* VM Placement Simulation */}
+        {sizing.vmFitValidation && sizing.hasData && (
+          <SizingVMFitValidation
+            vmFitValidation={sizing.vmFitValidation}
+            evictionThreshold={sizing.evictionThreshold}
+          />
         )}
 
         {/* Data Quality Warnings */}
@@ -6,6 +6,7 @@ import {
   Tag,
 } from '@carbon/react';
 import type { NodeCapacity, RedundancyValidation } from '@/hooks/useSizingCalculator';
+import type { FailureSimulation } from '@/utils/vmPlacement';
 
 interface SizingRedundancyValidationProps {
   redundancyValidation: RedundancyValidation;
@@ -15,6 +16,45 @@ interface SizingRedundancyValidationProps {
   operationalCapacity: number;
 }
 
+function FailureScenarioTile({ title, simulation }: { title: string; simulation: FailureSimulation }) {
+  const worst = simulation.worstCase;
+  return (
+    <div className={`sizing-calculator__efficiency-scenario ${simulation.survives ? 'sizing-calculator__efficiency-scenario--healthy' : 'sizing-calculator__efficiency-scenario--degraded'}`}>
+      <div className="sizing-calculator__efficiency-header">
+        <Tag type={simulation.survives ? 'green' : 'red'} size="sm">{title}</Tag>
+        <span className="sizing-calculator__efficiency-subtitle">
+          {simulation.scenarios.length} scenario{simulation.scenarios.length !== 1 ? 's' : ''} simulated
+        </span>
+      </div>
+
+      {worst && (
+        <div className="sizing-calculator__efficiency-metrics">
+          <div className="sizing-calculator__efficiency-metric">
+            <span className="sizing-calculator__efficiency-metric-label">{simulation.survives ? 'Worst Case' : 'First Failing Case'}</span>
+            <span className="sizing-calculator__efficiency-metric-value">
+              Lose {worst.label} ({worst.failedNodes} node{worst.failedNodes !== 1 ? 's' : ''}, {worst.displacedVMs} VMs displaced)
+            </span>
+          </div>
+          <div className="sizing-calculator__efficiency-metric">
+            <span className="sizing-calculator__efficiency-metric-label">Peak Node CPU / Memory</span>
+            <span className="sizing-calculator__efficiency-metric-value">
+              {worst.maxCpuUtil.toFixed(1)}% / {worst.maxMemoryUtil.toFixed(1)}%
+            </span>
+          </div>
+          <div className="sizing-calculator__efficiency-metric">
+            <span className="sizing-calculator__efficiency-metric-label">VMs Not Rescheduled</span>
+            <span className="sizing-calculator__efficiency-metric-value">
+              <Tag type={worst.unplacedVMs.length === 0 ? 'green' : 'red'} size="sm">
+                {worst.unplacedVMs.length === 0 ? 'None \u2713' : `${worst.unplacedVMs.length} \u2717`}
+              </Tag>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function SizingRedundancyValidation({
   redundancyValidation,
   nodeCapacity,
@@ -128,6 +168,34 @@ export function SizingRedundancyValidation({
           </Column>
         </Grid>
 
+        {/* Placement-based failover: reschedule the displaced VMs one by one */}
+        <h4 style={{ marginTop: '1.5rem', fontSize: '1rem' }}>VM Placement Failover</h4>
+        <p className="sizing-calculator__subtitle">
+          Re-places the VMs from each failed node (or zone) onto the surviving nodes without exceeding {evictionThreshold}% eviction
+        </p>
+        <Grid narrow>
+          <Column lg={8} md={4} sm={4}>
+            <FailureScenarioTile title="Any Single Node Failure" simulation={redundancyValidation.nodeFailure} />
+          </Column>
+          <Column lg={8} md={4} sm={4}>
+            {redundancyValidation.zoneFailure ? (
+              <FailureScenarioTile title="Entire Zone Failure" simulation={redundancyValidation.zoneFailure} />
+            ) : (
+              <div className="sizing-calculator__efficiency-scenario">
+                <div className="sizing-calculator__efficiency-header">
+                  <Tag type="gray" size="sm">Entire Zone Failure</Tag>
+                  <span className="sizing-calculator__efficiency-subtitle">N/A (single node)</span>
+                </div>
+              </div>
+            )}
+          </Column>
+        </Grid>
+        {redundancyValidation.placementNodeCount !== null && redundancyValidation.placementNodeCount > redundancyValidation.totalNodes && (
+          <p style={{ marginTop: '0.5rem', color: 'var(--cds-text-secondary)' }}>
+            VM placement needs {redundancyValidation.placementNodeCount} nodes to place every VM and survive a single node failure.
+          </p>
+        )}
+
         {!redundancyValidation.allPass && (
           <div className="sizing-calculator__validation-warning" style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: 'var(--cds-support-error)', color: 'white', borderRadius: '4px' }}>
             <strong>Warning:</strong> Current configuration does not meet N+{nodeRedundancy} redundancy requirements.
@@ -135,7 +203,8 @@ export function SizingRedundancyValidation({
             {!redundancyValidation.cpuPasses && ` (CPU: ${redundancyValidation.cpuUtilAfterFailure.toFixed(0)}% > ${evictionThreshold}%)`}
             {!redundancyValidation.memoryPasses && ` (Memory: ${redundancyValidation.memoryUtilAfterFailure.toFixed(0)}% > ${evictionThreshold}%)`}
             {!redundancyValidation.storagePasses && nodeCapacity.maxUsableStorageGiB > 0 && ` (ODF: ${redundancyValidation.storageUtilAfterFailure.toFixed(0)}% > ${operationalCapacity}%)`}
-            {!redundancyValidation.odfQuorumPasses && ` (ODF Quorum: only ${redundancyValidation.survivingNodes} nodes < 3 required)`}.
+            {!redundancyValidation.odfQuorumPasses && ` (ODF Quorum: only ${redundancyValidation.survivingNodes} nodes < 3 required)`}
+            {!redundancyValidation.placementPasses && ` (Placement: ${redundancyValidation.nodeFailure.worstCase?.unplacedVMs.length ?? 0} VMs cannot be rescheduled after losing ${redundancyValidation.nodeFailure.worstCase?.label})`}.
             Consider adding more nodes or adjusting thresholds.
           </div>
         )}
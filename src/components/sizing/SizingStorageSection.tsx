@@ -7,10 +7,14 @@ import {
   RadioButtonGroup,
   RadioButton,
 } from '@carbon/react';
+import type { StorageMetric } from '@/utils/guestStorage';
 
 interface SizingStorageSectionProps {
-  storageMetric: 'provisioned' | 'inUse' | 'diskCapacity';
-  setStorageMetric: (value: 'provisioned' | 'inUse' | 'diskCapacity') => void;
+  storageMetric: StorageMetric;
+  setStorageMetric: (value: StorageMetric) => void;
+  guestHeadroom: number;
+  setGuestHeadroom: (value: number) => void;
+  hasPartitionData: boolean;
   replicaFactor: number;
   setReplicaFactor: (value: number) => void;
   operationalCapacity: number;
@@ -32,6 +36,9 @@ interface SizingStorageSectionProps {
 export function SizingStorageSection({
   storageMetric,
   setStorageMetric,
+  guestHeadroom,
+  setGuestHeadroom,
+  hasPartitionData,
   replicaFactor,
   setReplicaFactor,
   operationalCapacity,
@@ -62,7 +69,7 @@ export function SizingStorageSection({
                 legendText="Storage Metric for Sizing"
                 name="storage-metric"
                 valueSelected={storageMetric}
-                onChange={(value) => setStorageMetric(value as 'provisioned' | 'inUse' | 'diskCapacity')}
+                onChange={(value) => setStorageMetric(value as StorageMetric)}
                 orientation="horizontal"
               >
                 <RadioButton
@@ -80,15 +87,36 @@ export function SizingStorageSection({
                   value="provisioned"
                   labelText="Provisioned (conservative)"
                 />
+                <RadioButton
+                  id="storage-guest-used"
+                  value="guestUsed"
+                  labelText="Guest Used + Headroom"
+                  disabled={!hasPartitionData}
+                />
               </RadioButtonGroup>
             </div>
 
             <div className="sizing-calculator__info-text" style={{ marginBottom: '1rem', fontSize: '0.75rem' }}>
               <strong>Disk Capacity:</strong> Full disk size (VMs may grow to use full capacity).<br />
               <strong>In Use (recommended):</strong> Actual consumed storage including snapshots.<br />
-              <strong>Provisioned:</strong> Allocated capacity including thin-provisioned promises.
+              <strong>Provisioned:</strong> Allocated capacity including thin-provisioned promises.<br />
+              <strong>Guest Used + Headroom:</strong> Space consumed inside guest partitions (vPartition) plus free-space headroom. Excludes swap files and zeroed blocks.
+              {!hasPartitionData && ' Requires the vPartition sheet.'}
             </div>
 
+            {storageMetric === 'guestUsed' && (
+              <Slider
+                id="guest-headroom"
+                labelText="Guest Storage Headroom"
+                min={0}
+                max={100}
+                step={5}
+                value={guestHeadroom}
+                onChange={({ value }) => setGuestHeadroom(value)}
+                formatLabel={(val) => `${val}%`}
+              />
+            )}
+
             <Slider
               id="replica-factor"
               labelText="Replica Factor (Data Protection)"
@@ -7,28 +7,79 @@ import type { VMFitValidation } from '@/hooks/useSizingCalculator';
 
 interface SizingVMFitValidationProps {
   vmFitValidation: VMFitValidation;
+  evictionThreshold: number;
 }
 
-export function SizingVMFitValidation({ vmFitValidation }: SizingVMFitValidationProps) {
+const cellStyle = { padding: '0.5rem 0.75rem' };
+
+function utilTagType(util: number, evictionThreshold: number): 'green' | 'warm-gray' | 'red' {
+  if (util > evictionThreshold) return 'red';
+  if (util > evictionThreshold * 0.85) return 'warm-gray';
+  return 'green';
+}
+
+export function SizingVMFitValidation({ vmFitValidation, evictionThreshold }: SizingVMFitValidationProps) {
+  const { placement, oversizedVMs, unplacedVMs } = vmFitValidation;
+  const placedCount = placement.nodes.reduce((sum, n) => sum + n.vmNames.length, 0);
+
   return (
     <Column lg={16} md={8} sm={4}>
       <Tile className={`sizing-calculator__validation-results ${vmFitValidation.allFit ? 'sizing-calculator__validation-results--pass' : 'sizing-calculator__validation-results--fail'}`}>
         <div className="sizing-calculator__validation-header">
-          <h3 className="sizing-calculator__section-title">Per-VM Node Fit Check</h3>
+          <h3 className="sizing-calculator__section-title">VM Placement Simulation</h3>
           <Tag type={vmFitValidation.allFit ? 'green' : 'red'} size="md">
             {vmFitValidation.allFit ? 'PASSED' : 'FAILED'}
           </Tag>
         </div>
         <p className="sizing-calculator__subtitle">
-          Verifying every individual VM (with virtualization overhead) can fit within a single node&apos;s available capacity
+          Packing every in-scope VM (with virtualization overhead) onto {placement.nodes.length} node{placement.nodes.length !== 1 ? 's' : ''}, largest first, without filling any node beyond the {evictionThreshold}% eviction threshold
         </p>
 
-        {vmFitValidation.allFit ? (
-          <p style={{ marginTop: '0.5rem', color: 'var(--cds-text-secondary)' }}>
-            All VMs fit within a single node&apos;s capacity.
-          </p>
-        ) : (
+        <p style={{ marginTop: '0.5rem', color: 'var(--cds-text-secondary)' }}>
+          {placedCount} VM{placedCount !== 1 ? 's' : ''} placed
+          {vmFitValidation.allFit
+            ? ' — every VM has a node with room for it.'
+            : `, ${oversizedVMs.length + unplacedVMs.length} could not be placed.`}
+        </p>
+
+        {placement.nodes.length > 0 && (
+          <div style={{ overflowX: 'auto', marginTop: '1rem', maxHeight: '20rem' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+              <thead>
+                <tr style={{ borderBottom: '2px solid var(--cds-border-subtle-01, #e0e0e0)', textAlign: 'left' }}>
+                  <th style={cellStyle}>Node</th>
+                  <th style={cellStyle}>Zone</th>
+                  <th style={cellStyle}>VMs</th>
+                  <th style={cellStyle}>vCPUs</th>
+                  <th style={cellStyle}>Memory</th>
+                  <th style={cellStyle}>CPU Utilization</th>
+                  <th style={cellStyle}>Memory Utilization</th>
+                </tr>
+              </thead>
+              <tbody>
+                {placement.nodes.map((node) => (
+                  <tr key={node.name} style={{ borderBottom: '1px solid var(--cds-border-subtle-01, #e0e0e0)' }}>
+                    <td style={{ ...cellStyle, fontWeight: 600 }}>{node.name}</td>
+                    <td style={cellStyle}>{node.zone}</td>
+                    <td style={cellStyle}>{node.vmNames.length}</td>
+                    <td style={cellStyle}>{node.usedVCPUs.toFixed(1)}</td>
+                    <td style={cellStyle}>{node.usedMemoryGiB.toFixed(1)} GiB</td>
+                    <td style={cellStyle}>
+                      <Tag type={utilTagType(node.cpuUtil, evictionThreshold)} size="sm">{node.cpuUtil.toFixed(1)}%</Tag>
+                    </td>
+                    <td style={cellStyle}>
+                      <Tag type={utilTagType(node.memoryUtil, evictionThreshold)} size="sm">{node.memoryUtil.toFixed(1)}%</Tag>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {oversizedVMs.length > 0 && (
           <>
+            <h4 style={{ marginTop: '1.5rem', fontSize: '1rem' }}>VMs Larger Than a Node</h4>
             <div style={{ overflowX: 'auto', marginTop: '1rem' }}>
               <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
                 <thead>
@@ -41,7 +92,7 @@ export function SizingVMFitValidation({ vmFitValidation }: SizingVMFitValidation
                   </tr>
                 </thead>
                 <tbody>
-                  {vmFitValidation.oversizedVMs.map((vm) => (
+                  {oversizedVMs.map((vm) => (
                     <tr key={vm.vmName} style={{ borderBottom: '1px solid var(--cds-border-subtle-01, #e0e0e0)' }}>
                       <td style={{ padding: '0.5rem 0.75rem', fontWeight: 600 }}>{vm.vmName}</td>
                       <td style={{ padding: '0.5rem 0.75rem' }}>
@@ -83,11 +134,46 @@ export function SizingVMFitValidation({ vmFitValidation }: SizingVMFitValidation
             </div>
 
             <div style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: 'var(--cds-support-error)', color: 'white', borderRadius: '4px' }}>
-              <strong>Action required:</strong> {vmFitValidation.oversizedVMs.length} VM{vmFitValidation.oversizedVMs.length !== 1 ? 's' : ''} cannot
+              <strong>Action required:</strong> {oversizedVMs.length} VM{oversizedVMs.length !== 1 ? 's' : ''} cannot
               fit on a single node. Select a larger bare metal profile, exclude these VMs, or right-size them in the Discovery page.
             </div>
           </>
         )}
+
+        {unplacedVMs.length > 0 && (
+          <>
+            <h4 style={{ marginTop: '1.5rem', fontSize: '1rem' }}>VMs Without Room on Any Node</h4>
+            <div style={{ overflowX: 'auto', marginTop: '0.5rem' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid var(--cds-border-subtle-01, #e0e0e0)', textAlign: 'left' }}>
+                    <th style={cellStyle}>VM Name</th>
+                    <th style={cellStyle}>Blocking Resource</th>
+                    <th style={cellStyle}>VM Requirement</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {unplacedVMs.map((vm) => (
+                    <tr key={vm.vmName} style={{ borderBottom: '1px solid var(--cds-border-subtle-01, #e0e0e0)' }}>
+                      <td style={{ ...cellStyle, fontWeight: 600 }}>{vm.vmName}</td>
+                      <td style={cellStyle}>
+                        <Tag type="magenta" size="sm">
+                          {vm.resource === 'both' ? 'Memory + CPU' : vm.resource === 'memory' ? 'Memory' : 'CPU'}
+                        </Tag>
+                      </td>
+                      <td style={cellStyle}>{vm.vcpus.toFixed(1)} vCPUs / {vm.memoryGiB.toFixed(1)} GiB RAM</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div style={{ marginTop: '1rem', padding: '0.75rem', backgroundColor: 'var(--cds-support-error)', color: 'white', borderRadius: '4px' }}>
+              <strong>Action required:</strong> {unplacedVMs.length} VM{unplacedVMs.length !== 1 ? 's' : ''} fit a node on
+              their own but no node has enough free capacity left after placing larger VMs. Add worker nodes or raise the eviction threshold.
+            </div>
+          </>
+        )}
       </Tile>
     </Column>
   );
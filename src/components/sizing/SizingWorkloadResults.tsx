@@ -10,6 +10,8 @@ import { StorageBreakdownBar, STORAGE_SEGMENT_COLORS } from '@/components/sizing
 import { ResourceBreakdownBar, RESOURCE_SEGMENT_COLORS } from '@/components/sizing/ResourceBreakdownBar';
 import type { BareMetalProfile, NodeCapacity, NodeRequirements } from '@/hooks/useSizingCalculator';
 import type { OdfReservation } from '@/utils/odfCalculation';
+import { STORAGE_METRIC_LABELS } from '@/utils/guestStorage';
+import type { StorageMetric } from '@/utils/guestStorage';
 
 interface SizingWorkloadResultsProps {
   nodeRequirements: NodeRequirements;
@@ -28,7 +30,7 @@ interface SizingWorkloadResultsProps {
   cpuProportionalPercent: number;
   memoryFixedPerVMMiB: number;
   memoryProportionalPercent: number;
-  storageMetric: 'provisioned' | 'inUse' | 'diskCapacity';
+  storageMetric: StorageMetric;
   annualGrowthRate: number;
   planningHorizonYears: number;
   virtOverhead: number;
@@ -96,6 +98,7 @@ export function SizingWorkloadResults({
         <h3 className="sizing-calculator__section-title">Node Requirements for Your Workload</h3>
         <p className="sizing-calculator__subtitle">
           Based on {formatNumber(nodeRequirements.vmCount)} powered-on VMs from uploaded RVTools data
+          {nodeRequirements.rightSizedVMCount > 0 && `, ${formatNumber(nodeRequirements.rightSizedVMCount)} sized from measured utilisation`}
         </p>
 
         <Grid narrow>
@@ -143,6 +146,11 @@ export function SizingWorkloadResults({
               <span className="sizing-calculator__workload-detail">
                 Workload: {formatBytes(nodeRequirements.baseStorageGiB * 1024 * 1024 * 1024)} + Growth/Overhead
               </span>
+              {storageMetric === 'guestUsed' && (
+                <span className="sizing-calculator__workload-detail">
+                  Guest used: {formatBytes(nodeRequirements.guestUsedStorageGiB * 1024 * 1024 * 1024)} ({formatNumber(nodeRequirements.vmsWithPartitionData)} of {formatNumber(nodeRequirements.vmCount)} VMs with partition data)
+                </span>
+              )}
             </div>
           </Column>
 
@@ -301,7 +309,7 @@ export function SizingWorkloadResults({
                 label: 'VM Data',
                 value: nodeRequirements.baseStorageGiB,
                 color: STORAGE_SEGMENT_COLORS.vmData,
-                description: `Base ${storageMetric === 'inUse' ? 'in-use' : storageMetric === 'diskCapacity' ? 'disk capacity' : 'provisioned'} storage`,
+                description: `Base ${STORAGE_METRIC_LABELS[storageMetric]} storage`,
               },
               {
                 label: 'Growth',
@@ -6,6 +6,7 @@ import { Tag, Button, Tooltip } from '@carbon/react';
 import { Reset, Edit, Checkmark } from '@carbon/icons-react';
 import type { StorageTierType } from '@/utils/workloadClassification';
 import { getStorageTierLabel, getCategoryDisplayName } from '@/utils/workloadClassification';
+import { formatNumber } from '@/utils/formatters';
 
 interface StorageTierSelectorProps {
   vmName: string;
@@ -13,6 +14,8 @@ interface StorageTierSelectorProps {
   autoTier: StorageTierType;
   isOverridden: boolean;
   workloadCategory: string | null;
+  /** Measured p95 IOPS that drove the auto tier, if any */
+  measuredIOPS?: number | null;
   onTierChange: (vmName: string, tier: StorageTierType) => void;
   onResetToAuto: (vmName: string) => void;
 }
@@ -21,12 +24,14 @@ const TIER_OPTIONS: { value: StorageTierType; label: string }[] = [
   { value: 'general-purpose', label: '3 IOPS/GB (General Purpose)' },
   { value: '5iops', label: '5 IOPS/GB' },
   { value: '10iops', label: '10 IOPS/GB' },
+  { value: 'sdp', label: 'Custom IOPS (sdp)' },
 ];
 
-const TIER_TAG_TYPE: Record<StorageTierType, 'gray' | 'teal' | 'purple'> = {
+const TIER_TAG_TYPE: Record<StorageTierType, 'gray' | 'teal' | 'purple' | 'magenta'> = {
   'general-purpose': 'gray',
   '5iops': 'teal',
   '10iops': 'purple',
+  sdp: 'magenta',
 };
 
 export function StorageTierSelector({
@@ -35,15 +40,18 @@ export function StorageTierSelector({
   autoTier,
   isOverridden,
   workloadCategory,
+  measuredIOPS,
   onTierChange,
   onResetToAuto,
 }: StorageTierSelectorProps) {
   const [isEditing, setIsEditing] = useState(false);
 
   const categoryName = getCategoryDisplayName(workloadCategory);
-  const tooltipText = categoryName
-    ? `${categoryName} \u2192 ${getStorageTierLabel(autoTier)}`
-    : `Default \u2192 ${getStorageTierLabel(autoTier)}`;
+  const tooltipText = measuredIOPS != null
+    ? `Measured ${formatNumber(measuredIOPS)} IOPS \u2192 ${getStorageTierLabel(autoTier)}`
+    : categoryName
+      ? `${categoryName} \u2192 ${getStorageTierLabel(autoTier)}`
+      : `Default \u2192 ${getStorageTierLabel(autoTier)}`;
 
   if (!isEditing) {
     return (
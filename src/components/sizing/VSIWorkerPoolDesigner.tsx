@@ -0,0 +1,163 @@
+// VSI Worker Pool Designer - worker pools by profile family and VPC block CSI storage for ROKS on VSI workers
+
+import {
+  Tile,
+  Select,
+  SelectItem,
+  NumberInput,
+  Button,
+  Tag,
+  InlineNotification,
+  Table,
+  TableHead,
+  TableRow,
+  TableHeader,
+  TableBody,
+  TableCell,
+} from '@carbon/react';
+import { Reset } from '@carbon/icons-react';
+import type { UseROKSWorkerSettingsReturn } from '@/hooks/useROKSWorkerSettings';
+import { VPC_BLOCK_STORAGE_CLASSES, type VpcBlockStorageClass } from '@/services/costEstimation';
+import { formatNumber } from '@/utils/formatters';
+import {
+  WORKER_POOL_FAMILIES,
+  getFamilyProfiles,
+  type WorkerPoolDesign,
+  type WorkerProfileOption,
+} from '@/utils/vsiWorkerPools';
+
+interface VSIWorkerPoolDesignerProps {
+  pools: WorkerPoolDesign[];
+  profiles: WorkerProfileOption[];
+  /** Persistent volume capacity for the migrated workloads */
+  storageGiB: number;
+  workerSettings: UseROKSWorkerSettingsReturn;
+}
+
+export function VSIWorkerPoolDesigner({ pools, profiles, storageGiB, workerSettings }: VSIWorkerPoolDesignerProps) {
+  const { settings, setZoneCount, setMaxUtilization, setStorageClass, setPoolProfile, setPoolWorkers, resetPools } = workerSettings;
+  const totalWorkers = pools.reduce((sum, p) => sum + p.workers, 0);
+  const oversized = pools.reduce((sum, p) => sum + p.oversizedWorkloads, 0);
+  const hasOverrides = Object.keys(settings.profileOverrides ?? {}).length > 0
+    || Object.keys(settings.workerOverrides ?? {}).length > 0;
+
+  return (
+    <Tile>
+      <h4>Worker Pools</h4>
+      <p style={{ color: '#525252', margin: '0.25rem 0 1rem' }}>
+        Workloads are grouped into one pool per profile family by memory per vCPU. Each pool is sized from
+        the allocatable capacity of its worker profile after IBM Cloud worker reserves.
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', flexWrap: 'wrap', marginBottom: '1rem' }}>
+        <Select
+          id="vsi-worker-zones"
+          labelText="Zones"
+          value={String(settings.zoneCount)}
+          onChange={(e) => setZoneCount(Number(e.target.value))}
+        >
+          <SelectItem value="1" text="Single zone" />
+          <SelectItem value="3" text="Multizone (3 zones)" />
+        </Select>
+        <NumberInput
+          id="vsi-worker-utilization"
+          label="Max utilization (%)"
+          min={50}
+          max={100}
+          step={5}
+          value={settings.maxUtilization}
+          onChange={(_, { value }) => setMaxUtilization(Number(value) || settings.maxUtilization)}
+        />
+        <Select
+          id="vsi-worker-storage-class"
+          labelText="Storage class"
+          value={settings.storageClass}
+          onChange={(e) => setStorageClass(e.target.value as VpcBlockStorageClass)}
+        >
+          {VPC_BLOCK_STORAGE_CLASSES.map(sc => (
+            <SelectItem key={sc.id} value={sc.id} text={`${sc.id} — ${sc.label}`} />
+          ))}
+        </Select>
+        <Button kind="ghost" size="md" renderIcon={Reset} onClick={resetPools} disabled={!hasOverrides}>
+          Reset Pools
+        </Button>
+      </div>
+
+      {oversized > 0 && (
+        <InlineNotification
+          kind="warning"
+          title="Workloads larger than one worker"
+          subtitle={`${oversized} workload${oversized !== 1 ? 's' : ''} exceed the allocatable capacity of a single worker. Choose a larger profile for the affected pool.`}
+          lowContrast
+          hideCloseButton
+        />
+      )}
+
+      <Table size="sm" aria-label="Worker pools">
+        <TableHead>
+          <TableRow>
+            <TableHeader>Pool</TableHeader>
+            <TableHeader>Profile</TableHeader>
+            <TableHeader>Workers</TableHeader>
+            <TableHeader>Workloads</TableHeader>
+            <TableHeader>vCPU Requests</TableHeader>
+            <TableHeader>Memory Requests</TableHeader>
+            <TableHeader>CPU / Memory Use</TableHeader>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {pools.map(pool => {
+            const familyLabel = WORKER_POOL_FAMILIES.find(f => f.family === pool.family)?.label ?? pool.family;
+            return (
+              <TableRow key={pool.family}>
+                <TableCell>
+                  {pool.name} <Tag type="gray" size="sm">{familyLabel}</Tag>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    id={`vsi-worker-profile-${pool.family}`}
+                    labelText=""
+                    hideLabel
+                    size="sm"
+                    value={pool.profile}
+                    onChange={(e) => setPoolProfile(pool.family, e.target.value)}
+                  >
+                    {getFamilyProfiles(pool.family, profiles).map(p => (
+                      <SelectItem key={p.name} value={p.name} text={p.name} />
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <NumberInput
+                    id={`vsi-worker-count-${pool.family}`}
+                    label=""
+                    hideLabel
+                    size="sm"
+                    min={1}
+                    max={500}
+                    value={pool.workers}
+                    helperText={pool.workers !== pool.calculatedWorkers ? `Calculated: ${pool.calculatedWorkers}` : undefined}
+                    onChange={(_, { value }) => setPoolWorkers(pool.family, Number(value) || null)}
+                  />
+                </TableCell>
+                <TableCell>{formatNumber(pool.workloadCount)}</TableCell>
+                <TableCell>{formatNumber(pool.requiredVCPUs)} ({pool.allocatableVCPUs}/worker)</TableCell>
+                <TableCell>{formatNumber(pool.requiredMemoryGiB)} GiB ({pool.allocatableMemoryGiB} GiB/worker)</TableCell>
+                <TableCell>
+                  <Tag type={pool.cpuUtilization > settings.maxUtilization || pool.memoryUtilization > settings.maxUtilization ? 'red' : 'green'} size="sm">
+                    {pool.cpuUtilization}% / {pool.memoryUtilization}%
+                  </Tag>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <p style={{ marginTop: '1rem' }}>
+        <strong>{formatNumber(totalWorkers)}</strong> workers across {pools.length} pool{pools.length !== 1 ? 's' : ''} and {settings.zoneCount} zone{settings.zoneCount !== 1 ? 's' : ''};
+        {' '}<strong>{formatNumber(Math.ceil(storageGiB))} GiB</strong> of persistent volumes on {settings.storageClass}.
+      </p>
+    </Tile>
+  );
+}
@@ -7,3 +7,5 @@ export { CustomProfileEditor } from './CustomProfileEditor';
 export { StorageBreakdownBar, STORAGE_SEGMENT_COLORS } from './StorageBreakdownBar';
 export { ResourceBreakdownBar, RESOURCE_SEGMENT_COLORS } from './ResourceBreakdownBar';
 export type { ResourceSegment, ResourceUnit } from './ResourceBreakdownBar';
+export { VSIWorkerPoolDesigner } from './VSIWorkerPoolDesigner';
+export { PerformanceMetricsPanel } from './PerformanceMetricsPanel';
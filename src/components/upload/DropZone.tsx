@@ -5,6 +5,9 @@ import './DropZone.scss';
 
 interface DropZoneProps {
   onFileDrop: (file: File) => void;
+  /** Called instead of onFileDrop when several files are dropped and `multiple` is set */
+  onFilesDrop?: (files: File[]) => void;
+  multiple?: boolean;
   accept?: string[];
   disabled?: boolean;
   maxSizeMB?: number;
@@ -12,6 +15,8 @@ interface DropZoneProps {
 
 export function DropZone({
   onFileDrop,
+  onFilesDrop,
+  multiple = false,
   accept = ['.xlsx', '.xls'],
   disabled = false,
   maxSizeMB = 50,
@@ -39,18 +44,25 @@ export function DropZone({
     [accept, maxSizeMB]
   );
 
-  const handleFile = useCallback(
-    (file: File) => {
-      const validationError = validateFile(file);
-      if (validationError) {
-        setError(validationError);
-        return;
+  const handleFiles = useCallback(
+    (fileList: FileList) => {
+      const files = multiple ? Array.from(fileList) : [fileList[0]];
+      for (const file of files) {
+        const validationError = validateFile(file);
+        if (validationError) {
+          setError(files.length > 1 ? `${file.name}: ${validationError}` : validationError);
+          return;
+        }
       }
 
       setError(null);
-      onFileDrop(file);
+      if (files.length > 1 && onFilesDrop) {
+        onFilesDrop(files);
+      } else {
+        onFileDrop(files[0]);
+      }
     },
-    [validateFile, onFileDrop]
+    [multiple, validateFile, onFileDrop, onFilesDrop]
   );
 
   const handleDragOver = useCallback(
@@ -80,10 +92,10 @@ export function DropZone({
 
       const files = e.dataTransfer.files;
       if (files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
     },
-    [disabled, handleFile]
+    [disabled, handleFiles]
   );
 
   const handleClick = useCallback(() => {
@@ -96,12 +108,12 @@ export function DropZone({
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
       // Reset input so the same file can be selected again
       e.target.value = '';
     },
-    [handleFile]
+    [handleFiles]
   );
 
   return (
@@ -119,6 +131,7 @@ export function DropZone({
         ref={inputRef}
         type="file"
         accept={accept.join(',')}
+        multiple={multiple}
         onChange={handleInputChange}
         className="drop-zone__input"
         disabled={disabled}
@@ -127,13 +140,16 @@ export function DropZone({
       <div className="drop-zone__content">
         <Upload size={48} className="drop-zone__icon" />
         <h3 className="drop-zone__title">
-          {isDragOver ? 'Drop file here' : 'Drag and drop your RVTools file'}
+          {isDragOver
+            ? (multiple ? 'Drop files here' : 'Drop file here')
+            : (multiple ? 'Drag and drop your RVTools files' : 'Drag and drop your RVTools file')}
         </h3>
         <p className="drop-zone__subtitle">
           or click to browse
         </p>
         <p className="drop-zone__hint">
           Accepts {accept.join(', ')} files up to {maxSizeMB}MB
+          {multiple && ' — select one export per vCenter to merge them'}
         </p>
       </div>
 
@@ -5,11 +5,18 @@ import { TrashCan, Restart } from '@carbon/icons-react';
 import { DropZone } from './DropZone';
 import { UploadProgress } from './UploadProgress';
 import { parseRVToolsFile, validateFile, type ParsingProgress } from '@/services/parser/excelParser';
+import { mergeRVToolsData, type RVToolsMergeResult } from '@/services/parser/mergeRVTools';
 import type { RVToolsData } from '@/types';
 import './FileUpload.scss';
 
 interface FileUploadProps {
-  onDataParsed: (data: RVToolsData, file: File, bundledSettings?: Record<string, string>) => void;
+  /** For multi-file uploads, `data` is the merged dataset and `merge` describes the merge */
+  onDataParsed: (
+    data: RVToolsData,
+    file: File,
+    bundledSettings?: Record<string, string>,
+    merge?: RVToolsMergeResult
+  ) => void;
   onError?: (errors: string[]) => void;
 }
 
@@ -62,6 +69,77 @@ export function FileUpload({ onDataParsed, onError }: FileUploadProps) {
     [onDataParsed, onError]
   );
 
+  const handleFilesDrop = useCallback(
+    async (files: File[]) => {
+      for (const file of files) {
+        const validation = validateFile(file);
+        if (!validation.valid) {
+          const message = `${file.name}: ${validation.error || 'Invalid file'}`;
+          setErrors([message]);
+          setState('error');
+          onError?.([message]);
+          return;
+        }
+      }
+
+      setState('processing');
+      setErrors([]);
+      setWarnings([]);
+
+      try {
+        // Parse one export at a time to keep memory use flat on large estates
+        const datasets: RVToolsData[] = [];
+        const fileWarnings: string[] = [];
+        for (const file of files) {
+          setFileName(file.name);
+          const result = await parseRVToolsFile(file, (prog) => {
+            setProgress(prog);
+          });
+
+          if (!result.success || !result.data) {
+            const fileErrors = result.errors.map(error => `${file.name}: ${error}`);
+            setState('error');
+            setErrors(fileErrors);
+            onError?.(fileErrors);
+            return;
+          }
+          datasets.push(result.data);
+          fileWarnings.push(...result.warnings.map(warning => `${file.name}: ${warning}`));
+        }
+
+        const merge = mergeRVToolsData(datasets);
+        if (merge.duplicates.length > 0) {
+          fileWarnings.push(
+            `${merge.duplicates.length} VMs appear in more than one export (matched by UUID); the first copy was kept`
+          );
+        }
+        if (merge.nameCollisions.length > 0) {
+          const examples = merge.nameCollisions.slice(0, 5).join(', ');
+          fileWarnings.push(
+            `${merge.nameCollisions.length} VM names are used by different VMs in more than one vCenter (${examples}${merge.nameCollisions.length > 5 ? ', ...' : ''})`
+          );
+        }
+
+        setFileName(files.map(file => file.name).join(', '));
+        setProgress({
+          phase: 'complete',
+          sheetsProcessed: 0,
+          totalSheets: 0,
+          message: `Merged ${merge.data.vInfo.length} VMs from ${merge.sources.length} vCenters`,
+        });
+        setState('complete');
+        setWarnings(fileWarnings);
+        onDataParsed(merge.data, files[0], undefined, merge);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        setState('error');
+        setErrors([errorMessage]);
+        onError?.([errorMessage]);
+      }
+    },
+    [onDataParsed, onError]
+  );
+
   const handleReset = useCallback(() => {
     setState('idle');
     setFileName('');
@@ -73,7 +151,7 @@ export function FileUpload({ onDataParsed, onError }: FileUploadProps) {
   return (
     <div className="file-upload">
       {state === 'idle' && (
-        <DropZone onFileDrop={handleFileDrop} />
+        <DropZone onFileDrop={handleFileDrop} onFilesDrop={handleFilesDrop} multiple />
       )}
 
       {(state === 'processing' || state === 'complete') && progress && (
@@ -14,6 +14,7 @@ interface DataContextValue extends DataState {
   clearChartFilter: () => void;
   setCalculatedCosts: (costs: CalculatedCosts) => void;
   setOriginalFile: (buffer: ArrayBuffer, fileName: string) => void;
+  setVCenterFilter: (vCenter: string | null) => void;
   clearData: () => void;
   dispatch: React.Dispatch<DataAction>;
 }
@@ -63,6 +64,10 @@ export function DataProvider({ children }: DataProviderProps) {
     dispatch({ type: 'SET_ORIGINAL_FILE', payload: { buffer, fileName } });
   }, []);
 
+  const setVCenterFilter = useCallback((vCenter: string | null) => {
+    dispatch({ type: 'SET_VCENTER_FILTER', payload: vCenter });
+  }, []);
+
   const clearData = useCallback(() => {
     dispatch({ type: 'CLEAR_DATA' });
   }, []);
@@ -77,6 +82,7 @@ export function DataProvider({ children }: DataProviderProps) {
     clearChartFilter,
     setCalculatedCosts,
     setOriginalFile,
+    setVCenterFilter,
     clearData,
     dispatch,
   };
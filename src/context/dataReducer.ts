@@ -12,6 +12,10 @@ export interface ChartFilter {
 export interface CalculatedCosts {
   roksMonthlyCost: number | null;
   rovMonthlyCost: number | null;
+  /** ROKS on VSI workers (containerised workloads, no OpenShift Virtualization) */
+  roksVsiMonthlyCost: number | null;
+  /** OpenShift Virtualization Engine (VM-only entitlement on bare metal) */
+  oveMonthlyCost: number | null;
   vsiMonthlyCost: number | null;
 }
 
@@ -26,6 +30,7 @@ export interface DataState {
   calculatedCosts: CalculatedCosts | null;
   originalFileBuffer: ArrayBuffer | null;
   originalFileName: string | null;
+  vCenterFilter: string | null;  // selected vCenter when several exports are merged
 }
 
 // Action types
@@ -37,6 +42,7 @@ export type DataAction =
   | { type: 'SET_CHART_FILTER'; payload: ChartFilter | null }
   | { type: 'SET_CALCULATED_COSTS'; payload: CalculatedCosts }
   | { type: 'SET_ORIGINAL_FILE'; payload: { buffer: ArrayBuffer; fileName: string } }
+  | { type: 'SET_VCENTER_FILTER'; payload: string | null }
   | { type: 'CLEAR_DATA' };
 
 // Initial state
@@ -50,6 +56,7 @@ export const initialState: DataState = {
   calculatedCosts: null,
   originalFileBuffer: null,
   originalFileName: null,
+  vCenterFilter: null,
 };
 
 // Reducer function
@@ -61,6 +68,10 @@ export function dataReducer(state: DataState, action: DataAction): DataState {
         rawData: action.payload,
         lastUpdated: new Date(),
         error: null,
+        vCenterFilter: null,
+        // New data invalidates the handover source file until it is set again
+        originalFileBuffer: null,
+        originalFileName: null,
       };
 
     case 'SET_ANALYSIS':
@@ -102,6 +113,12 @@ export function dataReducer(state: DataState, action: DataAction): DataState {
         originalFileName: action.payload.fileName,
       };
 
+    case 'SET_VCENTER_FILTER':
+      return {
+        ...state,
+        vCenterFilter: action.payload,
+      };
+
     case 'CLEAR_DATA':
       return initialState;
 
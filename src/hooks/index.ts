@@ -28,6 +28,20 @@ export { useCustomProfiles } from './useCustomProfiles';
 export type { CustomProfile, ProfileOverride, UseCustomProfilesReturn } from './useCustomProfiles';
 export { useCostSettings } from './useCostSettings';
 export type { CostSettings, UseCostSettingsReturn } from './useCostSettings';
+export { useTCOSettings } from './useTCOSettings';
+export type { UseTCOSettingsReturn } from './useTCOSettings';
+export { useCurrencySettings } from './useCurrencySettings';
+export type { UseCurrencySettingsReturn } from './useCurrencySettings';
+export { usePricingSnapshots } from './usePricingSnapshots';
+export type { UsePricingSnapshotsReturn } from './usePricingSnapshots';
+export { useRateCard } from './useRateCard';
+export type { UseRateCardReturn } from './useRateCard';
+export { useROKSWorkerSettings } from './useROKSWorkerSettings';
+export type { ROKSWorkerMode, ROKSWorkerSettings, UseROKSWorkerSettingsReturn } from './useROKSWorkerSettings';
+export { useVMwareRetainSettings } from './useVMwareRetainSettings';
+export type { UseVMwareRetainSettingsReturn } from './useVMwareRetainSettings';
+export { usePerformanceMetrics } from './usePerformanceMetrics';
+export type { PerformanceMetricsSettings, UsePerformanceMetricsReturn } from './usePerformanceMetrics';
 export { useSizingCalculator } from './useSizingCalculator';
 export type { BareMetalProfile, NodeCapacity, NodeRequirements, RedundancyValidation, VMFitValidation, ProfileItem, UseSizingCalculatorReturn } from './useSizingCalculator';
 
@@ -44,8 +58,12 @@ export { useAIInsights } from './useAIInsights';
 export type { UseAIInsightsReturn } from './useAIInsights';
 export { useAIChat } from './useAIChat';
 export type { UseAIChatReturn } from './useAIChat';
+export { useChatActions } from './useChatActions';
+export type { UseChatActionsReturn } from './useChatActions';
 export { useAIWaveSuggestions } from './useAIWaveSuggestions';
 export type { UseAIWaveSuggestionsReturn } from './useAIWaveSuggestions';
+export { useAIWaveSequencing } from './useAIWaveSequencing';
+export type { UseAIWaveSequencingReturn } from './useAIWaveSequencing';
 export { useAICostOptimization } from './useAICostOptimization';
 export type { UseAICostOptimizationReturn } from './useAICostOptimization';
 export { useAIRemediation } from './useAIRemediation';
@@ -64,6 +82,10 @@ export { usePreflightChecks } from './usePreflightChecks';
 export type { UsePreflightChecksConfig, UsePreflightChecksReturn } from './usePreflightChecks';
 
 export { useVSIPageData } from './useVSIPageData';
+export { useVSIStorageSettings } from './useVSIStorageSettings';
+export type { UseVSIStorageSettingsReturn } from './useVSIStorageSettings';
+export { useMTVMappings } from './useMTVMappings';
+export type { MTVMappings, UseMTVMappingsReturn } from './useMTVMappings';
 
 // Platform selection
 export { usePlatformSelection } from './usePlatformSelection';
@@ -4,6 +4,7 @@ import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIAnomalyAnalysis, clearAnomalyCache } from '@/services/ai/aiAnomalyApi';
 import { buildAnomalyInput } from '@/services/ai/anomalyInputBuilder';
+import { buildRuleBasedAnomalies } from '@/services/ai/ruleBasedFallbacks';
 import type { AnomalyResult } from '@/services/ai/types';
 import type { RVToolsData } from '@/types';
 import { useAISettings } from './useAISettings';
@@ -29,7 +30,7 @@ export function useAIAnomalyDetection(): UseAIAnomalyDetectionReturn {
   const isAvailable = isAIProxyConfigured() && settings.enabled;
 
   const doFetch = useCallback(async (rawData: RVToolsData, environmentHash: string) => {
-    if (!isAvailable || fetchingRef.current) return;
+    if (fetchingRef.current) return;
 
     fetchingRef.current = true;
     setIsLoading(true);
@@ -43,8 +44,8 @@ export function useAIAnomalyDetection(): UseAIAnomalyDetectionReturn {
         return;
       }
 
-      const result = await fetchAIAnomalyAnalysis(input, environmentHash);
-      setAnomalies(result?.anomalies || []);
+      const result = isAvailable ? await fetchAIAnomalyAnalysis(input, environmentHash) : null;
+      setAnomalies((result ?? buildRuleBasedAnomalies(input)).anomalies);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Anomaly detection failed');
     } finally {
@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useAIChat } from './useAIChat';
+import { streamFromProxy } from '@/services/ai/aiStreamClient';
+import type { StreamCallbacks } from '@/services/ai/types';
 
 // Mock dependencies
 vi.mock('@/services/ai/aiProxyClient', () => ({
@@ -91,4 +93,102 @@ describe('useAIChat', () => {
 
     expect(result.current.suggestedFollowUps).toEqual(['Follow up 1']);
   });
+
+  it('attaches requested tool calls and sends only approved results back', () => {
+    const streams: StreamCallbacks[] = [];
+    vi.mocked(streamFromProxy).mockImplementation((_endpoint, _body, callbacks) => {
+      streams.push(callbacks);
+      return new AbortController();
+    });
+    const { result } = renderHook(() => useAIChat());
+
+    act(() => {
+      result.current.sendUserMessageStreaming('How many VMs use RDM disks?');
+    });
+    act(() => {
+      streams[0].onChunk('Let me check the disks.');
+      streams[0].onEvent?.('actions', {
+        toolCalls: [
+          { id: 't1', tool: 'filterVMs', args: { hasRDM: true } },
+          { id: 't2', tool: 'countVMsBy', args: { attribute: 'cluster' } },
+        ],
+      });
+      streams[0].onDone('Let me check the disks.');
+    });
+
+    const assistant = result.current.messages[1];
+    expect(assistant.toolCalls?.map(c => c.status)).toEqual(['pending', 'pending']);
+
+    act(() => {
+      result.current.approveToolCall(assistant.id, 't1', { matched: 3 });
+    });
+    // Still waiting on the second call
+    expect(streamFromProxy).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      result.current.declineToolCall(assistant.id, 't2');
+    });
+
+    expect(streamFromProxy).toHaveBeenCalledTimes(2);
+    const body = vi.mocked(streamFromProxy).mock.calls[1][1] as { toolResults: unknown[] };
+    expect(body.toolResults).toEqual([
+      { tool: 'filterVMs', args: { hasRDM: true }, result: { matched: 3 } },
+      { tool: 'countVMsBy', args: { attribute: 'cluster' }, result: null, withheld: true },
+    ]);
+    expect(result.current.messages).toHaveLength(3);
+    expect(result.current.messages[1].toolCalls?.map(c => c.status)).toEqual(['approved', 'declined']);
+  });
+
+  it('still asks for an answer when every tool call is declined', () => {
+    const streams: StreamCallbacks[] = [];
+    vi.mocked(streamFromProxy).mockImplementation((_endpoint, _body, callbacks) => {
+      streams.push(callbacks);
+      return new AbortController();
+    });
+    const { result } = renderHook(() => useAIChat());
+
+    act(() => {
+      result.current.sendUserMessageStreaming('Show wave 2');
+    });
+    act(() => {
+      streams[0].onEvent?.('actions', { toolCalls: [{ id: 't1', tool: 'getWaveContents', args: { wave: 2 } }] });
+      streams[0].onDone('');
+    });
+    act(() => {
+      result.current.declineToolCall(result.current.messages[1].id, 't1');
+    });
+
+    expect(streamFromProxy).toHaveBeenCalledTimes(2);
+    const body = vi.mocked(streamFromProxy).mock.calls[1][1] as { toolResults: unknown[] };
+    expect(body.toolResults).toEqual([{ tool: 'getWaveContents', args: { wave: 2 }, result: null, withheld: true }]);
+    expect(result.current.messages[1].toolCalls?.[0].status).toBe('declined');
+  });
+
+  it('attaches suggested plan changes and records their status', () => {
+    const streams: StreamCallbacks[] = [];
+    vi.mocked(streamFromProxy).mockImplementation((_endpoint, _body, callbacks) => {
+      streams.push(callbacks);
+      return new AbortController();
+    });
+    const { result } = renderHook(() => useAIChat());
+
+    act(() => {
+      result.current.sendUserMessageStreaming('Exclude the test VMs');
+    });
+    act(() => {
+      streams[0].onEvent?.('actions', {
+        suggestions: [{ reason: 'Test VMs are out of scope', action: { type: 'excludeVMs', vmNames: ['test-01'] } }],
+      });
+      streams[0].onDone('');
+    });
+
+    const assistant = result.current.messages[1];
+    expect(assistant.suggestions).toHaveLength(1);
+    expect(assistant.suggestions?.[0].status).toBe('pending');
+
+    act(() => {
+      result.current.setSuggestionStatus(assistant.id, assistant.suggestions![0].id, 'applied', 'Excluded 1 VM');
+    });
+    expect(result.current.messages[1].suggestions?.[0]).toMatchObject({ status: 'applied', outcome: 'Excluded 1 VM' });
+  });
 });
@@ -9,7 +9,14 @@ import {
   setCachedChatHistory,
   clearChatHistory,
 } from '@/services/ai/aiChatCache';
-import type { ChatMessage, ChatContext } from '@/services/ai/types';
+import type {
+  ChatMessage,
+  ChatContext,
+  ChatRequest,
+  ChatToolCall,
+  ChatSuggestion,
+  ChatSuggestionStatus,
+} from '@/services/ai/types';
 import { useAISettings } from './useAISettings';
 
 export interface UseAIChatReturn {
@@ -20,6 +27,10 @@ export interface UseAIChatReturn {
   suggestedFollowUps: string[];
   sendUserMessage: (message: string, context?: ChatContext) => Promise<void>;
   sendUserMessageStreaming: (message: string, context?: ChatContext) => void;
+  approveToolCall: (messageId: string, callId: string, result: unknown, context?: ChatContext) => void;
+  declineToolCall: (messageId: string, callId: string, context?: ChatContext) => void;
+  /** Record what the user did with a proposed action (apply, dismiss, undo) */
+  setSuggestionStatus: (messageId: string, suggestionId: string, status: ChatSuggestionStatus, outcome?: string) => void;
   stopStreaming: () => void;
   clearConversation: () => void;
   loadHistory: (environmentFingerprint: string) => void;
@@ -108,17 +119,8 @@ export function useAIChat(): UseAIChatReturn {
     }
   }, [isAvailable, messages, persistMessages]);
 
-  /** Streaming send — text appears progressively */
-  const sendUserMessageStreaming = useCallback((message: string, context?: ChatContext) => {
-    if (!isAvailable || isStreaming) return;
-
-    const userMessage: ChatMessage = {
-      id: createMessageId(),
-      role: 'user',
-      content: message,
-      timestamp: Date.now(),
-    };
-
+  /** Stream an assistant reply into a new message appended after `priorMessages` */
+  const streamAssistantReply = useCallback((request: ChatRequest, priorMessages: ChatMessage[]) => {
     const assistantMsgId = createMessageId();
     const assistantMessage: ChatMessage = {
       id: assistantMsgId,
@@ -127,17 +129,13 @@ export function useAIChat(): UseAIChatReturn {
       timestamp: Date.now(),
     };
 
-    setMessages(prev => [...prev, userMessage, assistantMessage]);
+    setMessages([...priorMessages, assistantMessage]);
     setIsStreaming(true);
     setError(null);
 
-    const history = [...messages, userMessage]
-      .slice(-20)
-      .map(m => ({ role: m.role, content: m.content }));
-
     abortRef.current = streamFromProxy(
       '/api/chat/stream',
-      { message, conversationHistory: history, context },
+      request,
       {
         onChunk: (text) => {
           setMessages(prev =>
@@ -148,6 +146,29 @@ export function useAIChat(): UseAIChatReturn {
             )
           );
         },
+        onEvent: (event, data) => {
+          if (event !== 'actions' || !data) return;
+          const { toolCalls, suggestions } = data as {
+            toolCalls?: ChatToolCall[];
+            suggestions?: Array<Omit<ChatSuggestion, 'status'>>;
+          };
+          if (!toolCalls?.length && !suggestions?.length) return;
+          setMessages(prev =>
+            prev.map(m =>
+              m.id === assistantMsgId
+                ? {
+                    ...m,
+                    ...(toolCalls?.length && {
+                      toolCalls: toolCalls.map(call => ({ ...call, status: 'pending' as const })),
+                    }),
+                    ...(suggestions?.length && {
+                      suggestions: suggestions.map(s => ({ ...s, status: 'pending' as const })),
+                    }),
+                  }
+                : m
+            )
+          );
+        },
         onDone: () => {
           setIsStreaming(false);
           abortRef.current = null;
@@ -164,7 +185,96 @@ export function useAIChat(): UseAIChatReturn {
         },
       }
     );
-  }, [isAvailable, isStreaming, messages, persistMessages]);
+  }, [persistMessages]);
+
+  /** Streaming send — text appears progressively */
+  const sendUserMessageStreaming = useCallback((message: string, context?: ChatContext) => {
+    if (!isAvailable || isStreaming) return;
+
+    const userMessage: ChatMessage = {
+      id: createMessageId(),
+      role: 'user',
+      content: message,
+      timestamp: Date.now(),
+    };
+
+    const history = [...messages, userMessage]
+      .slice(-20)
+      .map(m => ({ role: m.role, content: m.content }));
+
+    streamAssistantReply(
+      { message, conversationHistory: history, context },
+      [...messages, userMessage]
+    );
+  }, [isAvailable, isStreaming, messages, streamAssistantReply]);
+
+  /**
+   * Record the user's decision on one tool call. Once every call on the message
+   * is decided, the approved results are sent back for the answer, with declined
+   * calls marked as withheld so the model can say what it could not check.
+   */
+  const resolveToolCall = useCallback((
+    messageId: string,
+    callId: string,
+    decision: { status: 'approved'; result: unknown } | { status: 'declined' },
+    context?: ChatContext
+  ) => {
+    const target = messages.find(m => m.id === messageId);
+    if (!target?.toolCalls || isStreaming) return;
+
+    const toolCalls = target.toolCalls.map(c => (c.id === callId ? { ...c, ...decision } : c));
+    const updated = messages.map(m => (m.id === messageId ? { ...m, toolCalls } : m));
+    setMessages(updated);
+    persistMessages(updated);
+
+    if (toolCalls.some(c => c.status === 'pending')) return;
+
+    const history = updated
+      .slice(-20)
+      .map(m => ({ role: m.role, content: m.content }));
+
+    streamAssistantReply(
+      {
+        message: '',
+        conversationHistory: history,
+        context,
+        toolResults: toolCalls.map(c => (c.status === 'approved'
+          ? { tool: c.tool, args: c.args, result: c.result }
+          : { tool: c.tool, args: c.args, result: null, withheld: true })),
+      },
+      updated
+    );
+  }, [messages, isStreaming, persistMessages, streamAssistantReply]);
+
+  const approveToolCall = useCallback((messageId: string, callId: string, result: unknown, context?: ChatContext) => {
+    resolveToolCall(messageId, callId, { status: 'approved', result }, context);
+  }, [resolveToolCall]);
+
+  const declineToolCall = useCallback((messageId: string, callId: string, context?: ChatContext) => {
+    resolveToolCall(messageId, callId, { status: 'declined' }, context);
+  }, [resolveToolCall]);
+
+  const setSuggestionStatus = useCallback((
+    messageId: string,
+    suggestionId: string,
+    status: ChatSuggestionStatus,
+    outcome?: string
+  ) => {
+    setMessages(prev => {
+      const updated = prev.map(m =>
+        m.id === messageId && m.suggestions
+          ? {
+              ...m,
+              suggestions: m.suggestions.map(s =>
+                s.id === suggestionId ? { ...s, status, outcome: outcome ?? s.outcome } : s
+              ),
+            }
+          : m
+      );
+      persistMessages(updated);
+      return updated;
+    });
+  }, [persistMessages]);
 
   /** Stop active streaming */
   const stopStreaming = useCallback(() => {
@@ -191,6 +301,9 @@ export function useAIChat(): UseAIChatReturn {
     suggestedFollowUps,
     sendUserMessage,
     sendUserMessageStreaming,
+    approveToolCall,
+    declineToolCall,
+    setSuggestionStatus,
     stopStreaming,
     clearConversation,
     loadHistory,
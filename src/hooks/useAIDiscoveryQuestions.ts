@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIDiscoveryQuestions } from '@/services/ai/aiDiscoveryQuestionsApi';
+import { buildRuleBasedDiscoveryQuestions } from '@/services/ai/ruleBasedFallbacks';
 import type { DiscoveryQuestionsInput, DiscoveryQuestionsResult } from '@/services/ai/types';
 import { useAISettings } from './useAISettings';
 
@@ -24,7 +25,11 @@ export function useAIDiscoveryQuestions(): UseAIDiscoveryQuestionsReturn {
   const isAvailable = isAIProxyConfigured() && settings.enabled;
 
   const doFetch = useCallback(async (input: DiscoveryQuestionsInput) => {
-    if (!isAvailable || fetchingRef.current) return;
+    if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setQuestions(buildRuleBasedDiscoveryQuestions(input));
+      return;
+    }
 
     fetchingRef.current = true;
     setIsLoading(true);
@@ -32,7 +37,7 @@ export function useAIDiscoveryQuestions(): UseAIDiscoveryQuestionsReturn {
 
     try {
       const result = await fetchAIDiscoveryQuestions(input);
-      setQuestions(result);
+      setQuestions(result ?? buildRuleBasedDiscoveryQuestions(input));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Discovery questions failed');
     } finally {
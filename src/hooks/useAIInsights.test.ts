@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useAIInsights } from './useAIInsights';
+import { fetchAIInsights } from '@/services/ai/aiInsightsApi';
+import { useAISettings } from './useAISettings';
 import type { InsightsInput } from '@/services/ai/types';
 
 vi.mock('@/services/ai/aiProxyClient', () => ({
@@ -89,4 +91,33 @@ describe('useAIInsights', () => {
 
     expect(result.current.insights).toBeNull();
   });
+
+  it('falls back to rule-based insights when the AI call fails', async () => {
+    vi.mocked(fetchAIInsights).mockResolvedValueOnce(null);
+    const { result } = renderHook(() => useAIInsights());
+
+    await act(async () => {
+      await result.current.fetchInsights(mockData);
+    });
+
+    expect(result.current.insights?.source).toBe('rule-based');
+    expect(result.current.insights?.executiveSummary).toContain('100 VMs');
+  });
+
+  it('builds rule-based insights without calling the proxy when AI is disabled', async () => {
+    vi.mocked(useAISettings).mockReturnValue({
+      settings: { enabled: false, consentGiven: false },
+      updateSettings: vi.fn(),
+      resetSettings: vi.fn(),
+    } as unknown as ReturnType<typeof useAISettings>);
+    const { result } = renderHook(() => useAIInsights());
+
+    await act(async () => {
+      await result.current.fetchInsights(mockData);
+    });
+
+    expect(fetchAIInsights).not.toHaveBeenCalled();
+    expect(result.current.isAvailable).toBe(false);
+    expect(result.current.insights?.source).toBe('rule-based');
+  });
 });
@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIInsights } from '@/services/ai/aiInsightsApi';
+import { buildRuleBasedInsights } from '@/services/ai/ruleBasedFallbacks';
 import {
   getCachedInsights,
   setCachedInsights,
@@ -19,6 +20,7 @@ export interface UseAIInsightsReturn {
   fetchInsights: (data: InsightsInput) => Promise<void>;
   refreshInsights: (data: InsightsInput) => Promise<void>;
   clearInsights: () => void;
+  /** AI is configured and enabled; otherwise insights are rule-based */
   isAvailable: boolean;
 }
 
@@ -35,8 +37,11 @@ export function useAIInsights(): UseAIInsightsReturn {
   const skipCacheRef = useRef(false);
 
   const doFetchInsights = useCallback(async (data: InsightsInput) => {
-    if (!isAvailable) return;
     if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setInsights(buildRuleBasedInsights(data));
+      return;
+    }
 
     const shouldSkipCache = skipCacheRef.current;
     skipCacheRef.current = false;
@@ -66,9 +71,9 @@ export function useAIInsights(): UseAIInsightsReturn {
       const result = await fetchAIInsights(data, {
         skipCache: shouldSkipCache,
       });
-      setInsights(result);
+      setInsights(result ?? buildRuleBasedInsights(data));
 
-      // Cache valid results
+      // Cache valid AI results
       if (result) {
         setCachedInsights(result, inputHash);
       }
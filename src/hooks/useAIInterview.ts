@@ -75,6 +75,7 @@ export function useAIInterview(): UseAIInterviewReturn {
         topic: currentQuestion.topic,
         insights: result?.insightsFromAnswer || [],
         timestamp: Date.now(),
+        ...(result?.provenance && { provenance: result.provenance }),
       };
 
       const updatedAnswers = [...answers, newAnswer];
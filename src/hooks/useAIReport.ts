@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIReportNarrative } from '@/services/ai/aiReportApi';
+import { buildRuleBasedReportNarrative } from '@/services/ai/ruleBasedFallbacks';
 import type { ReportInput, ReportNarrativeResult } from '@/services/ai/types';
 import { useAISettings } from './useAISettings';
 
@@ -24,7 +25,11 @@ export function useAIReport(): UseAIReportReturn {
   const isAvailable = isAIProxyConfigured() && settings.enabled;
 
   const doFetch = useCallback(async (input: ReportInput) => {
-    if (!isAvailable || fetchingRef.current) return;
+    if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setNarrative(buildRuleBasedReportNarrative(input));
+      return;
+    }
 
     fetchingRef.current = true;
     setIsLoading(true);
@@ -32,7 +37,7 @@ export function useAIReport(): UseAIReportReturn {
 
     try {
       const result = await fetchAIReportNarrative(input);
-      setNarrative(result);
+      setNarrative(result ?? buildRuleBasedReportNarrative(input));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Report generation failed');
     } finally {
@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIRiskAnalysis } from '@/services/ai/aiRiskAnalysisApi';
+import { buildRuleBasedRiskAnalysis } from '@/services/ai/ruleBasedFallbacks';
 import type { RiskAnalysisInput, RiskAnalysisResult } from '@/services/ai/types';
 import { useAISettings } from './useAISettings';
 
@@ -24,7 +25,11 @@ export function useAIRiskAnalysis(): UseAIRiskAnalysisReturn {
   const isAvailable = isAIProxyConfigured() && settings.enabled;
 
   const doFetch = useCallback(async (input: RiskAnalysisInput) => {
-    if (!isAvailable || fetchingRef.current) return;
+    if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setRiskAnalysis(buildRuleBasedRiskAnalysis(input));
+      return;
+    }
 
     fetchingRef.current = true;
     setIsLoading(true);
@@ -32,7 +37,7 @@ export function useAIRiskAnalysis(): UseAIRiskAnalysisReturn {
 
     try {
       const result = await fetchAIRiskAnalysis(input);
-      setRiskAnalysis(result);
+      setRiskAnalysis(result ?? buildRuleBasedRiskAnalysis(input));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Risk analysis failed');
     } finally {
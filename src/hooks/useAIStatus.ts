@@ -3,10 +3,15 @@
 import { useState, useCallback } from 'react';
 import { isAIProxyConfigured, testAIProxyConnection } from '@/services/ai/aiProxyClient';
 import { useAISettings } from './useAISettings';
+import type { AIProviderName } from '@/services/ai/types';
 
 export interface AIProxyHealth {
   success: boolean;
   error?: string;
+  /** Active LLM backend reported by the proxy's /health endpoint */
+  provider?: AIProviderName;
+  providerLabel?: string;
+  model?: string;
 }
 
 export interface UseAIStatusReturn {
@@ -38,7 +43,13 @@ export function useAIStatus(): UseAIStatusReturn {
     try {
       const result = await testAIProxyConnection();
       if (!result.cancelled) {
-        setProxyHealth({ success: result.success, error: result.error });
+        setProxyHealth({
+          success: result.success,
+          error: result.error,
+          provider: result.provider,
+          providerLabel: result.providerLabel,
+          model: result.model,
+        });
       }
     } finally {
       setIsTestingProxy(false);
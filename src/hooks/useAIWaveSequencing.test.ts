@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useAIWaveSequencing } from './useAIWaveSequencing';
+import { fetchAIWaveSequencing } from '@/services/ai/aiWaveSequencingApi';
+import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
+import type { WaveSequencingInput } from '@/services/ai/types';
+
+vi.mock('@/services/ai/aiProxyClient', () => ({
+  isAIProxyConfigured: vi.fn(() => true),
+}));
+
+vi.mock('@/services/ai/aiWaveSequencingApi', () => ({
+  fetchAIWaveSequencing: vi.fn(() =>
+    Promise.resolve({
+      suggestedOrder: ['Wave 2', 'Wave 1'],
+      dependencies: [],
+      riskSchedule: [],
+      vmMoveRecommendations: [],
+      source: 'watsonx' as const,
+    })
+  ),
+}));
+
+vi.mock('./useAISettings', () => ({
+  useAISettings: vi.fn(() => ({
+    settings: { enabled: true, consentGiven: true },
+    updateSettings: vi.fn(),
+    resetSettings: vi.fn(),
+  })),
+}));
+
+const input: WaveSequencingInput = {
+  waves: [
+    { name: 'Wave 1', vmCount: 10, totalVCPUs: 40, totalMemoryGiB: 160, workloadTypes: ['databases'] },
+    { name: 'Wave 2', vmCount: 10, totalVCPUs: 20, totalMemoryGiB: 80, workloadTypes: ['web'] },
+  ],
+  totalVMs: 20,
+  migrationTarget: 'roks',
+};
+
+describe('useAIWaveSequencing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uses the AI sequencing when available', async () => {
+    const { result } = renderHook(() => useAIWaveSequencing());
+
+    await act(async () => {
+      await result.current.fetchSequencing(input);
+    });
+
+    expect(fetchAIWaveSequencing).toHaveBeenCalledWith(input);
+    expect(result.current.sequencing?.source).toBe('watsonx');
+  });
+
+  it('falls back to rule-based sequencing when the AI call returns nothing', async () => {
+    vi.mocked(fetchAIWaveSequencing).mockResolvedValueOnce(null);
+    const { result } = renderHook(() => useAIWaveSequencing());
+
+    await act(async () => {
+      await result.current.fetchSequencing(input);
+    });
+
+    expect(result.current.sequencing?.source).toBe('rule-based');
+    expect(result.current.sequencing?.suggestedOrder).toEqual(['Wave 2', 'Wave 1']);
+  });
+
+  it('uses rule-based sequencing without calling the proxy when AI is not configured', async () => {
+    vi.mocked(isAIProxyConfigured).mockReturnValue(false);
+    const { result } = renderHook(() => useAIWaveSequencing());
+
+    await act(async () => {
+      await result.current.fetchSequencing(input);
+    });
+
+    expect(fetchAIWaveSequencing).not.toHaveBeenCalled();
+    expect(result.current.sequencing?.source).toBe('rule-based');
+    expect(result.current.isAvailable).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+// AI Wave Sequencing hook
+
+import { useState, useCallback, useRef } from 'react';
+import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
+import { fetchAIWaveSequencing } from '@/services/ai/aiWaveSequencingApi';
+import { buildRuleBasedWaveSequencing } from '@/services/ai/ruleBasedFallbacks';
+import type { WaveSequencingInput, WaveSequencingResult } from '@/services/ai/types';
+import { useAISettings } from './useAISettings';
+
+export interface UseAIWaveSequencingReturn {
+  sequencing: WaveSequencingResult | null;
+  isLoading: boolean;
+  error: string | null;
+  fetchSequencing: (input: WaveSequencingInput) => Promise<void>;
+  clearSequencing: () => void;
+  isAvailable: boolean;
+}
+
+/**
+ * Hook for AI wave ordering, dependencies and risk schedule, with a rule-based
+ * fallback when AI is unavailable or the request fails
+ */
+export function useAIWaveSequencing(): UseAIWaveSequencingReturn {
+  const { settings } = useAISettings();
+  const [sequencing, setSequencing] = useState<WaveSequencingResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fetchingRef = useRef(false);
+  const isAvailable = isAIProxyConfigured() && settings.enabled;
+
+  const doFetch = useCallback(async (input: WaveSequencingInput) => {
+    if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setSequencing(buildRuleBasedWaveSequencing(input));
+      return;
+    }
+
+    fetchingRef.current = true;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchAIWaveSequencing(input);
+      setSequencing(result ?? buildRuleBasedWaveSequencing(input));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Wave sequencing failed');
+    } finally {
+      setIsLoading(false);
+      fetchingRef.current = false;
+    }
+  }, [isAvailable]);
+
+  const clearSequencing = useCallback(() => {
+    setSequencing(null);
+    setError(null);
+  }, []);
+
+  return {
+    sequencing,
+    isLoading,
+    error,
+    fetchSequencing: doFetch,
+    clearSequencing,
+    isAvailable,
+  };
+}
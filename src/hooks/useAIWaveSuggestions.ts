@@ -3,6 +3,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchWaveSuggestions } from '@/services/ai/aiWaveSuggestionsApi';
+import { buildRuleBasedWaveSuggestions } from '@/services/ai/ruleBasedFallbacks';
 import type { WaveSuggestionInput, WaveSuggestionResult } from '@/services/ai/types';
 import { useAISettings } from './useAISettings';
 
@@ -27,8 +28,11 @@ export function useAIWaveSuggestions(): UseAIWaveSuggestionsReturn {
   const fetchingRef = useRef(false);
 
   const doFetchSuggestions = useCallback(async (data: WaveSuggestionInput) => {
-    if (!isAvailable) return;
     if (fetchingRef.current) return;
+    if (!isAvailable) {
+      setSuggestions(buildRuleBasedWaveSuggestions(data));
+      return;
+    }
 
     fetchingRef.current = true;
     setIsLoading(true);
@@ -36,7 +40,7 @@ export function useAIWaveSuggestions(): UseAIWaveSuggestionsReturn {
 
     try {
       const result = await fetchWaveSuggestions(data);
-      setSuggestions(result);
+      setSuggestions(result ?? buildRuleBasedWaveSuggestions(data));
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Wave suggestions failed';
       setError(message);
@@ -0,0 +1,192 @@
+// Chat actions hook - applies plan changes proposed by the chat assistant
+// Each action goes through the hook that owns the state (VM overrides, risk
+// table, target assignments, wave plan, sizing settings). Applied actions keep
+// an undo entry for the rest of the session.
+
+import { useCallback, useMemo, useState } from 'react';
+import { useData } from './useData';
+import { useVMOverrides } from './useVMOverrides';
+import { useRiskAssessment } from './useRiskAssessment';
+import { useTargetAssignments } from './useTargetAssignments';
+import { loadEditedWavePlan, saveEditedWavePlan } from './useWavePlanning';
+import { getStoredOvercommit, setStoredOvercommit } from './useSizingCalculator';
+import { resolveActionVMs } from '@/services/ai/chatActions';
+import { resolveChatWavePlan } from '@/services/ai/chatTools';
+import { getWavePlanKey, moveVMsToWave, returnVMsToWaves, toEditableWaves } from '@/services/migration/wavePlanEditing';
+import { getVMIdentifier, getEnvironmentFingerprint } from '@/utils/vmIdentifier';
+import type { ChatAction } from '@/services/ai/types';
+import type { VirtualMachine } from '@/types/rvtools';
+
+export interface UseChatActionsReturn {
+  /**
+   * Apply an accepted action and record its undo entry under `suggestionId`.
+   * Returns a short outcome, e.g. "Excluded 3 VMs". Throws when nothing matches.
+   */
+  applyAction: (suggestionId: string, action: ChatAction) => string;
+  undoAction: (suggestionId: string) => void;
+  canUndo: (suggestionId: string) => boolean;
+}
+
+const plural = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+/**
+ * Hook for applying chat assistant actions to the migration plan
+ */
+export function useChatActions(): UseChatActionsReturn {
+  const { rawData } = useData();
+  const vmOverrides = useVMOverrides();
+  const { addUserRow, removeRow } = useRiskAssessment();
+  const { assignments, overriddenVmIds, overrideTarget, resetOverride } = useTargetAssignments();
+  const [undoEntries, setUndoEntries] = useState<Map<string, () => void>>(() => new Map());
+
+  const vms = useMemo(() => (rawData?.vInfo ?? []).filter(vm => !vm.template), [rawData]);
+
+  const targetVMs = useCallback((action: ChatAction): VirtualMachine[] => {
+    const matched = resolveActionVMs(action, vms) ?? [];
+    if (matched.length === 0) {
+      throw new Error('None of the VMs in this action were found in the loaded data');
+    }
+    return matched;
+  }, [vms]);
+
+  const apply = useCallback((action: ChatAction): { outcome: string; undo: () => void } => {
+    switch (action.type) {
+      case 'excludeCluster':
+      case 'excludeByResourcePoolPattern':
+      case 'excludeByVMNamePattern':
+      case 'excludeVM':
+      case 'excludeVMs': {
+        const refs = targetVMs(action).map(vm => ({ vmId: getVMIdentifier(vm), vmName: vm.vmName }));
+        const previous = refs.map(r => ({
+          ...r,
+          excluded: vmOverrides.isExcluded(r.vmId),
+          forceIncluded: vmOverrides.isForceIncluded(r.vmId),
+        }));
+        vmOverrides.bulkSetExcluded(refs, true);
+        vmOverrides.bulkSetForceIncluded(refs, false);
+        return {
+          outcome: `Excluded ${plural(refs.length, 'VM')}`,
+          undo: () => {
+            for (const p of previous) {
+              vmOverrides.setExcluded(p.vmId, p.vmName, p.excluded);
+              vmOverrides.setForceIncluded(p.vmId, p.vmName, p.forceIncluded);
+            }
+          },
+        };
+      }
+
+      case 'forceIncludeVM': {
+        const refs = targetVMs(action).map(vm => ({ vmId: getVMIdentifier(vm), vmName: vm.vmName }));
+        const previous = refs.map(r => ({ ...r, forceIncluded: vmOverrides.isForceIncluded(r.vmId) }));
+        vmOverrides.bulkSetForceIncluded(refs, true);
+        return {
+          outcome: `Included ${plural(refs.length, 'VM')}`,
+          undo: () => {
+            for (const p of previous) vmOverrides.setForceIncluded(p.vmId, p.vmName, p.forceIncluded);
+          },
+        };
+      }
+
+      case 'setWorkloadType': {
+        const refs = targetVMs(action).map(vm => ({ vmId: getVMIdentifier(vm), vmName: vm.vmName }));
+        const previous = refs.map(r => ({ ...r, workloadType: vmOverrides.getWorkloadType(r.vmId) }));
+        vmOverrides.bulkSetWorkloadType(refs, action.workloadType);
+        return {
+          outcome: `Set workload type on ${plural(refs.length, 'VM')}`,
+          undo: () => {
+            for (const p of previous) vmOverrides.setWorkloadType(p.vmId, p.vmName, p.workloadType);
+          },
+        };
+      }
+
+      case 'setTargetPlatform': {
+        const vmIds = targetVMs(action).map(vm => getVMIdentifier(vm));
+        const previous = vmIds.map(vmId => ({
+          vmId,
+          target: overriddenVmIds.has(vmId) ? assignments.find(a => a.vmId === vmId)?.target : undefined,
+        }));
+        for (const vmId of vmIds) overrideTarget(vmId, action.target);
+        return {
+          outcome: `Retargeted ${plural(vmIds.length, 'VM')}`,
+          undo: () => {
+            for (const p of previous) {
+              if (p.target) overrideTarget(p.vmId, p.target);
+              else resetOverride(p.vmId);
+            }
+          },
+        };
+      }
+
+      case 'moveVMsToWave': {
+        if (!rawData) throw new Error('No RVTools data loaded');
+        const { preference, waves } = resolveChatWavePlan(rawData);
+        const plan = preference.editedWaves?.roks ?? toEditableWaves(waves);
+        const wave = plan[action.wave - 1];
+        if (!wave) throw new Error(`The wave plan has no wave ${action.wave}`);
+
+        const planned = new Set(plan.flatMap(w => w.vmNames));
+        const names = targetVMs(action).map(vm => vm.vmName).filter(name => planned.has(name));
+        if (names.length === 0) throw new Error('None of these VMs are in the wave plan');
+        const moved = moveVMsToWave(plan, names, wave.id);
+        if (moved === plan) throw new Error(`${wave.name} or these VMs are locked`);
+        // VMs already in the wave or held by a locked wave did not move
+        const movedNames = names.filter(name =>
+          !wave.vmNames.includes(name) && moved.some(w => w.id === wave.id && w.vmNames.includes(name)));
+
+        const fingerprint = getEnvironmentFingerprint(rawData);
+        const planKey = getWavePlanKey('roks', preference.wavePlanningMode, preference.networkGroupBy);
+        saveEditedWavePlan(fingerprint, planKey, moved);
+        return {
+          outcome: `Moved ${plural(movedNames.length, 'VM')} to ${wave.name}`,
+          // Move only these VMs back, keeping edits made since
+          undo: () => {
+            const current = loadEditedWavePlan(fingerprint, planKey);
+            if (current) saveEditedWavePlan(fingerprint, planKey, returnVMsToWaves(current, plan, movedNames));
+          },
+        };
+      }
+
+      case 'addRisk': {
+        const rowId = addUserRow({
+          category: action.category,
+          description: action.description,
+          impactArea: action.impactArea,
+          status: action.status,
+          mitigationPlan: action.mitigationPlan,
+          evidenceDetail: 'Added from AI chat',
+        });
+        return { outcome: 'Added to the risk register', undo: () => removeRow(rowId) };
+      }
+
+      case 'setOvercommit': {
+        const previous = getStoredOvercommit();
+        setStoredOvercommit({
+          ...(action.cpuOvercommit !== undefined && { cpuOvercommit: action.cpuOvercommit }),
+          ...(action.memoryOvercommit !== undefined && { memoryOvercommit: action.memoryOvercommit }),
+        });
+        return { outcome: 'Updated ROKS sizing overcommit', undo: () => setStoredOvercommit(previous) };
+      }
+    }
+  }, [rawData, targetVMs, vmOverrides, overriddenVmIds, assignments, overrideTarget, resetOverride, addUserRow, removeRow]);
+
+  const applyAction = useCallback((suggestionId: string, action: ChatAction) => {
+    const { outcome, undo } = apply(action);
+    setUndoEntries(prev => new Map(prev).set(suggestionId, undo));
+    return outcome;
+  }, [apply]);
+
+  const undoAction = useCallback((suggestionId: string) => {
+    const undo = undoEntries.get(suggestionId);
+    if (!undo) return;
+    undo();
+    setUndoEntries(prev => {
+      const next = new Map(prev);
+      next.delete(suggestionId);
+      return next;
+    });
+  }, [undoEntries]);
+
+  const canUndo = useCallback((suggestionId: string) => undoEntries.has(suggestionId), [undoEntries]);
+
+  return { applyAction, undoAction, canUndo };
+}
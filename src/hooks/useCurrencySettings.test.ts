@@ -0,0 +1,55 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useCurrencySettings } from './useCurrencySettings';
+import { DEFAULT_CURRENCY_SETTINGS } from '@/services/pricing/currency';
+
+const STORAGE_KEY = 'vcf-currency-settings';
+
+describe('useCurrencySettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns defaults when no stored settings exist', () => {
+    const { result } = renderHook(() => useCurrencySettings());
+    expect(result.current.settings).toEqual(DEFAULT_CURRENCY_SETTINGS);
+    expect(result.current.activeCurrency.code).toBe('USD');
+  });
+
+  it('persists the selected currency and user-entered rates', () => {
+    const { result } = renderHook(() => useCurrencySettings());
+
+    act(() => {
+      result.current.setCurrency('EUR');
+      result.current.setRate('EUR', 0.95);
+    });
+
+    expect(result.current.activeCurrency).toMatchObject({ code: 'EUR', rate: 0.95, rateSource: 'user' });
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.currency).toBe('EUR');
+    expect(stored.customRates).toEqual({ EUR: 0.95 });
+  });
+
+  it('records imported rates with their file name and resets to bundled rates', () => {
+    const { result } = renderHook(() => useCurrencySettings());
+
+    act(() => {
+      result.current.setCurrency('JPY');
+      result.current.importRates({ JPY: 145 }, 'rates.json');
+    });
+    expect(result.current.activeCurrency).toMatchObject({ rate: 145, rateSource: 'file' });
+    expect(result.current.settings.customRatesFileName).toBe('rates.json');
+
+    act(() => {
+      result.current.resetRates();
+    });
+    expect(result.current.settings).toEqual({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'JPY' });
+    expect(result.current.activeCurrency.rate).toBe(150);
+  });
+
+  it('handles corrupt localStorage gracefully', () => {
+    localStorage.setItem(STORAGE_KEY, 'not-json');
+    const { result } = renderHook(() => useCurrencySettings());
+    expect(result.current.settings).toEqual(DEFAULT_CURRENCY_SETTINGS);
+  });
+});
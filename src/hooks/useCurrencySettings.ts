@@ -0,0 +1,71 @@
+/**
+ * Currency Settings Persistence Hook
+ *
+ * Persists the quote currency and any user-entered or file-imported exchange
+ * rates. Cost estimates and every export generator read the same settings
+ * through the pricing currency service.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  reloadCurrencySettings,
+  saveCurrencySettings,
+  getActiveCurrency,
+  DEFAULT_CURRENCY_SETTINGS,
+  type ActiveCurrency,
+  type CurrencySettings,
+} from '@/services/pricing/currency';
+
+export interface UseCurrencySettingsReturn {
+  settings: CurrencySettings;
+  activeCurrency: ActiveCurrency;
+  setCurrency: (code: string) => void;
+  /** Set a user-entered rate, or clear it (null) to fall back to the bundled rate */
+  setRate: (code: string, rate: number | null) => void;
+  importRates: (rates: Record<string, number>, fileName: string) => void;
+  resetRates: () => void;
+}
+
+export function useCurrencySettings(): UseCurrencySettingsReturn {
+  const [settings, setSettings] = useState<CurrencySettings>(reloadCurrencySettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveCurrencySettings(settings);
+  }, [settings]);
+
+  const activeCurrency = useMemo(() => getActiveCurrency(undefined, settings), [settings]);
+
+  const setCurrency = useCallback((code: string) => {
+    setSettings(prev => ({ ...prev, currency: code }));
+  }, []);
+
+  const setRate = useCallback((code: string, rate: number | null) => {
+    setSettings(prev => {
+      const customRates = { ...prev.customRates };
+      if (rate != null && rate > 0) {
+        customRates[code] = rate;
+      } else {
+        delete customRates[code];
+      }
+      return { ...prev, customRates, customRatesSource: 'user', customRatesFileName: null };
+    });
+  }, []);
+
+  const importRates = useCallback((rates: Record<string, number>, fileName: string) => {
+    setSettings(prev => ({ ...prev, customRates: rates, customRatesSource: 'file', customRatesFileName: fileName }));
+  }, []);
+
+  const resetRates = useCallback(() => {
+    setSettings(prev => ({ ...DEFAULT_CURRENCY_SETTINGS, currency: prev.currency }));
+  }, []);
+
+  return {
+    settings,
+    activeCurrency,
+    setCurrency,
+    setRate,
+    importRates,
+    resetRates,
+  };
+}
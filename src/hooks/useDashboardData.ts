@@ -5,6 +5,7 @@ import { HW_VERSION_MINIMUM, SNAPSHOT_BLOCKER_AGE_DAYS } from '@/utils/constants
 import { mibToGiB, mibToTiB, getHardwareVersionNumber, formatHardwareVersion } from '@/utils/formatters';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
+import { filterRawDataByVCenter, isInVCenterScope } from '@/utils/filterRawData';
 import { POWER_STATE_CHART_COLORS } from '@/utils/chartConfig';
 import { getVMWorkloadCategory, getCategoryDisplayName } from '@/utils/workloadClassification';
 import type { RVToolsData, VirtualMachine, VToolsInfo, VSnapshotInfo, VSourceInfo } from '@/types/rvtools';
@@ -100,8 +101,17 @@ const labelToPowerState: Record<string, string> = {
 };
 
 export function useDashboardData(): DashboardData {
-  const { rawData } = useData();
-  const vms = useVMs();
+  const { rawData: allRawData, vCenterFilter } = useData();
+  // Narrow to the selected vCenter when several exports are merged
+  const rawData = useMemo(
+    () => (allRawData ? filterRawDataByVCenter(allRawData, vCenterFilter) : null),
+    [allRawData, vCenterFilter]
+  );
+  const sourceVMs = useVMs();
+  const vms = useMemo(
+    () => sourceVMs.filter(vm => isInVCenterScope(vm, vCenterFilter)),
+    [sourceVMs, vCenterFilter]
+  );
   const { chartFilter, setFilter, clearFilter } = useChartFilter();
   const vmOverrides = useVMOverrides();
   const { autoExcludedCount, autoExcludedBreakdown } = useAutoExclusion();
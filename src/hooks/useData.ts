@@ -1,5 +1,5 @@
 // Custom hook for accessing data context
-import { useContext } from 'react';
+import { useContext, useMemo } from 'react';
 import { DataContext } from '@/context/DataContext';
 
 // Import and re-export isVMwareInfrastructureVM from its data-driven home
@@ -43,9 +43,14 @@ export function useTemplates() {
 }
 
 // Hook to get non-template VMs (excludes VMware infrastructure VMs)
+// Memoized so callers can derive further memoized data from it
 export function useVMs() {
   const { rawData } = useData();
-  return rawData?.vInfo.filter(vm => !vm.template && !isVMwareInfrastructureVM(vm.vmName, vm.guestOS)) ?? [];
+  const vInfo = rawData?.vInfo;
+  return useMemo(
+    () => vInfo?.filter(vm => !vm.template && !isVMwareInfrastructureVM(vm.vmName, vm.guestOS)) ?? [],
+    [vInfo]
+  );
 }
 
 // Hook to get VMware infrastructure VMs excluded from migration (for reporting purposes)
@@ -16,6 +16,7 @@ import {
   testProxyConnection,
 } from '@/services/pricing/globalCatalogApi';
 import { transformProxyToAppPricing } from '@/services/pricing/pricingTransformer';
+import { savePricingSnapshot } from '@/services/pricing/pricingHistory';
 
 const logger = createLogger('DynamicPricing');
 
@@ -86,6 +87,7 @@ export function useDynamicPricing(
 
         // Cache the transformed data
         setCachedPricing(transformedPricing, 'proxy');
+        void savePricingSnapshot(transformedPricing, 'proxy', proxyData.lastUpdated);
 
         // Update state
         setPricing(transformedPricing);
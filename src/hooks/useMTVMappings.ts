@@ -0,0 +1,64 @@
+/**
+ * MTV Mappings Hook
+ *
+ * Manages the network and storage mappings used for the MTV YAML bundle,
+ * keyed by source network / datastore name and persisted to localStorage.
+ * Network destinations are kept as entered ("pod" or "namespace/name") and
+ * parsed at export time.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+
+const STORAGE_KEY = 'vcf-mtv-mappings';
+
+export interface MTVMappings {
+  networks: Record<string, string>;
+  datastores: Record<string, string>;
+}
+
+export interface UseMTVMappingsReturn {
+  mappings: MTVMappings;
+  setNetworkMapping: (network: string, destination: string) => void;
+  setStorageMapping: (datastore: string, storageClass: string) => void;
+}
+
+function loadMappings(): MTVMappings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return { networks: parsed.networks ?? {}, datastores: parsed.datastores ?? {} };
+    }
+  } catch {
+    // ignore
+  }
+  return { networks: {}, datastores: {} };
+}
+
+function withEntry(entries: Record<string, string>, key: string, value: string): Record<string, string> {
+  const { [key]: _removed, ...rest } = entries;
+  void _removed; // Silence unused variable warning
+  return value.trim() ? { ...rest, [key]: value.trim() } : rest;
+}
+
+export function useMTVMappings(): UseMTVMappingsReturn {
+  const [mappings, setMappings] = useState<MTVMappings>(loadMappings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+    } catch {
+      // ignore
+    }
+  }, [mappings]);
+
+  const setNetworkMapping = useCallback((network: string, destination: string) => {
+    setMappings(prev => ({ ...prev, networks: withEntry(prev.networks, network, destination) }));
+  }, []);
+
+  const setStorageMapping = useCallback((datastore: string, storageClass: string) => {
+    setMappings(prev => ({ ...prev, datastores: withEntry(prev.datastores, datastore, storageClass) }));
+  }, []);
+
+  return { mappings, setNetworkMapping, setStorageMapping };
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePerformanceMetrics } from './usePerformanceMetrics';
+import type { PerformanceDataset } from '@/services/migration/performanceMetrics';
+import type { VirtualMachine } from '@/types/rvtools';
+
+const vms = [{ vmName: 'web-01', uuid: 'uuid-1', datacenter: 'DC1', cluster: 'Cluster1' } as VirtualMachine];
+
+const dataset: PerformanceDataset = {
+  fileName: 'perf.csv',
+  format: 'generic',
+  importedAt: '2026-01-01T00:00:00.000Z',
+  vms: [{
+    vmName: 'web-01',
+    cpuP95Percent: 25,
+    memoryP95GiB: 4,
+    memoryP95Percent: null,
+    iopsP95: 300,
+    throughputMBps: null,
+  }],
+};
+
+describe('usePerformanceMetrics', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts with no dataset and the default headroom', () => {
+    const { result } = renderHook(() => usePerformanceMetrics(vms));
+
+    expect(result.current.dataset).toBeNull();
+    expect(result.current.headroomPercent).toBe(20);
+    expect(result.current.metricsByVM.size).toBe(0);
+  });
+
+  it('matches an imported dataset to the given VMs', () => {
+    const { result } = renderHook(() => usePerformanceMetrics(vms));
+
+    act(() => result.current.importDataset(dataset));
+
+    expect(result.current.metricsByVM.get('web-01::uuid-1')?.cpuP95Percent).toBe(25);
+  });
+
+  it('persists the dataset and headroom across remounts', () => {
+    const { result, unmount } = renderHook(() => usePerformanceMetrics(vms));
+    act(() => {
+      result.current.importDataset(dataset);
+      result.current.setHeadroomPercent(150);
+    });
+    unmount();
+
+    const { result: reloaded } = renderHook(() => usePerformanceMetrics(vms));
+    expect(reloaded.current.dataset?.fileName).toBe('perf.csv');
+    expect(reloaded.current.headroomPercent).toBe(100);
+  });
+
+  it('clears the dataset', () => {
+    const { result } = renderHook(() => usePerformanceMetrics(vms));
+    act(() => result.current.importDataset(dataset));
+    act(() => result.current.clearDataset());
+
+    expect(result.current.dataset).toBeNull();
+    expect(result.current.metricsByVM.size).toBe(0);
+  });
+});
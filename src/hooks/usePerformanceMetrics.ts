@@ -0,0 +1,93 @@
+/**
+ * Performance Metrics Persistence Hook
+ *
+ * Persists imported per-VM performance metrics (p95 CPU, memory, IOPS and
+ * throughput) and the headroom used to right-size VMs from them. Metrics are
+ * joined to the loaded inventory by VM identifier.
+ */
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  matchPerformanceMetrics,
+  DEFAULT_RIGHTSIZING_HEADROOM_PERCENT,
+  type PerformanceDataset,
+  type VMPerformanceMetrics,
+} from '@/services/migration/performanceMetrics';
+import type { VirtualMachine } from '@/types/rvtools';
+
+const STORAGE_KEY = 'vcf-performance-metrics';
+
+export interface PerformanceMetricsSettings {
+  dataset: PerformanceDataset | null;
+  headroomPercent: number;
+}
+
+const DEFAULT_SETTINGS: PerformanceMetricsSettings = {
+  dataset: null,
+  headroomPercent: DEFAULT_RIGHTSIZING_HEADROOM_PERCENT,
+};
+
+function loadSettings(): PerformanceMetricsSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_SETTINGS;
+}
+
+function saveSettings(settings: PerformanceMetricsSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+export interface UsePerformanceMetricsReturn {
+  dataset: PerformanceDataset | null;
+  headroomPercent: number;
+  /** Metrics for the given VMs, keyed by `getVMIdentifier` */
+  metricsByVM: Map<string, VMPerformanceMetrics>;
+  importDataset: (dataset: PerformanceDataset) => void;
+  clearDataset: () => void;
+  setHeadroomPercent: (pct: number) => void;
+}
+
+export function usePerformanceMetrics(vms: VirtualMachine[]): UsePerformanceMetricsReturn {
+  const [settings, setSettings] = useState<PerformanceMetricsSettings>(loadSettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const metricsByVM = useMemo(
+    () => matchPerformanceMetrics(vms, settings.dataset),
+    [vms, settings.dataset],
+  );
+
+  const importDataset = useCallback((dataset: PerformanceDataset) => {
+    setSettings(prev => ({ ...prev, dataset }));
+  }, []);
+
+  const clearDataset = useCallback(() => {
+    setSettings(prev => ({ ...prev, dataset: null }));
+  }, []);
+
+  const setHeadroomPercent = useCallback((headroomPercent: number) => {
+    setSettings(prev => ({ ...prev, headroomPercent: Math.min(Math.max(headroomPercent, 0), 100) }));
+  }, []);
+
+  return {
+    dataset: settings.dataset,
+    headroomPercent: settings.headroomPercent,
+    metricsByVM,
+    importDataset,
+    clearDataset,
+    setHeadroomPercent,
+  };
+}
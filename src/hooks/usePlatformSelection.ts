@@ -10,6 +10,8 @@ export type RoksVariant = 'full' | 'rov';
 export interface PlatformSelectionScore {
   vsiCount: number;
   roksCount: number;
+  /** Factors favouring retaining VMware on IBM Cloud (VCF) — advisory, not a migration leaning */
+  vmwareCount: number;
   answeredCount: number;
   leaning: 'roks' | 'vsi' | 'neutral';
   costLeaning?: 'vsi' | 'roks' | null;
@@ -132,6 +134,7 @@ export function usePlatformSelection(costData?: PlatformSelectionCostData): UseP
   const score = useMemo((): PlatformSelectionScore => {
     let vsiCount = 0;
     let roksCount = 0;
+    let vmwareCount = 0;
     let answeredCount = 0;
     let costLeaning: 'vsi' | 'roks' | null = null;
 
@@ -151,6 +154,8 @@ export function usePlatformSelection(costData?: PlatformSelectionCostData): UseP
           vsiCount++;
         } else if (factor.target === 'roks') {
           roksCount++;
+        } else if (factor.target === 'vmware') {
+          vmwareCount++;
         } else if (factor.target === 'dynamic' && (factor as { dynamicResolver?: string }).dynamicResolver === 'cost') {
           if (costLeaning === 'vsi') vsiCount++;
           else if (costLeaning === 'roks') roksCount++;
@@ -180,7 +185,7 @@ export function usePlatformSelection(costData?: PlatformSelectionCostData): UseP
       }
     }
 
-    return { vsiCount, roksCount, answeredCount, leaning, costLeaning, roksVariant };
+    return { vsiCount, roksCount, vmwareCount, answeredCount, leaning, costLeaning, roksVariant };
   }, [data.answers, costData?.roksMonthlyCost, costData?.vsiMonthlyCost]);
 
   return { answers: data.answers, setAnswer, resetAll, score };
@@ -13,6 +13,7 @@ import {
   countRemediationSeverity,
   getVSIOSCompatibility,
 } from '@/services/migration';
+import { getVMWorkloadCategory } from '@/utils/workloadClassification';
 import type { RemediationItem } from '@/components/common';
 import type {
   VirtualMachine,
@@ -193,8 +194,8 @@ export function usePreflightChecks(config: UsePreflightChecksConfig): UsePreflig
       checkCounts.vmsWithUnsupportedOSList = vmsWithUnsupportedOSList;
     }
 
-    // ROKS-specific checks
-    if (mode === 'roks') {
+    // ROKS-specific checks (OVE runs the same MTV pipeline)
+    if (mode !== 'vsi') {
       // CD-ROM checks
       const vmsWithCdConnectedList = [...new Set(cdDrives.filter(cd => cd.connected).map(cd => cd.vmName))];
       checkCounts.vmsWithCdConnected = vmsWithCdConnectedList.length;
@@ -249,6 +250,15 @@ export function usePreflightChecks(config: UsePreflightChecksConfig): UsePreflig
       checkCounts.vmsStaticIPPoweredOffList = vmsStaticIPPoweredOffList;
     }
 
+    // OVE-specific checks: the entitlement covers VMs only
+    if (mode === 'ove') {
+      const vmsWithContainerWorkloadsList = poweredOnVMs
+        .filter(vm => getVMWorkloadCategory(vm.vmName, vm.annotation) === 'containers')
+        .map(vm => vm.vmName);
+      checkCounts.vmsWithContainerWorkloads = vmsWithContainerWorkloadsList.length;
+      checkCounts.vmsWithContainerWorkloadsList = vmsWithContainerWorkloadsList;
+    }
+
     return { counts: checkCounts, hwVersionCounts: hwCounts };
   }, [mode, poweredOnVMs, allVms, disks, snapshots, tools, networks, cdDrives, cpuInfo, memoryInfo]);
 
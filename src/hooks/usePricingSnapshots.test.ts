@@ -0,0 +1,34 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { usePricingSnapshots } from './usePricingSnapshots';
+import { BUNDLED_SNAPSHOT_ID, getPinnedPricing } from '@/services/pricing/pricingHistory';
+
+describe('usePricingSnapshots', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('lists the bundled snapshot and starts unpinned', async () => {
+    const { result } = renderHook(() => usePricingSnapshots('vsi'));
+
+    await waitFor(() => expect(result.current.snapshots.map(s => s.id)).toContain(BUNDLED_SNAPSHOT_ID));
+    expect(result.current.pin).toBeNull();
+  });
+
+  it('pins and unpins a snapshot per target', async () => {
+    const { result } = renderHook(() => usePricingSnapshots('roks'));
+
+    await act(async () => {
+      await result.current.pinSnapshot(BUNDLED_SNAPSHOT_ID);
+    });
+    expect(result.current.pin?.id).toBe(BUNDLED_SNAPSHOT_ID);
+    expect(getPinnedPricing('roks')).not.toBeNull();
+    expect(getPinnedPricing('vsi')).toBeNull();
+
+    act(() => {
+      result.current.unpin();
+    });
+    expect(result.current.pin).toBeNull();
+    expect(getPinnedPricing('roks')).toBeNull();
+  });
+});
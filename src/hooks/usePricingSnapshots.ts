@@ -0,0 +1,74 @@
+/**
+ * Pricing Snapshots Hook
+ *
+ * Lists the pricing snapshot history and manages the snapshot a cost estimate
+ * is pinned to. Pins are persisted in localStorage with their pricing data.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  listPricingSnapshots,
+  getPricingSnapshot,
+  getPricingPins,
+  savePricingPins,
+  type PricingPinTarget,
+  type PricingSnapshot,
+  type PricingSnapshotSummary,
+} from '@/services/pricing/pricingHistory';
+
+export interface UsePricingSnapshotsReturn {
+  snapshots: PricingSnapshotSummary[];
+  pin: PricingSnapshot | null;
+  pinSnapshot: (id: string) => Promise<void>;
+  unpin: () => void;
+  loadSnapshot: (id: string) => Promise<PricingSnapshot | null>;
+  reload: () => Promise<void>;
+}
+
+export function usePricingSnapshots(target: PricingPinTarget): UsePricingSnapshotsReturn {
+  const [snapshots, setSnapshots] = useState<PricingSnapshotSummary[]>([]);
+  const [pin, setPin] = useState<PricingSnapshot | null>(() => getPricingPins()[target] ?? null);
+
+  const reload = useCallback(async () => {
+    setSnapshots(await listPricingSnapshots());
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    void listPricingSnapshots().then(list => {
+      if (!cancelled) setSnapshots(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist on change
+  useEffect(() => {
+    const pins = getPricingPins();
+    if (pin) {
+      pins[target] = pin;
+    } else {
+      delete pins[target];
+    }
+    savePricingPins(pins);
+  }, [target, pin]);
+
+  const pinSnapshot = useCallback(async (id: string) => {
+    const snapshot = await getPricingSnapshot(id);
+    if (snapshot) setPin(snapshot);
+  }, []);
+
+  const unpin = useCallback(() => {
+    setPin(null);
+  }, []);
+
+  return {
+    snapshots,
+    pin,
+    pinSnapshot,
+    unpin,
+    loadSnapshot: getPricingSnapshot,
+    reload,
+  };
+}
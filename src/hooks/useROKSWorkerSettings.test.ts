@@ -0,0 +1,59 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useROKSWorkerSettings, DEFAULT_ROKS_WORKER_SETTINGS } from './useROKSWorkerSettings';
+
+const STORAGE_KEY = 'vcf-roks-worker-settings';
+
+describe('useROKSWorkerSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to bare metal workers', () => {
+    const { result } = renderHook(() => useROKSWorkerSettings());
+    expect(result.current.settings).toEqual(DEFAULT_ROKS_WORKER_SETTINGS);
+  });
+
+  it('persists the worker mode and storage class', () => {
+    const { result } = renderHook(() => useROKSWorkerSettings());
+
+    act(() => {
+      result.current.setWorkerMode('vsi');
+      result.current.setStorageClass('ibmc-vpc-block-5iops-tier');
+    });
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.workerMode).toBe('vsi');
+    expect(stored.storageClass).toBe('ibmc-vpc-block-5iops-tier');
+  });
+
+  it('clears a pool worker override when its profile changes', () => {
+    const { result } = renderHook(() => useROKSWorkerSettings());
+
+    act(() => {
+      result.current.setPoolWorkers('bx', 6);
+      result.current.setPoolWorkers('mx', 3);
+    });
+    act(() => {
+      result.current.setPoolProfile('bx', 'bx2-32x128');
+    });
+
+    expect(result.current.settings.profileOverrides).toEqual({ bx: 'bx2-32x128' });
+    expect(result.current.settings.workerOverrides).toEqual({ mx: 3 });
+  });
+
+  it('resets pool overrides', () => {
+    const { result } = renderHook(() => useROKSWorkerSettings());
+
+    act(() => {
+      result.current.setPoolProfile('cx', 'cx2-32x64');
+      result.current.setPoolWorkers('cx', 9);
+    });
+    act(() => {
+      result.current.resetPools();
+    });
+
+    expect(result.current.settings.profileOverrides).toEqual({});
+    expect(result.current.settings.workerOverrides).toEqual({});
+  });
+});
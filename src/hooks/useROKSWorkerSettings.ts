@@ -0,0 +1,125 @@
+/**
+ * ROKS Worker Settings Persistence Hook
+ *
+ * Persists the ROKS worker type (bare metal or VSI workers) and the VSI
+ * worker-pool design choices: zones, utilization ceiling, per-family profile
+ * and worker count overrides, and the VPC block CSI storage class.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { VpcBlockStorageClass } from '@/services/costEstimation';
+import { DEFAULT_WORKER_POOL_OPTIONS, type WorkerPoolFamily, type WorkerPoolOptions } from '@/utils/vsiWorkerPools';
+
+const STORAGE_KEY = 'vcf-roks-worker-settings';
+
+export type ROKSWorkerMode = 'bareMetal' | 'vsi';
+
+export interface ROKSWorkerSettings extends WorkerPoolOptions {
+  workerMode: ROKSWorkerMode;
+  storageClass: VpcBlockStorageClass;
+}
+
+export const DEFAULT_ROKS_WORKER_SETTINGS: ROKSWorkerSettings = {
+  ...DEFAULT_WORKER_POOL_OPTIONS,
+  workerMode: 'bareMetal',
+  storageClass: 'ibmc-vpc-block-10iops-tier',
+  profileOverrides: {},
+  workerOverrides: {},
+};
+
+function loadSettings(): ROKSWorkerSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_ROKS_WORKER_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_ROKS_WORKER_SETTINGS;
+}
+
+function saveSettings(settings: ROKSWorkerSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+export interface UseROKSWorkerSettingsReturn {
+  settings: ROKSWorkerSettings;
+  setWorkerMode: (mode: ROKSWorkerMode) => void;
+  setZoneCount: (zones: number) => void;
+  setMaxUtilization: (pct: number) => void;
+  setStorageClass: (storageClass: VpcBlockStorageClass) => void;
+  /** Set a pool's profile, or clear it (null) to use the calculated choice */
+  setPoolProfile: (family: WorkerPoolFamily, profile: string | null) => void;
+  /** Set a pool's worker count, or clear it (null) to use the calculated count */
+  setPoolWorkers: (family: WorkerPoolFamily, workers: number | null) => void;
+  resetPools: () => void;
+}
+
+function withOverride<T>(overrides: Partial<Record<WorkerPoolFamily, T>> | undefined, family: WorkerPoolFamily, value: T | null) {
+  const next = { ...overrides };
+  if (value == null) {
+    delete next[family];
+  } else {
+    next[family] = value;
+  }
+  return next;
+}
+
+export function useROKSWorkerSettings(): UseROKSWorkerSettingsReturn {
+  const [settings, setSettings] = useState<ROKSWorkerSettings>(loadSettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const setWorkerMode = useCallback((workerMode: ROKSWorkerMode) => {
+    setSettings(prev => ({ ...prev, workerMode }));
+  }, []);
+
+  const setZoneCount = useCallback((zoneCount: number) => {
+    // Worker overrides were chosen for the previous zone spread
+    setSettings(prev => ({ ...prev, zoneCount, workerOverrides: {} }));
+  }, []);
+
+  const setMaxUtilization = useCallback((maxUtilization: number) => {
+    setSettings(prev => ({ ...prev, maxUtilization }));
+  }, []);
+
+  const setStorageClass = useCallback((storageClass: VpcBlockStorageClass) => {
+    setSettings(prev => ({ ...prev, storageClass }));
+  }, []);
+
+  const setPoolProfile = useCallback((family: WorkerPoolFamily, profile: string | null) => {
+    setSettings(prev => ({
+      ...prev,
+      profileOverrides: withOverride(prev.profileOverrides, family, profile),
+      // A different profile invalidates the worker count chosen for the old one
+      workerOverrides: withOverride(prev.workerOverrides, family, null),
+    }));
+  }, []);
+
+  const setPoolWorkers = useCallback((family: WorkerPoolFamily, workers: number | null) => {
+    setSettings(prev => ({ ...prev, workerOverrides: withOverride(prev.workerOverrides, family, workers) }));
+  }, []);
+
+  const resetPools = useCallback(() => {
+    setSettings(prev => ({ ...prev, profileOverrides: {}, workerOverrides: {} }));
+  }, []);
+
+  return {
+    settings,
+    setWorkerMode,
+    setZoneCount,
+    setMaxUtilization,
+    setStorageClass,
+    setPoolProfile,
+    setPoolWorkers,
+    resetPools,
+  };
+}
@@ -0,0 +1,63 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useRateCard } from './useRateCard';
+import { DEFAULT_RATE_CARD_SETTINGS, getActiveRateCard, type RateCard } from '@/services/pricing/rateCard';
+
+const STORAGE_KEY = 'vcf-rate-card';
+
+describe('useRateCard', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns defaults when no rate card is stored', () => {
+    const { result } = renderHook(() => useRateCard());
+    expect(result.current.settings).toEqual(DEFAULT_RATE_CARD_SETTINGS);
+  });
+
+  it('persists manually entered discounts and credit', () => {
+    const { result } = renderHook(() => useRateCard());
+
+    act(() => {
+      result.current.setEnabled(true);
+      result.current.setDiscount('vsi', 20);
+      result.current.setDiscount('odf', 150);
+      result.current.setMonthlyCredit(250);
+    });
+
+    expect(getActiveRateCard()).toMatchObject({ discounts: { vsi: 20, odf: 100 }, monthlyCredit: 250, source: 'manual' });
+
+    act(() => {
+      result.current.setDiscount('vsi', null);
+    });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).rateCard.discounts).toEqual({ odf: 100 });
+  });
+
+  it('enables imported rate cards and clears them', () => {
+    const imported: RateCard = {
+      name: 'Deal',
+      discounts: { bareMetal: 30 },
+      monthlyCredit: 0,
+      source: 'file',
+      fileName: 'deal.xlsx',
+      updatedAt: '2026-10-01T00:00:00Z',
+    };
+    const { result } = renderHook(() => useRateCard());
+
+    act(() => {
+      result.current.importRateCard(imported);
+    });
+    expect(result.current.settings).toEqual({ enabled: true, rateCard: imported });
+
+    act(() => {
+      result.current.clearRateCard();
+    });
+    expect(result.current.settings).toEqual(DEFAULT_RATE_CARD_SETTINGS);
+  });
+
+  it('handles corrupt localStorage gracefully', () => {
+    localStorage.setItem(STORAGE_KEY, 'not-json');
+    const { result } = renderHook(() => useRateCard());
+    expect(result.current.settings).toEqual(DEFAULT_RATE_CARD_SETTINGS);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Rate Card Persistence Hook
+ *
+ * Persists the enterprise rate card (per-service discounts and committed-use
+ * credit) and whether it is applied. Cost estimates read the same settings
+ * through the pricing rate card service.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  getRateCardSettings,
+  saveRateCardSettings,
+  DEFAULT_RATE_CARD_SETTINGS,
+  type RateCard,
+  type RateCardService,
+  type RateCardSettings,
+} from '@/services/pricing/rateCard';
+
+export interface UseRateCardReturn {
+  settings: RateCardSettings;
+  setEnabled: (enabled: boolean) => void;
+  /** Set a service discount, or clear it (null) to bill the service at list price */
+  setDiscount: (service: RateCardService, pct: number | null) => void;
+  setMonthlyCredit: (amount: number) => void;
+  setName: (name: string) => void;
+  importRateCard: (rateCard: RateCard) => void;
+  clearRateCard: () => void;
+}
+
+function emptyRateCard(): RateCard {
+  return {
+    name: 'Enterprise agreement',
+    discounts: {},
+    monthlyCredit: 0,
+    source: 'manual',
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function useRateCard(): UseRateCardReturn {
+  const [settings, setSettings] = useState<RateCardSettings>(getRateCardSettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveRateCardSettings(settings);
+  }, [settings]);
+
+  const updateCard = useCallback((update: (card: RateCard) => Partial<RateCard>) => {
+    setSettings(prev => {
+      const card = prev.rateCard ?? emptyRateCard();
+      return {
+        ...prev,
+        rateCard: { ...card, ...update(card), source: 'manual', fileName: undefined, updatedAt: new Date().toISOString() },
+      };
+    });
+  }, []);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings(prev => ({ enabled, rateCard: prev.rateCard ?? emptyRateCard() }));
+  }, []);
+
+  const setDiscount = useCallback((service: RateCardService, pct: number | null) => {
+    updateCard(card => {
+      const discounts = { ...card.discounts };
+      if (pct != null && pct > 0) {
+        discounts[service] = Math.min(pct, 100);
+      } else {
+        delete discounts[service];
+      }
+      return { discounts };
+    });
+  }, [updateCard]);
+
+  const setMonthlyCredit = useCallback((amount: number) => {
+    updateCard(() => ({ monthlyCredit: Math.max(amount, 0) }));
+  }, [updateCard]);
+
+  const setName = useCallback((name: string) => {
+    updateCard(() => ({ name }));
+  }, [updateCard]);
+
+  const importRateCard = useCallback((rateCard: RateCard) => {
+    setSettings({ enabled: true, rateCard });
+  }, []);
+
+  const clearRateCard = useCallback(() => {
+    setSettings(DEFAULT_RATE_CARD_SETTINGS);
+  }, []);
+
+  return {
+    settings,
+    setEnabled,
+    setDiscount,
+    setMonthlyCredit,
+    setName,
+    importRateCard,
+    clearRateCard,
+  };
+}
@@ -4,6 +4,7 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useData } from './useData';
 import { getEnvironmentFingerprint, fingerprintsMatch } from '@/utils/vmIdentifier';
+import { notifyStorageChange, subscribeStorageChange } from '@/utils/storageSync';
 import { buildRiskTable } from '@/services/riskAssessment';
 import type {
   RiskStatus,
@@ -36,6 +37,7 @@ function loadFromStorage(): RiskTableOverrides | null {
 function saveToStorage(data: RiskTableOverrides): void {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyStorageChange(STORAGE_KEY);
   } catch {
     // Ignore
   }
@@ -61,10 +63,13 @@ export interface UseRiskAssessmentReturn {
   updateRowStatus: (rowId: string, status: RiskStatus) => void;
   updateRowMitigation: (rowId: string, mitigation: string) => void;
   updateRowField: (rowId: string, field: string, value: string) => void;
-  addUserRow: (row: Omit<RiskRow, 'id' | 'source'>) => void;
+  /** Returns the id of the new row */
+  addUserRow: (row: Omit<RiskRow, 'id' | 'source'>) => string;
   removeRow: (rowId: string) => void;
   clearAll: () => void;
   exportData: () => string;
+  /** Row ids with user edits or deletions */
+  overriddenRowIds: string[];
 }
 
 export function useRiskAssessment(calculatedCosts?: CalculatedCosts | null): UseRiskAssessmentReturn {
@@ -103,6 +108,13 @@ export function useRiskAssessment(calculatedCosts?: CalculatedCosts | null): Use
     }
   }, [overrides]);
 
+  // Pick up saves from other instances (e.g. chat actions)
+  useEffect(() => subscribeStorageChange(STORAGE_KEY, () => {
+    const stored = loadFromStorage();
+    if (!stored || !currentFingerprint || !fingerprintsMatch(stored.environmentFingerprint, currentFingerprint)) return;
+    setOverrides(prev => (prev.modifiedAt === stored.modifiedAt ? prev : stored));
+  }), [currentFingerprint]);
+
   const costInput: CostComparisonInput | undefined = useMemo(() => {
     if (!calculatedCosts) return undefined;
     return {
@@ -157,6 +169,7 @@ export function useRiskAssessment(calculatedCosts?: CalculatedCosts | null): Use
       userRows: [...prev.userRows, newRow],
       modifiedAt: new Date().toISOString(),
     }));
+    return id;
   }, []);
 
   const removeRow = useCallback((rowId: string) => {
@@ -188,5 +201,10 @@ export function useRiskAssessment(calculatedCosts?: CalculatedCosts | null): Use
     return JSON.stringify({ riskTable, overrides }, null, 2);
   }, [riskTable, overrides]);
 
-  return { riskTable, updateRowStatus, updateRowMitigation, updateRowField, addUserRow, removeRow, clearAll, exportData };
+  const overriddenRowIds = useMemo(
+    () => [...new Set([...Object.keys(overrides.rowOverrides), ...(overrides.deletedRows ?? [])])],
+    [overrides]
+  );
+
+  return { riskTable, updateRowStatus, updateRowMitigation, updateRowField, addUserRow, removeRow, clearAll, exportData, overriddenRowIds };
 }
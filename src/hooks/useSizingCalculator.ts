@@ -1,17 +1,29 @@
 // Custom hook extracting all state, computed values, and calculation logic
 // from the SizingCalculator component for clean separation of concerns.
 
-import { useState, useMemo, useEffect, useRef } from 'react';
-import { useData, useDynamicProfiles, useDynamicPricing, useVMOverrides } from '@/hooks';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { useData, useDynamicProfiles, useDynamicPricing, useVMOverrides, usePerformanceMetrics } from '@/hooks';
+import type { UsePerformanceMetricsReturn } from '@/hooks/usePerformanceMetrics';
+import { filterRawDataByVCenter } from '@/utils/filterRawData';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
 import { getBareMetalProfiles as getPricedProfiles } from '@/services/costEstimation';
+import { getActiveCurrency } from '@/services/pricing/currency';
 import { calculateNodesForProfile } from '@/utils/nodeCalculation';
+import type { NodeCalcParams } from '@/utils/nodeCalculation';
+import { getRightSizedResources } from '@/services/migration/performanceMetrics';
+import type { RightSizingComparison } from '@/services/migration/performanceMetrics';
+import { simulatePlacement, findPlacementNodeCount } from '@/utils/vmPlacement';
+import type { PlacementVM, PlacementResult, FailureSimulation } from '@/utils/vmPlacement';
 import { createLogger } from '@/utils/logger';
+import { notifyStorageChange, subscribeStorageChange } from '@/utils/storageSync';
 import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 import virtualizationOverhead from '@/data/virtualizationOverhead.json';
 import { calculateOdfReservation } from '@/utils/odfCalculation';
+import { calculateGuestStorage, DEFAULT_GUEST_HEADROOM_PERCENT } from '@/utils/guestStorage';
+import type { StorageMetric } from '@/utils/guestStorage';
 import type { OdfTuningProfile, OdfCpuUnitMode, OdfReservation } from '@/utils/odfCalculation';
 import type { SizingResult } from '@/components/sizing/SizingCalculator';
+import type { VirtualMachine } from '@/types/rvtools';
 
 const logger = createLogger('SizingCalculator');
 
@@ -28,13 +40,15 @@ interface SizingSettings {
   cephOverhead: number;
   nodeRedundancy: number;
   evictionThreshold: number;
-  storageMetric: 'provisioned' | 'inUse' | 'diskCapacity';
+  storageMetric: StorageMetric;
+  guestHeadroom?: number;
   annualGrowthRate: number;
   planningHorizonYears: number;
   virtOverhead: number;
   odfTuningProfile: string;
   includeRgw: boolean;
   odfCpuUnitMode: string;
+  sizeFromUtilisation?: boolean;
 }
 
 function loadSizingSettings(): SizingSettings | null {
@@ -50,11 +64,65 @@ function loadSizingSettings(): SizingSettings | null {
 function saveSizingSettings(settings: SizingSettings): void {
   try {
     localStorage.setItem(SIZING_STORAGE_KEY, JSON.stringify(settings));
+    notifyStorageChange(SIZING_STORAGE_KEY);
   } catch {
     // ignore
   }
 }
 
+/** The settings the hook starts with when nothing was saved yet */
+function getDefaultSizingSettings(): SizingSettings {
+  const defaults = ibmCloudConfig.defaults;
+  return {
+    selectedProfileName: null,
+    cpuOvercommit: defaults.cpuOvercommitRatio,
+    memoryOvercommit: defaults.memoryOvercommitRatio,
+    htMultiplier: 1.25,
+    useHyperthreading: true,
+    replicaFactor: defaults.odfReplicationFactor,
+    operationalCapacity: defaults.odfOperationalCapacity * 100,
+    cephOverhead: defaults.odfCephOverhead * 100,
+    nodeRedundancy: defaults.nodeRedundancy,
+    evictionThreshold: 96,
+    storageMetric: 'inUse',
+    guestHeadroom: DEFAULT_GUEST_HEADROOM_PERCENT,
+    annualGrowthRate: 20,
+    planningHorizonYears: 2,
+    virtOverhead: 15,
+    odfTuningProfile: 'balanced',
+    includeRgw: false,
+    odfCpuUnitMode: 'physical',
+    sizeFromUtilisation: false,
+  };
+}
+
+export interface SizingOvercommit {
+  cpuOvercommit: number;
+  memoryOvercommit: number;
+}
+
+/** Read the saved overcommit ratios (safe to call outside React) */
+export function getStoredOvercommit(): SizingOvercommit {
+  const stored = loadSizingSettings();
+  return {
+    cpuOvercommit: stored?.cpuOvercommit ?? ibmCloudConfig.defaults.cpuOvercommitRatio,
+    memoryOvercommit: stored?.memoryOvercommit ?? ibmCloudConfig.defaults.memoryOvercommitRatio,
+  };
+}
+
+/**
+ * Update the saved overcommit ratios outside the hook — used by chat actions.
+ * A mounted sizing calculator picks the change up.
+ */
+export function setStoredOvercommit(update: Partial<SizingOvercommit>): void {
+  const settings: SizingSettings = {
+    ...(loadSizingSettings() ?? getDefaultSizingSettings()),
+    ...getStoredOvercommit(),
+    ...update,
+  };
+  saveSizingSettings(settings);
+}
+
 export interface BareMetalProfile {
   name: string;
   physicalCores: number;
@@ -97,6 +165,9 @@ export interface NodeRequirements {
   provisionedStorageGiB: number;
   inUseStorageGiB: number;
   diskCapacityGiB: number;
+  guestUsedStorageGiB: number;
+  guestStorageWithHeadroomGiB: number;
+  vmsWithPartitionData: number;
   growthMultiplier: number;
   virtOverheadMultiplier: number;
   nodesForCPU: number;
@@ -111,6 +182,8 @@ export interface NodeRequirements {
   totalNodes: number;
   limitingFactor: 'cpu' | 'memory' | 'storage';
   vmCount: number;
+  /** VMs sized from measured utilisation instead of their allocation */
+  rightSizedVMCount: number;
   cpuCapacityExceeded: boolean;
 }
 
@@ -130,6 +203,13 @@ export interface RedundancyValidation {
   memoryPasses: boolean;
   storagePasses: boolean;
   odfQuorumPasses: boolean;
+  /** VM placement simulation: every placed VM can be rescheduled after losing any single node */
+  nodeFailure: FailureSimulation;
+  /** VM placement simulation: every placed VM can be rescheduled after losing an entire zone */
+  zoneFailure: FailureSimulation | null;
+  placementPasses: boolean;
+  /** Node count at which placement succeeds and survives a node failure (null if not found) */
+  placementNodeCount: number | null;
   allPass: boolean;
 }
 
@@ -143,6 +223,9 @@ export interface VMFitValidation {
     nodeMemoryCapacity: number;
     nodeCPUCapacity: number;
   }>;
+  /** VMs that fit a node but could not be placed because of fragmentation or total capacity */
+  unplacedVMs: PlacementResult['unplaceable'];
+  placement: PlacementResult;
 }
 
 export interface ProfileItem {
@@ -190,8 +273,11 @@ export interface UseSizingCalculatorReturn {
   setNodeRedundancy: (value: number) => void;
   evictionThreshold: number;
   setEvictionThreshold: (value: number) => void;
-  storageMetric: 'provisioned' | 'inUse' | 'diskCapacity';
-  setStorageMetric: (value: 'provisioned' | 'inUse' | 'diskCapacity') => void;
+  storageMetric: StorageMetric;
+  setStorageMetric: (value: StorageMetric) => void;
+  guestHeadroom: number;
+  setGuestHeadroom: (value: number) => void;
+  hasPartitionData: boolean;
   annualGrowthRate: number;
   setAnnualGrowthRate: (value: number) => void;
   planningHorizonYears: number;
@@ -224,6 +310,13 @@ export interface UseSizingCalculatorReturn {
   memoryFixedPerVMMiB: number;
   memoryProportionalPercent: number;
 
+  // Utilisation-based right-sizing
+  inScopeVMs: VirtualMachine[];
+  performanceMetrics: UsePerformanceMetricsReturn;
+  sizeFromUtilisation: boolean;
+  setSizeFromUtilisation: (value: boolean) => void;
+  rightSizingComparison: RightSizingComparison | null;
+
   // Computed results
   nodeCapacity: NodeCapacity;
   nodeRequirements: NodeRequirements | null;
@@ -242,10 +335,28 @@ export function useSizingCalculator({
   requestedProfile,
   onRequestedProfileHandled,
 }: UseSizingCalculatorParams): UseSizingCalculatorReturn {
-  const { rawData } = useData();
+  const { rawData: allRawData, vCenterFilter } = useData();
+  // Narrow to the selected vCenter when several exports are merged
+  const rawData = useMemo(
+    () => (allRawData ? filterRawDataByVCenter(allRawData, vCenterFilter) : null),
+    [allRawData, vCenterFilter]
+  );
   const hasData = !!rawData;
   const vmOverrides = useVMOverrides();
 
+  // Powered-on VMs (non-templates), excluding user-excluded VMs
+  const inScopeVMs = useMemo<VirtualMachine[]>(() => {
+    if (!rawData) return [];
+    return rawData.vInfo.filter(vm => {
+      if (vm.template || vm.powerState !== 'poweredOn') return false;
+      return !vmOverrides.isExcluded(getVMIdentifier(vm));
+    });
+  }, [rawData, vmOverrides]);
+
+  // Imported performance metrics for right-sizing from measured utilisation
+  const performanceMetrics = usePerformanceMetrics(inScopeVMs);
+  const { metricsByVM, headroomPercent } = performanceMetrics;
+
   // Dynamic profiles hook for refreshing from API
   const {
     profiles: dynamicProfiles,
@@ -360,10 +471,12 @@ export function useSizingCalculator({
 
   const [nodeRedundancy, setNodeRedundancy] = useState(ss?.nodeRedundancy ?? defaults.nodeRedundancy);
   const [evictionThreshold, setEvictionThreshold] = useState(ss?.evictionThreshold ?? 96);
-  const [storageMetric, setStorageMetric] = useState<'provisioned' | 'inUse' | 'diskCapacity'>(ss?.storageMetric ?? 'inUse');
+  const [storageMetric, setStorageMetric] = useState<StorageMetric>(ss?.storageMetric ?? 'inUse');
+  const [guestHeadroom, setGuestHeadroom] = useState(() => loadSizingSettings()?.guestHeadroom ?? DEFAULT_GUEST_HEADROOM_PERCENT);
   const [annualGrowthRate, setAnnualGrowthRate] = useState(ss?.annualGrowthRate ?? 20);
   const [planningHorizonYears, setPlanningHorizonYears] = useState(ss?.planningHorizonYears ?? 2);
   const [virtOverhead, setVirtOverhead] = useState(ss?.virtOverhead ?? 15);
+  const [sizeFromUtilisation, setSizeFromUtilisation] = useState(() => loadSizingSettings()?.sizeFromUtilisation ?? false);
 
   // Virtualization overhead values from config (not user-adjustable)
   const virtOverheadConfig = virtualizationOverhead;
@@ -391,14 +504,41 @@ export function useSizingCalculator({
       nodeRedundancy,
       evictionThreshold,
       storageMetric,
+      guestHeadroom,
       annualGrowthRate,
       planningHorizonYears,
       virtOverhead,
       odfTuningProfile,
       includeRgw,
       odfCpuUnitMode,
+      sizeFromUtilisation,
     });
-  }, [selectedProfileName, cpuOvercommit, memoryOvercommit, htMultiplier, useHyperthreading, replicaFactor, operationalCapacity, cephOverhead, nodeRedundancy, evictionThreshold, storageMetric, annualGrowthRate, planningHorizonYears, virtOverhead, odfTuningProfile, includeRgw, odfCpuUnitMode]);
+  }, [selectedProfileName, cpuOvercommit, memoryOvercommit, htMultiplier, useHyperthreading, replicaFactor, operationalCapacity, cephOverhead, nodeRedundancy, evictionThreshold, storageMetric, guestHeadroom, annualGrowthRate, planningHorizonYears, virtOverhead, odfTuningProfile, includeRgw, odfCpuUnitMode, sizeFromUtilisation]);
+
+  // Pick up overcommit changes saved outside the hook (chat actions)
+  useEffect(() => subscribeStorageChange(SIZING_STORAGE_KEY, () => {
+    const { cpuOvercommit: cpu, memoryOvercommit: memory } = getStoredOvercommit();
+    setCpuOvercommit(cpu);
+    setMemoryOvercommit(memory);
+  }), []);
+
+  // Per-VM vCPU and memory: measured p95 plus headroom when sizing from utilisation, otherwise the allocation
+  const getVMResources = useCallback((vm: VirtualMachine, fromUtilisation: boolean) => {
+    const allocated = { vcpus: vm.cpus, memoryGiB: vm.memory / 1024 };
+    const metrics = fromUtilisation ? metricsByVM.get(getVMIdentifier(vm)) : undefined;
+    return metrics ? getRightSizedResources(allocated, metrics, headroomPercent) : allocated;
+  }, [metricsByVM, headroomPercent]);
+
+  // VM totals with per-VM virtualization overhead (fixed + proportional)
+  const getWorkloadTotals = useCallback((fromUtilisation: boolean) => {
+    const resources = inScopeVMs.map(vm => getVMResources(vm, fromUtilisation));
+    const baseVCPUs = resources.reduce((sum, r) => sum + r.vcpus, 0);
+    const baseMemoryGiB = resources.reduce((sum, r) => sum + r.memoryGiB, 0);
+    return {
+      vcpus: Math.ceil(baseVCPUs * (1 + cpuProportionalPercent / 100) + inScopeVMs.length * cpuFixedPerVM),
+      memoryGiB: baseMemoryGiB * (1 + memoryProportionalPercent / 100) + (inScopeVMs.length * memoryFixedPerVMMiB) / 1024,
+    };
+  }, [inScopeVMs, getVMResources, cpuFixedPerVM, cpuProportionalPercent, memoryFixedPerVMMiB, memoryProportionalPercent]);
 
   // ODF resource reservations — two-pass calculation for cluster-wide distribution
   // Pass 1: estimate with minimum 3 nodes to get initial node count
@@ -493,18 +633,15 @@ export function useSizingCalculator({
   const nodeRequirements = useMemo<NodeRequirements | null>(() => {
     if (!hasData || !rawData) return null;
 
-    // Filter to only powered-on VMs (non-templates), excluding user-excluded VMs
-    const vms = rawData.vInfo.filter(vm => {
-      if (vm.template || vm.powerState !== 'poweredOn') return false;
-      const vmId = getVMIdentifier(vm);
-      return !vmOverrides.isExcluded(vmId);
-    });
+    const vms = inScopeVMs;
     const vmNames = new Set(vms.map(vm => vm.vmName));
 
-    // Calculate base totals directly from rawData (before overhead)
-    const baseVCPUs = vms.reduce((sum, vm) => sum + vm.cpus, 0);
-    const baseMemoryMiB = vms.reduce((sum, vm) => sum + vm.memory, 0);
-    const baseMemoryGiB = baseMemoryMiB / 1024;
+    // Calculate base totals (before overhead) from allocation or measured utilisation
+    const vmResources = vms.map(vm => getVMResources(vm, sizeFromUtilisation));
+    const baseVCPUs = vmResources.reduce((sum, r) => sum + r.vcpus, 0);
+    const baseMemoryGiB = vmResources.reduce((sum, r) => sum + r.memoryGiB, 0);
+    const baseMemoryMiB = baseMemoryGiB * 1024;
+    const rightSizedVMCount = sizeFromUtilisation ? vms.filter(vm => metricsByVM.has(getVMIdentifier(vm))).length : 0;
     const provisionedStorageGiB = vms.reduce((sum, vm) => sum + vm.provisionedMiB, 0) / 1024;
     const inUseStorageGiB = vms.reduce((sum, vm) => sum + vm.inUseMiB, 0) / 1024;
     const vmCount = vms.length;
@@ -526,12 +663,17 @@ export function useSizingCalculator({
       .filter(disk => vmNames.has(disk.vmName))
       .reduce((sum, disk) => sum + disk.capacityMiB, 0) / 1024;
 
+    // Guest-consumed storage from vPartition (falls back to in-use for VMs without partition rows)
+    const guestStorage = calculateGuestStorage(vms, rawData.vPartition, guestHeadroom);
+
     // Select base storage based on metric choice
     const baseStorageGiB = storageMetric === 'provisioned'
       ? provisionedStorageGiB
       : storageMetric === 'diskCapacity'
         ? diskCapacityGiB
-        : inUseStorageGiB;
+        : storageMetric === 'guestUsed'
+          ? guestStorage.totalGiB
+          : inUseStorageGiB;
 
     // Apply growth factor: (1 + rate)^years
     const growthMultiplier = Math.pow(1 + annualGrowthRate / 100, planningHorizonYears);
@@ -613,6 +755,9 @@ export function useSizingCalculator({
       provisionedStorageGiB,
       inUseStorageGiB,
       diskCapacityGiB,
+      guestUsedStorageGiB: guestStorage.guestUsedGiB,
+      guestStorageWithHeadroomGiB: guestStorage.totalGiB,
+      vmsWithPartitionData: guestStorage.vmsWithPartitionData,
       growthMultiplier,
       virtOverheadMultiplier,
       nodesForCPU,
@@ -627,9 +772,50 @@ export function useSizingCalculator({
       totalNodes,
       limitingFactor,
       vmCount,
+      rightSizedVMCount,
       cpuCapacityExceeded: nodeCapacity.vcpuCapacity === 0 && totalVCPUs > 0,
     };
-  }, [hasData, rawData, nodeCapacity, nodeRedundancy, evictionThreshold, storageMetric, annualGrowthRate, planningHorizonYears, virtOverhead, cpuFixedPerVM, cpuProportionalPercent, memoryFixedPerVMMiB, memoryProportionalPercent, vmOverrides, cpuOvercommit, htMultiplier, selectedProfile.physicalCores, useHyperthreading]);
+  }, [hasData, rawData, inScopeVMs, getVMResources, sizeFromUtilisation, metricsByVM, nodeCapacity, nodeRedundancy, evictionThreshold, storageMetric, guestHeadroom, annualGrowthRate, planningHorizonYears, virtOverhead, cpuFixedPerVM, cpuProportionalPercent, memoryFixedPerVMMiB, memoryProportionalPercent, cpuOvercommit, htMultiplier, selectedProfile.physicalCores, useHyperthreading]);
+
+  // Allocated vs right-sized workload totals, with node count and node cost on the selected profile
+  const rightSizingComparison = useMemo<RightSizingComparison | null>(() => {
+    if (!nodeRequirements || metricsByVM.size === 0) return null;
+
+    const pricedProfile = getPricedProfiles(pricing).data.find(p => p.id === selectedProfile.name);
+    const monthlyRate = (pricedProfile?.monthlyRate ?? 0) * getActiveCurrency(pricing.baseCurrency).rate;
+    const totalsFor = (fromUtilisation: boolean) => {
+      const { vcpus, memoryGiB } = getWorkloadTotals(fromUtilisation);
+      const params: NodeCalcParams = {
+        totalVCPUs: vcpus,
+        totalMemoryGiB: memoryGiB,
+        totalStorageGiB: nodeRequirements.totalStorageGiB,
+        evictionThreshold,
+        nodeRedundancy,
+        memoryOvercommit,
+        cpuOvercommit,
+        replicaFactor,
+        cephOverhead,
+        operationalCapacity,
+        odfTuningProfile,
+        odfCpuUnitMode,
+        htMultiplier,
+        useHyperthreading,
+        includeRgw,
+        systemReservedCpu,
+        systemReservedMemory,
+        odfReservedMemory,
+      };
+      const nodes = calculateNodesForProfile(selectedProfile, params);
+      return { vcpus, memoryGiB: Math.round(memoryGiB), nodes, monthlyCost: monthlyRate > 0 ? nodes * monthlyRate : null };
+    };
+
+    return {
+      matchedVMs: metricsByVM.size,
+      totalVMs: inScopeVMs.length,
+      allocated: totalsFor(false),
+      rightSized: totalsFor(true),
+    };
+  }, [nodeRequirements, metricsByVM, inScopeVMs.length, pricing, selectedProfile, getWorkloadTotals, evictionThreshold, nodeRedundancy, memoryOvercommit, cpuOvercommit, replicaFactor, cephOverhead, operationalCapacity, odfTuningProfile, odfCpuUnitMode, htMultiplier, useHyperthreading, includeRgw, systemReservedCpu, systemReservedMemory, odfReservedMemory]);
 
   // Best-value profile: lowest total cost (nodeCount × monthlyRate) once workload data is available
   const bestValueProfileName = useMemo(() => {
@@ -702,9 +888,43 @@ export function useSizingCalculator({
     );
   }, [nodeRequirements?.totalNodes, odfTuningProfile, selectedProfile.nvmeDisks, includeRgw, odfCpuUnitMode, htMultiplier, useHyperthreading]);
 
+  // In-scope VMs with per-VM virtualization overhead, for placement simulation
+  const placementVMs = useMemo<PlacementVM[]>(() => {
+    return inScopeVMs.map(vm => {
+      const { vcpus, memoryGiB } = getVMResources(vm, sizeFromUtilisation);
+      return {
+        vmName: vm.vmName,
+        vcpus: vcpus * (1 + cpuProportionalPercent / 100) + cpuFixedPerVM,
+        memoryGiB: memoryGiB * (1 + memoryProportionalPercent / 100) + memoryFixedPerVMMiB / 1024,
+      };
+    });
+  }, [inScopeVMs, getVMResources, sizeFromUtilisation, cpuFixedPerVM, cpuProportionalPercent, memoryFixedPerVMMiB, memoryProportionalPercent]);
+
+  // VM-level bin-packing onto the selected profile at the calculated node count
+  const placement = useMemo(() => {
+    if (!nodeRequirements) return null;
+
+    const capacity = {
+      vcpuCapacity: nodeCapacity.vcpuCapacity,
+      memoryCapacity: nodeCapacity.memoryCapacity,
+      storageCapacityGiB: nodeCapacity.usableStorageGiB,
+    };
+    const options = {
+      nodeCount: nodeRequirements.totalNodes,
+      evictionThreshold,
+      totalStorageGiB: nodeRequirements.totalStorageGiB,
+    };
+    const result = simulatePlacement(placementVMs, capacity, options);
+    const placed = result.unplaceable.every(vm => vm.reason === 'exceeds-node');
+    const placementNodeCount = placed && result.nodeFailure.survives
+      ? nodeRequirements.totalNodes
+      : findPlacementNodeCount(placementVMs, capacity, options);
+    return { result, placementNodeCount };
+  }, [placementVMs, nodeRequirements, nodeCapacity, evictionThreshold]);
+
   // N+X Validation - checks if cluster can handle workload after nodeRedundancy failures
   const redundancyValidation = useMemo<RedundancyValidation | null>(() => {
-    if (!nodeRequirements) return null;
+    if (!nodeRequirements || !placement) return null;
 
     const totalNodes = nodeRequirements.totalNodes;
     const failedNodes = nodeRedundancy;
@@ -738,8 +958,11 @@ export function useSizingCalculator({
     const storagePasses = storageUtilAfterFailure <= operationalCapacity || nodeCapacity.maxUsableStorageGiB === 0;
     const odfQuorumPasses = survivingNodes >= 3;
 
+    // Placement must survive a single node failure whenever redundancy is configured
+    const placementPasses = nodeRedundancy === 0 || placement.result.nodeFailure.survives;
+
     // Overall validation
-    const allPass = cpuPasses && memoryPasses && storagePasses && odfQuorumPasses;
+    const allPass = cpuPasses && memoryPasses && storagePasses && odfQuorumPasses && placementPasses;
 
     // Also calculate healthy state utilization
     const cpuUtilHealthy = nodeCapacity.vcpuCapacity > 0
@@ -768,45 +991,28 @@ export function useSizingCalculator({
       memoryPasses,
       storagePasses,
       odfQuorumPasses,
+      nodeFailure: placement.result.nodeFailure,
+      zoneFailure: placement.result.zoneFailure,
+      placementPasses,
+      placementNodeCount: placement.placementNodeCount,
       allPass,
     };
-  }, [nodeRequirements, nodeCapacity, nodeRedundancy, evictionThreshold, operationalCapacity]);
+  }, [nodeRequirements, nodeCapacity, nodeRedundancy, evictionThreshold, operationalCapacity, placement]);
 
-  // Per-VM fit validation — check if any individual VM exceeds node capacity
+  // Per-VM fit validation — VMs that exceed a node or could not be placed by the simulation
   const vmFitValidation = useMemo<VMFitValidation | null>(() => {
-    if (!hasData || !rawData) return null;
-
-    const vms = rawData.vInfo.filter(vm => {
-      if (vm.template || vm.powerState !== 'poweredOn') return false;
-      const vmId = getVMIdentifier(vm);
-      return !vmOverrides.isExcluded(vmId);
-    });
-
-    const oversizedVMs: VMFitValidation['oversizedVMs'] = [];
-
-    for (const vm of vms) {
-      // Add per-VM virtualization overhead
-      const vmMemGiB = vm.memory / 1024;
-      const vmWithOverheadMemGiB =
-        vmMemGiB * (1 + memoryProportionalPercent / 100) +
-        memoryFixedPerVMMiB / 1024;
-      const vmWithOverheadCPUs =
-        vm.cpus * (1 + cpuProportionalPercent / 100) + cpuFixedPerVM;
-
-      const exceedsMemory = vmWithOverheadMemGiB > nodeCapacity.memoryCapacity;
-      const exceedsCPU = vmWithOverheadCPUs > nodeCapacity.vcpuCapacity;
-
-      if (exceedsMemory || exceedsCPU) {
-        oversizedVMs.push({
-          vmName: vm.vmName,
-          resource: exceedsMemory && exceedsCPU ? 'both' : exceedsMemory ? 'memory' : 'cpu',
-          vmMemoryGiB: Math.round(vmWithOverheadMemGiB * 10) / 10,
-          vmCPUs: Math.round(vmWithOverheadCPUs * 10) / 10,
-          nodeMemoryCapacity: nodeCapacity.memoryCapacity,
-          nodeCPUCapacity: nodeCapacity.vcpuCapacity,
-        });
-      }
-    }
+    if (!placement) return null;
+
+    const oversizedVMs: VMFitValidation['oversizedVMs'] = placement.result.unplaceable
+      .filter(vm => vm.reason === 'exceeds-node')
+      .map(vm => ({
+        vmName: vm.vmName,
+        resource: vm.resource,
+        vmMemoryGiB: Math.round(vm.memoryGiB * 10) / 10,
+        vmCPUs: Math.round(vm.vcpus * 10) / 10,
+        nodeMemoryCapacity: nodeCapacity.memoryCapacity,
+        nodeCPUCapacity: nodeCapacity.vcpuCapacity,
+      }));
 
     // Sort by how much they exceed capacity (worst first)
     oversizedVMs.sort((a, b) => {
@@ -815,8 +1021,13 @@ export function useSizingCalculator({
       return bMemExcess - aMemExcess;
     });
 
-    return { allFit: oversizedVMs.length === 0, oversizedVMs };
-  }, [hasData, rawData, nodeCapacity, vmOverrides, cpuFixedPerVM, cpuProportionalPercent, memoryFixedPerVMMiB, memoryProportionalPercent]);
+    return {
+      allFit: placement.result.allPlaced,
+      oversizedVMs,
+      unplacedVMs: placement.result.unplaceable.filter(vm => vm.reason === 'insufficient-capacity'),
+      placement: placement.result,
+    };
+  }, [placement, nodeCapacity]);
 
   // Track previous sizing to avoid unnecessary parent updates
   const prevSizingRef = useRef<string>('');
@@ -916,6 +1127,9 @@ export function useSizingCalculator({
     setEvictionThreshold,
     storageMetric,
     setStorageMetric,
+    guestHeadroom,
+    setGuestHeadroom,
+    hasPartitionData: (rawData?.vPartition.length ?? 0) > 0,
     annualGrowthRate,
     setAnnualGrowthRate,
     planningHorizonYears,
@@ -939,6 +1153,11 @@ export function useSizingCalculator({
     cpuProportionalPercent,
     memoryFixedPerVMMiB,
     memoryProportionalPercent,
+    inScopeVMs,
+    performanceMetrics,
+    sizeFromUtilisation,
+    setSizeFromUtilisation,
+    rightSizingComparison,
     nodeCapacity,
     nodeRequirements,
     redundancyValidation,
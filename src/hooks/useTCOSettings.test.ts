@@ -0,0 +1,58 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useTCOSettings } from './useTCOSettings';
+import { DEFAULT_VMWARE_BASELINE } from '@/services/tcoProjection';
+
+const STORAGE_KEY = 'vcf-tco-settings';
+
+describe('useTCOSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns defaults when no stored settings exist', () => {
+    const { result } = renderHook(() => useTCOSettings());
+    expect(result.current.baseline).toEqual(DEFAULT_VMWARE_BASELINE);
+    expect(result.current.annualGrowthRate).toBe(20);
+    expect(result.current.planningHorizonYears).toBe(2);
+  });
+
+  it('reads growth rate and planning horizon from the sizing settings', () => {
+    localStorage.setItem('vcf-sizing-settings', JSON.stringify({ annualGrowthRate: 10, planningHorizonYears: 5 }));
+
+    const { result } = renderHook(() => useTCOSettings());
+    expect(result.current.annualGrowthRate).toBe(10);
+    expect(result.current.planningHorizonYears).toBe(5);
+  });
+
+  it('persists baseline changes to localStorage', () => {
+    const { result } = renderHook(() => useTCOSettings());
+
+    act(() => {
+      result.current.updateBaseline({ licenceCostPerCoreYear: 500, licensedCoresOverride: 256 });
+    });
+
+    expect(result.current.baseline.licenceCostPerCoreYear).toBe(500);
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!);
+    expect(stored.licensedCoresOverride).toBe(256);
+  });
+
+  it('resets the baseline to defaults', () => {
+    const { result } = renderHook(() => useTCOSettings());
+
+    act(() => {
+      result.current.updateBaseline({ hardwareRefreshCost: 250000 });
+    });
+    act(() => {
+      result.current.resetBaseline();
+    });
+
+    expect(result.current.baseline).toEqual(DEFAULT_VMWARE_BASELINE);
+  });
+
+  it('handles corrupt localStorage gracefully', () => {
+    localStorage.setItem(STORAGE_KEY, 'not-json');
+    const { result } = renderHook(() => useTCOSettings());
+    expect(result.current.baseline).toEqual(DEFAULT_VMWARE_BASELINE);
+  });
+});
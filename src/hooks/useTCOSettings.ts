@@ -0,0 +1,98 @@
+/**
+ * TCO Settings Persistence Hook
+ *
+ * Persists the user-entered VMware status-quo baseline used by the multi-year TCO
+ * projection, and exposes the growth rate and planning horizon already stored by
+ * the ROKS sizing calculator.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_VMWARE_BASELINE, type VMwareBaselineSettings } from '@/services/tcoProjection';
+import { subscribeStorageChange } from '@/utils/storageSync';
+
+const STORAGE_KEY = 'vcf-tco-settings';
+const SIZING_STORAGE_KEY = 'vcf-sizing-settings';
+
+const DEFAULT_ANNUAL_GROWTH_RATE = 20;
+const DEFAULT_PLANNING_HORIZON_YEARS = 2;
+
+function loadTCOSettings(): VMwareBaselineSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_VMWARE_BASELINE, ...JSON.parse(stored) };
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_VMWARE_BASELINE;
+}
+
+function saveTCOSettings(settings: VMwareBaselineSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Growth rate and planning horizon from the sizing calculator settings
+ */
+function loadGrowthSettings(): { annualGrowthRate: number; planningHorizonYears: number } {
+  try {
+    const stored = localStorage.getItem(SIZING_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        annualGrowthRate: parsed.annualGrowthRate ?? DEFAULT_ANNUAL_GROWTH_RATE,
+        planningHorizonYears: parsed.planningHorizonYears ?? DEFAULT_PLANNING_HORIZON_YEARS,
+      };
+    }
+  } catch {
+    // ignore
+  }
+  return { annualGrowthRate: DEFAULT_ANNUAL_GROWTH_RATE, planningHorizonYears: DEFAULT_PLANNING_HORIZON_YEARS };
+}
+
+export interface UseTCOSettingsReturn {
+  baseline: VMwareBaselineSettings;
+  updateBaseline: (changes: Partial<VMwareBaselineSettings>) => void;
+  resetBaseline: () => void;
+  annualGrowthRate: number;
+  planningHorizonYears: number;
+}
+
+export function useTCOSettings(): UseTCOSettingsReturn {
+  const [baseline, setBaseline] = useState<VMwareBaselineSettings>(loadTCOSettings);
+  const [growth, setGrowth] = useState(loadGrowthSettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveTCOSettings(baseline);
+  }, [baseline]);
+
+  // Follow growth and horizon changes saved by the sizing calculator
+  useEffect(() => subscribeStorageChange(SIZING_STORAGE_KEY, () => {
+    const stored = loadGrowthSettings();
+    setGrowth(prev => (
+      prev.annualGrowthRate === stored.annualGrowthRate && prev.planningHorizonYears === stored.planningHorizonYears ? prev : stored
+    ));
+  }), []);
+
+  const updateBaseline = useCallback((changes: Partial<VMwareBaselineSettings>) => {
+    setBaseline(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const resetBaseline = useCallback(() => {
+    setBaseline(DEFAULT_VMWARE_BASELINE);
+  }, []);
+
+  return {
+    baseline,
+    updateBaseline,
+    resetBaseline,
+    annualGrowthRate: growth.annualGrowthRate,
+    planningHorizonYears: growth.planningHorizonYears,
+  };
+}
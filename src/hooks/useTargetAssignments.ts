@@ -12,6 +12,7 @@ import { useData, useAllVMs } from './useData';
 import { useVMOverrides } from './useVMOverrides';
 import { useAutoExclusion } from './useAutoExclusion';
 import { getVMIdentifier, getEnvironmentFingerprint, fingerprintsMatch } from '@/utils/vmIdentifier';
+import { notifyStorageChange, subscribeStorageChange } from '@/utils/storageSync';
 import { getVMWorkloadCategory } from '@/utils/workloadClassification';
 import {
   classifyAllVMs,
@@ -76,6 +77,7 @@ function loadFromStorage(): TargetAssignmentsData | null {
 function saveToStorage(data: TargetAssignmentsData): void {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyStorageChange(STORAGE_KEY);
   } catch (error) {
     console.warn('[TargetAssignments] Failed to save to storage:', error);
   }
@@ -169,6 +171,13 @@ export function useTargetAssignments(
     }
   }, [data]);
 
+  // Pick up saves from other instances (e.g. chat actions)
+  useEffect(() => subscribeStorageChange(STORAGE_KEY, () => {
+    const stored = loadFromStorage();
+    if (!stored || !currentFingerprint || !fingerprintsMatch(stored.environmentFingerprint, currentFingerprint)) return;
+    setData(prev => (prev.modifiedAt === stored.modifiedAt ? prev : stored));
+  }), [currentFingerprint]);
+
   // Filter to non-excluded VMs
   const includedVMs = useMemo(() => {
     return allVMs.filter(vm => {
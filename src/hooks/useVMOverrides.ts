@@ -12,6 +12,7 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useData } from './useData';
 import { getEnvironmentFingerprint, fingerprintsMatch } from '@/utils/vmIdentifier';
+import { notifyStorageChange, subscribeStorageChange } from '@/utils/storageSync';
 
 // ===== TYPES =====
 
@@ -106,6 +107,7 @@ function loadFromStorage(): VMOverridesData | null {
 function saveToStorage(data: VMOverridesData): void {
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    notifyStorageChange(STORAGE_KEY);
   } catch (error) {
     console.warn('[VMOverrides] Failed to save to storage:', error);
   }
@@ -203,6 +205,13 @@ export function useVMOverrides(): UseVMOverridesReturn {
     }
   }, [data]);
 
+  // Pick up saves from other instances (e.g. chat actions)
+  useEffect(() => subscribeStorageChange(STORAGE_KEY, () => {
+    const stored = loadFromStorage();
+    if (!stored || !currentFingerprint || !fingerprintsMatch(stored.environmentFingerprint, currentFingerprint)) return;
+    setData(prev => (prev.modifiedAt === stored.modifiedAt ? prev : stored));
+  }), [currentFingerprint]);
+
   // ===== CORE OPERATIONS =====
 
   const updateOverride = useCallback((
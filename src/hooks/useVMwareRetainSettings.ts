@@ -0,0 +1,57 @@
+/**
+ * VMware-Retain Settings Persistence Hook
+ *
+ * Persists the VCF on IBM Cloud sizing choices: classic bare metal host profile,
+ * vCPU:pCore consolidation ratio, memory overcommit, utilisation ceiling and
+ * HA spare hosts per cluster.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_VMWARE_RETAIN_SETTINGS, type VMwareRetainSettings } from '@/services/migration/vmwareRetainSizing';
+
+const STORAGE_KEY = 'vcf-vmware-retain-settings';
+
+function loadSettings(): VMwareRetainSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_VMWARE_RETAIN_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_VMWARE_RETAIN_SETTINGS;
+}
+
+function saveSettings(settings: VMwareRetainSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+export interface UseVMwareRetainSettingsReturn {
+  settings: VMwareRetainSettings;
+  updateSettings: (changes: Partial<VMwareRetainSettings>) => void;
+  resetSettings: () => void;
+}
+
+export function useVMwareRetainSettings(): UseVMwareRetainSettingsReturn {
+  const [settings, setSettings] = useState<VMwareRetainSettings>(loadSettings);
+
+  // Persist on change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const updateSettings = useCallback((changes: Partial<VMwareRetainSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettings(DEFAULT_VMWARE_RETAIN_SETTINGS);
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+}
@@ -4,8 +4,8 @@
 import { useMemo } from 'react';
 import { mibToGiB } from '@/utils/formatters';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
-import { mapVMToVSIProfile, getVSIProfiles, classifyVMForBurstable, findBurstableProfile } from '@/services/migration';
-import type { VSIProfile, VMProfileMapping, VMClassification } from '@/services/migration';
+import { mapVMToVSIProfile, getVSIProfiles, classifyVMForBurstable, findBurstableProfile, getRightSizedProfile, planVMStorage, summarizeStoragePlans } from '@/services/migration';
+import type { VSIProfile, VMProfileMapping, VMClassification, VMPerformanceMetrics, VMStorageInput, StoragePlanSummary } from '@/services/migration';
 import type { VSISizingInput } from '@/services/costEstimation';
 import type { VMDetail } from '@/services/export';
 import type { InsightsInput, NetworkSummaryForAI, WaveSuggestionInput, CostOptimizationInput, RemediationInput } from '@/services/ai/types';
@@ -15,7 +15,10 @@ import type { ComplexityScore } from '@/services/migration';
 import type { UseWavePlanningReturn } from '@/hooks/useWavePlanning';
 import type { CustomProfile } from '@/hooks/useCustomProfiles';
 import type { StorageTierType } from '@/utils/workloadClassification';
-import { getVMWorkloadCategory, getStorageTierForWorkload, getCategoryDisplayName } from '@/utils/workloadClassification';
+import { getVMWorkloadCategory, getCategoryDisplayName } from '@/utils/workloadClassification';
+import { getVMIdentifier } from '@/utils/vmIdentifier';
+import { buildGuestUsageMap, getGuestUsedMiB } from '@/utils/guestStorage';
+import type { StorageMetric } from '@/utils/guestStorage';
 
 // ===== INPUT TYPE =====
 
@@ -36,6 +39,11 @@ export interface UseVSIPageDataConfig {
   warningCount: number;
   wavePlanning: UseWavePlanningReturn;
   remediationItems: RemediationItem[];
+  storageMetric: StorageMetric;
+  guestHeadroom: number;
+  /** Imported performance metrics keyed by `getVMIdentifier` */
+  performanceMetrics: Map<string, VMPerformanceMetrics>;
+  rightSizingHeadroom: number;
 }
 
 // ===== RETURN TYPE =====
@@ -52,6 +60,11 @@ export interface UseVSIPageDataReturn {
   vsiTotalMemory: number;
   overriddenVMCount: number;
   vsiSizing: VSISizingInput;
+  /** Boot, tiered and custom IOPS volume totals with per-volume limit warnings */
+  storagePlan: StoragePlanSummary;
+  /** Sizing with right-sized profiles for VMs with performance metrics, null when none matched */
+  rightSizedVsiSizing: VSISizingInput | null;
+  rightSizedVMCount: number;
   insightsData: InsightsInput | null;
   waveSuggestionData: WaveSuggestionInput | null;
   costOptimizationData: CostOptimizationInput | null;
@@ -60,6 +73,32 @@ export interface UseVSIPageDataReturn {
   vsiProfiles: ReturnType<typeof getVSIProfiles>;
 }
 
+// Count VMs per profile name
+function groupProfiles(profileNames: string[]): VSISizingInput['vmProfiles'] {
+  const counts = profileNames.reduce((acc, name) => {
+    acc[name] = (acc[name] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  return Object.entries(counts).map(([profile, count]) => ({ profile, count }));
+}
+
+// Fraction of source disk capacity the data volumes keep for the selected storage metric
+function getDataScale(
+  vm: VirtualMachine,
+  diskCapacityMiB: number,
+  storageMetric: StorageMetric,
+  guestUsage: Map<string, number>,
+  guestHeadroom: number,
+): number {
+  if (storageMetric === 'diskCapacity' || diskCapacityMiB <= 0) return 1;
+  const metricMiB = storageMetric === 'provisioned'
+    ? vm.provisionedMiB
+    : storageMetric === 'guestUsed'
+      ? getGuestUsedMiB(vm, guestUsage) * (1 + guestHeadroom / 100)
+      : vm.inUseMiB;
+  return Math.min(1, metricMiB / diskCapacityMiB);
+}
+
 // ===== HOOK =====
 
 export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataReturn {
@@ -80,10 +119,17 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
     warningCount,
     wavePlanning,
     remediationItems,
+    storageMetric,
+    guestHeadroom,
+    performanceMetrics,
+    rightSizingHeadroom,
   } = config;
 
   const vsiProfiles = getVSIProfiles();
 
+  // Guest-consumed storage per VM from vPartition
+  const guestUsage = useMemo(() => buildGuestUsageMap(rawData?.vPartition ?? []), [rawData?.vPartition]);
+
   // ===== VPC VSI PROFILE MAPPING =====
   const vmProfileMappings = useMemo<VMProfileMapping[]>(() => {
     // Build per-VM disk lookup for storage info
@@ -94,6 +140,10 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
       else vmDiskMap.set(d.vmName, [d]);
     }
 
+    for (const vmDisks of vmDiskMap.values()) {
+      vmDisks.sort((a, b) => (a.diskKey || 0) - (b.diskKey || 0));
+    }
+
     return poweredOnVMs.map(vm => {
       const memoryGiB = mibToGiB(vm.memory);
 
@@ -131,16 +181,38 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
         }
       }
 
-      // Storage tier classification
-      const workloadCategory = getVMWorkloadCategory(vm.vmName, vm.annotation ?? null);
-      const autoStorageTier = getStorageTierForWorkload(workloadCategory);
-      const storageTier = getEffectiveStorageTier(vm.vmName, autoStorageTier);
-      const isStorageTierOverridden = hasStorageTierOverride(vm.vmName);
+      // Right-sized profile from measured utilisation
+      const metrics = performanceMetrics.get(getVMIdentifier(vm));
+      const rightSizedProfile = metrics
+        ? getRightSizedProfile(vm.cpus, memoryGiB, metrics, rightSizingHeadroom, classification.recommendation)
+        : null;
+      const measuredIOPS = metrics?.iopsP95 ?? null;
 
       // Storage capacity
       const vmDisks = vmDiskMap.get(vm.vmName) || [];
-      const provisionedStorageGiB = Math.round(vmDisks.reduce((sum, d) => sum + mibToGiB(d.capacityMiB), 0));
+      const diskCapacityMiB = vmDisks.reduce((sum, d) => sum + d.capacityMiB, 0);
+      const provisionedStorageGiB = Math.round(mibToGiB(diskCapacityMiB));
       const inUseStorageGiB = Math.round(mibToGiB(vm.inUseMiB));
+      const guestUsedMiB = guestUsage.get(vm.vmName);
+      const guestUsedStorageGiB = guestUsedMiB !== undefined ? Math.round(mibToGiB(guestUsedMiB)) : null;
+
+      // Volume plan - measured IOPS and throughput when available, otherwise workload category defaults
+      const workloadCategory = getVMWorkloadCategory(vm.vmName, vm.annotation ?? null);
+      const storageInput: VMStorageInput = {
+        vmName: vm.vmName,
+        guestOS: vm.guestOS,
+        disks: vmDisks.map(d => ({ label: d.diskLabel || `Disk ${d.diskKey}`, capacityGiB: mibToGiB(d.capacityMiB) })),
+        workloadCategory,
+        measured: metrics ? { iops: metrics.iopsP95, throughputMBps: metrics.throughputMBps } : null,
+        dataScale: getDataScale(vm, diskCapacityMiB, storageMetric, guestUsage, guestHeadroom),
+      };
+      const autoStoragePlan = planVMStorage(storageInput);
+      const autoStorageTier = autoStoragePlan.dataProfile;
+      const storageTier = getEffectiveStorageTier(vm.vmName, autoStorageTier);
+      const isStorageTierOverridden = hasStorageTierOverride(vm.vmName);
+      const storagePlan = isStorageTierOverridden
+        ? planVMStorage({ ...storageInput, profileOverride: storageTier })
+        : autoStoragePlan;
 
       return {
         vmName: vm.vmName,
@@ -160,9 +232,13 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
         workloadCategory,
         provisionedStorageGiB,
         inUseStorageGiB,
+        guestUsedStorageGiB,
+        rightSizedProfile,
+        measuredIOPS,
+        storagePlan,
       };
     });
-  }, [poweredOnVMs, customProfiles, getEffectiveProfile, hasOverride, getEffectiveStorageTier, hasStorageTierOverride, vsiProfiles, disks]);
+  }, [poweredOnVMs, customProfiles, getEffectiveProfile, hasOverride, getEffectiveStorageTier, hasStorageTierOverride, vsiProfiles, disks, guestUsage, performanceMetrics, rightSizingHeadroom, storageMetric, guestHeadroom]);
 
   // ===== PROFILE COUNTS & CHART DATA =====
   const profileCounts = useMemo(() => vmProfileMappings.reduce((acc, mapping) => {
@@ -194,61 +270,51 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
   const overriddenVMCount = useMemo(() => vmProfileMappings.filter(m => m.isOverridden).length, [vmProfileMappings]);
 
   // ===== VSI SIZING FOR COST ESTIMATION =====
-  const vsiSizing = useMemo<VSISizingInput>(() => {
-    const profileGroupings = vmProfileMappings.reduce((acc, mapping) => {
-      acc[mapping.profile.name] = (acc[mapping.profile.name] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-    const vmProfiles = Object.entries(profileGroupings).map(([profile, count]) => ({ profile, count }));
-
-    // Compute per-VM boot/data disk breakdown with per-tier storage
-    let totalBootStorageGiB = 0;
-    const storageByTierGiB: Record<string, number> = {};
-    const poweredOnVMNames = new Set(poweredOnVMs.map(vm => vm.vmName));
-
-    for (const mapping of vmProfileMappings) {
-      const vmDisks = disks
-        .filter(d => d.vmName === mapping.vmName && poweredOnVMNames.has(d.vmName))
-        .sort((a, b) => (a.diskKey || 0) - (b.diskKey || 0));
-
-      if (vmDisks.length === 0) continue;
-
-      // Boot disk: lowest diskKey, always general-purpose
-      const bootDisk = vmDisks[0];
-      const isWindows = mapping.guestOS.toLowerCase().includes('windows');
-      const bootGiB = Math.min(
-        Math.max(Math.round(mibToGiB(bootDisk.capacityMiB)), isWindows ? 120 : 100),
-        250
-      );
-      totalBootStorageGiB += bootGiB;
-
-      // Data disks: use VM's workload-based tier
-      const dataDisks = vmDisks.slice(1);
-      if (dataDisks.length > 0) {
-        const dataGiB = dataDisks.reduce((sum, d) => sum + Math.round(mibToGiB(d.capacityMiB)), 0);
-        const tier = mapping.storageTier;
-        storageByTierGiB[tier] = (storageByTierGiB[tier] || 0) + dataGiB;
-      }
-    }
+  const storagePlan = useMemo(
+    () => summarizeStoragePlans(vmProfileMappings.flatMap(m => (m.storagePlan ? [m.storagePlan] : []))),
+    [vmProfileMappings],
+  );
+
+  // Block storage is shared by the allocated and right-sized sizings
+  const vsiStorage = useMemo<Omit<VSISizingInput, 'vmProfiles'>>(() => {
+    // Total planned storage: boot volumes at source size plus scaled data volumes on every tier
+    const totalStorageGiB = storagePlan.bootStorageGiB
+      + Object.values(storagePlan.storageByTierGiB).reduce((sum, gib) => sum + gib, 0)
+      + storagePlan.customIOPS.capacityGiB;
 
     // Convert GiB to TiB for the storageByTier map
     const storageByTier: Record<string, number> = {};
-    for (const [tier, gib] of Object.entries(storageByTierGiB)) {
+    for (const [tier, gib] of Object.entries(storagePlan.storageByTierGiB)) {
       storageByTier[tier] = Math.ceil(gib / 1024);
     }
 
-    // Total storage in TiB (for backward compatibility)
-    const totalStorageGiB = disks
-      .filter(d => poweredOnVMNames.has(d.vmName))
-      .reduce((sum, d) => sum + mibToGiB(d.capacityMiB), 0);
-
     return {
-      vmProfiles,
       storageTiB: Math.ceil(totalStorageGiB / 1024),
-      bootStorageGiB: totalBootStorageGiB,
+      bootStorageGiB: storagePlan.bootStorageGiB,
       storageByTier,
+      ...(storagePlan.customIOPS.volumes > 0 && {
+        customIOPSStorage: { capacityGiB: storagePlan.customIOPS.capacityGiB, iops: storagePlan.customIOPS.iops },
+      }),
+    };
+  }, [storagePlan]);
+
+  const vsiSizing = useMemo<VSISizingInput>(() => ({
+    vmProfiles: groupProfiles(vmProfileMappings.map(m => m.profile.name)),
+    ...vsiStorage,
+  }), [vmProfileMappings, vsiStorage]);
+
+  const rightSizedVMCount = useMemo(() => vmProfileMappings.filter(m => m.rightSizedProfile).length, [vmProfileMappings]);
+
+  // Profile overrides are kept; every other VM with metrics moves to its right-sized profile
+  const rightSizedVsiSizing = useMemo<VSISizingInput | null>(() => {
+    if (rightSizedVMCount === 0) return null;
+    return {
+      vmProfiles: groupProfiles(vmProfileMappings.map(m => (
+        !m.isOverridden && m.rightSizedProfile ? m.rightSizedProfile : m.profile
+      ).name)),
+      ...vsiStorage,
     };
-  }, [vmProfileMappings, disks, poweredOnVMs]);
+  }, [vmProfileMappings, vsiStorage, rightSizedVMCount]);
 
   // ===== AI INSIGHTS DATA =====
   const insightsData = useMemo<InsightsInput | null>(() => {
@@ -322,8 +388,7 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
   // ===== AI WAVE SUGGESTIONS DATA =====
   const waveSuggestionData = useMemo<WaveSuggestionInput | null>(() => {
     if (!isAIProxyConfigured()) return null;
-    const activeWaves = wavePlanning.wavePlanningMode === 'network' ? wavePlanning.networkWaves : wavePlanning.complexityWaves;
-    if (!activeWaves || activeWaves.length === 0) return null;
+    if (wavePlanning.activeWaves.length === 0) return null;
     return {
       waves: wavePlanning.waveResources.map(w => ({
         name: w.name,
@@ -338,7 +403,7 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
       totalVMs: poweredOnVMs.length,
       migrationTarget: 'vsi',
     };
-  }, [wavePlanning.wavePlanningMode, wavePlanning.networkWaves, wavePlanning.complexityWaves, wavePlanning.waveResources, poweredOnVMs.length]);
+  }, [wavePlanning.activeWaves, wavePlanning.waveResources, poweredOnVMs.length]);
 
   // ===== AI COST OPTIMIZATION DATA =====
   const costOptimizationData = useMemo<CostOptimizationInput | null>(() => {
@@ -417,6 +482,9 @@ export function useVSIPageData(config: UseVSIPageDataConfig): UseVSIPageDataRetu
     vsiTotalMemory,
     overriddenVMCount,
     vsiSizing,
+    storagePlan,
+    rightSizedVsiSizing,
+    rightSizedVMCount,
     insightsData,
     waveSuggestionData,
     costOptimizationData,
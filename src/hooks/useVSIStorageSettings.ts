@@ -0,0 +1,51 @@
+/**
+ * VSI Storage Settings Hook
+ *
+ * Manages the storage calculation method used to size VPC block volumes
+ * on the VSI migration page, persisted to localStorage.
+ */
+
+import { useState, useEffect } from 'react';
+import { DEFAULT_GUEST_HEADROOM_PERCENT } from '@/utils/guestStorage';
+import type { StorageMetric } from '@/utils/guestStorage';
+
+const STORAGE_KEY = 'vcf-vsi-storage-settings';
+
+interface VSIStorageSettings {
+  storageMetric: StorageMetric;
+  guestHeadroom: number;
+}
+
+export interface UseVSIStorageSettingsReturn {
+  storageMetric: StorageMetric;
+  setStorageMetric: (value: StorageMetric) => void;
+  guestHeadroom: number;
+  setGuestHeadroom: (value: number) => void;
+}
+
+function loadSettings(): Partial<VSIStorageSettings> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // ignore
+  }
+  return {};
+}
+
+export function useVSIStorageSettings(): UseVSIStorageSettingsReturn {
+  const [initial] = useState(loadSettings);
+  // VSI volumes have always been sized from source disk capacity
+  const [storageMetric, setStorageMetric] = useState<StorageMetric>(initial.storageMetric ?? 'diskCapacity');
+  const [guestHeadroom, setGuestHeadroom] = useState(initial.guestHeadroom ?? DEFAULT_GUEST_HEADROOM_PERCENT);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ storageMetric, guestHeadroom }));
+    } catch {
+      // ignore
+    }
+  }, [storageMetric, guestHeadroom]);
+
+  return { storageMetric, setStorageMetric, guestHeadroom, setGuestHeadroom };
+}
@@ -1,6 +1,13 @@
 // Wave planning hook - manages migration wave organization
+// Generated waves can be edited (move, split, merge, rename, lock); edited plans
+// are persisted per environment fingerprint and replace the generated waves.
+// Dependency-based planning settings (wave caps, application groups) are
+// persisted per environment fingerprint as well.
 
 import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useData } from './useData';
+import { getEnvironmentFingerprint, fingerprintsMatch } from '@/utils/vmIdentifier';
+import { notifyStorageChange, subscribeStorageChange } from '@/utils/storageSync';
 import {
   type MigrationMode,
   type VMWaveData,
@@ -14,11 +21,138 @@ import {
   getWaveChartData,
   getWaveResources,
 } from '@/services/migration';
+import {
+  type EditableWave,
+  type WavePlanKey,
+  getWavePlanKey,
+  toEditableWaves,
+  applyEditableWaves,
+  moveVMsToWave,
+  splitWave as splitPlanWave,
+  mergeWaves as mergePlanWaves,
+  renameWave as renamePlanWave,
+  setWaveLocked as setPlanWaveLocked,
+} from '@/services/migration/wavePlanEditing';
+import {
+  type DependencyWaveConfig,
+  type CutDependency,
+  DEFAULT_DEPENDENCY_WAVE_CONFIG,
+  planDependencyWaves,
+} from '@/services/migration/dependencyWaves';
 import type { VirtualMachine, VDiskInfo, VSnapshotInfo, VToolsInfo, VNetworkInfo } from '@/types/rvtools';
 
-export type WavePlanningMode = 'complexity' | 'network';
+export type WavePlanningMode = 'complexity' | 'network' | 'dependency';
 
 const WAVE_PLANNING_MODE_KEY = 'vcf-wave-planning-mode';
+const WAVE_PLANS_KEY = 'vcf-wave-plans';
+const WAVE_PLANS_VERSION = 1;
+const DEPENDENCY_WAVES_KEY = 'vcf-dependency-waves';
+const DEPENDENCY_WAVES_VERSION = 1;
+
+export interface DependencyWaveSettings extends DependencyWaveConfig {
+  version: number;
+  environmentFingerprint: string;
+  createdAt: string;
+  modifiedAt: string;
+}
+
+export interface WavePlansData {
+  version: number;
+  environmentFingerprint: string;
+  plans: Partial<Record<WavePlanKey, EditableWave[]>>;
+  createdAt: string;
+  modifiedAt: string;
+}
+
+function loadWavePlans(): WavePlansData | null {
+  try {
+    const stored = localStorage.getItem(WAVE_PLANS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed?.version && parsed.plans && typeof parsed.plans === 'object') {
+        return parsed as WavePlansData;
+      }
+    }
+  } catch { /* ignore */ }
+  return null;
+}
+
+function saveWavePlans(data: WavePlansData): void {
+  try {
+    localStorage.setItem(WAVE_PLANS_KEY, JSON.stringify(data));
+    notifyStorageChange(WAVE_PLANS_KEY);
+  } catch { /* localStorage may be unavailable */ }
+}
+
+function createEmptyWavePlans(fingerprint: string): WavePlansData {
+  const now = new Date().toISOString();
+  return {
+    version: WAVE_PLANS_VERSION,
+    environmentFingerprint: fingerprint,
+    plans: {},
+    createdAt: now,
+    modifiedAt: now,
+  };
+}
+
+function resolveWavePlans(fingerprint: string): WavePlansData {
+  if (!fingerprint) return createEmptyWavePlans('');
+  const stored = loadWavePlans();
+  if (stored && fingerprintsMatch(stored.environmentFingerprint, fingerprint)) {
+    return stored;
+  }
+  return createEmptyWavePlans(fingerprint);
+}
+
+function createDefaultDependencySettings(fingerprint: string): DependencyWaveSettings {
+  const now = new Date().toISOString();
+  return {
+    ...DEFAULT_DEPENDENCY_WAVE_CONFIG,
+    version: DEPENDENCY_WAVES_VERSION,
+    environmentFingerprint: fingerprint,
+    createdAt: now,
+    modifiedAt: now,
+  };
+}
+
+function resolveDependencySettings(fingerprint: string): DependencyWaveSettings {
+  if (!fingerprint) return createDefaultDependencySettings('');
+  try {
+    const stored = localStorage.getItem(DEPENDENCY_WAVES_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as DependencyWaveSettings;
+      if (parsed?.version && Array.isArray(parsed.applicationGroups) &&
+          fingerprintsMatch(parsed.environmentFingerprint, fingerprint)) {
+        return parsed;
+      }
+    }
+  } catch { /* ignore */ }
+  return createDefaultDependencySettings(fingerprint);
+}
+
+/**
+ * Load the edited plan for one strategy outside the hook, or null when the
+ * strategy still uses its generated waves
+ */
+export function loadEditedWavePlan(fingerprint: string, planKey: WavePlanKey): EditableWave[] | null {
+  return resolveWavePlans(fingerprint).plans[planKey] ?? null;
+}
+
+/**
+ * Save (or with `plan: null`, discard) the edited plan for one strategy outside
+ * the hook — used by chat actions. Mounted hooks pick the change up.
+ */
+export function saveEditedWavePlan(fingerprint: string, planKey: WavePlanKey, plan: EditableWave[] | null): void {
+  const current = resolveWavePlans(fingerprint);
+  const { [planKey]: _previous, ...rest } = current.plans;
+  void _previous;
+  saveWavePlans({
+    ...current,
+    environmentFingerprint: current.environmentFingerprint || fingerprint,
+    plans: plan ? { ...rest, [planKey]: plan } : rest,
+    modifiedAt: new Date().toISOString(),
+  });
+}
 
 export interface UseWavePlanningConfig {
   mode: MigrationMode;
@@ -43,6 +177,9 @@ export interface UseWavePlanningReturn {
   vmWaveData: VMWaveData[];
   complexityWaves: WaveGroup[];
   networkWaves: NetworkWaveGroup[];
+  dependencyWaves: NetworkWaveGroup[];
+  /** Affinity groups the dependency planner had to split across waves */
+  cutDependencies: CutDependency[];
   activeWaves: WaveGroup[] | NetworkWaveGroup[];
   waveChartData: Array<{ label: string; value: number }>;
   waveResources: Array<{
@@ -54,6 +191,22 @@ export interface UseWavePlanningReturn {
     storageGiB: number;
     hasBlockers: boolean;
   }>;
+
+  // Plan editing — the first edit snapshots the generated waves for the current strategy
+  /** Editable plan for the current strategy (the generated waves until edited) */
+  editableWaves: EditableWave[];
+  isPlanEdited: boolean;
+  moveVMs: (vmNames: string[], targetWaveId: string) => void;
+  splitWave: (waveId: string, vmNames: string[], name?: string) => void;
+  mergeWaves: (sourceWaveId: string, targetWaveId: string) => void;
+  renameWave: (waveId: string, name: string) => void;
+  setWaveLocked: (waveId: string, locked: boolean) => void;
+  /** Discard edits and return to the generated waves for the current strategy */
+  resetWavePlan: () => void;
+
+  // Dependency-based planning settings
+  dependencyConfig: DependencyWaveConfig;
+  setDependencyConfig: (update: Partial<DependencyWaveConfig>) => void;
 }
 
 /**
@@ -61,6 +214,12 @@ export interface UseWavePlanningReturn {
  */
 export function useWavePlanning(config: UseWavePlanningConfig): UseWavePlanningReturn {
   const { mode, vms, complexityScores, disks, snapshots, tools, networks } = config;
+  const { rawData } = useData();
+
+  const currentFingerprint = useMemo(() => {
+    if (!rawData) return '';
+    return getEnvironmentFingerprint(rawData);
+  }, [rawData]);
 
   // Wave planning state — read initial values from localStorage
   const [wavePlanningMode, setWavePlanningMode] = useState<WavePlanningMode>(() => {
@@ -68,7 +227,7 @@ export function useWavePlanning(config: UseWavePlanningConfig): UseWavePlanningR
       const stored = localStorage.getItem(WAVE_PLANNING_MODE_KEY);
       if (stored) {
         const parsed = JSON.parse(stored);
-        if (parsed.wavePlanningMode === 'complexity' || parsed.wavePlanningMode === 'network') {
+        if (parsed.wavePlanningMode === 'complexity' || parsed.wavePlanningMode === 'network' || parsed.wavePlanningMode === 'dependency') {
           return parsed.wavePlanningMode;
         }
       }
@@ -116,12 +275,126 @@ export function useWavePlanning(config: UseWavePlanningConfig): UseWavePlanningR
     [vmWaveData, networkGroupBy]
   );
 
-  // Get active waves based on mode
+  // Dependency-based planning settings
+  const [dependencySettings, setDependencySettings] = useState<DependencyWaveSettings>(
+    () => resolveDependencySettings(currentFingerprint)
+  );
+
+  useEffect(() => {
+    if (!currentFingerprint) return;
+    setDependencySettings(resolveDependencySettings(currentFingerprint));
+  }, [currentFingerprint]);
+
+  const dependencyConfig = useMemo<DependencyWaveConfig>(() => ({
+    maxVMsPerWave: dependencySettings.maxVMsPerWave,
+    maxTiBPerWave: dependencySettings.maxTiBPerWave,
+    applicationGroups: dependencySettings.applicationGroups,
+  }), [dependencySettings]);
+
+  const setDependencyConfig = useCallback((update: Partial<DependencyWaveConfig>) => {
+    setDependencySettings(prev => {
+      const next: DependencyWaveSettings = {
+        ...prev,
+        ...update,
+        environmentFingerprint: prev.environmentFingerprint || currentFingerprint,
+        modifiedAt: new Date().toISOString(),
+      };
+      try {
+        localStorage.setItem(DEPENDENCY_WAVES_KEY, JSON.stringify(next));
+      } catch { /* localStorage may be unavailable */ }
+      return next;
+    });
+  }, [currentFingerprint]);
+
+  // Create dependency-based waves — only computed while that mode is active
+  const dependencyPlan = useMemo(
+    () => wavePlanningMode === 'dependency'
+      ? planDependencyWaves(vms, vmWaveData, networks, dependencyConfig)
+      : { waves: [], cutDependencies: [] },
+    [wavePlanningMode, vms, vmWaveData, networks, dependencyConfig]
+  );
+
+  const generatedWaves = useMemo(
+    () => wavePlanningMode === 'network'
+      ? networkWaves
+      : wavePlanningMode === 'dependency' ? dependencyPlan.waves : complexityWaves,
+    [wavePlanningMode, networkWaves, dependencyPlan, complexityWaves]
+  );
+
+  // Edited plans, persisted per environment fingerprint
+  const [wavePlans, setWavePlans] = useState<WavePlansData>(() => resolveWavePlans(currentFingerprint));
+
+  // Re-sync when environment changes — same pattern as useTimelineConfig
+  useEffect(() => {
+    if (!currentFingerprint) return;
+    setWavePlans(resolveWavePlans(currentFingerprint));
+  }, [currentFingerprint]);
+
+  // Pick up saves from other instances (e.g. chat actions)
+  useEffect(() => subscribeStorageChange(WAVE_PLANS_KEY, () => {
+    if (!currentFingerprint) return;
+    const stored = resolveWavePlans(currentFingerprint);
+    setWavePlans(prev => (prev.modifiedAt === stored.modifiedAt ? prev : stored));
+  }), [currentFingerprint]);
+
+  const planKey = getWavePlanKey(mode, wavePlanningMode, networkGroupBy);
+  const editedPlan = wavePlans.plans[planKey] ?? null;
+
+  // Get active waves: the edited plan when there is one, otherwise the generated waves
   const activeWaves = useMemo(
-    () => (wavePlanningMode === 'network' ? networkWaves : complexityWaves),
-    [wavePlanningMode, networkWaves, complexityWaves]
+    () => (editedPlan ? applyEditableWaves(editedPlan, vmWaveData) : generatedWaves),
+    [editedPlan, vmWaveData, generatedWaves]
+  );
+
+  const editableWaves = useMemo(
+    () => editedPlan ?? toEditableWaves(generatedWaves),
+    [editedPlan, generatedWaves]
   );
 
+  const updatePlan = useCallback((edit: (plan: EditableWave[]) => EditableWave[]) => {
+    setWavePlans(prev => {
+      const plan = edit(prev.plans[planKey] ?? toEditableWaves(generatedWaves));
+      const next: WavePlansData = {
+        ...prev,
+        environmentFingerprint: prev.environmentFingerprint || currentFingerprint,
+        plans: { ...prev.plans, [planKey]: plan },
+        modifiedAt: new Date().toISOString(),
+      };
+      saveWavePlans(next);
+      return next;
+    });
+  }, [planKey, generatedWaves, currentFingerprint]);
+
+  const moveVMs = useCallback((vmNames: string[], targetWaveId: string) => {
+    updatePlan(plan => moveVMsToWave(plan, vmNames, targetWaveId));
+  }, [updatePlan]);
+
+  const splitWave = useCallback((waveId: string, vmNames: string[], name?: string) => {
+    updatePlan(plan => splitPlanWave(plan, waveId, vmNames, name));
+  }, [updatePlan]);
+
+  const mergeWaves = useCallback((sourceWaveId: string, targetWaveId: string) => {
+    updatePlan(plan => mergePlanWaves(plan, sourceWaveId, targetWaveId));
+  }, [updatePlan]);
+
+  const renameWave = useCallback((waveId: string, name: string) => {
+    updatePlan(plan => renamePlanWave(plan, waveId, name));
+  }, [updatePlan]);
+
+  const setWaveLocked = useCallback((waveId: string, locked: boolean) => {
+    updatePlan(plan => setPlanWaveLocked(plan, waveId, locked));
+  }, [updatePlan]);
+
+  const resetWavePlan = useCallback(() => {
+    setWavePlans(prev => {
+      const { [planKey]: _removed, ...rest } = prev.plans;
+      void _removed;
+      const next: WavePlansData = { ...prev, plans: rest, modifiedAt: new Date().toISOString() };
+      saveWavePlans(next);
+      return next;
+    });
+  }, [planKey]);
+
   // Get wave chart data
   const waveChartData = useMemo(
     () => getWaveChartData(activeWaves, wavePlanningMode === 'network'),
@@ -151,9 +424,21 @@ export function useWavePlanning(config: UseWavePlanningConfig): UseWavePlanningR
     vmWaveData,
     complexityWaves,
     networkWaves,
+    dependencyWaves: dependencyPlan.waves,
+    cutDependencies: dependencyPlan.cutDependencies,
     activeWaves,
     waveChartData,
     waveResources,
+    editableWaves,
+    isPlanEdited: editedPlan !== null,
+    moveVMs,
+    splitWave,
+    mergeWaves,
+    renameWave,
+    setWaveLocked,
+    resetWavePlan,
+    dependencyConfig,
+    setDependencyConfig,
   };
 }
 
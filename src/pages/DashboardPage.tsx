@@ -5,6 +5,7 @@ import { Navigate, useNavigate } from 'react-router-dom';
 import { ROUTES } from '@/utils/constants';
 import { DoughnutChart, HorizontalBarChart, VerticalBarChart } from '@/components/charts';
 import { FilterBadge, NextStepBanner, SectionErrorBoundary } from '@/components/common';
+import { VCenterFilter } from '@/components/common/VCenterFilter';
 import { AIInsightsPanel } from '@/components/ai/AIInsightsPanel';
 import { useDashboardData } from '@/hooks/useDashboardData';
 import { DashboardMetricsSection } from '@/components/dashboard/DashboardMetricsSection';
@@ -71,6 +72,7 @@ export function DashboardPage() {
               <> collected on {rawData.metadata.collectionDate.toLocaleDateString()}</>
             )}
           </p>
+          <VCenterFilter />
           {chartFilter && chartFilter.dimension === 'powerState' && (
             <FilterBadge
               dimension="Power State"
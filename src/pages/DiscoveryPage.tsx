@@ -12,6 +12,8 @@ import { DiscoveryVMTable, InfrastructureTab } from '@/components/discovery';
 import { NetworkSummaryTable } from '@/components/network';
 import type { WorkloadMatch } from '@/components/discovery';
 import { getVMIdentifier, getEnvironmentFingerprint } from '@/utils/vmIdentifier';
+import { filterRawDataByVCenter, isInVCenterScope } from '@/utils/filterRawData';
+import { VCenterFilter } from '@/components/common/VCenterFilter';
 import workloadPatterns from '@/data/workloadPatterns.json';
 import './DiscoveryPage.scss';
 
@@ -106,9 +108,22 @@ function detectWorkloads(vms: { vmName: string; annotation: string | null }[]):
 }
 
 export function DiscoveryPage() {
-  const { rawData } = useData();
-  const vms = useVMs();
-  const allVMs = useAllVMs();
+  const { rawData: allRawData, vCenterFilter } = useData();
+  // Narrow to the selected vCenter when several exports are merged
+  const rawData = useMemo(
+    () => (allRawData ? filterRawDataByVCenter(allRawData, vCenterFilter) : null),
+    [allRawData, vCenterFilter]
+  );
+  const sourceVMs = useVMs();
+  const sourceAllVMs = useAllVMs();
+  const vms = useMemo(
+    () => sourceVMs.filter(vm => isInVCenterScope(vm, vCenterFilter)),
+    [sourceVMs, vCenterFilter]
+  );
+  const allVMs = useMemo(
+    () => sourceAllVMs.filter(vm => isInVCenterScope(vm, vCenterFilter)),
+    [sourceAllVMs, vCenterFilter]
+  );
   const vmOverrides = useVMOverrides();
   const { autoExclusionMap, autoExcludedCount } = useAutoExclusion();
 
@@ -117,8 +132,8 @@ export function DiscoveryPage() {
 
   // AI classification - environment fingerprint for cache scoping
   const envFingerprint = useMemo(() => {
-    return rawData ? getEnvironmentFingerprint(rawData) : '';
-  }, [rawData]);
+    return allRawData ? getEnvironmentFingerprint(allRawData) : '';
+  }, [allRawData]);
 
   // AI classification inputs (empty array when no data, so hook won't fetch)
   const aiClassificationInputs = useMemo(() => {
@@ -331,6 +346,7 @@ export function DiscoveryPage() {
           <p className="discovery-page__subtitle">
             Explore workload types, manage migration scope, and analyze network configuration.
           </p>
+          <VCenterFilter />
         </Column>
 
         <Column lg={16} md={8} sm={4}>
@@ -0,0 +1,226 @@
+// Environment Delta page - compares the loaded RVTools export with a newer
+// export of the same vCenter and flags planning decisions that are now stale
+import { useState, useMemo, useCallback } from 'react';
+import { Grid, Column, Tile, Button, InlineNotification } from '@carbon/react';
+import { Download, Reset } from '@carbon/icons-react';
+import { Navigate } from 'react-router-dom';
+import type { ColumnDef } from '@tanstack/react-table';
+import { useData, useVMOverrides, useAutoExclusion, usePlatformSelection, useWavePlanning } from '@/hooks';
+import { useRiskAssessment } from '@/hooks/useRiskAssessment';
+import { ROUTES } from '@/utils/constants';
+import { formatNumber, mibToGiB } from '@/utils/formatters';
+import { getVMIdentifier } from '@/utils/vmIdentifier';
+import { MetricCard } from '@/components/common';
+import { EnhancedDataTable } from '@/components/tables';
+import { FileUpload } from '@/components/upload';
+import { calculateComplexityScores } from '@/services/migration';
+import { generateAutoRisks } from '@/services/riskAssessment';
+import {
+  compareEnvironments,
+  getDeltaChangeRows,
+  getStalePlanningRows,
+  hasEnvironmentChanges,
+  type DeltaChangeRow,
+  type StalePlanningRow,
+} from '@/services/environmentDelta';
+import { downloadEnvironmentDeltaExcel } from '@/services/export/excelGenerator';
+import type { RVToolsData } from '@/types/rvtools';
+import './EnvironmentDeltaPage.scss';
+
+const changeColumns: ColumnDef<DeltaChangeRow, unknown>[] = [
+  { accessorKey: 'change', header: 'Change', enableSorting: true },
+  { accessorKey: 'vmName', header: 'VM Name', enableSorting: true },
+  { accessorKey: 'before', header: 'Before', enableSorting: false },
+  { accessorKey: 'after', header: 'After', enableSorting: false },
+];
+
+const staleColumns: ColumnDef<StalePlanningRow, unknown>[] = [
+  { accessorKey: 'item', header: 'Item', enableSorting: true },
+  { accessorKey: 'name', header: 'Name', enableSorting: true },
+  { accessorKey: 'reason', header: 'Reason', enableSorting: true },
+  {
+    accessorKey: 'edited',
+    header: 'Edited',
+    enableSorting: true,
+    cell: (info) => (info.getValue() ? 'Yes' : 'No'),
+  },
+  { accessorKey: 'detail', header: 'Detail', enableSorting: false },
+];
+
+export function EnvironmentDeltaPage() {
+  const { rawData } = useData();
+  const vmOverrides = useVMOverrides();
+  const { overrides } = vmOverrides;
+  const { getAutoExclusionById } = useAutoExclusion();
+  const { score: platformScore } = usePlatformSelection();
+  const { overriddenRowIds } = useRiskAssessment();
+  const [currentData, setCurrentData] = useState<RVToolsData | null>(null);
+  const waveMode = platformScore.leaning === 'vsi' ? 'vsi' : 'roks';
+
+  // Wave assignments as currently planned against the loaded (baseline) export,
+  // built from the same in-scope VMs as the migration pages
+  const baselineVMs = useMemo(
+    () => (rawData?.vInfo ?? []).filter(vm => {
+      if (vm.powerState !== 'poweredOn' || vm.template) return false;
+      const vmId = getVMIdentifier(vm);
+      return !vmOverrides.isEffectivelyExcluded(vmId, getAutoExclusionById(vmId).isAutoExcluded);
+    }),
+    [rawData, vmOverrides, getAutoExclusionById]
+  );
+  const baselineScores = useMemo(
+    () => rawData ? calculateComplexityScores(baselineVMs, rawData.vDisk, rawData.vNetwork, waveMode) : [],
+    [rawData, baselineVMs, waveMode]
+  );
+  const { activeWaves } = useWavePlanning({
+    mode: waveMode,
+    vms: baselineVMs,
+    complexityScores: baselineScores,
+    disks: rawData?.vDisk ?? [],
+    snapshots: rawData?.vSnapshot ?? [],
+    tools: rawData?.vTools ?? [],
+    networks: rawData?.vNetwork ?? [],
+  });
+
+  const comparison = useMemo(() => {
+    if (!rawData || !currentData) return null;
+    try {
+      const delta = compareEnvironments(rawData, currentData, {
+        vmOverrides: overrides,
+        waves: activeWaves.map(wave => ({ waveName: wave.name, vmNames: wave.vms.map(vm => vm.vmName) })),
+        baselineRisks: generateAutoRisks(rawData),
+        currentRisks: generateAutoRisks(currentData),
+        riskOverrideIds: overriddenRowIds,
+      });
+      return { delta, error: null };
+    } catch (error) {
+      return { delta: null, error: error instanceof Error ? error.message : 'Comparison failed' };
+    }
+  }, [rawData, currentData, overrides, activeWaves, overriddenRowIds]);
+
+  const delta = comparison?.delta ?? null;
+  const changeRows = useMemo(() => delta ? getDeltaChangeRows(delta) : [], [delta]);
+  const staleRows = useMemo(() => delta ? getStalePlanningRows(delta) : [], [delta]);
+
+  const handleDataParsed = useCallback((data: RVToolsData) => {
+    setCurrentData(data);
+  }, []);
+
+  if (!rawData) {
+    return <Navigate to={ROUTES.home} replace />;
+  }
+
+  const inUseGrowthGiB = delta
+    ? mibToGiB(delta.storage.inUseMiBAfter - delta.storage.inUseMiBBefore)
+    : 0;
+
+  return (
+    <div className="environment-delta-page">
+      <Grid>
+        <Column lg={16} md={8} sm={4}>
+          <h1 className="environment-delta-page__title">Environment Delta</h1>
+          <p className="environment-delta-page__subtitle">
+            Compare the loaded export ({rawData.metadata.fileName}) with a newer RVTools export of the same vCenter
+          </p>
+        </Column>
+
+        {!currentData && (
+          <Column lg={16} md={8} sm={4}>
+            <Tile className="environment-delta-page__upload">
+              <FileUpload onDataParsed={handleDataParsed} />
+            </Tile>
+          </Column>
+        )}
+
+        {comparison?.error && (
+          <Column lg={16} md={8} sm={4}>
+            <InlineNotification
+              kind="error"
+              title="Cannot compare exports"
+              subtitle={comparison.error}
+              lowContrast
+              hideCloseButton
+            />
+          </Column>
+        )}
+
+        {currentData && (
+          <Column lg={16} md={8} sm={4}>
+            <div className="environment-delta-page__actions">
+              <Button kind="secondary" size="md" renderIcon={Reset} onClick={() => setCurrentData(null)}>
+                Compare Another Export
+              </Button>
+              {delta && (
+                <Button kind="tertiary" size="md" renderIcon={Download} onClick={() => downloadEnvironmentDeltaExcel(delta)}>
+                  Export Excel
+                </Button>
+              )}
+            </div>
+          </Column>
+        )}
+
+        {delta && (
+          <>
+            {!hasEnvironmentChanges(delta) && (
+              <Column lg={16} md={8} sm={4}>
+                <InlineNotification
+                  kind="success"
+                  title="No changes"
+                  subtitle="Both exports describe the same VMs, sizes and snapshots."
+                  lowContrast
+                  hideCloseButton
+                />
+              </Column>
+            )}
+
+            <Column lg={4} md={2} sm={2}>
+              <MetricCard label="VMs Added" value={formatNumber(delta.addedVMs.length)} variant="primary" />
+            </Column>
+            <Column lg={4} md={2} sm={2}>
+              <MetricCard label="VMs Removed" value={formatNumber(delta.removedVMs.length)} variant="info" />
+            </Column>
+            <Column lg={4} md={2} sm={2}>
+              <MetricCard
+                label="VMs Resized"
+                value={formatNumber(delta.resizedVMs.length)}
+                detail={`${delta.osChanges.length} guest OS changes`}
+                variant="teal"
+              />
+            </Column>
+            <Column lg={4} md={2} sm={2}>
+              <MetricCard
+                label="In-Use Storage Growth"
+                value={`${inUseGrowthGiB >= 0 ? '+' : ''}${formatNumber(Math.round(inUseGrowthGiB))} GiB`}
+                detail={`${delta.newSnapshots.length} new snapshots`}
+                variant="purple"
+              />
+            </Column>
+
+            <Column lg={16} md={8} sm={4}>
+              <Tile className="environment-delta-page__table-tile">
+                <EnhancedDataTable
+                  data={changeRows}
+                  columns={changeColumns}
+                  title="VM Changes"
+                  description={`${delta.baselineFileName} → ${delta.currentFileName}`}
+                  exportFilename="environment-delta"
+                />
+              </Tile>
+            </Column>
+
+            <Column lg={16} md={8} sm={4}>
+              <Tile className="environment-delta-page__table-tile">
+                <EnhancedDataTable
+                  data={staleRows}
+                  columns={staleColumns}
+                  title="Stale Planning Items"
+                  description="VM overrides, wave assignments and risk rows that were decided against the older export"
+                  exportFilename="environment-delta-stale"
+                />
+              </Tile>
+            </Column>
+          </>
+        )}
+      </Grid>
+    </div>
+  );
+}
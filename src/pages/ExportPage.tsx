@@ -30,9 +30,11 @@ import {
   Debug,
   Kubernetes,
   Deploy,
+  Code,
+  Script,
 } from '@carbon/icons-react';
 import { Navigate } from 'react-router-dom';
-import { useData, usePDFExport, useExcelExport, useDocxExport, usePptxExport, useAISettings, useVMs, useAllVMs, useAutoExclusion, usePlatformSelection, useVMOverrides, useMigrationAssessment, useWavePlanning } from '@/hooks';
+import { useData, usePDFExport, useExcelExport, useDocxExport, usePptxExport, useAISettings, useVMs, useAllVMs, useAutoExclusion, usePlatformSelection, useVMOverrides, useMigrationAssessment, useWavePlanning, useTCOSettings, useVMwareRetainSettings } from '@/hooks';
 import { useTimelineConfig } from '@/hooks/useTimelineConfig';
 import { downloadHandoverFile } from '@/services/export/handoverExporter';
 import { extractSettingsFromFile, type ExtractedSettings } from '@/services/settingsExtractor';
@@ -41,37 +43,52 @@ import { SETTINGS_LABELS } from '@/services/settingsLabels';
 import { useWorkflowProgress } from '@/hooks/useWorkflowProgress';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { fetchAIInsights } from '@/services/ai/aiInsightsApi';
+import { buildRuleBasedInsights } from '@/services/ai/ruleBasedFallbacks';
 import { buildInsightsInput } from '@/services/ai/insightsInputBuilder';
 import { ROUTES } from '@/utils/constants';
 import { formatNumber } from '@/utils/formatters';
 import { createLogger } from '@/utils/logger';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
 import { filterRawDataByExclusions } from '@/utils/filterRawData';
+import { buildMigrationRamp, getVMwareLicensedCores, projectTCO, type TCOProjection, type TCOScenarioInput } from '@/services/tcoProjection';
+import { calculateVMwareRetainCost, ROKS_VSI_ARCHITECTURE, type CostEstimate } from '@/services/costEstimation';
+import { sizeVMwareRetain, getCloudBlockerSummary } from '@/services/migration/vmwareRetainSizing';
 import type { PDFExportOptions } from '@/hooks/usePDFExport';
 import type { RVToolsData } from '@/types/rvtools';
 import type { MigrationInsights } from '@/services/ai/types';
-import { getWavePlanningPreference, getPlatformSelectionExport, getRiskAssessmentExport, getVPCDesignExport, getTargetAssignmentsExport, getWorkloadClassificationExport, getSourceEnvironmentExport } from '@/services/export/docx/types';
+import { getWavePlanningPreference, getPlatformSelectionExport, getRiskAssessmentExport, getVPCDesignExport, getTargetAssignmentsExport, getWorkloadClassificationExport, getSourceEnvironmentExport, type VMwareRetainExport } from '@/services/export/docx/types';
 import { getDefaultFilename, sanitizeFilename } from '@/utils/exportFilenames';
-import { runPreFlightChecks, type CheckMode } from '@/services/preflightChecks';
+import { runPreFlightChecks, derivePreflightCounts, type CheckMode } from '@/services/preflightChecks';
+import { generateRemediationItems } from '@/services/migration';
 import { exportPreFlightExcel, downloadWavePlanningExcel } from '@/services/export/excelGenerator';
 import { buildDiagnosticBundle, downloadDiagnosticBundle } from '@/services/diagnosticBundle';
 import { getCachedBOM, hasCachedBOM } from '@/services/bomCache';
-import { downloadVSIBOMExcel, downloadROKSBOMExcel, MTVYAMLGenerator, downloadBlob } from '@/services/export';
+import { downloadVSIBOMExcel, downloadROKSBOMExcel, downloadBlob, generateTerraformBundle, buildTerraformVSIs, generateAnsibleBundle, getAutomatedRemediations } from '@/services/export';
+import { buildVPCDesign } from '@/services/network/vpcDesignService';
 import type { MTVExportOptions } from '@/types/mtvYaml';
 import { RackwareExportModal } from '@/components/export/RackwareExportModal';
+import { MTVExportModal } from '@/components/export/MTVExportModal';
 import './ExportPage.scss';
 
 const logger = createLogger('ExportPage');
 
 const AI_INSIGHTS_TIMEOUT_MS = 45000;
 
+// Pre-flight report targets, in switcher order
+const PREFLIGHT_MODES: CheckMode[] = ['roks', 'ove', 'vsi'];
+
+/** AI insights for an export, or rule-based insights when AI is unavailable or fails */
 async function fetchInsightsForExport(
   rawData: RVToolsData,
   exportType: string,
-): Promise<{ insights: MigrationInsights | null; warning: string | null }> {
+  aiAvailable: boolean,
+): Promise<{ insights: MigrationInsights; warning: string | null }> {
+  const insightsInput = buildInsightsInput(rawData);
+  const fallback = (warning: string | null) => ({ insights: buildRuleBasedInsights(insightsInput), warning });
+  if (!aiAvailable) return fallback(null);
+
   logger.info(`[${exportType}] Fetching AI insights for export`);
   try {
-    const insightsInput = buildInsightsInput(rawData);
     const result = await Promise.race([
       fetchAIInsights(insightsInput),
       new Promise<'timeout'>((resolve) =>
@@ -80,17 +97,17 @@ async function fetchInsightsForExport(
     ]);
     if (result === 'timeout') {
       logger.warn(`[${exportType}] AI insights timed out`);
-      return { insights: null, warning: `AI insights timed out — report generated without AI sections.` };
+      return fallback('AI insights timed out — report generated with rule-based insights.');
     }
     if (!result) {
-      return { insights: null, warning: 'AI insights returned empty data — report generated without AI sections.' };
+      return fallback('AI insights returned empty data — report generated with rule-based insights.');
     }
     logger.info(`[${exportType}] AI insights fetched successfully`);
     return { insights: result, warning: null };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     logger.error(`[${exportType}] AI insights fetch failed`, error instanceof Error ? error : new Error(message));
-    return { insights: null, warning: `AI insights failed: ${message} — report generated without AI sections.` };
+    return fallback(`AI insights failed: ${message} — report generated with rule-based insights.`);
   }
 }
 
@@ -143,8 +160,14 @@ export function ExportPage() {
   // RackWare modal
   const [rackwareModalOpen, setRackwareModalOpen] = useState(false);
 
-  // MTV export state
-  const [mtvExporting, setMtvExporting] = useState(false);
+  // MTV export modal
+  const [mtvModalOpen, setMtvModalOpen] = useState(false);
+
+  // Terraform export state
+  const [terraformExporting, setTerraformExporting] = useState(false);
+
+  // Ansible export state
+  const [ansibleExporting, setAnsibleExporting] = useState(false);
 
   // ===== Filename state =====
   const filenameCtx = useMemo(() => ({
@@ -157,8 +180,10 @@ export function ExportPage() {
   const [includeAppendices, setIncludeAppendices] = useState(true);
   const [pptxFilename, setPptxFilename] = useState(() => getDefaultFilename('pptx', filenameCtx));
   const [preflightFilename, setPreflightFilename] = useState(() => getDefaultFilename('preflight', { ...filenameCtx, mode: preflightMode }));
+  const [ansibleFilename, setAnsibleFilename] = useState(() => getDefaultFilename('ansible', { ...filenameCtx, mode: preflightMode }));
   const [wavesFilename, setWavesFilename] = useState(() => getDefaultFilename('waves', filenameCtx));
   const [mtvYamlFilename, setMtvYamlFilename] = useState(() => getDefaultFilename('mtv-yaml', filenameCtx));
+  const [terraformFilename, setTerraformFilename] = useState(() => getDefaultFilename('terraform', { ...filenameCtx, region: getCachedBOM('vsi')?.region }));
   const [vsiBomFilename, setVsiBomFilename] = useState(() => getDefaultFilename('vsi-bom', filenameCtx));
   const [roksBomFilename, setRoksBomFilename] = useState(() => getDefaultFilename('roks-bom', filenameCtx));
   const [handoverFilename, setHandoverFilename] = useState(() => getDefaultFilename('handover', filenameCtx));
@@ -219,12 +244,57 @@ export function ExportPage() {
     waveCount, waveVmCounts, waveNames, waveStorageGiB
   );
 
+  // ===== Retain VMware (same sizing as Migration Review) =====
+  const { settings: vmwareRetainSettings } = useVMwareRetainSettings();
+  const buildVMwareRetainExport = useCallback((bom: ReturnType<typeof getCachedBOM>): VMwareRetainExport | null => {
+    if (!filteredRawData) return null;
+    const sizing = sizeVMwareRetain(filteredRawData, vmwareRetainSettings);
+    const estimate = sizing.totalHosts > 0
+      ? calculateVMwareRetainCost({ hostProfile: sizing.hostProfileId, hosts: sizing.totalHosts }, bom?.region, bom?.discountType)
+      : null;
+    return { sizing, estimate, blockers: getCloudBlockerSummary(filteredRawData, includedVMs) };
+  }, [filteredRawData, includedVMs, vmwareRetainSettings]);
+
+  // ===== Multi-year TCO (same model as Migration Review) =====
+  const tcoSettings = useTCOSettings();
+  const buildTCOExport = useCallback((
+    roksEstimate: CostEstimate | null | undefined,
+    vsiEstimate: CostEstimate | null | undefined,
+    vmwareRetainEstimate?: CostEstimate | null,
+  ): TCOProjection | null => {
+    if (!rawData) return null;
+    const scenarios: TCOScenarioInput[] = [];
+    if (roksEstimate) {
+      // Bare metal ROKS sizing already includes storage growth; VSI worker pools do not
+      const growthSized = roksEstimate.architecture !== ROKS_VSI_ARCHITECTURE;
+      scenarios.push({ id: 'roks', label: 'All ROKS', monthlyCost: roksEstimate.totalMonthly, growthSizedMonthlyCost: growthSized ? roksEstimate.totalMonthly : 0 });
+    }
+    if (vsiEstimate) scenarios.push({ id: 'vsi', label: 'All VSI', monthlyCost: vsiEstimate.totalMonthly });
+    if (vmwareRetainEstimate) scenarios.push({ id: 'vmware-retain', label: 'Retain VMware (VCF)', monthlyCost: vmwareRetainEstimate.totalMonthly });
+    if (scenarios.length === 0) return null;
+
+    return projectTCO({
+      scenarios,
+      baseline: tcoSettings.baseline,
+      licensedCores: tcoSettings.baseline.licensedCoresOverride ?? getVMwareLicensedCores(rawData),
+      ramp: buildMigrationRamp(timelinePhases),
+      annualGrowthRate: tcoSettings.annualGrowthRate,
+      horizonYears: tcoSettings.planningHorizonYears,
+    });
+  }, [rawData, tcoSettings.baseline, tcoSettings.annualGrowthRate, tcoSettings.planningHorizonYears, timelinePhases]);
+
   // ===== Pre-flight check results =====
   const preflightResults = useMemo(
     () => filteredRawData ? runPreFlightChecks(filteredRawData, preflightMode) : [],
     [filteredRawData, preflightMode]
   );
 
+  const remediationItems = useMemo(
+    () => generateRemediationItems(derivePreflightCounts(preflightResults, preflightMode), preflightMode),
+    [preflightResults, preflightMode]
+  );
+  const automatedRemediations = useMemo(() => getAutomatedRemediations(remediationItems), [remediationItems]);
+
   const handleImportFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -270,12 +340,8 @@ export function ExportPage() {
   const handleExportPDF = useCallback(async () => {
     if (!rawData) return;
     setAIWarning(null);
-    let aiInsights = null;
-    if (aiAvailable) {
-      const { insights, warning } = await fetchInsightsForExport(rawData, 'PDF');
-      aiInsights = insights;
-      if (warning) setAIWarning(warning);
-    }
+    const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'PDF', aiAvailable);
+    if (warning) setAIWarning(warning);
     await exportPDF(rawData, { ...pdfOptions, aiInsights }, sanitizeFilename(pdfFilename, '.pdf'));
     markExportComplete();
   }, [rawData, pdfOptions, exportPDF, aiAvailable, markExportComplete, pdfFilename]);
@@ -283,12 +349,8 @@ export function ExportPage() {
   const handleExportExcel = useCallback(async () => {
     if (!rawData) return;
     setAIWarning(null);
-    let aiInsights = null;
-    if (aiAvailable) {
-      const { insights, warning } = await fetchInsightsForExport(rawData, 'Excel');
-      aiInsights = insights;
-      if (warning) setAIWarning(warning);
-    }
+    const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'Excel', aiAvailable);
+    if (warning) setAIWarning(warning);
     exportExcel(rawData, sanitizeFilename(excelFilename, '.xlsx'), aiInsights);
     markExportComplete();
   }, [rawData, exportExcel, aiAvailable, markExportComplete, excelFilename]);
@@ -296,12 +358,8 @@ export function ExportPage() {
   const handleExportDocx = useCallback(async () => {
     if (!rawData) return;
     setAIWarning(null);
-    let aiInsights = null;
-    if (aiAvailable) {
-      const { insights, warning } = await fetchInsightsForExport(rawData, 'DOCX');
-      aiInsights = insights;
-      if (warning) setAIWarning(warning);
-    }
+    const { insights: aiInsights, warning } = await fetchInsightsForExport(rawData, 'DOCX', aiAvailable);
+    if (warning) setAIWarning(warning);
 
     // Gather all user inputs from localStorage
     const platformSelection = getPlatformSelectionExport(rawData);
@@ -313,10 +371,11 @@ export function ExportPage() {
 
     const roksBOM = getCachedBOM('roks');
     const vsiBOM = getCachedBOM('vsi');
+    const vmwareRetain = buildVMwareRetainExport(roksBOM ?? vsiBOM);
 
     await exportDocx(rawData, {
       aiInsights,
-      wavePlanningPreference: getWavePlanningPreference(),
+      wavePlanningPreference: getWavePlanningPreference(rawData),
       platformSelection,
       riskAssessment,
       timelinePhases: timelinePhases.length > 0 ? timelinePhases : null,
@@ -329,9 +388,11 @@ export function ExportPage() {
       filteredRawData,
       roksCostEstimate: roksBOM?.estimate ?? null,
       vsiCostEstimate: vsiBOM?.estimate ?? null,
+      tcoProjection: buildTCOExport(roksBOM?.estimate, vsiBOM?.estimate, vmwareRetain?.estimate),
+      vmwareRetain,
     }, sanitizeFilename(docxFilename, '.docx'));
     markExportComplete();
-  }, [rawData, filteredRawData, exportDocx, aiAvailable, markExportComplete, docxFilename, includeAppendices, timelinePhases, timelineStartDate]);
+  }, [rawData, filteredRawData, exportDocx, aiAvailable, markExportComplete, docxFilename, includeAppendices, timelinePhases, timelineStartDate, buildTCOExport, buildVMwareRetainExport]);
 
   const handleExportPptx = useCallback(async () => {
     if (!rawData) return;
@@ -340,15 +401,16 @@ export function ExportPage() {
     const vsiBOMPptx = getCachedBOM('vsi');
     await exportPptx(rawData, {
       platformSelection,
-      wavePlanningPreference: getWavePlanningPreference(),
+      wavePlanningPreference: getWavePlanningPreference(rawData),
       filteredRawData,
       roksCostEstimate: roksBOMPptx?.estimate ?? null,
       vsiCostEstimate: vsiBOMPptx?.estimate ?? null,
       timelinePhases: timelinePhases.length > 0 ? timelinePhases : null,
       timelineStartDate,
+      tcoProjection: buildTCOExport(roksBOMPptx?.estimate, vsiBOMPptx?.estimate),
     }, sanitizeFilename(pptxFilename, '.pptx'));
     markExportComplete();
-  }, [rawData, filteredRawData, exportPptx, markExportComplete, answers, score, pptxFilename, timelinePhases, timelineStartDate]);
+  }, [rawData, filteredRawData, exportPptx, markExportComplete, answers, score, pptxFilename, timelinePhases, timelineStartDate, buildTCOExport]);
 
   const handleExportHandover = useCallback(async () => {
     if (!originalFileBuffer || !originalFileName) return;
@@ -364,6 +426,27 @@ export function ExportPage() {
     markExportComplete();
   }, [preflightResults, preflightMode, markExportComplete, preflightFilename]);
 
+  const handleExportAnsible = useCallback(async () => {
+    if (!rawData || remediationItems.length === 0) return;
+    setAnsibleExporting(true);
+    try {
+      const vcenter = rawData.vSource?.[0]?.server;
+      const blob = await generateAnsibleBundle(
+        remediationItems,
+        wavePlanning.activeWaves.map(w => ({ name: w.name, vmNames: w.vms.map(vm => vm.vmName) })),
+        poweredOnVMs,
+        rawData.vCD,
+        vcenter ? { vcenterHostname: vcenter } : {},
+      );
+      downloadBlob(blob, sanitizeFilename(ansibleFilename, '.zip'));
+      markExportComplete();
+    } catch (error) {
+      logger.error('Ansible export failed', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      setAnsibleExporting(false);
+    }
+  }, [rawData, remediationItems, wavePlanning.activeWaves, poweredOnVMs, markExportComplete, ansibleFilename]);
+
   const handleExportWaves = useCallback(() => {
     const waves = wavePlanning.activeWaves;
     if (!waves || waves.length === 0) return;
@@ -372,6 +455,7 @@ export function ExportPage() {
       wavePlanning.wavePlanningMode,
       wavePlanning.wavePlanningMode === 'network' ? wavePlanning.networkGroupBy : undefined,
       sanitizeFilename(wavesFilename, '.xlsx'),
+      wavePlanning.cutDependencies,
     );
     markExportComplete();
   }, [wavePlanning, markExportComplete, wavesFilename]);
@@ -400,33 +484,42 @@ export function ExportPage() {
       cached.region,
       cached.discountType,
       sanitizeFilename(roksBomFilename, '.xlsx'),
+      cached.oveEstimate,
     );
     markExportComplete();
   }, [markExportComplete, roksBomFilename]);
 
-  const handleExportMTVYAML = useCallback(async () => {
-    const waves = wavePlanning.activeWaves;
-    if (!waves || waves.length === 0 || !rawData) return;
-    setMtvExporting(true);
+  const mtvWaves = useMemo(() => wavePlanning.activeWaves.map(w => ({
+    name: w.name,
+    vms: poweredOnVMs.filter(vm => w.vms.some(wv => wv.vmName === vm.vmName)),
+  })), [wavePlanning.activeWaves, poweredOnVMs]);
+
+  const mtvOptions = useMemo<MTVExportOptions>(() => {
+    const vcenter = rawData?.vSource?.[0]?.server;
+    return {
+      ...DEFAULT_MTV_OPTIONS,
+      ...(vcenter && { vcenterUrl: `https://${vcenter}/sdk` }),
+    };
+  }, [rawData]);
+
+  const handleExportTerraform = useCallback(async () => {
+    if (!rawData || poweredOnVMs.length === 0) return;
+    setTerraformExporting(true);
     try {
-      const generator = new MTVYAMLGenerator(DEFAULT_MTV_OPTIONS);
-      const waveData = waves.map(w => ({
-        name: w.name,
-        vms: poweredOnVMs.filter(vm => w.vms.some(wv => wv.vmName === vm.vmName)),
-      }));
-      const blob = await generator.generateBundle(
-        waveData,
-        rawData.vNetwork,
-        rawData.vDatastore,
-      );
-      downloadBlob(blob, sanitizeFilename(mtvYamlFilename, '.zip'));
+      // Saved network design if configured, otherwise the default design for the in-scope VMs
+      const cached = getCachedBOM('vsi');
+      const design = getVPCDesignExport(rawData)
+        ?? buildVPCDesign(filteredRawData ?? rawData, cached?.region || 'us-south', {}, {});
+      const vsis = buildTerraformVSIs(poweredOnVMs, disks, networks, cached?.vmDetails);
+      const blob = await generateTerraformBundle(design, vsis);
+      downloadBlob(blob, sanitizeFilename(terraformFilename, '.zip'));
       markExportComplete();
     } catch (error) {
-      logger.error('MTV YAML export failed', error instanceof Error ? error : new Error(String(error)));
+      logger.error('Terraform export failed', error instanceof Error ? error : new Error(String(error)));
     } finally {
-      setMtvExporting(false);
+      setTerraformExporting(false);
     }
-  }, [wavePlanning.activeWaves, rawData, poweredOnVMs, markExportComplete, mtvYamlFilename]);
+  }, [rawData, filteredRawData, poweredOnVMs, disks, networks, markExportComplete, terraformFilename]);
 
   const handleExportDiagnostics = useCallback(() => {
     const allVms = rawData?.vInfo ?? [];
@@ -461,7 +554,7 @@ export function ExportPage() {
 
   const totalVMs = vms.length;
   const hasAnyPdfSelected = Object.values(pdfOptions).some(v => v);
-  const isAnyExporting = isPDFExporting || isExcelExporting || isDocxExporting || isPptxExporting || mtvExporting;
+  const isAnyExporting = isPDFExporting || isExcelExporting || isDocxExporting || isPptxExporting || terraformExporting || ansibleExporting;
   const anyError = pdfError || excelError || docxError || pptxError;
   const hasVSIBOM = hasCachedBOM('vsi');
   const hasROKSBOM = hasCachedBOM('roks');
@@ -510,7 +603,9 @@ export function ExportPage() {
             <p className="export-page__summary-description">
               The <strong>PDF</strong> covers infrastructure discovery — a snapshot of your current VMware environment.
               The <strong>Word document</strong> is the full migration assessment report with sizing, costs, risks, and recommendations.
-              {aiAvailable && ' AI-powered insights from watsonx.ai are included automatically in both.'}
+              {aiAvailable
+                ? ' AI-powered insights from watsonx.ai are included automatically in both.'
+                : ' Rule-based insights are included in both; enable AI in Settings for AI-generated insights.'}
             </p>
           </Tile>
         </Column>
@@ -782,10 +877,12 @@ export function ExportPage() {
                   const newMode = e.name as CheckMode;
                   setPreflightMode(newMode);
                   setPreflightFilename(getDefaultFilename('preflight', { ...filenameCtx, mode: newMode }));
+                  setAnsibleFilename(getDefaultFilename('ansible', { ...filenameCtx, mode: newMode }));
                 }}
-                selectedIndex={preflightMode === 'roks' ? 0 : 1}
+                selectedIndex={PREFLIGHT_MODES.indexOf(preflightMode)}
               >
                 <Switch name="roks" text="ROKS" />
+                <Switch name="ove" text="OVE" />
                 <Switch name="vsi" text="VSI" />
               </ContentSwitcher>
             </div>
@@ -810,6 +907,45 @@ export function ExportPage() {
           </Tile>
         </Column>
 
+        {/* Ansible Remediation */}
+        <Column lg={8} md={4} sm={4}>
+          <Tile className="export-page__card">
+            <div className="export-page__card-header">
+              <Script size={24} className="export-page__card-icon" />
+              <div>
+                <h3 className="export-page__card-title">Ansible Remediation</h3>
+                <p className="export-page__card-description">
+                  Ansible inventory grouped by wave and remediation type, with community.vmware playbooks for the {preflightMode.toUpperCase()} pre-flight findings that can be automated. Every playbook supports a dry run with --tags dry_run.
+                </p>
+              </div>
+            </div>
+            <p className="export-page__card-helper">
+              {automatedRemediations.length > 0
+                ? `${automatedRemediations.length} automated fix${automatedRemediations.length !== 1 ? 'es' : ''}: ${automatedRemediations.map(r => r.title).join(', ')}`
+                : 'No pre-flight findings can be fixed automatically — the bundle lists manual steps only.'}
+            </p>
+            <TextInput
+              id="ansible-filename"
+              labelText="Filename"
+              size="sm"
+              value={ansibleFilename}
+              onChange={(e) => setAnsibleFilename(e.target.value)}
+              disabled={remediationItems.length === 0}
+              className="export-page__card-filename"
+            />
+            <Button
+              kind="primary"
+              size="md"
+              renderIcon={Script}
+              onClick={handleExportAnsible}
+              disabled={remediationItems.length === 0 || ansibleExporting}
+              className="export-page__card-action"
+            >
+              {ansibleExporting ? 'Generating...' : 'Export Ansible'}
+            </Button>
+          </Tile>
+        </Column>
+
         {/* Wave Planning */}
         <Column lg={8} md={4} sm={4}>
           <Tile className="export-page__card">
@@ -855,7 +991,7 @@ export function ExportPage() {
               <div>
                 <h3 className="export-page__card-title">MTV YAML Bundle</h3>
                 <p className="export-page__card-description">
-                  Migration Toolkit for Virtualization YAML manifests — migration plans, network maps, and storage maps for OpenShift deployment.
+                  Migration Toolkit for Virtualization YAML manifests — providers, credentials secret, network and storage maps, and a migration plan and Migration CR per wave for OpenShift deployment.
                 </p>
               </div>
             </div>
@@ -875,11 +1011,48 @@ export function ExportPage() {
               kind="primary"
               size="md"
               renderIcon={Kubernetes}
-              onClick={handleExportMTVYAML}
-              disabled={!hasWaves || mtvExporting}
+              onClick={() => setMtvModalOpen(true)}
+              disabled={!hasWaves}
               className="export-page__card-action"
             >
-              {mtvExporting ? 'Generating...' : 'Export MTV YAML'}
+              Export MTV YAML
+            </Button>
+          </Tile>
+        </Column>
+
+        {/* Terraform */}
+        <Column lg={8} md={4} sm={4}>
+          <Tile className="export-page__card">
+            <div className="export-page__card-header">
+              <Code size={24} className="export-page__card-icon" />
+              <div>
+                <h3 className="export-page__card-title">Terraform Bundle</h3>
+                <p className="export-page__card-description">
+                  Terraform configuration for IBM Cloud VPC — VPC, subnets, security groups, network ACLs, transit gateways, and one virtual server instance with volumes per in-scope VM.
+                </p>
+              </div>
+            </div>
+            {poweredOnVMs.length === 0 && (
+              <p className="export-page__card-helper">No VMs available for Terraform export.</p>
+            )}
+            <TextInput
+              id="terraform-filename"
+              labelText="Filename"
+              size="sm"
+              value={terraformFilename}
+              onChange={(e) => setTerraformFilename(e.target.value)}
+              disabled={poweredOnVMs.length === 0}
+              className="export-page__card-filename"
+            />
+            <Button
+              kind="primary"
+              size="md"
+              renderIcon={Code}
+              onClick={handleExportTerraform}
+              disabled={poweredOnVMs.length === 0 || terraformExporting}
+              className="export-page__card-action"
+            >
+              {terraformExporting ? 'Generating...' : 'Export Terraform'}
             </Button>
           </Tile>
         </Column>
@@ -1113,6 +1286,19 @@ export function ExportPage() {
         wavePlanningMode={wavePlanning.wavePlanningMode}
         networkGroupBy={wavePlanning.networkGroupBy}
       />
+
+      {/* MTV Export Modal */}
+      <MTVExportModal
+        open={mtvModalOpen}
+        onClose={() => setMtvModalOpen(false)}
+        waves={mtvWaves}
+        networks={rawData.vNetwork}
+        datastores={rawData.vDatastore}
+        disks={rawData.vDisk}
+        options={mtvOptions}
+        filename={sanitizeFilename(mtvYamlFilename, '.zip')}
+        onExported={markExportComplete}
+      />
     </div>
   );
 }
@@ -9,6 +9,7 @@ import { useData } from '@/hooks';
 import { useTour } from '@/hooks/useTour';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import { restoreBundledSettings } from '@/services/settingsRestore';
+import type { RVToolsMergeResult } from '@/services/parser';
 import type { RVToolsData } from '@/types';
 import { ROUTES } from '@/utils/constants';
 import './LandingPage.scss';
@@ -20,9 +21,20 @@ export function LandingPage() {
   const [pendingSettings, setPendingSettings] = useState<Record<string, string> | null>(null);
 
   const handleDataParsed = useCallback(
-    async (data: RVToolsData, file: File, bundledSettings?: Record<string, string>) => {
+    async (
+      data: RVToolsData,
+      file: File,
+      bundledSettings?: Record<string, string>,
+      merge?: RVToolsMergeResult
+    ) => {
       setRawData(data);
 
+      // Merged multi-vCenter data has no single source file, so handover export is unavailable
+      if (merge && merge.sources.length > 1) {
+        navigate(ROUTES.dashboard);
+        return;
+      }
+
       // Store original file buffer for handover export
       const buffer = await file.arrayBuffer();
       setOriginalFile(buffer, file.name);
@@ -66,6 +78,7 @@ export function LandingPage() {
             <p className="landing-page__description">
               Upload your RVTools Excel export to analyze your VMware infrastructure
               and assess migration readiness for IBM Cloud (ROKS + OpenShift Virtualization).
+              Select several exports at once to merge multiple vCenters into one analysis.
             </p>
             <div style={{ display: 'flex', gap: '0.5rem', marginTop: '1rem', justifyContent: 'center' }}>
               <Button
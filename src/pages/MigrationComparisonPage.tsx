@@ -6,29 +6,43 @@ import {
 } from '@carbon/react';
 import { Reset } from '@carbon/icons-react';
 import { Navigate } from 'react-router-dom';
-import { useData, useAllVMs, useVMOverrides, useAutoExclusion, useTargetAssignments, usePlatformSelection, useMigrationAssessment, useWavePlanning } from '@/hooks';
+import { useData, useAllVMs, useVMOverrides, useAutoExclusion, useTargetAssignments, usePlatformSelection, useMigrationAssessment, useWavePlanning, useCostSettings, useTCOSettings, useVMwareRetainSettings } from '@/hooks';
 import { useTimelineConfig } from '@/hooks/useTimelineConfig';
 import { useRiskAssessment } from '@/hooks/useRiskAssessment';
 import { ROUTES } from '@/utils/constants';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
 import { getVMWorkloadCategory } from '@/utils/workloadClassification';
+import { filterRawDataByExclusions } from '@/utils/filterRawData';
 import { getRecommendation } from '@/services/migration/targetClassification';
+import { createPowerVSMappings, calculatePowerVSTotals } from '@/services/migration/powervsProfileMapping';
+import { sizeVMwareRetain, getCloudBlockerSummary } from '@/services/migration/vmwareRetainSizing';
+import { calculatePowerVSCost, calculateVMwareRetainCost } from '@/services/costEstimation';
+import { buildMigrationRamp, getVMwareLicensedCores, projectTCO } from '@/services/tcoProjection';
+import type { TCOScenarioInput } from '@/services/tcoProjection';
+import { downloadSplitBOMExcel } from '@/services/export';
+import type { SplitTargetCost } from '@/services/export';
 import { MetricCard, SectionErrorBoundary } from '@/components/common';
 import {
   RecommendationBanner,
   VMAssignmentTable,
   PlatformSelectionPanel,
+  SplitCostTable,
+  TCOProjectionPanel,
+  VMwareRetainPanel,
 } from '@/components/comparison';
 import { WavePlanningPanel } from '@/components/migration';
 import { GanttTimeline } from '@/components/charts/GanttTimeline';
 import { AIWaveAnalysisPanel } from '@/components/ai/AIWaveAnalysisPanel';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
-import type { WaveSuggestionInput } from '@/services/ai/types';
+import type { WaveSuggestionInput, WaveSequencingInput } from '@/services/ai/types';
 import { RiskTable } from '@/components/risk/RiskTable';
 import { PHASE_COLORS } from '@/types/timeline';
-import { formatNumber } from '@/utils/formatters';
+import { formatNumber, mibToGiB } from '@/utils/formatters';
+import { createLogger } from '@/utils/logger';
 import './MigrationPage.scss';
 
+const logger = createLogger('MigrationComparisonPage');
+
 function formatStorageGiB(gib: number): string {
   if (gib >= 1024) {
     return `${formatNumber(Math.round(gib / 1024))} TiB`;
@@ -102,16 +116,88 @@ export function MigrationComparisonPage() {
     networks,
   });
 
+  // PowerVS sizing for VMs routed to Power Virtual Server (Oracle/SAP)
+  const { region, discountType } = useCostSettings();
+  const powervsMappings = useMemo(() => {
+    const powervsIds = new Set(assignments.filter(a => a.target === 'powervs').map(a => a.vmId));
+    return createPowerVSMappings(vms
+      .filter(vm => powervsIds.has(getVMIdentifier(vm)))
+      .map(vm => ({
+        vmName: vm.vmName,
+        cpus: vm.cpus,
+        memory: vm.memory,
+        guestOS: vm.guestOS,
+        annotation: vm.annotation,
+        storageGiB: mibToGiB(vm.provisionedMiB),
+      })));
+  }, [assignments, vms]);
+  const powervsEstimate = useMemo(() => {
+    if (powervsMappings.length === 0) return null;
+    const totals = calculatePowerVSTotals(powervsMappings);
+    return calculatePowerVSCost({
+      instances: powervsMappings,
+      tier1StorageGiB: totals.tier1StorageGiB,
+      tier3StorageGiB: totals.tier3StorageGiB,
+    }, region, discountType);
+  }, [powervsMappings, region, discountType]);
+
+  // VMware-retain: the included estate rebuilt on VCF classic bare metal, and the VMs that cannot leave VMware yet
+  const vmwareRetainSettings = useVMwareRetainSettings();
+  const filteredRawData = useMemo(() => {
+    if (!rawData) return null;
+    return filterRawDataByExclusions(rawData, allVmsRaw, vmOverrides, { getAutoExclusionById });
+  }, [rawData, allVmsRaw, vmOverrides, getAutoExclusionById]);
+  const vmwareRetainSizing = useMemo(
+    () => filteredRawData ? sizeVMwareRetain(filteredRawData, vmwareRetainSettings.settings) : null,
+    [filteredRawData, vmwareRetainSettings.settings]
+  );
+  const vmwareRetainEstimate = useMemo(() => {
+    if (!vmwareRetainSizing || vmwareRetainSizing.totalHosts === 0) return null;
+    return calculateVMwareRetainCost({
+      hostProfile: vmwareRetainSizing.hostProfileId,
+      hosts: vmwareRetainSizing.totalHosts,
+    }, region, discountType);
+  }, [vmwareRetainSizing, region, discountType]);
+  const cloudBlockers = useMemo(
+    () => filteredRawData ? getCloudBlockerSummary(filteredRawData, vms) : null,
+    [filteredRawData, vms]
+  );
+
+  // Per-target cost of the current assignment (all-VM estimates pro-rated by VM count)
+  const splitCosts = useMemo<Record<'roks' | 'vsi' | 'powervs', SplitTargetCost>>(() => {
+    const totalVMs = assignments.length;
+    const prorate = (cost: number | null | undefined, count: number) =>
+      cost != null && totalVMs > 0 ? cost * count / totalVMs : null;
+    return {
+      roks: { vmCount: roksCount, monthlyCost: prorate(calculatedCosts?.roksMonthlyCost, roksCount) },
+      vsi: { vmCount: vsiCount, monthlyCost: prorate(calculatedCosts?.vsiMonthlyCost, vsiCount) },
+      powervs: { vmCount: powervsCount, monthlyCost: powervsEstimate?.totalMonthly ?? 0 },
+    };
+  }, [assignments.length, calculatedCosts, roksCount, vsiCount, powervsCount, powervsEstimate]);
+
   // Recommendation
   const recommendation = useMemo(() => {
     const roksCost = calculatedCosts?.roksMonthlyCost ?? 0;
     const vsiCost = calculatedCosts?.vsiMonthlyCost ?? 0;
-    const totalVMs = assignments.length;
-    const splitCost = totalVMs > 0
-      ? (roksCost * roksCount / totalVMs) + (vsiCost * vsiCount / totalVMs)
-      : 0;
-    return getRecommendation(assignments, roksCost, vsiCost, splitCost);
-  }, [assignments, calculatedCosts, roksCount, vsiCount]);
+    const splitCost = (splitCosts.roks.monthlyCost ?? 0) + (splitCosts.vsi.monthlyCost ?? 0) + (splitCosts.powervs.monthlyCost ?? 0);
+    const vmwareRetain = cloudBlockers
+      ? { blockedPercentage: cloudBlockers.blockedPercentage, monthlyCost: vmwareRetainEstimate?.totalMonthly ?? null }
+      : undefined;
+    return getRecommendation(assignments, roksCost, vsiCost, splitCost, vmwareRetain);
+  }, [assignments, calculatedCosts, splitCosts, cloudBlockers, vmwareRetainEstimate]);
+
+  const handleDownloadSplitBOM = async () => {
+    try {
+      await downloadSplitBOMExcel({
+        roks: splitCosts.roks,
+        vsi: splitCosts.vsi,
+        powervsMappings,
+        powervsEstimate,
+      }, region, discountType);
+    } catch (error) {
+      logger.error('Split BOM export failed', error instanceof Error ? error : new Error(String(error)));
+    }
+  };
 
   // Wave count derived from active waves; VM counts per wave for scaled timeline durations
   const waveCount = Math.max(0, wavePlanning.activeWaves.length - 1);
@@ -120,12 +206,46 @@ export function MigrationComparisonPage() {
   const waveStorageGiB = useMemo(() => wavePlanning.waveResources.map(w => w.storageGiB), [wavePlanning.waveResources]);
   const { phases, totals, startDate, updatePhaseDuration, setStartDate, resetToDefaults } = useTimelineConfig(waveCount, waveVmCounts, waveNames, waveStorageGiB);
 
+  // Multi-year TCO: cloud scenarios ramped by the timeline against the VMware status quo
+  const tcoSettings = useTCOSettings();
+  const derivedLicensedCores = useMemo(() => rawData ? getVMwareLicensedCores(rawData) : 0, [rawData]);
+  const tcoProjection = useMemo(() => {
+    const scenarios: TCOScenarioInput[] = [];
+    if (calculatedCosts?.roksMonthlyCost != null) {
+      scenarios.push({ id: 'roks', label: 'All ROKS', monthlyCost: calculatedCosts.roksMonthlyCost, growthSizedMonthlyCost: calculatedCosts.roksMonthlyCost });
+    }
+    if (calculatedCosts?.oveMonthlyCost != null) {
+      scenarios.push({ id: 'ove', label: 'All OVE', monthlyCost: calculatedCosts.oveMonthlyCost, growthSizedMonthlyCost: calculatedCosts.oveMonthlyCost });
+    }
+    if (calculatedCosts?.roksVsiMonthlyCost != null) {
+      scenarios.push({ id: 'roks-vsi', label: 'ROKS on VSI Workers', monthlyCost: calculatedCosts.roksVsiMonthlyCost });
+    }
+    if (calculatedCosts?.vsiMonthlyCost != null) {
+      scenarios.push({ id: 'vsi', label: 'All VSI', monthlyCost: calculatedCosts.vsiMonthlyCost });
+    }
+    if (vmwareRetainEstimate) {
+      scenarios.push({ id: 'vmware-retain', label: 'Retain VMware (VCF)', monthlyCost: vmwareRetainEstimate.totalMonthly });
+    }
+    const splitMonthly = (splitCosts.roks.monthlyCost ?? 0) + (splitCosts.vsi.monthlyCost ?? 0) + (splitCosts.powervs.monthlyCost ?? 0);
+    if (splitMonthly > 0) {
+      scenarios.push({ id: 'split', label: 'Current assignment', monthlyCost: splitMonthly, growthSizedMonthlyCost: splitCosts.roks.monthlyCost ?? 0 });
+    }
+    if (scenarios.length === 0) return null;
+
+    return projectTCO({
+      scenarios,
+      baseline: tcoSettings.baseline,
+      licensedCores: tcoSettings.baseline.licensedCoresOverride ?? derivedLicensedCores,
+      ramp: buildMigrationRamp(phases),
+      annualGrowthRate: tcoSettings.annualGrowthRate,
+      horizonYears: tcoSettings.planningHorizonYears,
+    });
+  }, [calculatedCosts, splitCosts, vmwareRetainEstimate, tcoSettings.baseline, tcoSettings.annualGrowthRate, tcoSettings.planningHorizonYears, derivedLicensedCores, phases]);
+
   // AI wave suggestion data
   const waveSuggestionData = useMemo<WaveSuggestionInput | null>(() => {
     if (!isAIProxyConfigured()) return null;
-    const activeWaves = wavePlanning.wavePlanningMode === 'network'
-      ? wavePlanning.networkWaves : wavePlanning.complexityWaves;
-    if (!activeWaves || activeWaves.length === 0) return null;
+    if (wavePlanning.activeWaves.length === 0) return null;
     return {
       waves: wavePlanning.waveResources.map(w => ({
         name: w.name,
@@ -142,6 +262,24 @@ export function MigrationComparisonPage() {
     };
   }, [wavePlanning, poweredOnVMs.length, platformScore.leaning]);
 
+  // Wave sequencing data — built without AI too, for the rule-based fallback
+  const waveSequencingData = useMemo<WaveSequencingInput | null>(() => {
+    if (wavePlanning.activeWaves.length === 0) return null;
+    const workloadByName = new Map(vms.map(vm => [vm.vmName, workloadTypes.get(getVMIdentifier(vm))]));
+    return {
+      waves: wavePlanning.activeWaves.map(w => ({
+        name: w.name,
+        vmCount: w.vmCount,
+        totalVCPUs: w.vcpus,
+        totalMemoryGiB: w.memoryGiB,
+        workloadTypes: [...new Set(w.vms.map(vm => workloadByName.get(vm.vmName)).filter((t): t is string => !!t))],
+        networkGroups: [...new Set(w.vms.map(vm => vm.networkName).filter(Boolean))],
+      })),
+      totalVMs: poweredOnVMs.length,
+      migrationTarget: platformScore.leaning === 'vsi' ? 'vsi' : 'roks',
+    };
+  }, [wavePlanning.activeWaves, vms, workloadTypes, poweredOnVMs.length, platformScore.leaning]);
+
   // Risk assessment hooks
   const { riskTable, updateRowStatus, updateRowMitigation, updateRowField, addUserRow, removeRow, clearAll } = useRiskAssessment(calculatedCosts);
 
@@ -161,7 +299,8 @@ export function MigrationComparisonPage() {
         <Column lg={16} md={8} sm={4}>
           <h2>Migration Review</h2>
           <p style={{ marginBottom: '1rem', color: '#525252' }}>
-            Compare ROKS (OpenShift Virtualization), VSI (Virtual Server), and PowerVS (Power Virtual Server) migration targets.
+            Compare ROKS (OpenShift Virtualization), OVE (OpenShift Virtualization Engine), VSI (Virtual Server), and PowerVS (Power Virtual Server) migration targets,
+            alongside retaining VMware on VMware Cloud Foundation (VCF) on IBM Cloud.
             Assign VMs to targets and evaluate costs, readiness, and migration effort.
           </p>
         </Column>
@@ -187,6 +326,30 @@ export function MigrationComparisonPage() {
           <MetricCard label="Total VMs" value={vms.length} variant="default" tooltip="Total included VMs" />
         </Column>
 
+        <Column lg={16} md={8} sm={4} style={{ marginBottom: '1rem' }}>
+          <SplitCostTable
+            roks={splitCosts.roks}
+            vsi={splitCosts.vsi}
+            powervs={splitCosts.powervs}
+            onDownloadBOM={handleDownloadSplitBOM}
+          />
+        </Column>
+
+        {tcoProjection && (
+          <Column lg={16} md={8} sm={4} style={{ marginBottom: '1rem' }}>
+            <SectionErrorBoundary sectionName="Multi-Year TCO">
+              <TCOProjectionPanel
+                projection={tcoProjection}
+                baseline={tcoSettings.baseline}
+                derivedLicensedCores={derivedLicensedCores}
+                annualGrowthRate={tcoSettings.annualGrowthRate}
+                onBaselineChange={tcoSettings.updateBaseline}
+                onReset={tcoSettings.resetBaseline}
+              />
+            </SectionErrorBoundary>
+          </Column>
+        )}
+
         {/* Tabs */}
         <Column lg={16} md={8} sm={4}>
           <Tabs>
@@ -205,9 +368,25 @@ export function MigrationComparisonPage() {
                   score={platformScore}
                   roksMonthlyCost={calculatedCosts?.roksMonthlyCost}
                   rovMonthlyCost={calculatedCosts?.rovMonthlyCost}
+                  oveMonthlyCost={calculatedCosts?.oveMonthlyCost}
+                  roksVsiMonthlyCost={calculatedCosts?.roksVsiMonthlyCost}
                   vsiMonthlyCost={calculatedCosts?.vsiMonthlyCost}
+                  vmwareRetainMonthlyCost={vmwareRetainEstimate?.totalMonthly}
+                  vmwareRetainHostCount={vmwareRetainSizing?.totalHosts}
                   totalVMCount={vms.length}
                 />
+                {vmwareRetainSizing && (
+                  <SectionErrorBoundary sectionName="Retain VMware">
+                    <VMwareRetainPanel
+                      sizing={vmwareRetainSizing}
+                      estimate={vmwareRetainEstimate}
+                      blockers={cloudBlockers}
+                      settings={vmwareRetainSettings.settings}
+                      onSettingsChange={vmwareRetainSettings.updateSettings}
+                      onReset={vmwareRetainSettings.resetSettings}
+                    />
+                  </SectionErrorBoundary>
+                )}
               </TabPanel>
               <TabPanel>
                 <VMAssignmentTable
@@ -229,17 +408,20 @@ export function MigrationComparisonPage() {
                   networkGroupBy={wavePlanning.networkGroupBy}
                   onWavePlanningModeChange={wavePlanning.setWavePlanningMode}
                   onNetworkGroupByChange={wavePlanning.setNetworkGroupBy}
-                  networkWaves={wavePlanning.networkWaves}
-                  complexityWaves={wavePlanning.complexityWaves}
+                  activeWaves={wavePlanning.activeWaves}
                   waveChartData={wavePlanning.waveChartData}
                   waveResources={wavePlanning.waveResources}
                   platformLeaning={platformScore.leaning}
+                  planEditing={wavePlanning}
+                  dependencyConfig={wavePlanning.dependencyConfig}
+                  onDependencyConfigChange={wavePlanning.setDependencyConfig}
+                  cutDependencies={wavePlanning.cutDependencies}
                 />
 
                 {/* Section 2: AI Wave Analysis */}
                 <div style={{ marginTop: '1rem' }}>
                   <SectionErrorBoundary sectionName="AI Wave Analysis">
-                    <AIWaveAnalysisPanel data={waveSuggestionData} title="AI Wave Analysis" />
+                    <AIWaveAnalysisPanel data={waveSuggestionData} sequencingData={waveSequencingData} title="AI Wave Analysis" />
                   </SectionErrorBoundary>
                 </div>
 
@@ -49,6 +49,8 @@ const CATEGORY_LABELS: Record<string, string> = {
   os: 'OS Compatibility',
 };
 
+const MODE_ORDER: CheckMode[] = ['roks', 'ove', 'vsi'];
+
 const HEADERS = [
   { key: 'vmName', header: 'VM Name' },
   { key: 'cluster', header: 'Cluster' },
@@ -153,7 +155,7 @@ export function PreFlightReportPage() {
   }
 
   const handleModeChange = (evt: { name?: string | number }) => {
-    if (evt.name === 'roks' || evt.name === 'vsi') {
+    if (evt.name === 'roks' || evt.name === 'ove' || evt.name === 'vsi') {
       setMode(evt.name);
       setStatusFilter('all');
       setPage(1);
@@ -251,10 +253,11 @@ export function PreFlightReportPage() {
                 <span className="preflight-report-page__label">Target Platform:</span>
                 <ContentSwitcher
                   onChange={handleModeChange}
-                  selectedIndex={mode === 'roks' ? 0 : 1}
+                  selectedIndex={MODE_ORDER.indexOf(mode)}
                   size="md"
                 >
                   <Switch name="roks" text="ROKS (OpenShift)" />
+                  <Switch name="ove" text="OVE (VM-only)" />
                   <Switch name="vsi" text="VSI (VPC)" />
                 </ContentSwitcher>
               </div>
@@ -52,7 +52,17 @@ vi.mock('@/hooks', () => ({
     answers: {},
     setAnswer: vi.fn(),
     resetAll: vi.fn(),
-    score: { vsiCount: 0, roksCount: 0, answeredCount: 0, leaning: 'neutral', roksVariant: 'full' },
+    score: { vsiCount: 0, roksCount: 0, vmwareCount: 0, answeredCount: 0, leaning: 'neutral', roksVariant: 'full' },
+  })),
+  useROKSWorkerSettings: vi.fn(() => ({
+    settings: { workerMode: 'bareMetal', zoneCount: 3, maxUtilization: 80, cpuOvercommit: 1, storageClass: 'ibmc-vpc-block-10iops-tier', profileOverrides: {}, workerOverrides: {} },
+    setWorkerMode: vi.fn(),
+    setZoneCount: vi.fn(),
+    setMaxUtilization: vi.fn(),
+    setStorageClass: vi.fn(),
+    setPoolProfile: vi.fn(),
+    setPoolWorkers: vi.fn(),
+    resetPools: vi.fn(),
   })),
 }));
 
@@ -90,6 +100,7 @@ vi.mock('@/components/cost', () => ({
 
 vi.mock('@/components/sizing', () => ({
   SizingCalculator: () => <div data-testid="sizing-calculator" />,
+  VSIWorkerPoolDesigner: () => <div data-testid="vsi-worker-pool-designer" />,
 }));
 
 vi.mock('@/components/migration', () => ({
@@ -201,6 +212,7 @@ const mockMigrationAssessment = {
 const mockWavePlanning = {
   waves: [],
   networkWaves: [],
+  activeWaves: [],
   activeTab: 0,
   setActiveTab: vi.fn(),
   moveVM: vi.fn(),
@@ -1,41 +1,56 @@
 // ROKS (OpenShift Virtualization) Migration page - Refactored with shared hooks and components
 
 import { useState, useCallback, useMemo } from 'react';
-import { Grid, Column, Tile, Tag, Tabs, TabList, Tab, TabPanels, TabPanel, UnorderedList, ListItem, Button, InlineNotification, Tooltip } from '@carbon/react';
+import { Grid, Column, Tile, Tag, Tabs, TabList, Tab, TabPanels, TabPanel, UnorderedList, ListItem, Button, InlineNotification, Tooltip, ContentSwitcher, Switch } from '@carbon/react';
 import { Download, Information, VirtualMachine } from '@carbon/icons-react';
 import { Navigate } from 'react-router-dom';
-import { useData, useAllVMs, usePreflightChecks, useMigrationAssessment, useWavePlanning, useVMOverrides, useAutoExclusion, useCostSettings, usePlatformSelection } from '@/hooks';
+import { useData, useAllVMs, usePreflightChecks, useMigrationAssessment, useWavePlanning, useVMOverrides, useAutoExclusion, useCostSettings, usePlatformSelection, useROKSWorkerSettings } from '@/hooks';
 import { ROUTES, SNAPSHOT_WARNING_AGE_DAYS, SNAPSHOT_BLOCKER_AGE_DAYS, HW_VERSION_MINIMUM, HW_VERSION_RECOMMENDED } from '@/utils/constants';
 import { formatNumber, mibToGiB } from '@/utils/formatters';
 import { getVMWorkloadCategory, getCategoryDisplayName } from '@/utils/workloadClassification';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
+import { filterRawDataByVCenter, isInVCenterScope } from '@/utils/filterRawData';
+import { VCenterFilter } from '@/components/common/VCenterFilter';
 import { MetricCard, RedHatDocLink, RemediationPanel, NextStepBanner, SectionErrorBoundary } from '@/components/common';
-import { SizingCalculator } from '@/components/sizing';
+import { SizingCalculator, VSIWorkerPoolDesigner } from '@/components/sizing';
 import type { SizingResult } from '@/components/sizing';
 import { CostEstimation } from '@/components/cost';
+import type { EstimatePricingInputs } from '@/components/cost';
 import { ComplexityAssessmentPanel, OSCompatibilityPanel } from '@/components/migration';
 import { AIInsightsPanel } from '@/components/ai/AIInsightsPanel';
 import { AIRemediationPanel } from '@/components/ai/AIRemediationPanel';
+import { MTVExportModal } from '@/components/export/MTVExportModal';
 import { isAIProxyConfigured } from '@/services/ai/aiProxyClient';
 import type { InsightsInput, NetworkSummaryForAI, RemediationInput } from '@/services/ai/types';
-import type { ROKSSizingInput } from '@/services/costEstimation';
-import { calculateROKSCost as calcROKSCost } from '@/services/costEstimation';
+import type { ROKSSizingInput, ROKSVSISizingInput } from '@/services/costEstimation';
+import { calculateROKSCost as calcROKSCost, calculateROKSVSICost as calcROKSVSICost, calculateOVECost as calcOVECost, getVSIProfiles } from '@/services/costEstimation';
+import { designWorkerPools } from '@/utils/vsiWorkerPools';
 import type { ROKSNodeDetail } from '@/services/export';
-import { MTVYAMLGenerator, downloadBlob } from '@/services/export';
 import type { MTVExportOptions } from '@/types/mtvYaml';
 import mtvRequirements from '@/data/mtvRequirements.json';
 import './MigrationPage.scss';
 
 export function ROKSMigrationPage() {
-  const { rawData, calculatedCosts, setCalculatedCosts } = useData();
-  const allVmsRaw = useAllVMs();
-  const [yamlExporting, setYamlExporting] = useState(false);
+  const { rawData: allRawData, calculatedCosts, setCalculatedCosts, vCenterFilter } = useData();
+  // Narrow to the selected vCenter when several exports are merged
+  const rawData = useMemo(
+    () => (allRawData ? filterRawDataByVCenter(allRawData, vCenterFilter) : null),
+    [allRawData, vCenterFilter]
+  );
+  const allVmsSource = useAllVMs();
+  const allVmsRaw = useMemo(
+    () => allVmsSource.filter(vm => isInVCenterScope(vm, vCenterFilter)),
+    [allVmsSource, vCenterFilter]
+  );
+  const [yamlModalOpen, setYamlModalOpen] = useState(false);
   const [yamlExportSuccess, setYamlExportSuccess] = useState(false);
   const [calculatorSizing, setCalculatorSizing] = useState<SizingResult | null>(null);
   const [activeTabIndex, setActiveTabIndex] = useState(0);
   const [requestedProfile, setRequestedProfile] = useState<string | null>(null);
   const { odfTier, setOdfTier, includeAcm, setIncludeAcm } = useCostSettings();
   const { score: platformScore } = usePlatformSelection();
+  const workerSettings = useROKSWorkerSettings();
+  const isVsiWorkers = workerSettings.settings.workerMode === 'vsi';
 
   // VM overrides for exclusions
   const vmOverrides = useVMOverrides();
@@ -116,49 +131,33 @@ export function ROKSMigrationPage() {
   }).length;
 
   // ===== MTV YAML EXPORT =====
-  const handleYAMLExport = useCallback(async () => {
-    setYamlExporting(true);
+  const yamlExportOptions = useMemo<MTVExportOptions>(() => ({
+    namespace: 'openshift-mtv',
+    sourceProviderName: 'vmware-source',
+    destinationProviderName: 'host',
+    networkMapName: 'vmware-network-map',
+    storageMapName: 'vmware-storage-map',
+    defaultStorageClass: 'ocs-storagecluster-ceph-rbd',
+    targetNamespace: 'migrated-vms',
+    warm: false,
+    preserveStaticIPs: false,
+    vcenterUrl: rawData?.vSource?.[0]?.server ? `https://${rawData.vSource[0].server}/sdk` : undefined,
+  }), [rawData?.vSource]);
+
+  const yamlExportWaves = useMemo(() => wavePlanning.activeWaves
+    .filter(w => w.vms.length > 0)
+    .map(wave => ({
+      name: wave.name.replace(/Wave \d+: /, '').toLowerCase(),
+      vms: wave.vms.map(vmData => {
+        const fullVm = poweredOnVMs.find(v => v.vmName === vmData.vmName);
+        return fullVm!;
+      }).filter(Boolean),
+    })), [wavePlanning.activeWaves, poweredOnVMs]);
+
+  const handleYAMLExport = useCallback(() => {
     setYamlExportSuccess(false);
-
-    try {
-      const exportOptions: MTVExportOptions = {
-        namespace: 'openshift-mtv',
-        sourceProviderName: 'vmware-source',
-        destinationProviderName: 'host',
-        networkMapName: 'vmware-network-map',
-        storageMapName: 'vmware-storage-map',
-        defaultStorageClass: 'ocs-storagecluster-ceph-rbd',
-        targetNamespace: 'migrated-vms',
-        warm: false,
-        preserveStaticIPs: false,
-      };
-
-      const generator = new MTVYAMLGenerator(exportOptions);
-
-      const waveExportData = wavePlanning.activeWaves
-        .filter(w => w.vms.length > 0)
-        .map(wave => ({
-          name: wave.name.replace(/Wave \d+: /, '').toLowerCase(),
-          vms: wave.vms.map(vmData => {
-            const fullVm = poweredOnVMs.find(v => v.vmName === vmData.vmName);
-            return fullVm!;
-          }).filter(Boolean),
-        }));
-
-      const blob = await generator.generateBundle(
-        waveExportData,
-        networks,
-        rawData?.vDatastore ?? []
-      );
-
-      downloadBlob(blob, `mtv-migration-plan-${new Date().toISOString().split('T')[0]}.zip`);
-      setYamlExportSuccess(true);
-    } catch (error) {
-      console.error('YAML export failed:', error);
-    } finally {
-      setYamlExporting(false);
-    }
-  }, [wavePlanning.activeWaves, poweredOnVMs, networks, rawData?.vDatastore]);
+    setYamlModalOpen(true);
+  }, []);
 
   // Handle profile selection from Cost Estimation tiles
   const handleProfileSelect = useCallback((profileId: string) => {
@@ -196,22 +195,62 @@ export function ROKSMigrationPage() {
     };
   }, [calculatorSizing, poweredOnVMs, odfTier, includeAcm]);
 
-  // Update calculated costs for risk assessment (includes ROV variant)
-  const handleRoksEstimateChange = useCallback((totalMonthly: number | null) => {
+  // ===== VSI WORKER POOLS (containerised workloads on VPC VSI workers) =====
+  const vsiWorkerProfiles = useMemo(
+    () => getVSIProfiles().data.map(p => ({ name: p.id, vcpus: p.vcpus, memoryGiB: p.memoryGiB })),
+    []
+  );
+  const vsiWorkerStorageGiB = useMemo(
+    () => poweredOnVMs.reduce((sum, vm) => sum + mibToGiB(vm.inUseMiB), 0),
+    [poweredOnVMs]
+  );
+  const vsiWorkerPools = useMemo(
+    () => designWorkerPools(
+      poweredOnVMs.map(vm => ({ vcpus: vm.cpus, memoryGiB: mibToGiB(vm.memory) })),
+      vsiWorkerProfiles,
+      workerSettings.settings,
+    ),
+    [poweredOnVMs, vsiWorkerProfiles, workerSettings.settings]
+  );
+  const roksVsiSizing = useMemo<ROKSVSISizingInput>(() => ({
+    workerPools: vsiWorkerPools.map(pool => ({ name: pool.name, profile: pool.profile, workers: pool.workers })),
+    storageGiBByClass: { [workerSettings.settings.storageClass]: Math.ceil(vsiWorkerStorageGiB) },
+    includeAcm,
+  }), [vsiWorkerPools, vsiWorkerStorageGiB, workerSettings.settings.storageClass, includeAcm]);
+
+  // Update calculated costs for risk assessment (includes ROV variant, OVE and
+  // the worker type not currently selected, so the comparison page shows all).
+  // Every variant is priced with the region, discount and pricing of the shown estimate.
+  const handleRoksEstimateChange = useCallback((totalMonthly: number | null, { region, discountType, pricing }: EstimatePricingInputs) => {
+    let roksMonthlyCost: number | null = null;
     let rovMonthlyCost: number | null = null;
+    let roksVsiMonthlyCost: number | null = null;
+    let oveMonthlyCost: number | null = null;
     if (totalMonthly != null) {
-      const rovEstimate = calcROKSCost(roksSizing, 'us-south', 'onDemand', undefined, 'rov');
-      rovMonthlyCost = rovEstimate.totalMonthly;
+      roksMonthlyCost = isVsiWorkers ? calcROKSCost(roksSizing, region, discountType, pricing).totalMonthly : totalMonthly;
+      roksVsiMonthlyCost = isVsiWorkers ? totalMonthly : calcROKSVSICost(roksVsiSizing, region, discountType, pricing).totalMonthly;
+      rovMonthlyCost = calcROKSCost(roksSizing, region, discountType, pricing, 'rov').totalMonthly;
+      oveMonthlyCost = calcOVECost(roksSizing, region, discountType, pricing).totalMonthly;
     }
     setCalculatedCosts({
-      roksMonthlyCost: totalMonthly,
+      roksMonthlyCost,
       rovMonthlyCost,
+      roksVsiMonthlyCost,
+      oveMonthlyCost,
       vsiMonthlyCost: calculatedCosts?.vsiMonthlyCost ?? null,
     });
-  }, [setCalculatedCosts, calculatedCosts?.vsiMonthlyCost, roksSizing]);
+  }, [setCalculatedCosts, calculatedCosts?.vsiMonthlyCost, roksSizing, roksVsiSizing, isVsiWorkers]);
 
   const roksNodeDetails = useMemo<ROKSNodeDetail[]>(() => {
     const nodes: ROKSNodeDetail[] = [];
+    if (isVsiWorkers) {
+      for (const pool of roksVsiSizing.workerPools) {
+        for (let i = 0; i < pool.workers; i++) {
+          nodes.push({ nodeName: `${pool.name}-${i + 1}`, profile: pool.profile, nodeType: 'vsiWorker', pool: pool.name });
+        }
+      }
+      return nodes;
+    }
     for (let i = 0; i < roksSizing.computeNodes; i++) {
       nodes.push({ nodeName: `worker-${i + 1}`, profile: roksSizing.computeProfile, nodeType: 'worker' });
     }
@@ -221,7 +260,7 @@ export function ROKSMigrationPage() {
       }
     }
     return nodes;
-  }, [roksSizing]);
+  }, [roksSizing, roksVsiSizing, isVsiWorkers]);
 
   // ===== AI INSIGHTS DATA =====
   const insightsData = useMemo<InsightsInput | null>(() => {
@@ -321,6 +360,7 @@ export function ROKSMigrationPage() {
           <p className="migration-page__subtitle">
             OpenShift Virtualization on IBM Cloud ROKS with MTV migration workflow
           </p>
+          <VCenterFilter />
         </Column>
 
         {/* Readiness Score */}
@@ -540,18 +580,35 @@ export function ROKSMigrationPage() {
                 <Grid className="migration-page__tab-content">
                   <Column lg={16} md={8} sm={4}>
                     <Tile className="migration-page__sizing-header">
-                      <h3>ROKS Bare Metal Cluster Sizing</h3>
-                      <p>Interactive sizing calculator for OpenShift Virtualization with ODF storage on NVMe drives.</p>
+                      <h3>{isVsiWorkers ? 'ROKS VSI Worker Pool Sizing' : 'ROKS Bare Metal Cluster Sizing'}</h3>
+                      <p>
+                        {isVsiWorkers
+                          ? 'Worker pools on VPC virtual servers with VPC block CSI storage, for workloads re-platformed as containers.'
+                          : 'Interactive sizing calculator for OpenShift Virtualization with ODF storage on NVMe drives.'}
+                      </p>
+                      <ContentSwitcher
+                        onChange={(e) => workerSettings.setWorkerMode(e.index === 1 ? 'vsi' : 'bareMetal')}
+                        selectedIndex={isVsiWorkers ? 1 : 0}
+                        size="md"
+                        style={{ marginTop: '1rem', maxWidth: '32rem' }}
+                      >
+                        <Switch name="bareMetal" text="Bare metal workers" />
+                        <Switch name="vsi" text="VSI workers (containers)" />
+                      </ContentSwitcher>
                     </Tile>
                   </Column>
                   <Column lg={16} md={8} sm={4}>
-                    <SizingCalculator onSizingChange={setCalculatorSizing} requestedProfile={requestedProfile} onRequestedProfileHandled={handleRequestedProfileHandled} />
+                    {isVsiWorkers ? (
+                      <VSIWorkerPoolDesigner pools={vsiWorkerPools} profiles={vsiWorkerProfiles} storageGiB={vsiWorkerStorageGiB} workerSettings={workerSettings} />
+                    ) : (
+                      <SizingCalculator onSizingChange={setCalculatorSizing} requestedProfile={requestedProfile} onRequestedProfileHandled={handleRequestedProfileHandled} />
+                    )}
                   </Column>
                   <Column lg={16} md={8} sm={4}>
                     <Tile className="migration-page__cost-tile">
                       <h4>Important Notes</h4>
                       <p className="migration-page__cost-description">
-                        • OpenShift Virtualization requires bare metal worker nodes with hardware virtualization<br />
+                        • OpenShift Virtualization requires bare metal worker nodes with hardware virtualization — VSI workers run containers only<br />
                         • Memory overcommitment is NOT recommended for VMs - total memory becomes the leading sizing factor<br />
                         • ODF with 3-way replication provides data protection; 75% operational capacity ensures room for rebalancing
                       </p>
@@ -565,13 +622,15 @@ export function ROKSMigrationPage() {
               <TabPanel>
                 <Grid className="migration-page__tab-content">
                   <Column lg={16} md={8} sm={4}>
-                    <CostEstimation type="roks" roksSizing={roksSizing} roksNodeDetails={roksNodeDetails} title="ROKS Cluster Cost Estimation" onProfileSelect={handleProfileSelect} onEstimateChange={handleRoksEstimateChange} onOdfTierChange={setOdfTier} onIncludeAcmChange={setIncludeAcm} roksVariant={platformScore.roksVariant} />
+                    <CostEstimation type="roks" roksSizing={roksSizing} roksVsiSizing={isVsiWorkers ? roksVsiSizing : undefined} roksNodeDetails={roksNodeDetails} title="ROKS Cluster Cost Estimation" onProfileSelect={handleProfileSelect} onEstimateChange={handleRoksEstimateChange} onOdfTierChange={setOdfTier} onIncludeAcmChange={setIncludeAcm} roksVariant={platformScore.roksVariant} />
                   </Column>
                   <Column lg={16} md={8} sm={4}>
                     <Tile className="migration-page__cost-tile">
                       <h4>Cost Estimation Notes</h4>
                       <p className="migration-page__cost-description">
-                        • Based on {roksSizing.computeNodes} {roksSizing.computeProfile} bare metal nodes with local NVMe storage<br />
+                        {isVsiWorkers
+                          ? <>• Based on {roksVsiSizing.workerPools.reduce((sum, p) => sum + p.workers, 0)} VSI workers in {roksVsiSizing.workerPools.length} pools with {workerSettings.settings.storageClass} persistent volumes<br /></>
+                          : <>• Based on {roksSizing.computeNodes} {roksSizing.computeProfile} bare metal nodes with local NVMe storage<br /></>}
                         • 1-year reserved capacity provides 20% discount, 3-year provides 35% discount
                       </p>
                       <RedHatDocLink href="https://cloud.ibm.com/estimator" label="Open IBM Cloud Cost Estimator" description="Create a detailed cost estimate" />
@@ -616,8 +675,8 @@ export function ROKSMigrationPage() {
                           <h3>Migration Toolkit for Virtualization (MTV) Workflow</h3>
                           <p>Follow these four phases for a successful migration to OpenShift Virtualization</p>
                         </div>
-                        <Button kind="primary" size="md" renderIcon={Download} onClick={handleYAMLExport} disabled={yamlExporting || poweredOnVMs.length === 0}>
-                          {yamlExporting ? 'Generating...' : 'Export MTV YAML'}
+                        <Button kind="primary" size="md" renderIcon={Download} onClick={handleYAMLExport} disabled={poweredOnVMs.length === 0}>
+                          Export MTV YAML
                         </Button>
                       </div>
                       {yamlExportSuccess && (
@@ -675,6 +734,18 @@ export function ROKSMigrationPage() {
           />
         </Column>
       </Grid>
+
+      <MTVExportModal
+        open={yamlModalOpen}
+        onClose={() => setYamlModalOpen(false)}
+        waves={yamlExportWaves}
+        networks={networks}
+        datastores={rawData.vDatastore}
+        disks={disks}
+        options={yamlExportOptions}
+        filename={`mtv-migration-plan-${new Date().toISOString().split('T')[0]}.zip`}
+        onExported={() => setYamlExportSuccess(true)}
+      />
     </div>
   );
 }
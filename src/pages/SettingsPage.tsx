@@ -1,4 +1,4 @@
-// Settings page - AI configuration, proxy status, cache management, and override resets
+// Settings page - AI configuration, proxy status, cache management, quote currency, and override resets
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import {
@@ -31,6 +31,7 @@ import { clearClassificationCache } from '@/services/ai/aiClassificationCache';
 import { clearRightsizingCache } from '@/services/ai/aiRightsizingCache';
 import { clearInsightsCache } from '@/services/ai/aiInsightsCache';
 import { clearPricingCache } from '@/services/pricing/pricingCache';
+import { clearPricingHistory } from '@/services/pricing/pricingHistory';
 import { clearProfilesCache } from '@/services/profiles/profilesCache';
 import { isProxyConfigured, testProxyConnection } from '@/services/pricing/globalCatalogApi';
 import { isProfilesProxyConfigured, testProfilesProxyConnection } from '@/services/ibmCloudProfilesApi';
@@ -44,6 +45,7 @@ import { downloadHandoverFile } from '@/services/export/handoverExporter';
 import { extractSettingsFromFile, type ExtractedSettings } from '@/services/settingsExtractor';
 import { restoreBundledSettings } from '@/services/settingsRestore';
 import { SETTINGS_LABELS } from '@/services/settingsLabels';
+import { CurrencySettings, RateCardSettings } from '@/components/pricing';
 import './SettingsPage.scss';
 
 export function SettingsPage() {
@@ -150,6 +152,10 @@ export function SettingsPage() {
     clearPricingCache();
   }, []);
 
+  const handleClearPricingHistory = useCallback(() => {
+    void clearPricingHistory();
+  }, []);
+
   const handleClearProfilesCache = useCallback(() => {
     clearProfilesCache();
   }, []);
@@ -344,6 +350,15 @@ export function SettingsPage() {
               )}
             </div>
 
+            {proxyHealth?.success && proxyHealth.providerLabel && (
+              <div className="settings-page__status-row">
+                <span className="settings-page__status-label">Model backend</span>
+                <Tag type={proxyHealth.provider === 'openai-compatible' ? 'teal' : 'purple'} size="sm" title={proxyHealth.model}>
+                  {proxyHealth.providerLabel}
+                </Tag>
+              </div>
+            )}
+
             {proxyHealth && !proxyHealth.success && proxyHealth.error && (
               <p className="settings-page__error-detail">{proxyHealth.error}</p>
             )}
@@ -507,6 +522,7 @@ export function SettingsPage() {
             </h2>
             <p className="settings-page__cache-description">
               Pricing and profile data are cached locally for 24 hours. Clear to fetch fresh data from IBM Cloud.
+              Every fetched pricing dataset is also kept as a snapshot for pinning estimates and comparing price drift.
             </p>
 
             <div className="settings-page__cache-actions">
@@ -517,6 +533,13 @@ export function SettingsPage() {
               >
                 Clear Pricing Cache
               </Button>
+              <Button
+                kind="tertiary"
+                size="sm"
+                onClick={handleClearPricingHistory}
+              >
+                Clear Pricing History
+              </Button>
               <Button
                 kind="tertiary"
                 size="sm"
@@ -535,6 +558,21 @@ export function SettingsPage() {
             </div>
           </Tile>
         </Column>
+
+        {/* Quote Currency */}
+        <Column lg={16} md={8} sm={4} style={{ marginBottom: '1rem' }}>
+          <Tile className="settings-page__tile">
+            <CurrencySettings />
+          </Tile>
+        </Column>
+
+        {/* Enterprise Rate Card */}
+        <Column lg={16} md={8} sm={4} style={{ marginBottom: '1rem' }}>
+          <Tile className="settings-page__tile">
+            <RateCardSettings />
+          </Tile>
+        </Column>
+
         {/* Reset Overrides */}
         <Column lg={16} md={8} sm={4} style={{ marginBottom: '1rem' }}>
           <Tile className="settings-page__tile">
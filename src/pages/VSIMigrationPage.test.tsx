@@ -51,6 +51,9 @@ vi.mock('@/hooks', () => ({
     vsiTotalMemory: 0,
     overriddenVMCount: 0,
     vsiSizing: { vmProfiles: [], storageTiB: 0 },
+    storagePlan: { bootStorageGiB: 0, storageByTierGiB: {}, customIOPS: { capacityGiB: 0, iops: 0, volumes: 0 }, warnings: [] },
+    rightSizedVsiSizing: null,
+    rightSizedVMCount: 0,
     insightsData: null,
     waveSuggestionData: null,
     costOptimizationData: null,
@@ -58,6 +61,20 @@ vi.mock('@/hooks', () => ({
     vmDetails: [],
     vsiProfiles: { balanced: [], compute: [], memory: [] },
   })),
+  useVSIStorageSettings: vi.fn(() => ({
+    storageMetric: 'diskCapacity',
+    setStorageMetric: vi.fn(),
+    guestHeadroom: 25,
+    setGuestHeadroom: vi.fn(),
+  })),
+  usePerformanceMetrics: vi.fn(() => ({
+    dataset: null,
+    headroomPercent: 20,
+    metricsByVM: new Map(),
+    importDataset: vi.fn(),
+    clearDataset: vi.fn(),
+    setHeadroomPercent: vi.fn(),
+  })),
 }));
 
 // Mock services
@@ -172,6 +189,7 @@ const mockRawData = {
   vSnapshot: [],
   vTools: [],
   vDisk: [],
+  vPartition: [],
   vNetwork: [],
   vCD: [],
   vCPU: [],
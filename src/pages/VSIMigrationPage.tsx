@@ -4,10 +4,12 @@ import { useState, useMemo, useCallback, lazy, Suspense } from 'react';
 import { Grid, Column, Tile, Tabs, TabList, Tab, TabPanels, TabPanel, Loading, Tooltip } from '@carbon/react';
 import { Navigate } from 'react-router-dom';
 import { Information, Report } from '@carbon/icons-react';
-import { useData, useAllVMs, useCustomProfiles, usePreflightChecks, useMigrationAssessment, useWavePlanning, useVMOverrides, useAIRightsizing, useAutoExclusion, useVSIPageData } from '@/hooks';
+import { useData, useAllVMs, useCustomProfiles, usePreflightChecks, useMigrationAssessment, useWavePlanning, useVMOverrides, useAIRightsizing, useAutoExclusion, useVSIPageData, useVSIStorageSettings, usePerformanceMetrics } from '@/hooks';
 import { ROUTES, SNAPSHOT_WARNING_AGE_DAYS, SNAPSHOT_BLOCKER_AGE_DAYS } from '@/utils/constants';
 import { formatNumber } from '@/utils/formatters';
 import { getVMIdentifier, getEnvironmentFingerprint } from '@/utils/vmIdentifier';
+import { filterRawDataByVCenter, isInVCenterScope } from '@/utils/filterRawData';
+import { VCenterFilter } from '@/components/common/VCenterFilter';
 import { MetricCard, NextStepBanner, SectionErrorBoundary } from '@/components/common';
 import { CostEstimation } from '@/components/cost';
 import { ComplexityAssessmentPanel, OSCompatibilityPanel, VSIPreFlightPanel, VSISizingPanel } from '@/components/migration';
@@ -25,8 +27,17 @@ const CustomProfileEditor = lazy(() =>
 import './MigrationPage.scss';
 
 export function VSIMigrationPage() {
-  const { rawData, calculatedCosts, setCalculatedCosts } = useData();
-  const allVmsRaw = useAllVMs();
+  const { rawData: allRawData, calculatedCosts, setCalculatedCosts, vCenterFilter } = useData();
+  // Narrow to the selected vCenter when several exports are merged
+  const rawData = useMemo(
+    () => (allRawData ? filterRawDataByVCenter(allRawData, vCenterFilter) : null),
+    [allRawData, vCenterFilter]
+  );
+  const allVmsSource = useAllVMs();
+  const allVmsRaw = useMemo(
+    () => allVmsSource.filter(vm => isInVCenterScope(vm, vCenterFilter)),
+    [allVmsSource, vCenterFilter]
+  );
   const [showCustomProfileEditor, setShowCustomProfileEditor] = useState(false);
 
   // VM overrides for exclusions
@@ -50,6 +61,9 @@ export function VSIMigrationPage() {
     hasStorageTierOverride,
   } = useCustomProfiles();
 
+  // Storage calculation method for VPC block volumes
+  const { storageMetric, setStorageMetric, guestHeadroom, setGuestHeadroom } = useVSIStorageSettings();
+
   // Filter out excluded VMs using unified three-tier exclusion
   const vms = useMemo(() => {
     return allVmsRaw.filter(vm => {
@@ -61,17 +75,19 @@ export function VSIMigrationPage() {
 
   // AI rightsizing - environment fingerprint for cache scoping
   const envFingerprint = useMemo(() => {
-    return rawData ? getEnvironmentFingerprint(rawData) : '';
-  }, [rawData]);
+    return allRawData ? getEnvironmentFingerprint(allRawData) : '';
+  }, [allRawData]);
 
   // Update calculated costs for risk assessment
   const handleVsiEstimateChange = useCallback((totalMonthly: number | null) => {
     setCalculatedCosts({
       roksMonthlyCost: calculatedCosts?.roksMonthlyCost ?? null,
       rovMonthlyCost: calculatedCosts?.rovMonthlyCost ?? null,
+      roksVsiMonthlyCost: calculatedCosts?.roksVsiMonthlyCost ?? null,
+      oveMonthlyCost: calculatedCosts?.oveMonthlyCost ?? null,
       vsiMonthlyCost: totalMonthly,
     });
-  }, [setCalculatedCosts, calculatedCosts?.roksMonthlyCost, calculatedCosts?.rovMonthlyCost]);
+  }, [setCalculatedCosts, calculatedCosts?.roksMonthlyCost, calculatedCosts?.rovMonthlyCost, calculatedCosts?.roksVsiMonthlyCost, calculatedCosts?.oveMonthlyCost]);
 
   // Derive data from rawData - these are used by hooks below
   const snapshots = useMemo(() => rawData?.vSnapshot ?? [], [rawData?.vSnapshot]);
@@ -80,6 +96,9 @@ export function VSIMigrationPage() {
   const networks = useMemo(() => rawData?.vNetwork ?? [], [rawData?.vNetwork]);
   const poweredOnVMs = useMemo(() => vms.filter(vm => vm.powerState === 'poweredOn'), [vms]);
 
+  // Imported performance metrics for right-sizing from measured utilisation
+  const performanceMetrics = usePerformanceMetrics(poweredOnVMs);
+
   // AI rightsizing inputs
   const aiRightsizingInputs = useMemo(() => {
     return poweredOnVMs.map(vm => ({
@@ -175,6 +194,9 @@ export function VSIMigrationPage() {
     vsiTotalMemory,
     overriddenVMCount,
     vsiSizing,
+    storagePlan,
+    rightSizedVsiSizing,
+    rightSizedVMCount,
     insightsData,
     costOptimizationData,
     remediationAIData,
@@ -196,6 +218,10 @@ export function VSIMigrationPage() {
     warningCount,
     wavePlanning,
     remediationItems,
+    storageMetric,
+    guestHeadroom,
+    performanceMetrics: performanceMetrics.metricsByVM,
+    rightSizingHeadroom: performanceMetrics.headroomPercent,
   });
 
   // Early return if no data - placed after all hooks
@@ -209,6 +235,7 @@ export function VSIMigrationPage() {
         <Column lg={16} md={8} sm={4}>
           <h1 className="migration-page__title">VSI Migration</h1>
           <p className="migration-page__subtitle">IBM Cloud VPC Virtual Server Instance migration assessment and sizing</p>
+          <VCenterFilter />
         </Column>
 
         {/* Readiness Score */}
@@ -305,6 +332,16 @@ export function VSIMigrationPage() {
                   aiRecommendations={aiRecommendations}
                   setStorageTierOverride={setStorageTierOverride}
                   removeStorageTierOverride={removeStorageTierOverride}
+                  storageMetric={storageMetric}
+                  setStorageMetric={setStorageMetric}
+                  guestHeadroom={guestHeadroom}
+                  setGuestHeadroom={setGuestHeadroom}
+                  hasPartitionData={rawData.vPartition.length > 0}
+                  vsiStorageTiB={vsiSizing.storageTiB}
+                  storagePlan={storagePlan}
+                  performanceMetrics={performanceMetrics}
+                  poweredOnVMs={poweredOnVMs}
+                  rightSizedVMCount={rightSizedVMCount}
                 />
               </TabPanel>
 
@@ -312,7 +349,7 @@ export function VSIMigrationPage() {
               <TabPanel>
                 <Grid className="migration-page__tab-content">
                   <Column lg={16} md={8} sm={4}>
-                    <CostEstimation type="vsi" vsiSizing={vsiSizing} vmDetails={vmDetails} title="VPC VSI Cost Estimation" onEstimateChange={handleVsiEstimateChange} />
+                    <CostEstimation type="vsi" vsiSizing={vsiSizing} rightSizedVsiSizing={rightSizedVsiSizing} vmDetails={vmDetails} title="VPC VSI Cost Estimation" onEstimateChange={handleVsiEstimateChange} />
                   </Column>
                   <Column lg={16} md={8} sm={4}>
                     <SectionErrorBoundary sectionName="AI Cost Optimization">
@@ -13,6 +13,7 @@ export { PreFlightReportPage } from './PreFlightReportPage';
 export { DiscoveryPage } from './DiscoveryPage';
 export { NetworkDesignPage } from './NetworkDesignPage';
 export { TablesPage } from './TablesPage';
+export { EnvironmentDeltaPage } from './EnvironmentDeltaPage';
 export { InfoPage } from './InfoPage';
 export { UserGuidePage } from './UserGuidePage';
 export { DocumentationPage } from './DocumentationPage';
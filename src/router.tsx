@@ -52,6 +52,7 @@ const MigrationComparisonPage = lazyWithRetry(() => import('@/pages/MigrationCom
 const PreFlightReportPage = lazyWithRetry(() => import('@/pages/PreFlightReportPage').then(m => ({ default: m.PreFlightReportPage as ComponentType<unknown> })));
 const DiscoveryPage = lazyWithRetry(() => import('@/pages/DiscoveryPage').then(m => ({ default: m.DiscoveryPage as ComponentType<unknown> })));
 const TablesPage = lazyWithRetry(() => import('@/pages/TablesPage').then(m => ({ default: m.TablesPage as ComponentType<unknown> })));
+const EnvironmentDeltaPage = lazyWithRetry(() => import('@/pages/EnvironmentDeltaPage').then(m => ({ default: m.EnvironmentDeltaPage as ComponentType<unknown> })));
 const InfoPage = lazyWithRetry(() => import('@/pages/InfoPage').then(m => ({ default: m.InfoPage as ComponentType<unknown> })));
 const DocumentationPage = lazyWithRetry(() => import('@/pages/DocumentationPage').then(m => ({ default: m.DocumentationPage as ComponentType<unknown> })));
 const UserGuidePage = lazyWithRetry(() => import('@/pages/UserGuidePage').then(m => ({ default: m.UserGuidePage as ComponentType<unknown> })));
@@ -146,6 +147,10 @@ export const router = createBrowserRouter([
         path: ROUTES.tables.slice(1),
         element: <PageLoader><TablesPage /></PageLoader>,
       },
+      {
+        path: ROUTES.environmentDelta.slice(1),
+        element: <PageLoader><EnvironmentDeltaPage /></PageLoader>,
+      },
       {
         path: ROUTES.info.slice(1),
         element: <PageLoader><InfoPage /></PageLoader>,
@@ -2,7 +2,9 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured } from './aiProxyClient';
-import type { AnomalyDetectionInput, AnomalyDetectionResult, AnomalyResult } from './types';
+import { validateAIResponse } from './aiResponseContracts';
+import { buildAIProvenance } from './aiProvenance';
+import type { AIProvenance, AnomalyDetectionInput, AnomalyDetectionResult, AnomalyResult } from './types';
 
 const logger = createLogger('AI Anomaly Detection');
 
@@ -12,27 +14,29 @@ const CACHE_DURATION_MS = 24 * 60 * 60 * 1000;
 interface CachedAnomalies {
   anomalies: AnomalyResult[];
   environmentHash: string;
+  provenance?: AIProvenance;
   expiresAt: string;
 }
 
-function getCached(hash: string): AnomalyResult[] | null {
+function getCached(hash: string): CachedAnomalies | null {
   try {
     const raw = localStorage.getItem(CACHE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as CachedAnomalies;
     if (parsed.environmentHash !== hash) return null;
     if (new Date() > new Date(parsed.expiresAt)) return null;
-    return parsed.anomalies;
+    return parsed;
   } catch {
     return null;
   }
 }
 
-function setCache(anomalies: AnomalyResult[], hash: string): void {
+function setCache(anomalies: AnomalyResult[], hash: string, provenance?: AIProvenance): void {
   try {
     const cached: CachedAnomalies = {
       anomalies,
       environmentHash: hash,
+      ...(provenance && { provenance }),
       expiresAt: new Date(Date.now() + CACHE_DURATION_MS).toISOString(),
     };
     localStorage.setItem(CACHE_KEY, JSON.stringify(cached));
@@ -55,8 +59,12 @@ export async function fetchAIAnomalyAnalysis(
 
   const cached = getCached(environmentHash);
   if (cached) {
-    logger.info(`Returning ${cached.length} cached anomalies`);
-    return { anomalies: cached, source: 'cached' };
+    logger.info(`Returning ${cached.anomalies.length} cached anomalies`);
+    return {
+      anomalies: cached.anomalies,
+      source: 'cached',
+      ...(cached.provenance && { provenance: cached.provenance }),
+    };
   }
 
   logger.info(`Analyzing ${input.anomalyCandidates.length} anomaly candidates via AI`);
@@ -75,12 +83,24 @@ export async function fetchAIAnomalyAnalysis(
     }
 
     const data = await response.json();
+    if (!Array.isArray(data.result?.anomalies)) {
+      logger.warn('Anomaly analysis response has no anomalies list');
+      return null;
+    }
+
     const result: AnomalyDetectionResult = {
-      anomalies: (data.result?.anomalies || []).filter((a: AnomalyResult) => a.isValid !== false),
+      anomalies: data.result.anomalies.filter((a: AnomalyResult) => a.isValid !== false),
       source: 'watsonx',
+      provenance: buildAIProvenance(data),
     };
 
-    setCache(result.anomalies, environmentHash);
+    const violations = validateAIResponse('anomalyDetection', result);
+    if (violations.length > 0) {
+      logger.warn('Anomaly analysis breaks the response contract', { violations });
+      return null;
+    }
+
+    setCache(result.anomalies, environmentHash, result.provenance);
     logger.info(`Received ${result.anomalies.length} validated anomalies`);
     return result;
   } catch (error) {
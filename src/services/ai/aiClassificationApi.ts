@@ -8,6 +8,7 @@ import {
   setCachedClassifications,
   isClassificationCacheValid,
 } from './aiClassificationCache';
+import { buildAIProvenance } from './aiProvenance';
 import type {
   VMClassificationInput,
   VMClassificationResult,
@@ -52,7 +53,7 @@ export async function fetchAIClassifications(
     logger.info(`Received ${response.classifications.length} classifications in ${response.processingTimeMs}ms`);
 
     // Cache results
-    setCachedClassifications(response.classifications, environmentFingerprint);
+    setCachedClassifications(response.classifications, environmentFingerprint, buildAIProvenance(response));
 
     return response.classifications;
   } catch (error) {
@@ -62,6 +62,19 @@ describe('aiClassificationCache', () => {
     expect(cached!.environmentFingerprint).toBe(fingerprint);
   });
 
+  it('stores the provenance of the AI call with the entry', () => {
+    const provenance = {
+      model: 'ibm/granite-3-8b-instruct',
+      provider: 'watsonx' as const,
+      promptVersion: '76c89e353ba4',
+      latencyMs: 1200,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    setCachedClassifications(mockClassifications, fingerprint, provenance);
+
+    expect(getCachedClassifications()!.provenance).toEqual(provenance);
+  });
+
   it('validates cache by fingerprint', () => {
     setCachedClassifications(mockClassifications, fingerprint);
 
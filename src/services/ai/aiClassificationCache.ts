@@ -1,13 +1,15 @@
 // AI classification cache - localStorage persistence
 // Follows the pattern of src/services/pricing/pricingCache.ts
 
-import type { VMClassificationResult } from './types';
+import type { AIProvenance, VMClassificationResult } from './types';
 
 // ===== TYPES =====
 
 export interface CachedClassifications {
   classifications: Record<string, VMClassificationResult>; // keyed by vmName
   environmentFingerprint: string;
+  /** Absent for entries written before provenance was recorded */
+  provenance?: AIProvenance;
   lastUpdated: string;
   expiresAt: string;
 }
@@ -46,7 +48,8 @@ export function getCachedClassifications(): CachedClassifications | null {
  */
 export function setCachedClassifications(
   classifications: VMClassificationResult[],
-  environmentFingerprint: string
+  environmentFingerprint: string,
+  provenance?: AIProvenance
 ): void {
   try {
     const now = new Date();
@@ -59,6 +62,7 @@ export function setCachedClassifications(
     const cached: CachedClassifications = {
       classifications: classificationMap,
       environmentFingerprint,
+      ...(provenance && { provenance }),
       lastUpdated: now.toISOString(),
       expiresAt: new Date(now.getTime() + CACHE_DURATION_MS).toISOString(),
     };
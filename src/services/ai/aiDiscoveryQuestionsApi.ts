@@ -2,6 +2,8 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
+import { buildAIProvenance } from './aiProvenance';
 import type {
   DiscoveryQuestionsInput,
   DiscoveryQuestionsResult,
@@ -45,6 +47,12 @@ export async function fetchAIDiscoveryQuestions(
       source: 'watsonx',
     };
 
+    const violations = validateAIResponse('discoveryQuestions', result);
+    if (violations.length > 0) {
+      logger.warn('Discovery questions break the response contract', { violations });
+      return null;
+    }
+
     logger.info(`Generated ${result.questionGroups.length} question groups`);
     return result;
   } catch (error) {
@@ -85,6 +93,7 @@ export async function sendInterviewAnswer(
       followUpContext: r.followUpContext || r.follow_up_context || '',
       insightsFromAnswer: r.insightsFromAnswer || r.insights_from_answer || [],
       source: 'watsonx',
+      provenance: buildAIProvenance(data),
     };
   } catch (error) {
     logger.error('Interview failed', error instanceof Error ? error : new Error(String(error)));
@@ -2,6 +2,8 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured, getMigrationInsights } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
+import { buildAIProvenance } from './aiProvenance';
 import type { InsightsInput, MigrationInsights, InsightsRequest } from './types';
 
 const logger = createLogger('AI Insights');
@@ -98,13 +100,14 @@ export async function fetchAIInsights(
     // Normalize the response to handle LLM output variations
     const normalized = normalizeInsights(response.insights as unknown as Record<string, unknown>);
 
-    // If normalization resulted in empty data, return null to trigger re-fetch
-    if (!normalized.executiveSummary && normalized.recommendations.length === 0) {
-      logger.warn('Normalized insights are empty, LLM may have returned unexpected format');
+    // If normalization left sections empty, return null so callers fall back
+    const violations = validateAIResponse('insights', normalized);
+    if (violations.length > 0) {
+      logger.warn('Normalized insights break the response contract, LLM may have returned unexpected format', { violations });
       return null;
     }
 
-    return normalized;
+    return { ...normalized, provenance: buildAIProvenance(response) };
   } catch (error) {
     logger.error(
       'AI insights failed',
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getCachedInsights, setCachedInsights, clearInsightsCache } from './aiInsightsCache';
+import type { MigrationInsights } from './types';
+
+// Mock localStorage
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: vi.fn((key: string) => store[key] ?? null),
+    setItem: vi.fn((key: string, value: string) => { store[key] = value; }),
+    removeItem: vi.fn((key: string) => { delete store[key]; }),
+    clear: vi.fn(() => { store = {}; }),
+  };
+})();
+
+Object.defineProperty(window, 'localStorage', { value: localStorageMock });
+
+describe('aiInsightsCache', () => {
+  const insights: MigrationInsights = {
+    executiveSummary: 'Summary',
+    riskAssessment: 'Low risk',
+    recommendations: ['Start with web tier'],
+    costOptimizations: [],
+    migrationStrategy: 'Phased',
+    source: 'watsonx',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorageMock.clear();
+  });
+
+  it('returns null for a different input hash', () => {
+    setCachedInsights(insights, '10:20:30:roks');
+    expect(getCachedInsights('11:20:30:roks')).toBeNull();
+  });
+
+  it('keeps provenance on the cache entry and restores it on read', () => {
+    const provenance = {
+      model: 'ibm/granite-4-h-small',
+      provider: 'watsonx' as const,
+      promptVersion: '697e65bba0d0',
+      latencyMs: 5400,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    setCachedInsights({ ...insights, provenance }, '10:20:30:roks');
+
+    const stored = JSON.parse(localStorageMock.setItem.mock.calls[0][1]);
+    expect(stored.provenance).toEqual(provenance);
+    expect(stored.insights.provenance).toBeUndefined();
+    expect(getCachedInsights('10:20:30:roks')).toEqual({ ...insights, provenance });
+  });
+
+  it('clears cache', () => {
+    setCachedInsights(insights, '10:20:30:roks');
+    clearInsightsCache();
+    expect(getCachedInsights('10:20:30:roks')).toBeNull();
+  });
+});
@@ -1,7 +1,7 @@
 // AI insights cache - localStorage persistence
 // Follows the pattern of aiClassificationCache.ts
 
-import type { MigrationInsights } from './types';
+import type { AIProvenance, MigrationInsights } from './types';
 
 // ===== TYPES =====
 
@@ -9,6 +9,8 @@ export interface CachedInsights {
   insights: MigrationInsights;
   /** Cache key derived from input data to detect stale entries */
   inputHash: string;
+  /** Model, prompt version and latency of the AI call (absent for rule-based insights) */
+  provenance?: AIProvenance;
   lastUpdated: string;
   expiresAt: string;
 }
@@ -51,7 +53,7 @@ export function getCachedInsights(inputHash: string): MigrationInsights | null {
       return null;
     }
 
-    return parsed.insights;
+    return parsed.provenance ? { ...parsed.insights, provenance: parsed.provenance } : parsed.insights;
   } catch {
     localStorage.removeItem(CACHE_KEY);
     return null;
@@ -64,9 +66,11 @@ export function getCachedInsights(inputHash: string): MigrationInsights | null {
 export function setCachedInsights(insights: MigrationInsights, inputHash: string): void {
   try {
     const now = new Date();
+    const { provenance, ...content } = insights;
     const cached: CachedInsights = {
-      insights,
+      insights: content,
       inputHash,
+      ...(provenance && { provenance }),
       lastUpdated: now.toISOString(),
       expiresAt: new Date(now.getTime() + CACHE_DURATION_MS).toISOString(),
     };
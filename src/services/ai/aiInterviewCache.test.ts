@@ -31,6 +31,12 @@ describe('aiInterviewCache', () => {
     expect(result[0].answer).toBe('Cost reduction');
   });
 
+  it('keeps the provenance of each answer', () => {
+    const provenance = { model: 'ibm/granite-3-8b-instruct', latencyMs: 900, generatedAt: '2026-01-01T00:00:00.000Z' };
+    setCachedInterview([{ ...answers[0], provenance }], fingerprint);
+    expect(getCachedInterview(fingerprint)[0].provenance).toEqual(provenance);
+  });
+
   it('returns empty for different fingerprint', () => {
     setCachedInterview(answers, fingerprint);
     expect(getCachedInterview('other-env')).toEqual([]);
@@ -1,5 +1,7 @@
 // Interview answer persistence — localStorage scoped by environment fingerprint
 
+import type { AIProvenance } from './types';
+
 const CACHE_KEY = 'vcf-ai-interview';
 
 export interface InterviewAnswer {
@@ -9,6 +11,8 @@ export interface InterviewAnswer {
   topic: string;
   insights: string[];
   timestamp: number;
+  /** Model that produced the insights; absent for answers saved before provenance was recorded */
+  provenance?: AIProvenance;
 }
 
 interface CachedInterview {
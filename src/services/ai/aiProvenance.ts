@@ -0,0 +1,18 @@
+// AI result provenance
+// Records which provider, model and prompt version produced a result, so cached
+// entries can be traced back after prompts in functions/ai-proxy/prompts.js change.
+
+import type { AIProvenance, AIResponseMeta } from './types';
+
+/**
+ * Build the provenance record for a proxy response
+ */
+export function buildAIProvenance(meta: Partial<AIResponseMeta>): AIProvenance {
+  return {
+    model: typeof meta.model === 'string' ? meta.model : 'unknown',
+    ...(meta.provider && { provider: meta.provider }),
+    ...(meta.promptVersion && { promptVersion: meta.promptVersion }),
+    latencyMs: typeof meta.processingTimeMs === 'number' ? meta.processingTimeMs : 0,
+    generatedAt: new Date().toISOString(),
+  };
+}
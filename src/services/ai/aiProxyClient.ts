@@ -5,6 +5,7 @@ import { withRetry } from '@/utils/retry';
 import { createLogger, parseApiError, getUserFriendlyMessage } from '@/utils/logger';
 import { deduplicate } from '@/utils/requestDeduplication';
 import type {
+  AIProviderName,
   AIProxyHealthResponse,
   ClassificationRequest,
   ClassificationResponse,
@@ -102,6 +103,9 @@ export async function testAIProxyConnection(): Promise<{
   success: boolean;
   error?: string;
   cancelled?: boolean;
+  provider?: AIProviderName;
+  providerLabel?: string;
+  model?: string;
 }> {
   if (!AI_PROXY_URL) {
     logger.info('AI proxy not configured');
@@ -123,8 +127,14 @@ export async function testAIProxyConnection(): Promise<{
     }
 
     const data: AIProxyHealthResponse = await response.json();
-    logger.info('AI proxy health check passed', { status: data.status, model: data.model });
-    return { success: data.status === 'healthy' };
+    const provider = data.provider ?? 'watsonx';
+    logger.info('AI proxy health check passed', { status: data.status, provider, model: data.model });
+    return {
+      success: data.status === 'healthy',
+      provider,
+      providerLabel: data.providerLabel ?? 'watsonx.ai',
+      model: data.complexModel ?? data.model,
+    };
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
       logger.debug('AI proxy test cancelled (AbortError)');
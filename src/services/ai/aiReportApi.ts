@@ -2,6 +2,7 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
 import type { ReportInput, ReportNarrativeResult } from './types';
 
 const logger = createLogger('AI Report');
@@ -46,6 +47,12 @@ export async function fetchAIReportNarrative(
       source: 'watsonx',
     };
 
+    const violations = validateAIResponse('reportNarrative', result);
+    if (violations.length > 0) {
+      logger.warn('Report narrative breaks the response contract', { violations });
+      return null;
+    }
+
     logger.info('AI report narratives generated');
     return result;
   } catch (error) {
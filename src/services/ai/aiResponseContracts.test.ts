@@ -0,0 +1,320 @@
+// Contract suite: watsonx (normalized proxy output) and rule-based results must
+// satisfy the same schema for every response type exports rely on.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { validateAIResponse, satisfiesContract, type AIResponseKind } from './aiResponseContracts';
+import {
+  buildRuleBasedInsights,
+  buildRuleBasedWaveSuggestions,
+  buildRuleBasedWaveSequencing,
+  buildRuleBasedAnomalies,
+  buildRuleBasedRiskAnalysis,
+  buildRuleBasedReportNarrative,
+  buildRuleBasedDiscoveryQuestions,
+} from './ruleBasedFallbacks';
+import { getMigrationInsights, getWaveSuggestions, getWaveSequencing } from './aiProxyClient';
+import { fetchAIInsights } from './aiInsightsApi';
+import { fetchWaveSuggestions } from './aiWaveSuggestionsApi';
+import { fetchAIWaveSequencing } from './aiWaveSequencingApi';
+import { fetchAIAnomalyAnalysis, clearAnomalyCache } from './aiAnomalyApi';
+import { fetchAIRiskAnalysis } from './aiRiskAnalysisApi';
+import { fetchAIReportNarrative } from './aiReportApi';
+import { fetchAIDiscoveryQuestions } from './aiDiscoveryQuestionsApi';
+import type {
+  InsightsInput,
+  WaveSuggestionInput,
+  WaveSequencingInput,
+  AnomalyDetectionInput,
+  RiskAnalysisInput,
+  ReportInput,
+  DiscoveryQuestionsInput,
+} from './types';
+
+vi.mock('./aiProxyClient', () => ({
+  isAIProxyConfigured: vi.fn(() => true),
+  getMigrationInsights: vi.fn(),
+  getWaveSuggestions: vi.fn(),
+  getWaveSequencing: vi.fn(),
+}));
+
+// ===== FIXTURES =====
+
+const insightsInput: InsightsInput = {
+  totalVMs: 240,
+  totalExcluded: 12,
+  totalVCPUs: 960,
+  totalMemoryGiB: 3840,
+  totalStorageTiB: 85.5,
+  clusterCount: 4,
+  hostCount: 24,
+  datastoreCount: 16,
+  workloadBreakdown: { Databases: 30, 'Web Servers': 80, Middleware: 10 },
+  complexitySummary: { simple: 150, moderate: 60, complex: 22, blocker: 8 },
+  blockerSummary: ['8 VMs with RDM disks'],
+  preflightSummary: { totalBlockers: 8, totalWarnings: 40, topIssues: [{ checkId: 'rdm-disks', severity: 'blocker', affectedCount: 8 }] },
+  costEstimate: { monthly: 42000, annual: 504000, region: 'us-south' },
+  migrationTarget: 'roks',
+};
+
+const emptyInsightsInput: InsightsInput = {
+  totalVMs: 0,
+  totalExcluded: 0,
+  totalVCPUs: 0,
+  totalMemoryGiB: 0,
+  totalStorageTiB: 0,
+  clusterCount: 0,
+  hostCount: 0,
+  datastoreCount: 0,
+  workloadBreakdown: {},
+  complexitySummary: { simple: 0, moderate: 0, complex: 0, blocker: 0 },
+  blockerSummary: [],
+};
+
+const waveSuggestionInput: WaveSuggestionInput = {
+  waves: [
+    { name: 'Wave 1', vmCount: 10, totalVCPUs: 40, totalMemoryGiB: 160, totalStorageGiB: 2000, avgComplexity: 20, hasBlockers: false, workloadTypes: ['Web Servers'] },
+    { name: 'Wave 2', vmCount: 60, totalVCPUs: 240, totalMemoryGiB: 960, totalStorageGiB: 9000, avgComplexity: 65, hasBlockers: true, workloadTypes: ['Databases'] },
+  ],
+  totalVMs: 70,
+  migrationTarget: 'vsi',
+};
+
+const waveSequencingInput: WaveSequencingInput = {
+  waves: [
+    { name: 'Wave 1', vmCount: 20, totalVCPUs: 80, totalMemoryGiB: 320, workloadTypes: ['Databases'], networkGroups: ['10.0.1.0/24'] },
+    { name: 'Wave 2', vmCount: 15, totalVCPUs: 60, totalMemoryGiB: 240, workloadTypes: ['Infrastructure'], networkGroups: ['10.0.1.0/24'] },
+    { name: 'Wave 3', vmCount: 5, totalVCPUs: 20, totalMemoryGiB: 80, workloadTypes: ['Web Servers'] },
+  ],
+  totalVMs: 40,
+  migrationTarget: 'roks',
+};
+
+const anomalyInput: AnomalyDetectionInput = {
+  anomalyCandidates: [
+    { category: 'security-concern', description: '12 VMs with VMware Tools not running or not installed', affectedCount: 12 },
+    { category: 'configuration-drift', description: '40 CD-ROM devices connected across 40 VMs', affectedCount: 40 },
+    { category: 'network-anomaly', description: '0 VMs with more than 3 network adapters', affectedCount: 0 },
+  ],
+  totalVMs: 100,
+};
+
+const riskInput: RiskAnalysisInput = {
+  riskAssessment: {
+    overallRisk: 'amber',
+    goNoGo: 'conditional',
+    domains: [
+      { name: 'Compute', severity: 'low', autoSeverity: 'low', evidence: [{ title: 'A' }, { title: 'B' }, { title: 'C' }] },
+      { name: 'Security', severity: 'medium', autoSeverity: null, evidence: [] },
+    ],
+  },
+  totalVMs: 100,
+  blockerSummary: ['3 VMs with shared VMDKs'],
+  complexitySummary: { simple: 60, moderate: 27, complex: 10, blocker: 3 },
+};
+
+const reportInput: ReportInput = {
+  totalVMs: 240,
+  totalVCPUs: 960,
+  totalMemoryGiB: 3840,
+  totalStorageTiB: 85.5,
+  clusterCount: 4,
+  hostCount: 24,
+  migrationTarget: 'vsi',
+  workloadBreakdown: { Databases: 30, 'Web Servers': 80 },
+  costEstimate: { monthly: 42000, annual: 504000, region: 'us-south' },
+  riskSummary: { overallRisk: 'amber', goNoGo: 'conditional' },
+  wavePlan: { totalWaves: 6, totalDuration: 90 },
+};
+
+const discoveryInput: DiscoveryQuestionsInput = {
+  totalVMs: 240,
+  workloadBreakdown: { Databases: 30, 'Virtual Desktops': 12 },
+};
+
+// Typical proxy output, including the snake_case variants the normalizers accept
+const proxyOutput = {
+  insights: {
+    executive_summary: 'A 240-VM estate suited to a phased ROKS migration.',
+    risk_assessment: 'Moderate risk driven by RDM disks.',
+    recommendations: ['Remediate RDM disks', 'Pilot with web servers'],
+    cost_optimizations: 'Use reserved pricing',
+    migration_strategy: 'Three phases by complexity.',
+  },
+  waveSuggestions: {
+    suggestions: ['Split Wave 2'],
+    wave_risks: [{ wave_name: 'Wave 2', risk: 'Contains blockers' }],
+    warnings: [],
+  },
+  waveSequencing: {
+    suggested_order: ['Wave 2', 'Wave 1'],
+    dependencies: [{ from: 'Wave 2', to: 'Wave 1', reason: 'DNS' }],
+    risk_schedule: [{ wave_name: 'Wave 1', risk_level: 'HIGH', risk_reason: 'Databases' }],
+    vm_move_recommendations: [],
+  },
+  anomalyDetection: {
+    anomalies: [
+      { category: 'security-concern', severity: 'high', title: 'Tools missing', description: '12 VMs', affectedCount: 12, recommendation: 'Install tools', isValid: true },
+      { category: 'configuration-drift', severity: 'low', title: 'CD-ROMs', description: '40 devices', affectedCount: 40, recommendation: 'Disconnect', isValid: false },
+    ],
+  },
+  riskAnalysis: {
+    severity_adjustments: [{ domain: 'Compute', currentSeverity: 'low', suggestedSeverity: 'medium', reasoning: 'Evidence' }],
+    missedRisks: [],
+    security_risks: [{ title: 'Firewall parity', severity: 'medium', description: 'NSX rules', recommendation: 'Map rules' }],
+    goNoGoAnalysis: { recommendation: 'conditional', confidence: 0.7, reasoning: 'Blockers remain.', keyConditions: ['Fix RDM'] },
+  },
+  reportNarrative: {
+    executive_summary: 'Summary',
+    environment_analysis: 'Environment',
+    migration_recommendation: 'Recommendation',
+    risk_narrative: 'Risks',
+    cost_justification: 'Costs',
+    next_steps: ['Pilot'],
+    assumptions: ['List prices'],
+  },
+  discoveryQuestions: {
+    question_groups: [
+      { topic: 'Network', relevance: 'Cut-over', questions: [{ id: 'n1', question: 'Keep IPs?', priority: 'high', context: 'Subnets' }] },
+    ],
+  },
+};
+
+const jsonResponse = (result: unknown) =>
+  Promise.resolve(new Response(JSON.stringify({ result, model: 'test-model', processingTimeMs: 5 }), { status: 200 }));
+
+// ===== SUITE =====
+
+describe('AI response contracts', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    clearAnomalyCache();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const cases: Array<{
+    kind: AIResponseKind;
+    ruleBased: () => unknown[];
+    watsonx: (output: unknown) => Promise<unknown>;
+  }> = [
+    {
+      kind: 'insights',
+      ruleBased: () => [buildRuleBasedInsights(insightsInput), buildRuleBasedInsights(emptyInsightsInput)],
+      watsonx: output => {
+        vi.mocked(getMigrationInsights).mockResolvedValue({ insights: output as never, model: 'test-model', processingTimeMs: 5 });
+        return fetchAIInsights(insightsInput);
+      },
+    },
+    {
+      kind: 'waveSuggestions',
+      ruleBased: () => [
+        buildRuleBasedWaveSuggestions(waveSuggestionInput),
+        buildRuleBasedWaveSuggestions({ waves: [], totalVMs: 0, migrationTarget: 'both' }),
+      ],
+      watsonx: output => {
+        vi.mocked(getWaveSuggestions).mockResolvedValue({ result: output as never, model: 'test-model', processingTimeMs: 5 });
+        return fetchWaveSuggestions(waveSuggestionInput);
+      },
+    },
+    {
+      kind: 'waveSequencing',
+      ruleBased: () => [buildRuleBasedWaveSequencing(waveSequencingInput)],
+      watsonx: output => {
+        vi.mocked(getWaveSequencing).mockResolvedValue({ result: output as never, model: 'test-model', processingTimeMs: 5 });
+        return fetchAIWaveSequencing(waveSequencingInput);
+      },
+    },
+    {
+      kind: 'anomalyDetection',
+      ruleBased: () => [
+        buildRuleBasedAnomalies(anomalyInput),
+        buildRuleBasedAnomalies({ anomalyCandidates: [], totalVMs: 0 }),
+      ],
+      watsonx: output => {
+        fetchMock.mockImplementation(() => jsonResponse(output));
+        return fetchAIAnomalyAnalysis(anomalyInput, 'env-hash');
+      },
+    },
+    {
+      kind: 'riskAnalysis',
+      ruleBased: () => [
+        buildRuleBasedRiskAnalysis(riskInput),
+        buildRuleBasedRiskAnalysis({ riskAssessment: { overallRisk: 'green', goNoGo: 'go', domains: [] }, totalVMs: 0 }),
+      ],
+      watsonx: output => {
+        fetchMock.mockImplementation(() => jsonResponse(output));
+        return fetchAIRiskAnalysis(riskInput);
+      },
+    },
+    {
+      kind: 'reportNarrative',
+      ruleBased: () => [
+        buildRuleBasedReportNarrative(reportInput),
+        buildRuleBasedReportNarrative({ totalVMs: 0, totalVCPUs: 0, totalMemoryGiB: 0, totalStorageTiB: 0, clusterCount: 0, hostCount: 0 }),
+      ],
+      watsonx: output => {
+        fetchMock.mockImplementation(() => jsonResponse(output));
+        return fetchAIReportNarrative(reportInput);
+      },
+    },
+    {
+      kind: 'discoveryQuestions',
+      ruleBased: () => [buildRuleBasedDiscoveryQuestions(discoveryInput), buildRuleBasedDiscoveryQuestions({})],
+      watsonx: output => {
+        fetchMock.mockImplementation(() => jsonResponse(output));
+        return fetchAIDiscoveryQuestions(discoveryInput);
+      },
+    },
+  ];
+
+  describe.each(cases)('$kind', ({ kind, ruleBased, watsonx }) => {
+    it('rule-based output satisfies the contract', () => {
+      for (const result of ruleBased()) {
+        expect(validateAIResponse(kind, result)).toEqual([]);
+        expect(result).toHaveProperty('source', 'rule-based');
+      }
+    });
+
+    it('normalized watsonx output satisfies the contract', async () => {
+      const result = await watsonx(proxyOutput[kind]);
+      expect(result).not.toBeNull();
+      expect(validateAIResponse(kind, result)).toEqual([]);
+      expect(result).toHaveProperty('source', 'watsonx');
+    });
+
+    it('rejects watsonx output that breaks the contract', async () => {
+      expect(await watsonx({ unexpected: 'shape' })).toBeNull();
+    });
+  });
+
+  it.each(['waveSuggestions', 'waveSequencing'] as const)('records the provenance of %s', async kind => {
+    const result = await cases.find(c => c.kind === kind)!.watsonx(proxyOutput[kind]);
+    expect(result).toHaveProperty('provenance.model', 'test-model');
+    expect(result).toHaveProperty('provenance.latencyMs', 5);
+  });
+});
+
+describe('validateAIResponse', () => {
+  it('reports each violation with its path', () => {
+    const violations = validateAIResponse('insights', {
+      executiveSummary: '',
+      riskAssessment: 'ok',
+      recommendations: ['a', 3],
+      costOptimizations: [],
+      source: 'guess',
+    });
+    expect(violations).toEqual([
+      'executiveSummary must not be empty',
+      'recommendations[1] must be a string',
+      'migrationStrategy must be a string',
+      'source must be one of watsonx, rule-based, cached',
+    ]);
+    expect(satisfiesContract('insights', null)).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+// Response contracts for AI results
+// One schema per response type, shared by the watsonx normalizers and the
+// rule-based fallbacks. Each check returns the list of violations (empty when
+// the value is valid) so API clients can reject malformed LLM output and fall
+// back instead of handing exports a half-empty result.
+
+import type {
+  MigrationInsights,
+  WaveSuggestionResult,
+  WaveSequencingResult,
+  AnomalyDetectionResult,
+  RiskAnalysisResult,
+  ReportNarrativeResult,
+  DiscoveryQuestionsResult,
+} from './types';
+
+type Check = (value: unknown, path: string) => string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (options: { required?: boolean } = {}): Check => (value, path) => {
+  if (typeof value !== 'string') return [`${path} must be a string`];
+  if (options.required && value.trim() === '') return [`${path} must not be empty`];
+  return [];
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path) =>
+  typeof value === 'string' && values.includes(value) ? [] : [`${path} must be one of ${values.join(', ')}`];
+
+const numberIn = (min: number, max: number): Check => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? []
+    : [`${path} must be a number from ${min} to ${max}`];
+
+const list = (item: Check, options: { minItems?: number } = {}): Check => (value, path) => {
+  if (!Array.isArray(value)) return [`${path} must be an array`];
+  const problems = value.flatMap((entry, i) => item(entry, `${path}[${i}]`));
+  if (options.minItems && value.length < options.minItems) {
+    problems.push(`${path} must have at least ${options.minItems} item${options.minItems === 1 ? '' : 's'}`);
+  }
+  return problems;
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isObject(value)) return [`${path} must be an object`];
+  return Object.entries(fields).flatMap(([key, check]) => check(value[key], path ? `${path}.${key}` : key));
+};
+
+const source = oneOf(['watsonx', 'rule-based', 'cached']);
+
+// ===== SCHEMAS =====
+
+const insightsSchema = shape({
+  executiveSummary: text({ required: true }),
+  riskAssessment: text({ required: true }),
+  recommendations: list(text({ required: true }), { minItems: 1 }),
+  costOptimizations: list(text({ required: true })),
+  migrationStrategy: text({ required: true }),
+  source,
+});
+
+const waveSuggestionsSchema = shape({
+  suggestions: list(text({ required: true }), { minItems: 1 }),
+  riskNarratives: list(shape({ waveName: text({ required: true }), narrative: text({ required: true }) })),
+  dependencyWarnings: list(text({ required: true })),
+  source,
+});
+
+const waveSequencingSchema = shape({
+  suggestedOrder: list(text({ required: true }), { minItems: 1 }),
+  dependencies: list(shape({ from: text({ required: true }), to: text({ required: true }), reason: text() })),
+  riskSchedule: list(shape({
+    waveName: text({ required: true }),
+    riskLevel: oneOf(['low', 'medium', 'high']),
+    riskReason: text(),
+  })),
+  vmMoveRecommendations: list(shape({
+    vmDescription: text({ required: true }),
+    fromWave: text({ required: true }),
+    toWave: text({ required: true }),
+    reason: text(),
+  })),
+  source,
+});
+
+const anomaliesSchema = shape({
+  anomalies: list(shape({
+    category: oneOf([
+      'resource-misconfig', 'security-concern', 'migration-risk',
+      'network-anomaly', 'storage-anomaly', 'configuration-drift',
+    ]),
+    severity: oneOf(['critical', 'high', 'medium', 'low']),
+    title: text({ required: true }),
+    description: text({ required: true }),
+    affectedCount: numberIn(0, Number.MAX_SAFE_INTEGER),
+    recommendation: text({ required: true }),
+    isValid: (value, path) => (typeof value === 'boolean' ? [] : [`${path} must be a boolean`]),
+  })),
+  source,
+});
+
+const riskAnalysisSchema = shape({
+  severityAdjustments: list(shape({
+    domain: text({ required: true }),
+    currentSeverity: text({ required: true }),
+    suggestedSeverity: text({ required: true }),
+    reasoning: text(),
+  })),
+  missedRisks: list(shape({
+    domain: text({ required: true }),
+    title: text({ required: true }),
+    severity: text({ required: true }),
+    description: text(),
+  })),
+  securityRisks: list(shape({
+    title: text({ required: true }),
+    severity: text({ required: true }),
+    description: text(),
+    recommendation: text(),
+  })),
+  goNoGoAnalysis: shape({
+    recommendation: oneOf(['go', 'conditional', 'no-go']),
+    confidence: numberIn(0, 1),
+    reasoning: text({ required: true }),
+    keyConditions: list(text({ required: true })),
+  }),
+  source,
+});
+
+const reportNarrativeSchema = shape({
+  executiveSummary: text({ required: true }),
+  environmentAnalysis: text({ required: true }),
+  migrationRecommendation: text({ required: true }),
+  riskNarrative: text({ required: true }),
+  costJustification: text({ required: true }),
+  nextSteps: list(text({ required: true }), { minItems: 1 }),
+  assumptions: list(text({ required: true })),
+  source,
+});
+
+const discoveryQuestionsSchema = shape({
+  questionGroups: list(shape({
+    topic: text({ required: true }),
+    relevance: text(),
+    questions: list(shape({
+      id: text({ required: true }),
+      question: text({ required: true }),
+      priority: oneOf(['high', 'medium', 'low']),
+      context: text(),
+    }), { minItems: 1 }),
+  }), { minItems: 1 }),
+  source,
+});
+
+// ===== PUBLIC API =====
+
+/** AI response types that have a contract and a rule-based fallback */
+export interface AIResponseContracts {
+  insights: MigrationInsights;
+  waveSuggestions: WaveSuggestionResult;
+  waveSequencing: WaveSequencingResult;
+  anomalyDetection: AnomalyDetectionResult;
+  riskAnalysis: RiskAnalysisResult;
+  reportNarrative: ReportNarrativeResult;
+  discoveryQuestions: DiscoveryQuestionsResult;
+}
+
+export type AIResponseKind = keyof AIResponseContracts;
+
+const SCHEMAS: Record<AIResponseKind, Check> = {
+  insights: insightsSchema,
+  waveSuggestions: waveSuggestionsSchema,
+  waveSequencing: waveSequencingSchema,
+  anomalyDetection: anomaliesSchema,
+  riskAnalysis: riskAnalysisSchema,
+  reportNarrative: reportNarrativeSchema,
+  discoveryQuestions: discoveryQuestionsSchema,
+};
+
+/**
+ * List contract violations for an AI response (empty when valid)
+ */
+export function validateAIResponse(kind: AIResponseKind, value: unknown): string[] {
+  return SCHEMAS[kind](value, '');
+}
+
+/**
+ * Type guard for a response that satisfies its contract
+ */
+export function satisfiesContract<K extends AIResponseKind>(
+  kind: K,
+  value: unknown
+): value is AIResponseContracts[K] {
+  return validateAIResponse(kind, value).length === 0;
+}
@@ -7,6 +7,7 @@ import {
   setCachedRightsizing,
   isRightsizingCacheValid,
 } from './aiRightsizingCache';
+import { buildAIProvenance } from './aiProvenance';
 import type {
   RightsizingInput,
   ProfileRecommendation,
@@ -48,7 +49,7 @@ export async function fetchAIRightsizing(
       `Received ${response.recommendations.length} recommendations in ${response.processingTimeMs}ms`
     );
 
-    setCachedRightsizing(response.recommendations, environmentFingerprint);
+    setCachedRightsizing(response.recommendations, environmentFingerprint, buildAIProvenance(response));
     return response.recommendations;
   } catch (error) {
     logger.error(
@@ -1,12 +1,14 @@
 // AI right-sizing cache - localStorage persistence
 
-import type { ProfileRecommendation } from './types';
+import type { AIProvenance, ProfileRecommendation } from './types';
 
 // ===== TYPES =====
 
 export interface CachedRightsizing {
   recommendations: Record<string, ProfileRecommendation>; // keyed by vmName
   environmentFingerprint: string;
+  /** Absent for entries written before provenance was recorded */
+  provenance?: AIProvenance;
   lastUpdated: string;
   expiresAt: string;
 }
@@ -38,7 +40,8 @@ export function getCachedRightsizing(): CachedRightsizing | null {
 
 export function setCachedRightsizing(
   recommendations: ProfileRecommendation[],
-  environmentFingerprint: string
+  environmentFingerprint: string,
+  provenance?: AIProvenance
 ): void {
   try {
     const now = new Date();
@@ -51,6 +54,7 @@ export function setCachedRightsizing(
     const cached: CachedRightsizing = {
       recommendations: recMap,
       environmentFingerprint,
+      ...(provenance && { provenance }),
       lastUpdated: now.toISOString(),
       expiresAt: new Date(now.getTime() + CACHE_DURATION_MS).toISOString(),
     };
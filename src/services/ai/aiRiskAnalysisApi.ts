@@ -2,6 +2,7 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
 import type { RiskAnalysisInput, RiskAnalysisResult } from './types';
 
 const logger = createLogger('AI Risk Analysis');
@@ -37,15 +38,17 @@ export async function fetchAIRiskAnalysis(
       severityAdjustments: data.result?.severityAdjustments || data.result?.severity_adjustments || [],
       missedRisks: data.result?.missedRisks || data.result?.missed_risks || [],
       securityRisks: data.result?.securityRisks || data.result?.security_risks || [],
-      goNoGoAnalysis: data.result?.goNoGoAnalysis || data.result?.go_no_go_analysis || {
-        recommendation: 'conditional',
-        confidence: 0.5,
-        reasoning: 'Unable to determine',
-        keyConditions: [],
-      },
+      // Left undefined when missing so the contract check rejects the result
+      goNoGoAnalysis: data.result?.goNoGoAnalysis || data.result?.go_no_go_analysis,
       source: 'watsonx',
     };
 
+    const violations = validateAIResponse('riskAnalysis', result);
+    if (violations.length > 0) {
+      logger.warn('Risk analysis breaks the response contract', { violations });
+      return null;
+    }
+
     logger.info('AI risk analysis complete');
     return result;
   } catch (error) {
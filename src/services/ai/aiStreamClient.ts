@@ -49,6 +49,8 @@ export function streamFromProxy(
 
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
+      // Name of a pending `event:` line; applies to the next data line only
+      let eventName: string | null = null;
 
       while (true) {
         const { done, value } = await reader.read();
@@ -59,9 +61,24 @@ export function streamFromProxy(
         // Parse SSE events from chunk
         const lines = chunk.split('\n');
         for (const line of lines) {
+          if (line.startsWith('event: ')) {
+            eventName = line.slice(7).trim();
+            continue;
+          }
           if (line.startsWith('data: ')) {
             const data = line.slice(6);
 
+            if (eventName) {
+              const name = eventName;
+              eventName = null;
+              try {
+                callbacks.onEvent?.(name, JSON.parse(data));
+              } catch {
+                logger.warn(`Ignoring malformed "${name}" event`);
+              }
+              continue;
+            }
+
             if (data === '[DONE]') {
               callbacks.onDone(fullText);
               return;
@@ -69,8 +86,9 @@ export function streamFromProxy(
 
             try {
               const parsed = JSON.parse(data);
-              // watsonx text generation stream format
+              // Proxy chunk frames, watsonx text generation and chat delta formats
               const text =
+                parsed.chunk ||
                 parsed.results?.[0]?.generated_text ||
                 parsed.choices?.[0]?.delta?.content ||
                 parsed.choices?.[0]?.message?.content ||
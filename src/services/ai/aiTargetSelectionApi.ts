@@ -3,6 +3,7 @@
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured } from './aiProxyClient';
 import { getCachedTargetSelections, setCachedTargetSelections, isTargetSelectionCacheValid } from './aiTargetSelectionCache';
+import { buildAIProvenance } from './aiProvenance';
 import type { TargetSelectionInput, TargetSelectionResult } from './types';
 
 const logger = createLogger('AI Target Selection');
@@ -48,7 +49,7 @@ export async function fetchAITargetSelections(
     const selections: TargetSelectionResult[] = data.selections || [];
 
     logger.info(`Received ${selections.length} target selections in ${data.processingTimeMs}ms`);
-    setCachedTargetSelections(selections, environmentFingerprint);
+    setCachedTargetSelections(selections, environmentFingerprint, buildAIProvenance(data));
 
     if (onProgress) onProgress(selections.length, vms.length);
     return selections;
@@ -1,10 +1,12 @@
 // AI target selection cache — localStorage persistence
 
-import type { TargetSelectionResult } from './types';
+import type { AIProvenance, TargetSelectionResult } from './types';
 
 export interface CachedTargetSelections {
   selections: Record<string, TargetSelectionResult>;
   environmentFingerprint: string;
+  /** Absent for entries written before provenance was recorded */
+  provenance?: AIProvenance;
   lastUpdated: string;
   expiresAt: string;
 }
@@ -30,7 +32,8 @@ export function getCachedTargetSelections(): CachedTargetSelections | null {
 
 export function setCachedTargetSelections(
   selections: TargetSelectionResult[],
-  environmentFingerprint: string
+  environmentFingerprint: string,
+  provenance?: AIProvenance
 ): void {
   try {
     const now = new Date();
@@ -41,6 +44,7 @@ export function setCachedTargetSelections(
     const cached: CachedTargetSelections = {
       selections: selectionMap,
       environmentFingerprint,
+      ...(provenance && { provenance }),
       lastUpdated: now.toISOString(),
       expiresAt: new Date(now.getTime() + CACHE_DURATION_MS).toISOString(),
     };
@@ -0,0 +1,81 @@
+// AI Wave Sequencing API client
+
+import { createLogger } from '@/utils/logger';
+import { isAIProxyConfigured, getWaveSequencing } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
+import { buildAIProvenance } from './aiProvenance';
+import type { WaveSequencingInput, WaveSequencingResult, WaveSequencingRequest } from './types';
+
+const logger = createLogger('AI Wave Sequencing');
+
+/**
+ * Normalize wave sequencing response to handle common LLM output variations
+ */
+function normalizeWaveSequencing(raw: Record<string, unknown>): WaveSequencingResult {
+  const data = (raw.response || raw.result || raw) as Record<string, unknown>;
+  const ensureObjects = (value: unknown): Array<Record<string, unknown>> =>
+    Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => typeof v === 'object' && v !== null) : [];
+
+  const riskLevel = (value: unknown): 'low' | 'medium' | 'high' => {
+    const level = String(value ?? '').toLowerCase();
+    return level === 'high' || level === 'medium' ? level : 'low';
+  };
+
+  return {
+    suggestedOrder: Array.isArray(data.suggestedOrder ?? data.suggested_order)
+      ? ((data.suggestedOrder ?? data.suggested_order) as unknown[]).map(String)
+      : [],
+    dependencies: ensureObjects(data.dependencies).map(d => ({
+      from: String(d.from ?? ''),
+      to: String(d.to ?? ''),
+      reason: String(d.reason ?? ''),
+    })),
+    riskSchedule: ensureObjects(data.riskSchedule ?? data.risk_schedule).map(r => ({
+      waveName: String(r.waveName ?? r.wave_name ?? ''),
+      riskLevel: riskLevel(r.riskLevel ?? r.risk_level),
+      riskReason: String(r.riskReason ?? r.risk_reason ?? ''),
+    })),
+    vmMoveRecommendations: ensureObjects(data.vmMoveRecommendations ?? data.vm_move_recommendations).map(m => ({
+      vmDescription: String(m.vmDescription ?? m.vm_description ?? ''),
+      fromWave: String(m.fromWave ?? m.from_wave ?? ''),
+      toWave: String(m.toWave ?? m.to_wave ?? ''),
+      reason: String(m.reason ?? ''),
+    })),
+    source: 'watsonx',
+  };
+}
+
+/**
+ * Fetch AI wave ordering, dependencies and risk schedule
+ */
+export async function fetchAIWaveSequencing(
+  data: WaveSequencingInput
+): Promise<WaveSequencingResult | null> {
+  if (!isAIProxyConfigured()) {
+    logger.info('AI proxy not configured, skipping wave sequencing');
+    return null;
+  }
+
+  logger.info('Fetching AI wave sequencing');
+
+  try {
+    const request: WaveSequencingRequest = { data };
+    const response = await getWaveSequencing(request, { timeout: 60000 });
+
+    logger.info(`Received wave sequencing in ${response.processingTimeMs}ms`);
+
+    const normalized = normalizeWaveSequencing(response.result as unknown as Record<string, unknown>);
+    const violations = validateAIResponse('waveSequencing', normalized);
+    if (violations.length > 0) {
+      logger.warn('Wave sequencing breaks the response contract', { violations });
+      return null;
+    }
+    return { ...normalized, provenance: buildAIProvenance(response) };
+  } catch (error) {
+    logger.error(
+      'AI wave sequencing failed',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    return null;
+  }
+}
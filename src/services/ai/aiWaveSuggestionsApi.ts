@@ -2,6 +2,8 @@
 
 import { createLogger } from '@/utils/logger';
 import { isAIProxyConfigured, getWaveSuggestions } from './aiProxyClient';
+import { validateAIResponse } from './aiResponseContracts';
+import { buildAIProvenance } from './aiProvenance';
 import type { WaveSuggestionInput, WaveSuggestionResult, WaveSuggestionRequest } from './types';
 
 const logger = createLogger('AI Wave Suggestions');
@@ -86,7 +88,12 @@ export async function fetchWaveSuggestions(
 
     // Normalize the response to handle LLM output variations
     const normalized = normalizeWaveSuggestions(response.result as unknown as Record<string, unknown>);
-    return normalized;
+    const violations = validateAIResponse('waveSuggestions', normalized);
+    if (violations.length > 0) {
+      logger.warn('Wave suggestions break the response contract', { violations });
+      return null;
+    }
+    return { ...normalized, provenance: buildAIProvenance(response) };
   } catch (error) {
     logger.error(
       'AI wave suggestions failed',
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { describeChatAction, resolveActionVMs } from './chatActions';
+import type { VirtualMachine } from '@/types/rvtools';
+
+const vm = (vmName: string, cluster: string, resourcePool: string | null = null) =>
+  ({ vmName, cluster, resourcePool }) as VirtualMachine;
+
+const vms = [vm('web-01', 'Prod', 'Web'), vm('web-02', 'Prod', 'Web'), vm('test-01', 'Dev', 'Test')];
+
+describe('describeChatAction', () => {
+  it('titles the confirmation card', () => {
+    expect(describeChatAction({ type: 'excludeVMs', vmNames: ['a', 'b', 'c', 'd', 'e'] })).toBe('Exclude a, b, c and 2 more');
+    expect(describeChatAction({ type: 'moveVMsToWave', vmNames: ['web-01'], wave: 2 })).toBe('Move web-01 to wave 2');
+    expect(describeChatAction({ type: 'setTargetPlatform', vmNames: ['db-01'], target: 'powervs' })).toBe('Target PowerVS for db-01');
+    expect(describeChatAction({ type: 'setOvercommit', cpuOvercommit: 4 })).toBe('Set ROKS sizing overcommit to CPU 4:1');
+  });
+});
+
+describe('resolveActionVMs', () => {
+  it('matches names, clusters and patterns case-insensitively', () => {
+    const names = (action: Parameters<typeof resolveActionVMs>[0]) => resolveActionVMs(action, vms)?.map(v => v.vmName);
+
+    expect(names({ type: 'excludeVMs', vmNames: ['WEB-01', 'missing'] })).toEqual(['web-01']);
+    expect(names({ type: 'excludeCluster', clusterName: 'prod' })).toEqual(['web-01', 'web-02']);
+    expect(names({ type: 'excludeByResourcePoolPattern', pattern: 'tes' })).toEqual(['test-01']);
+    expect(names({ type: 'excludeByVMNamePattern', pattern: 'WEB-0?' })).toEqual(['web-01', 'web-02']);
+    expect(resolveActionVMs({ type: 'setOvercommit', memoryOvercommit: 1.5 }, vms)).toBeNull();
+  });
+
+  it('treats regex syntax in patterns literally', () => {
+    expect(resolveActionVMs({ type: 'excludeByVMNamePattern', pattern: '(' }, vms)).toEqual([]);
+    expect(resolveActionVMs({ type: 'excludeByVMNamePattern', pattern: '^web' }, vms)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+// Chat actions — plan changes proposed by the chat assistant
+// Pure helpers shared by useChatActions and the chat panel: which VMs an
+// action targets and how to describe it on the confirmation card.
+
+import type { VirtualMachine } from '@/types/rvtools';
+import type { ChatAction } from './types';
+import { matchesNamePattern } from './chatTools';
+
+const TARGET_LABELS = { roks: 'ROKS', vsi: 'VPC VSI', powervs: 'PowerVS' } as const;
+
+function listNames(names: string[]): string {
+  if (names.length <= 3) return names.join(', ');
+  return `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+}
+
+/**
+ * Confirmation-card title for an action
+ */
+export function describeChatAction(action: ChatAction): string {
+  switch (action.type) {
+    case 'excludeCluster':
+      return `Exclude all VMs in cluster ${action.clusterName}`;
+    case 'excludeByResourcePoolPattern':
+      return `Exclude VMs in resource pools matching "${action.pattern}"`;
+    case 'excludeByVMNamePattern':
+      return `Exclude VMs named like "${action.pattern}"`;
+    case 'forceIncludeVM':
+      return `Include ${action.vmName} in scope`;
+    case 'excludeVM':
+      return `Exclude ${action.vmName}`;
+    case 'excludeVMs':
+      return `Exclude ${listNames(action.vmNames)}`;
+    case 'setWorkloadType':
+      return `Set workload type of ${listNames(action.vmNames)} to ${action.workloadType}`;
+    case 'moveVMsToWave':
+      return `Move ${listNames(action.vmNames)} to wave ${action.wave}`;
+    case 'setTargetPlatform':
+      return `Target ${TARGET_LABELS[action.target]} for ${listNames(action.vmNames)}`;
+    case 'addRisk':
+      return `Add ${action.category} risk: ${action.description}`;
+    case 'setOvercommit': {
+      const parts: string[] = [];
+      if (action.cpuOvercommit !== undefined) parts.push(`CPU ${action.cpuOvercommit}:1`);
+      if (action.memoryOvercommit !== undefined) parts.push(`memory ${action.memoryOvercommit}:1`);
+      return `Set ROKS sizing overcommit to ${parts.join(', ')}`;
+    }
+  }
+}
+
+/**
+ * VMs a VM-scoped action applies to, matched case-insensitively. Patterns are
+ * substrings or globs, as for the chat tools (see matchesNamePattern).
+ * Returns null for actions that do not target VMs.
+ */
+export function resolveActionVMs(action: ChatAction, vms: VirtualMachine[]): VirtualMachine[] | null {
+  const byNames = (names: string[]) => {
+    const wanted = new Set(names.map(n => n.toLowerCase()));
+    return vms.filter(vm => wanted.has(vm.vmName.toLowerCase()));
+  };
+  const byPattern = (pattern: string, field: (vm: VirtualMachine) => string | null) =>
+    vms.filter(vm => matchesNamePattern(field(vm) ?? '', pattern));
+
+  switch (action.type) {
+    case 'excludeCluster':
+      return vms.filter(vm => (vm.cluster || '').toLowerCase() === action.clusterName.toLowerCase());
+    case 'excludeByResourcePoolPattern':
+      return byPattern(action.pattern, vm => vm.resourcePool);
+    case 'excludeByVMNamePattern':
+      return byPattern(action.pattern, vm => vm.vmName);
+    case 'forceIncludeVM':
+    case 'excludeVM':
+      return byNames([action.vmName]);
+    case 'excludeVMs':
+    case 'setWorkloadType':
+    case 'moveVMsToWave':
+    case 'setTargetPlatform':
+      return byNames(action.vmNames);
+    case 'addRisk':
+    case 'setOvercommit':
+      return null;
+  }
+}
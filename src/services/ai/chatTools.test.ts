@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runChatTool, describeToolCall, matchesNamePattern } from './chatTools';
+import { cacheBOMData } from '@/services/bomCache';
+import type { CostEstimate } from '@/services/costEstimation';
+import type { RVToolsData, VirtualMachine, VDiskInfo } from '@/types/rvtools';
+import type { ChatToolCall } from './types';
+
+function makeVM(overrides: Partial<VirtualMachine>): VirtualMachine {
+  return {
+    vmName: 'test-vm',
+    powerState: 'poweredOn',
+    guestOS: 'Red Hat Enterprise Linux 8 (64-bit)',
+    cpus: 4,
+    memory: 8192,
+    provisionedMiB: 102400,
+    inUseMiB: 51200,
+    cluster: 'Cluster1',
+    host: 'host1.example.com',
+    datacenter: 'DC1',
+    hardwareVersion: 'vmx-19',
+    template: false,
+    ...overrides,
+  } as VirtualMachine;
+}
+
+function makeRVToolsData(vms: VirtualMachine[], vDisk: VDiskInfo[] = []): RVToolsData {
+  return {
+    vInfo: vms,
+    vTools: [],
+    vSnapshot: [],
+    vDisk,
+    vNetwork: [],
+    vCD: [],
+    vCPU: [],
+    vMemory: [],
+    vHost: [],
+    vCluster: [],
+    vDatastore: [],
+    vSource: [],
+    vLicense: [],
+    vPartition: [],
+  };
+}
+
+const call = (tool: ChatToolCall['tool'], args: Record<string, unknown> = {}): ChatToolCall => ({
+  id: 'chat-tool-1-0',
+  tool,
+  args,
+});
+
+const rawData = makeRVToolsData(
+  [
+    makeVM({ vmName: 'web-01', cluster: 'Cluster1' }),
+    makeVM({ vmName: 'web-02', cluster: 'Cluster1', powerState: 'poweredOff' }),
+    makeVM({ vmName: 'db-01', cluster: 'Cluster2', cpus: 16, memory: 65536, guestOS: 'Microsoft Windows Server 2019 (64-bit)' }),
+    makeVM({ vmName: 'tmpl-01', template: true }),
+  ],
+  [{ vmName: 'db-01', diskLabel: 'Hard disk 2', raw: true, capacityMiB: 10240, sharingMode: 'sharingNone' } as VDiskInfo]
+);
+
+describe('runChatTool', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('filterVMs applies filters, skips templates and caps the list', () => {
+    const all = runChatTool(call('filterVMs', { limit: 1 }), rawData) as { matched: number; returned: number; vms: unknown[] };
+    expect(all.matched).toBe(3);
+    expect(all.returned).toBe(1);
+    expect(all.vms).toHaveLength(1);
+
+    const rdm = runChatTool(call('filterVMs', { hasRDM: true, minVCPUs: 8 }), rawData) as { vms: Array<{ name: string; memoryGiB: number }> };
+    expect(rdm.vms).toEqual([expect.objectContaining({ name: 'db-01', memoryGiB: 64 })]);
+
+    const byName = runChatTool(call('filterVMs', { namePattern: 'WEB-*', powerState: 'poweredOn' }), rawData) as { vms: Array<{ name: string }> };
+    expect(byName.vms.map(v => v.name)).toEqual(['web-01']);
+  });
+
+  it('matches VM names by substring or glob without compiling a regex', () => {
+    expect(matchesNamePattern('web-01', 'EB-0')).toBe(true);
+    expect(matchesNamePattern('web-01', 'web-??')).toBe(true);
+    expect(matchesNamePattern('web-01', '*-01')).toBe(true);
+    expect(matchesNamePattern('web-01', 'db-*')).toBe(false);
+    expect(matchesNamePattern('web-01', '(a+)+$')).toBe(false);
+  });
+
+  it('returns an error result for invalid arguments', () => {
+    expect(runChatTool(call('filterVMs', { namePattern: '*'.repeat(101) }), rawData)).toHaveProperty('error');
+    expect(runChatTool(call('countVMsBy', { attribute: 'ipAddress' }), rawData)).toHaveProperty('error');
+    expect(runChatTool(call('getWaveContents', { wave: 99 }), rawData)).toHaveProperty('error');
+  });
+
+  it('countVMsBy groups by the requested attribute', () => {
+    const result = runChatTool(call('countVMsBy', { attribute: 'cluster' }), rawData);
+    expect(result).toEqual({
+      attribute: 'cluster',
+      totalVMs: 3,
+      groups: 2,
+      counts: [{ value: 'Cluster1', count: 2 }, { value: 'Cluster2', count: 1 }],
+    });
+  });
+
+  it('getPreflightResults reports blockers for named VMs', () => {
+    const result = runChatTool(call('getPreflightResults', { mode: 'roks', vmNames: ['DB-01', 'missing'] }), rawData) as {
+      vms: Array<{ name: string; blockers: Array<{ check: string }> }>;
+      notFound: string[];
+    };
+    expect(result.vms[0].name).toBe('db-01');
+    expect(result.vms[0].blockers.length).toBeGreaterThan(0);
+    expect(result.notFound).toEqual(['missing']);
+
+    const byCheck = runChatTool(call('getPreflightResults', { mode: 'roks', checkId: 'rdm-disks' }), rawData) as { affectedVMs: number };
+    expect(byCheck.affectedVMs).toBe(1);
+  });
+
+  it('getWaveContents falls back to the default strategy without a saved plan', () => {
+    const result = runChatTool(call('getWaveContents'), rawData) as { strategy: string; waves: Array<{ vmCount: number }> };
+    expect(result.strategy).toBe('Network-Based (Cluster)');
+    expect(result.waves.reduce((sum, w) => sum + w.vmCount, 0)).toBe(2);
+  });
+
+  it('getCostBreakdown needs a cached estimate', () => {
+    expect(runChatTool(call('getCostBreakdown', { target: 'vsi' }), rawData)).toHaveProperty('error');
+
+    const estimate = {
+      architecture: 'VPC VSI',
+      region: 'us-south',
+      regionName: 'Dallas',
+      discountType: 'onDemand',
+      discountPct: 0,
+      lineItems: [
+        { category: 'Compute', description: 'bx2-4x16', quantity: 2, unit: 'instance', unitCost: 100, monthlyCost: 200, annualCost: 2400 },
+        { category: 'Storage', description: 'Block 100 GB', quantity: 2, unit: 'volume', unitCost: 10, monthlyCost: 20, annualCost: 240 },
+        { category: 'Compute', description: 'bx2-16x64', quantity: 1, unit: 'instance', unitCost: 400, monthlyCost: 400, annualCost: 4800 },
+      ],
+      subtotalMonthly: 620,
+      subtotalAnnual: 7440,
+      discountAmountMonthly: 0,
+      discountAmountAnnual: 0,
+      totalMonthly: 620,
+      totalAnnual: 7440,
+      metadata: { pricingVersion: 'test', generatedAt: '2026-01-01T00:00:00Z', notes: [] },
+    } as CostEstimate;
+    cacheBOMData('vsi', estimate);
+
+    const result = runChatTool(call('getCostBreakdown', { target: 'vsi' }), rawData) as {
+      totalMonthly: number;
+      byCategory: Array<{ category: string; monthly: number }>;
+      topLineItems: Array<{ description: string }>;
+    };
+    expect(result.totalMonthly).toBe(620);
+    expect(result.byCategory).toEqual([{ category: 'Compute', monthly: 600 }, { category: 'Storage', monthly: 20 }]);
+    expect(result.topLineItems[0].description).toBe('bx2-16x64');
+  });
+
+  it('getCostBreakdown reads the OVE estimate cached with ROKS', () => {
+    const estimate = (totalMonthly: number) => ({
+      architecture: 'All-NVMe Converged',
+      region: 'us-south',
+      regionName: 'Dallas',
+      discountType: 'onDemand',
+      discountPct: 0,
+      lineItems: [],
+      subtotalMonthly: totalMonthly,
+      subtotalAnnual: totalMonthly * 12,
+      discountAmountMonthly: 0,
+      discountAmountAnnual: 0,
+      totalMonthly,
+      totalAnnual: totalMonthly * 12,
+      metadata: { pricingVersion: 'test', generatedAt: '2026-01-01T00:00:00Z', notes: [] },
+    } as CostEstimate);
+    cacheBOMData('roks', estimate(9000), undefined, undefined, undefined, undefined, estimate(7000));
+
+    const result = runChatTool(call('getCostBreakdown', { target: 'ove' }), rawData) as { target: string; totalMonthly: number };
+    expect(result).toMatchObject({ target: 'ove', totalMonthly: 7000 });
+  });
+});
+
+describe('describeToolCall', () => {
+  it('summarises the call for the approval card', () => {
+    expect(describeToolCall(call('countVMsBy', { attribute: 'guestOS' }))).toBe('Count VMs by guestOS');
+    expect(describeToolCall(call('filterVMs', { hasRDM: true, limit: 10 }))).toBe('List VMs where hasRDM=true');
+    expect(describeToolCall(call('getCostBreakdown', { target: 'roks' }))).toBe('ROKS cost breakdown');
+  });
+});
@@ -0,0 +1,356 @@
+// Chat data tools — run in the browser against the loaded RVTools data
+// The chat model requests a tool through its action envelope; the user previews
+// each result and only approved results are sent back to the proxy.
+
+import type { RVToolsData } from '@/types/rvtools';
+import { runPreFlightChecks, getChecksForMode, type CheckMode } from '@/services/preflightChecks';
+import { getWavePlanningPreference, type WavePlanningPreference } from '@/services/export/docx/types';
+import { computeWavesForExport, getStrategyLabel } from '@/services/export/pptx/utils/waveCalculations';
+import { getCachedBOM } from '@/services/bomCache';
+import { mibToGiB } from '@/utils/formatters';
+import type { ChatToolCall } from './types';
+
+const DEFAULT_VM_LIMIT = 25;
+const MAX_VM_LIMIT = 100;
+const MAX_GROUPS = 50;
+const MAX_WAVE_VMS = 100;
+const MAX_PREFLIGHT_VMS = 25;
+const MAX_NAME_PATTERN_LENGTH = 100;
+const TOP_LINE_ITEMS = 10;
+
+const COUNT_ATTRIBUTES = ['cluster', 'guestOS', 'powerState', 'host', 'datacenter', 'hardwareVersion'] as const;
+type CountAttribute = typeof COUNT_ATTRIBUTES[number];
+
+// Same strategy useWavePlanning starts with before the user picks one
+const DEFAULT_WAVE_PREFERENCE: WavePlanningPreference = {
+  wavePlanningMode: 'network',
+  networkGroupBy: 'cluster',
+};
+
+const round = (n: number, decimals = 1) => {
+  const f = 10 ** decimals;
+  return Math.round(n * f) / f;
+};
+
+const asString = (v: unknown): string | undefined =>
+  typeof v === 'string' && v.trim() ? v.trim() : undefined;
+
+const asNumber = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+
+/**
+ * Case-insensitive VM name match for model-supplied patterns. A pattern with
+ * `*` or `?` wildcards must match the whole name (glob); anything else is a
+ * substring match. No regex is compiled from the pattern.
+ */
+export function matchesNamePattern(name: string, pattern: string): boolean {
+  const text = name.toLowerCase();
+  const glob = pattern.toLowerCase();
+  if (!/[*?]/.test(glob)) return text.includes(glob);
+
+  // Iterative wildcard match: backtrack only to the most recent '*'
+  let t = 0;
+  let g = 0;
+  let starG = -1;
+  let starT = 0;
+  while (t < text.length) {
+    if (g < glob.length && (glob[g] === '?' || glob[g] === text[t])) {
+      t++;
+      g++;
+    } else if (g < glob.length && glob[g] === '*') {
+      starG = g++;
+      starT = t;
+    } else if (starG >= 0) {
+      g = starG + 1;
+      t = ++starT;
+    } else {
+      return false;
+    }
+  }
+  while (g < glob.length && glob[g] === '*') g++;
+  return g === glob.length;
+}
+
+const asTarget = (v: unknown): CheckMode => (v === 'vsi' || v === 'ove' ? v : 'roks');
+
+// ===== TOOLS =====
+
+function filterVMs(args: Record<string, unknown>, rawData: RVToolsData) {
+  const cluster = asString(args.cluster)?.toLowerCase();
+  const guestOS = asString(args.guestOS)?.toLowerCase();
+  const powerState = asString(args.powerState);
+  const minVCPUs = asNumber(args.minVCPUs);
+  const minMemoryGiB = asNumber(args.minMemoryGiB);
+  const limit = Math.min(Math.max(1, Math.floor(asNumber(args.limit) ?? DEFAULT_VM_LIMIT)), MAX_VM_LIMIT);
+
+  const namePattern = asString(args.namePattern);
+  if (namePattern && namePattern.length > MAX_NAME_PATTERN_LENGTH) {
+    return { error: `namePattern is longer than ${MAX_NAME_PATTERN_LENGTH} characters` };
+  }
+
+  const rdmVMs = new Set(rawData.vDisk.filter(d => d.raw).map(d => d.vmName));
+  const sharedDiskVMs = new Set(
+    rawData.vDisk
+      .filter(d => d.sharingMode && d.sharingMode.toLowerCase() !== 'sharingnone')
+      .map(d => d.vmName)
+  );
+  const snapshotVMs = new Set(rawData.vSnapshot.map(s => s.vmName));
+  const storageByVM = new Map<string, number>();
+  for (const d of rawData.vDisk) {
+    storageByVM.set(d.vmName, (storageByVM.get(d.vmName) ?? 0) + (d.capacityMiB || 0));
+  }
+
+  const matches = rawData.vInfo.filter(vm => {
+    if (vm.template) return false;
+    if (cluster && (vm.cluster || '').toLowerCase() !== cluster) return false;
+    if (guestOS && !(vm.guestOS || '').toLowerCase().includes(guestOS)) return false;
+    if (powerState && vm.powerState !== powerState) return false;
+    if (namePattern && !matchesNamePattern(vm.vmName, namePattern)) return false;
+    if (typeof args.hasRDM === 'boolean' && rdmVMs.has(vm.vmName) !== args.hasRDM) return false;
+    if (typeof args.hasSharedDisk === 'boolean' && sharedDiskVMs.has(vm.vmName) !== args.hasSharedDisk) return false;
+    if (typeof args.hasSnapshot === 'boolean' && snapshotVMs.has(vm.vmName) !== args.hasSnapshot) return false;
+    if (minVCPUs !== undefined && vm.cpus < minVCPUs) return false;
+    if (minMemoryGiB !== undefined && mibToGiB(vm.memory) < minMemoryGiB) return false;
+    return true;
+  });
+
+  return {
+    matched: matches.length,
+    returned: Math.min(matches.length, limit),
+    vms: matches.slice(0, limit).map(vm => ({
+      name: vm.vmName,
+      cluster: vm.cluster,
+      powerState: vm.powerState,
+      guestOS: vm.guestOS,
+      vCPUs: vm.cpus,
+      memoryGiB: round(mibToGiB(vm.memory)),
+      storageGiB: round(mibToGiB(storageByVM.get(vm.vmName) ?? vm.provisionedMiB ?? 0)),
+    })),
+  };
+}
+
+function countVMsBy(args: Record<string, unknown>, rawData: RVToolsData) {
+  const attribute = args.attribute as CountAttribute;
+  if (!COUNT_ATTRIBUTES.includes(attribute)) {
+    return { error: `attribute must be one of ${COUNT_ATTRIBUTES.join(', ')}` };
+  }
+
+  const counts = new Map<string, number>();
+  const vms = rawData.vInfo.filter(vm => !vm.template);
+  for (const vm of vms) {
+    const value = String(vm[attribute] || 'Unknown');
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+
+  return {
+    attribute,
+    totalVMs: vms.length,
+    groups: sorted.length,
+    counts: sorted.slice(0, MAX_GROUPS).map(([value, count]) => ({ value, count })),
+  };
+}
+
+function getPreflightResults(args: Record<string, unknown>, rawData: RVToolsData) {
+  const mode: CheckMode = asTarget(args.mode);
+  const definitions = getChecksForMode(mode);
+  const results = runPreFlightChecks(rawData, mode);
+
+  const vmNames = Array.isArray(args.vmNames)
+    ? args.vmNames.filter((n): n is string => typeof n === 'string').map(n => n.toLowerCase())
+    : [];
+  if (vmNames.length > 0) {
+    const wanted = new Set(vmNames.slice(0, MAX_PREFLIGHT_VMS));
+    const found = results.filter(r => wanted.has(r.vmName.toLowerCase()));
+    return {
+      mode,
+      vms: found.map(r => ({
+        name: r.vmName,
+        blockers: definitions
+          .filter(d => d.severity === 'blocker' && r.checks[d.id]?.status === 'fail')
+          .map(d => ({ check: d.name, message: r.checks[d.id].message })),
+        warnings: definitions
+          .filter(d => {
+            const status = r.checks[d.id]?.status;
+            return status === 'warn' || (status === 'fail' && d.severity !== 'blocker');
+          })
+          .map(d => ({ check: d.name, message: r.checks[d.id].message })),
+      })),
+      notFound: vmNames.filter(n => !found.some(r => r.vmName.toLowerCase() === n)),
+    };
+  }
+
+  const checkId = asString(args.checkId);
+  if (checkId) {
+    const definition = definitions.find(d => d.id === checkId);
+    if (!definition) {
+      return { error: `Unknown check "${checkId}" for ${mode}; known checks: ${definitions.map(d => d.id).join(', ')}` };
+    }
+    const failing = results.filter(r => {
+      const status = r.checks[checkId]?.status;
+      return status === 'fail' || status === 'warn';
+    });
+    return {
+      mode,
+      check: { id: definition.id, name: definition.name, severity: definition.severity },
+      affectedVMs: failing.length,
+      vms: failing.slice(0, MAX_PREFLIGHT_VMS).map(r => ({ name: r.vmName, message: r.checks[checkId].message })),
+    };
+  }
+
+  return {
+    mode,
+    vmsChecked: results.length,
+    vmsWithBlockers: results.filter(r => r.blockerCount > 0).length,
+    vmsWithWarnings: results.filter(r => r.warningCount > 0).length,
+    checks: definitions
+      .map(d => ({
+        id: d.id,
+        name: d.name,
+        severity: d.severity,
+        failed: results.filter(r => r.checks[d.id]?.status === 'fail').length,
+        warned: results.filter(r => r.checks[d.id]?.status === 'warn').length,
+      }))
+      .filter(c => c.failed > 0 || c.warned > 0),
+  };
+}
+
+/**
+ * The wave plan the Migration pages show: the saved strategy (and edits) or the default.
+ * Uses 'roks' mode as the wave grouping is the same for both targets.
+ */
+export function resolveChatWavePlan(rawData: RVToolsData) {
+  const preference = getWavePlanningPreference(rawData) ?? DEFAULT_WAVE_PREFERENCE;
+  return { preference, waves: computeWavesForExport(rawData, 'roks', preference) };
+}
+
+function getWaveContents(args: Record<string, unknown>, rawData: RVToolsData) {
+  const { preference, waves } = resolveChatWavePlan(rawData);
+  const strategy = getStrategyLabel(preference);
+
+  const summary = (w: typeof waves[number], i: number) => ({
+    number: i + 1,
+    name: w.name,
+    vmCount: w.vmCount,
+    vcpus: w.vcpus,
+    memoryGiB: round(w.memoryGiB),
+    storageGiB: round(w.storageGiB),
+    hasBlockers: w.hasBlockers,
+  });
+
+  if (args.wave === undefined || args.wave === null || args.wave === '') {
+    return { strategy, edited: !!preference.editedWaves?.roks, waves: waves.map(summary) };
+  }
+
+  const index = typeof args.wave === 'number'
+    ? args.wave - 1
+    : waves.findIndex(w => w.name.toLowerCase() === String(args.wave).trim().toLowerCase());
+  const wave = waves[index];
+  if (!wave) {
+    return { error: `No wave ${JSON.stringify(args.wave)}; the plan has ${waves.length} waves` };
+  }
+
+  return {
+    strategy,
+    ...summary(wave, index),
+    description: wave.description,
+    vms: wave.vms.slice(0, MAX_WAVE_VMS).map(vm => ({
+      name: vm.vmName,
+      cluster: vm.cluster,
+      complexity: vm.complexity,
+      hasBlocker: vm.hasBlocker,
+    })),
+  };
+}
+
+function getCostBreakdown(args: Record<string, unknown>) {
+  const target = asTarget(args.target);
+  // OVE is priced on the ROKS page alongside the ROKS estimate
+  const cached = getCachedBOM(target === 'ove' ? 'roks' : target);
+  const estimate = target === 'ove' ? cached?.oveEstimate : cached?.estimate;
+  if (!estimate) {
+    return { error: `No ${target.toUpperCase()} cost estimate yet — open the ${target === 'vsi' ? 'VSI' : 'ROKS'} sizing page first` };
+  }
+
+  const byCategory = new Map<string, number>();
+  for (const item of estimate.lineItems) {
+    byCategory.set(item.category, (byCategory.get(item.category) ?? 0) + item.monthlyCost);
+  }
+
+  return {
+    target,
+    architecture: estimate.architecture,
+    region: estimate.regionName,
+    currency: estimate.metadata.currency ?? 'USD',
+    discountPct: estimate.discountPct,
+    totalMonthly: round(estimate.totalMonthly, 2),
+    totalAnnual: round(estimate.totalAnnual, 2),
+    byCategory: [...byCategory.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([category, monthly]) => ({ category, monthly: round(monthly, 2) })),
+    topLineItems: [...estimate.lineItems]
+      .sort((a, b) => b.monthlyCost - a.monthlyCost)
+      .slice(0, TOP_LINE_ITEMS)
+      .map(item => ({
+        category: item.category,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        monthlyCost: round(item.monthlyCost, 2),
+      })),
+  };
+}
+
+// ===== PUBLIC API =====
+
+/**
+ * Run a chat tool call against the loaded data. Invalid arguments produce an
+ * `{ error }` result so the model can correct itself.
+ */
+export function runChatTool(call: ChatToolCall, rawData: RVToolsData): unknown {
+  const args = call.args ?? {};
+  switch (call.tool) {
+    case 'filterVMs':
+      return filterVMs(args, rawData);
+    case 'countVMsBy':
+      return countVMsBy(args, rawData);
+    case 'getPreflightResults':
+      return getPreflightResults(args, rawData);
+    case 'getWaveContents':
+      return getWaveContents(args, rawData);
+    case 'getCostBreakdown':
+      return getCostBreakdown(args);
+    default:
+      return { error: `Unknown tool: ${String(call.tool)}` };
+  }
+}
+
+/**
+ * One-line description of a tool call for the approval card
+ */
+export function describeToolCall(call: ChatToolCall): string {
+  const args = call.args ?? {};
+  switch (call.tool) {
+    case 'filterVMs': {
+      const filters = Object.entries(args)
+        .filter(([key]) => key !== 'limit')
+        .map(([key, value]) => `${key}=${JSON.stringify(value)}`);
+      return filters.length > 0 ? `List VMs where ${filters.join(', ')}` : 'List VMs';
+    }
+    case 'countVMsBy':
+      return `Count VMs by ${String(args.attribute ?? 'attribute')}`;
+    case 'getPreflightResults': {
+      const mode = asTarget(args.mode).toUpperCase();
+      if (Array.isArray(args.vmNames) && args.vmNames.length > 0) {
+        return `${mode} pre-flight results for ${args.vmNames.length} VM(s)`;
+      }
+      return args.checkId ? `${mode} pre-flight results for check ${String(args.checkId)}` : `${mode} pre-flight summary`;
+    }
+    case 'getWaveContents':
+      return args.wave !== undefined ? `Contents of wave ${String(args.wave)}` : 'Wave plan summary';
+    case 'getCostBreakdown':
+      return `${asTarget(args.target).toUpperCase()} cost breakdown`;
+    default:
+      return String(call.tool);
+  }
+}
@@ -8,9 +8,11 @@ export * from './aiClassificationCache';
 export * from './aiRightsizingApi';
 export * from './aiRightsizingCache';
 export * from './aiInsightsApi';
+export * from './aiWaveSequencingApi';
 export * from './aiChatApi';
 export * from './aiChatCache';
 export * from './chatContextBuilder';
+export * from './chatTools';
 export * from './aiTargetSelectionApi';
 export * from './aiTargetSelectionCache';
 export * from './aiAnomalyApi';
@@ -20,3 +22,6 @@ export * from './aiReportApi';
 export * from './reportInputBuilder';
 export { fetchAIDiscoveryQuestions, sendInterviewAnswer as sendAIInterviewAnswer } from './aiDiscoveryQuestionsApi';
 export * from './aiInterviewCache';
+export * from './aiResponseContracts';
+export * from './ruleBasedFallbacks';
+export * from './aiProvenance';
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRuleBasedAnomalies,
+  buildRuleBasedRiskAnalysis,
+  buildRuleBasedWaveSequencing,
+  buildRuleBasedDiscoveryQuestions,
+  describeInsightsSource,
+} from './ruleBasedFallbacks';
+
+describe('buildRuleBasedAnomalies', () => {
+  it('drops empty candidates, escalates widespread findings and sorts by severity', () => {
+    const { anomalies } = buildRuleBasedAnomalies({
+      anomalyCandidates: [
+        { category: 'configuration-drift', description: '40 CD-ROMs', affectedCount: 40 },
+        { category: 'network-anomaly', description: 'none', affectedCount: 0 },
+        { category: 'security-concern', description: '5 VMs without tools', affectedCount: 5 },
+      ],
+      totalVMs: 100,
+    });
+
+    expect(anomalies.map(a => [a.category, a.severity])).toEqual([
+      ['security-concern', 'high'],
+      ['configuration-drift', 'medium'],
+    ]);
+  });
+});
+
+describe('buildRuleBasedRiskAnalysis', () => {
+  const riskAssessment = { overallRisk: 'green', goNoGo: 'go', domains: [] };
+
+  it('recommends go without blockers and conditional with a few', () => {
+    expect(buildRuleBasedRiskAnalysis({ riskAssessment, totalVMs: 100 }).goNoGoAnalysis.recommendation).toBe('go');
+
+    const withBlockers = buildRuleBasedRiskAnalysis({
+      riskAssessment,
+      totalVMs: 100,
+      blockerSummary: ['2 VMs with RDM disks'],
+      complexitySummary: { simple: 90, moderate: 8, complex: 0, blocker: 2 },
+    });
+    expect(withBlockers.goNoGoAnalysis.recommendation).toBe('conditional');
+    expect(withBlockers.goNoGoAnalysis.keyConditions[0]).toBe('Remediate: 2 VMs with RDM disks');
+  });
+
+  it('recommends no-go when blockers affect more than a quarter of VMs', () => {
+    const result = buildRuleBasedRiskAnalysis({
+      riskAssessment,
+      totalVMs: 10,
+      complexitySummary: { simple: 5, moderate: 0, complex: 0, blocker: 5 },
+    });
+    expect(result.goNoGoAnalysis.recommendation).toBe('no-go');
+  });
+});
+
+describe('buildRuleBasedWaveSequencing', () => {
+  it('orders low-risk waves first and keeps the original order for ties', () => {
+    const result = buildRuleBasedWaveSequencing({
+      waves: [
+        { name: 'DB', vmCount: 5, totalVCPUs: 20, totalMemoryGiB: 80, workloadTypes: ['Databases'] },
+        { name: 'Web A', vmCount: 5, totalVCPUs: 20, totalMemoryGiB: 80, workloadTypes: ['Web Servers'] },
+        { name: 'Web B', vmCount: 5, totalVCPUs: 20, totalMemoryGiB: 80, workloadTypes: ['Web Servers'] },
+      ],
+      totalVMs: 15,
+      migrationTarget: 'roks',
+    });
+    expect(result.suggestedOrder).toEqual(['Web A', 'Web B', 'DB']);
+  });
+});
+
+describe('buildRuleBasedDiscoveryQuestions', () => {
+  it('adds workload questions only for workloads that are present', () => {
+    const withDb = buildRuleBasedDiscoveryQuestions({ workloadBreakdown: { Databases: 3 } });
+    expect(withDb.questionGroups.map(g => g.topic)).toContain('Workloads');
+
+    const without = buildRuleBasedDiscoveryQuestions({ workloadBreakdown: { Databases: 0 } });
+    expect(without.questionGroups.map(g => g.topic)).not.toContain('Workloads');
+  });
+});
+
+describe('describeInsightsSource', () => {
+  it('labels rule-based content separately from AI content', () => {
+    expect(describeInsightsSource('rule-based').label).toBe('Rule-Based');
+    expect(describeInsightsSource('watsonx').title).toBe('AI-Generated');
+    expect(describeInsightsSource('cached').label).toBe('AI');
+  });
+});
@@ -0,0 +1,515 @@
+// Rule-based fallbacks for AI responses
+// Deterministic, template-driven versions of each AI response type. They run in
+// the browser when AI is disabled, the proxy is not configured, or a call fails
+// or returns output that breaks its contract (see aiResponseContracts.ts), so
+// panels and exports keep their sections. Inputs are the same aggregated data
+// the proxy endpoints receive.
+
+import { formatNumber } from '@/utils/formatters';
+import { formatCurrency } from '@/services/costEstimation';
+import type {
+  AISource,
+  InsightsInput,
+  MigrationInsights,
+  WaveSuggestionInput,
+  WaveSuggestionResult,
+  WaveSequencingInput,
+  WaveSequencingResult,
+  AnomalyDetectionInput,
+  AnomalyDetectionResult,
+  AnomalyCategory,
+  AnomalySeverity,
+  RiskAnalysisInput,
+  RiskAnalysisResult,
+  SeverityAdjustment,
+  MissedRisk,
+  GoNoGoAnalysis,
+  ReportInput,
+  ReportNarrativeResult,
+  DiscoveryQuestionsInput,
+  DiscoveryQuestionsResult,
+  QuestionGroup,
+} from './types';
+
+// ===== SHARED HELPERS =====
+
+const plural = (n: number, noun: string) => `${formatNumber(n)} ${noun}${n === 1 ? '' : 's'}`;
+
+const pct = (part: number, total: number) => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+/** Workload types ordered by VM count, largest first */
+function topWorkloads(breakdown: Record<string, number> | undefined, limit: number): Array<[string, number]> {
+  return Object.entries(breakdown ?? {})
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
+function describeTarget(target: string | undefined): string {
+  switch (target) {
+    case 'roks':
+      return 'Red Hat OpenShift on IBM Cloud (ROKS) with OpenShift Virtualization';
+    case 'vsi':
+      return 'IBM Cloud VPC Virtual Server Instances';
+    case 'powervs':
+      return 'IBM Power Virtual Server';
+    case 'both':
+      return 'a mix of ROKS and VPC Virtual Server Instances';
+    default:
+      return 'IBM Cloud';
+  }
+}
+
+const hasWorkload = (breakdown: Record<string, number> | undefined, pattern: RegExp) =>
+  Object.entries(breakdown ?? {}).some(([type, count]) => count > 0 && pattern.test(type));
+
+// ===== LABELLING =====
+
+/**
+ * How exports label content by where it came from
+ */
+export function describeInsightsSource(source: AISource): { label: string; title: string; disclaimer: string } {
+  if (source === 'rule-based') {
+    return {
+      label: 'Rule-Based',
+      title: 'Rule-Based',
+      disclaimer: 'The following content was generated from rule-based templates because AI was unavailable and should be reviewed for accuracy.',
+    };
+  }
+  return {
+    label: 'AI',
+    title: 'AI-Generated',
+    disclaimer: 'The following content was generated by AI (IBM watsonx.ai) and should be reviewed for accuracy.',
+  };
+}
+
+// ===== INSIGHTS =====
+
+/**
+ * Migration insights from the environment summary
+ */
+export function buildRuleBasedInsights(input: InsightsInput): MigrationInsights {
+  const { simple, moderate, complex, blocker } = input.complexitySummary;
+  const assessed = simple + moderate + complex + blocker;
+  const blockers = input.preflightSummary?.totalBlockers ?? blocker;
+  const warnings = input.preflightSummary?.totalWarnings ?? 0;
+  const readyPct = pct(simple + moderate, assessed);
+
+  const executiveSummary =
+    `The environment contains ${plural(input.totalVMs, 'VM')} across ${plural(input.clusterCount, 'cluster')} and ` +
+    `${plural(input.hostCount, 'host')}, using ${formatNumber(input.totalVCPUs)} vCPUs, ` +
+    `${formatNumber(Math.round(input.totalMemoryGiB))} GiB of memory and ${input.totalStorageTiB.toFixed(1)} TiB of storage` +
+    `${input.totalExcluded > 0 ? ` (${plural(input.totalExcluded, 'VM')} excluded from scope)` : ''}. ` +
+    `${readyPct}% of assessed VMs are simple or moderate to migrate to ${describeTarget(input.migrationTarget)}` +
+    `${blockers > 0 ? `, and ${plural(blockers, 'blocker')} must be resolved first` : ' and no blockers were found'}.` +
+    (input.costEstimate
+      ? ` The estimated run rate is ${formatCurrency(input.costEstimate.monthly)} per month in ${input.costEstimate.region}.`
+      : '');
+
+  const riskLevel = blockers > 0 || complex > assessed * 0.25 ? 'elevated' : complex > 0 || warnings > 0 ? 'moderate' : 'low';
+  const topIssues = (input.preflightSummary?.topIssues ?? [])
+    .slice(0, 3)
+    .map(issue => `${issue.checkId} (${plural(issue.affectedCount, 'VM')})`);
+  const riskAssessment =
+    `Overall migration risk is ${riskLevel}: ${plural(complex, 'complex VM')} and ${plural(blocker, 'VM')} with blockers ` +
+    `out of ${formatNumber(assessed)} assessed. ` +
+    (topIssues.length > 0
+      ? `The most frequent pre-flight findings are ${topIssues.join(', ')}.`
+      : input.blockerSummary.length > 0
+        ? `Key blockers: ${input.blockerSummary.slice(0, 3).join('; ')}.`
+        : 'No recurring pre-flight findings were reported.');
+
+  const recommendations: string[] = [];
+  if (blockers > 0) {
+    recommendations.push(`Resolve the ${plural(blockers, 'pre-flight blocker')} before scheduling the affected VMs into a wave.`);
+  }
+  if (simple > 0) {
+    recommendations.push(`Start with a pilot wave of simple VMs (${formatNumber(simple)} available) to validate tooling and runbooks.`);
+  }
+  if (complex > 0) {
+    recommendations.push(`Plan the ${plural(complex, 'complex VM')} into later waves with application owner sign-off and rollback plans.`);
+  }
+  if (hasWorkload(input.workloadBreakdown, /database|db/i)) {
+    recommendations.push('Schedule database workloads in dedicated maintenance windows and validate replication or backup restore first.');
+  }
+  if (warnings > 0) {
+    recommendations.push(`Review the ${plural(warnings, 'pre-flight warning')} and agree which ones are accepted risks.`);
+  }
+  recommendations.push('Confirm network segments, firewall rules and DNS cut-over steps with the network team before the first wave.');
+
+  const costOptimizations = [
+    'Right-size VMs to their observed utilisation before choosing target profiles.',
+    'Decommission powered-off and unused VMs instead of migrating them.',
+  ];
+  if (input.migrationTarget !== 'vsi') {
+    costOptimizations.push('Use CPU overcommit on ROKS worker nodes for low-utilisation workloads to reduce node count.');
+  }
+  if (input.costEstimate) {
+    costOptimizations.push('Compare on-demand pricing with 1- and 3-year reserved or subscription pricing for steady-state workloads.');
+  }
+
+  const strategyTarget = input.targetSplit
+    ? `The current target split is ${formatNumber(input.targetSplit.roks)} VMs to ROKS, ${formatNumber(input.targetSplit.vsi)} to VPC VSI and ${formatNumber(input.targetSplit.powervs)} to PowerVS.`
+    : `The planned target is ${describeTarget(input.migrationTarget)}.`;
+  const migrationStrategy =
+    `${strategyTarget} Migrate in waves ordered by complexity: a pilot of simple VMs, then moderate VMs grouped by network ` +
+    `so that each subnet moves together, and finally complex VMs once blockers are remediated. ` +
+    `Validate each wave against agreed success criteria before starting the next.`;
+
+  return { executiveSummary, riskAssessment, recommendations, costOptimizations, migrationStrategy, source: 'rule-based' };
+}
+
+// ===== WAVE SUGGESTIONS =====
+
+/**
+ * Wave plan suggestions from wave sizes, complexity and blockers
+ */
+export function buildRuleBasedWaveSuggestions(input: WaveSuggestionInput): WaveSuggestionResult {
+  const suggestions: string[] = [];
+  const riskNarratives: WaveSuggestionResult['riskNarratives'] = [];
+  const dependencyWarnings: string[] = [];
+
+  const averageSize = input.waves.length > 0 ? input.totalVMs / input.waves.length : 0;
+  const first = input.waves[0];
+  if (first && (first.hasBlockers || first.avgComplexity > 50)) {
+    suggestions.push(`${first.name} contains blockers or complex VMs; use a small pilot wave of simple VMs first.`);
+  }
+
+  for (const wave of input.waves) {
+    if (averageSize > 0 && wave.vmCount > averageSize * 2) {
+      suggestions.push(`${wave.name} is more than twice the average wave size (${plural(wave.vmCount, 'VM')}); consider splitting it.`);
+    }
+    const level = wave.hasBlockers ? 'high' : wave.avgComplexity > 50 ? 'medium' : 'low';
+    riskNarratives.push({
+      waveName: wave.name,
+      narrative:
+        `${plural(wave.vmCount, 'VM')} with ${formatNumber(wave.totalVCPUs)} vCPUs and ${formatNumber(Math.round(wave.totalMemoryGiB))} GiB memory; ` +
+        `average complexity ${Math.round(wave.avgComplexity)}. Risk is ${level}` +
+        (wave.hasBlockers ? ' because the wave contains VMs with unresolved blockers.' : '.'),
+    });
+    if (wave.workloadTypes.some(type => /database|db/i.test(type))) {
+      dependencyWarnings.push(`${wave.name} includes database workloads; move dependent application tiers in the same or a later wave.`);
+    }
+  }
+
+  if (input.waves.some(w => w.hasBlockers)) {
+    suggestions.push('Move VMs with unresolved blockers into a final remediation wave so they do not delay other waves.');
+  }
+  if (suggestions.length === 0) {
+    suggestions.push('The wave plan is balanced; confirm cut-over windows with application owners.');
+  }
+
+  return { suggestions, riskNarratives, dependencyWarnings, source: 'rule-based' };
+}
+
+// ===== WAVE SEQUENCING =====
+
+/**
+ * Wave order and risk schedule: lower-risk waves first, infrastructure before dependants
+ */
+export function buildRuleBasedWaveSequencing(input: WaveSequencingInput): WaveSequencingResult {
+  const riskOf = (wave: WaveSequencingInput['waves'][number]): 'low' | 'medium' | 'high' => {
+    if (wave.workloadTypes.some(type => /database|db|middleware|messaging/i.test(type))) return 'high';
+    if (wave.vmCount > input.totalVMs / Math.max(input.waves.length, 1) * 1.5) return 'medium';
+    return 'low';
+  };
+  const rank = { low: 0, medium: 1, high: 2 } as const;
+
+  const scheduled = input.waves.map((wave, index) => ({ wave, index, risk: riskOf(wave) }));
+  const suggestedOrder = [...scheduled]
+    .sort((a, b) => rank[a.risk] - rank[b.risk] || a.index - b.index)
+    .map(s => s.wave.name);
+
+  const dependencies: WaveSequencingResult['dependencies'] = [];
+  const infra = input.waves.filter(w => w.workloadTypes.some(type => /infrastructure|directory|dns|identity/i.test(type)));
+  for (const provider of infra) {
+    for (const wave of input.waves) {
+      if (wave === provider) continue;
+      const shared = (wave.networkGroups ?? []).filter(g => provider.networkGroups?.includes(g));
+      if (shared.length > 0) {
+        dependencies.push({
+          from: provider.name,
+          to: wave.name,
+          reason: `${provider.name} hosts infrastructure services used on ${shared.slice(0, 2).join(', ')}.`,
+        });
+      }
+    }
+  }
+
+  const riskSchedule = scheduled.map(({ wave, risk }) => ({
+    waveName: wave.name,
+    riskLevel: risk,
+    riskReason:
+      risk === 'high'
+        ? 'Contains stateful or shared-service workloads.'
+        : risk === 'medium'
+          ? 'Larger than the average wave.'
+          : 'Small wave of stateless or standalone workloads.',
+  }));
+
+  return { suggestedOrder, dependencies, riskSchedule, vmMoveRecommendations: [], source: 'rule-based' };
+}
+
+// ===== ANOMALY DETECTION =====
+
+const ANOMALY_SEVERITY: Record<AnomalyCategory, AnomalySeverity> = {
+  'security-concern': 'high',
+  'migration-risk': 'medium',
+  'storage-anomaly': 'medium',
+  'resource-misconfig': 'medium',
+  'network-anomaly': 'low',
+  'configuration-drift': 'low',
+};
+
+const ANOMALY_TEMPLATES: Record<AnomalyCategory, { title: string; recommendation: string }> = {
+  'resource-misconfig': {
+    title: 'Resource allocation outliers',
+    recommendation: 'Review the outliers and right-size them before selecting target profiles.',
+  },
+  'security-concern': {
+    title: 'Security configuration gap',
+    recommendation: 'Remediate before migration; VMware Tools is also needed for clean shutdown and driver injection.',
+  },
+  'migration-risk': {
+    title: 'Migration scope risk',
+    recommendation: 'Confirm with application owners whether these VMs are still needed or can be retired.',
+  },
+  'network-anomaly': {
+    title: 'Unusual network configuration',
+    recommendation: 'Map each adapter to a target subnet and confirm multi-homing is supported on the target.',
+  },
+  'storage-anomaly': {
+    title: 'Storage hygiene issue',
+    recommendation: 'Consolidate or delete old snapshots before migration to reduce transfer size and time.',
+  },
+  'configuration-drift': {
+    title: 'Configuration drift',
+    recommendation: 'Clean up the configuration so migrated VMs start from a consistent baseline.',
+  },
+};
+
+/**
+ * Anomaly findings from the pre-computed candidates, with fixed severities per category
+ */
+export function buildRuleBasedAnomalies(input: AnomalyDetectionInput): AnomalyDetectionResult {
+  const severityRank: Record<AnomalySeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+  const anomalies = input.anomalyCandidates
+    .filter(candidate => candidate.affectedCount > 0)
+    .map(candidate => {
+      let severity = ANOMALY_SEVERITY[candidate.category];
+      // Escalate findings that affect a large share of the estate
+      if (severity !== 'high' && input.totalVMs > 0 && candidate.affectedCount / input.totalVMs >= 0.25) {
+        severity = severity === 'low' ? 'medium' : 'high';
+      }
+      const template = ANOMALY_TEMPLATES[candidate.category];
+      return {
+        category: candidate.category,
+        severity,
+        title: template.title,
+        description: candidate.description,
+        affectedCount: candidate.affectedCount,
+        recommendation: template.recommendation,
+        isValid: true,
+      };
+    })
+    .sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || b.affectedCount - a.affectedCount);
+
+  return { anomalies, source: 'rule-based' };
+}
+
+// ===== RISK ANALYSIS =====
+
+const SEVERITY_ORDER = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Risk review from the risk table, complexity and blockers
+ */
+export function buildRuleBasedRiskAnalysis(input: RiskAnalysisInput): RiskAnalysisResult {
+  const blockers = input.complexitySummary?.blocker ?? 0;
+  const complex = input.complexitySummary?.complex ?? 0;
+  const blockerSummary = input.blockerSummary ?? [];
+
+  // Auto-calculated domains rated below what their evidence suggests
+  const severityAdjustments: SeverityAdjustment[] = [];
+  for (const domain of input.riskAssessment.domains) {
+    const current = domain.severity.toLowerCase();
+    if (domain.autoSeverity === null || !SEVERITY_ORDER.includes(current)) continue;
+    if (domain.evidence.length >= 3 && SEVERITY_ORDER.indexOf(current) < SEVERITY_ORDER.indexOf('medium')) {
+      severityAdjustments.push({
+        domain: domain.name,
+        currentSeverity: domain.severity,
+        suggestedSeverity: 'medium',
+        reasoning: `${plural(domain.evidence.length, 'evidence item')} recorded against a ${current} rating.`,
+      });
+    }
+  }
+
+  const missedRisks: MissedRisk[] = [];
+  if (complex > 0 && !input.riskAssessment.domains.some(d => /complex|application/i.test(d.name))) {
+    missedRisks.push({
+      domain: 'Application',
+      title: 'Complex workloads',
+      severity: complex > input.totalVMs * 0.25 ? 'high' : 'medium',
+      description: `${plural(complex, 'VM')} scored as complex and may need re-platforming or extended testing.`,
+    });
+  }
+  if (blockers > 0 && blockerSummary.length === 0) {
+    missedRisks.push({
+      domain: 'Technical',
+      title: 'Unexplained blockers',
+      severity: 'high',
+      description: `${plural(blockers, 'VM')} have blockers that are not described in the risk table.`,
+    });
+  }
+
+  const securityRisks = [
+    {
+      title: 'Firewall and security group parity',
+      severity: 'medium',
+      description: 'Distributed firewall and NSX rules do not migrate automatically.',
+      recommendation: 'Export current rules and map them to VPC security groups or network policies before cut-over.',
+    },
+    {
+      title: 'Privileged access during migration',
+      severity: 'medium',
+      description: 'Migration tooling needs elevated vCenter and cloud credentials.',
+      recommendation: 'Use dedicated, time-limited service accounts and rotate credentials after the migration.',
+    },
+  ];
+
+  const overall = input.riskAssessment.overallRisk.toLowerCase();
+  let goNoGoAnalysis: GoNoGoAnalysis;
+  if (blockers > 0 || overall === 'high' || overall === 'red') {
+    goNoGoAnalysis = {
+      recommendation: blockers > input.totalVMs * 0.25 ? 'no-go' : 'conditional',
+      confidence: 0.6,
+      reasoning: `${plural(blockers, 'VM')} with blockers and an overall risk of ${input.riskAssessment.overallRisk}. Migration can proceed for unaffected VMs once remediation is planned.`,
+      keyConditions: [
+        ...blockerSummary.slice(0, 3).map(b => `Remediate: ${b}`),
+        'Agree a remediation owner and date for each blocker',
+      ],
+    };
+  } else {
+    goNoGoAnalysis = {
+      recommendation: overall === 'medium' || overall === 'amber' ? 'conditional' : 'go',
+      confidence: 0.7,
+      reasoning: `No blockers were found and the overall risk is ${input.riskAssessment.overallRisk}.`,
+      keyConditions: overall === 'medium' || overall === 'amber' ? ['Mitigation plans recorded for every amber risk'] : [],
+    };
+  }
+
+  return { severityAdjustments, missedRisks, securityRisks, goNoGoAnalysis, source: 'rule-based' };
+}
+
+// ===== REPORT NARRATIVE =====
+
+/**
+ * Report narrative sections from the environment summary
+ */
+export function buildRuleBasedReportNarrative(input: ReportInput): ReportNarrativeResult {
+  const target = describeTarget(input.migrationTarget);
+  const workloads = topWorkloads(input.workloadBreakdown, 3);
+
+  const executiveSummary =
+    `This assessment covers ${plural(input.totalVMs, 'VM')} running on ${plural(input.hostCount, 'host')} in ` +
+    `${plural(input.clusterCount, 'cluster')}. The recommended destination is ${target}.` +
+    (input.riskSummary ? ` Overall migration risk is ${input.riskSummary.overallRisk} (${input.riskSummary.goNoGo}).` : '') +
+    (input.costEstimate ? ` The estimated cost is ${formatCurrency(input.costEstimate.monthly)} per month.` : '');
+
+  const environmentAnalysis =
+    `The source environment provides ${formatNumber(input.totalVCPUs)} vCPUs, ${formatNumber(Math.round(input.totalMemoryGiB))} GiB ` +
+    `of memory and ${input.totalStorageTiB.toFixed(1)} TiB of provisioned storage.` +
+    (workloads.length > 0
+      ? ` The largest workload groups are ${workloads.map(([type, count]) => `${type} (${formatNumber(count)})`).join(', ')}.`
+      : '');
+
+  const migrationRecommendation =
+    `Migrate to ${target} in waves, starting with a pilot of low-complexity VMs.` +
+    (input.wavePlan
+      ? ` The current plan uses ${plural(input.wavePlan.totalWaves, 'wave')} over about ${plural(input.wavePlan.totalDuration, 'day')}.`
+      : '');
+
+  const riskNarrative = input.riskSummary
+    ? `The risk assessment rates the migration as ${input.riskSummary.overallRisk} with a ${input.riskSummary.goNoGo} decision. ` +
+      'Risks should be tracked to closure in the risk register before each wave.'
+    : 'No risk assessment was recorded; complete the risk register before committing to a schedule.';
+
+  const costJustification = input.costEstimate
+    ? `At ${formatCurrency(input.costEstimate.monthly)} per month (${formatCurrency(input.costEstimate.annual)} per year) ` +
+      `in ${input.costEstimate.region}, the target replaces on-premises hardware refresh, VMware licensing and data centre costs.`
+    : 'A cost estimate has not been generated yet; produce one from the sizing pages to compare against current run costs.';
+
+  return {
+    executiveSummary,
+    environmentAnalysis,
+    migrationRecommendation,
+    riskNarrative,
+    costJustification,
+    nextSteps: [
+      'Validate the inventory and exclusions with application owners',
+      'Remediate pre-flight blockers',
+      'Build the landing zone and network connectivity',
+      'Run a pilot wave and review lessons learned',
+    ],
+    assumptions: [
+      'Inventory reflects the RVTools export at the time of assessment',
+      'Pricing uses list prices for the selected region',
+      'Performance requirements are met by equivalently sized target resources',
+    ],
+    source: 'rule-based',
+  };
+}
+
+// ===== DISCOVERY QUESTIONS =====
+
+/**
+ * Discovery questions for the workload types present in the environment
+ */
+export function buildRuleBasedDiscoveryQuestions(input: DiscoveryQuestionsInput): DiscoveryQuestionsResult {
+  const groups: QuestionGroup[] = [
+    {
+      topic: 'Business drivers',
+      relevance: 'Sets priorities and deadlines for the migration',
+      questions: [
+        { id: 'biz-1', question: 'What is driving the migration timeline (contract renewal, data centre exit, licensing)?', priority: 'high', context: 'Determines how aggressive the wave plan can be.' },
+        { id: 'biz-2', question: 'Which applications are business-critical and what downtime can each tolerate?', priority: 'high', context: 'Drives cut-over windows and wave order.' },
+      ],
+    },
+    {
+      topic: 'Network and security',
+      relevance: 'Connectivity and firewall rules must exist before the first wave',
+      questions: [
+        { id: 'net-1', question: 'Must VMs keep their IP addresses after migration?', priority: 'high', context: 'Affects subnet design and cut-over approach.' },
+        { id: 'net-2', question: 'How is the cloud connected to on-premises (Direct Link, VPN) and what bandwidth is available?', priority: 'medium', context: 'Limits data transfer rates per wave.' },
+      ],
+    },
+    {
+      topic: 'Operations',
+      relevance: 'Day-2 tooling must be ready on the target',
+      questions: [
+        { id: 'ops-1', question: 'Which backup, monitoring and patching tools must be supported on the target?', priority: 'medium', context: 'Agents and integrations may need replacing.' },
+      ],
+    },
+  ];
+
+  const workloadQuestions: QuestionGroup['questions'] = [];
+  if (hasWorkload(input.workloadBreakdown, /database|db/i)) {
+    workloadQuestions.push({ id: 'wl-db', question: 'Which databases use clustering or replication, and can they be migrated by replication instead of VM copy?', priority: 'high', context: 'The environment contains database workloads.' });
+  }
+  if (hasWorkload(input.workloadBreakdown, /middleware|messaging|integration/i)) {
+    workloadQuestions.push({ id: 'wl-mw', question: 'Which middleware or messaging systems have hard-coded endpoints or licences tied to hosts?', priority: 'medium', context: 'The environment contains middleware workloads.' });
+  }
+  if (hasWorkload(input.workloadBreakdown, /desktop|vdi/i)) {
+    workloadQuestions.push({ id: 'wl-vdi', question: 'Will virtual desktops move as-is or be replaced by a desktop-as-a-service offering?', priority: 'medium', context: 'The environment contains desktop workloads.' });
+  }
+  if (workloadQuestions.length > 0) {
+    groups.splice(1, 0, {
+      topic: 'Workloads',
+      relevance: 'Questions for the workload types found in this environment',
+      questions: workloadQuestions,
+    });
+  }
+
+  return { questionGroups: groups, source: 'rule-based' };
+}
@@ -1,15 +1,46 @@
 // TypeScript interfaces for all AI service requests and responses
 
+import type { RiskCategory, RiskStatus } from '@/types/riskAssessment';
+
 // ===== SHARED TYPES =====
 
 export type AISource = 'watsonx' | 'rule-based' | 'cached';
 
+/** LLM backend behind the proxy */
+export type AIProviderName = 'watsonx' | 'openai-compatible';
+
 export interface AIProxyHealthResponse {
   status: string;
+  /** Absent on proxies that predate pluggable providers (always watsonx) */
+  provider?: AIProviderName;
+  providerLabel?: string;
   model?: string;
+  fastModel?: string;
+  complexModel?: string;
+  /** Current prompt version per task, keyed like the proxy's selectModel() tasks */
+  promptVersions?: Record<string, string>;
   projectId?: string;
 }
 
+/** Model metadata the proxy returns alongside every AI result */
+export interface AIResponseMeta {
+  model: string;
+  /** Absent on proxies that predate pluggable providers */
+  provider?: AIProviderName;
+  /** Content hash of the prompt template that produced the result */
+  promptVersion?: string;
+  processingTimeMs: number;
+}
+
+/** Where a cached AI result came from, kept so stale prompts can be spotted */
+export interface AIProvenance {
+  model: string;
+  provider?: AIProviderName;
+  promptVersion?: string;
+  latencyMs: number;
+  generatedAt: string;
+}
+
 // ===== CLASSIFICATION TYPES =====
 
 export interface VMClassificationInput {
@@ -39,10 +70,8 @@ export interface ClassificationRequest {
   vms: VMClassificationInput[];
 }
 
-export interface ClassificationResponse {
+export interface ClassificationResponse extends AIResponseMeta {
   classifications: VMClassificationResult[];
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== RIGHT-SIZING TYPES =====
@@ -80,10 +109,8 @@ export interface RightsizingRequest {
   }>;
 }
 
-export interface RightsizingResponse {
+export interface RightsizingResponse extends AIResponseMeta {
   recommendations: ProfileRecommendation[];
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== INSIGHTS TYPES =====
@@ -134,16 +161,15 @@ export interface MigrationInsights {
   costOptimizations: string[];
   migrationStrategy: string;
   source: AISource;
+  provenance?: AIProvenance;
 }
 
 export interface InsightsRequest {
   data: InsightsInput;
 }
 
-export interface InsightsResponse {
+export interface InsightsResponse extends AIResponseMeta {
   insights: MigrationInsights;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== CHAT TYPES =====
@@ -153,6 +179,72 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  /** Data tools the assistant asked to run before answering */
+  toolCalls?: ChatToolRequest[];
+  /** Plan changes the assistant proposed, applied only when the user accepts */
+  suggestions?: ChatSuggestion[];
+}
+
+/** Plan changes the chat model may propose (validated by the proxy) */
+export type ChatAction =
+  | { type: 'excludeCluster'; clusterName: string }
+  | { type: 'excludeByResourcePoolPattern'; pattern: string }
+  | { type: 'excludeByVMNamePattern'; pattern: string }
+  | { type: 'forceIncludeVM'; vmName: string }
+  | { type: 'excludeVM'; vmName: string }
+  | { type: 'excludeVMs'; vmNames: string[] }
+  | { type: 'setWorkloadType'; vmNames: string[]; workloadType: string }
+  | { type: 'moveVMsToWave'; vmNames: string[]; wave: number }
+  | { type: 'setTargetPlatform'; vmNames: string[]; target: MigrationTarget }
+  | {
+      type: 'addRisk';
+      category: RiskCategory;
+      description: string;
+      status: RiskStatus;
+      impactArea: string;
+      mitigationPlan: string;
+    }
+  | { type: 'setOvercommit'; cpuOvercommit?: number; memoryOvercommit?: number };
+
+export type ChatSuggestionStatus = 'pending' | 'applied' | 'dismissed' | 'undone';
+
+export interface ChatSuggestion {
+  id: string;
+  reason: string;
+  action: ChatAction;
+  status: ChatSuggestionStatus;
+  /** What applying the action changed, e.g. "Excluded 3 VMs" */
+  outcome?: string;
+}
+
+/** Data tools the chat model may request; they run in the browser */
+export type ChatToolName =
+  | 'filterVMs'
+  | 'countVMsBy'
+  | 'getPreflightResults'
+  | 'getWaveContents'
+  | 'getCostBreakdown';
+
+export interface ChatToolCall {
+  id: string;
+  tool: ChatToolName;
+  args: Record<string, unknown>;
+}
+
+export type ChatToolCallStatus = 'pending' | 'approved' | 'declined';
+
+export interface ChatToolRequest extends ChatToolCall {
+  status: ChatToolCallStatus;
+  /** Result shared with the model (approved calls only) */
+  result?: unknown;
+}
+
+export interface ChatToolResult {
+  tool: ChatToolName;
+  args: Record<string, unknown>;
+  result: unknown;
+  /** The user declined to share this call's result */
+  withheld?: boolean;
 }
 
 export interface ChatContext {
@@ -196,13 +288,13 @@ export interface ChatRequest {
     content: string;
   }>;
   context?: ChatContext;
+  /** User-approved results of the previous answer's tool calls (streaming endpoint only) */
+  toolResults?: ChatToolResult[];
 }
 
-export interface ChatResponse {
+export interface ChatResponse extends AIResponseMeta {
   response: string;
   suggestedFollowUps?: string[];
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== WAVE SUGGESTIONS TYPES =====
@@ -227,16 +319,15 @@ export interface WaveSuggestionResult {
   riskNarratives: Array<{ waveName: string; narrative: string }>;
   dependencyWarnings: string[];
   source: AISource;
+  provenance?: AIProvenance;
 }
 
 export interface WaveSuggestionRequest {
   data: WaveSuggestionInput;
 }
 
-export interface WaveSuggestionResponse {
+export interface WaveSuggestionResponse extends AIResponseMeta {
   result: WaveSuggestionResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== COST OPTIMIZATION TYPES =====
@@ -269,10 +360,8 @@ export interface CostOptimizationRequest {
   data: CostOptimizationInput;
 }
 
-export interface CostOptimizationResponse {
+export interface CostOptimizationResponse extends AIResponseMeta {
   result: CostOptimizationResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== REMEDIATION TYPES =====
@@ -302,10 +391,8 @@ export interface RemediationRequest {
   data: RemediationInput;
 }
 
-export interface RemediationResponse {
+export interface RemediationResponse extends AIResponseMeta {
   result: RemediationResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== STREAMING TYPES =====
@@ -314,6 +401,8 @@ export interface StreamCallbacks {
   onChunk: (text: string) => void;
   onDone: (fullText: string) => void;
   onError: (error: Error) => void;
+  /** Named SSE events (`event: <name>`), e.g. the chat `actions` envelope */
+  onEvent?: (event: string, data: unknown) => void;
 }
 
 // ===== TARGET SELECTION TYPES =====
@@ -347,10 +436,8 @@ export interface TargetSelectionRequest {
   vms: TargetSelectionInput[];
 }
 
-export interface TargetSelectionResponse {
+export interface TargetSelectionResponse extends AIResponseMeta {
   selections: TargetSelectionResult[];
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== WAVE SEQUENCING TYPES =====
@@ -393,16 +480,15 @@ export interface WaveSequencingResult {
   riskSchedule: Array<{ waveName: string; riskLevel: 'low' | 'medium' | 'high'; riskReason: string }>;
   vmMoveRecommendations: VMMoveSuggestion[];
   source: AISource;
+  provenance?: AIProvenance;
 }
 
 export interface WaveSequencingRequest {
   data: WaveSequencingInput;
 }
 
-export interface WaveSequencingResponse {
+export interface WaveSequencingResponse extends AIResponseMeta {
   result: WaveSequencingResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== ANOMALY DETECTION TYPES =====
@@ -444,16 +530,15 @@ export interface AnomalyResult {
 export interface AnomalyDetectionResult {
   anomalies: AnomalyResult[];
   source: AISource;
+  provenance?: AIProvenance;
 }
 
 export interface AnomalyDetectionRequest {
   data: AnomalyDetectionInput;
 }
 
-export interface AnomalyDetectionResponse {
+export interface AnomalyDetectionResponse extends AIResponseMeta {
   result: AnomalyDetectionResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== AI RISK ANALYSIS TYPES =====
@@ -520,10 +605,8 @@ export interface RiskAnalysisRequest {
   data: RiskAnalysisInput;
 }
 
-export interface RiskAnalysisResponse {
+export interface RiskAnalysisResponse extends AIResponseMeta {
   result: RiskAnalysisResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== REPORT NARRATIVE TYPES =====
@@ -567,10 +650,8 @@ export interface ReportNarrativeRequest {
   data: ReportInput;
 }
 
-export interface ReportNarrativeResponse {
+export interface ReportNarrativeResponse extends AIResponseMeta {
   result: ReportNarrativeResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== DISCOVERY QUESTIONS TYPES =====
@@ -605,10 +686,8 @@ export interface DiscoveryQuestionsRequest {
   data: DiscoveryQuestionsInput;
 }
 
-export interface DiscoveryQuestionsResponse {
+export interface DiscoveryQuestionsResponse extends AIResponseMeta {
   result: DiscoveryQuestionsResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== INTERVIEW TYPES =====
@@ -635,6 +714,7 @@ export interface InterviewResult {
   followUpContext: string;
   insightsFromAnswer: string[];
   source: AISource;
+  provenance?: AIProvenance;
 }
 
 export interface InterviewRequest {
@@ -650,10 +730,8 @@ export interface InterviewRequest {
   };
 }
 
-export interface InterviewResponse {
+export interface InterviewResponse extends AIResponseMeta {
   result: InterviewResult;
-  model: string;
-  processingTimeMs: number;
 }
 
 // ===== SETTINGS TYPES =====
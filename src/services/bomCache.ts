@@ -1,7 +1,7 @@
 // BOM data cache — stores cost estimation data in localStorage so Export page can generate BOMs
 // without requiring the user to re-do sizing on migration pages
 
-import type { CostEstimate, RegionCode, DiscountType } from '@/services/costEstimation';
+import { convertEstimate, type CostEstimate, type RegionCode, type DiscountType } from '@/services/costEstimation';
 import type { VMDetail, ROKSNodeDetail } from '@/services/export';
 
 const STORAGE_KEY = 'vcf-bom-cache';
@@ -12,6 +12,8 @@ interface BOMCacheEntry {
   roksNodeDetails?: ROKSNodeDetail[];
   region?: RegionCode;
   discountType?: DiscountType;
+  /** ROKS only: the same cluster priced as OpenShift Virtualization Engine */
+  oveEstimate?: CostEstimate;
   cachedAt: string;
 }
 
@@ -27,6 +29,7 @@ export function cacheBOMData(
   roksNodeDetails?: ROKSNodeDetail[],
   region?: RegionCode,
   discountType?: DiscountType,
+  oveEstimate?: CostEstimate | null,
 ): void {
   const existing = readCache();
   existing[type] = {
@@ -35,6 +38,7 @@ export function cacheBOMData(
     roksNodeDetails,
     region,
     discountType,
+    oveEstimate: oveEstimate ?? undefined,
     cachedAt: new Date().toISOString(),
   };
   try {
@@ -44,8 +48,15 @@ export function cacheBOMData(
   }
 }
 
+// Cached estimates are re-expressed in the current quote currency on read
 export function getCachedBOM(type: 'vsi' | 'roks'): BOMCacheEntry | null {
-  return readCache()[type] ?? null;
+  const entry = readCache()[type];
+  if (!entry) return null;
+  return {
+    ...entry,
+    estimate: convertEstimate(entry.estimate),
+    oveEstimate: entry.oveEstimate ? convertEstimate(entry.oveEstimate) : undefined,
+  };
 }
 
 export function hasCachedBOM(type: 'vsi' | 'roks'): boolean {
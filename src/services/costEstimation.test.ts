@@ -1,17 +1,24 @@
 // Unit tests for cost estimation service
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
   calculateVSICost,
   calculateROKSCost,
+  calculateOVECost,
+  calculateROKSVSICost,
+  calculatePowerVSCost,
+  calculateVMwareRetainCost,
   getRegions,
   getDiscountOptions,
   formatCurrency,
   formatCurrencyPrecise,
   findClosestPricedProfile,
+  convertEstimate,
 } from './costEstimation';
-import type { VSISizingInput, ROKSSizingInput } from './costEstimation';
+import type { VSISizingInput, ROKSSizingInput, ROKSVSISizingInput, PowerVSSizingInput } from './costEstimation';
 import type { VSIProfile, IBMCloudPricing } from '@/services/pricing/pricingCache';
 import { getStaticPricing } from '@/services/pricing/pricingCache';
+import { saveCurrencySettings, getActiveCurrency, DEFAULT_CURRENCY_SETTINGS } from '@/services/pricing/currency';
+import { saveRateCardSettings, type RateCard } from '@/services/pricing/rateCard';
 
 describe('Cost Estimation Service', () => {
   describe('getRegions', () => {
@@ -100,6 +107,145 @@ describe('Cost Estimation Service', () => {
       expect(formatCurrencyPrecise(1234.56)).toBe('$1,234.56');
       expect(formatCurrencyPrecise(1234)).toBe('$1,234.00');
     });
+
+    it('should use the currency locale and decimals', () => {
+      expect(formatCurrencyPrecise(1234.5, 'EUR')).toBe('€1,234.50');
+      expect(formatCurrencyPrecise(1234.5, 'JPY')).toBe('¥1,235');
+    });
+  });
+
+  describe('quote currency', () => {
+    const input: VSISizingInput = {
+      vmProfiles: [{ profile: 'bx2-4x16', count: 5 }],
+      storageTiB: 10,
+      storageTier: '10iops',
+    };
+
+    afterEach(() => {
+      saveCurrencySettings(DEFAULT_CURRENCY_SETTINGS);
+      localStorage.clear();
+    });
+
+    it('should record USD at a rate of 1 by default', () => {
+      const estimate = calculateVSICost(input);
+
+      expect(estimate.metadata.currency).toBe('USD');
+      expect(estimate.metadata.exchangeRate).toBe(1);
+    });
+
+    it('should convert every amount into the selected currency and record the rate', () => {
+      const usd = calculateVSICost(input);
+      saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR', customRates: { EUR: 0.9 } });
+      const eur = calculateVSICost(input);
+
+      expect(eur.metadata).toMatchObject({ currency: 'EUR', exchangeRate: 0.9, exchangeRateSource: 'user' });
+      expect(eur.totalMonthly).toBeCloseTo(usd.totalMonthly * 0.9);
+      expect(eur.lineItems[0].unitCost).toBeCloseTo(usd.lineItems[0].unitCost * 0.9);
+      expect(formatCurrency(1234)).toBe('€1,234');
+    });
+
+    it('should re-base an estimate already expressed in another currency', () => {
+      saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR', customRates: { EUR: 0.9 } });
+      const eur = calculateVSICost(input);
+      saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'JPY', customRates: { JPY: 150 } });
+      const jpy = convertEstimate(eur, getActiveCurrency());
+
+      expect(jpy.metadata.currency).toBe('JPY');
+      expect(jpy.totalMonthly).toBeCloseTo((eur.totalMonthly / 0.9) * 150);
+    });
+  });
+
+  describe('custom IOPS storage', () => {
+    it('should price sdp volumes by capacity plus provisioned IOPS', () => {
+      const estimate = calculateVSICost({
+        vmProfiles: [{ profile: 'bx2-4x16', count: 1 }],
+        storageTiB: 1,
+        storageByTier: {},
+        customIOPSStorage: { capacityGiB: 500, iops: 20000 },
+      });
+
+      const capacity = estimate.lineItems.find(item => item.description === 'Data Storage - Custom IOPS (sdp)');
+      const iops = estimate.lineItems.find(item => item.description === 'Provisioned IOPS (sdp)');
+      expect(capacity?.monthlyCost).toBeCloseTo(500 * 0.1);
+      expect(iops?.monthlyCost).toBeCloseTo(20000 * 0.00065);
+      expect(estimate.lineItems.filter(item => item.category === 'Storage - Block')).toHaveLength(2);
+    });
+  });
+
+  describe('rate card', () => {
+    const rateCard: RateCard = {
+      name: 'ACME EA',
+      discounts: { vsi: 20, storage: 50 },
+      monthlyCredit: 100,
+      source: 'manual',
+      updatedAt: '2026-10-01T00:00:00Z',
+    };
+    const input: VSISizingInput = {
+      vmProfiles: [{ profile: 'bx2-4x16', count: 5 }],
+      storageTiB: 10,
+      storageTier: '10iops',
+    };
+
+    afterEach(() => {
+      saveCurrencySettings(DEFAULT_CURRENCY_SETTINGS);
+      localStorage.clear();
+    });
+
+    it('should apply per-service discounts line by line and keep list prices', () => {
+      const list = calculateVSICost(input, 'us-south', 'reserved1Year');
+      saveRateCardSettings({ enabled: true, rateCard: { ...rateCard, monthlyCredit: 0 } });
+      const contracted = calculateVSICost(input, 'us-south', 'reserved1Year');
+
+      const compute = contracted.lineItems.find(i => i.category === 'Compute - VSI')!;
+      const storage = contracted.lineItems.find(i => i.category === 'Storage - Block')!;
+      const lb = contracted.lineItems.find(i => i.category === 'Networking')!;
+      expect(compute.contractedMonthlyCost).toBeCloseTo(compute.monthlyCost * 0.8);
+      expect(storage.contractedMonthlyCost).toBeCloseTo(storage.monthlyCost * 0.5);
+      expect(lb).toMatchObject({ discountPct: 0, contractedMonthlyCost: lb.monthlyCost });
+
+      // The rate card replaces the flat discount option
+      expect(contracted.discountType).toBe('rateCard');
+      expect(contracted.subtotalMonthly).toBeCloseTo(list.subtotalMonthly);
+      const expectedTotal = contracted.lineItems.reduce((sum, i) => sum + i.contractedMonthlyCost!, 0);
+      expect(contracted.totalMonthly).toBeCloseTo(expectedTotal);
+      expect(contracted.metadata.rateCard).toMatchObject({ name: 'ACME EA', creditMonthly: 0 });
+    });
+
+    it('should deduct the committed-use credit without going below zero', () => {
+      saveRateCardSettings({ enabled: true, rateCard });
+      const withCredit = calculateVSICost(input);
+      saveRateCardSettings({ enabled: true, rateCard: { ...rateCard, monthlyCredit: 1e9 } });
+      const overCredit = calculateVSICost(input);
+
+      expect(withCredit.metadata.rateCard!.creditMonthly).toBe(100);
+      expect(withCredit.discountAmountMonthly).toBeCloseTo(withCredit.metadata.rateCard!.lineDiscountMonthly + 100);
+      expect(overCredit.totalMonthly).toBeCloseTo(0);
+    });
+
+    it('should discount OCP licensing and bare metal separately for ROKS', () => {
+      saveRateCardSettings({ enabled: true, rateCard: { ...rateCard, discounts: { bareMetal: 10, ocpLicense: 30 }, monthlyCredit: 0 } });
+      const estimate = calculateROKSCost({ computeNodes: 3, computeProfile: 'bx2d-metal-96x384', useNvme: true });
+
+      expect(estimate.lineItems.find(i => i.category === 'Compute')?.discountPct).toBe(10);
+      expect(estimate.lineItems.find(i => i.description === 'OpenShift Container Platform License')?.discountPct).toBe(30);
+      expect(estimate.lineItems.find(i => i.category === 'Storage - ODF')?.discountPct).toBe(0);
+    });
+
+    it('should be ignored while switched off', () => {
+      saveRateCardSettings({ enabled: false, rateCard });
+
+      expect(calculateVSICost(input).metadata.rateCard).toBeUndefined();
+    });
+
+    it('should convert contracted amounts with the quote currency', () => {
+      saveRateCardSettings({ enabled: true, rateCard });
+      const usd = calculateVSICost(input);
+      saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR', customRates: { EUR: 0.9 } });
+      const eur = calculateVSICost(input);
+
+      expect(eur.metadata.rateCard!.creditMonthly).toBeCloseTo(90);
+      expect(eur.lineItems[0].contractedMonthlyCost).toBeCloseTo(usd.lineItems[0].contractedMonthlyCost! * 0.9);
+    });
   });
 
   describe('calculateVSICost', () => {
@@ -722,6 +868,195 @@ describe('Cost Estimation Service', () => {
     });
   });
 
+  describe('calculateOVECost', () => {
+    const baseSizing: ROKSSizingInput = {
+      computeNodes: 3,
+      computeProfile: 'bx2d-metal-96x384',
+      useNvme: true,
+      odfTier: 'advanced',
+    };
+
+    it('licenses the cluster with the OVE entitlement', () => {
+      const oveCost = calculateOVECost(baseSizing);
+      const licenseItem = oveCost.lineItems.find(item => item.description === 'OpenShift Virtualization Engine License');
+
+      expect(licenseItem).toBeDefined();
+      expect(licenseItem!.quantity).toBe(3 * 96);
+      expect(oveCost.totalMonthly).toBeLessThan(calculateROKSCost(baseSizing).totalMonthly);
+      expect(oveCost.metadata.notes.some(note => note.includes('VM-only'))).toBe(true);
+    });
+
+    it('itemises the OVE cluster management fee', () => {
+      const oveCost = calculateOVECost(baseSizing);
+      const management = oveCost.lineItems.find(item => item.description === 'OVE Cluster Management');
+
+      expect(management).toMatchObject({ quantity: 1, monthlyCost: 0 });
+      expect(calculateROKSCost(baseSizing, 'us-south', 'onDemand', undefined, 'rov').lineItems
+        .some(item => item.description === 'OVE Cluster Management')).toBe(false);
+    });
+
+    it('prefers OVE worker rates over ROKS worker rates', () => {
+      const pricing = getStaticPricing();
+      const ovePricing: IBMCloudPricing = {
+        ...pricing,
+        ove: {
+          ...pricing.ove!,
+          workerRates: { bareMetal: { 'bx2d-metal-96x384': { hourlyRate: 1, monthlyRate: 730 } } },
+        },
+      };
+      const compute = calculateOVECost(baseSizing, 'us-south', 'onDemand', ovePricing).lineItems
+        .find(item => item.category === 'Compute');
+
+      expect(compute?.unitCost).toBe(730);
+    });
+  });
+
+  describe('calculateROKSVSICost', () => {
+    const sizing: ROKSVSISizingInput = {
+      workerPools: [
+        { name: 'balanced', profile: 'bx2-16x64', workers: 3 },
+        { name: 'memory', profile: 'mx2-16x128', workers: 3 },
+      ],
+      storageGiBByClass: { 'ibmc-vpc-block-10iops-tier': 1000, 'ibmc-vpc-block-general-purpose': 500 },
+    };
+
+    it('should price one worker line per pool from the VSI catalog', () => {
+      const pricing = getStaticPricing();
+      const estimate = calculateROKSVSICost(sizing, 'us-south', 'onDemand', pricing);
+
+      const workers = estimate.lineItems.filter(i => i.category === 'Compute - VSI');
+      expect(workers.map(i => i.description)).toEqual([
+        'Worker Pool balanced - bx2-16x64',
+        'Worker Pool memory - mx2-16x128',
+      ]);
+      expect(workers[0].monthlyCost).toBeCloseTo(3 * pricing.vsi['bx2-16x64'].monthlyRate);
+      expect(estimate.architecture).toBe('ROKS on VSI Workers');
+    });
+
+    it('should license OCP on every worker vCPU and include no ODF', () => {
+      const estimate = calculateROKSVSICost(sizing);
+
+      const license = estimate.lineItems.find(i => i.description === 'OpenShift Container Platform License')!;
+      expect(license.quantity).toBe(96);
+      expect(estimate.lineItems.some(i => i.category === 'Storage - ODF')).toBe(false);
+    });
+
+    it('should price persistent volumes per VPC block CSI storage class', () => {
+      const pricing = getStaticPricing();
+      const estimate = calculateROKSVSICost(sizing, 'us-south', 'onDemand', pricing);
+
+      const storage = estimate.lineItems.filter(i => i.category === 'Storage - Block');
+      expect(storage.map(i => i.description)).toEqual([
+        'Block Storage - ibmc-vpc-block-general-purpose',
+        'Block Storage - ibmc-vpc-block-10iops-tier',
+      ]);
+      expect(storage[1].monthlyCost).toBeCloseTo(1000 * pricing.blockStorage['10iops'].costPerGBMonth);
+    });
+
+    it('should prefer ROKS worker rates over plain VSI rates', () => {
+      const pricing = getStaticPricing();
+      const withRates: IBMCloudPricing = {
+        ...pricing,
+        roks: { ...pricing.roks, workerRates: { vsi: { 'bx2-16x64': { hourlyRate: 1, monthlyRate: 730 } } } },
+      };
+      const estimate = calculateROKSVSICost(sizing, 'us-south', 'onDemand', withRates);
+
+      expect(estimate.lineItems[0].unitCost).toBe(730);
+      // Pools without a ROKS rate fall back to the VSI catalog
+      expect(estimate.lineItems[1].unitCost).toBeCloseTo(pricing.vsi['mx2-16x128'].monthlyRate);
+    });
+  });
+
+  describe('calculatePowerVSCost', () => {
+    const sizing: PowerVSSizingInput = {
+      instances: [
+        { systemType: 's1022', processorType: 'dedicated', cores: 2, memoryGiB: 64 },
+        { systemType: 's1022', processorType: 'shared', cores: 0.5, memoryGiB: 16 },
+        { systemType: 'e1080', processorType: 'dedicated', cores: 48, memoryGiB: 4096 },
+      ],
+      tier1StorageGiB: 1000,
+      tier3StorageGiB: 200,
+    };
+
+    it('should price cores and memory per system type and storage per tier', () => {
+      const pricing = getStaticPricing();
+      const s1022 = pricing.powervs!.systemTypes.s1022;
+      const estimate = calculatePowerVSCost(sizing);
+
+      const dedicated = estimate.lineItems.find(item => item.description === 'Power S1022 - Dedicated Cores');
+      expect(dedicated?.monthlyCost).toBeCloseTo(2 * s1022.dedicatedCoreMonthly);
+      const shared = estimate.lineItems.find(item => item.description === 'Power S1022 - Shared Cores');
+      expect(shared?.monthlyCost).toBeCloseTo(0.5 * s1022.sharedCoreMonthly);
+      expect(estimate.lineItems.find(item => item.description === 'Power S1022 - Memory')?.quantity).toBe(80);
+      expect(estimate.lineItems.find(item => item.description === 'Power E1080 - Memory')?.quantity).toBe(4096);
+
+      const tier1 = estimate.lineItems.find(item => item.description === 'Tier 1 Storage');
+      expect(tier1?.monthlyCost).toBeCloseTo(1000 * pricing.powervs!.storageTiers.tier1.costPerGBMonth);
+      expect(estimate.lineItems.find(item => item.description === 'Tier 3 Storage')?.quantity).toBe(200);
+
+      const lineTotal = estimate.lineItems.reduce((sum, item) => sum + item.monthlyCost, 0);
+      expect(estimate.totalMonthly).toBeCloseTo(lineTotal);
+      expect(estimate.regionName).toBe('Dallas (dal10)');
+    });
+
+    it('should apply PowerVS regional multipliers and discounts', () => {
+      const pricing = getStaticPricing();
+      const base = calculatePowerVSCost(sizing);
+      const frankfurt = calculatePowerVSCost(sizing, 'eu-de');
+      const reserved = calculatePowerVSCost(sizing, 'us-south', 'reserved1Year');
+
+      expect(frankfurt.totalMonthly).toBeCloseTo(base.totalMonthly * pricing.powervs!.regions['eu-de'].multiplier);
+      expect(reserved.totalMonthly).toBeCloseTo(base.totalMonthly * 0.8);
+    });
+
+    it('should skip unknown system types', () => {
+      const estimate = calculatePowerVSCost({
+        instances: [{ systemType: 'unknown', processorType: 'shared', cores: 1, memoryGiB: 8 }],
+        tier1StorageGiB: 0,
+        tier3StorageGiB: 0,
+      });
+      expect(estimate.lineItems).toHaveLength(0);
+      expect(estimate.totalMonthly).toBe(0);
+    });
+  });
+
+  describe('calculateVMwareRetainCost', () => {
+    it('should price classic hosts and per-core vSphere and vSAN subscriptions', () => {
+      const pricing = getStaticPricing();
+      const retain = pricing.vmwareRetain!;
+      const profile = retain.hostProfiles['classic-2x32c-768'];
+      const estimate = calculateVMwareRetainCost({ hostProfile: 'classic-2x32c-768', hosts: 4 });
+
+      const hosts = estimate.lineItems.find(item => item.category === 'Compute');
+      expect(hosts).toMatchObject({ quantity: 4, monthlyCost: 4 * profile.monthlyRate });
+      const vsphere = estimate.lineItems.find(item => item.description === 'VMware vSphere (VCF) Subscription');
+      expect(vsphere?.quantity).toBe(4 * 64);
+      expect(vsphere?.monthlyCost).toBeCloseTo(256 * retain.licensing.vsphere.perCoreMonthly);
+      expect(estimate.lineItems.find(item => item.description === 'VMware vSAN')?.quantity).toBe(256);
+      expect(estimate.architecture).toBe('VMware Cloud Foundation on IBM Cloud');
+    });
+
+    it('should license the per-socket core minimum', () => {
+      const pricing = getStaticPricing();
+      const smallHosts: IBMCloudPricing = {
+        ...pricing,
+        vmwareRetain: {
+          ...pricing.vmwareRetain!,
+          hostProfiles: { small: { ...pricing.vmwareRetain!.hostProfiles['classic-2x24c-384'], coresPerSocket: 8 } },
+        },
+      };
+      const estimate = calculateVMwareRetainCost({ hostProfile: 'small', hosts: 3 }, 'us-south', 'onDemand', smallHosts);
+
+      expect(estimate.lineItems.find(item => item.description === 'VMware vSAN')?.quantity).toBe(3 * 2 * 16);
+    });
+
+    it('should skip unknown host profiles', () => {
+      const estimate = calculateVMwareRetainCost({ hostProfile: 'unknown', hosts: 3 });
+      expect(estimate.lineItems).toHaveLength(0);
+      expect(estimate.totalMonthly).toBe(0);
+    });
+  });
+
   describe('getActivePricing - merge behavior', () => {
     it('should have all static VSI profiles available', () => {
       // When no proxy cache exists, static profiles should all be present
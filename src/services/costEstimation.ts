@@ -3,6 +3,9 @@ import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 import { createLogger } from '@/utils/logger';
 import type { IBMCloudPricing, BareMetalProfile, VSIProfile } from '@/services/pricing/pricingCache';
 import { getCurrentPricing, getStaticPricing } from '@/services/pricing/pricingCache';
+import { getActiveCurrency, getCurrencyDefinition, BASE_CURRENCY, type ActiveCurrency } from '@/services/pricing/currency';
+import { getActiveRateCard, applyRateCard, type RateCard } from '@/services/pricing/rateCard';
+import { getLicensedCoresPerHost } from '@/services/migration/vmwareRetainSizing';
 
 const logger = createLogger('CostEstimation');
 
@@ -64,6 +67,31 @@ export interface ROKSSizingInput {
   };
 }
 
+/** VPC block CSI storage classes available to ROKS clusters on VSI workers */
+export type VpcBlockStorageClass =
+  | 'ibmc-vpc-block-general-purpose'
+  | 'ibmc-vpc-block-5iops-tier'
+  | 'ibmc-vpc-block-10iops-tier';
+
+export const VPC_BLOCK_STORAGE_CLASSES: { id: VpcBlockStorageClass; tier: string; label: string }[] = [
+  { id: 'ibmc-vpc-block-general-purpose', tier: 'general-purpose', label: 'General Purpose (3 IOPS/GB)' },
+  { id: 'ibmc-vpc-block-5iops-tier', tier: '5iops', label: '5 IOPS/GB' },
+  { id: 'ibmc-vpc-block-10iops-tier', tier: '10iops', label: '10 IOPS/GB' },
+];
+
+export interface ROKSVSIWorkerPool {
+  name: string;
+  profile: string;
+  workers: number;
+}
+
+export interface ROKSVSISizingInput {
+  workerPools: ROKSVSIWorkerPool[];
+  /** Persistent volume capacity per VPC block CSI storage class, in GiB */
+  storageGiBByClass: Partial<Record<VpcBlockStorageClass, number>>;
+  includeAcm?: boolean;
+}
+
 export interface NetworkingOptions {
   includeVPN?: boolean;
   vpnGatewayCount?: number;
@@ -82,6 +110,18 @@ export interface VSISizingInput {
   networking?: NetworkingOptions;
   bootStorageGiB?: number;
   storageByTier?: Record<string, number>; // TiB per tier
+  customIOPSStorage?: { capacityGiB: number; iops: number }; // custom IOPS (sdp) data volumes
+}
+
+export interface PowerVSSizingInput {
+  instances: { systemType: string; processorType: 'shared' | 'dedicated'; cores: number; memoryGiB: number }[];
+  tier1StorageGiB: number;
+  tier3StorageGiB: number;
+}
+
+export interface VMwareRetainSizingInput {
+  hostProfile: string;
+  hosts: number;
 }
 
 // ===== VALIDATION =====
@@ -245,6 +285,7 @@ function getActivePricing(): IBMCloudPricing {
       networking: current.data.networking || staticData.networking,
       roks: current.data.roks || staticData.roks,
       ove: current.data.ove || staticData.ove,
+      powervs: current.data.powervs || staticData.powervs,
       storageAddons: current.data.storageAddons || staticData.storageAddons,
       odfWorkloadProfiles: current.data.odfWorkloadProfiles || staticData.odfWorkloadProfiles,
     };
@@ -311,6 +352,10 @@ export interface CostLineItem {
   monthlyCost: number;
   annualCost: number;
   notes?: string;
+  /** Rate card discount applied to this line, in percent (rate card estimates only) */
+  discountPct?: number;
+  /** Contracted monthly cost after the rate card discount; `monthlyCost` stays at list price */
+  contractedMonthlyCost?: number;
 }
 
 export interface CostEstimate {
@@ -330,6 +375,21 @@ export interface CostEstimate {
     pricingVersion: string;
     generatedAt: string;
     notes: string[];
+    /** Quote currency of every amount in the estimate (USD when absent) */
+    currency?: string;
+    /** Units of the quote currency per one unit of the pricing base currency */
+    exchangeRate?: number;
+    exchangeRateSource?: ActiveCurrency['rateSource'];
+    /** Pricing snapshot the estimate is pinned to (follows current pricing when absent) */
+    pricingSnapshotId?: string;
+    /** Contracted rate card applied in place of the flat discount option */
+    rateCard?: {
+      name: string;
+      source: RateCard['source'];
+      fileName?: string;
+      lineDiscountMonthly: number;
+      creditMonthly: number;
+    };
   };
 }
 
@@ -482,6 +542,86 @@ export function getODFProfiles(pricing?: IBMCloudPricing): PricingResult<{ id: s
   };
 }
 
+type EstimateTotals = Pick<CostEstimate,
+  'discountType' | 'discountPct' | 'lineItems' | 'subtotalMonthly' | 'subtotalAnnual'
+  | 'discountAmountMonthly' | 'discountAmountAnnual' | 'totalMonthly' | 'totalAnnual'>;
+
+/**
+ * Totals for a list-price estimate. An active rate card replaces the flat
+ * discount option: its per-service discounts are applied line by line and its
+ * committed-use credit is deducted from the total.
+ */
+function calculateTotals(
+  lineItems: CostLineItem[],
+  discountType: string,
+  discountData: { name: string; discountPct: number },
+  rateCard: RateCard | null = getActiveRateCard(),
+): { fields: EstimateTotals; notes: string[]; rateCard?: CostEstimate['metadata']['rateCard'] } {
+  const subtotalMonthly = lineItems.reduce((sum, item) => sum + item.monthlyCost, 0);
+
+  if (rateCard) {
+    const applied = applyRateCard(lineItems, rateCard);
+    const discountAmountMonthly = applied.lineDiscountMonthly + applied.creditMonthly;
+    const totalMonthly = subtotalMonthly - discountAmountMonthly;
+    return {
+      fields: {
+        discountType: 'rateCard',
+        discountPct: subtotalMonthly > 0 ? Math.round((discountAmountMonthly / subtotalMonthly) * 1000) / 10 : 0,
+        lineItems: applied.lineItems,
+        subtotalMonthly,
+        subtotalAnnual: subtotalMonthly * 12,
+        discountAmountMonthly,
+        discountAmountAnnual: discountAmountMonthly * 12,
+        totalMonthly,
+        totalAnnual: totalMonthly * 12,
+      },
+      notes: [`Contracted pricing from rate card "${rateCard.name}"`],
+      rateCard: {
+        name: rateCard.name,
+        source: rateCard.source,
+        fileName: rateCard.fileName,
+        lineDiscountMonthly: applied.lineDiscountMonthly,
+        creditMonthly: applied.creditMonthly,
+      },
+    };
+  }
+
+  const discountAmountMonthly = subtotalMonthly * (discountData.discountPct / 100);
+  const totalMonthly = subtotalMonthly - discountAmountMonthly;
+  return {
+    fields: {
+      discountType,
+      discountPct: discountData.discountPct,
+      lineItems,
+      subtotalMonthly,
+      subtotalAnnual: subtotalMonthly * 12,
+      discountAmountMonthly,
+      discountAmountAnnual: discountAmountMonthly * 12,
+      totalMonthly,
+      totalAnnual: totalMonthly * 12,
+    },
+    notes: [
+      'Contact IBM for enterprise pricing',
+      discountData.discountPct > 0 ? `${discountData.name} discount applied` : 'On-demand pricing',
+    ],
+  };
+}
+
+/** Architecture label of ROKS estimates priced on VSI worker pools */
+export const ROKS_VSI_ARCHITECTURE = 'ROKS on VSI Workers';
+
+const OPENSHIFT_LICENCE_LABELS: Record<'full' | 'rov' | 'ove', string> = {
+  full: 'OpenShift Container Platform License',
+  rov: 'ROV License',
+  ove: 'OpenShift Virtualization Engine License',
+};
+
+const OPENSHIFT_LICENCE_NOTES: Record<'full' | 'rov' | 'ove', string> = {
+  full: 'OCP entitlement fee per vCPU-hour',
+  rov: 'OVE reduced license fee per vCPU-hour',
+  ove: 'VM-only OVE entitlement per vCPU-hour',
+};
+
 /**
  * Calculate ROKS cluster cost estimate
  */
@@ -491,10 +631,36 @@ export function calculateROKSCost(
   discountType: DiscountType = 'onDemand',
   pricing?: IBMCloudPricing,
   roksVariant?: 'full' | 'rov'
+): CostEstimate {
+  return calculateBareMetalOpenShiftCost(input, region, discountType, pricing, roksVariant ?? 'full');
+}
+
+/**
+ * Calculate OpenShift Virtualization Engine (OVE) cluster cost estimate.
+ * Same bare metal + ODF footprint as ROKS, but licensed with the VM-only OVE
+ * entitlement, OVE worker rates and the OVE cluster management fee.
+ */
+export function calculateOVECost(
+  input: ROKSSizingInput,
+  region: RegionCode = 'us-south',
+  discountType: DiscountType = 'onDemand',
+  pricing?: IBMCloudPricing
+): CostEstimate {
+  return calculateBareMetalOpenShiftCost(input, region, discountType, pricing, 'ove');
+}
+
+function calculateBareMetalOpenShiftCost(
+  input: ROKSSizingInput,
+  region: RegionCode,
+  discountType: DiscountType,
+  pricing: IBMCloudPricing | undefined,
+  licenceModel: 'full' | 'rov' | 'ove'
 ): CostEstimate {
   const pricingToUse = pricing || getActivePricing();
-  // When ROV variant, use OVE pricing for licenses (fall back to ROKS if OVE missing)
-  const licensePricing = roksVariant === 'rov' && pricingToUse.ove ? pricingToUse.ove : pricingToUse.roks;
+  const isOve = licenceModel === 'ove';
+  // ROV and OVE use OVE pricing for licenses (fall back to ROKS if OVE missing)
+  const licensePricing = licenceModel !== 'full' && pricingToUse.ove ? pricingToUse.ove : pricingToUse.roks;
+  const workerRates = (isOve ? pricingToUse.ove?.workerRates : undefined) ?? pricingToUse.roks?.workerRates;
   const lineItems: CostLineItem[] = [];
 
   // Defensive checks for required pricing data
@@ -506,7 +672,7 @@ export function calculateROKSCost(
   const computeProfile = pricingToUse.bareMetal[input.computeProfile as keyof typeof pricingToUse.bareMetal];
   if (computeProfile && input.computeNodes > 0) {
     const isCustomNoPricing = computeProfile.isCustom && (!computeProfile.monthlyRate || computeProfile.monthlyRate === 0);
-    const roksComputeRate = pricingToUse.roks?.workerRates?.bareMetal?.[input.computeProfile];
+    const roksComputeRate = workerRates?.bareMetal?.[input.computeProfile];
     const monthlyRate = (isCustomNoPricing || !Number.isFinite(computeProfile.monthlyRate))
       ? 0
       : (roksComputeRate?.monthlyRate ?? computeProfile.monthlyRate) * multiplier;
@@ -545,7 +711,7 @@ export function calculateROKSCost(
     if (input.storageNodes && input.storageProfile) {
       const storageVSI = pricingToUse.vsi[input.storageProfile as keyof typeof pricingToUse.vsi];
       if (storageVSI) {
-        const roksStorageRate = pricingToUse.roks?.workerRates?.vsi?.[input.storageProfile!];
+        const roksStorageRate = workerRates?.vsi?.[input.storageProfile!];
         const monthlyRate = (roksStorageRate?.monthlyRate ?? storageVSI.monthlyRate) * multiplier;
         lineItems.push({
           category: 'Storage - VSI',
@@ -581,8 +747,7 @@ export function calculateROKSCost(
   }
 
   // OCP License (applies to all worker node vCPUs — compute + storage VSIs)
-  const isRov = roksVariant === 'rov';
-  const ocpLicenseLabel = isRov ? 'ROV License' : 'OpenShift Container Platform License';
+  const ocpLicenseLabel = OPENSHIFT_LICENCE_LABELS[licenceModel];
   const ocpHourlyRate = licensePricing?.ocpLicense?.perVCPUHourly ?? 0.04275;
   if (computeProfile && input.computeNodes > 0) {
     let totalOCPvCPUs = computeProfile.vcpus * input.computeNodes;
@@ -602,7 +767,22 @@ export function calculateROKSCost(
       unitCost: ocpHourlyRate * 730 * multiplier,
       monthlyCost: ocpMonthlyCost,
       annualCost: ocpMonthlyCost * 12,
-      notes: isRov ? 'OVE reduced license fee per vCPU-hour' : 'OCP entitlement fee per vCPU-hour',
+      notes: OPENSHIFT_LICENCE_NOTES[licenceModel],
+    });
+  }
+
+  // OVE cluster management fee (ROKS management is not itemised)
+  if (isOve && pricingToUse.ove?.clusterManagement) {
+    const managementMonthly = pricingToUse.ove.clusterManagement.perClusterMonthly * multiplier;
+    lineItems.push({
+      category: 'Licensing',
+      description: 'OVE Cluster Management',
+      quantity: 1,
+      unit: 'clusters',
+      unitCost: managementMonthly,
+      monthlyCost: managementMonthly,
+      annualCost: managementMonthly * 12,
+      notes: pricingToUse.ove.clusterManagement.description,
     });
   }
 
@@ -686,38 +866,157 @@ export function calculateROKSCost(
     notes: 'Application Load Balancers for ingress',
   });
 
-  // Calculate totals
-  const subtotalMonthly = lineItems.reduce((sum, item) => sum + item.monthlyCost, 0);
-  const subtotalAnnual = subtotalMonthly * 12;
-  const discountAmountMonthly = subtotalMonthly * (discountData.discountPct / 100);
-  const discountAmountAnnual = discountAmountMonthly * 12;
-  const totalMonthly = subtotalMonthly - discountAmountMonthly;
-  const totalAnnual = totalMonthly * 12;
+  const totals = calculateTotals(lineItems, discountType, discountData);
 
-  return {
+  return convertEstimate({
     architecture: input.useNvme ? 'All-NVMe Converged' : 'Hybrid (Bare Metal + VSI Storage)',
     region,
     regionName: regionData.name,
-    discountType,
-    discountPct: discountData.discountPct,
-    lineItems,
-    subtotalMonthly,
-    subtotalAnnual,
-    discountAmountMonthly,
-    discountAmountAnnual,
-    totalMonthly,
-    totalAnnual,
+    ...totals.fields,
     metadata: {
       pricingVersion: pricingToUse.pricingVersion,
       generatedAt: new Date().toISOString(),
       notes: [
         'Estimated pricing - actual costs may vary',
-        'Includes OpenShift licensing and ODF storage costs',
-        'Contact IBM for enterprise pricing',
-        discountData.discountPct > 0 ? `${discountData.name} discount applied` : 'On-demand pricing',
+        ...(isOve
+          ? ['Includes OpenShift Virtualization Engine licensing and ODF storage costs', 'VM-only entitlement - application containers need a full ROKS OCP license']
+          : ['Includes OpenShift licensing and ODF storage costs']),
+        ...totals.notes,
       ],
+      rateCard: totals.rateCard,
     },
-  };
+  }, getActiveCurrency(pricingToUse.baseCurrency));
+}
+
+/**
+ * Calculate ROKS cluster cost estimate for VPC VSI worker pools with VPC block
+ * CSI storage (no ODF). VSI workers run containers only — OpenShift
+ * Virtualization needs bare metal — so there is no ROV variant.
+ */
+export function calculateROKSVSICost(
+  input: ROKSVSISizingInput,
+  region: RegionCode = 'us-south',
+  discountType: DiscountType = 'onDemand',
+  pricing?: IBMCloudPricing
+): CostEstimate {
+  const pricingToUse = pricing || getActivePricing();
+  const lineItems: CostLineItem[] = [];
+
+  // Defensive checks for required pricing data
+  const regionData = pricingToUse.regions?.[region] || { name: 'Dallas', multiplier: 1.0, availabilityZones: 3 };
+  const discountData = pricingToUse.discounts?.[discountType] || { name: 'On-Demand', discountPct: 0, description: 'Pay-as-you-go' };
+  const multiplier = regionData.multiplier;
+
+  // Worker pools (one line per pool)
+  let totalWorkerVCPUs = 0;
+  for (const pool of input.workerPools) {
+    if (pool.workers <= 0) continue;
+    const exact = pricingToUse.vsi[pool.profile as keyof typeof pricingToUse.vsi];
+    const vsiProfile = exact ?? findClosestPricedProfile(pool.profile, pricingToUse.vsi);
+    if (!vsiProfile) {
+      logger.error(`[calculateROKSVSICost] Profile "${pool.profile}" not found and no fallback available (pool ${pool.name} dropped)`);
+      continue;
+    }
+    const roksWorkerRate = exact ? pricingToUse.roks?.workerRates?.vsi?.[pool.profile] : undefined;
+    const monthlyRate = (roksWorkerRate?.monthlyRate ?? vsiProfile.monthlyRate) * multiplier;
+    totalWorkerVCPUs += vsiProfile.vcpus * pool.workers;
+    lineItems.push({
+      category: 'Compute - VSI',
+      description: `Worker Pool ${pool.name} - ${pool.profile}`,
+      quantity: pool.workers,
+      unit: 'workers',
+      unitCost: monthlyRate,
+      monthlyCost: pool.workers * monthlyRate,
+      annualCost: pool.workers * monthlyRate * 12,
+      notes: exact
+        ? `ROKS VSI workers - ${vsiProfile.description}`
+        : `Estimated from ${vsiProfile.profile} — exact pricing unavailable for ${pool.profile}`,
+    });
+  }
+
+  // Persistent volumes per VPC block CSI storage class
+  for (const storageClass of VPC_BLOCK_STORAGE_CLASSES) {
+    const storageGB = input.storageGiBByClass[storageClass.id] ?? 0;
+    if (storageGB <= 0) continue;
+    const storageTierData = pricingToUse.blockStorage?.[storageClass.tier];
+    const costPerGB = (storageTierData?.costPerGBMonth || 0.10) * multiplier;
+    lineItems.push({
+      category: 'Storage - Block',
+      description: `Block Storage - ${storageClass.id}`,
+      quantity: storageGB,
+      unit: 'GB',
+      unitCost: costPerGB,
+      monthlyCost: storageGB * costPerGB,
+      annualCost: storageGB * costPerGB * 12,
+      notes: `VPC block CSI persistent volumes - ${storageTierData?.description || storageClass.label}`,
+    });
+  }
+
+  // OCP License on all worker vCPUs
+  const ocpHourlyRate = pricingToUse.roks?.ocpLicense?.perVCPUHourly ?? 0.04275;
+  if (totalWorkerVCPUs > 0) {
+    const ocpMonthlyCost = totalWorkerVCPUs * ocpHourlyRate * 730 * multiplier;
+    lineItems.push({
+      category: 'Licensing',
+      description: 'OpenShift Container Platform License',
+      quantity: totalWorkerVCPUs,
+      unit: 'vCPUs',
+      unitCost: ocpHourlyRate * 730 * multiplier,
+      monthlyCost: ocpMonthlyCost,
+      annualCost: ocpMonthlyCost * 12,
+      notes: 'OCP entitlement fee per vCPU-hour',
+    });
+  }
+
+  // ACM (Red Hat Advanced Cluster Management) — optional
+  if (input.includeAcm && totalWorkerVCPUs > 0) {
+    const acmPerVCPUHourly = pricingToUse.roks?.acm?.perVCPUHourly ?? 0.0298;
+    const acmMonthlyCost = totalWorkerVCPUs * acmPerVCPUHourly * 730 * multiplier;
+    lineItems.push({
+      category: 'Licensing',
+      description: 'Red Hat Advanced Cluster Management',
+      quantity: totalWorkerVCPUs,
+      unit: 'vCPUs',
+      unitCost: acmPerVCPUHourly * 730 * multiplier,
+      monthlyCost: acmMonthlyCost,
+      annualCost: acmMonthlyCost * 12,
+      notes: 'ACM license per vCPU-hour (estimated — not in IBM Cloud catalog)',
+    });
+  }
+
+  // Networking (basic setup)
+  const lbCostPerMonth = pricingToUse.networking?.loadBalancer?.perLBMonthly ?? 21.60;
+  const networkingCost = lbCostPerMonth * multiplier * 2; // 2 LBs
+  lineItems.push({
+    category: 'Networking',
+    description: 'Load Balancers (2x)',
+    quantity: 2,
+    unit: 'LBs',
+    unitCost: lbCostPerMonth * multiplier,
+    monthlyCost: networkingCost,
+    annualCost: networkingCost * 12,
+    notes: 'Application Load Balancers for ingress',
+  });
+
+  const totals = calculateTotals(lineItems, discountType, discountData);
+
+  return convertEstimate({
+    architecture: ROKS_VSI_ARCHITECTURE,
+    region,
+    regionName: regionData.name,
+    ...totals.fields,
+    metadata: {
+      pricingVersion: pricingToUse.pricingVersion,
+      generatedAt: new Date().toISOString(),
+      notes: [
+        'Estimated pricing - actual costs may vary',
+        'VSI workers run containerised workloads only - OpenShift Virtualization requires bare metal workers',
+        'Includes OpenShift licensing and VPC block CSI storage (no ODF)',
+        ...totals.notes,
+      ],
+      rateCard: totals.rateCard,
+    },
+  }, getActiveCurrency(pricingToUse.baseCurrency));
 }
 
 /**
@@ -813,7 +1112,7 @@ export function calculateVSICost(
         notes: storageTierData?.description || `${tier} IOPS tier`,
       });
     }
-  } else if (input.storageTiB > 0) {
+  } else if (input.storageTiB > 0 && !input.customIOPSStorage) {
     // Fallback: single-tier behavior for backward compatibility
     const tier = input.storageTier || '10iops';
     const storageTierData = pricingToUse.blockStorage?.[tier];
@@ -832,6 +1131,34 @@ export function calculateVSICost(
     });
   }
 
+  // Block storage — custom IOPS (sdp) data volumes, priced by capacity plus provisioned IOPS
+  if (input.customIOPSStorage && input.customIOPSStorage.capacityGiB > 0) {
+    const { capacityGiB, iops } = input.customIOPSStorage;
+    const customTierData = pricingToUse.blockStorage?.['custom'];
+    const costPerGB = (customTierData?.baseCostPerGBMonth ?? customTierData?.costPerGBMonth ?? 0.10) * multiplier;
+    const costPerIOPS = (customTierData?.costPerIOPSMonth ?? 0) * multiplier;
+    lineItems.push({
+      category: 'Storage - Block',
+      description: 'Data Storage - Custom IOPS (sdp)',
+      quantity: capacityGiB,
+      unit: 'GB',
+      unitCost: costPerGB,
+      monthlyCost: capacityGiB * costPerGB,
+      annualCost: capacityGiB * costPerGB * 12,
+      notes: customTierData?.description || 'Custom IOPS volumes',
+    });
+    lineItems.push({
+      category: 'Storage - Block',
+      description: 'Provisioned IOPS (sdp)',
+      quantity: iops,
+      unit: 'IOPS',
+      unitCost: costPerIOPS,
+      monthlyCost: iops * costPerIOPS,
+      annualCost: iops * costPerIOPS * 12,
+      notes: 'IOPS provisioned on custom IOPS data volumes',
+    });
+  }
+
   // Networking
   const netOpts = input.networking || {};
   const loadBalancerCount = netOpts.loadBalancerCount ?? 1;
@@ -921,6 +1248,110 @@ export function calculateVSICost(
     });
   }
 
+  const totals = calculateTotals(lineItems, discountType, discountData);
+
+  return convertEstimate({
+    architecture: 'VPC Virtual Server Instances',
+    region,
+    regionName: regionData.name,
+    ...totals.fields,
+    metadata: {
+      pricingVersion: pricingToUse.pricingVersion,
+      generatedAt: new Date().toISOString(),
+      notes: [
+        'Estimated pricing - actual costs may vary',
+        ...totals.notes,
+      ],
+      rateCard: totals.rateCard,
+    },
+  }, getActiveCurrency(pricingToUse.baseCurrency));
+}
+
+/**
+ * Calculate PowerVS cost estimate for VMs routed to IBM Power Virtual Server
+ */
+export function calculatePowerVSCost(
+  input: PowerVSSizingInput,
+  region: RegionCode = 'us-south',
+  discountType: DiscountType = 'onDemand',
+  pricing?: IBMCloudPricing
+): CostEstimate {
+  const pricingToUse = pricing || getActivePricing();
+  const lineItems: CostLineItem[] = [];
+  const notes: string[] = [];
+
+  const powervs = pricingToUse.powervs ?? getStaticPricing().powervs;
+  const regionData = pricingToUse.regions?.[region] || { name: 'Dallas', multiplier: 1.0, availabilityZones: 3 };
+  const discountData = pricingToUse.discounts?.[discountType] || { name: 'On-Demand', discountPct: 0, description: 'Pay-as-you-go' };
+  const powervsRegion = powervs?.regions[region];
+  if (!powervsRegion) {
+    notes.push(`PowerVS regional pricing unavailable for ${regionData.name} — VPC region multiplier applied`);
+  }
+  const multiplier = powervsRegion?.multiplier ?? regionData.multiplier;
+
+  // Group LPARs by system type so cores and memory are priced per system
+  const bySystem: Record<string, { shared: number; dedicated: number; memoryGiB: number; count: number }> = {};
+  for (const lpar of input.instances) {
+    const group = bySystem[lpar.systemType] ??= { shared: 0, dedicated: 0, memoryGiB: 0, count: 0 };
+    group[lpar.processorType] += lpar.cores;
+    group.memoryGiB += lpar.memoryGiB;
+    group.count++;
+  }
+
+  for (const [systemType, group] of Object.entries(bySystem)) {
+    const system = powervs?.systemTypes[systemType];
+    if (!system) {
+      logger.error(`[calculatePowerVSCost] System type "${systemType}" not found in pricing data (${group.count} LPARs dropped)`);
+      continue;
+    }
+
+    for (const processorType of ['dedicated', 'shared'] as const) {
+      const cores = group[processorType];
+      if (cores <= 0) continue;
+      const coreCost = (processorType === 'dedicated' ? system.dedicatedCoreMonthly : system.sharedCoreMonthly) * multiplier;
+      lineItems.push({
+        category: 'Compute - PowerVS',
+        description: `${system.name} - ${processorType === 'dedicated' ? 'Dedicated' : 'Shared'} Cores`,
+        quantity: cores,
+        unit: 'cores',
+        unitCost: coreCost,
+        monthlyCost: cores * coreCost,
+        annualCost: cores * coreCost * 12,
+        notes: system.description,
+      });
+    }
+
+    const memoryCost = system.memoryGBMonthly * multiplier;
+    lineItems.push({
+      category: 'Compute - PowerVS',
+      description: `${system.name} - Memory`,
+      quantity: group.memoryGiB,
+      unit: 'GB',
+      unitCost: memoryCost,
+      monthlyCost: group.memoryGiB * memoryCost,
+      annualCost: group.memoryGiB * memoryCost * 12,
+      notes: `${group.count} LPARs`,
+    });
+  }
+
+  // Storage — Tier 1 for databases/SAP, Tier 3 for everything else
+  const storageByTier: [string, number][] = [['tier1', input.tier1StorageGiB], ['tier3', input.tier3StorageGiB]];
+  for (const [tier, storageGB] of storageByTier) {
+    if (storageGB <= 0) continue;
+    const tierData = powervs?.storageTiers[tier];
+    const costPerGB = (tierData?.costPerGBMonth ?? 0.10) * multiplier;
+    lineItems.push({
+      category: 'Storage - PowerVS',
+      description: `${tierData?.tierName || tier} Storage`,
+      quantity: storageGB,
+      unit: 'GB',
+      unitCost: costPerGB,
+      monthlyCost: storageGB * costPerGB,
+      annualCost: storageGB * costPerGB * 12,
+      notes: tierData?.description || `${tier} storage`,
+    });
+  }
+
   // Calculate totals
   const subtotalMonthly = lineItems.reduce((sum, item) => sum + item.monthlyCost, 0);
   const subtotalAnnual = subtotalMonthly * 12;
@@ -929,10 +1360,10 @@ export function calculateVSICost(
   const totalMonthly = subtotalMonthly - discountAmountMonthly;
   const totalAnnual = totalMonthly * 12;
 
-  return {
-    architecture: 'VPC Virtual Server Instances',
+  return convertEstimate({
+    architecture: 'IBM Power Virtual Server',
     region,
-    regionName: regionData.name,
+    regionName: powervsRegion ? `${regionData.name} (${powervsRegion.zone})` : regionData.name,
     discountType,
     discountPct: discountData.discountPct,
     lineItems,
@@ -947,33 +1378,174 @@ export function calculateVSICost(
       generatedAt: new Date().toISOString(),
       notes: [
         'Estimated pricing - actual costs may vary',
-        'Contact IBM for enterprise pricing',
+        'AIX, IBM i and Linux subscriptions are billed separately',
+        ...notes,
         discountData.discountPct > 0 ? `${discountData.name} discount applied` : 'On-demand pricing',
       ],
     },
+  }, getActiveCurrency(pricingToUse.baseCurrency));
+}
+
+/**
+ * Calculate VMware Cloud Foundation on IBM Cloud cost estimate: classic bare metal
+ * hosts with vSphere and vSAN subscribed per physical core
+ */
+export function calculateVMwareRetainCost(
+  input: VMwareRetainSizingInput,
+  region: RegionCode = 'us-south',
+  discountType: DiscountType = 'onDemand',
+  pricing?: IBMCloudPricing
+): CostEstimate {
+  const pricingToUse = pricing || getActivePricing();
+  const lineItems: CostLineItem[] = [];
+
+  const vmwareRetain = pricingToUse.vmwareRetain ?? getStaticPricing().vmwareRetain;
+  const regionData = pricingToUse.regions?.[region] || { name: 'Dallas', multiplier: 1.0, availabilityZones: 3 };
+  const discountData = pricingToUse.discounts?.[discountType] || { name: 'On-Demand', discountPct: 0, description: 'Pay-as-you-go' };
+  const multiplier = regionData.multiplier;
+
+  const hostProfile = vmwareRetain?.hostProfiles[input.hostProfile];
+  if (!hostProfile) {
+    logger.error(`[calculateVMwareRetainCost] Host profile "${input.hostProfile}" not found in pricing data (${input.hosts} hosts dropped)`);
+  }
+
+  if (hostProfile && vmwareRetain && input.hosts > 0) {
+    const hostCost = hostProfile.monthlyRate * multiplier;
+    lineItems.push({
+      category: 'Compute',
+      description: `Classic Bare Metal - ${hostProfile.name}`,
+      quantity: input.hosts,
+      unit: 'hosts',
+      unitCost: hostCost,
+      monthlyCost: input.hosts * hostCost,
+      annualCost: input.hosts * hostCost * 12,
+      notes: hostProfile.description,
+    });
+
+    // Subscriptions follow the physical cores, not the VM footprint
+    const licensedCores = input.hosts * getLicensedCoresPerHost(hostProfile, vmwareRetain.licensing.minCoresPerSocket);
+    const licences = [
+      ['VMware vSphere (VCF) Subscription', vmwareRetain.licensing.vsphere],
+      ['VMware vSAN', vmwareRetain.licensing.vsan],
+    ] as const;
+    for (const [description, licence] of licences) {
+      const coreCost = licence.perCoreMonthly * multiplier;
+      lineItems.push({
+        category: 'Licensing',
+        description,
+        quantity: licensedCores,
+        unit: 'cores',
+        unitCost: coreCost,
+        monthlyCost: licensedCores * coreCost,
+        annualCost: licensedCores * coreCost * 12,
+        notes: licence.description,
+      });
+    }
+  }
+
+  const totals = calculateTotals(lineItems, discountType, discountData);
+
+  return convertEstimate({
+    architecture: 'VMware Cloud Foundation on IBM Cloud',
+    region,
+    regionName: regionData.name,
+    ...totals.fields,
+    metadata: {
+      pricingVersion: pricingToUse.pricingVersion,
+      generatedAt: new Date().toISOString(),
+      notes: [
+        'Estimated pricing - actual costs may vary',
+        `vSphere and vSAN subscribed per physical core, minimum ${vmwareRetain?.licensing.minCoresPerSocket ?? 16} cores per CPU socket`,
+        'Workloads stay on VMware - no conversion, but the platform is not modernised',
+        ...totals.notes,
+      ],
+      rateCard: totals.rateCard,
+    },
+  }, getActiveCurrency(pricingToUse.baseCurrency));
+}
+
+/**
+ * Express an estimate in the given quote currency (the active Settings selection
+ * by default). Estimates already carrying a currency are re-based from it, so
+ * cached estimates follow later changes to the selection or rate.
+ */
+export function convertEstimate(estimate: CostEstimate, currency: ActiveCurrency = getActiveCurrency()): CostEstimate {
+  const fromRate = estimate.metadata.exchangeRate ?? 1;
+  const factor = currency.rate / fromRate;
+  if (estimate.metadata.currency === currency.code && factor === 1) return estimate;
+
+  const convert = (amount: number) => amount * factor;
+  return {
+    ...estimate,
+    lineItems: estimate.lineItems.map(item => ({
+      ...item,
+      unitCost: convert(item.unitCost),
+      monthlyCost: convert(item.monthlyCost),
+      annualCost: convert(item.annualCost),
+      ...(item.contractedMonthlyCost != null && { contractedMonthlyCost: convert(item.contractedMonthlyCost) }),
+    })),
+    subtotalMonthly: convert(estimate.subtotalMonthly),
+    subtotalAnnual: convert(estimate.subtotalAnnual),
+    discountAmountMonthly: convert(estimate.discountAmountMonthly),
+    discountAmountAnnual: convert(estimate.discountAmountAnnual),
+    totalMonthly: convert(estimate.totalMonthly),
+    totalAnnual: convert(estimate.totalAnnual),
+    metadata: {
+      ...estimate.metadata,
+      currency: currency.code,
+      exchangeRate: currency.rate,
+      exchangeRateSource: currency.rateSource,
+      ...(estimate.metadata.rateCard && {
+        rateCard: {
+          ...estimate.metadata.rateCard,
+          lineDiscountMonthly: convert(estimate.metadata.rateCard.lineDiscountMonthly),
+          creditMonthly: convert(estimate.metadata.rateCard.creditMonthly),
+        },
+      }),
+    },
   };
 }
 
 /**
- * Format currency
+ * Convert an amount in the pricing base currency (USD) into the active quote currency
+ */
+export function convertFromBase(amount: number, currency: ActiveCurrency = getActiveCurrency()): number {
+  return amount * currency.rate;
+}
+
+/**
+ * Describe the currency and exchange rate an estimate was produced with
+ */
+export function describeCurrency(estimate?: CostEstimate | null): string {
+  const code = estimate?.metadata.currency ?? getActiveCurrency().code;
+  const rate = estimate ? estimate.metadata.exchangeRate ?? 1 : getActiveCurrency().rate;
+  if (code === BASE_CURRENCY) return `${code} (IBM Cloud list pricing)`;
+  return `${code} at 1 ${BASE_CURRENCY} = ${rate} ${code}`;
+}
+
+/**
+ * Format currency in the given (or active) quote currency
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(amount: number, currencyCode: string = getActiveCurrency().code): string {
+  const { locale } = getCurrencyDefinition(currencyCode);
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: 'USD',
+    currency: currencyCode,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount);
 }
 
 /**
- * Format currency with decimals
+ * Format currency with decimals (the currency's own minor units unless given)
  */
-export function formatCurrencyPrecise(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrencyPrecise(amount: number, currencyCode: string = getActiveCurrency().code, fractionDigits?: number): string {
+  const { locale, decimals: currencyDecimals } = getCurrencyDefinition(currencyCode);
+  const decimals = fractionDigits ?? currencyDecimals;
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    currency: currencyCode,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   }).format(amount);
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { compareEnvironments, hasEnvironmentChanges } from './environmentDelta';
+import type { RVToolsData, VirtualMachine, VSnapshotInfo } from '@/types/rvtools';
+import type { RiskRow } from '@/types/riskAssessment';
+import type { VMOverride } from '@/hooks/useVMOverrides';
+
+function makeVM(vmName: string, overrides: Partial<VirtualMachine> = {}): VirtualMachine {
+  return {
+    vmName,
+    uuid: `${vmName}-uuid`,
+    template: false,
+    powerState: 'poweredOn',
+    cluster: 'c1',
+    cpus: 2,
+    memory: 4096,
+    provisionedMiB: 10240,
+    inUseMiB: 5120,
+    guestOS: 'Red Hat Enterprise Linux 8 (64-bit)',
+    ...overrides,
+  } as VirtualMachine;
+}
+
+function makeSnapshot(vmName: string, snapshotName: string, date: string): VSnapshotInfo {
+  return { vmName, snapshotName, dateTime: new Date(date), sizeTotalMiB: 512 } as VSnapshotInfo;
+}
+
+function makeExport(vms: VirtualMachine[], snapshots: VSnapshotInfo[] = [], server = 'vc01'): RVToolsData {
+  return {
+    metadata: { fileName: `${server}.xlsx`, collectionDate: null, vCenterVersion: null, environment: null },
+    vInfo: vms,
+    vCPU: [], vMemory: [], vDisk: [], vPartition: [], vNetwork: [], vCD: [], vSnapshot: snapshots, vTools: [],
+    vCluster: [{ name: 'c1' }] as RVToolsData['vCluster'],
+    vHost: [], vDatastore: [], vResourcePool: [], vLicense: [], vHealth: [],
+    vSource: [{ server, instanceUuid: `${server}-id` }] as RVToolsData['vSource'],
+  };
+}
+
+function makeRisk(id: string, evidenceDetail: string): RiskRow {
+  return {
+    id,
+    source: 'auto',
+    category: 'Technical',
+    description: id,
+    impactArea: 'Migration Readiness',
+    status: 'amber',
+    mitigationPlan: '',
+    evidenceDetail,
+  };
+}
+
+function makeOverride(vmName: string): VMOverride {
+  return { vmId: `${vmName}::${vmName}-uuid`, vmName, excluded: true, modifiedAt: '' };
+}
+
+describe('compareEnvironments', () => {
+  it('rejects snapshots from different environments', () => {
+    expect(() => compareEnvironments(makeExport([]), makeExport([], [], 'vc02'))).toThrow(/different environments/);
+  });
+
+  it('reports added, removed, resized and OS-changed VMs', () => {
+    const baseline = makeExport([makeVM('keep'), makeVM('gone'), makeVM('grow'), makeVM('upgrade')]);
+    const current = makeExport([
+      makeVM('keep'),
+      makeVM('grow', { cpus: 4, memory: 8192 }),
+      makeVM('upgrade', { guestOS: 'Red Hat Enterprise Linux 9 (64-bit)' }),
+      makeVM('new'),
+    ]);
+
+    const delta = compareEnvironments(baseline, current);
+
+    expect(delta.addedVMs.map(vm => vm.vmName)).toEqual(['new']);
+    expect(delta.removedVMs.map(vm => vm.vmName)).toEqual(['gone']);
+    expect(delta.resizedVMs).toEqual([expect.objectContaining({
+      vmName: 'grow', cpusBefore: 2, cpusAfter: 4, memoryMiBBefore: 4096, memoryMiBAfter: 8192,
+    })]);
+    expect(delta.osChanges).toEqual([expect.objectContaining({
+      vmName: 'upgrade', guestOSAfter: 'Red Hat Enterprise Linux 9 (64-bit)',
+    })]);
+    expect(hasEnvironmentChanges(delta)).toBe(true);
+  });
+
+  it('reports per-VM storage changes, totals and new snapshots', () => {
+    const baseline = makeExport([makeVM('vm1'), makeVM('vm2')], [makeSnapshot('vm1', 'before-patch', '2026-01-01')]);
+    const current = makeExport(
+      [makeVM('vm1', { inUseMiB: 8192 }), makeVM('vm2')],
+      [makeSnapshot('vm1', 'before-patch', '2026-01-01'), makeSnapshot('vm2', 'pre-upgrade', '2026-02-01')],
+    );
+
+    const delta = compareEnvironments(baseline, current);
+
+    expect(delta.storageChanges).toEqual([expect.objectContaining({ vmName: 'vm1', inUseMiBBefore: 5120, inUseMiBAfter: 8192 })]);
+    expect(delta.storage.inUseMiBBefore).toBe(10240);
+    expect(delta.storage.inUseMiBAfter).toBe(13312);
+    expect(delta.newSnapshots.map(s => `${s.vmName}/${s.snapshotName}`)).toEqual(['vm2/pre-upgrade']);
+  });
+
+  it('reports no changes for identical snapshots', () => {
+    const data = makeExport([makeVM('vm1')]);
+    expect(hasEnvironmentChanges(compareEnvironments(data, makeExport([makeVM('vm1')])))).toBe(false);
+  });
+
+  it('flags stale overrides, wave assignments and risk rows', () => {
+    const baseline = makeExport([makeVM('keep'), makeVM('gone'), makeVM('grow')]);
+    const current = makeExport([makeVM('keep'), makeVM('grow', { cpus: 8 }), makeVM('new')]);
+
+    const delta = compareEnvironments(baseline, current, {
+      vmOverrides: {
+        'keep::keep-uuid': makeOverride('keep'),
+        'gone::gone-uuid': makeOverride('gone'),
+        'grow::grow-uuid': makeOverride('grow'),
+      },
+      waves: [{ waveName: 'Wave 1', vmNames: ['keep', 'gone', 'grow'] }],
+      baselineRisks: [makeRisk('auto-scale', '3 VMs'), makeRisk('auto-complexity', '1 blocker')],
+      currentRisks: [makeRisk('auto-scale', '4 VMs'), makeRisk('auto-health-dead-path', '1 vHealth message')],
+      riskOverrideIds: ['auto-scale'],
+    });
+
+    expect(delta.staleOverrides).toEqual([
+      { vmId: 'gone::gone-uuid', vmName: 'gone', reason: 'removed' },
+      { vmId: 'grow::grow-uuid', vmName: 'grow', reason: 'resized' },
+    ]);
+    expect(delta.staleWaveAssignments).toEqual([
+      { vmName: 'gone', waveName: 'Wave 1', reason: 'removed' },
+      { vmName: 'grow', waveName: 'Wave 1', reason: 'resized' },
+      { vmName: 'new', waveName: null, reason: 'unassigned' },
+    ]);
+    expect(delta.staleRisks.map(r => [r.riskId, r.reason, r.hasOverride])).toEqual([
+      ['auto-scale', 'evidence-changed', true],
+      ['auto-complexity', 'resolved', false],
+      ['auto-health-dead-path', 'new', false],
+    ]);
+  });
+});
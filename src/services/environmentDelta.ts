@@ -0,0 +1,467 @@
+// Environment delta — compares two RVTools snapshots of the same vCenter
+// and reports what changed between them, plus which saved planning decisions
+// (VM overrides, wave assignments, risk rows) were made against data that has
+// since moved on.
+
+import type { RVToolsData, VirtualMachine, VSnapshotInfo } from '@/types/rvtools';
+import type { RiskRow } from '@/types/riskAssessment';
+import type { VMOverride } from '@/hooks/useVMOverrides';
+import { getEnvironmentFingerprint, fingerprintsMatch, getVMIdentifier } from '@/utils/vmIdentifier';
+import { mibToGiB } from '@/utils/formatters';
+
+// ===== TYPES =====
+
+export interface DeltaVM {
+  vmId: string;
+  vmName: string;
+  cluster: string;
+  cpus: number;
+  memoryMiB: number;
+  provisionedMiB: number;
+  inUseMiB: number;
+  guestOS: string;
+}
+
+export interface VMResize {
+  vmId: string;
+  vmName: string;
+  cpusBefore: number;
+  cpusAfter: number;
+  memoryMiBBefore: number;
+  memoryMiBAfter: number;
+}
+
+export interface VMOSChange {
+  vmId: string;
+  vmName: string;
+  guestOSBefore: string;
+  guestOSAfter: string;
+}
+
+export interface VMStorageChange {
+  vmId: string;
+  vmName: string;
+  provisionedMiBBefore: number;
+  provisionedMiBAfter: number;
+  inUseMiBBefore: number;
+  inUseMiBAfter: number;
+}
+
+export interface NewSnapshot {
+  vmName: string;
+  snapshotName: string;
+  dateTime: Date | null;
+  sizeTotalMiB: number;
+}
+
+export interface StorageGrowthSummary {
+  provisionedMiBBefore: number;
+  provisionedMiBAfter: number;
+  inUseMiBBefore: number;
+  inUseMiBAfter: number;
+}
+
+export interface WaveAssignment {
+  waveName: string;
+  vmNames: string[];
+}
+
+export type StaleOverrideReason = 'removed' | 'resized' | 'os-changed';
+export type StaleWaveReason = 'removed' | 'resized' | 'os-changed' | 'unassigned';
+export type StaleRiskReason = 'resolved' | 'evidence-changed' | 'new';
+
+export interface StaleOverride {
+  vmId: string;
+  vmName: string;
+  reason: StaleOverrideReason;
+}
+
+export interface StaleWaveAssignment {
+  vmName: string;
+  /** Wave the VM was planned into; null for VMs that are new in the current snapshot */
+  waveName: string | null;
+  reason: StaleWaveReason;
+}
+
+export interface StaleRisk {
+  riskId: string;
+  description: string;
+  reason: StaleRiskReason;
+  evidenceBefore: string | null;
+  evidenceAfter: string | null;
+  /** The risk row carries user edits that were made against the baseline evidence */
+  hasOverride: boolean;
+}
+
+/** Saved planning decisions to check against the new snapshot */
+export interface PlanningState {
+  vmOverrides?: Record<string, VMOverride>;
+  waves?: WaveAssignment[];
+  baselineRisks?: RiskRow[];
+  currentRisks?: RiskRow[];
+  /** Risk row ids with user edits (status, mitigation or deletion) */
+  riskOverrideIds?: string[];
+}
+
+export interface EnvironmentDelta {
+  baselineFileName: string;
+  currentFileName: string;
+  baselineDate: Date | null;
+  currentDate: Date | null;
+  addedVMs: DeltaVM[];
+  removedVMs: DeltaVM[];
+  resizedVMs: VMResize[];
+  osChanges: VMOSChange[];
+  storageChanges: VMStorageChange[];
+  newSnapshots: NewSnapshot[];
+  storage: StorageGrowthSummary;
+  staleOverrides: StaleOverride[];
+  staleWaveAssignments: StaleWaveAssignment[];
+  staleRisks: StaleRisk[];
+}
+
+/** Flattened row used by the delta page and the Excel export */
+export interface DeltaChangeRow {
+  change: 'Added' | 'Removed' | 'Resized' | 'Guest OS' | 'Storage' | 'New Snapshot';
+  vmName: string;
+  before: string;
+  after: string;
+}
+
+export interface StalePlanningRow {
+  item: 'VM Override' | 'Wave Assignment' | 'Risk';
+  name: string;
+  reason: string;
+  detail: string;
+  /** Risk rows only: the user edited this row against the baseline evidence */
+  edited: boolean;
+}
+
+export const STALE_REASON_LABELS: Record<StaleOverrideReason | StaleWaveReason | StaleRiskReason, string> = {
+  'removed': 'VM removed',
+  'resized': 'VM resized',
+  'os-changed': 'Guest OS changed',
+  'unassigned': 'New VM not in any wave',
+  'resolved': 'No longer detected',
+  'evidence-changed': 'Evidence changed',
+  'new': 'Newly detected',
+};
+
+// ===== HELPERS =====
+
+function toDeltaVM(vm: VirtualMachine): DeltaVM {
+  return {
+    vmId: getVMIdentifier(vm),
+    vmName: vm.vmName,
+    cluster: vm.cluster,
+    cpus: vm.cpus,
+    memoryMiB: vm.memory,
+    provisionedMiB: vm.provisionedMiB,
+    inUseMiB: vm.inUseMiB,
+    guestOS: vm.guestOS,
+  };
+}
+
+function indexVMs(data: RVToolsData): Map<string, DeltaVM> {
+  const vms = new Map<string, DeltaVM>();
+  for (const vm of data.vInfo) {
+    if (vm.template) continue;
+    const deltaVM = toDeltaVM(vm);
+    vms.set(deltaVM.vmId, deltaVM);
+  }
+  return vms;
+}
+
+function snapshotKey(snapshot: VSnapshotInfo): string {
+  const time = snapshot.dateTime instanceof Date ? snapshot.dateTime.getTime() : '';
+  return `${snapshot.vmName}::${snapshot.snapshotName}::${time}`;
+}
+
+function sumStorage(vms: Iterable<DeltaVM>): { provisionedMiB: number; inUseMiB: number } {
+  let provisionedMiB = 0;
+  let inUseMiB = 0;
+  for (const vm of vms) {
+    provisionedMiB += vm.provisionedMiB;
+    inUseMiB += vm.inUseMiB;
+  }
+  return { provisionedMiB, inUseMiB };
+}
+
+function findStaleRisks(
+  baselineRisks: RiskRow[],
+  currentRisks: RiskRow[],
+  riskOverrideIds: string[],
+): StaleRisk[] {
+  const overridden = new Set(riskOverrideIds);
+  const baselineById = new Map(baselineRisks.filter(r => r.source === 'auto').map(r => [r.id, r]));
+  const currentById = new Map(currentRisks.filter(r => r.source === 'auto').map(r => [r.id, r]));
+  const stale: StaleRisk[] = [];
+
+  for (const [id, before] of baselineById) {
+    const after = currentById.get(id);
+    if (!after) {
+      stale.push({
+        riskId: id,
+        description: before.description,
+        reason: 'resolved',
+        evidenceBefore: before.evidenceDetail,
+        evidenceAfter: null,
+        hasOverride: overridden.has(id),
+      });
+    } else if (after.evidenceDetail !== before.evidenceDetail || after.status !== before.status) {
+      stale.push({
+        riskId: id,
+        description: after.description,
+        reason: 'evidence-changed',
+        evidenceBefore: before.evidenceDetail,
+        evidenceAfter: after.evidenceDetail,
+        hasOverride: overridden.has(id),
+      });
+    }
+  }
+
+  for (const [id, after] of currentById) {
+    if (baselineById.has(id)) continue;
+    stale.push({
+      riskId: id,
+      description: after.description,
+      reason: 'new',
+      evidenceBefore: null,
+      evidenceAfter: after.evidenceDetail,
+      hasOverride: false,
+    });
+  }
+
+  return stale;
+}
+
+// ===== COMPARISON =====
+
+/**
+ * Compare two RVTools snapshots of the same environment.
+ * VMs are matched by getVMIdentifier, so a renamed VM shows up as one removal and one addition.
+ *
+ * @throws Error when the snapshots come from different environments
+ */
+export function compareEnvironments(
+  baseline: RVToolsData,
+  current: RVToolsData,
+  planning: PlanningState = {},
+): EnvironmentDelta {
+  const baselineFingerprint = getEnvironmentFingerprint(baseline);
+  const currentFingerprint = getEnvironmentFingerprint(current);
+  if (!fingerprintsMatch(baselineFingerprint, currentFingerprint)) {
+    throw new Error('The two RVTools exports come from different environments and cannot be compared');
+  }
+
+  const before = indexVMs(baseline);
+  const after = indexVMs(current);
+
+  const addedVMs: DeltaVM[] = [];
+  const removedVMs: DeltaVM[] = [];
+  const resizedVMs: VMResize[] = [];
+  const osChanges: VMOSChange[] = [];
+  const storageChanges: VMStorageChange[] = [];
+
+  for (const [vmId, vm] of before) {
+    const next = after.get(vmId);
+    if (!next) {
+      removedVMs.push(vm);
+      continue;
+    }
+    if (next.cpus !== vm.cpus || next.memoryMiB !== vm.memoryMiB) {
+      resizedVMs.push({
+        vmId,
+        vmName: next.vmName,
+        cpusBefore: vm.cpus,
+        cpusAfter: next.cpus,
+        memoryMiBBefore: vm.memoryMiB,
+        memoryMiBAfter: next.memoryMiB,
+      });
+    }
+    if (next.guestOS !== vm.guestOS) {
+      osChanges.push({ vmId, vmName: next.vmName, guestOSBefore: vm.guestOS, guestOSAfter: next.guestOS });
+    }
+    if (next.provisionedMiB !== vm.provisionedMiB || next.inUseMiB !== vm.inUseMiB) {
+      storageChanges.push({
+        vmId,
+        vmName: next.vmName,
+        provisionedMiBBefore: vm.provisionedMiB,
+        provisionedMiBAfter: next.provisionedMiB,
+        inUseMiBBefore: vm.inUseMiB,
+        inUseMiBAfter: next.inUseMiB,
+      });
+    }
+  }
+  for (const [vmId, vm] of after) {
+    if (!before.has(vmId)) addedVMs.push(vm);
+  }
+
+  const baselineSnapshots = new Set(baseline.vSnapshot.map(snapshotKey));
+  const newSnapshots: NewSnapshot[] = current.vSnapshot
+    .filter(s => !baselineSnapshots.has(snapshotKey(s)))
+    .map(s => ({
+      vmName: s.vmName,
+      snapshotName: s.snapshotName,
+      dateTime: s.dateTime instanceof Date ? s.dateTime : null,
+      sizeTotalMiB: s.sizeTotalMiB,
+    }));
+
+  const storageBefore = sumStorage(before.values());
+  const storageAfter = sumStorage(after.values());
+
+  // ----- Stale planning state -----
+  const removedIds = new Set(removedVMs.map(vm => vm.vmId));
+  const resizedIds = new Set(resizedVMs.map(vm => vm.vmId));
+  const osChangedIds = new Set(osChanges.map(vm => vm.vmId));
+
+  const staleOverrides: StaleOverride[] = [];
+  for (const override of Object.values(planning.vmOverrides ?? {})) {
+    const reason: StaleOverrideReason | null = removedIds.has(override.vmId)
+      ? 'removed'
+      : resizedIds.has(override.vmId)
+        ? 'resized'
+        : osChangedIds.has(override.vmId)
+          ? 'os-changed'
+          : null;
+    if (reason) staleOverrides.push({ vmId: override.vmId, vmName: override.vmName, reason });
+  }
+
+  const staleWaveAssignments: StaleWaveAssignment[] = [];
+  if (planning.waves) {
+    const removedNames = new Set(removedVMs.map(vm => vm.vmName));
+    const resizedNames = new Set(resizedVMs.map(vm => vm.vmName));
+    const osChangedNames = new Set(osChanges.map(vm => vm.vmName));
+    const assignedNames = new Set<string>();
+
+    for (const wave of planning.waves) {
+      for (const vmName of wave.vmNames) {
+        assignedNames.add(vmName);
+        const reason: StaleWaveReason | null = removedNames.has(vmName)
+          ? 'removed'
+          : resizedNames.has(vmName)
+            ? 'resized'
+            : osChangedNames.has(vmName)
+              ? 'os-changed'
+              : null;
+        if (reason) staleWaveAssignments.push({ vmName, waveName: wave.waveName, reason });
+      }
+    }
+    for (const vm of addedVMs) {
+      if (!assignedNames.has(vm.vmName)) {
+        staleWaveAssignments.push({ vmName: vm.vmName, waveName: null, reason: 'unassigned' });
+      }
+    }
+  }
+
+  const staleRisks = planning.baselineRisks && planning.currentRisks
+    ? findStaleRisks(planning.baselineRisks, planning.currentRisks, planning.riskOverrideIds ?? [])
+    : [];
+
+  return {
+    baselineFileName: baseline.metadata.fileName,
+    currentFileName: current.metadata.fileName,
+    baselineDate: baseline.metadata.collectionDate,
+    currentDate: current.metadata.collectionDate,
+    addedVMs,
+    removedVMs,
+    resizedVMs,
+    osChanges,
+    storageChanges,
+    newSnapshots,
+    storage: {
+      provisionedMiBBefore: storageBefore.provisionedMiB,
+      provisionedMiBAfter: storageAfter.provisionedMiB,
+      inUseMiBBefore: storageBefore.inUseMiB,
+      inUseMiBAfter: storageAfter.inUseMiB,
+    },
+    staleOverrides,
+    staleWaveAssignments,
+    staleRisks,
+  };
+}
+
+/**
+ * Whether the delta contains any change to the environment itself.
+ */
+export function hasEnvironmentChanges(delta: EnvironmentDelta): boolean {
+  return delta.addedVMs.length > 0
+    || delta.removedVMs.length > 0
+    || delta.resizedVMs.length > 0
+    || delta.osChanges.length > 0
+    || delta.storageChanges.length > 0
+    || delta.newSnapshots.length > 0;
+}
+
+// ===== REPORT ROWS =====
+
+function gib(mib: number): number {
+  return Math.round(mibToGiB(mib));
+}
+
+function describeVM(vm: DeltaVM): string {
+  return `${vm.cpus} vCPU, ${gib(vm.memoryMiB)} GiB RAM, ${gib(vm.provisionedMiB)} GiB provisioned`;
+}
+
+/**
+ * One row per VM-level change, in the order added, removed, resized, OS, storage, snapshots.
+ */
+export function getDeltaChangeRows(delta: EnvironmentDelta): DeltaChangeRow[] {
+  return [
+    ...delta.addedVMs.map((vm): DeltaChangeRow => ({ change: 'Added', vmName: vm.vmName, before: '', after: describeVM(vm) })),
+    ...delta.removedVMs.map((vm): DeltaChangeRow => ({ change: 'Removed', vmName: vm.vmName, before: describeVM(vm), after: '' })),
+    ...delta.resizedVMs.map((vm): DeltaChangeRow => ({
+      change: 'Resized',
+      vmName: vm.vmName,
+      before: `${vm.cpusBefore} vCPU, ${gib(vm.memoryMiBBefore)} GiB RAM`,
+      after: `${vm.cpusAfter} vCPU, ${gib(vm.memoryMiBAfter)} GiB RAM`,
+    })),
+    ...delta.osChanges.map((vm): DeltaChangeRow => ({
+      change: 'Guest OS',
+      vmName: vm.vmName,
+      before: vm.guestOSBefore,
+      after: vm.guestOSAfter,
+    })),
+    ...delta.storageChanges.map((vm): DeltaChangeRow => ({
+      change: 'Storage',
+      vmName: vm.vmName,
+      before: `${gib(vm.inUseMiBBefore)} GiB in use of ${gib(vm.provisionedMiBBefore)} GiB`,
+      after: `${gib(vm.inUseMiBAfter)} GiB in use of ${gib(vm.provisionedMiBAfter)} GiB`,
+    })),
+    ...delta.newSnapshots.map((s): DeltaChangeRow => ({
+      change: 'New Snapshot',
+      vmName: s.vmName,
+      before: '',
+      after: `${s.snapshotName} (${s.dateTime ? s.dateTime.toLocaleDateString() : 'unknown date'}, ${gib(s.sizeTotalMiB)} GiB)`,
+    })),
+  ];
+}
+
+/**
+ * One row per stale VM override, wave assignment and risk row.
+ */
+export function getStalePlanningRows(delta: EnvironmentDelta): StalePlanningRow[] {
+  return [
+    ...delta.staleOverrides.map((o): StalePlanningRow => ({
+      item: 'VM Override',
+      name: o.vmName,
+      reason: STALE_REASON_LABELS[o.reason],
+      detail: '',
+      edited: false,
+    })),
+    ...delta.staleWaveAssignments.map((w): StalePlanningRow => ({
+      item: 'Wave Assignment',
+      name: w.vmName,
+      reason: STALE_REASON_LABELS[w.reason],
+      detail: w.waveName ?? '',
+      edited: false,
+    })),
+    ...delta.staleRisks.map((r): StalePlanningRow => ({
+      item: 'Risk',
+      name: r.riskId,
+      reason: STALE_REASON_LABELS[r.reason],
+      detail: [r.evidenceBefore, r.evidenceAfter].filter(Boolean).join(' → '),
+      edited: r.hasOverride,
+    })),
+  ];
+}
@@ -29,7 +29,9 @@ import {
   generateBOMJSON,
   generateBOMCSV,
 } from '../bomGenerator';
-import { generateVSIBOMExcel, generateROKSBOMExcel } from '../bomXlsxGenerator';
+import { generateVSIBOMExcel, generateROKSBOMExcel, generateSplitBOMExcel } from '../bomXlsxGenerator';
+import { calculatePowerVSCost } from '@/services/costEstimation';
+import { createPowerVSMappings, calculatePowerVSTotals } from '@/services/migration/powervsProfileMapping';
 import type { CostEstimate } from '@/services/costEstimation';
 import type { VMDetail, ROKSNodeDetail } from '../bomXlsxGenerator';
 import type { RVToolsData } from '@/types/rvtools';
@@ -166,9 +168,54 @@ describe('ROKS BOM Excel integration', () => {
     expect(firstSheet.rowCount).toBeGreaterThanOrEqual(4);
   });
 
+  it('adds an OVE BOM sheet and summary row when an OVE estimate is given', async () => {
+    const oveEstimate = { ...mockEstimate, totalMonthly: 1234 };
+    const workbook = await generateROKSBOMExcel(mockEstimate, mockNodeDetails, 'ROKS Cluster', 'us-south', 'onDemand', null, oveEstimate);
+
+    expect(workbook.worksheets.map(ws => ws.name)).toContain('OVE BOM');
+    const summary = workbook.getWorksheet('Summary')!;
+    expect(summary.getRow(16).getCell(1).value).toBe('OVE Monthly Cost');
+    expect(String((summary.getRow(16).getCell(2).value as { formula: string }).formula)).toMatch(/^'OVE BOM'!F\d+$/);
+  });
+
   it('can be written to a buffer', async () => {
     const workbook = await generateROKSBOMExcel(mockEstimate, mockNodeDetails);
     const buffer = await workbook.xlsx.writeBuffer();
     expect(buffer.byteLength).toBeGreaterThan(0);
   });
 });
+
+describe('Split BOM Excel integration', () => {
+  it('adds PowerVS as a third cost column next to ROKS and VSI', async () => {
+    const vms = data.vInfo.filter(vm => !vm.template && vm.powerState === 'poweredOn').slice(0, 3);
+    const powervsMappings = createPowerVSMappings(vms.map(vm => ({
+      vmName: vm.vmName,
+      cpus: vm.cpus,
+      memory: vm.memory,
+      guestOS: vm.guestOS,
+      storageGiB: mibToGiB(vm.provisionedMiB),
+    })));
+    const totals = calculatePowerVSTotals(powervsMappings);
+    const powervsEstimate = calculatePowerVSCost({
+      instances: powervsMappings,
+      tier1StorageGiB: totals.tier1StorageGiB,
+      tier3StorageGiB: totals.tier3StorageGiB,
+    });
+
+    const workbook = await generateSplitBOMExcel({
+      roks: { vmCount: 10, monthlyCost: 5000 },
+      vsi: { vmCount: 4, monthlyCost: null },
+      powervsMappings,
+      powervsEstimate,
+    });
+
+    expect(workbook.worksheets.map(ws => ws.name)).toEqual(['Split Summary', 'PowerVS BOM', 'PowerVS LPARs']);
+    const summary = workbook.getWorksheet('Split Summary')!;
+    expect(summary.getRow(3).getCell(4).value).toBe('PowerVS');
+    expect(summary.getRow(4).getCell(4).value).toBe(vms.length);
+    expect(summary.getRow(5).getCell(4).value).toMatchObject({ formula: expect.stringContaining("'PowerVS BOM'!F") });
+    expect(String(summary.getRow(12).getCell(1).value)).toContain('VSI cost not configured');
+    expect(workbook.getWorksheet('PowerVS BOM')!.rowCount).toBe(powervsEstimate.lineItems.length + 4);
+    expect(workbook.getWorksheet('PowerVS LPARs')!.rowCount).toBe(vms.length + 1);
+  });
+});
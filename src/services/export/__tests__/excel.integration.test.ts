@@ -4,7 +4,8 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import * as XLSX from 'xlsx';
 import type { RVToolsData } from '@/types/rvtools';
-import { generateExcelReport } from '../excelGenerator';
+import { generateExcelReport, generateEnvironmentDeltaWorkbook } from '../excelGenerator';
+import { compareEnvironments } from '@/services/environmentDelta';
 import { getRVToolsData } from './fixtures';
 
 let data: RVToolsData;
@@ -68,3 +69,19 @@ describe('Excel integration — structural checks', () => {
     expect(names).toContain('Datastore List');
   });
 });
+
+describe('Excel integration — environment delta', () => {
+  it('lists VM changes between two snapshots', () => {
+    const [first, ...rest] = data.vInfo;
+    const current: RVToolsData = {
+      ...data,
+      vInfo: [{ ...first, cpus: first.cpus + 2 }, ...rest],
+    };
+
+    const workbook = generateEnvironmentDeltaWorkbook(compareEnvironments(data, current));
+    expect(workbook.SheetNames).toEqual(['Delta Summary', 'Environment Delta', 'Stale Planning']);
+
+    const rows = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets['Environment Delta']);
+    expect(rows).toContainEqual(expect.objectContaining({ 'Change': 'Resized', 'VM Name': first.vmName }));
+  });
+});
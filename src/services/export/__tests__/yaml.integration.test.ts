@@ -4,7 +4,7 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import type { RVToolsData } from '@/types/rvtools';
 import type { MTVExportOptions } from '@/types/mtvYaml';
-import { MTVYAMLGenerator } from '../yamlGenerator';
+import { MTVYAMLGenerator, collectBundleSources } from '../yamlGenerator';
 import { getRVToolsData } from './fixtures';
 
 let data: RVToolsData;
@@ -82,16 +82,30 @@ describe('YAML integration — StorageMap generation', () => {
 });
 
 describe('YAML integration — Bundle generation', () => {
-  it('generates a ZIP bundle with all resources', async () => {
-    const generator = new MTVYAMLGenerator(defaultOptions);
-    const waves = [
-      { name: 'Pilot Wave', vms: data.vInfo.slice(0, 1) },
-      { name: 'Wave 2', vms: data.vInfo.slice(1) },
-    ];
+  const getWaves = () => [
+    { name: 'Pilot Wave', vms: data.vInfo.slice(0, 1) },
+    { name: 'Wave 2', vms: data.vInfo.slice(1) },
+  ];
 
-    const blob = await generator.generateBundle(waves, data.vNetwork, data.vDatastore);
+  it('generates a ZIP bundle with all resources', async () => {
+    const waves = getWaves();
+    const sources = collectBundleSources(waves, data.vNetwork, data.vDisk);
+    const generator = new MTVYAMLGenerator({
+      ...defaultOptions,
+      networkMappings: Object.fromEntries(sources.networks.map(n => [n.name, { type: 'pod' as const }])),
+      storageMappings: Object.fromEntries(sources.datastores.map(ds => [ds.name, 'ocs-storagecluster-ceph-rbd'])),
+    });
+
+    const blob = await generator.generateBundle(waves, data.vNetwork, data.vDatastore, data.vDisk);
     expect(blob).toBeInstanceOf(Blob);
     expect(blob.size).toBeGreaterThan(0);
     expect(blob.type).toBe('application/zip');
   });
+
+  it('rejects a bundle that relies on the default mappings', async () => {
+    const generator = new MTVYAMLGenerator(defaultOptions);
+
+    await expect(generator.generateBundle(getWaves(), data.vNetwork, data.vDatastore, data.vDisk))
+      .rejects.toThrow('is not mapped');
+  });
 });
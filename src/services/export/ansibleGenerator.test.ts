@@ -0,0 +1,105 @@
+// Unit tests for Ansible remediation generator
+import { describe, it, expect } from 'vitest';
+import { generateAnsibleFiles, generateAnsibleInventory, getAutomatedRemediations } from './ansibleGenerator';
+import type { RemediationItem } from '@/components/common';
+import type { VirtualMachine, VCDInfo } from '@/types/rvtools';
+
+function createMockItem(overrides: Partial<RemediationItem> = {}): RemediationItem {
+  return {
+    id: 'old-snapshots',
+    name: 'Old Snapshots',
+    severity: 'blocker',
+    description: 'Snapshots older than the threshold',
+    remediation: 'Consolidate or delete snapshots',
+    affectedCount: 1,
+    affectedVMs: ['Web 01'],
+    ...overrides,
+  };
+}
+
+const vms = [
+  { vmName: 'Web 01', datacenter: 'DC1', folder: 'Production', guestIP: '10.0.0.10' },
+  { vmName: 'db-01', datacenter: 'DC1', folder: null, guestIP: null, guestHostname: 'db-01.example.com' },
+] as VirtualMachine[];
+
+const items: RemediationItem[] = [
+  createMockItem(),
+  createMockItem({ id: 'cd-disconnected', name: 'CD-ROM Connected', severity: 'warning', affectedVMs: ['db-01'] }),
+  createMockItem({ id: 'cpu-hot-plug', name: 'CPU Hot Plug', severity: 'warning', affectedVMs: ['Web 01', 'db-01'], affectedCount: 2 }),
+  createMockItem({ id: 'no-rdm', name: 'RDM Disks', remediation: 'Convert RDM disks to VMDK', affectedVMs: ['db-01'] }),
+];
+
+describe('getAutomatedRemediations', () => {
+  it('maps automatable checks to playbooks and skips manual ones', () => {
+    const remediations = getAutomatedRemediations([
+      ...items,
+      createMockItem({ id: 'snapshots', affectedVMs: ['db-01'] }),
+    ]);
+
+    expect(remediations.map(r => [r.group, r.vmNames])).toEqual([
+      ['remediate_snapshots', ['Web 01', 'db-01']],
+      ['remediate_cdrom', ['db-01']],
+      ['remediate_cpu_hotplug', ['Web 01', 'db-01']],
+    ]);
+  });
+});
+
+describe('generateAnsibleInventory', () => {
+  it('defines host variables and groups hosts by wave and remediation type', () => {
+    const cdDrives = [
+      { vmName: 'db-01', deviceNode: 'IDE 1:0', connected: true },
+      { vmName: 'db-01', deviceNode: 'SATA 0:1', connected: false },
+    ] as VCDInfo[];
+
+    const inventory = generateAnsibleInventory(
+      items,
+      [{ name: 'Wave 1: Pilot', vmNames: ['Web 01'] }, { name: 'Wave 2', vmNames: ['db-01'] }],
+      vms,
+      cdDrives,
+      { vcenterHostname: 'vc01.example.com' },
+    );
+
+    expect(inventory).toContain('vcenter_hostname: "vc01.example.com"');
+    expect(inventory).toContain('"web-01":\n          vm_name: "Web 01"\n          vm_datacenter: "DC1"\n          vm_folder: "/DC1/vm/Production"\n          ansible_host: "10.0.0.10"');
+    expect(inventory).toContain('ansible_host: "db-01.example.com"');
+    expect(inventory).toContain('- { controller_type: ide, controller_number: 1, unit_number: 0 }');
+    expect(inventory).not.toContain('controller_type: sata');
+    expect(inventory).toContain('        wave_1_pilot:\n          hosts:\n            "web-01": {}');
+    expect(inventory).toContain('        wave_2:\n');
+    expect(inventory).toContain('        remediate_cpu_hotplug:\n          hosts:\n            "web-01": {}\n            "db-01": {}');
+  });
+});
+
+describe('generateAnsibleFiles', () => {
+  it('generates one playbook per automated fix with a dry-run tag', () => {
+    const files = generateAnsibleFiles(items, [], vms);
+
+    expect(files.map(f => f.name)).toEqual([
+      'inventory.yml',
+      'remove-snapshots.yml',
+      'disconnect-cdrom.yml',
+      'disable-cpu-hotplug.yml',
+      'README.md',
+    ]);
+
+    const playbook = files.find(f => f.name === 'remove-snapshots.yml')!.content;
+    expect(playbook).toContain('hosts: remediate_snapshots');
+    expect(playbook).toContain('community.vmware.vmware_guest_snapshot:');
+    expect(playbook).toContain('state: remove_all');
+    expect(playbook).toMatch(/tags: \[dry_run\][\s\S]*tags: \[remediate\]/);
+    expect(playbook).toContain('--tags dry_run');
+  });
+
+  it('runs VMware Tools installation in the guest and lists manual fixes in the README', () => {
+    const files = generateAnsibleFiles([...items, createMockItem({ id: 'tools-installed', affectedVMs: ['db-01'] })], [], vms);
+
+    const tools = files.find(f => f.name === 'install-vmware-tools.yml')!.content;
+    expect(tools).toContain('gather_facts: true');
+    expect(tools).toContain('ansible.builtin.package:');
+    expect(tools).not.toContain('delegate_to: localhost');
+
+    const readme = files.find(f => f.name === 'README.md')!.content;
+    expect(readme).toContain('**RDM Disks** (1 VMs) — Convert RDM disks to VMDK');
+    expect(readme).not.toContain('**Old Snapshots**');
+  });
+});
@@ -0,0 +1,426 @@
+// Ansible Remediation Generator for pre-migration fixes
+// Generates an inventory grouped by wave and remediation type, plus playbooks
+// using community.vmware modules for the pre-flight findings that can be automated
+
+import type { RemediationItem } from '@/components/common';
+import type { VirtualMachine, VCDInfo } from '@/types/rvtools';
+
+/**
+ * Configuration options for Ansible export
+ */
+export interface AnsibleConfig {
+  // vCenter connection, referenced by every vCenter playbook
+  vcenterHostname?: string;
+  validateCerts?: boolean;
+}
+
+/**
+ * Wave membership used for inventory groups
+ */
+export interface AnsibleWave {
+  name: string;
+  vmNames: string[];
+}
+
+export interface AnsibleFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * An automated fix for one or more remediation check IDs
+ */
+interface AutomatedRemediation {
+  group: string;
+  playbook: string;
+  title: string;
+  dryRunMessage: string;
+  tasks: string[];
+  // Runs against the guest OS over SSH instead of the vCenter API
+  guest?: boolean;
+}
+
+const DEFAULT_CONFIG: Required<AnsibleConfig> = {
+  vcenterHostname: 'vcenter.example.com',
+  validateCerts: true,
+};
+
+// vmware_guest identity shared by the vCenter tasks
+const VM_IDENTITY = [
+  '        datacenter: "{{ vm_datacenter }}"',
+  '        folder: "{{ vm_folder }}"',
+  '        name: "{{ vm_name }}"',
+];
+
+const AUTOMATED_REMEDIATIONS: AutomatedRemediation[] = [
+  {
+    group: 'remediate_snapshots',
+    playbook: 'remove-snapshots.yml',
+    title: 'Remove all snapshots',
+    dryRunMessage: 'Would remove all snapshots from {{ vm_name }}',
+    tasks: [
+      '    - name: Remove all snapshots',
+      '      community.vmware.vmware_guest_snapshot:',
+      ...VM_IDENTITY,
+      '        state: remove_all',
+    ],
+  },
+  {
+    group: 'remediate_cdrom',
+    playbook: 'disconnect-cdrom.yml',
+    title: 'Disconnect CD-ROM drives',
+    dryRunMessage: 'Would disconnect {{ cdrom_devices | length }} CD-ROM drive(s) from {{ vm_name }}',
+    tasks: [
+      '    - name: Disconnect CD-ROM drives',
+      '      community.vmware.vmware_guest:',
+      ...VM_IDENTITY,
+      '        cdrom: "{{ cdrom_devices | map(\'combine\', {\'type\': \'none\', \'state\': \'present\'}) | list }}"',
+    ],
+  },
+  {
+    group: 'remediate_cpu_hotplug',
+    playbook: 'disable-cpu-hotplug.yml',
+    title: 'Disable CPU hot plug (VM must be powered off)',
+    dryRunMessage: 'Would disable CPU hot add/remove on {{ vm_name }}',
+    tasks: [
+      '    - name: Disable CPU hot plug',
+      '      community.vmware.vmware_guest:',
+      ...VM_IDENTITY,
+      '        hardware:',
+      '          hotadd_cpu: false',
+      '          hotremove_cpu: false',
+    ],
+  },
+  {
+    group: 'remediate_memory_hotplug',
+    playbook: 'disable-memory-hotplug.yml',
+    title: 'Disable memory hot plug (VM must be powered off)',
+    dryRunMessage: 'Would disable memory hot add on {{ vm_name }}',
+    tasks: [
+      '    - name: Disable memory hot plug',
+      '      community.vmware.vmware_guest:',
+      ...VM_IDENTITY,
+      '        hardware:',
+      '          hotadd_memory: false',
+    ],
+  },
+  {
+    group: 'remediate_cbt',
+    playbook: 'enable-cbt.yml',
+    title: 'Enable Changed Block Tracking (takes effect after the next power cycle or snapshot)',
+    dryRunMessage: 'Would enable Changed Block Tracking on {{ vm_name }}',
+    tasks: [
+      '    - name: Enable Changed Block Tracking',
+      '      community.vmware.vmware_guest:',
+      ...VM_IDENTITY,
+      '        advanced_settings:',
+      '          - key: ctkEnabled',
+      '            value: "TRUE"',
+    ],
+  },
+  {
+    group: 'remediate_vmware_tools',
+    playbook: 'install-vmware-tools.yml',
+    title: 'Install open-vm-tools on Linux guests',
+    dryRunMessage: 'Would install and start open-vm-tools on {{ vm_name }}',
+    guest: true,
+    tasks: [
+      '    - name: Install open-vm-tools',
+      '      ansible.builtin.package:',
+      '        name: open-vm-tools',
+      '        state: present',
+      '      become: true',
+      '      when: ansible_facts[\'os_family\'] != \'Windows\'',
+      '      tags: [remediate]',
+      '',
+      '    - name: Start open-vm-tools',
+      '      ansible.builtin.service:',
+      '        name: vmtoolsd',
+      '        state: started',
+      '        enabled: true',
+      '      become: true',
+      '      when: ansible_facts[\'os_family\'] != \'Windows\'',
+      '      tags: [remediate]',
+    ],
+  },
+];
+
+// Remediation check IDs (ROKS and VSI variants) handled by each automated fix
+const REMEDIATION_BY_CHECK_ID: Record<string, string> = {
+  'old-snapshots': 'remediate_snapshots',
+  'snapshots': 'remediate_snapshots',
+  'cd-disconnected': 'remediate_cdrom',
+  'cpu-hot-plug': 'remediate_cpu_hotplug',
+  'memory-hot-plug': 'remediate_memory_hotplug',
+  'cbt-enabled': 'remediate_cbt',
+  'tools-installed': 'remediate_vmware_tools',
+  'vmware-tools': 'remediate_vmware_tools',
+};
+
+// ===== HELPERS =====
+
+/**
+ * Ansible group name: lowercase letters, digits and underscores
+ */
+function toGroupName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Parse an RVTools CD-ROM device node such as "IDE 0:0" or "SATA 1:2"
+ */
+function parseDeviceNode(deviceNode: string): { controllerType: string; controllerNumber: number; unitNumber: number } | null {
+  const match = deviceNode?.match(/^(IDE|SATA)\s*(\d+):(\d+)$/i);
+  if (!match) return null;
+  return { controllerType: match[1].toLowerCase(), controllerNumber: Number(match[2]), unitNumber: Number(match[3]) };
+}
+
+/**
+ * Get the automated fixes that apply to a set of remediation items, with affected VMs
+ */
+export function getAutomatedRemediations(items: RemediationItem[]): { group: string; playbook: string; title: string; vmNames: string[] }[] {
+  const vmsByGroup = new Map<string, Set<string>>();
+  for (const item of items) {
+    const group = REMEDIATION_BY_CHECK_ID[item.id];
+    if (!group || !item.affectedVMs?.length) continue;
+    const vms = vmsByGroup.get(group) ?? new Set<string>();
+    item.affectedVMs.forEach(vm => vms.add(vm));
+    vmsByGroup.set(group, vms);
+  }
+
+  return AUTOMATED_REMEDIATIONS
+    .filter(r => vmsByGroup.has(r.group))
+    .map(r => ({ group: r.group, playbook: r.playbook, title: r.title, vmNames: [...vmsByGroup.get(r.group)!] }));
+}
+
+// ===== FILE GENERATORS =====
+
+/**
+ * Generate a YAML inventory with host variables for every VM, grouped by wave and remediation type
+ */
+export function generateAnsibleInventory(
+  items: RemediationItem[],
+  waves: AnsibleWave[],
+  vms: VirtualMachine[],
+  cdDrives: VCDInfo[] = [],
+  config: AnsibleConfig = {}
+): string {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const remediations = getAutomatedRemediations(items);
+  const vmByName = new Map(vms.map(vm => [vm.vmName, vm]));
+
+  // Unique host aliases for every VM in a wave or remediation group
+  const aliases = new Map<string, string>();
+  const usedAliases = new Set<string>();
+  const addHost = (vmName: string) => {
+    if (aliases.has(vmName)) return;
+    const base = vmName.toLowerCase().replace(/[^a-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '') || 'vm';
+    let alias = base;
+    for (let n = 2; usedAliases.has(alias); n++) alias = `${base}-${n}`;
+    usedAliases.add(alias);
+    aliases.set(vmName, alias);
+  };
+  waves.forEach(w => w.vmNames.forEach(addHost));
+  remediations.forEach(r => r.vmNames.forEach(addHost));
+
+  const lines = [
+    '---',
+    'all:',
+    '  vars:',
+    `    vcenter_hostname: ${quote(cfg.vcenterHostname)}`,
+    '    vcenter_username: "REPLACE_WITH_VCENTER_USER"',
+    '    vcenter_password: "REPLACE_WITH_VCENTER_PASSWORD"',
+    `    vcenter_validate_certs: ${cfg.validateCerts}`,
+    '  children:',
+    '    migration_vms:',
+  ];
+
+  if (aliases.size === 0) {
+    lines.push('      hosts: {}');
+  } else {
+    lines.push('      hosts:');
+    aliases.forEach((alias, vmName) => {
+      const vm = vmByName.get(vmName);
+      const address = vm?.guestIP || vm?.guestHostname || vm?.dnsName;
+      const cdroms = cdDrives
+        .filter(cd => cd.vmName === vmName && cd.connected)
+        .map(cd => parseDeviceNode(cd.deviceNode))
+        .filter((cd): cd is NonNullable<typeof cd> => cd !== null);
+
+      lines.push(`        ${quote(alias)}:`, `          vm_name: ${quote(vmName)}`);
+      if (vm) {
+        const folder = vm.folder ? `/${vm.datacenter}/vm/${vm.folder.replace(/^\/+/, '')}` : `/${vm.datacenter}/vm`;
+        lines.push(`          vm_datacenter: ${quote(vm.datacenter)}`, `          vm_folder: ${quote(folder)}`);
+      }
+      if (address) lines.push(`          ansible_host: ${quote(address)}`);
+      if (cdroms.length > 0) {
+        lines.push('          cdrom_devices:');
+        cdroms.forEach(cd => lines.push(
+          `            - { controller_type: ${cd.controllerType}, controller_number: ${cd.controllerNumber}, unit_number: ${cd.unitNumber} }`
+        ));
+      }
+    });
+  }
+
+  const pushGroup = (name: string, vmNames: string[]) => {
+    lines.push(`        ${name}:`);
+    if (vmNames.length === 0) {
+      lines.push('          hosts: {}');
+      return;
+    }
+    lines.push('          hosts:');
+    vmNames.forEach(vmName => lines.push(`            ${quote(aliases.get(vmName)!)}: {}`));
+  };
+
+  if (waves.length > 0) {
+    lines.push('    waves:', '      children:');
+    const usedGroups = new Set<string>();
+    waves.forEach((wave, index) => {
+      // "Wave 2: Pilot" -> wave_2_pilot
+      const label = toGroupName(wave.name.replace(/^wave\s*\d+\s*:?/i, ''));
+      let group = label ? `wave_${index + 1}_${label}` : `wave_${index + 1}`;
+      while (usedGroups.has(group)) group = `${group}_${index + 1}`;
+      usedGroups.add(group);
+      pushGroup(group, wave.vmNames);
+    });
+  }
+
+  if (remediations.length > 0) {
+    lines.push('    remediation:', '      children:');
+    remediations.forEach(r => pushGroup(r.group, r.vmNames));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function generatePlaybook(remediation: AutomatedRemediation): string {
+  const header = [
+    '---',
+    `# ${remediation.title}`,
+    '#',
+    `# Dry run: ansible-playbook -i inventory.yml ${remediation.playbook} --tags dry_run`,
+    `# Apply:   ansible-playbook -i inventory.yml ${remediation.playbook}`,
+    '# Limit to one wave with --limit, e.g. --limit wave_1_pilot',
+    `- name: ${remediation.title}`,
+    `  hosts: ${remediation.group}`,
+  ];
+
+  if (remediation.guest) {
+    return [
+      ...header,
+      '  gather_facts: true',
+      '  tasks:',
+      '    - name: Show planned change',
+      '      ansible.builtin.debug:',
+      `        msg: "${remediation.dryRunMessage}"`,
+      '      tags: [dry_run]',
+      '',
+      '    - name: Report Windows guests for manual VMware Tools installation',
+      '      ansible.builtin.debug:',
+      '        msg: "{{ vm_name }} runs Windows - install VMware Tools from the vSphere Client"',
+      '      when: ansible_facts[\'os_family\'] == \'Windows\'',
+      '      tags: [dry_run]',
+      '',
+      ...remediation.tasks,
+      '',
+    ].join('\n');
+  }
+
+  return [
+    ...header,
+    '  gather_facts: false',
+    '  module_defaults:',
+    '    group/community.vmware.vmware:',
+    '      hostname: "{{ vcenter_hostname }}"',
+    '      username: "{{ vcenter_username }}"',
+    '      password: "{{ vcenter_password }}"',
+    '      validate_certs: "{{ vcenter_validate_certs }}"',
+    '  tasks:',
+    '    - name: Show planned change',
+    '      ansible.builtin.debug:',
+    `        msg: "${remediation.dryRunMessage}"`,
+    '      tags: [dry_run]',
+    '',
+    ...remediation.tasks,
+    '      delegate_to: localhost',
+    '      tags: [remediate]',
+    '',
+  ].join('\n');
+}
+
+function generateReadme(items: RemediationItem[], remediations: ReturnType<typeof getAutomatedRemediations>): string {
+  const manual = items.filter(i => !REMEDIATION_BY_CHECK_ID[i.id] && i.affectedCount > 0);
+  const lines = [
+    '# Pre-migration remediation — Ansible',
+    '',
+    `Generated ${new Date().toISOString().split('T')[0]} from the pre-flight report.`,
+    '',
+    '## Usage',
+    '',
+    '1. Install the collection: `ansible-galaxy collection install community.vmware`',
+    '2. Set the vCenter credentials in `inventory.yml` (or override them with Ansible Vault).',
+    '3. Review each playbook with `--tags dry_run`, then run it without tags to apply the fix.',
+    '',
+    '## Automated fixes',
+    '',
+  ];
+
+  if (remediations.length === 0) {
+    lines.push('No pre-flight findings can be fixed automatically.', '');
+  } else {
+    remediations.forEach(r => lines.push(`- \`${r.playbook}\` — ${r.title} (${r.vmNames.length} VMs, group \`${r.group}\`)`));
+    lines.push('');
+  }
+
+  if (manual.length > 0) {
+    lines.push('## Manual remediation', '');
+    manual.forEach(i => lines.push(`- **${i.name}** (${i.affectedCount} VMs) — ${i.remediation}`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate the inventory, playbooks and README for the remediation items
+ */
+export function generateAnsibleFiles(
+  items: RemediationItem[],
+  waves: AnsibleWave[],
+  vms: VirtualMachine[],
+  cdDrives: VCDInfo[] = [],
+  config: AnsibleConfig = {}
+): AnsibleFile[] {
+  const remediations = getAutomatedRemediations(items);
+  const groups = new Set(remediations.map(r => r.group));
+
+  return [
+    { name: 'inventory.yml', content: generateAnsibleInventory(items, waves, vms, cdDrives, config) },
+    ...AUTOMATED_REMEDIATIONS
+      .filter(r => groups.has(r.group))
+      .map(r => ({ name: r.playbook, content: generatePlaybook(r) })),
+    { name: 'README.md', content: generateReadme(items, remediations) },
+  ];
+}
+
+/**
+ * Generate the Ansible remediation files as a ZIP archive
+ */
+export async function generateAnsibleBundle(
+  items: RemediationItem[],
+  waves: AnsibleWave[],
+  vms: VirtualMachine[],
+  cdDrives: VCDInfo[] = [],
+  config: AnsibleConfig = {}
+): Promise<Blob> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  for (const file of generateAnsibleFiles(items, waves, vms, cdDrives, config)) {
+    zip.file(`ansible/${file.name}`, file.content);
+  }
+  return zip.generateAsync({ type: 'blob' });
+}
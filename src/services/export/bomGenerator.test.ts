@@ -153,6 +153,44 @@ describe('BOM Generator', () => {
     });
   });
 
+  describe('rate card estimates', () => {
+    const rateCardEstimate: CostEstimate = {
+      ...mockEstimate,
+      discountType: 'rateCard',
+      discountPct: 17.5,
+      lineItems: mockEstimate.lineItems.map(item => ({
+        ...item,
+        discountPct: item.category === 'Compute - VSI' ? 20 : 0,
+        contractedMonthlyCost: item.category === 'Compute - VSI' ? item.monthlyCost * 0.8 : item.monthlyCost,
+      })),
+      discountAmountMonthly: 160,
+      discountAmountAnnual: 1920,
+      totalMonthly: 758.12,
+      totalAnnual: 9097.44,
+      metadata: {
+        ...mockEstimate.metadata,
+        rateCard: { name: 'ACME EA', source: 'manual', lineDiscountMonthly: 150, creditMonthly: 10 },
+      },
+    };
+
+    it('should show list and contracted prices in the text BOM', () => {
+      const result = generateBOMText(rateCardEstimate);
+
+      expect(result).toContain('Rate card - ACME EA');
+      expect(result).toContain('Contracted: $600/mo (-20%)');
+      expect(result).toContain('Committed-use credit');
+      expect(result).toContain('List Price:');
+    });
+
+    it('should add contracted columns to the CSV', () => {
+      const lines = generateBOMCSV(rateCardEstimate).split('\n');
+
+      expect(lines[0]).toContain('Contracted Monthly Cost');
+      expect(lines[1].endsWith(',20,600.00')).toBe(true);
+      expect(lines.some(l => l.startsWith('"Rate card discounts"'))).toBe(true);
+    });
+  });
+
   describe('generateBOMCSV', () => {
     it('should generate valid CSV with headers', () => {
       const result = generateBOMCSV(mockEstimate);
@@ -1,6 +1,6 @@
 // Bill of Materials (BOM) Generator
 import type { CostEstimate } from '../costEstimation';
-import { formatCurrency, formatCurrencyPrecise } from '../costEstimation';
+import { formatCurrency, formatCurrencyPrecise, describeCurrency } from '../costEstimation';
 
 /**
  * Generate BOM as formatted text
@@ -10,6 +10,8 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
   const width = 110;
   const divider = '='.repeat(width);
   const thinDivider = '-'.repeat(width);
+  const currency = estimate.metadata.currency;
+  const rateCard = estimate.metadata.rateCard;
 
   lines.push(divider);
   lines.push(`IBM CLOUD - BILL OF MATERIALS`);
@@ -18,9 +20,10 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
   lines.push('');
   lines.push(`Architecture:    ${estimate.architecture}`);
   lines.push(`Region:          ${estimate.regionName} (${estimate.region})`);
-  lines.push(`Pricing:         ${estimate.discountType === 'onDemand' ? 'On-Demand' : estimate.discountType}`);
+  lines.push(`Pricing:         ${rateCard ? `Rate card - ${rateCard.name}` : estimate.discountType === 'onDemand' ? 'On-Demand' : estimate.discountType}`);
   lines.push(`Generated:       ${new Date(estimate.metadata.generatedAt).toLocaleString()}`);
   lines.push(`Pricing Version: ${estimate.metadata.pricingVersion}`);
+  lines.push(`Currency:        ${describeCurrency(estimate)}`);
   lines.push('');
   lines.push(thinDivider);
   lines.push('LINE ITEMS');
@@ -47,15 +50,18 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
       item.description.substring(0, 30).padEnd(30),
       item.quantity.toLocaleString().padStart(8),
       item.unit.substring(0, 12).padEnd(12),
-      formatCurrencyPrecise(item.unitCost).padStart(12),
-      formatCurrency(item.monthlyCost).padStart(14),
-      formatCurrency(item.annualCost).padStart(14),
+      formatCurrencyPrecise(item.unitCost, currency).padStart(12),
+      formatCurrency(item.monthlyCost, currency).padStart(14),
+      formatCurrency(item.annualCost, currency).padStart(14),
     ].join('');
     lines.push(line);
 
     if (item.notes) {
       lines.push(`${''.padEnd(21)}└─ ${item.notes}`);
     }
+    if (item.contractedMonthlyCost != null && item.discountPct) {
+      lines.push(`${''.padEnd(21)}└─ Contracted: ${formatCurrency(item.contractedMonthlyCost, currency)}/mo (-${item.discountPct}%)`);
+    }
   }
 
   lines.push(thinDivider);
@@ -63,17 +69,31 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
   // Subtotal
   const subtotalLine = [
     'SUBTOTAL'.padEnd(82),
-    formatCurrency(estimate.subtotalMonthly).padStart(14),
-    formatCurrency(estimate.subtotalAnnual).padStart(14),
+    formatCurrency(estimate.subtotalMonthly, currency).padStart(14),
+    formatCurrency(estimate.subtotalAnnual, currency).padStart(14),
   ].join('');
   lines.push(subtotalLine);
 
   // Discount
-  if (estimate.discountPct > 0) {
+  if (rateCard) {
+    lines.push([
+      'Rate card discounts'.padEnd(82),
+      `-${formatCurrency(rateCard.lineDiscountMonthly, currency)}`.padStart(14),
+      `-${formatCurrency(rateCard.lineDiscountMonthly * 12, currency)}`.padStart(14),
+    ].join(''));
+    if (rateCard.creditMonthly > 0) {
+      lines.push([
+        'Committed-use credit'.padEnd(82),
+        `-${formatCurrency(rateCard.creditMonthly, currency)}`.padStart(14),
+        `-${formatCurrency(rateCard.creditMonthly * 12, currency)}`.padStart(14),
+      ].join(''));
+    }
+    lines.push(thinDivider);
+  } else if (estimate.discountPct > 0) {
     const discountLine = [
       `Discount (${estimate.discountPct}% - ${estimate.discountType})`.padEnd(82),
-      `-${formatCurrency(estimate.discountAmountMonthly)}`.padStart(14),
-      `-${formatCurrency(estimate.discountAmountAnnual)}`.padStart(14),
+      `-${formatCurrency(estimate.discountAmountMonthly, currency)}`.padStart(14),
+      `-${formatCurrency(estimate.discountAmountAnnual, currency)}`.padStart(14),
     ].join('');
     lines.push(discountLine);
     lines.push(thinDivider);
@@ -82,8 +102,8 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
   // Total
   const totalLine = [
     'TOTAL'.padEnd(82),
-    formatCurrency(estimate.totalMonthly).padStart(14),
-    formatCurrency(estimate.totalAnnual).padStart(14),
+    formatCurrency(estimate.totalMonthly, currency).padStart(14),
+    formatCurrency(estimate.totalAnnual, currency).padStart(14),
   ].join('');
   lines.push(totalLine);
   lines.push(divider);
@@ -92,12 +112,15 @@ export function generateBOMText(estimate: CostEstimate, title: string = 'IBM Clo
   lines.push('');
   lines.push('SUMMARY');
   lines.push(thinDivider);
-  lines.push(`  Monthly Cost:      ${formatCurrency(estimate.totalMonthly).padStart(15)}`);
-  lines.push(`  Annual Cost:       ${formatCurrency(estimate.totalAnnual).padStart(15)}`);
+  if (rateCard) {
+    lines.push(`  List Price:        ${formatCurrency(estimate.subtotalMonthly, currency).padStart(15)}`);
+  }
+  lines.push(`  Monthly Cost:      ${formatCurrency(estimate.totalMonthly, currency).padStart(15)}`);
+  lines.push(`  Annual Cost:       ${formatCurrency(estimate.totalAnnual, currency).padStart(15)}`);
 
   if (estimate.discountPct > 0) {
     lines.push(`  Discount Applied:  ${estimate.discountPct.toFixed(1).padStart(14)}%`);
-    lines.push(`  Annual Savings:    ${formatCurrency(estimate.discountAmountAnnual).padStart(15)}`);
+    lines.push(`  Annual Savings:    ${formatCurrency(estimate.discountAmountAnnual, currency).padStart(15)}`);
   }
 
   lines.push('');
@@ -137,9 +160,14 @@ export function generateBOMJSON(estimate: CostEstimate, title: string = 'IBM Clo
 export function generateBOMCSV(estimate: CostEstimate): string {
   const headers = ['Category', 'Description', 'Quantity', 'Unit', 'Unit Cost', 'Monthly Cost', 'Annual Cost', 'Notes'];
   const rows: string[][] = [];
+  const rateCard = estimate.metadata.rateCard;
+  if (rateCard) {
+    headers.push('Discount %', 'Contracted Monthly Cost');
+  }
 
   // Add line items
   for (const item of estimate.lineItems) {
+    const contracted = rateCard ? [String(item.discountPct ?? 0), (item.contractedMonthlyCost ?? item.monthlyCost).toFixed(2)] : [];
     rows.push([
       `"${item.category}"`,
       `"${item.description}"`,
@@ -149,6 +177,7 @@ export function generateBOMCSV(estimate: CostEstimate): string {
       item.monthlyCost.toFixed(2),
       item.annualCost.toFixed(2),
       `"${item.notes || ''}"`,
+      ...contracted,
     ]);
   }
 
@@ -157,7 +186,12 @@ export function generateBOMCSV(estimate: CostEstimate): string {
   rows.push(['"SUBTOTAL"', '', '', '', '', estimate.subtotalMonthly.toFixed(2), estimate.subtotalAnnual.toFixed(2), '']);
 
   // Add discount
-  if (estimate.discountPct > 0) {
+  if (rateCard) {
+    rows.push(['"Rate card discounts"', '', '', '', '', (-rateCard.lineDiscountMonthly).toFixed(2), (-rateCard.lineDiscountMonthly * 12).toFixed(2), '']);
+    if (rateCard.creditMonthly > 0) {
+      rows.push(['"Committed-use credit"', '', '', '', '', (-rateCard.creditMonthly).toFixed(2), (-rateCard.creditMonthly * 12).toFixed(2), '']);
+    }
+  } else if (estimate.discountPct > 0) {
     rows.push([
       `"Discount (${estimate.discountPct}%)"`,
       '',
@@ -178,6 +212,10 @@ export function generateBOMCSV(estimate: CostEstimate): string {
   rows.push(['"Architecture"', `"${estimate.architecture}"`, '', '', '', '', '', '']);
   rows.push(['"Region"', `"${estimate.regionName}"`, '', '', '', '', '', '']);
   rows.push(['"Pricing Version"', `"${estimate.metadata.pricingVersion}"`, '', '', '', '', '', '']);
+  rows.push(['"Currency"', `"${describeCurrency(estimate)}"`, '', '', '', '', '', '']);
+  if (rateCard) {
+    rows.push(['"Rate Card"', `"${rateCard.name}"`, '', '', '', '', '', '']);
+  }
   rows.push(['"Generated"', `"${estimate.metadata.generatedAt}"`, '', '', '', '', '', '']);
 
   return [headers.join(','), ...rows.map((row) => row.join(','))].join('\n');
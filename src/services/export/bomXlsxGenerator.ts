@@ -1,13 +1,18 @@
 // VPC VSI and ROKS BOM Excel Generator with Formulas and Styling
 import ExcelJS from 'exceljs';
-import type { CostEstimate, RegionCode, DiscountType } from '../costEstimation';
+import { describeCurrency, type CostEstimate, type RegionCode, type DiscountType } from '../costEstimation';
 import type { MigrationInsights } from '@/services/ai/types';
 import type { IBMCloudPricing } from '../pricing/pricingCache';
+import type { PowerVSProfileMapping } from '../migration/powervsProfileMapping';
 import { getCurrentPricing } from '../pricing/pricingCache';
+import { getActiveCurrency, getExcelCurrencyFormat } from '../pricing/currency';
+import { getPinnedPricing, type PricingPinTarget } from '../pricing/pricingHistory';
 import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 
-// Helper to get active pricing data
-function getActivePricing(): IBMCloudPricing {
+// Helper to get active pricing data, honouring a snapshot the estimate is pinned to
+function getActivePricing(target?: PricingPinTarget): IBMCloudPricing {
+  const pinned = target ? getPinnedPricing(target) : null;
+  if (pinned) return pinned;
   try {
     return getCurrentPricing().data;
   } catch {
@@ -30,7 +35,23 @@ export interface VMDetail {
 export interface ROKSNodeDetail {
   nodeName: string;
   profile: string;
-  nodeType: 'worker' | 'storage';
+  nodeType: 'worker' | 'storage' | 'vsiWorker';
+  /** Worker pool the node belongs to (VSI workers) */
+  pool?: string;
+}
+
+// Monthly cost of the VMs assigned to one migration target
+export interface SplitTargetCost {
+  vmCount: number;
+  monthlyCost: number | null;
+}
+
+// Split migration input for xlsx export (ROKS / VSI / PowerVS columns)
+export interface SplitBOMInput {
+  roks: SplitTargetCost;
+  vsi: SplitTargetCost;
+  powervsMappings: PowerVSProfileMapping[];
+  powervsEstimate: CostEstimate | null;
 }
 
 // Format OS for display (e.g., "Red Hat Enterprise Linux")
@@ -106,13 +127,6 @@ const STYLES = {
     font: { bold: true },
     fill: { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFE8E8E8' } },
   },
-  currency: {
-    numFmt: '"$"#,##0.00',
-  },
-  currencyBold: {
-    numFmt: '"$"#,##0.00',
-    font: { bold: true },
-  },
   totalRow: {
     font: { bold: true },
     fill: { type: 'pattern' as const, pattern: 'solid' as const, fgColor: { argb: 'FFD4EDDA' } },
@@ -122,7 +136,7 @@ const STYLES = {
 // Generate VPC VSI BOM as xlsx workbook with formulas and styling
 export async function generateVSIBOMExcel(
   vmDetails: VMDetail[],
-  _estimate: CostEstimate,
+  estimate: CostEstimate,
   vpcName: string = 'Default VPC',
   region: RegionCode = 'us-south',
   discountType: DiscountType = 'onDemand',
@@ -132,10 +146,14 @@ export async function generateVSIBOMExcel(
   workbook.creator = 'VCF Migration Tool';
   workbook.created = new Date();
 
-  const pricing = getActivePricing();
+  const pricing = getActivePricing('vsi');
   const regionData = pricing.regions[region];
   const multiplier = regionData?.multiplier || 1.0;
-  const storageCostPerGB = (pricing.blockStorage.generalPurpose.costPerGBMonth || 0.08) * multiplier;
+  const currency = getActiveCurrency(pricing.baseCurrency);
+  const currencyFmt = getExcelCurrencyFormat(currency.code);
+  // List prices are in the pricing base currency; convert into the quote currency
+  const priceMultiplier = multiplier * currency.rate;
+  const storageCostPerGB = (pricing.blockStorage.generalPurpose.costPerGBMonth || 0.08) * priceMultiplier;
 
   // === BOM Sheet ===
   const bomSheet = workbook.addWorksheet('VPC VSI BOM');
@@ -163,7 +181,7 @@ export async function generateVSIBOMExcel(
 
   bomSheet.getRow(currentRow).getCell(1).value = 'Storage Cost per GB (3 IOPS)';
   bomSheet.getRow(currentRow).getCell(2).value = storageCostPerGB;
-  bomSheet.getRow(currentRow).getCell(2).numFmt = '"$"#,##0.0000';
+  bomSheet.getRow(currentRow).getCell(2).numFmt = getExcelCurrencyFormat(currency.code, 4);
   const storageCostCell = `B${currentRow}`;
   currentRow++;
 
@@ -225,15 +243,15 @@ export async function generateVSIBOMExcel(
   const trafficItemRow = bomSheet.getRow(currentRow);
   trafficItemRow.getCell(1).value = '0 GB of Traffic';
   trafficItemRow.getCell(2).value = 0;
-  trafficItemRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  trafficItemRow.getCell(2).numFmt = currencyFmt;
   trafficItemRow.getCell(3).value = 1;
   trafficItemRow.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-  trafficItemRow.getCell(4).numFmt = STYLES.currency.numFmt;
+  trafficItemRow.getCell(4).numFmt = currencyFmt;
   currentRow++;
 
   // Set traffic total formula
   bomSheet.getRow(trafficTotalRow).getCell(5).value = { formula: `D${currentRow - 1}` };
-  bomSheet.getRow(trafficTotalRow).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(trafficTotalRow).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(trafficTotalRow).getCell(5).font = { bold: true };
 
   // === Compute Section ===
@@ -254,7 +272,7 @@ export async function generateVSIBOMExcel(
 
     // Get VSI pricing
     const vsiProfile = pricing.vsi[vm.profile as keyof typeof pricing.vsi];
-    const vsiMonthlyCost = vsiProfile ? vsiProfile.monthlyRate * multiplier : 0;
+    const vsiMonthlyCost = vsiProfile ? vsiProfile.monthlyRate * priceMultiplier : 0;
 
     // Boot volume size
     const bootVolumeSize = vm.bootVolumeGiB || (vm.guestOS.toLowerCase().includes('windows') ? 120 : 100);
@@ -271,7 +289,7 @@ export async function generateVSIBOMExcel(
     vsHeaderRow.getCell(1).font = STYLES.vmHeader.font;
     vsHeaderRow.getCell(1).fill = STYLES.vmHeader.fill;
     vsHeaderRow.getCell(5).value = { formula: `SUM(D${itemStartRow}:D${itemEndRow})` };
-    vsHeaderRow.getCell(5).numFmt = STYLES.currency.numFmt;
+    vsHeaderRow.getCell(5).numFmt = currencyFmt;
     vsHeaderRow.getCell(5).font = { bold: true };
     vsHeaderRow.getCell(5).fill = STYLES.vmHeader.fill;
     vmTotalRows.push(vmHeaderRowNum);
@@ -281,20 +299,20 @@ export async function generateVSIBOMExcel(
     const profileRow = bomSheet.getRow(currentRow);
     profileRow.getCell(1).value = `${displayProfile} - ${displayOS}`;
     profileRow.getCell(2).value = vsiMonthlyCost;
-    profileRow.getCell(2).numFmt = STYLES.currency.numFmt;
+    profileRow.getCell(2).numFmt = currencyFmt;
     profileRow.getCell(3).value = 1;
     profileRow.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-    profileRow.getCell(4).numFmt = STYLES.currency.numFmt;
+    profileRow.getCell(4).numFmt = currencyFmt;
     currentRow++;
 
     // Boot volume row with formula for unit price
     const bootRow = bomSheet.getRow(currentRow);
     bootRow.getCell(1).value = `Boot volume - ${bootVolumeSize} GB (3 IOPS)`;
     bootRow.getCell(2).value = { formula: `${bootVolumeSize}*${storageCostCell}` };
-    bootRow.getCell(2).numFmt = STYLES.currency.numFmt;
+    bootRow.getCell(2).numFmt = currencyFmt;
     bootRow.getCell(3).value = 1;
     bootRow.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-    bootRow.getCell(4).numFmt = STYLES.currency.numFmt;
+    bootRow.getCell(4).numFmt = currencyFmt;
     currentRow++;
 
     // Data volume rows
@@ -302,10 +320,10 @@ export async function generateVSIBOMExcel(
       const dataRow = bomSheet.getRow(currentRow);
       dataRow.getCell(1).value = `Data volume - ${vol.sizeGiB} GB (3 IOPS)`;
       dataRow.getCell(2).value = { formula: `${vol.sizeGiB}*${storageCostCell}` };
-      dataRow.getCell(2).numFmt = STYLES.currency.numFmt;
+      dataRow.getCell(2).numFmt = currencyFmt;
       dataRow.getCell(3).value = 1;
       dataRow.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-      dataRow.getCell(4).numFmt = STYLES.currency.numFmt;
+      dataRow.getCell(4).numFmt = currencyFmt;
       currentRow++;
     }
   }
@@ -313,15 +331,15 @@ export async function generateVSIBOMExcel(
   // Set section totals with formulas
   const computeFormula = vmTotalRows.length > 0 ? vmTotalRows.map(r => `E${r}`).join('+') : '0';
   bomSheet.getRow(computeTotalRowNum).getCell(5).value = { formula: computeFormula };
-  bomSheet.getRow(computeTotalRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(computeTotalRowNum).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(computeTotalRowNum).getCell(5).font = { bold: true };
 
   bomSheet.getRow(zoneTotalRowNum).getCell(5).value = { formula: `E${computeTotalRowNum}` };
-  bomSheet.getRow(zoneTotalRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(zoneTotalRowNum).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(zoneTotalRowNum).getCell(5).font = { bold: true };
 
   bomSheet.getRow(vpcTotalRow).getCell(5).value = { formula: `E${zoneTotalRowNum}` };
-  bomSheet.getRow(vpcTotalRow).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(vpcTotalRow).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(vpcTotalRow).getCell(5).font = { bold: true };
 
   // === VM Details Sheet ===
@@ -349,7 +367,7 @@ export async function generateVSIBOMExcel(
   let detailRowNum = 2;
   for (const vm of vmDetails) {
     const vsiProfile = pricing.vsi[vm.profile as keyof typeof pricing.vsi];
-    const vsiCost = vsiProfile ? vsiProfile.monthlyRate * multiplier : 0;
+    const vsiCost = vsiProfile ? vsiProfile.monthlyRate * priceMultiplier : 0;
     const bootSize = vm.bootVolumeGiB || (vm.guestOS.toLowerCase().includes('windows') ? 120 : 100);
     const dataStorageTotal = vm.dataVolumes.reduce((s, v) => s + v.sizeGiB, 0);
 
@@ -362,13 +380,13 @@ export async function generateVSIBOMExcel(
     row.getCell(6).value = bootSize;
     row.getCell(7).value = vm.dataVolumes.map(v => `${v.sizeGiB}GB`).join(', ') || 'None';
     row.getCell(8).value = vsiCost;
-    row.getCell(8).numFmt = STYLES.currency.numFmt;
+    row.getCell(8).numFmt = currencyFmt;
     // Storage cost = (boot + data) * cost per GB
     row.getCell(9).value = { formula: `(F${detailRowNum}+${dataStorageTotal})*${storageCostPerGB}` };
-    row.getCell(9).numFmt = STYLES.currency.numFmt;
+    row.getCell(9).numFmt = currencyFmt;
     // Total = profile + storage
     row.getCell(10).value = { formula: `H${detailRowNum}+I${detailRowNum}` };
-    row.getCell(10).numFmt = STYLES.currency.numFmt;
+    row.getCell(10).numFmt = currencyFmt;
     detailRowNum++;
   }
 
@@ -380,11 +398,11 @@ export async function generateVSIBOMExcel(
   totalRow.getCell(5).value = { formula: `SUM(E2:E${detailRowNum - 1})` };
   totalRow.getCell(6).value = { formula: `SUM(F2:F${detailRowNum - 1})` };
   totalRow.getCell(8).value = { formula: `SUM(H2:H${detailRowNum - 1})` };
-  totalRow.getCell(8).numFmt = STYLES.currency.numFmt;
+  totalRow.getCell(8).numFmt = currencyFmt;
   totalRow.getCell(9).value = { formula: `SUM(I2:I${detailRowNum - 1})` };
-  totalRow.getCell(9).numFmt = STYLES.currency.numFmt;
+  totalRow.getCell(9).numFmt = currencyFmt;
   totalRow.getCell(10).value = { formula: `SUM(J2:J${detailRowNum - 1})` };
-  totalRow.getCell(10).numFmt = STYLES.currency.numFmt;
+  totalRow.getCell(10).numFmt = currencyFmt;
   totalRow.eachCell(cell => {
     cell.fill = STYLES.totalRow.fill;
     cell.font = STYLES.totalRow.font;
@@ -426,15 +444,21 @@ export async function generateVSIBOMExcel(
   const monthlyCostRow = summarySheet.getRow(16);
   monthlyCostRow.getCell(1).value = 'Monthly Compute Cost';
   monthlyCostRow.getCell(2).value = { formula: `'VM Details'!J${detailRowNum}` };
-  monthlyCostRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  monthlyCostRow.getCell(2).numFmt = currencyFmt;
 
   const annualCostRow = summarySheet.getRow(17);
   annualCostRow.getCell(1).value = 'Annual Compute Cost';
   annualCostRow.getCell(2).value = { formula: 'B16*12' };
-  annualCostRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  annualCostRow.getCell(2).numFmt = currencyFmt;
 
   summarySheet.getRow(19).getCell(1).value = 'Generated';
   summarySheet.getRow(19).getCell(2).value = new Date().toLocaleString();
+  summarySheet.getRow(20).getCell(1).value = 'Currency';
+  summarySheet.getRow(20).getCell(2).value = describeCurrency();
+
+  if (estimate.metadata.rateCard) {
+    addContractedPricingSheet(workbook, estimate);
+  }
 
   // Add AI cost optimization notes if available
   if (aiInsights?.costOptimizations && aiInsights.costOptimizations.length > 0) {
@@ -446,20 +470,24 @@ export async function generateVSIBOMExcel(
 
 // Generate ROKS BOM as xlsx workbook with formulas
 export async function generateROKSBOMExcel(
-  _estimate: CostEstimate,
+  estimate: CostEstimate,
   nodeDetails: ROKSNodeDetail[],
   clusterName: string = 'ROKS Cluster',
   region: RegionCode = 'us-south',
   discountType: DiscountType = 'onDemand',
-  aiInsights?: MigrationInsights | null
+  aiInsights?: MigrationInsights | null,
+  oveEstimate?: CostEstimate | null
 ): Promise<ExcelJS.Workbook> {
   const workbook = new ExcelJS.Workbook();
   workbook.creator = 'VCF Migration Tool';
   workbook.created = new Date();
 
-  const pricing = getActivePricing();
+  const pricing = getActivePricing('roks');
   const regionData = pricing.regions[region];
   const multiplier = regionData?.multiplier || 1.0;
+  const currency = getActiveCurrency(pricing.baseCurrency);
+  const currencyFmt = getExcelCurrencyFormat(currency.code);
+  const priceMultiplier = multiplier * currency.rate;
 
   // === BOM Sheet ===
   const bomSheet = workbook.addWorksheet('ROKS BOM');
@@ -496,41 +524,55 @@ export async function generateROKSBOMExcel(
   currentRow++;
 
   // === Compute Nodes Section ===
-  const computeNodes = nodeDetails.filter(n => n.nodeType === 'worker');
+  const computeNodes = nodeDetails.filter(n => n.nodeType === 'worker' || n.nodeType === 'vsiWorker');
   const storageNodes = nodeDetails.filter(n => n.nodeType === 'storage');
+  const isVsiWorkers = computeNodes.some(n => n.nodeType === 'vsiWorker');
 
+  // VSI workers are grouped per pool so each pool gets its own line
   const computeByProfile = computeNodes.reduce((acc, node) => {
-    acc[node.profile] = (acc[node.profile] || 0) + 1;
+    const key = node.nodeType === 'vsiWorker' ? `${node.profile}|${node.pool ?? ''}` : node.profile;
+    acc[key] = (acc[key] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
   const computeSectionRowNum = currentRow;
   const computeHeaderRow = bomSheet.getRow(currentRow);
-  computeHeaderRow.getCell(1).value = 'Compute Nodes';
+  computeHeaderRow.getCell(1).value = isVsiWorkers ? 'Worker Pools (VSI)' : 'Compute Nodes';
   computeHeaderRow.getCell(1).fill = STYLES.sectionHeader.fill;
   computeHeaderRow.getCell(1).font = STYLES.sectionHeader.font;
   currentRow++;
 
   const computeItemRows: number[] = [];
-  Object.entries(computeByProfile).forEach(([profile, count]) => {
-    const bmProfile = pricing.bareMetal[profile as keyof typeof pricing.bareMetal];
-    const monthlyCost = bmProfile ? bmProfile.monthlyRate * multiplier : 0;
+  Object.entries(computeByProfile).forEach(([key, count]) => {
+    const [profile, pool] = key.split('|');
+    let monthlyCost: number;
+    let label: string;
+    if (isVsiWorkers) {
+      const vsiProfile = pricing.vsi[profile as keyof typeof pricing.vsi];
+      const roksWorkerRate = pricing.roks?.workerRates?.vsi?.[profile];
+      monthlyCost = (roksWorkerRate?.monthlyRate ?? vsiProfile?.monthlyRate ?? 0) * priceMultiplier;
+      label = `${profile} - VSI Worker${pool ? ` (pool ${pool})` : ''}`;
+    } else {
+      const bmProfile = pricing.bareMetal[profile as keyof typeof pricing.bareMetal];
+      monthlyCost = bmProfile ? bmProfile.monthlyRate * priceMultiplier : 0;
+      label = `${profile} - Bare Metal`;
+    }
 
     computeItemRows.push(currentRow);
     const row = bomSheet.getRow(currentRow);
-    row.getCell(1).value = `${profile} - Bare Metal`;
+    row.getCell(1).value = label;
     row.getCell(2).value = monthlyCost;
-    row.getCell(2).numFmt = STYLES.currency.numFmt;
+    row.getCell(2).numFmt = currencyFmt;
     row.getCell(3).value = count;
     row.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-    row.getCell(4).numFmt = STYLES.currency.numFmt;
+    row.getCell(4).numFmt = currencyFmt;
     currentRow++;
   });
 
   // Compute section total
   const computeFormula = computeItemRows.length > 0 ? computeItemRows.map(r => `D${r}`).join('+') : '0';
   bomSheet.getRow(computeSectionRowNum).getCell(5).value = { formula: computeFormula };
-  bomSheet.getRow(computeSectionRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(computeSectionRowNum).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(computeSectionRowNum).getCell(5).font = { bold: true };
 
   // Storage nodes (if separate)
@@ -551,25 +593,55 @@ export async function generateROKSBOMExcel(
     const storageItemRows: number[] = [];
     Object.entries(storageByProfile).forEach(([profile, count]) => {
       const vsiProfile = pricing.vsi[profile as keyof typeof pricing.vsi];
-      const monthlyCost = vsiProfile ? vsiProfile.monthlyRate * multiplier : 0;
+      const monthlyCost = vsiProfile ? vsiProfile.monthlyRate * priceMultiplier : 0;
 
       storageItemRows.push(currentRow);
       const row = bomSheet.getRow(currentRow);
       row.getCell(1).value = `${profile} - VSI`;
       row.getCell(2).value = monthlyCost;
-      row.getCell(2).numFmt = STYLES.currency.numFmt;
+      row.getCell(2).numFmt = currencyFmt;
       row.getCell(3).value = count;
       row.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-      row.getCell(4).numFmt = STYLES.currency.numFmt;
+      row.getCell(4).numFmt = currencyFmt;
       currentRow++;
     });
 
     const storageFormula = storageItemRows.map(r => `D${r}`).join('+');
     bomSheet.getRow(storageSectionRowNum).getCell(5).value = { formula: storageFormula };
-    bomSheet.getRow(storageSectionRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+    bomSheet.getRow(storageSectionRowNum).getCell(5).numFmt = currencyFmt;
     bomSheet.getRow(storageSectionRowNum).getCell(5).font = { bold: true };
   }
 
+  // Persistent volumes on VPC block CSI storage classes (VSI workers have no ODF)
+  let blockSectionRowNum: number | null = null;
+  const blockItems = isVsiWorkers ? estimate.lineItems.filter(item => item.category === 'Storage - Block') : [];
+  if (blockItems.length > 0) {
+    blockSectionRowNum = currentRow;
+    const blockHeaderRow = bomSheet.getRow(currentRow);
+    blockHeaderRow.getCell(1).value = 'Block Storage (VPC CSI)';
+    blockHeaderRow.getCell(1).fill = STYLES.sectionHeader.fill;
+    blockHeaderRow.getCell(1).font = STYLES.sectionHeader.font;
+    currentRow++;
+
+    const blockItemRows: number[] = [];
+    blockItems.forEach(item => {
+      blockItemRows.push(currentRow);
+      const row = bomSheet.getRow(currentRow);
+      // Estimate amounts are already in the quote currency with the regional multiplier
+      row.getCell(1).value = `${item.description} (GB)`;
+      row.getCell(2).value = item.unitCost;
+      row.getCell(2).numFmt = getExcelCurrencyFormat(currency.code, 4);
+      row.getCell(3).value = item.quantity;
+      row.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
+      row.getCell(4).numFmt = currencyFmt;
+      currentRow++;
+    });
+
+    bomSheet.getRow(blockSectionRowNum).getCell(5).value = { formula: blockItemRows.map(r => `D${r}`).join('+') };
+    bomSheet.getRow(blockSectionRowNum).getCell(5).numFmt = currencyFmt;
+    bomSheet.getRow(blockSectionRowNum).getCell(5).font = { bold: true };
+  }
+
   // === Networking Section (Load Balancers) ===
   const networkingSectionRowNum = currentRow;
   const networkingHeaderRow = bomSheet.getRow(currentRow);
@@ -579,31 +651,34 @@ export async function generateROKSBOMExcel(
   currentRow++;
 
   // Load Balancers (2x for ingress)
-  const lbCost = (pricing.networking?.loadBalancer?.perLBMonthly || 35) * multiplier;
+  const lbCost = (pricing.networking?.loadBalancer?.perLBMonthly || 35) * priceMultiplier;
   const lbRowNum = currentRow;
   const lbRow = bomSheet.getRow(currentRow);
   lbRow.getCell(1).value = 'Application Load Balancer (Ingress)';
   lbRow.getCell(2).value = lbCost;
-  lbRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  lbRow.getCell(2).numFmt = currencyFmt;
   lbRow.getCell(3).value = 2;
   lbRow.getCell(4).value = { formula: `B${currentRow}*C${currentRow}` };
-  lbRow.getCell(4).numFmt = STYLES.currency.numFmt;
+  lbRow.getCell(4).numFmt = currencyFmt;
   currentRow++;
 
   // Networking section total
   bomSheet.getRow(networkingSectionRowNum).getCell(5).value = { formula: `D${lbRowNum}` };
-  bomSheet.getRow(networkingSectionRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(networkingSectionRowNum).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(networkingSectionRowNum).getCell(5).font = { bold: true };
 
-  // Cluster total = Compute + Storage (if any) + Networking
+  // Cluster total = Compute + Storage (if any) + Block storage (if any) + Networking
   const clusterFormulaParts = [`E${computeSectionRowNum}`];
   if (storageSectionRowNum) {
     clusterFormulaParts.push(`E${storageSectionRowNum}`);
   }
+  if (blockSectionRowNum) {
+    clusterFormulaParts.push(`E${blockSectionRowNum}`);
+  }
   clusterFormulaParts.push(`E${networkingSectionRowNum}`);
   const clusterFormula = clusterFormulaParts.join('+');
   bomSheet.getRow(clusterTotalRowNum).getCell(5).value = { formula: clusterFormula };
-  bomSheet.getRow(clusterTotalRowNum).getCell(5).numFmt = STYLES.currency.numFmt;
+  bomSheet.getRow(clusterTotalRowNum).getCell(5).numFmt = currencyFmt;
   bomSheet.getRow(clusterTotalRowNum).getCell(5).font = { bold: true };
 
   // === Summary Sheet ===
@@ -640,15 +715,30 @@ export async function generateROKSBOMExcel(
   const monthlyCostRow = summarySheet.getRow(14);
   monthlyCostRow.getCell(1).value = 'Monthly Cost';
   monthlyCostRow.getCell(2).value = { formula: `'ROKS BOM'!E${clusterTotalRowNum}` };
-  monthlyCostRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  monthlyCostRow.getCell(2).numFmt = currencyFmt;
 
   const annualCostRow = summarySheet.getRow(15);
   annualCostRow.getCell(1).value = 'Annual Cost';
   annualCostRow.getCell(2).value = { formula: 'B14*12' };
-  annualCostRow.getCell(2).numFmt = STYLES.currency.numFmt;
+  annualCostRow.getCell(2).numFmt = currencyFmt;
 
   summarySheet.getRow(17).getCell(1).value = 'Generated';
   summarySheet.getRow(17).getCell(2).value = new Date().toLocaleString();
+  summarySheet.getRow(18).getCell(1).value = 'Currency';
+  summarySheet.getRow(18).getCell(2).value = describeCurrency();
+
+  // Same bare metal cluster licensed as OpenShift Virtualization Engine (VM-only)
+  if (oveEstimate) {
+    const oveTotalRowNum = addLineItemBOMSheet(workbook, 'OVE BOM', oveEstimate, currencyFmt);
+    const oveCostRow = summarySheet.getRow(16);
+    oveCostRow.getCell(1).value = 'OVE Monthly Cost';
+    oveCostRow.getCell(2).value = { formula: `'OVE BOM'!F${oveTotalRowNum}` };
+    oveCostRow.getCell(2).numFmt = currencyFmt;
+  }
+
+  if (estimate.metadata.rateCard) {
+    addContractedPricingSheet(workbook, estimate);
+  }
 
   // Add AI cost optimization notes if available
   if (aiInsights?.costOptimizations && aiInsights.costOptimizations.length > 0) {
@@ -658,7 +748,240 @@ export async function generateROKSBOMExcel(
   return workbook;
 }
 
+// Generate split migration BOM with ROKS, VSI and PowerVS cost columns
+export async function generateSplitBOMExcel(
+  input: SplitBOMInput,
+  region: RegionCode = 'us-south',
+  discountType: DiscountType = 'onDemand'
+): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'VCF Migration Tool';
+  workbook.created = new Date();
+
+  const pricing = getActivePricing();
+  const regionData = pricing.regions[region];
+  const currencyFmt = getExcelCurrencyFormat(getActiveCurrency(pricing.baseCurrency).code);
+  const summarySheet = workbook.addWorksheet('Split Summary');
+  summarySheet.columns = [{ width: 25 }, { width: 18 }, { width: 18 }, { width: 18 }, { width: 18 }];
+
+  // === PowerVS BOM Sheet ===
+  const powervsTotalRowNum = addLineItemBOMSheet(workbook, 'PowerVS BOM', input.powervsEstimate, currencyFmt);
+
+  // === PowerVS LPAR Sheet ===
+  const lparSheet = workbook.addWorksheet('PowerVS LPARs');
+  lparSheet.columns = [
+    { header: 'VM Name', width: 40 },
+    { header: 'Guest OS', width: 25 },
+    { header: 'Source vCPUs', width: 12 },
+    { header: 'Source Memory (GiB)', width: 18 },
+    { header: 'System Type', width: 12 },
+    { header: 'Processor', width: 12 },
+    { header: 'Cores', width: 8 },
+    { header: 'Memory (GiB)', width: 12 },
+    { header: 'Storage Tier', width: 12 },
+    { header: 'Storage (GiB)', width: 12 },
+  ];
+  lparSheet.getRow(1).eachCell(cell => {
+    cell.fill = STYLES.headerBlue.fill;
+    cell.font = STYLES.headerBlue.font;
+  });
+  for (const lpar of input.powervsMappings) {
+    lparSheet.addRow([
+      lpar.vmName,
+      lpar.guestOS,
+      lpar.vcpus,
+      lpar.sourceMemoryGiB,
+      lpar.systemType,
+      lpar.processorType,
+      lpar.cores,
+      lpar.memoryGiB,
+      lpar.storageTier === 'tier1' ? 'Tier 1' : 'Tier 3',
+      lpar.storageGiB,
+    ]);
+  }
+
+  // === Split Summary Sheet ===
+  const titleRow = summarySheet.getRow(1);
+  titleRow.getCell(1).value = 'Split Migration Cost Summary';
+  titleRow.getCell(1).font = { bold: true };
+
+  const headerRow = summarySheet.getRow(3);
+  ['', 'ROKS', 'VSI', 'PowerVS', 'Total'].forEach((val, i) => {
+    const cell = headerRow.getCell(i + 1);
+    cell.value = val;
+    cell.fill = STYLES.headerBlue.fill;
+    cell.font = STYLES.headerBlue.font;
+  });
+
+  const vmRow = summarySheet.getRow(4);
+  vmRow.getCell(1).value = 'VMs';
+  vmRow.getCell(2).value = input.roks.vmCount;
+  vmRow.getCell(3).value = input.vsi.vmCount;
+  vmRow.getCell(4).value = input.powervsMappings.length;
+  vmRow.getCell(5).value = { formula: 'SUM(B4:D4)' };
+
+  const monthlyRow = summarySheet.getRow(5);
+  monthlyRow.getCell(1).value = 'Monthly Cost';
+  monthlyRow.getCell(2).value = input.roks.monthlyCost ?? 0;
+  monthlyRow.getCell(3).value = input.vsi.monthlyCost ?? 0;
+  monthlyRow.getCell(4).value = { formula: `'PowerVS BOM'!F${powervsTotalRowNum}` };
+  monthlyRow.getCell(5).value = { formula: 'SUM(B5:D5)' };
+
+  const annualRow = summarySheet.getRow(6);
+  annualRow.getCell(1).value = 'Annual Cost';
+  ['B', 'C', 'D', 'E'].forEach((col, i) => {
+    annualRow.getCell(i + 2).value = { formula: `${col}5*12` };
+  });
+
+  for (const row of [monthlyRow, annualRow]) {
+    for (let col = 2; col <= 5; col++) {
+      row.getCell(col).numFmt = currencyFmt;
+    }
+    row.getCell(5).font = { bold: true };
+  }
+
+  const configData = [
+    ['Region', regionData?.name || region],
+    ['Pricing Type', discountType === 'onDemand' ? 'Pay-As-You-Go' : discountType],
+    ['Currency', describeCurrency()],
+    ['Generated', new Date().toLocaleString()],
+  ];
+  configData.forEach((rowData, i) => {
+    const row = summarySheet.getRow(8 + i);
+    row.getCell(1).value = rowData[0];
+    row.getCell(2).value = rowData[1];
+  });
+
+  const missing = [
+    input.roks.vmCount > 0 && input.roks.monthlyCost == null ? 'ROKS' : null,
+    input.vsi.vmCount > 0 && input.vsi.monthlyCost == null ? 'VSI' : null,
+  ].filter(Boolean);
+  const noteRow = summarySheet.getRow(12);
+  noteRow.getCell(1).value = missing.length > 0
+    ? `${missing.join(' and ')} cost not configured — open the ${missing.join(' / ')} sizing page to include it`
+    : 'ROKS and VSI costs are the all-VM estimates pro-rated by assigned VM count';
+  noteRow.getCell(1).font = { italic: true };
+
+  return workbook;
+}
+
+// Add a BOM sheet listing an estimate's line items with subtotal, discount and
+// total formulas. Returns the row number of the monthly total.
+function addLineItemBOMSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  estimate: CostEstimate | null,
+  currencyFmt: string
+): number {
+  const sheet = workbook.addWorksheet(name);
+  sheet.columns = [
+    { header: 'Category', width: 22 },
+    { header: 'Item', width: 40 },
+    { header: 'Quantity', width: 12 },
+    { header: 'Unit', width: 10 },
+    { header: 'Monthly Unit Price', width: 18 },
+    { header: 'Monthly Price', width: 15 },
+    { header: 'Annual Price', width: 15 },
+  ];
+  sheet.getRow(1).eachCell(cell => {
+    cell.fill = STYLES.headerBlue.fill;
+    cell.font = STYLES.headerBlue.font;
+  });
+
+  let bomRowNum = 2;
+  for (const item of estimate?.lineItems ?? []) {
+    const row = sheet.getRow(bomRowNum);
+    row.getCell(1).value = item.category;
+    row.getCell(2).value = item.description;
+    row.getCell(3).value = item.quantity;
+    row.getCell(4).value = item.unit;
+    row.getCell(5).value = item.unitCost;
+    row.getCell(5).numFmt = currencyFmt;
+    row.getCell(6).value = { formula: `C${bomRowNum}*E${bomRowNum}` };
+    row.getCell(6).numFmt = currencyFmt;
+    row.getCell(7).value = { formula: `F${bomRowNum}*12` };
+    row.getCell(7).numFmt = currencyFmt;
+    bomRowNum++;
+  }
+
+  const subtotalRowNum = bomRowNum;
+  const subtotalRow = sheet.getRow(subtotalRowNum);
+  subtotalRow.getCell(2).value = 'Subtotal';
+  subtotalRow.getCell(6).value = { formula: bomRowNum > 2 ? `SUM(F2:F${bomRowNum - 1})` : '0' };
+  subtotalRow.getCell(6).numFmt = currencyFmt;
+
+  const discountPct = estimate?.discountPct ?? 0;
+  const discountRow = sheet.getRow(subtotalRowNum + 1);
+  discountRow.getCell(2).value = `Discount (${discountPct}%)`;
+  discountRow.getCell(6).value = { formula: `-F${subtotalRowNum}*${discountPct / 100}` };
+  discountRow.getCell(6).numFmt = currencyFmt;
+
+  const totalRowNum = subtotalRowNum + 2;
+  const totalRow = sheet.getRow(totalRowNum);
+  totalRow.getCell(2).value = 'TOTAL';
+  totalRow.getCell(6).value = { formula: `F${subtotalRowNum}+F${subtotalRowNum + 1}` };
+  totalRow.getCell(6).numFmt = currencyFmt;
+  totalRow.getCell(7).value = { formula: `F${totalRowNum}*12` };
+  totalRow.getCell(7).numFmt = currencyFmt;
+  totalRow.eachCell(cell => {
+    cell.fill = STYLES.totalRow.fill;
+    cell.font = STYLES.totalRow.font;
+  });
+
+  return totalRowNum;
+}
+
 // Add AI cost optimization notes sheet
+// List versus contracted price per estimate line item for rate card estimates
+function addContractedPricingSheet(workbook: ExcelJS.Workbook, estimate: CostEstimate): void {
+  const rateCard = estimate.metadata.rateCard!;
+  const currencyFmt = getExcelCurrencyFormat(estimate.metadata.currency ?? getActiveCurrency().code);
+  const sheet = workbook.addWorksheet('Contracted Pricing');
+  sheet.columns = [{ width: 20 }, { width: 40 }, { width: 18 }, { width: 12 }, { width: 20 }];
+
+  const titleRow = sheet.addRow([`Contracted Pricing - ${rateCard.name}`]);
+  titleRow.font = { bold: true, size: 14 };
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(['Category', 'Description', 'List Monthly', 'Discount %', 'Contracted Monthly']);
+  headerRow.eachCell(cell => {
+    cell.fill = STYLES.headerBlue.fill;
+    cell.font = STYLES.headerBlue.font;
+  });
+
+  const firstRow = headerRow.number + 1;
+  for (const item of estimate.lineItems) {
+    const row = sheet.addRow([
+      item.category,
+      item.description,
+      item.monthlyCost,
+      item.discountPct ?? 0,
+    ]);
+    row.getCell(5).value = { formula: `C${row.number}*(1-D${row.number}/100)` };
+    row.getCell(3).numFmt = currencyFmt;
+    row.getCell(5).numFmt = currencyFmt;
+  }
+  const lastRow = sheet.rowCount;
+
+  const addTotal = (label: string, listFormula: string | null, contractedFormula: string) => {
+    const row = sheet.addRow([label, '', listFormula ? { formula: listFormula } : '', '', { formula: contractedFormula }]);
+    row.getCell(3).numFmt = currencyFmt;
+    row.getCell(5).numFmt = currencyFmt;
+    return row;
+  };
+  const subtotal = addTotal('Subtotal', `SUM(C${firstRow}:C${lastRow})`, `SUM(E${firstRow}:E${lastRow})`);
+  const credit = addTotal('Committed-use credit', null, `-${rateCard.creditMonthly}`);
+  const total = addTotal('Total', `C${subtotal.number}`, `E${subtotal.number}+E${credit.number}`);
+  total.eachCell(cell => {
+    cell.fill = STYLES.totalRow.fill;
+    cell.font = STYLES.totalRow.font;
+  });
+
+  sheet.addRow([]);
+  sheet.addRow(['Rate Card', rateCard.fileName ? `${rateCard.name} (${rateCard.fileName})` : rateCard.name]);
+  sheet.addRow(['Currency', describeCurrency(estimate)]);
+}
+
 function addAINotesSheet(workbook: ExcelJS.Workbook, costOptimizations: string[]): void {
   const aiSheet = workbook.addWorksheet('AI Notes');
   aiSheet.columns = [{ width: 80 }];
@@ -711,14 +1034,17 @@ export async function downloadROKSBOMExcel(
   clusterName?: string,
   region?: RegionCode,
   discountType?: DiscountType,
-  filename?: string
+  filename?: string,
+  oveEstimate?: CostEstimate | null
 ): Promise<void> {
   const workbook = await generateROKSBOMExcel(
     estimate,
     nodeDetails,
     clusterName,
     region || estimate.region as RegionCode,
-    discountType || estimate.discountType as DiscountType
+    discountType || estimate.discountType as DiscountType,
+    undefined,
+    oveEstimate
   );
 
   const defaultFilename = `roks-bom-${estimate.region}-${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -731,3 +1057,23 @@ export async function downloadROKSBOMExcel(
   a.click();
   URL.revokeObjectURL(url);
 }
+
+// Download split migration BOM as xlsx
+export async function downloadSplitBOMExcel(
+  input: SplitBOMInput,
+  region?: RegionCode,
+  discountType?: DiscountType,
+  filename?: string
+): Promise<void> {
+  const workbook = await generateSplitBOMExcel(input, region, discountType);
+
+  const defaultFilename = `split-bom-${region || 'us-south'}-${new Date().toISOString().split('T')[0]}.xlsx`;
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || defaultFilename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -613,6 +613,7 @@ describe('generateDocxReport', () => {
         mockRoksCostEstimate,
         mockVsiCostEstimate,
         undefined, // roksVariant
+        null, // tcoProjection
       );
     });
 
@@ -627,6 +628,7 @@ describe('generateDocxReport', () => {
         null,
         null,
         undefined, // roksVariant
+        null, // tcoProjection
       );
     });
   });
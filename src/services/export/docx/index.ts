@@ -43,6 +43,7 @@ import {
   buildOSCompatibilitySection,
   buildWorkloadClassification,
   buildPlatformRecommendation,
+  buildVMwareRetainSection,
 } from './sections';
 
 // Re-export types for consumers
@@ -82,6 +83,8 @@ export async function generateDocxReport(
     sourceEnvironment: options.sourceEnvironment ?? null,
     roksCostEstimate: options.roksCostEstimate ?? null,
     vsiCostEstimate: options.vsiCostEstimate ?? null,
+    tcoProjection: options.tcoProjection ?? null,
+    vmwareRetain: options.vmwareRetain ?? null,
   };
 
   // Reset caption counters for fresh document
@@ -221,7 +224,12 @@ export async function generateDocxReport(
   // §12 Cost Estimation
   if (finalOptions.includeCosts && (finalOptions.includeROKS || finalOptions.includeVSI)) {
     const roksVariant = finalOptions.platformSelection?.score?.roksVariant;
-    sections.push(...buildCostEstimation(roksSizing, vsiMappings, aiInsights, sec.next(), finalOptions.roksCostEstimate, finalOptions.vsiCostEstimate, roksVariant));
+    sections.push(...await buildCostEstimation(roksSizing, vsiMappings, aiInsights, sec.next(), finalOptions.roksCostEstimate, finalOptions.vsiCostEstimate, roksVariant, finalOptions.tcoProjection));
+  }
+
+  // Retain VMware (VCF on IBM Cloud) — conditional
+  if (finalOptions.includeCosts && finalOptions.vmwareRetain && finalOptions.vmwareRetain.sizing.totalHosts > 0) {
+    sections.push(...buildVMwareRetainSection(finalOptions.vmwareRetain, sec.next()));
   }
 
   // §13 Migration Timeline
@@ -1,11 +1,17 @@
 // Cost Estimation Section
 
 import { Paragraph, Table, TableRow, TextRun, PageBreak, HeadingLevel, BorderStyle, ShadingType, AlignmentType } from 'docx';
-import type { CostEstimate } from '@/services/costEstimation';
+import { formatCurrency, describeCurrency, type CostEstimate } from '@/services/costEstimation';
 import type { MigrationInsights } from '@/services/ai/types';
+import type { TCOProjection } from '@/services/tcoProjection';
 import reportTemplates from '@/data/reportTemplates.json';
-import { STYLES, type DocumentContent, type ROKSSizing, type VSIMapping } from '../types';
+import { createLogger } from '@/utils/logger';
+import { STYLES, CHART_COLORS, type DocumentContent, type ROKSSizing, type VSIMapping } from '../types';
 import { createHeading, createParagraph, createBulletList, createTableCell, createTableDescription, createTableLabel, createAISection } from '../utils/helpers';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
+import { generateLineChart, createChartParagraph } from '../utils/charts';
+
+const logger = createLogger('DocxCostEstimation');
 
 // Type assertion for templates with table/figure descriptions
 const templates = reportTemplates as typeof reportTemplates & {
@@ -13,7 +19,84 @@ const templates = reportTemplates as typeof reportTemplates & {
   figureDescriptions: Record<string, { title: string; description: string }>;
 };
 
-export function buildCostEstimation(
+async function buildTCOProjection(tco: TCOProjection, heading: string): Promise<DocumentContent[]> {
+  const years = tco.statusQuo.yearly.length;
+  const border = { style: BorderStyle.SINGLE, size: 1, color: STYLES.mediumGray };
+
+  const content: DocumentContent[] = [
+    new Paragraph({ spacing: { before: 240 } }),
+    createHeading(heading, HeadingLevel.HEADING_2),
+    createParagraph(
+      `Projected cumulative cost over ${years} year${years !== 1 ? 's' : ''} at ${tco.annualGrowthRate}% annual capacity growth. ` +
+      `Cloud spend ramps up as each migration wave starts, and the VMware estate runs in parallel until month ${tco.exitMonth}, when the migration timeline completes.`
+    ),
+  ];
+
+  try {
+    const chart = await generateLineChart(
+      [
+        { label: 'VMware status quo', values: tco.statusQuo.cumulative, color: '#6f6f6f', dashed: true },
+        ...tco.scenarios.map((sc, i) => ({ label: sc.label, values: sc.cumulative, color: CHART_COLORS[i % CHART_COLORS.length] })),
+      ],
+      'Cumulative Cost',
+      tco.statusQuo.cumulative.map((_, m) => `M${m + 1}`),
+    );
+    content.push(createChartParagraph(chart, 560, 300));
+  } catch (error) {
+    logger.error('TCO chart generation failed', error instanceof Error ? error : new Error(String(error)));
+  }
+
+  content.push(
+    ...createTableDescription('Multi-Year Cost Projection', 'Annual cost of each migration scenario, including dual-running VMware costs, compared with keeping the current VMware estate.'),
+    new Table({
+      width: { size: 100, type: 'pct' as const },
+      borders: { top: border, bottom: border, left: border, right: border, insideHorizontal: border, insideVertical: border },
+      rows: [
+        new TableRow({
+          cantSplit: true,
+          children: [
+            createTableCell('Scenario', { header: true }),
+            ...tco.statusQuo.yearly.map((_, y) => createTableCell(`Year ${y + 1}`, { header: true, align: AlignmentType.RIGHT })),
+            createTableCell('Total', { header: true, align: AlignmentType.RIGHT }),
+            createTableCell('Break-even', { header: true, align: AlignmentType.RIGHT }),
+          ],
+        }),
+        new TableRow({
+          cantSplit: true,
+          children: [
+            createTableCell('VMware status quo'),
+            ...tco.statusQuo.yearly.map(cost => createTableCell(formatCurrency(cost), { align: AlignmentType.RIGHT })),
+            createTableCell(formatCurrency(tco.statusQuo.total), { align: AlignmentType.RIGHT, bold: true }),
+            createTableCell('—', { align: AlignmentType.RIGHT }),
+          ],
+        }),
+        ...tco.scenarios.map(sc => new TableRow({
+          cantSplit: true,
+          children: [
+            createTableCell(sc.label),
+            ...sc.yearly.map(cost => createTableCell(formatCurrency(cost), { align: AlignmentType.RIGHT })),
+            createTableCell(formatCurrency(sc.total), { align: AlignmentType.RIGHT, bold: true }),
+            createTableCell(sc.breakEvenMonth != null ? `Month ${sc.breakEvenMonth}` : 'Beyond horizon', { align: AlignmentType.RIGHT }),
+          ],
+        })),
+      ],
+    }),
+    createTableLabel('Multi-Year Cost Projection'),
+    createParagraph('VMware Baseline Assumptions:', { bold: true, spacing: { before: 160 } }),
+    ...createBulletList([
+      `${tco.licensedCores.toLocaleString()} licensed cores at ${formatCurrency(tco.baseline.licenceCostPerCoreYear)} per core per year`,
+      `Annual support contracts: ${formatCurrency(tco.baseline.annualSupportCost)}`,
+      tco.baseline.hardwareRefreshCost > 0
+        ? `Hardware refresh of ${formatCurrency(tco.baseline.hardwareRefreshCost)} due in year ${tco.baseline.hardwareRefreshYear}`
+        : 'No hardware refresh within the planning horizon',
+      ...tco.scenarios.map(sc => `${sc.label}: ${formatCurrency(sc.dualRunningCost)} of cloud spend while dual-running with VMware`),
+    ]),
+  );
+
+  return content;
+}
+
+export async function buildCostEstimation(
   roksSizing: ROKSSizing,
   vsiMappings: VSIMapping[],
   aiInsights?: MigrationInsights | null,
@@ -21,7 +104,8 @@ export function buildCostEstimation(
   roksCostEstimate?: CostEstimate | null,
   vsiCostEstimate?: CostEstimate | null,
   roksVariant?: 'full' | 'rov',
-): DocumentContent[] {
+  tcoProjection?: TCOProjection | null,
+): Promise<DocumentContent[]> {
   const costTemplates = reportTemplates.costEstimation;
   const hasCachedRoks = !!roksCostEstimate;
   const hasCachedVsi = !!vsiCostEstimate;
@@ -43,7 +127,10 @@ export function buildCostEstimation(
   const costRatio = totalVSIMonthlyCost > 0 ? (roksMonthlyCost / totalVSIMonthlyCost).toFixed(1) : 'N/A';
   const annualDifference = (Math.ceil(roksMonthlyCost) - Math.ceil(totalVSIMonthlyCost)) * 12;
 
+  const rateCard = (roksCostEstimate ?? vsiCostEstimate)?.metadata.rateCard;
+
   const s = sectionNum != null ? sectionNum : 8;
+  let sub = 2;
 
   const isRov = roksVariant === 'rov';
   const platformName = isRov ? 'ROV' : 'ROKS';
@@ -54,7 +141,11 @@ export function buildCostEstimation(
   const sections: DocumentContent[] = [
     createHeading(`${s}. ` + costTemplates.title, HeadingLevel.HEADING_1),
     createParagraph(costTemplates.introduction),
-    createParagraph(costTemplates.disclaimer, { spacing: { after: 240 } }),
+    createParagraph(costTemplates.disclaimer),
+    createParagraph(`All amounts are in ${describeCurrency(roksCostEstimate ?? vsiCostEstimate)}.`, { spacing: { after: 240 } }),
+    ...(rateCard
+      ? [createParagraph(`Contracted pricing from rate card "${rateCard.name}" is applied: list price less per-service discounts and committed-use credits.`, { spacing: { after: 240 } })]
+      : []),
 
     createHeading(`${s}.1 ` + costTemplates.sections.comparison.title, HeadingLevel.HEADING_2),
     createParagraph(costTemplates.sections.comparison.description),
@@ -87,16 +178,16 @@ export function buildCostEstimation(
           cantSplit: true,
           children: [
             createTableCell(roksLabel),
-            createTableCell(`$${Math.ceil(roksMonthlyCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
-            createTableCell(`$${Math.ceil(roksMonthlyCost * 12).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+            createTableCell(formatCurrency(Math.ceil(roksMonthlyCost)), { align: AlignmentType.RIGHT }),
+            createTableCell(formatCurrency(Math.ceil(roksMonthlyCost * 12)), { align: AlignmentType.RIGHT }),
           ],
         }),
         new TableRow({
           cantSplit: true,
           children: [
             createTableCell('VPC VSI'),
-            createTableCell(`$${Math.ceil(totalVSIMonthlyCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
-            createTableCell(`$${Math.ceil(totalVSIMonthlyCost * 12).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+            createTableCell(formatCurrency(Math.ceil(totalVSIMonthlyCost)), { align: AlignmentType.RIGHT }),
+            createTableCell(formatCurrency(Math.ceil(totalVSIMonthlyCost * 12)), { align: AlignmentType.RIGHT }),
           ],
         }),
       ],
@@ -135,7 +226,7 @@ export function buildCostEstimation(
               createTableCell(item.category),
               createTableCell(item.description),
               createTableCell(`${item.quantity} ${item.unit}`, { align: AlignmentType.RIGHT }),
-              createTableCell(`$${Math.round(item.monthlyCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(formatCurrency(Math.round(item.monthlyCost)), { align: AlignmentType.RIGHT }),
             ],
           })),
           ...(roksCostEstimate.discountPct > 0 ? [new TableRow({
@@ -144,7 +235,7 @@ export function buildCostEstimation(
               createTableCell(`Discount (${roksCostEstimate.discountType})`),
               createTableCell(`${roksCostEstimate.discountPct}% discount applied`),
               createTableCell('', { align: AlignmentType.RIGHT }),
-              createTableCell(`-$${Math.round(roksCostEstimate.discountAmountMonthly).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(`-${formatCurrency(Math.round(roksCostEstimate.discountAmountMonthly))}`, { align: AlignmentType.RIGHT }),
             ],
           })] : []),
           new TableRow({
@@ -153,7 +244,7 @@ export function buildCostEstimation(
               createTableCell('Total', { bold: true }),
               createTableCell('', { bold: true }),
               createTableCell('', { align: AlignmentType.RIGHT, bold: true }),
-              createTableCell(`$${Math.round(roksCostEstimate.totalMonthly).toLocaleString()}`, { align: AlignmentType.RIGHT, bold: true }),
+              createTableCell(formatCurrency(Math.round(roksCostEstimate.totalMonthly)), { align: AlignmentType.RIGHT, bold: true }),
             ],
           }),
         ],
@@ -196,7 +287,7 @@ export function buildCostEstimation(
               createTableCell('Boot Volumes'),
               createTableCell(`${Math.round(totalBootStorageGiB)} GiB`, { align: AlignmentType.RIGHT }),
               createTableCell('general-purpose (3 IOPS/GB)'),
-              createTableCell(`$${Math.round(totalBootStorageCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(formatCurrency(Math.round(totalBootStorageCost)), { align: AlignmentType.RIGHT }),
             ],
           }),
           new TableRow({
@@ -205,7 +296,7 @@ export function buildCostEstimation(
               createTableCell('Data Volumes'),
               createTableCell(`${ Math.round(totalDataStorageGiB)} GiB`, { align: AlignmentType.RIGHT }),
               createTableCell('Tiered (see assumptions)'),
-              createTableCell(`$${Math.round(totalDataStorageCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(formatCurrency(Math.round(totalDataStorageCost)), { align: AlignmentType.RIGHT }),
             ],
           }),
           new TableRow({
@@ -214,7 +305,7 @@ export function buildCostEstimation(
               createTableCell('Total Storage', { bold: true }),
               createTableCell(`${Math.round(totalVSIStorageGiB / 1024)} TiB`, { align: AlignmentType.RIGHT, bold: true }),
               createTableCell(''),
-              createTableCell(`$${Math.round(totalVSIStorageCost).toLocaleString()}`, { align: AlignmentType.RIGHT, bold: true }),
+              createTableCell(formatCurrency(Math.round(totalVSIStorageCost)), { align: AlignmentType.RIGHT, bold: true }),
             ],
           }),
         ],
@@ -262,7 +353,7 @@ export function buildCostEstimation(
               createTableCell(item.category),
               createTableCell(item.description),
               createTableCell(`${item.quantity} ${item.unit}`, { align: AlignmentType.RIGHT }),
-              createTableCell(`$${Math.round(item.monthlyCost).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(formatCurrency(Math.round(item.monthlyCost)), { align: AlignmentType.RIGHT }),
             ],
           })),
           ...(vsiCostEstimate.discountPct > 0 ? [new TableRow({
@@ -271,7 +362,7 @@ export function buildCostEstimation(
               createTableCell(`Discount (${vsiCostEstimate.discountType})`),
               createTableCell(`${vsiCostEstimate.discountPct}% discount applied`),
               createTableCell('', { align: AlignmentType.RIGHT }),
-              createTableCell(`-$${Math.round(vsiCostEstimate.discountAmountMonthly).toLocaleString()}`, { align: AlignmentType.RIGHT }),
+              createTableCell(`-${formatCurrency(Math.round(vsiCostEstimate.discountAmountMonthly))}`, { align: AlignmentType.RIGHT }),
             ],
           })] : []),
           new TableRow({
@@ -280,7 +371,7 @@ export function buildCostEstimation(
               createTableCell('Total', { bold: true }),
               createTableCell('', { bold: true }),
               createTableCell('', { align: AlignmentType.RIGHT, bold: true }),
-              createTableCell(`$${Math.round(vsiCostEstimate.totalMonthly).toLocaleString()}`, { align: AlignmentType.RIGHT, bold: true }),
+              createTableCell(formatCurrency(Math.round(vsiCostEstimate.totalMonthly)), { align: AlignmentType.RIGHT, bold: true }),
             ],
           }),
         ],
@@ -289,9 +380,13 @@ export function buildCostEstimation(
     );
   }
 
+  if (tcoProjection && tcoProjection.scenarios.length > 0) {
+    sections.push(...await buildTCOProjection(tcoProjection, `${s}.${sub++} Multi-Year Total Cost of Ownership`));
+  }
+
   sections.push(
     new Paragraph({ spacing: { before: 240 } }),
-    createHeading(`${s}.2 Cost Analysis & Recommendations`, HeadingLevel.HEADING_2),
+    createHeading(`${s}.${sub++} Cost Analysis & Recommendations`, HeadingLevel.HEADING_2),
 
     new Paragraph({
       spacing: { before: 120, after: 120 },
@@ -303,7 +398,7 @@ export function buildCostEstimation(
           size: STYLES.bodySize,
         }),
         new TextRun({
-          text: `At list pricing, ${platformName} with OpenShift Virtualization is approximately ${costRatio}× higher cost than VPC VSI, representing an annual difference of $${Math.abs(Math.round(annualDifference)).toLocaleString()}.`,
+          text: `At list pricing, ${platformName} with OpenShift Virtualization is approximately ${costRatio}× higher cost than VPC VSI, representing an annual difference of ${formatCurrency(Math.abs(Math.round(annualDifference)))}.`,
           size: STYLES.bodySize,
         }),
       ],
@@ -336,7 +431,7 @@ export function buildCostEstimation(
     ),
 
     new Paragraph({ spacing: { before: 240 } }),
-    createHeading(`${s}.3 ` + costTemplates.notes.title, HeadingLevel.HEADING_2),
+    createHeading(`${s}.${sub++} ` + costTemplates.notes.title, HeadingLevel.HEADING_2),
     ...createBulletList(costTemplates.notes.items),
   );
 
@@ -344,9 +439,10 @@ export function buildCostEstimation(
   if (aiInsights?.costOptimizations && aiInsights.costOptimizations.length > 0) {
     sections.push(
       ...createAISection(
-        `${s}.4 AI Cost Optimization Suggestions`,
+        `${s}.${sub++} ${describeInsightsSource(aiInsights.source).label} Cost Optimization Suggestions`,
         aiInsights.costOptimizations,
-        HeadingLevel.HEADING_2
+        HeadingLevel.HEADING_2,
+        aiInsights.source
       )
     );
   }
@@ -7,6 +7,7 @@ import { mibToTiB } from '@/utils/formatters';
 import reportTemplates from '@/data/reportTemplates.json';
 import { STYLES, CHART_COLORS, type DocumentContent, type VMReadiness, type ChartData, type PlatformSelectionExport, type WorkloadClassificationExport } from '../types';
 import { createHeading, createParagraph, createBulletList, createStyledTable, createTableDescription, createTableLabel, createFigureDescription, createFigureLabel, createAISection } from '../utils/helpers';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 import { generatePieChart, createChartParagraph } from '../utils/charts';
 import { AlignmentType } from 'docx';
 
@@ -206,9 +207,10 @@ export async function buildExecutiveSummary(
   if (aiInsights?.executiveSummary) {
     sections.push(
       ...createAISection(
-        'AI-Generated Executive Summary',
+        `${describeInsightsSource(aiInsights.source).title} Executive Summary`,
         aiInsights.executiveSummary,
-        HeadingLevel.HEADING_2
+        HeadingLevel.HEADING_2,
+        aiInsights.source
       )
     );
   }
@@ -21,3 +21,4 @@ export { buildComplexityAssessment } from './complexityAssessment';
 export { buildOSCompatibilitySection } from './osCompatibility';
 export { buildWorkloadClassification } from './workloadClassification';
 export { buildPlatformRecommendation } from './platformRecommendation';
+export { buildVMwareRetainSection } from './vmwareRetain';
@@ -43,6 +43,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Characteristic', { header: true }),
             createTableCell('ROKS + OpenShift Virt', { header: true }),
+            createTableCell('OpenShift Virtualization Engine', { header: true }),
             createTableCell('VPC Virtual Servers', { header: true }),
           ],
         }),
@@ -51,6 +52,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Migration Approach', { bold: true }),
             createTableCell('Lift-convert-shift (MTV)'),
+            createTableCell('Lift-convert-shift (MTV)'),
             createTableCell('Lift-convert-shift (Wanclouds VPC+, RackWare RMM, migration provider tools)'),
           ],
         }),
@@ -59,6 +61,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Infrastructure', { bold: true }),
             createTableCell('Bare Metal with local NVMe'),
+            createTableCell('Bare Metal with local NVMe (VM-only cluster)'),
             createTableCell('Multi-tenant virtual servers'),
           ],
         }),
@@ -67,6 +70,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Storage', { bold: true }),
             createTableCell('ODF (Ceph) with 3x replication'),
+            createTableCell('ODF (Ceph) with 3x replication'),
             createTableCell('Block storage volumes'),
           ],
         }),
@@ -75,6 +79,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Modernization Path', { bold: true }),
             createTableCell('Containerization ready'),
+            createTableCell('VM platform only; move to ROKS to run containers'),
             createTableCell('Traditional VM operations'),
           ],
         }),
@@ -83,6 +88,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Operational Model', { bold: true }),
             createTableCell('Kubernetes/GitOps'),
+            createTableCell('Kubernetes/GitOps for VMs'),
             createTableCell('Traditional VM management, Terraform/Ansible'),
           ],
         }),
@@ -91,6 +97,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Best For', { bold: true }),
             createTableCell('Application modernization'),
+            createTableCell('VM estates leaving VMware with no container plans'),
             createTableCell('Quick migration with minimal change'),
           ],
         }),
@@ -99,6 +106,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Backup & Recovery', { bold: true }),
             createTableCell('OADP, Veeam Kasten K10, other third party kubernetes backup solution. IBM Cloud Backup and Recovery (future)'),
+            createTableCell('OADP, Veeam Kasten K10, other third party kubernetes backup solution'),
             createTableCell('IBM Cloud native snapshots, IBM Cloud Backup, IBM Cloud Backup and Recovery, Veeam and other third part agent based solutions'),
           ],
         }),
@@ -107,6 +115,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Disaster Recovery', { bold: true }),
             createTableCell('ODF Regional DR with multi-cluster + RHACM'),
+            createTableCell('ODF Regional DR with multi-cluster + RHACM'),
             createTableCell('IBM Cloud VPC cross-region snapshots, Wanclouds VPC+, RackWare RMM'),
           ],
         }),
@@ -115,6 +124,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Observability', { bold: true }),
             createTableCell('Built-in OpenShift monitoring + IBM Cloud Monitoring & Logging'),
+            createTableCell('Built-in OpenShift monitoring + IBM Cloud Monitoring & Logging'),
             createTableCell('IBM Cloud Monitoring & Logging'),
           ],
         }),
@@ -123,6 +133,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Security Model', { bold: true }),
             createTableCell('OpenShift RBAC + VPC security groups'),
+            createTableCell('OpenShift RBAC + VPC security groups'),
             createTableCell('VPC security groups, firewalls, IAM'),
           ],
         }),
@@ -131,6 +142,7 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Encryption', { bold: true }),
             createTableCell('ODF client-side encryption (per-PV) with Advanced edition; etcd encryption at rest'),
+            createTableCell('ODF client-side encryption (per-PV) with Advanced edition; etcd encryption at rest'),
             createTableCell('IBM Cloud Block Storage encryption at rest (provider-managed or customer-managed keys via Key Protect / HPCS)'),
           ],
         }),
@@ -139,9 +151,19 @@ export function buildMigrationOptions(sectionNum?: number): DocumentContent[] {
           children: [
             createTableCell('Networking', { bold: true }),
             createTableCell('OpenShift OVN SDN + VPC networking'),
+            createTableCell('OpenShift OVN SDN + VPC networking'),
             createTableCell('VPC subnets, security groups, ACLs'),
           ],
         }),
+        new TableRow({
+          cantSplit: true,
+          children: [
+            createTableCell('Licensing', { bold: true }),
+            createTableCell('OpenShift Container Platform per vCPU'),
+            createTableCell('OVE entitlement per vCPU (VMs and supporting infrastructure only)'),
+            createTableCell('Included in VSI profile rate (BYOL for some OS images)'),
+          ],
+        }),
       ],
     }),
     createTableLabel(templates.tableDescriptions.migrationComparison.title),
@@ -166,13 +188,14 @@ function buildDecisionFactorsSection(): DocumentContent[] {
   const TARGET_LABELS: Record<string, string> = {
     vsi: 'VPC VSI',
     roks: 'ROKS',
+    vmware: 'Retain VMware (VCF)',
     dynamic: 'Dynamic (cost)',
   };
 
-  // Group: VSI factors first, then ROKS, then dynamic
+  // Group: VSI factors first, then ROKS, then VMware-retain, then dynamic
   const sortedFactors = [...factorsData.factors].sort((a, b) => {
-    const order: Record<string, number> = { vsi: 0, roks: 1, dynamic: 2 };
-    return (order[a.target] ?? 3) - (order[b.target] ?? 3);
+    const order: Record<string, number> = { vsi: 0, roks: 1, vmware: 2, dynamic: 3 };
+    return (order[a.target] ?? 4) - (order[b.target] ?? 4);
   });
 
   const rows = sortedFactors.map(factor => [
@@ -6,6 +6,7 @@ import reportTemplates from '@/data/reportTemplates.json';
 import { CHECK_DEFINITIONS, type CheckDefinition } from '@/services/preflightChecks';
 import { STYLES, type DocumentContent, type VMReadiness } from '../types';
 import { createHeading, createParagraph, createBulletList, createTableCell, createTableDescription, createTableLabel, createAISection } from '../utils/helpers';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 
 // Type assertion for templates with table/figure descriptions
 const templates = reportTemplates as typeof reportTemplates & {
@@ -256,9 +257,10 @@ export function buildMigrationReadiness(readiness: VMReadiness[], maxIssueVMs: n
   if (aiInsights?.riskAssessment) {
     sections.push(
       ...createAISection(
-        `${s}.${nextSub()} AI Risk Assessment`,
+        `${s}.${nextSub()} ${describeInsightsSource(aiInsights.source).label} Risk Assessment`,
         aiInsights.riskAssessment,
-        HeadingLevel.HEADING_2
+        HeadingLevel.HEADING_2,
+        aiInsights.source
       )
     );
   }
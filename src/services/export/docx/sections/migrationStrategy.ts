@@ -5,9 +5,12 @@ import type { RVToolsData } from '@/types/rvtools';
 import type { MigrationInsights } from '@/services/ai/types';
 import { calculateComplexityScores } from '@/services/migration/migrationAssessment';
 import { buildVMWaveData, createComplexityWaves, createNetworkWaves } from '@/services/migration/wavePlanning';
+import { applyEditableWaves } from '@/services/migration/wavePlanEditing';
+import { planDependencyWaves, DEFAULT_DEPENDENCY_WAVE_CONFIG } from '@/services/migration/dependencyWaves';
 import type { WaveGroup, NetworkWaveGroup } from '@/services/migration/wavePlanning';
 import { STYLES, type DocumentContent, type WavePlanningPreference } from '../types';
 import { createHeading, createParagraph, createBulletList, createTableCell, createAISection } from '../utils/helpers';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 
 export function computeWavesForMode(
   rawData: RVToolsData,
@@ -20,6 +23,13 @@ export function computeWavesForMode(
     vms, complexityScores, rawData.vDisk, rawData.vSnapshot, rawData.vTools, rawData.vNetwork, migrationMode
   );
 
+  const editedWaves = preference.editedWaves?.[migrationMode];
+  if (editedWaves) {
+    return applyEditableWaves(editedWaves, vmWaveData);
+  }
+  if (preference.wavePlanningMode === 'dependency') {
+    return planDependencyWaves(vms, vmWaveData, rawData.vNetwork, preference.dependencyConfig ?? DEFAULT_DEPENDENCY_WAVE_CONFIG).waves;
+  }
   if (preference.wavePlanningMode === 'complexity') {
     return createComplexityWaves(vmWaveData, migrationMode);
   }
@@ -75,6 +85,7 @@ export function buildWaveTable(waves: (WaveGroup | NetworkWaveGroup)[], isComple
 
 export function getStrategyLabel(pref: WavePlanningPreference): string {
   if (pref.wavePlanningMode === 'complexity') return 'Complexity-Based';
+  if (pref.wavePlanningMode === 'dependency') return 'Dependency-Based';
   if (pref.networkGroupBy === 'cluster') return 'Network-Based (Cluster)';
   return 'Network-Based (Port Group)';
 }
@@ -91,7 +102,7 @@ export function buildMigrationStrategy(
   const sections: DocumentContent[] = [
     createHeading(`${s}. Migration Strategy`, HeadingLevel.HEADING_1),
     createParagraph(
-      'This section outlines the migration wave planning approach. Three strategies are available for organizing VM migration waves, each with different trade-offs.',
+      'This section outlines the migration wave planning approach. Four strategies are available for organizing VM migration waves, each with different trade-offs.',
       { spacing: { after: 200 } }
     ),
     createParagraph(
@@ -100,7 +111,7 @@ export function buildMigrationStrategy(
 
     createHeading(`${s}.1 Wave Planning Strategies`, HeadingLevel.HEADING_2),
     createParagraph(
-      'The application supports three wave planning strategies for organizing the migration:',
+      'The application supports four wave planning strategies for organizing the migration:',
       { spacing: { after: 120 } }
     ),
 
@@ -136,6 +147,17 @@ export function buildMigrationStrategy(
       'Pros: Network continuity during migration, predictable wave boundaries, reduced split-brain scenarios.',
       'Cons: May split application tiers across waves if they span multiple subnets.',
     ]),
+
+    createHeading('Dependency-Based', HeadingLevel.HEADING_3),
+    createParagraph(
+      'Builds a VM affinity graph from shared port groups, IP subnets, folders, vApps, annotation application tags and user-declared application groups, then partitions it into waves under maximum VM and storage limits per wave. Connected VMs stay in the same wave whenever they fit; dependencies that had to be split are reported.',
+      { spacing: { after: 80 } }
+    ),
+    ...createBulletList([
+      'Best when: Application tiers span several networks or clusters, and waves must respect a fixed size budget.',
+      'Pros: Keeps tightly coupled application tiers together, evenly sized waves, explicit list of cross-wave dependencies.',
+      'Cons: Quality depends on the affinity signals in the inventory; application groups may need to be declared manually.',
+    ]),
   ];
 
   sections.push(createHeading(`${s}.2 Selected Strategy`, HeadingLevel.HEADING_2));
@@ -175,9 +197,10 @@ export function buildMigrationStrategy(
   if (aiInsights?.migrationStrategy) {
     sections.push(
       ...createAISection(
-        `${s}.4 AI Migration Strategy`,
+        `${s}.4 ${describeInsightsSource(aiInsights.source).label} Migration Strategy`,
         aiInsights.migrationStrategy,
-        HeadingLevel.HEADING_2
+        HeadingLevel.HEADING_2,
+        aiInsights.source
       )
     );
   }
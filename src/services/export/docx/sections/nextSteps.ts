@@ -5,6 +5,7 @@ import type { MigrationInsights } from '@/services/ai/types';
 import reportTemplates from '@/data/reportTemplates.json';
 import { type DocumentContent, type DocxExportOptions } from '../types';
 import { createHeading, createParagraph, createBulletList, createAISection, createDocLink } from '../utils/helpers';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 import { DOC_LINKS } from '../utils/docLinks';
 
 // Map phase names to relevant doc links
@@ -53,9 +54,10 @@ export function buildNextSteps(options: Required<Omit<DocxExportOptions, 'filter
   if (aiInsights?.recommendations && aiInsights.recommendations.length > 0) {
     sections.push(
       ...createAISection(
-        `${s}.${templates.steps.length + 1} AI Recommendations`,
+        `${s}.${templates.steps.length + 1} ${describeInsightsSource(aiInsights.source).label} Recommendations`,
         aiInsights.recommendations,
-        HeadingLevel.HEADING_2
+        HeadingLevel.HEADING_2,
+        aiInsights.source
       )
     );
   }
@@ -23,6 +23,7 @@ const VARIANT_LABELS: Record<string, string> = {
 const TARGET_LABELS: Record<string, string> = {
   vsi: 'VSI',
   roks: 'ROKS',
+  vmware: 'Retain VMware (VCF)',
   dynamic: 'Dynamic',
   powervs: 'PowerVS',
 };
@@ -71,12 +72,13 @@ function buildQuestionnaireResults(data: PlatformSelectionExport, s: number): Do
   const totalFactors = factorsData.factors.length;
   const vsiFactorCount = factorsData.factors.filter(f => f.target === 'vsi').length;
   const roksFactorCount = factorsData.factors.filter(f => f.target === 'roks').length;
+  const vmwareFactorCount = factorsData.factors.filter(f => f.target === 'vmware').length;
 
   const elements: DocumentContent[] = [
     createHeading(`${s}.1 Questionnaire Results`, HeadingLevel.HEADING_2),
     createParagraph(
       'The platform selection questionnaire captures the client\'s requirements, constraints, and preferences ' +
-      'across key decision factors. Each factor favours either ROKS or VSI.'
+      'across key decision factors. Each factor favours ROKS, VSI or retaining VMware on IBM Cloud.'
     ),
   ];
 
@@ -84,6 +86,7 @@ function buildQuestionnaireResults(data: PlatformSelectionExport, s: number): Do
   const summaryRows = [
     ['VSI factors (Yes)', `${score.vsiCount} of ${vsiFactorCount}`],
     ['ROKS factors (Yes)', `${score.roksCount} of ${roksFactorCount}`],
+    ['Retain VMware factors (Yes)', `${score.vmwareCount} of ${vmwareFactorCount}`],
     ['Total answered', `${score.answeredCount} of ${totalFactors}`],
     ['Leaning', LEANING_LABELS[score.leaning] ?? score.leaning],
     ['ROKS Variant', VARIANT_LABELS[score.roksVariant] ?? 'Full'],
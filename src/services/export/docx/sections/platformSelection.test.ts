@@ -53,6 +53,7 @@ function makeData(answers: Record<string, string>, overrides?: Partial<PlatformS
     score: {
       vsiCount: 0,
       roksCount: 0,
+      vmwareCount: 0,
       answeredCount: Object.keys(answers).length,
       leaning: 'neutral',
       roksVariant: 'full',
@@ -19,6 +19,7 @@ const VARIANT_LABELS: Record<string, string> = {
 const TARGET_LABELS: Record<string, string> = {
   vsi: 'VSI',
   roks: 'ROKS',
+  vmware: 'Retain VMware (VCF)',
   dynamic: 'Dynamic',
 };
 
@@ -34,6 +35,7 @@ export function buildPlatformSelectionSection(data: PlatformSelectionExport, sec
   const totalFactors = factorsData.factors.length;
   const vsiFactorCount = factorsData.factors.filter(f => f.target === 'vsi').length;
   const roksFactorCount = factorsData.factors.filter(f => f.target === 'roks').length;
+  const vmwareFactorCount = factorsData.factors.filter(f => f.target === 'vmware').length;
   const s = sectionNum != null ? sectionNum : null;
 
   const sections: DocumentContent[] = [
@@ -48,6 +50,7 @@ export function buildPlatformSelectionSection(data: PlatformSelectionExport, sec
   const summaryRows = [
     ['VSI factors (Yes)', `${score.vsiCount} of ${vsiFactorCount}`],
     ['ROKS factors (Yes)', `${score.roksCount} of ${roksFactorCount}`],
+    ['Retain VMware factors (Yes)', `${score.vmwareCount} of ${vmwareFactorCount}`],
     ['Total answered', `${score.answeredCount} of ${totalFactors}`],
     ['Leaning', LEANING_LABELS[score.leaning] ?? score.leaning],
     ['ROKS Variant', VARIANT_LABELS[score.roksVariant] ?? 'Full'],
@@ -185,7 +185,7 @@ export function buildROKSOverview(
   let subNum = 7;
   if (rawData && wavePlanningPreference) {
     const roksWaves = computeWavesForMode(rawData, 'roks', wavePlanningPreference);
-    const isComplexity = wavePlanningPreference.wavePlanningMode === 'complexity';
+    const isComplexity = wavePlanningPreference.wavePlanningMode !== 'network';
     sections.push(
       createHeading(`${s}.${subNum} ROKS Wave Summary`, HeadingLevel.HEADING_2),
       createParagraph(
@@ -0,0 +1,109 @@
+// Retain VMware (VCF on IBM Cloud) DOCX Section
+
+import { Paragraph, PageBreak, HeadingLevel, AlignmentType } from 'docx';
+import { formatCurrency } from '@/services/costEstimation';
+import { VMWARE_RETAIN_BLOCKER_THRESHOLD } from '@/services/migration/targetClassification';
+import type { VMwareRetainExport, DocumentContent } from '../types';
+import { createHeading, createParagraph, createStyledTable, createTableDescription, createTableLabel, createBulletList } from '../utils/helpers';
+
+const LIMITING_FACTOR_LABELS = {
+  cpu: 'CPU',
+  memory: 'Memory',
+  storage: 'vSAN capacity',
+  minimum: 'vSAN minimum',
+} as const;
+
+export function buildVMwareRetainSection(
+  retain: VMwareRetainExport,
+  sectionNum?: number,
+): DocumentContent[] {
+  const s = sectionNum != null ? sectionNum : 13;
+  const { sizing, estimate, blockers } = retain;
+  const profile = sizing.hostProfile;
+
+  const sections: DocumentContent[] = [
+    createHeading(`${s}. Retain VMware on IBM Cloud`, HeadingLevel.HEADING_1),
+    createParagraph(
+      'Retaining VMware moves the estate as-is onto VMware Cloud Foundation (VCF) running on IBM Cloud classic bare metal. ' +
+      'VMs keep their vSphere format, tools and operating model, so no re-platforming or guest remediation is required. ' +
+      'It is the lowest-risk exit from on-premises infrastructure, at the cost of continued VMware subscriptions.'
+    ),
+  ];
+
+  // Pre-flight blockers
+  const blockerText = blockers.blockedVMs > 0
+    ? `${blockers.blockedVMs} of ${blockers.totalVMs} VMs (${blockers.blockedPercentage}%) have a pre-flight blocker on both ROKS and VSI and cannot move to a cloud-native target without remediation.`
+    : 'No VMs are blocked on both ROKS and VSI.';
+  sections.push(
+    createHeading(`${s}.1 Why Retain`, HeadingLevel.HEADING_2),
+    createParagraph(blockerText),
+    createParagraph(
+      blockers.blockedPercentage >= VMWARE_RETAIN_BLOCKER_THRESHOLD
+        ? `At or above ${VMWARE_RETAIN_BLOCKER_THRESHOLD}% blocked, retaining VMware is the recommended first step: migrate to VCF on IBM Cloud now and re-platform workloads to ROKS or VSI as their blockers are remediated.`
+        : `Below ${VMWARE_RETAIN_BLOCKER_THRESHOLD}% blocked, re-platforming to ROKS or VSI is generally preferred; retaining VMware remains an option for workloads tied to vendor certification, NSX or VMware tooling.`
+    ),
+  );
+
+  // Host sizing
+  const clusterRows = sizing.clusters.map(c => [
+    c.cluster,
+    `${c.sourceHosts}`,
+    `${c.vmCount}`,
+    `${c.vcpus}`,
+    `${c.memoryGiB.toLocaleString()}`,
+    `${c.observedRatio}:1`,
+    `${c.consolidationRatio}:1`,
+    `${c.hosts}`,
+    LIMITING_FACTOR_LABELS[c.limitingFactor],
+  ]);
+  sections.push(
+    createHeading(`${s}.2 Host Sizing`, HeadingLevel.HEADING_2),
+    createParagraph(
+      `Each source vSphere cluster is rebuilt on ${profile.name} hosts (${profile.cpuSockets} × ${profile.coresPerSocket} cores, ` +
+      `${profile.memoryGiB} GiB memory, ${profile.vsanRawTiB} TiB raw vSAN). Host counts cover the larger of the CPU, memory and vSAN capacity ` +
+      'needs at the utilisation ceiling, plus HA spare hosts.'
+    ),
+    ...createTableDescription(
+      'VCF Cluster Sizing',
+      'Target hosts per source cluster. The sized ratio is the vCPU:pCore consolidation ratio the target hosts are sized for.'
+    ),
+    createStyledTable(
+      ['Cluster', 'Source Hosts', 'VMs', 'vCPUs', 'Memory (GiB)', 'Observed Ratio', 'Sized Ratio', 'Target Hosts', 'Limited By'],
+      clusterRows,
+      { columnAligns: [AlignmentType.LEFT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.RIGHT, AlignmentType.LEFT] }
+    ),
+    createTableLabel('VCF Cluster Sizing'),
+    ...createBulletList([
+      `${sizing.totalHosts} target hosts replace ${sizing.sourceHosts} source hosts`,
+      `${sizing.totalCores.toLocaleString()} physical cores, ${sizing.licensedCores.toLocaleString()} licensed for vSphere and vSAN`,
+    ]),
+  );
+
+  // Cost
+  if (estimate) {
+    sections.push(
+      createHeading(`${s}.3 Cost Estimate`, HeadingLevel.HEADING_2),
+      ...createTableDescription(
+        'VCF on IBM Cloud Cost',
+        `Monthly cost for ${estimate.regionName}, including classic bare metal hosts and per-core VMware subscriptions.`
+      ),
+      createStyledTable(
+        ['Item', 'Quantity', 'Unit', 'Monthly Cost'],
+        [
+          ...estimate.lineItems.map(item => [
+            item.description,
+            `${item.quantity.toLocaleString()}`,
+            item.unit,
+            formatCurrency(item.monthlyCost),
+          ]),
+          ['Total', '', '', formatCurrency(estimate.totalMonthly)],
+        ],
+        { columnAligns: [AlignmentType.LEFT, AlignmentType.RIGHT, AlignmentType.LEFT, AlignmentType.RIGHT] }
+      ),
+      createTableLabel('VCF on IBM Cloud Cost'),
+    );
+  }
+
+  sections.push(new Paragraph({ children: [new PageBreak()] }));
+  return sections;
+}
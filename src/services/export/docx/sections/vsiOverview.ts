@@ -275,7 +275,7 @@ export function buildVSIOverview(
   // VSI Wave Summary (moved from strategy)
   if (rawData && wavePlanningPreference) {
     const vsiWaves = computeWavesForMode(rawData, 'vsi', wavePlanningPreference);
-    const isComplexity = wavePlanningPreference.wavePlanningMode === 'complexity';
+    const isComplexity = wavePlanningPreference.wavePlanningMode !== 'network';
     sections.push(
       createHeading(`${s}.${subNum} VSI Wave Summary`, HeadingLevel.HEADING_2),
       createParagraph(
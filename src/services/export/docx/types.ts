@@ -3,6 +3,8 @@
 import { Paragraph, Table, AlignmentType, HeadingLevel } from 'docx';
 import type { MigrationInsights } from '@/services/ai/types';
 import type { CostEstimate } from '@/services/costEstimation';
+import type { TCOProjection } from '@/services/tcoProjection';
+import type { VMwareRetainSizing, CloudBlockerSummary } from '@/services/migration/vmwareRetainSizing';
 import type { RVToolsData } from '@/types/rvtools';
 import type { RiskTableData, RiskTableOverrides } from '@/types/riskAssessment';
 import type { TimelinePhase, TimelineConfig } from '@/types/timeline';
@@ -13,6 +15,8 @@ import { buildRiskTable } from '@/services/riskAssessment';
 import { buildDefaultTimeline } from '@/services/migration/timelineEstimation';
 import { calculateComplexityScores } from '@/services/migration/migrationAssessment';
 import { buildVMWaveData, createComplexityWaves, createNetworkWaves } from '@/services/migration/wavePlanning';
+import { applyEditableWaves, getWavePlanKey, type EditableWave } from '@/services/migration/wavePlanEditing';
+import { planDependencyWaves, DEFAULT_DEPENDENCY_WAVE_CONFIG, type DependencyWaveConfig } from '@/services/migration/dependencyWaves';
 import { buildVPCDesign } from '@/services/network/vpcDesignService';
 import { getCachedBOM } from '@/services/bomCache';
 import { getEnvironmentFingerprint, fingerprintsMatch, getVMIdentifier } from '@/utils/vmIdentifier';
@@ -32,9 +36,15 @@ export interface PlatformSelectionExport {
   vsiMonthlyCost?: number | null;
 }
 
+export type EditedWavePlans = Partial<Record<'roks' | 'vsi', EditableWave[]>>;
+
 export interface WavePlanningPreference {
-  wavePlanningMode: 'complexity' | 'network';
+  wavePlanningMode: 'complexity' | 'network' | 'dependency';
   networkGroupBy: 'cluster' | 'portGroup';
+  /** User-edited plans for this strategy by migration target; each replaces that target's generated waves */
+  editedWaves?: EditedWavePlans | null;
+  /** Wave caps and application groups for dependency-based planning */
+  dependencyConfig?: DependencyWaveConfig | null;
 }
 
 export interface DocxExportOptions {
@@ -62,6 +72,16 @@ export interface DocxExportOptions {
   roksCostEstimate?: CostEstimate | null;
   /** Cached VSI cost estimate from BOM cache — full platform costs matching the UI */
   vsiCostEstimate?: CostEstimate | null;
+  /** Multi-year TCO projection of the ROKS and VSI estimates against the VMware status quo */
+  tcoProjection?: TCOProjection | null;
+  /** VCF on IBM Cloud host sizing and cost for the retain-VMware option */
+  vmwareRetain?: VMwareRetainExport | null;
+}
+
+export interface VMwareRetainExport {
+  sizing: VMwareRetainSizing;
+  estimate: CostEstimate | null;
+  blockers: CloudBlockerSummary;
 }
 
 export interface TargetAssignmentExport {
@@ -218,6 +238,7 @@ function computePlatformScore(
 ): PlatformSelectionScore {
   let vsiCount = 0;
   let roksCount = 0;
+  let vmwareCount = 0;
   let answeredCount = 0;
   let costLeaning: 'vsi' | 'roks' | null = null;
 
@@ -236,6 +257,8 @@ function computePlatformScore(
         vsiCount++;
       } else if (factor.target === 'roks') {
         roksCount++;
+      } else if (factor.target === 'vmware') {
+        vmwareCount++;
       } else if (factor.target === 'dynamic' && (factor as { dynamicResolver?: string }).dynamicResolver === 'cost') {
         if (costLeaning === 'vsi') vsiCount++;
         else if (costLeaning === 'roks') roksCount++;
@@ -263,7 +286,7 @@ function computePlatformScore(
     }
   }
 
-  return { vsiCount, roksCount, answeredCount, leaning, costLeaning, roksVariant };
+  return { vsiCount, roksCount, vmwareCount, answeredCount, leaning, costLeaning, roksVariant };
 }
 
 /**
@@ -337,7 +360,7 @@ export function getTimelineExport(rawData: RVToolsData): { phases: TimelinePhase
     if (parsed.environmentFingerprint && !fingerprintsMatch(parsed.environmentFingerprint, fp)) return null;
 
     // Compute wave data from raw data for accurate VM counts and storage sizes
-    const wavePref = getWavePlanningPreference();
+    const wavePref = getWavePlanningPreference(rawData);
     let waveVmCounts: number[] | undefined;
     let waveNames: string[] | undefined;
     let waveStorageGiB: number[] | undefined;
@@ -351,9 +374,13 @@ export function getTimelineExport(rawData: RVToolsData): { phases: TimelinePhase
         vms, complexityScores, rawData.vDisk, rawData.vSnapshot, rawData.vTools, rawData.vNetwork, 'roks'
       );
 
-      const waves = wavePref.wavePlanningMode === 'complexity'
-        ? createComplexityWaves(vmWaveData, 'roks')
-        : createNetworkWaves(vmWaveData, wavePref.networkGroupBy);
+      const waves = wavePref.editedWaves?.roks
+        ? applyEditableWaves(wavePref.editedWaves.roks, vmWaveData)
+        : wavePref.wavePlanningMode === 'complexity'
+          ? createComplexityWaves(vmWaveData, 'roks')
+          : wavePref.wavePlanningMode === 'dependency'
+            ? planDependencyWaves(vms, vmWaveData, rawData.vNetwork, wavePref.dependencyConfig ?? DEFAULT_DEPENDENCY_WAVE_CONFIG).waves
+            : createNetworkWaves(vmWaveData, wavePref.networkGroupBy);
 
       // First wave becomes pilot, remaining become production waves
       waveVmCounts = waves.map(w => w.vmCount);
@@ -412,26 +439,83 @@ export function getVPCDesignExport(rawData: RVToolsData): VPCDesign | null {
 
 /**
  * Read wave planning preference from localStorage.
+ * When rawData is given, the edited wave plan for the selected strategy is
+ * attached if one was saved for the current environment.
  * Returns null if not set or invalid.
  */
-export function getWavePlanningPreference(): WavePlanningPreference | null {
+export function getWavePlanningPreference(rawData?: RVToolsData): WavePlanningPreference | null {
   try {
     const stored = localStorage.getItem('vcf-wave-planning-mode');
     if (!stored) return null;
     const parsed = JSON.parse(stored);
     if (
-      (parsed.wavePlanningMode === 'complexity' || parsed.wavePlanningMode === 'network') &&
+      (parsed.wavePlanningMode === 'complexity' || parsed.wavePlanningMode === 'network' || parsed.wavePlanningMode === 'dependency') &&
       (parsed.networkGroupBy === 'cluster' || parsed.networkGroupBy === 'portGroup')
     ) {
       return {
         wavePlanningMode: parsed.wavePlanningMode,
         networkGroupBy: parsed.networkGroupBy,
+        editedWaves: rawData ? getEditedWavePlans(rawData, parsed.wavePlanningMode, parsed.networkGroupBy) : null,
+        dependencyConfig: rawData ? getDependencyWaveConfig(rawData) : null,
       };
     }
   } catch { /* ignore */ }
   return null;
 }
 
+/**
+ * Read dependency-based wave planning settings from localStorage.
+ * Returns null if unconfigured for the current environment.
+ */
+function getDependencyWaveConfig(rawData: RVToolsData): DependencyWaveConfig | null {
+  try {
+    const stored = localStorage.getItem('vcf-dependency-waves');
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (!parsed?.version || !Array.isArray(parsed.applicationGroups)) return null;
+
+    // Fingerprint check
+    const fp = getEnvironmentFingerprint(rawData);
+    if (parsed.environmentFingerprint && !fingerprintsMatch(parsed.environmentFingerprint, fp)) return null;
+
+    return {
+      maxVMsPerWave: parsed.maxVMsPerWave,
+      maxTiBPerWave: parsed.maxTiBPerWave,
+      applicationGroups: parsed.applicationGroups,
+    };
+  } catch { /* ignore */ }
+  return null;
+}
+
+/**
+ * Read the edited ROKS and VSI wave plans for a strategy from localStorage.
+ * Returns null if neither was edited for the current environment.
+ */
+function getEditedWavePlans(
+  rawData: RVToolsData,
+  wavePlanningMode: WavePlanningPreference['wavePlanningMode'],
+  networkGroupBy: WavePlanningPreference['networkGroupBy']
+): EditedWavePlans | null {
+  try {
+    const stored = localStorage.getItem('vcf-wave-plans');
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (!parsed?.version || !parsed.plans) return null;
+
+    // Fingerprint check
+    const fp = getEnvironmentFingerprint(rawData);
+    if (parsed.environmentFingerprint && !fingerprintsMatch(parsed.environmentFingerprint, fp)) return null;
+
+    const plans: EditedWavePlans = {};
+    for (const mode of ['roks', 'vsi'] as const) {
+      const plan = parsed.plans[getWavePlanKey(mode, wavePlanningMode, networkGroupBy)];
+      if (Array.isArray(plan)) plans[mode] = plan as EditableWave[];
+    }
+    return plans.roks || plans.vsi ? plans : null;
+  } catch { /* ignore */ }
+  return null;
+}
+
 /**
  * Read target assignments from localStorage and compute auto-classifications.
  * Merges user overrides with auto-classification results.
@@ -6,6 +6,8 @@ import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 import { runPreFlightChecks, CHECK_DEFINITIONS } from '@/services/preflightChecks';
 import type { CheckMode } from '@/services/preflightChecks';
 import { mapVMToVSIProfile, getProfileFamilyFromName } from '@/services/migration/vsiProfileMapping';
+import { convertFromBase } from '@/services/costEstimation';
+import { getActiveCurrency } from '@/services/pricing/currency';
 import type { VMReadiness, ROKSSizing, VSIMapping } from '../types';
 import { BOOT_DISK_SIZE_GIB, BOOT_STORAGE_COST_PER_GB, DATA_STORAGE_COST_PER_GB } from '../types';
 
@@ -130,7 +132,7 @@ export function calculateROKSSizing(rawData: RVToolsData): ROKSSizing {
   const odfUsableTiB =
     ((totalClusterNvmeGiB / replicaFactor) * operationalCapacity * cephEfficiency) / 1024;
 
-  const monthlyCost = recommendedWorkers * (recommendedProfile.monthlyRate || 0);
+  const monthlyCost = convertFromBase(recommendedWorkers * (recommendedProfile.monthlyRate || 0));
 
   return {
     workerNodes: recommendedWorkers,
@@ -150,17 +152,20 @@ export function calculateVSIMappings(rawData: RVToolsData): VSIMapping[] {
     (vm: VirtualMachine) => vm.powerState === 'poweredOn' && !vm.template
   );
 
+  // List prices are in USD; costs are reported in the active quote currency
+  const currency = getActiveCurrency();
+
   return poweredOnVMs.map((vm: VirtualMachine) => {
     const memGiB = mibToGiB(vm.memory);
     const totalStorageGiB = mibToGiB(vm.inUseMiB || vm.provisionedMiB);
     const profile = mapVMToVSIProfile(vm.cpus, memGiB);
-    const computeCost = profile.monthlyRate;
+    const computeCost = convertFromBase(profile.monthlyRate, currency);
 
     const bootDiskGiB = Math.min(BOOT_DISK_SIZE_GIB, Math.max(10, totalStorageGiB * 0.2));
-    const bootStorageCost = bootDiskGiB * BOOT_STORAGE_COST_PER_GB;
+    const bootStorageCost = convertFromBase(bootDiskGiB * BOOT_STORAGE_COST_PER_GB, currency);
 
     const dataDiskGiB = Math.max(0, totalStorageGiB - bootDiskGiB);
-    const dataStorageCost = dataDiskGiB * DATA_STORAGE_COST_PER_GB;
+    const dataStorageCost = convertFromBase(dataDiskGiB * DATA_STORAGE_COST_PER_GB, currency);
 
     const storageCost = bootStorageCost + dataStorageCost;
 
@@ -1,6 +1,7 @@
 // DOCX Chart Generation Functions
 
 import { Paragraph, ImageRun, AlignmentType } from 'docx';
+import { getActiveCurrency } from '@/services/pricing/currency';
 import { CHART_COLORS, FONT_FAMILY, type ChartData } from '../types';
 
 // High-DPI scale factor for crisp charts (3x for retina quality)
@@ -119,6 +120,134 @@ export async function generatePieChart(
   });
 }
 
+export interface LineChartSeries {
+  label: string;
+  values: number[];
+  color: string;
+  dashed?: boolean;
+}
+
+function formatAxisCurrency(value: number, symbol: string): string {
+  if (Math.abs(value) >= 1_000_000) return `${symbol}${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `${symbol}${Math.round(value / 1_000)}k`;
+  return `${symbol}${Math.round(value)}`;
+}
+
+export async function generateLineChart(
+  series: LineChartSeries[],
+  title: string,
+  xLabels: string[],
+  width: number = 560,
+  height: number = 300
+): Promise<Uint8Array> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width * CHART_SCALE;
+  canvas.height = height * CHART_SCALE;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  ctx.scale(CHART_SCALE, CHART_SCALE);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // White background
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  // Draw title with IBM Blue underline
+  ctx.font = `bold 13px ${FONT_FAMILY}, Arial, sans-serif`;
+  ctx.fillStyle = '#161616';
+  ctx.textAlign = 'left';
+  ctx.fillText(title, 20, 22);
+
+  ctx.strokeStyle = '#0f62fe';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(20, 28);
+  ctx.lineTo(20 + ctx.measureText(title).width, 28);
+  ctx.stroke();
+
+  // Plot area: y-axis labels on the left, legend along the bottom
+  const plotLeft = 70;
+  const plotRight = width - 20;
+  const plotTop = 44;
+  const plotBottom = height - 60;
+  const pointCount = Math.max(...series.map(s => s.values.length), 1);
+  const maxValue = Math.max(...series.flatMap(s => s.values), 1);
+  const x = (i: number) => plotLeft + (pointCount > 1 ? (i / (pointCount - 1)) * (plotRight - plotLeft) : 0);
+  const y = (v: number) => plotBottom - (v / maxValue) * (plotBottom - plotTop);
+
+  // Gridlines and y-axis labels
+  ctx.font = `10px ${FONT_FAMILY}, Arial, sans-serif`;
+  ctx.textBaseline = 'middle';
+  const { symbol } = getActiveCurrency();
+  for (let i = 0; i <= 4; i++) {
+    const value = (maxValue * i) / 4;
+    ctx.strokeStyle = '#e0e0e0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(plotLeft, y(value));
+    ctx.lineTo(plotRight, y(value));
+    ctx.stroke();
+    ctx.fillStyle = '#525252';
+    ctx.textAlign = 'right';
+    ctx.fillText(formatAxisCurrency(value, symbol), plotLeft - 6, y(value));
+  }
+
+  // X-axis labels (skip labels to avoid overlap)
+  const labelStep = Math.max(1, Math.ceil(xLabels.length / 12));
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  xLabels.forEach((label, i) => {
+    if (i % labelStep === 0 || i === xLabels.length - 1) {
+      ctx.fillText(label, x(i), plotBottom + 6);
+    }
+  });
+
+  // Series lines
+  series.forEach(s => {
+    ctx.strokeStyle = s.color;
+    ctx.lineWidth = 2;
+    ctx.setLineDash(s.dashed ? [6, 4] : []);
+    ctx.beginPath();
+    s.values.forEach((v, i) => {
+      if (i === 0) ctx.moveTo(x(i), y(v));
+      else ctx.lineTo(x(i), y(v));
+    });
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  // Legend
+  let legendX = plotLeft;
+  const legendY = height - 22;
+  ctx.font = `11px ${FONT_FAMILY}, Arial, sans-serif`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  series.forEach(s => {
+    ctx.fillStyle = s.color;
+    ctx.fillRect(legendX, legendY - 5, 12, 12);
+    ctx.fillStyle = '#525252';
+    ctx.fillText(s.label, legendX + 18, legendY + 1);
+    legendX += 18 + ctx.measureText(s.label).width + 24;
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        blob.arrayBuffer().then((buffer) => {
+          resolve(new Uint8Array(buffer));
+        });
+      } else {
+        reject(new Error('Failed to create blob from canvas'));
+      }
+    }, 'image/png');
+  });
+}
+
 export function createChartParagraph(imageData: Uint8Array, width: number, height: number): Paragraph {
   return new Paragraph({
     alignment: AlignmentType.CENTER,
@@ -16,6 +16,8 @@ import {
 } from 'docx';
 import type { ITableCellOptions } from 'docx';
 import { STYLES, FONT_FAMILY, type DocumentContent } from '../types';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
+import type { AISource } from '@/services/ai/types';
 
 // ===== RICH DESCRIPTION PARSER =====
 
@@ -508,14 +510,14 @@ export function createDocLink(description: string, linkText: string, url: string
 // ===== AI CONTENT HELPERS =====
 
 /**
- * Create an AI disclaimer paragraph (italic purple text)
+ * Create an AI disclaimer paragraph (italic purple text), worded for the content source
  */
-export function createAIDisclaimer(): Paragraph {
+export function createAIDisclaimer(source: AISource = 'watsonx'): Paragraph {
   return new Paragraph({
     spacing: { before: 120, after: 120 },
     children: [
       new TextRun({
-        text: 'The following content was generated by AI (IBM watsonx.ai) and should be reviewed for accuracy.',
+        text: describeInsightsSource(source).disclaimer,
         italics: true,
         size: STYLES.smallSize,
         color: STYLES.purpleColor,
@@ -532,12 +534,13 @@ export function createAIDisclaimer(): Paragraph {
 export function createAISection(
   title: string,
   content: string | string[],
-  headingLevel: (typeof HeadingLevel)[keyof typeof HeadingLevel] = HeadingLevel.HEADING_2
+  headingLevel: (typeof HeadingLevel)[keyof typeof HeadingLevel] = HeadingLevel.HEADING_2,
+  source: AISource = 'watsonx'
 ): DocumentContent[] {
   const elements: DocumentContent[] = [
     new Paragraph({ spacing: { before: 240 } }),
     createHeading(title, headingLevel),
-    createAIDisclaimer(),
+    createAIDisclaimer(source),
   ];
 
   if (Array.isArray(content)) {
@@ -2,6 +2,7 @@
 import * as XLSX from 'xlsx';
 import type { RVToolsData, VirtualMachine, VHostInfo, VDatastoreInfo, VSnapshotInfo, VCDInfo, VDiskInfo, VNetworkInfo, VToolsInfo } from '@/types/rvtools';
 import type { MigrationInsights } from '@/services/ai/types';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 import { mibToGiB, formatHardwareVersion, getHardwareVersionNumber } from '@/utils/formatters';
 import { HW_VERSION_MINIMUM, HW_VERSION_RECOMMENDED, SNAPSHOT_BLOCKER_AGE_DAYS } from '@/utils/constants';
 import { isVMwareInfrastructureVM } from '@/utils/autoExclusion';
@@ -9,6 +10,8 @@ import osCompatibilityData from '@/data/redhatOSCompatibility.json';
 import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 import type { VMCheckResults, CheckMode } from '@/services/preflightChecks';
 import { getChecksForMode } from '@/services/preflightChecks';
+import { getDeltaChangeRows, getStalePlanningRows, type EnvironmentDelta } from '@/services/environmentDelta';
+import { AFFINITY_SOURCE_LABELS, type CutDependency } from '@/services/migration/dependencyWaves';
 
 // OS Compatibility lookup
 function getOSCompatibility(guestOS: string) {
@@ -295,9 +298,10 @@ export function generateExcelReport(rawData: RVToolsData, aiInsights?: Migration
 
   // ===== AI Recommendations Sheet (if AI insights available) =====
   if (aiInsights) {
+    const { label, title, disclaimer } = describeInsightsSource(aiInsights.source);
     const aiData: (string | number)[][] = [
-      ['AI-Generated Recommendations', ''],
-      ['Generated by IBM watsonx.ai — review for accuracy', ''],
+      [`${title} Recommendations`, ''],
+      [disclaimer, ''],
       [''],
       ['Executive Summary', ''],
       [aiInsights.executiveSummary, ''],
@@ -316,7 +320,7 @@ export function generateExcelReport(rawData: RVToolsData, aiInsights?: Migration
     ];
     const aiSheet = XLSX.utils.aoa_to_sheet(aiData);
     aiSheet['!cols'] = [{ wch: 80 }, { wch: 20 }];
-    XLSX.utils.book_append_sheet(workbook, aiSheet, 'AI Recommendations');
+    XLSX.utils.book_append_sheet(workbook, aiSheet, `${label} Recommendations`);
   }
 
   return workbook;
@@ -498,9 +502,10 @@ export interface WaveGroup {
  */
 export function downloadWavePlanningExcel(
   waves: WaveGroup[],
-  planningMode: 'network' | 'complexity',
+  planningMode: 'network' | 'complexity' | 'dependency',
   groupBy?: string,
-  filename?: string
+  filename?: string,
+  cutDependencies?: CutDependency[]
 ): void {
   const workbook = XLSX.utils.book_new();
 
@@ -514,7 +519,8 @@ export function downloadWavePlanningExcel(
   const summaryData = [
     ['Migration Wave Planning Report', ''],
     ['Generated', new Date().toLocaleString()],
-    ['Planning Mode', planningMode === 'network' ? `Network-Based (${groupBy || 'cluster'})` : 'Complexity-Based'],
+    ['Planning Mode', planningMode === 'network' ? `Network-Based (${groupBy || 'cluster'})`
+      : planningMode === 'dependency' ? 'Dependency-Based' : 'Complexity-Based'],
     [''],
     ['Summary', ''],
     ['Total Waves/Groups', waves.length],
@@ -530,7 +536,7 @@ export function downloadWavePlanningExcel(
   // Add wave summary rows
   waves.forEach((wave, idx) => {
     summaryData.push([
-      `${planningMode === 'complexity' ? 'Wave' : 'Group'} ${idx + 1}: ${wave.name}`,
+      `${planningMode === 'network' ? 'Group' : 'Wave'} ${idx + 1}: ${wave.name}`,
       `${wave.vmCount} VMs, ${wave.vcpus} vCPUs, ${wave.memoryGiB} GiB RAM${wave.hasBlockers ? ' (BLOCKERS)' : ''}`
     ]);
   });
@@ -541,7 +547,7 @@ export function downloadWavePlanningExcel(
 
   // ===== Wave Details Sheet =====
   const waveDetails = waves.map((wave, idx) => ({
-    'Wave/Group': `${planningMode === 'complexity' ? 'Wave' : 'Group'} ${idx + 1}`,
+    'Wave/Group': `${planningMode === 'network' ? 'Group' : 'Wave'} ${idx + 1}`,
     'Name': wave.name,
     'Description': wave.description,
     'VM Count': wave.vmCount,
@@ -562,7 +568,7 @@ export function downloadWavePlanningExcel(
   waves.forEach((wave, waveIdx) => {
     wave.vms.forEach(vm => {
       allVMs.push({
-        'Wave/Group': `${planningMode === 'complexity' ? 'Wave' : 'Group'} ${waveIdx + 1}`,
+        'Wave/Group': `${planningMode === 'network' ? 'Group' : 'Wave'} ${waveIdx + 1}`,
         'Wave Name': wave.name,
         'VM Name': vm.vmName,
         'Complexity Score': vm.complexity,
@@ -587,7 +593,7 @@ export function downloadWavePlanningExcel(
 
   // ===== Individual Wave Sheets (for each wave) =====
   waves.forEach((wave, idx) => {
-    const sheetName = `${planningMode === 'complexity' ? 'Wave' : 'Group'} ${idx + 1}`.substring(0, 31);
+    const sheetName = `${planningMode === 'network' ? 'Group' : 'Wave'} ${idx + 1}`.substring(0, 31);
     const waveVMs = wave.vms.map(vm => ({
       'VM Name': vm.vmName,
       'Complexity': vm.complexity,
@@ -609,8 +615,98 @@ export function downloadWavePlanningExcel(
     XLSX.utils.book_append_sheet(workbook, waveVMSheet, sheetName);
   });
 
+  // ===== Cut Dependencies Sheet (dependency-based planning) =====
+  if (cutDependencies && cutDependencies.length > 0) {
+    const cutRows = cutDependencies.map(cut => ({
+      'Affinity': AFFINITY_SOURCE_LABELS[cut.source],
+      'Name': cut.key,
+      'VM Count': cut.vmCount,
+      'Split Across': cut.waveNames.join(', '),
+    }));
+    const cutSheet = XLSX.utils.json_to_sheet(cutRows);
+    cutSheet['!cols'] = [{ wch: 18 }, { wch: 35 }, { wch: 10 }, { wch: 40 }];
+    XLSX.utils.book_append_sheet(workbook, cutSheet, 'Cut Dependencies');
+  }
+
   // Download the file
-  const modeLabel = planningMode === 'network' ? `network-${groupBy || 'cluster'}` : 'complexity';
+  const modeLabel = planningMode === 'network' ? `network-${groupBy || 'cluster'}` : planningMode;
   const defaultFilename = `wave-planning-${modeLabel}-${new Date().toISOString().split('T')[0]}.xlsx`;
   XLSX.writeFile(workbook, filename || defaultFilename);
 }
+
+// ===== Environment Delta Export =====
+
+/**
+ * Build a workbook describing the changes between two RVTools snapshots
+ */
+export function generateEnvironmentDeltaWorkbook(delta: EnvironmentDelta): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new();
+  const { storage } = delta;
+
+  // ===== Summary Sheet =====
+  const summaryData = [
+    ['Environment Delta Report', ''],
+    ['Generated', new Date().toLocaleString()],
+    ['Baseline Export', delta.baselineFileName],
+    ['Baseline Collected', delta.baselineDate ? delta.baselineDate.toLocaleDateString() : 'Unknown'],
+    ['Current Export', delta.currentFileName],
+    ['Current Collected', delta.currentDate ? delta.currentDate.toLocaleDateString() : 'Unknown'],
+    [''],
+    ['Changes', ''],
+    ['VMs Added', delta.addedVMs.length],
+    ['VMs Removed', delta.removedVMs.length],
+    ['VMs Resized', delta.resizedVMs.length],
+    ['Guest OS Changes', delta.osChanges.length],
+    ['VMs with Storage Changes', delta.storageChanges.length],
+    ['New Snapshots', delta.newSnapshots.length],
+    [''],
+    ['Storage', ''],
+    ['Provisioned Before (GiB)', Math.round(mibToGiB(storage.provisionedMiBBefore))],
+    ['Provisioned After (GiB)', Math.round(mibToGiB(storage.provisionedMiBAfter))],
+    ['In Use Before (GiB)', Math.round(mibToGiB(storage.inUseMiBBefore))],
+    ['In Use After (GiB)', Math.round(mibToGiB(storage.inUseMiBAfter))],
+    ['In Use Growth (GiB)', Math.round(mibToGiB(storage.inUseMiBAfter - storage.inUseMiBBefore))],
+    [''],
+    ['Stale Planning Items', ''],
+    ['VM Overrides', delta.staleOverrides.length],
+    ['Wave Assignments', delta.staleWaveAssignments.length],
+    ['Risk Rows', delta.staleRisks.length],
+  ];
+  const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+  summarySheet['!cols'] = [{ wch: 30 }, { wch: 40 }];
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Delta Summary');
+
+  // ===== VM Changes Sheet =====
+  const changes = getDeltaChangeRows(delta).map(row => ({
+    'Change': row.change,
+    'VM Name': row.vmName,
+    'Before': row.before,
+    'After': row.after,
+  }));
+  const changesSheet = XLSX.utils.json_to_sheet(changes, { header: ['Change', 'VM Name', 'Before', 'After'] });
+  changesSheet['!cols'] = [{ wch: 15 }, { wch: 35 }, { wch: 50 }, { wch: 50 }];
+  XLSX.utils.book_append_sheet(workbook, changesSheet, 'Environment Delta');
+
+  // ===== Stale Planning Sheet =====
+  const stale = getStalePlanningRows(delta).map(row => ({
+    'Item': row.item,
+    'Name': row.name,
+    'Reason': row.reason,
+    'Edited': row.edited ? 'Yes' : 'No',
+    'Detail': row.detail,
+  }));
+  const staleSheet = XLSX.utils.json_to_sheet(stale, { header: ['Item', 'Name', 'Reason', 'Edited', 'Detail'] });
+  staleSheet['!cols'] = [{ wch: 18 }, { wch: 35 }, { wch: 25 }, { wch: 8 }, { wch: 70 }];
+  XLSX.utils.book_append_sheet(workbook, staleSheet, 'Stale Planning');
+
+  return workbook;
+}
+
+/**
+ * Export an environment delta report to Excel
+ */
+export function downloadEnvironmentDeltaExcel(delta: EnvironmentDelta, filename?: string): void {
+  const workbook = generateEnvironmentDeltaWorkbook(delta);
+  const defaultFilename = `environment-delta-${new Date().toISOString().split('T')[0]}.xlsx`;
+  XLSX.writeFile(workbook, filename || defaultFilename);
+}
@@ -14,9 +14,19 @@ export const SETTINGS_KEYS = [
   'vcf-risk-overrides',
   'vcf-vpc-design',
   'vcf-wave-planning-mode',
+  'vcf-wave-plans',
+  'vcf-dependency-waves',
   'vcf-workflow-progress',
   'vcf-cost-settings',
   'vcf-sizing-settings',
+  'vcf-vsi-storage-settings',
+  'vcf-tco-settings',
+  'vcf-currency-settings',
+  'vcf-pricing-pins',
+  'vcf-rate-card',
+  'vcf-roks-worker-settings',
+  'vcf-performance-metrics',
+  'vcf-vmware-retain-settings',
 ] as const;
 
 export function generateHandoverFile(
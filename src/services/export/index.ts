@@ -1,8 +1,15 @@
 // Export services
 export { PDFGenerator, generatePDF, downloadPDF } from './pdfGenerator';
-export { generateExcelReport, downloadExcel, downloadWavePlanningExcel } from './excelGenerator';
+export {
+  generateExcelReport,
+  downloadExcel,
+  downloadWavePlanningExcel,
+  generateEnvironmentDeltaWorkbook,
+  downloadEnvironmentDeltaExcel,
+} from './excelGenerator';
 export type { WaveVM, WaveGroup } from './excelGenerator';
-export { MTVYAMLGenerator, downloadBlob, downloadYAML } from './yamlGenerator';
+export { MTVYAMLGenerator, downloadBlob, downloadYAML, toRFC1123Name, collectBundleSources, parseNetworkDestination } from './yamlGenerator';
+export type { MTVWave, MTVBundleFile, MTVBundleSource, MTVBundleSources } from './yamlGenerator';
 export {
   generateBOMText,
   generateBOMJSON,
@@ -15,8 +22,10 @@ export {
   downloadVSIBOMExcel,
   generateROKSBOMExcel,
   downloadROKSBOMExcel,
+  generateSplitBOMExcel,
+  downloadSplitBOMExcel,
 } from './bomXlsxGenerator';
-export type { VMDetail, ROKSNodeDetail } from './bomXlsxGenerator';
+export type { VMDetail, ROKSNodeDetail, SplitTargetCost, SplitBOMInput } from './bomXlsxGenerator';
 export { generateDocxReport, downloadDocx } from './docxGenerator';
 export type { DocxExportOptions } from './docxGenerator';
 export { generatePptxReport, downloadPptx } from './pptxGenerator';
@@ -30,4 +39,17 @@ export {
   combineWaveAndVMData,
 } from './rackwareRmmGenerator';
 export type { RackwareRmmConfig, RackwareVMData } from './rackwareRmmGenerator';
+export {
+  generateTerraformFiles,
+  generateTerraformBundle,
+  buildTerraformVSIs,
+} from './terraformGenerator';
+export type { TerraformConfig, TerraformVSI, TerraformFile } from './terraformGenerator';
+export {
+  generateAnsibleInventory,
+  generateAnsibleFiles,
+  generateAnsibleBundle,
+  getAutomatedRemediations,
+} from './ansibleGenerator';
+export type { AnsibleConfig, AnsibleWave, AnsibleFile } from './ansibleGenerator';
 export { generateHandoverFile, downloadHandoverFile, SETTINGS_KEYS } from './handoverExporter';
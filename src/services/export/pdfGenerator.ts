@@ -2,6 +2,7 @@
 import jsPDF from 'jspdf';
 import type { RVToolsData, VirtualMachine, VHostInfo, VDatastoreInfo, VNetworkInfo } from '@/types/rvtools';
 import type { MigrationInsights } from '@/services/ai/types';
+import { describeInsightsSource } from '@/services/ai/ruleBasedFallbacks';
 import { mibToGiB, mibToTiB, formatNumber } from '@/utils/formatters';
 import { isVMwareInfrastructureVM } from '@/utils/autoExclusion';
 
@@ -1073,16 +1074,14 @@ export class EnhancedPDFGenerator {
 
   // ===== AI INSIGHTS PAGE =====
   private addAIInsightsPage(insights: MigrationInsights): void {
-    this.addSectionTitle('AI-Generated Insights');
+    const { title, disclaimer } = describeInsightsSource(insights.source);
+    this.addSectionTitle(`${title} Insights`);
 
     // Disclaimer
     this.doc.setFontSize(FONT.small);
     this.doc.setFont('helvetica', 'italic');
     this.doc.setTextColor(...hexToRgb(COLORS.purple60));
-    this.doc.text(
-      'The following content was generated by AI (IBM watsonx.ai) and should be reviewed for accuracy.',
-      MARGIN, this.currentY
-    );
+    this.doc.text(disclaimer, MARGIN, this.currentY);
     this.currentY += 8;
 
     // Executive Summary
@@ -10,6 +10,7 @@ vi.mock('./sections', () => ({
   addExcludedVMsSlide: vi.fn(),
   addPlatformRecommendationSlide: vi.fn(),
   addCostEstimationSlide: vi.fn(),
+  addTCOSlide: vi.fn(),
   addWavePlanningSlide: vi.fn(),
   addMigrationExecutionSlide: vi.fn(),
   addNextStepsSlide: vi.fn(),
@@ -104,6 +105,7 @@ import {
   addExcludedVMsSlide,
   addPlatformRecommendationSlide,
   addCostEstimationSlide,
+  addTCOSlide,
   addWavePlanningSlide,
   addMigrationExecutionSlide,
   addNextStepsSlide,
@@ -384,6 +386,26 @@ describe('generatePptxReport', () => {
       );
     });
 
+    it('adds the TCO slide only when a projection with scenarios is provided', async () => {
+      await generatePptxReport(mockRVToolsData);
+      expect(addTCOSlide).not.toHaveBeenCalled();
+
+      const tcoProjection = {
+        months: 24,
+        exitMonth: 6,
+        licensedCores: 128,
+        annualGrowthRate: 20,
+        baseline: { licenceCostPerCoreYear: 350, licensedCoresOverride: null, annualSupportCost: 0, hardwareRefreshCost: 0, hardwareRefreshYear: 2 },
+        statusQuo: { monthly: [], cumulative: [], yearly: [], total: 0 },
+        scenarios: [{
+          id: 'roks', label: 'All ROKS', monthly: [], cumulative: [], yearly: [], total: 0,
+          monthlyCloudCost: [], monthlyVMwareCost: [], dualRunningCost: 0, breakEvenMonth: null, savings: 0,
+        }],
+      };
+      await generatePptxReport(mockRVToolsData, { tcoProjection });
+      expect(addTCOSlide).toHaveBeenCalledWith(expect.anything(), tcoProjection);
+    });
+
     it('passes null cost estimates when not provided (fallback)', async () => {
       await generatePptxReport(mockRVToolsData);
 
@@ -15,6 +15,7 @@ import {
   addExcludedVMsSlide,
   addPlatformRecommendationSlide,
   addCostEstimationSlide,
+  addTCOSlide,
   addWavePlanningSlide,
   addMigrationExecutionSlide,
   addNextStepsSlide,
@@ -46,6 +47,7 @@ export async function generatePptxReport(
     vsiCostEstimate: options.vsiCostEstimate ?? null,
     timelinePhases: options.timelinePhases ?? null,
     timelineStartDate: options.timelineStartDate ?? new Date(),
+    tcoProjection: options.tcoProjection ?? null,
   };
 
   // Create presentation
@@ -101,6 +103,9 @@ export async function generatePptxReport(
   if (includeCosts) {
     const roksVariant = finalOptions.platformSelection?.score?.roksVariant;
     addCostEstimationSlide(pres, roksSizing, vsiMappings, finalOptions, finalOptions.roksCostEstimate, finalOptions.vsiCostEstimate, roksVariant);
+    if (finalOptions.tcoProjection && finalOptions.tcoProjection.scenarios.length > 0) {
+      addTCOSlide(pres, finalOptions.tcoProjection);
+    }
   }
 
   addWavePlanningSlide(pres, filteredRawData, finalOptions);
@@ -1,7 +1,9 @@
 // Cost Estimation Slide — KPI tiles + cost breakdown table with pricing caveat
 
 import type PptxGenJS from 'pptxgenjs';
-import type { CostEstimate } from '@/services/costEstimation';
+import { describeCurrency, type CostEstimate } from '@/services/costEstimation';
+import { getActiveCurrency, getExcelCurrencyFormat } from '@/services/pricing/currency';
+import type { TCOProjection } from '@/services/tcoProjection';
 import type { ROKSSizing, VSIMapping } from '../../docx/types';
 import type { PptxExportOptions } from '../types';
 import { COLORS, FONTS } from '../types';
@@ -36,9 +38,10 @@ export function addCostEstimationSlide(
   });
 
   // Explanatory paragraph
-  const disclaimerText = hasCachedRoks || hasCachedVsi
+  const disclaimerText = (hasCachedRoks || hasCachedVsi
     ? 'Based on current IBM Cloud list prices matching the Sizing Calculator configuration. Includes compute, licensing, storage, and platform services. A detailed pricing proposal will be provided at the next stage.'
-    : 'Based on current IBM Cloud US South region list prices. A detailed pricing proposal will be provided at the next stage. Includes compute and storage. Does not include networking or support.';
+    : 'Based on current IBM Cloud US South region list prices. A detailed pricing proposal will be provided at the next stage. Includes compute and storage. Does not include networking or support.')
+    + ` Amounts in ${describeCurrency(roksCostEstimate ?? vsiCostEstimate)}.`;
   slide.addText(disclaimerText, {
     x: 1.33, y: 2.05, w: 24.0, h: 1.07,
     fontSize: FONTS.smallSize, fontFace: FONTS.face,
@@ -342,3 +345,78 @@ export function addCostEstimationSlide(
     slide.addTable(tableRows, { ...tableOpts, y: 5.2 });
   }
 }
+
+/**
+ * Multi-year TCO slide — cumulative cost curves against the VMware status quo
+ * with break-even month and dual-running cost per scenario.
+ */
+export function addTCOSlide(pres: PptxGenJS, tco: TCOProjection): void {
+  const slide = pres.addSlide({ masterName: 'CONTENT' });
+  addSlideTitle(slide, 'Multi-Year TCO');
+
+  const years = tco.statusQuo.yearly.length;
+  slide.addText(`Cumulative cost over ${years} year${years !== 1 ? 's' : ''} versus keeping VMware`, {
+    x: 1.33, y: 1.25, w: 24.0, h: 0.93,
+    fontSize: FONTS.bodySize, fontFace: FONTS.face,
+    color: COLORS.ibmBlue, bold: true,
+  });
+  slide.addText(
+    `${tco.annualGrowthRate}% annual growth. Cloud spend ramps up as waves start; VMware runs in parallel until month ${tco.exitMonth}. ` +
+    `Status quo: ${fmt(tco.licensedCores)} licensed cores at ${fmtCurrency(tco.baseline.licenceCostPerCoreYear)}/core/year plus support and hardware refresh.`,
+    {
+      x: 1.33, y: 2.05, w: 24.0, h: 1.07,
+      fontSize: FONTS.smallSize, fontFace: FONTS.face,
+      color: COLORS.darkGray,
+    },
+  );
+
+  const labels = tco.statusQuo.cumulative.map((_, m) => `M${m + 1}`);
+  const scenarioColors = [COLORS.ibmBlue, COLORS.teal, COLORS.purple, COLORS.orange];
+  slide.addChart(pres.ChartType.line, [
+    { name: 'VMware status quo', labels, values: tco.statusQuo.cumulative },
+    ...tco.scenarios.map(sc => ({ name: sc.label, labels, values: sc.cumulative })),
+  ], {
+    x: 1.33, y: 3.33, w: 14.0, h: 10.4,
+    chartColors: [COLORS.mediumGray, ...tco.scenarios.map((_, i) => scenarioColors[i % scenarioColors.length])],
+    lineSize: 2,
+    lineDataSymbol: 'none',
+    showLegend: true,
+    legendPos: 'b',
+    legendFontSize: 14,
+    catAxisLabelFontSize: 12,
+    valAxisLabelFontSize: 12,
+    valAxisLabelFormatCode: getExcelCurrencyFormat(getActiveCurrency().code, 0),
+  });
+
+  const cellOpts = { fontSize: 17, fontFace: FONTS.face, color: COLORS.darkGray };
+  const rightCellOpts = { ...cellOpts, align: 'right' as const };
+  const headerOpts = { bold: true, fill: { color: COLORS.ibmBlue }, color: COLORS.white, fontSize: 17, fontFace: FONTS.face };
+
+  const rows: PptxGenJS.TableRow[] = [
+    [
+      { text: 'Scenario', options: headerOpts },
+      { text: 'Total', options: { ...headerOpts, align: 'right' as const } },
+      { text: 'Dual-running', options: { ...headerOpts, align: 'right' as const } },
+      { text: 'Break-even', options: { ...headerOpts, align: 'right' as const } },
+    ],
+    [
+      { text: 'VMware status quo', options: cellOpts },
+      { text: fmtCurrency(tco.statusQuo.total), options: rightCellOpts },
+      { text: '—', options: rightCellOpts },
+      { text: '—', options: rightCellOpts },
+    ],
+    ...tco.scenarios.map<PptxGenJS.TableRow>(sc => [
+      { text: sc.label, options: cellOpts },
+      { text: fmtCurrency(sc.total), options: rightCellOpts },
+      { text: fmtCurrency(sc.dualRunningCost), options: rightCellOpts },
+      { text: sc.breakEvenMonth != null ? `Month ${sc.breakEvenMonth}` : 'Beyond horizon', options: rightCellOpts },
+    ]),
+  ];
+
+  slide.addTable(rows, {
+    x: 15.73, y: 3.33, w: 9.6,
+    colW: [3.2, 2.2, 2.2, 2.0],
+    border: { type: 'solid' as const, pt: 0.5, color: COLORS.mediumGray },
+    autoPage: false,
+  });
+}
@@ -8,6 +8,12 @@ import { runPreFlightChecks, derivePreflightCounts } from '@/services/preflightC
 import { COLORS, FONTS } from '../types';
 import { addSlideTitle } from '../utils';
 
+const MODE_LABELS: Record<MigrationMode, string> = {
+  roks: 'ROKS (OpenShift Virtualization)',
+  ove: 'OpenShift Virtualization Engine (OVE)',
+  vsi: 'VPC VSI',
+};
+
 /** Map severity to a human-readable status label */
 function severityLabel(severity: string): string {
   switch (severity) {
@@ -47,7 +53,7 @@ export function addMigrationStatsSlide(
   addSlideTitle(slide, 'Migration Readiness');
 
   // Determine mode from platform leaning
-  const mode: MigrationMode = leaning === 'roks' ? 'roks' : 'vsi';
+  const mode: MigrationMode = leaning === 'roks' || leaning === 'ove' ? leaning : 'vsi';
 
   // Run pre-flight checks using the shared service and derive counts
   const checkResults = runPreFlightChecks(rawData, mode);
@@ -58,7 +64,7 @@ export function addMigrationStatsSlide(
   // Filter out unverifiable items
   const visibleItems = items.filter(item => !item.isUnverifiable);
 
-  const modeLabel = mode === 'roks' ? 'ROKS (OpenShift Virtualization)' : 'VPC VSI';
+  const modeLabel = MODE_LABELS[mode];
 
   // Blue subtitle
   slide.addText('Pre-flight Compatibility Checks', {
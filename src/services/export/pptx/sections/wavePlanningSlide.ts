@@ -42,8 +42,11 @@ export function addWavePlanningSlide(
   // Strategy subtitle (when wave preference is available)
   if (preference) {
     const strategyLabel = getStrategyLabel(preference);
+    const editedWaveCount = preference.editedWaves?.roks?.length ?? 0;
     slide.addText(
-      `The migration uses a ${strategyLabel} grouping strategy. Wave groupings are preliminary — the migration partner will refine based on application dependencies.`,
+      editedWaveCount > 0
+        ? `The migration uses a ${strategyLabel} grouping strategy, manually adjusted into ${editedWaveCount} wave${editedWaveCount !== 1 ? 's' : ''} by the migration team.`
+        : `The migration uses a ${strategyLabel} grouping strategy. Wave groupings are preliminary — the migration partner will refine based on application dependencies.`,
       {
         x: BODY.x,
         y: nextY,
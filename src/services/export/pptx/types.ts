@@ -1,6 +1,7 @@
 // PPTX Generator Types and Constants
 
 import type { CostEstimate } from '@/services/costEstimation';
+import type { TCOProjection } from '@/services/tcoProjection';
 import type { RVToolsData } from '@/types/rvtools';
 import type { TimelinePhase } from '@/types/timeline';
 import type { PlatformSelectionExport, VMReadiness, WavePlanningPreference } from '../docx/types';
@@ -25,6 +26,8 @@ export interface PptxExportOptions {
   timelinePhases?: TimelinePhase[] | null;
   /** Start date for timeline date range display */
   timelineStartDate?: Date;
+  /** Multi-year TCO projection for the TCO slide after cost estimation */
+  tcoProjection?: TCOProjection | null;
 }
 
 // 16:9 slide layout (inches) — matches IBM reference deck dimensions
@@ -1,6 +1,7 @@
 // PPTX shared helper functions
 
 import type PptxGenJS from 'pptxgenjs';
+import { formatCurrency } from '@/services/costEstimation';
 import { BODY, FONTS, COLORS } from '../types';
 
 /**
@@ -166,8 +167,8 @@ export function fmt(n: number): string {
 }
 
 /**
- * Format currency (USD).
+ * Format currency in the active quote currency.
  */
 export function fmtCurrency(n: number): string {
-  return n.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+  return formatCurrency(n);
 }
@@ -0,0 +1,52 @@
+// Wave computation utility tests
+
+import { describe, it, expect } from 'vitest';
+import { computeWavesForExport } from './waveCalculations';
+import type { RVToolsData, VirtualMachine } from '@/types/rvtools';
+import type { WavePlanningPreference } from '../../docx/types';
+
+function makeVM(vmName: string): VirtualMachine {
+  return {
+    vmName,
+    powerState: 'poweredOn',
+    template: false,
+    cpus: 4,
+    memory: 8192,
+    guestOS: 'Red Hat Enterprise Linux 8',
+    hardwareVersion: 'vmx-19',
+    provisionedMiB: 102400,
+    inUseMiB: 51200,
+    datacenter: 'dc-1',
+    cluster: 'cluster-1',
+  } as VirtualMachine;
+}
+
+function makeRawData(vms: VirtualMachine[]): RVToolsData {
+  return {
+    vInfo: vms,
+    vCPU: [], vMemory: [], vDisk: [], vPartition: [], vNetwork: [], vCD: [], vSnapshot: [], vTools: [],
+    vCluster: [], vHost: [], vDatastore: [], vLicense: [], vSource: [],
+  } as unknown as RVToolsData;
+}
+
+describe('computeWavesForExport', () => {
+  const rawData = makeRawData([makeVM('web-01'), makeVM('db-01')]);
+  const preference: WavePlanningPreference = {
+    wavePlanningMode: 'complexity',
+    networkGroupBy: 'cluster',
+    editedWaves: {
+      roks: [{ id: 'wave-1', name: 'ROKS pilot', description: '', vmNames: ['web-01', 'db-01'], locked: false }],
+    },
+  };
+
+  it('uses the edited plan for its own migration target', () => {
+    const waves = computeWavesForExport(rawData, 'roks', preference);
+    expect(waves.map(w => w.name)).toEqual(['ROKS pilot']);
+  });
+
+  it('keeps the generated waves for a target without an edited plan', () => {
+    const waves = computeWavesForExport(rawData, 'vsi', preference);
+    expect(waves.map(w => w.name)).not.toContain('ROKS pilot');
+    expect(waves.reduce((sum, w) => sum + w.vmCount, 0)).toBe(2);
+  });
+});
@@ -5,9 +5,12 @@ import type { WavePlanningPreference } from '../../docx/types';
 import type { WaveGroup, NetworkWaveGroup } from '@/services/migration/wavePlanning';
 import { calculateComplexityScores } from '@/services/migration/migrationAssessment';
 import { buildVMWaveData, createComplexityWaves, createNetworkWaves } from '@/services/migration/wavePlanning';
+import { applyEditableWaves } from '@/services/migration/wavePlanEditing';
+import { planDependencyWaves, DEFAULT_DEPENDENCY_WAVE_CONFIG } from '@/services/migration/dependencyWaves';
 
 /**
  * Compute migration waves from raw data using the given preference.
+ * An edited plan on the preference takes precedence over the generated waves.
  * Returns WaveGroup[] for complexity mode, NetworkWaveGroup[] for network mode.
  */
 export function computeWavesForExport(
@@ -21,6 +24,13 @@ export function computeWavesForExport(
     vms, complexityScores, rawData.vDisk, rawData.vSnapshot, rawData.vTools, rawData.vNetwork, migrationMode
   );
 
+  const editedWaves = preference.editedWaves?.[migrationMode];
+  if (editedWaves) {
+    return applyEditableWaves(editedWaves, vmWaveData);
+  }
+  if (preference.wavePlanningMode === 'dependency') {
+    return planDependencyWaves(vms, vmWaveData, rawData.vNetwork, preference.dependencyConfig ?? DEFAULT_DEPENDENCY_WAVE_CONFIG).waves;
+  }
   if (preference.wavePlanningMode === 'complexity') {
     return createComplexityWaves(vmWaveData, migrationMode);
   }
@@ -32,6 +42,7 @@ export function computeWavesForExport(
  */
 export function getStrategyLabel(pref: WavePlanningPreference): string {
   if (pref.wavePlanningMode === 'complexity') return 'Complexity-Based';
+  if (pref.wavePlanningMode === 'dependency') return 'Dependency-Based';
   if (pref.networkGroupBy === 'cluster') return 'Network-Based (Cluster)';
   return 'Network-Based (Port Group)';
 }
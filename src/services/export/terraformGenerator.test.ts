@@ -0,0 +1,153 @@
+// Unit tests for Terraform generator
+import { describe, it, expect } from 'vitest';
+import { generateTerraformFiles, buildTerraformVSIs, toResourceName } from './terraformGenerator';
+import type { TerraformVSI } from './terraformGenerator';
+import type { VPCDesign } from '@/types/vpcDesign';
+import type { VirtualMachine, VDiskInfo, VNetworkInfo } from '@/types/rvtools';
+
+function createMockDesign(overrides: Partial<VPCDesign> = {}): VPCDesign {
+  return {
+    region: 'us-south',
+    vpcName: 'migration-vpc-us-south',
+    zones: [{ name: 'us-south-1', subnets: ['subnet-web'] }],
+    subnets: [
+      { id: 'subnet-web', name: 'sn-web', cidr: '10.10.1.0/24', sourcePortGroup: 'PG-Web', zone: 'us-south-1', vmCount: 1, securityGroupId: 'sg-web-server', purpose: 'Web' },
+      { id: 'subnet-db', name: 'sn-db', cidr: '10.10.1.0/24, 10.10.2.0/24', sourcePortGroup: 'PG-DB', zone: 'us-south-2', vmCount: 1, securityGroupId: 'sg-database', purpose: 'DB' },
+    ],
+    securityGroups: [
+      {
+        id: 'sg-web-server', name: 'sg-web-server', workloadType: 'web-server',
+        inboundRules: [{ direction: 'inbound', protocol: 'tcp', portMin: 443, portMax: 443, source: '0.0.0.0/0', description: 'HTTPS' }],
+        outboundRules: [{ direction: 'outbound', protocol: 'all', source: '0.0.0.0/0', description: 'All outbound' }],
+      },
+      {
+        id: 'sg-database', name: 'sg-database', workloadType: 'database',
+        inboundRules: [
+          { direction: 'inbound', protocol: 'tcp', portMin: 5432, source: 'sg:web-server', description: 'PostgreSQL from web' },
+          { direction: 'inbound', protocol: 'tcp', portMin: 22, source: 'sg:bastion', description: 'SSH from bastion' },
+        ],
+        outboundRules: [],
+      },
+    ],
+    aclSuggestions: [{
+      subnetId: 'subnet-web', subnetName: 'sn-web',
+      rules: [{ name: 'allow-icmp', direction: 'inbound', action: 'allow', protocol: 'icmp', source: '0.0.0.0/0', destination: '10.10.1.0/24' }],
+    }],
+    transitGateways: [{
+      id: 'tg-1', name: 'migration-tgw', enabled: true,
+      connections: [
+        { id: 'c1', connectionType: 'vpc', name: 'vpc-connection' },
+        { id: 'c2', connectionType: 'directlink', name: 'on-prem' },
+        { id: 'c3', connectionType: 'gre', name: 'gre-tunnel' },
+      ],
+    }],
+    ...overrides,
+  } as VPCDesign;
+}
+
+function createMockVSI(overrides: Partial<TerraformVSI> = {}): TerraformVSI {
+  return {
+    vmName: 'web-01',
+    guestOS: 'Red Hat Enterprise Linux 9',
+    profile: 'bx2-2x8',
+    vcpus: 2,
+    memoryGiB: 8,
+    bootVolumeGiB: 100,
+    dataVolumes: [{ sizeGiB: 500 }],
+    portGroup: 'PG-Web',
+    ...overrides,
+  };
+}
+
+function getFile(files: { name: string; content: string }[], name: string): string {
+  return files.find(f => f.name === name)?.content ?? '';
+}
+
+describe('toResourceName', () => {
+  it('produces valid IBM Cloud resource names', () => {
+    expect(toResourceName('Web_Server 01')).toBe('web-server-01');
+    expect(toResourceName('01-db')).toBe('r-01-db');
+  });
+});
+
+describe('generateTerraformFiles', () => {
+  it('generates the VPC, address prefixes, subnets and ACLs', () => {
+    const vpc = getFile(generateTerraformFiles(createMockDesign(), []), 'vpc.tf');
+
+    expect(vpc).toContain('resource "ibm_is_vpc" "migration_vpc_us_south"');
+    expect(vpc).toContain('address_prefix_management = "manual"');
+    expect(vpc).toContain('resource "ibm_is_subnet" "sn_web"');
+    expect(vpc).toContain('network_acl     = ibm_is_network_acl.sn_web.id');
+    expect(vpc).toContain('ipv4_cidr_block = "10.10.1.0/24"');
+    expect(vpc).toMatch(/rules \{[\s\S]*icmp \{\}/);
+  });
+
+  it('resolves security group references and skips unknown ones with a warning', () => {
+    const files = generateTerraformFiles(createMockDesign(), []);
+    const sg = getFile(files, 'security_groups.tf');
+
+    expect(sg).toContain('remote    = ibm_is_security_group.sg_web_server.id');
+    expect(sg).toMatch(/port_min = 5432\s+port_max = 5432/);
+    expect(sg).not.toContain('SSH from bastion');
+    expect(getFile(files, 'README.md')).toContain('references sg:bastion');
+    expect(getFile(files, 'README.md')).toContain('same CIDR 10.10.1.0/24');
+  });
+
+  it('generates transit gateway connections', () => {
+    const files = generateTerraformFiles(createMockDesign(), []);
+    const tg = getFile(files, 'transit_gateway.tf');
+
+    expect(tg).toContain('network_id   = ibm_is_vpc.migration_vpc_us_south.resource_crn');
+    expect(tg).toContain('network_id   = var.migration_tgw_on_prem_network_id');
+    expect(tg).not.toContain('gre-tunnel');
+    expect(getFile(files, 'variables.tf')).toContain('variable "migration_tgw_on_prem_network_id"');
+  });
+
+  it('generates one instance with volumes per VM on the subnet of its port group', () => {
+    const files = generateTerraformFiles(createMockDesign(), [
+      createMockVSI(),
+      createMockVSI({ vmName: 'db-01', guestOS: 'Microsoft Windows Server 2019', portGroup: 'PG-DB', dataVolumes: [] }),
+    ]);
+    const instances = getFile(files, 'instances.tf');
+
+    expect(instances.match(/resource "ibm_is_instance" /g)).toHaveLength(2);
+    expect(instances).toContain('subnet          = ibm_is_subnet.sn_db.id');
+    expect(instances).toContain('security_groups = [ibm_is_security_group.sg_database.id]');
+    expect(instances).toContain('lookup(var.vm_image_ids, "db-01", var.default_windows_image_id)');
+    expect(instances).toContain('capacity       = 500');
+    expect(instances.match(/resource "ibm_is_instance_volume_attachment" /g)).toHaveLength(1);
+    expect(getFile(files, 'outputs.tf')).toContain('"web-01" = ibm_is_instance.web_01.');
+  });
+
+  it('adds a default subnet when the design has none and escapes HCL strings', () => {
+    const files = generateTerraformFiles(
+      createMockDesign({ subnets: [], aclSuggestions: [], transitGateways: [] }),
+      [createMockVSI({ vmName: 'app-${x}', guestOS: 'Linux "custom"' })],
+    );
+
+    expect(files.map(f => f.name)).not.toContain('transit_gateway.tf');
+    expect(getFile(files, 'vpc.tf')).toContain('resource "ibm_is_subnet" "sn_default"');
+    expect(getFile(files, 'instances.tf')).toContain('"app-$${x}"');
+  });
+});
+
+describe('buildTerraformVSIs', () => {
+  it('uses sized VM details when available and maps the rest automatically', () => {
+    const vms = [
+      { vmName: 'sized', cpus: 2, memory: 8192, nics: 1, guestOS: 'Linux' },
+      { vmName: 'auto', cpus: 4, memory: 16384, nics: 1, guestOS: 'Linux' },
+    ] as VirtualMachine[];
+    const disks = [
+      { vmName: 'auto', diskKey: 2001, capacityMiB: 204800 },
+      { vmName: 'auto', diskKey: 2000, capacityMiB: 51200 },
+    ] as VDiskInfo[];
+    const networks = [{ vmName: 'auto', networkName: 'PG-App' }] as VNetworkInfo[];
+
+    const vsis = buildTerraformVSIs(vms, disks, networks, [
+      { vmName: 'sized', guestOS: 'Linux', profile: 'cx2-2x4', vcpus: 2, memoryGiB: 4, bootVolumeGiB: 100, dataVolumes: [] },
+    ]);
+
+    expect(vsis[0]).toMatchObject({ profile: 'cx2-2x4', portGroup: null });
+    expect(vsis[1]).toMatchObject({ vcpus: 4, bootVolumeGiB: 100, dataVolumes: [{ sizeGiB: 200 }], portGroup: 'PG-App' });
+  });
+});
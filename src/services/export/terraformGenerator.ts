@@ -0,0 +1,623 @@
+// Terraform (HCL) Generator for IBM Cloud VPC migrations
+// Generates a Terraform configuration for the VPC network design (VPC, subnets,
+// security groups, network ACLs, transit gateways) and one VSI per in-scope VM.
+
+import type { VirtualMachine, VDiskInfo, VNetworkInfo } from '@/types/rvtools';
+import type { VPCDesign, VPCSubnet, SecurityGroup, SecurityGroupRule, ACLRule } from '@/types/vpcDesign';
+import { createVMProfileMappings } from '../migration/vsiProfileMapping';
+import { mibToGiB } from '@/utils/formatters';
+import type { VMDetail } from './bomXlsxGenerator';
+
+/**
+ * Configuration options for Terraform export
+ */
+export interface TerraformConfig {
+  // Resource group name used for all resources
+  resourceGroup?: string;
+
+  // Block storage profile for data volumes
+  dataVolumeProfile?: string;
+
+  // Minimum version of the IBM Cloud provider
+  providerVersion?: string;
+}
+
+/**
+ * VM to provision as a VSI — a BOM VM detail plus its source port group
+ */
+export interface TerraformVSI extends VMDetail {
+  portGroup: string | null;
+}
+
+export interface TerraformFile {
+  name: string;
+  content: string;
+}
+
+const DEFAULT_CONFIG: Required<TerraformConfig> = {
+  resourceGroup: 'default',
+  dataVolumeProfile: 'general-purpose',
+  providerVersion: '1.70.0',
+};
+
+// VPC block storage capacity limits (GiB)
+const MIN_VOLUME_GIB = 10;
+const MAX_VOLUME_GIB = 16000;
+const MAX_BOOT_VOLUME_GIB = 250;
+
+// ===== HCL HELPERS =====
+
+/**
+ * Quote a string as an HCL literal, escaping interpolation sequences
+ */
+function hclString(value: string): string {
+  return `"${value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\$\{/g, '$$$${')
+    .replace(/%\{/g, '%%{')}"`;
+}
+
+/**
+ * IBM Cloud resource name: lowercase letters, digits and hyphens, starting with a letter
+ */
+export function toResourceName(name: string): string {
+  const sanitized = name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  const prefixed = /^[a-z]/.test(sanitized) ? sanitized : `r-${sanitized}`;
+  return prefixed.substring(0, 63).replace(/-$/, '');
+}
+
+/**
+ * Allocates unique Terraform resource identifiers per resource type
+ */
+class IdentifierRegistry {
+  private used = new Map<string, Set<string>>();
+
+  get(resourceType: string, name: string): string {
+    let base = name.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/_+/g, '_').replace(/^_|_$/g, '');
+    if (!/^[a-z_]/.test(base)) base = `r_${base}`;
+    if (!base) base = 'resource';
+
+    const used = this.used.get(resourceType) ?? new Set<string>();
+    this.used.set(resourceType, used);
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    return id;
+  }
+}
+
+function firstCidr(cidr: string): string {
+  return cidr.split(',')[0].trim();
+}
+
+function protocolBlock(protocol: SecurityGroupRule['protocol'] | ACLRule['protocol'], portMin?: number, portMax?: number, indent = '  '): string[] {
+  if (protocol === 'all') return [];
+  if (protocol === 'icmp') return [`${indent}icmp {}`];
+  if (portMin === undefined) return [`${indent}${protocol} {}`];
+  return [
+    `${indent}${protocol} {`,
+    `${indent}  port_min = ${portMin}`,
+    `${indent}  port_max = ${portMax ?? portMin}`,
+    `${indent}}`,
+  ];
+}
+
+function isWindows(guestOS: string): boolean {
+  return guestOS.toLowerCase().includes('windows');
+}
+
+// ===== VSI INPUT =====
+
+/**
+ * Build the VSIs to provision from in-scope VMs.
+ * Uses sized VM details from the VSI migration page where available, and
+ * falls back to automatic profile mapping and source disks otherwise.
+ */
+export function buildTerraformVSIs(
+  vms: VirtualMachine[],
+  disks: VDiskInfo[],
+  networks: VNetworkInfo[],
+  sizedDetails: VMDetail[] = []
+): TerraformVSI[] {
+  const sizedByName = new Map(sizedDetails.map(d => [d.vmName, d]));
+  const portGroupByVM = new Map<string, string>();
+  networks.forEach(nic => {
+    if (nic.networkName && !portGroupByVM.has(nic.vmName)) portGroupByVM.set(nic.vmName, nic.networkName);
+  });
+
+  const unsized = vms.filter(vm => !sizedByName.has(vm.vmName));
+  const autoMappings = new Map(
+    createVMProfileMappings(
+      unsized.map(vm => ({ vmName: vm.vmName, cpus: vm.cpus, memory: vm.memory, nics: vm.nics, guestOS: vm.guestOS })),
+      [],
+      (_vmName, autoProfile) => autoProfile,
+      () => false
+    ).map(m => [m.vmName, m])
+  );
+
+  return vms.map(vm => {
+    const portGroup = portGroupByVM.get(vm.vmName) ?? null;
+    const sized = sizedByName.get(vm.vmName);
+    if (sized) return { ...sized, portGroup };
+
+    const mapping = autoMappings.get(vm.vmName);
+    const vmDisks = disks.filter(d => d.vmName === vm.vmName).sort((a, b) => (a.diskKey || 0) - (b.diskKey || 0));
+    const minBoot = isWindows(vm.guestOS) ? 120 : 100;
+    return {
+      vmName: vm.vmName,
+      guestOS: vm.guestOS,
+      profile: mapping?.profile.name || 'bx2-2x8',
+      vcpus: mapping?.profile.vcpus || vm.cpus,
+      memoryGiB: mapping?.profile.memoryGiB || Math.round(mibToGiB(vm.memory)),
+      bootVolumeGiB: vmDisks[0] ? Math.max(Math.round(mibToGiB(vmDisks[0].capacityMiB)), minBoot) : minBoot,
+      dataVolumes: vmDisks.slice(1).map(d => ({ sizeGiB: Math.round(mibToGiB(d.capacityMiB)) })),
+      portGroup,
+    };
+  });
+}
+
+// ===== FILE GENERATORS =====
+
+interface GeneratorContext {
+  design: VPCDesign;
+  subnets: VPCSubnet[];
+  config: Required<TerraformConfig>;
+  ids: IdentifierRegistry;
+  vpcId: string;
+  subnetIds: Map<string, string>;
+  securityGroupIds: Map<string, string>;
+  instanceIds: Map<string, string>;
+  warnings: string[];
+}
+
+function generateVersionsFile(ctx: GeneratorContext): string {
+  return [
+    'terraform {',
+    '  required_version = ">= 1.3"',
+    '  required_providers {',
+    '    ibm = {',
+    '      source  = "IBM-Cloud/ibm"',
+    `      version = ">= ${ctx.config.providerVersion}"`,
+    '    }',
+    '  }',
+    '}',
+    '',
+    'provider "ibm" {',
+    '  region = var.region',
+    '}',
+    '',
+  ].join('\n');
+}
+
+function generateVariablesFile(ctx: GeneratorContext, transitVariables: string[]): string {
+  const lines = [
+    'variable "region" {',
+    '  description = "IBM Cloud region for the migration VPC"',
+    '  type        = string',
+    `  default     = ${hclString(ctx.design.region)}`,
+    '}',
+    '',
+    'variable "resource_group" {',
+    '  description = "Resource group for all migration resources"',
+    '  type        = string',
+    `  default     = ${hclString(ctx.config.resourceGroup)}`,
+    '}',
+    '',
+    'variable "ssh_key_ids" {',
+    '  description = "IDs of the VPC SSH keys to install on Linux instances"',
+    '  type        = list(string)',
+    '}',
+    '',
+    'variable "default_linux_image_id" {',
+    '  description = "Image ID used for Linux VMs without a per-VM image"',
+    '  type        = string',
+    '}',
+    '',
+    'variable "default_windows_image_id" {',
+    '  description = "Image ID used for Windows VMs without a per-VM image"',
+    '  type        = string',
+    '}',
+    '',
+    'variable "vm_image_ids" {',
+    '  description = "Per-VM image IDs (e.g. custom images imported from the source VMs), keyed by VM name"',
+    '  type        = map(string)',
+    '  default     = {}',
+    '}',
+    '',
+    ...transitVariables,
+  ];
+  return lines.join('\n');
+}
+
+function generateVPCFile(ctx: GeneratorContext): string {
+  const lines = [
+    'data "ibm_resource_group" "migration" {',
+    '  name = var.resource_group',
+    '}',
+    '',
+    `resource "ibm_is_vpc" "${ctx.vpcId}" {`,
+    `  name                      = ${hclString(toResourceName(ctx.design.vpcName))}`,
+    '  resource_group            = data.ibm_resource_group.migration.id',
+    '  address_prefix_management = "manual"',
+    '}',
+    '',
+  ];
+
+  // One address prefix per zone and CIDR
+  const prefixIds = new Map<string, string>();
+  const seenCidrs = new Map<string, string>();
+  for (const subnet of ctx.subnets) {
+    const cidr = firstCidr(subnet.cidr);
+    const key = `${subnet.zone}|${cidr}`;
+    if (prefixIds.has(key)) continue;
+    const previous = seenCidrs.get(cidr);
+    if (previous) {
+      ctx.warnings.push(`Subnets ${previous} and ${subnet.name} use the same CIDR ${cidr}; change one on the Network Design page before applying.`);
+    }
+    seenCidrs.set(cidr, subnet.name);
+    const id = ctx.ids.get('ibm_is_vpc_address_prefix', subnet.name);
+    prefixIds.set(key, id);
+    lines.push(
+      `resource "ibm_is_vpc_address_prefix" "${id}" {`,
+      `  name = ${hclString(toResourceName(`${subnet.name}-prefix`))}`,
+      `  vpc  = ibm_is_vpc.${ctx.vpcId}.id`,
+      `  zone = ${hclString(subnet.zone)}`,
+      `  cidr = ${hclString(cidr)}`,
+      '}',
+      '',
+    );
+  }
+
+  for (const subnet of ctx.subnets) {
+    const id = ctx.subnetIds.get(subnet.id)!;
+    const aclId = ctx.ids.get('ibm_is_network_acl', subnet.name);
+    const prefixId = prefixIds.get(`${subnet.zone}|${firstCidr(subnet.cidr)}`)!;
+    const acl = ctx.design.aclSuggestions.find(a => a.subnetId === subnet.id);
+    lines.push(
+      `# Port group: ${subnet.sourcePortGroup} (${subnet.vmCount} VMs)`,
+      `resource "ibm_is_subnet" "${id}" {`,
+      `  name            = ${hclString(toResourceName(subnet.name))}`,
+      `  vpc             = ibm_is_vpc.${ctx.vpcId}.id`,
+      `  zone            = ${hclString(subnet.zone)}`,
+      `  ipv4_cidr_block = ${hclString(firstCidr(subnet.cidr))}`,
+      '  resource_group  = data.ibm_resource_group.migration.id',
+      ...(acl ? [`  network_acl     = ibm_is_network_acl.${aclId}.id`] : []),
+      `  depends_on      = [ibm_is_vpc_address_prefix.${prefixId}]`,
+      '}',
+      '',
+    );
+
+    if (acl) {
+      lines.push(
+        `resource "ibm_is_network_acl" "${aclId}" {`,
+        `  name           = ${hclString(toResourceName(`acl-${subnet.name}`))}`,
+        `  vpc            = ibm_is_vpc.${ctx.vpcId}.id`,
+        '  resource_group = data.ibm_resource_group.migration.id',
+      );
+      for (const rule of acl.rules) {
+        lines.push(
+          '',
+          '  rules {',
+          `    name        = ${hclString(toResourceName(rule.name))}`,
+          `    action      = ${hclString(rule.action)}`,
+          `    direction   = ${hclString(rule.direction)}`,
+          `    source      = ${hclString(firstCidr(rule.source))}`,
+          `    destination = ${hclString(firstCidr(rule.destination))}`,
+          ...protocolBlock(rule.protocol, rule.portMin, rule.portMax, '    '),
+          '  }',
+        );
+      }
+      lines.push('}', '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function generateSecurityGroupsFile(ctx: GeneratorContext): string {
+  const lines: string[] = [];
+  const sgByTemplateName = new Map(ctx.design.securityGroups.map(sg => [sg.name, sg]));
+
+  const ruleRemote = (sg: SecurityGroup, rule: SecurityGroupRule): string | null => {
+    if (!rule.source.startsWith('sg:')) return hclString(rule.source);
+    const target = sgByTemplateName.get(`sg-${rule.source.slice(3)}`);
+    if (!target) {
+      ctx.warnings.push(`Security group ${sg.name}: rule "${rule.description}" references ${rule.source}, which is not in the design; the rule was skipped.`);
+      return null;
+    }
+    return `ibm_is_security_group.${ctx.securityGroupIds.get(target.id)}.id`;
+  };
+
+  for (const sg of ctx.design.securityGroups) {
+    const sgId = ctx.securityGroupIds.get(sg.id)!;
+    lines.push(
+      `# Workload type: ${sg.workloadType}`,
+      `resource "ibm_is_security_group" "${sgId}" {`,
+      `  name           = ${hclString(toResourceName(sg.name))}`,
+      `  vpc            = ibm_is_vpc.${ctx.vpcId}.id`,
+      '  resource_group = data.ibm_resource_group.migration.id',
+      '}',
+      '',
+    );
+
+    for (const rule of [...sg.inboundRules, ...sg.outboundRules]) {
+      const remote = ruleRemote(sg, rule);
+      if (!remote) continue;
+      const ruleId = ctx.ids.get('ibm_is_security_group_rule', `${sgId}_${rule.direction}_${rule.description}`);
+      lines.push(
+        `# ${rule.description}`,
+        `resource "ibm_is_security_group_rule" "${ruleId}" {`,
+        `  group     = ibm_is_security_group.${sgId}.id`,
+        `  direction = ${hclString(rule.direction)}`,
+        `  remote    = ${remote}`,
+        ...protocolBlock(rule.protocol, rule.portMin, rule.portMax),
+        '}',
+        '',
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function generateTransitGatewayFile(ctx: GeneratorContext, transitVariables: string[]): string {
+  const lines: string[] = [];
+
+  for (const tg of ctx.design.transitGateways.filter(t => t.enabled)) {
+    const tgId = ctx.ids.get('ibm_tg_gateway', tg.name);
+    lines.push(
+      `resource "ibm_tg_gateway" "${tgId}" {`,
+      `  name           = ${hclString(toResourceName(tg.name))}`,
+      '  location       = var.region',
+      '  global         = false',
+      '  resource_group = data.ibm_resource_group.migration.id',
+      '}',
+      '',
+    );
+
+    for (const conn of tg.connections) {
+      const connId = ctx.ids.get('ibm_tg_connection', `${tgId}_${conn.name}`);
+      if (conn.connectionType === 'gre') {
+        ctx.warnings.push(`Transit gateway ${tg.name}: GRE connection ${conn.name} needs tunnel addresses and was not generated.`);
+        continue;
+      }
+      const networkType = conn.connectionType;
+      let networkId: string | null = null;
+      if (conn.connectionType === 'vpc') {
+        networkId = `ibm_is_vpc.${ctx.vpcId}.resource_crn`;
+      } else if (conn.connectionType === 'directlink') {
+        const variable = `${connId}_network_id`;
+        transitVariables.push(
+          `variable "${variable}" {`,
+          `  description = ${hclString(`CRN of the Direct Link gateway for transit connection ${conn.name}`)}`,
+          '  type        = string',
+          '}',
+          '',
+        );
+        networkId = `var.${variable}`;
+      }
+      lines.push(
+        `resource "ibm_tg_connection" "${connId}" {`,
+        `  gateway      = ibm_tg_gateway.${tgId}.id`,
+        `  name         = ${hclString(toResourceName(conn.name))}`,
+        `  network_type = ${hclString(networkType)}`,
+        ...(networkId ? [`  network_id   = ${networkId}`] : []),
+        '}',
+        '',
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function generateInstancesFile(ctx: GeneratorContext, vms: TerraformVSI[]): string {
+  const lines: string[] = [];
+  const subnetByPortGroup = new Map(ctx.subnets.map(s => [s.sourcePortGroup, s]));
+
+  for (const vm of vms) {
+    const subnet = (vm.portGroup && subnetByPortGroup.get(vm.portGroup)) || ctx.subnets[0];
+    const subnetId = ctx.subnetIds.get(subnet.id)!;
+    const sg = ctx.design.securityGroups.find(g => g.id === subnet.securityGroupId);
+    const instanceId = ctx.ids.get('ibm_is_instance', vm.vmName);
+    ctx.instanceIds.set(vm.vmName, instanceId);
+    const name = toResourceName(vm.vmName);
+    const defaultImage = isWindows(vm.guestOS) ? 'var.default_windows_image_id' : 'var.default_linux_image_id';
+
+    if (vm.bootVolumeGiB > MAX_BOOT_VOLUME_GIB) {
+      ctx.warnings.push(`${vm.vmName}: boot disk (${vm.bootVolumeGiB} GiB) exceeds the ${MAX_BOOT_VOLUME_GIB} GiB boot volume limit and was capped.`);
+    }
+
+    lines.push(
+      `# ${vm.vmName} — ${vm.guestOS || 'unknown OS'}, ${vm.vcpus} vCPU, ${vm.memoryGiB} GiB`,
+      `resource "ibm_is_instance" "${instanceId}" {`,
+      `  name           = ${hclString(name)}`,
+      `  vpc            = ibm_is_vpc.${ctx.vpcId}.id`,
+      `  zone           = ${hclString(subnet.zone)}`,
+      `  profile        = ${hclString(vm.profile)}`,
+      `  image          = lookup(var.vm_image_ids, ${hclString(vm.vmName)}, ${defaultImage})`,
+      '  keys           = var.ssh_key_ids',
+      '  resource_group = data.ibm_resource_group.migration.id',
+      '',
+      '  primary_network_interface {',
+      `    subnet          = ibm_is_subnet.${subnetId}.id`,
+      ...(sg ? [`    security_groups = [ibm_is_security_group.${ctx.securityGroupIds.get(sg.id)}.id]`] : []),
+      '  }',
+      '',
+      '  boot_volume {',
+      `    name = ${hclString(toResourceName(`${name}-boot`))}`,
+      `    size = ${Math.min(Math.max(vm.bootVolumeGiB, MIN_VOLUME_GIB), MAX_BOOT_VOLUME_GIB)}`,
+      '  }',
+      '}',
+      '',
+    );
+
+    vm.dataVolumes.forEach((volume, index) => {
+      const volumeName = toResourceName(`${name}-data-${index + 1}`);
+      const volumeId = ctx.ids.get('ibm_is_volume', `${instanceId}_data_${index + 1}`);
+      if (volume.sizeGiB > MAX_VOLUME_GIB) {
+        ctx.warnings.push(`${vm.vmName}: data disk ${index + 1} (${volume.sizeGiB} GiB) exceeds the ${MAX_VOLUME_GIB} GiB volume limit and was capped.`);
+      }
+      lines.push(
+        `resource "ibm_is_volume" "${volumeId}" {`,
+        `  name           = ${hclString(volumeName)}`,
+        `  profile        = ${hclString(ctx.config.dataVolumeProfile)}`,
+        `  zone           = ${hclString(subnet.zone)}`,
+        `  capacity       = ${Math.min(Math.max(volume.sizeGiB, MIN_VOLUME_GIB), MAX_VOLUME_GIB)}`,
+        '  resource_group = data.ibm_resource_group.migration.id',
+        '}',
+        '',
+        `resource "ibm_is_instance_volume_attachment" "${volumeId}" {`,
+        `  instance                         = ibm_is_instance.${instanceId}.id`,
+        `  volume                           = ibm_is_volume.${volumeId}.id`,
+        `  name                             = ${hclString(toResourceName(`${volumeName}-att`))}`,
+        '  delete_volume_on_instance_delete = true',
+        '}',
+        '',
+      );
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function generateOutputsFile(ctx: GeneratorContext): string {
+  const lines = [
+    'output "vpc_id" {',
+    `  value = ibm_is_vpc.${ctx.vpcId}.id`,
+    '}',
+    '',
+    'output "subnet_ids" {',
+    '  value = {',
+    ...ctx.subnets.map(s => `    ${hclString(s.name)} = ibm_is_subnet.${ctx.subnetIds.get(s.id)}.id`),
+    '  }',
+    '}',
+    '',
+  ];
+  if (ctx.instanceIds.size > 0) {
+    lines.push(
+      'output "instance_primary_ips" {',
+      '  value = {',
+      ...[...ctx.instanceIds].map(([vmName, id]) => `    ${hclString(vmName)} = ibm_is_instance.${id}.primary_network_interface[0].primary_ip[0].address`),
+      '  }',
+      '}',
+      '',
+    );
+  }
+  return lines.join('\n');
+}
+
+function generateReadme(ctx: GeneratorContext, vmCount: number): string {
+  const lines = [
+    '# IBM Cloud VPC migration — Terraform',
+    '',
+    `Generated ${new Date().toISOString().split('T')[0]} for region ${ctx.design.region}: ` +
+      `${ctx.subnets.length} subnets, ${ctx.design.securityGroups.length} security groups, ${vmCount} virtual server instances.`,
+    '',
+    '## Usage',
+    '',
+    '1. Copy `terraform.tfvars.example` to `terraform.tfvars` and set the image and SSH key IDs.',
+    '2. Set `IC_API_KEY` to an IBM Cloud API key.',
+    '3. Run `terraform init`, `terraform plan` and review the plan before `terraform apply`.',
+    '',
+  ];
+  if (ctx.warnings.length > 0) {
+    lines.push('## Review before applying', '', ...ctx.warnings.map(w => `- ${w}`), '');
+  }
+  return lines.join('\n');
+}
+
+function generateTfvarsExample(): string {
+  return [
+    'ssh_key_ids              = ["r006-00000000-0000-0000-0000-000000000000"]',
+    'default_linux_image_id   = "r006-00000000-0000-0000-0000-000000000000"',
+    'default_windows_image_id = "r006-00000000-0000-0000-0000-000000000000"',
+    '',
+    '# Optional: per-VM images, e.g. custom images imported from the source VMs',
+    '# vm_image_ids = {',
+    '#   "web-server-01" = "r006-00000000-0000-0000-0000-000000000000"',
+    '# }',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate the Terraform configuration files for a VPC design and VSI fleet
+ */
+export function generateTerraformFiles(
+  design: VPCDesign,
+  vms: TerraformVSI[],
+  config: Partial<TerraformConfig> = {}
+): TerraformFile[] {
+  const ids = new IdentifierRegistry();
+
+  // Instances need a subnet — add a default one when the design has none
+  const subnets: VPCSubnet[] = design.subnets.length > 0 ? design.subnets : [{
+    id: 'subnet-default',
+    name: 'sn-default',
+    cidr: '10.240.0.0/24',
+    sourcePortGroup: 'Default',
+    zone: design.zones[0]?.name ?? `${design.region}-1`,
+    vmCount: vms.length,
+    securityGroupId: '',
+    purpose: 'Default',
+  }];
+
+  const ctx: GeneratorContext = {
+    design,
+    subnets,
+    config: { ...DEFAULT_CONFIG, ...config },
+    ids,
+    vpcId: ids.get('ibm_is_vpc', design.vpcName),
+    subnetIds: new Map(subnets.map(s => [s.id, ids.get('ibm_is_subnet', s.name)])),
+    securityGroupIds: new Map(design.securityGroups.map(sg => [sg.id, ids.get('ibm_is_security_group', sg.name)])),
+    instanceIds: new Map(),
+    warnings: [],
+  };
+
+  const transitVariables: string[] = [];
+  const files: TerraformFile[] = [
+    { name: 'versions.tf', content: generateVersionsFile(ctx) },
+    { name: 'vpc.tf', content: generateVPCFile(ctx) },
+    { name: 'security_groups.tf', content: generateSecurityGroupsFile(ctx) },
+  ];
+
+  const transitGateway = generateTransitGatewayFile(ctx, transitVariables);
+  if (transitGateway) {
+    files.push({ name: 'transit_gateway.tf', content: transitGateway });
+  }
+  if (vms.length > 0) {
+    files.push({ name: 'instances.tf', content: generateInstancesFile(ctx, vms) });
+  }
+
+  files.push(
+    { name: 'variables.tf', content: generateVariablesFile(ctx, transitVariables) },
+    { name: 'outputs.tf', content: generateOutputsFile(ctx) },
+    { name: 'terraform.tfvars.example', content: generateTfvarsExample() },
+    { name: 'README.md', content: generateReadme(ctx, vms.length) },
+  );
+
+  return files;
+}
+
+/**
+ * Generate the Terraform configuration as a ZIP archive
+ */
+export async function generateTerraformBundle(
+  design: VPCDesign,
+  vms: TerraformVSI[],
+  config: Partial<TerraformConfig> = {}
+): Promise<Blob> {
+  const JSZip = (await import('jszip')).default;
+  const zip = new JSZip();
+  for (const file of generateTerraformFiles(design, vms, config)) {
+    zip.file(`terraform/${file.name}`, file.content);
+  }
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -1,8 +1,8 @@
 // YAML Generator Tests
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { MTVYAMLGenerator, downloadBlob, downloadYAML } from './yamlGenerator';
+import { MTVYAMLGenerator, downloadBlob, downloadYAML, toRFC1123Name, parseNetworkDestination } from './yamlGenerator';
 import type { MTVExportOptions } from '@/types/mtvYaml';
-import type { VNetworkInfo, VDatastoreInfo, VirtualMachine } from '@/types/rvtools';
+import type { VNetworkInfo, VDatastoreInfo, VDiskInfo, VirtualMachine } from '@/types/rvtools';
 
 const defaultOptions: MTVExportOptions = {
   namespace: 'openshift-mtv',
@@ -249,6 +249,154 @@ describe('MTVYAMLGenerator', () => {
     });
   });
 
+  describe('YAML formatting', () => {
+    it('indents nested mappings and sequence items consistently', () => {
+      const yaml = generator.generatePlan('wave-1', [mockVMs[0]] as VirtualMachine[]);
+
+      expect(yaml).toContain('metadata:\n  name: wave-1\n  namespace: openshift-mtv\n');
+      expect(yaml).toContain('  provider:\n    source:\n      name: vmware-source\n      namespace: openshift-mtv\n');
+      expect(yaml).toContain('  vms:\n    - name: test-vm-1\n      id: uuid-123-456\n');
+    });
+  });
+
+  describe('generateProviders', () => {
+    it('generates vSphere and host providers referencing the credentials secret', () => {
+      const yaml = new MTVYAMLGenerator({ ...defaultOptions, vcenterUrl: 'https://vc01.example.com/sdk' }).generateProviders();
+
+      expect(yaml.match(/kind: Provider/g)).toHaveLength(2);
+      expect(yaml).toContain('type: vsphere');
+      expect(yaml).toContain('url: "https://vc01.example.com/sdk"');
+      expect(yaml).toContain('name: vmware-source-credentials');
+      expect(yaml).toContain('type: openshift');
+    });
+
+    it('generates a credentials secret template', () => {
+      const yaml = generator.generateCredentialsSecret();
+
+      expect(yaml).toContain('kind: Secret');
+      expect(yaml).toContain('name: vmware-source-credentials');
+      expect(yaml).toContain('createdForProviderType: vsphere');
+      expect(yaml).toContain('password: REPLACE_WITH_VCENTER_PASSWORD');
+    });
+  });
+
+  describe('hooks and migrations', () => {
+    it('generates hooks only when configured and references them from plan VMs', () => {
+      expect(generator.generateHook('PreHook')).toBeNull();
+
+      const hooked = new MTVYAMLGenerator({
+        ...defaultOptions,
+        preHook: { image: 'quay.io/konveyor/hook-runner', playbook: '- hosts: localhost' },
+      });
+      const hook = hooked.generateHook('PreHook');
+
+      expect(hook).toContain('kind: Hook');
+      expect(hook).toContain(`playbook: ${btoa('- hosts: localhost')}`);
+      expect(hooked.generateHook('PostHook')).toBeNull();
+      expect(hooked.generatePlan('wave-1', mockVMs as VirtualMachine[])).toContain('step: PreHook');
+    });
+
+    it('generates a Migration CR referencing the wave plan', () => {
+      const yaml = generator.generateMigration('Wave 1: Pilot');
+
+      expect(yaml).toContain('kind: Migration');
+      expect(yaml).toContain('name: wave-1-pilot-migration');
+      expect(yaml).toMatch(/plan:\s+name: wave-1-pilot/);
+    });
+  });
+
+  describe('target names', () => {
+    it('sanitises VM names to RFC 1123 labels', () => {
+      expect(toRFC1123Name('Web_Server.01')).toBe('web-server-01');
+      expect(toRFC1123Name('-' + 'a'.repeat(70))).toHaveLength(63);
+      expect(toRFC1123Name('___')).toBe('vm');
+    });
+
+    it('adds unique target names only for non-compliant VM names', () => {
+      const vms = [{ vmName: 'WEB_01' }, { vmName: 'web-01' }, { vmName: 'web.01' }] as VirtualMachine[];
+      const targetNames = generator.assignTargetNames(vms);
+
+      expect([...targetNames.values()]).toEqual(['web-01', 'web-01-2', 'web-01-3']);
+
+      const yaml = generator.generatePlan('wave', vms);
+      expect(yaml).toContain('targetName: web-01');
+      expect(yaml.match(/targetName:/g)).toHaveLength(3);
+    });
+  });
+
+  describe('validateBundle', () => {
+    const vms = mockVMs as VirtualMachine[];
+    const nics = [
+      { vmName: 'test-vm-1', networkName: 'VM Network' },
+      { vmName: 'test-vm-2', networkName: 'Isolated' },
+    ] as VNetworkInfo[];
+    const disks = [
+      { vmName: 'test-vm-1', diskPath: '[datastore-ssd-1] test-vm-1/test-vm-1.vmdk' },
+      { vmName: 'test-vm-2', diskPath: '[local-ds] test-vm-2/test-vm-2.vmdk' },
+    ] as VDiskInfo[];
+
+    it('passes when every network and datastore in use is mapped', () => {
+      const explicit = new MTVYAMLGenerator({
+        ...defaultOptions,
+        networkMappings: { 'VM Network': { type: 'pod' }, Isolated: { type: 'multus', namespace: 'vms', name: 'isolated' } },
+        storageMappings: { 'datastore-ssd-1': 'ocs-storagecluster-ceph-rbd' },
+      });
+      const result = explicit.validateBundle([{ name: 'wave-1', vms }], nics, disks.slice(0, 1));
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it('reports unmapped networks and datastores', () => {
+      const explicit = new MTVYAMLGenerator({ ...defaultOptions, networkMappings: { 'VM Network': { type: 'pod' } } });
+      const result = explicit.validateBundle([{ name: 'wave-1', vms }], nics, disks);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => [e.field, e.source])).toEqual([
+        ['network', 'Isolated'],
+        ['datastore', 'datastore-ssd-1'],
+        ['datastore', 'local-ds'],
+      ]);
+    });
+
+    it('reports sources left to the default pod network and storage class', () => {
+      const result = generator.validateBundle([{ name: 'wave-1', vms }], nics, disks);
+
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Network "VM Network" used by 1 VM is not mapped',
+        'Network "Isolated" used by 1 VM is not mapped',
+        'Datastore "datastore-ssd-1" used by 1 VM is not mapped',
+        'Datastore "local-ds" used by 1 VM is not mapped',
+      ]);
+    });
+
+    it('rejects invalid bundles before generating them', async () => {
+      await expect(generator.generateBundle([{ name: 'empty', vms: [] }], [], [])).rejects.toThrow('validation failed');
+    });
+  });
+
+  describe('generateBundleFiles', () => {
+    it('includes providers, secret, maps, plans and migrations', () => {
+      const files = generator.generateBundleFiles(
+        [{ name: 'wave-1', vms: [mockVMs[0]] as VirtualMachine[] }, { name: 'wave-2', vms: [mockVMs[1]] as VirtualMachine[] }],
+        mockNetworks as VNetworkInfo[],
+        mockDatastores as VDatastoreInfo[],
+      );
+
+      expect(files.map(f => f.name)).toEqual([
+        'secret-vsphere-credentials.yaml',
+        'providers.yaml',
+        'network-map.yaml',
+        'storage-map.yaml',
+        'plan-wave-1-wave-1.yaml',
+        'plan-wave-2-wave-2.yaml',
+        'all-resources.yaml',
+        'migrations/migration-wave-1-wave-1.yaml',
+        'migrations/migration-wave-2-wave-2.yaml',
+      ]);
+      expect(files.find(f => f.name === 'all-resources.yaml')?.content).not.toContain('kind: Migration');
+    });
+  });
+
   describe('sanitizeName', () => {
     it('converts to lowercase', () => {
       const yaml = generator.generatePlan('UPPERCASE', mockVMs as VirtualMachine[]);
@@ -276,6 +424,19 @@ describe('MTVYAMLGenerator', () => {
   });
 });
 
+describe('parseNetworkDestination', () => {
+  it('parses the pod network and NetworkAttachmentDefinitions', () => {
+    expect(parseNetworkDestination('pod')).toEqual({ type: 'pod' });
+    expect(parseNetworkDestination(' vms/vlan-100 ')).toEqual({ type: 'multus', namespace: 'vms', name: 'vlan-100' });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseNetworkDestination('')).toBeNull();
+    expect(parseNetworkDestination('VLAN 100')).toBeNull();
+    expect(parseNetworkDestination('vms/')).toBeNull();
+  });
+});
+
 describe('downloadBlob', () => {
   beforeEach(() => {
     // Mock DOM methods
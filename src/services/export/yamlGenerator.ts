@@ -3,69 +3,188 @@ import type {
   MTVPlan,
   MTVNetworkMap,
   MTVStorageMap,
+  MTVProvider,
+  MTVSecret,
+  MTVHook,
+  MTVMigration,
   MTVExportOptions,
+  MTVBundleValidation,
+  MTVValidationError,
   NetworkMapEntry,
   StorageMapEntry,
   VMReference,
+  VMHook,
 } from '@/types/mtvYaml';
-import type { VNetworkInfo, VDatastoreInfo, VirtualMachine } from '@/types/rvtools';
+import type { VNetworkInfo, VDatastoreInfo, VDiskInfo, VirtualMachine } from '@/types/rvtools';
 
-// Simple YAML serializer (avoiding additional dependency)
-function toYAML(obj: unknown, indent = 0): string {
-  const spaces = '  '.repeat(indent);
+export interface MTVWave {
+  name: string;
+  vms: VirtualMachine[];
+}
+
+export interface MTVBundleFile {
+  name: string;
+  content: string;
+}
+
+/** A network or datastore used by the VMs in a bundle */
+export interface MTVBundleSource {
+  name: string;
+  vmCount: number;
+}
+
+export interface MTVBundleSources {
+  networks: MTVBundleSource[];
+  datastores: MTVBundleSource[];
+}
+
+const DEFAULT_VCENTER_URL = 'https://vcenter.example.com/sdk';
+const MANAGED_BY_LABEL = { 'app.kubernetes.io/managed-by': 'rvtools-analyzer' };
+
+/**
+ * Convert a VM name to an RFC 1123 label, the format required for VM names
+ * on OpenShift (see the rfc1123-name pre-flight check)
+ */
+export function toRFC1123Name(name: string): string {
+  const sanitized = name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+/, '')
+    .substring(0, 63)
+    .replace(/-+$/, '');
+  return sanitized || 'vm';
+}
+
+/**
+ * Extract the datastore name from a disk path such as "[datastore1] vm/vm.vmdk"
+ */
+function getDatastoreFromPath(diskPath: string): string | null {
+  const match = diskPath?.match(/^\[([^\]]+)\]/);
+  return match ? match[1] : null;
+}
 
-  if (obj === null || obj === undefined) {
+/**
+ * List the networks and datastores used by the VMs in the waves — the sources
+ * a bundle's NetworkMap and StorageMap must map
+ */
+export function collectBundleSources(
+  waves: MTVWave[],
+  networks: VNetworkInfo[],
+  disks: VDiskInfo[] = []
+): MTVBundleSources {
+  const vmNames = new Set(waves.flatMap(w => w.vms.map(vm => vm.vmName)));
+
+  const networkVMs = new Map<string, Set<string>>();
+  networks.forEach(nic => {
+    if (!vmNames.has(nic.vmName) || !nic.networkName) return;
+    const vms = networkVMs.get(nic.networkName) ?? new Set<string>();
+    vms.add(nic.vmName);
+    networkVMs.set(nic.networkName, vms);
+  });
+
+  const datastoreVMs = new Map<string, Set<string>>();
+  disks.forEach(disk => {
+    const datastore = getDatastoreFromPath(disk.diskPath);
+    if (!vmNames.has(disk.vmName) || !datastore) return;
+    const vms = datastoreVMs.get(datastore) ?? new Set<string>();
+    vms.add(disk.vmName);
+    datastoreVMs.set(datastore, vms);
+  });
+
+  const toSources = (usage: Map<string, Set<string>>): MTVBundleSource[] =>
+    Array.from(usage, ([name, vms]) => ({ name, vmCount: vms.size }));
+  return { networks: toSources(networkVMs), datastores: toSources(datastoreVMs) };
+}
+
+/**
+ * Parse a network map destination: "pod" for the pod network, or
+ * "namespace/name" for a Multus NetworkAttachmentDefinition
+ */
+export function parseNetworkDestination(value: string): NetworkMapEntry['destination'] | null {
+  const trimmed = value.trim();
+  if (trimmed === 'pod') return { type: 'pod' };
+  const match = trimmed.match(/^([a-z0-9]([-a-z0-9]*[a-z0-9])?)\/([a-z0-9]([-a-z0-9]*[a-z0-9])?)$/);
+  return match ? { type: 'multus', namespace: match[1], name: match[3] } : null;
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+// Simple YAML serializer (avoiding additional dependency)
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
     return 'null';
   }
 
-  if (typeof obj === 'boolean') {
-    return obj ? 'true' : 'false';
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
   }
 
-  if (typeof obj === 'number') {
-    return String(obj);
+  if (typeof value === 'number') {
+    return String(value);
   }
 
-  if (typeof obj === 'string') {
+  if (typeof value === 'string') {
     // Quote strings that need quoting
-    if (obj.includes(':') || obj.includes('#') || obj.includes('\n') ||
-        obj.startsWith(' ') || obj.endsWith(' ') || /^\d/.test(obj) ||
-        obj === 'true' || obj === 'false' || obj === 'null' || obj === '') {
-      return `"${obj.replace(/"/g, '\\"')}"`;
+    if (value.includes(':') || value.includes('#') || value.includes('\n') ||
+        value.startsWith(' ') || value.endsWith(' ') || /^\d/.test(value) ||
+        /^[-?[\]{},&*!|>'"%@`]/.test(value) ||
+        value === 'true' || value === 'false' || value === 'null' || value === '') {
+      return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
     }
-    return obj;
+    return value;
   }
 
+  return String(value);
+}
+
+function isNonEmptyObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).some(v => v !== undefined);
+}
+
+function isNonEmptyArray(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.length > 0;
+}
+
+// Serialize a value; every line of a collection starts at the given indent level
+function toYAML(obj: unknown, indent = 0): string {
+  const spaces = '  '.repeat(indent);
+
   if (Array.isArray(obj)) {
-    if (obj.length === 0) return '[]';
+    if (obj.length === 0) return `${spaces}[]`;
     return obj.map(item => {
-      const itemYaml = toYAML(item, indent + 1);
-      if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
-        // Complex object - format with proper indentation
-        const lines = itemYaml.split('\n');
-        return `${spaces}- ${lines[0]}\n${lines.slice(1).map(l => `${spaces}  ${l}`).join('\n')}`;
+      if (isNonEmptyObject(item)) {
+        // First key goes on the dash line, the rest align under it
+        return `${spaces}- ${toYAML(item, indent + 1).trimStart()}`;
+      }
+      if (isNonEmptyArray(item)) {
+        return `${spaces}-\n${toYAML(item, indent + 1)}`;
       }
-      return `${spaces}- ${itemYaml}`;
+      return `${spaces}- ${Array.isArray(item) ? '[]' : typeof item === 'object' && item !== null ? '{}' : formatScalar(item)}`;
     }).join('\n');
   }
 
-  if (typeof obj === 'object') {
+  if (typeof obj === 'object' && obj !== null) {
     const entries = Object.entries(obj).filter(([, v]) => v !== undefined);
-    if (entries.length === 0) return '{}';
+    if (entries.length === 0) return `${spaces}{}`;
 
     return entries.map(([key, value]) => {
-      const valueYaml = toYAML(value, indent + 1);
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        return `${key}:\n${'  '.repeat(indent + 1)}${valueYaml.split('\n').join('\n' + '  '.repeat(indent + 1))}`;
+      if (isNonEmptyObject(value) || isNonEmptyArray(value)) {
+        return `${spaces}${key}:\n${toYAML(value, indent + 1)}`;
       }
-      if (Array.isArray(value)) {
-        return `${key}:\n${valueYaml}`;
-      }
-      return `${key}: ${valueYaml}`;
-    }).join('\n' + spaces);
+      if (Array.isArray(value)) return `${spaces}${key}: []`;
+      if (typeof value === 'object' && value !== null) return `${spaces}${key}: {}`;
+      return `${spaces}${key}: ${formatScalar(value)}`;
+    }).join('\n');
   }
 
-  return String(obj);
+  return formatScalar(obj);
 }
 
 // Format as proper YAML document
@@ -82,9 +201,11 @@ export class MTVYAMLGenerator {
   }
 
   /**
-   * Generate a Migration Plan CRD for a wave of VMs
+   * Generate a Migration Plan CRD for a wave of VMs.
+   * Target names default to RFC 1123 names unique within the wave; pass the
+   * names from assignTargetNames() to keep them unique across a bundle.
    */
-  generatePlan(waveName: string, vms: VirtualMachine[]): string {
+  generatePlan(waveName: string, vms: VirtualMachine[], targetNames: Map<string, string> = this.assignTargetNames(vms)): string {
     const plan: MTVPlan = {
       apiVersion: 'forklift.konveyor.io/v1beta1',
       kind: 'Plan',
@@ -118,7 +239,7 @@ export class MTVYAMLGenerator {
             namespace: this.options.namespace,
           },
         },
-        vms: vms.map(vm => this.vmToReference(vm)),
+        vms: vms.map(vm => this.vmToReference(vm, targetNames.get(vm.vmName))),
         preserveStaticIPs: this.options.preserveStaticIPs ?? false,
       },
     };
@@ -138,6 +259,13 @@ export class MTVYAMLGenerator {
       }
     });
 
+    // Explicit mappings replace the default map-everything-to-pod behaviour
+    const mappings = this.options.networkMappings;
+    const entries = mappings
+      ? Object.entries(mappings).map(([name, destination]) =>
+        this.networkToMapEntry(uniqueNetworks.get(name) ?? { networkName: name } as VNetworkInfo, destination))
+      : Array.from(uniqueNetworks.values()).map(net => this.networkToMapEntry(net));
+
     const networkMap: MTVNetworkMap = {
       apiVersion: 'forklift.konveyor.io/v1beta1',
       kind: 'NetworkMap',
@@ -149,7 +277,7 @@ export class MTVYAMLGenerator {
         },
       },
       spec: {
-        map: Array.from(uniqueNetworks.values()).map(net => this.networkToMapEntry(net)),
+        map: entries,
         provider: {
           source: {
             name: this.options.sourceProviderName,
@@ -189,7 +317,10 @@ export class MTVYAMLGenerator {
         },
       },
       spec: {
-        map: Array.from(uniqueDatastores.values()).map(ds => this.datastoreToMapEntry(ds)),
+        map: this.options.storageMappings
+          ? Object.entries(this.options.storageMappings).map(([name, storageClass]) =>
+            this.datastoreToMapEntry(uniqueDatastores.get(name) ?? { name } as VDatastoreInfo, storageClass))
+          : Array.from(uniqueDatastores.values()).map(ds => this.datastoreToMapEntry(ds)),
         provider: {
           source: {
             name: this.options.sourceProviderName,
@@ -207,44 +338,237 @@ export class MTVYAMLGenerator {
   }
 
   /**
-   * Generate all YAML files and bundle them
+   * Generate the source (vSphere) and destination (host cluster) Provider CRDs
    */
-  async generateBundle(
-    waves: { name: string; vms: VirtualMachine[] }[],
+  generateProviders(): string {
+    const sourceProvider: MTVProvider = {
+      apiVersion: 'forklift.konveyor.io/v1beta1',
+      kind: 'Provider',
+      metadata: {
+        name: this.options.sourceProviderName,
+        namespace: this.options.namespace,
+        labels: MANAGED_BY_LABEL,
+      },
+      spec: {
+        type: 'vsphere',
+        url: this.options.vcenterUrl || DEFAULT_VCENTER_URL,
+        secret: {
+          name: this.getSecretName(),
+          namespace: this.options.namespace,
+        },
+        ...(this.options.vddkInitImage && { settings: { vddkInitImage: this.options.vddkInitImage } }),
+      },
+    };
+
+    // An OpenShift provider without a URL targets the cluster MTV runs on
+    const destinationProvider: MTVProvider = {
+      apiVersion: 'forklift.konveyor.io/v1beta1',
+      kind: 'Provider',
+      metadata: {
+        name: this.options.destinationProviderName,
+        namespace: this.options.namespace,
+        labels: MANAGED_BY_LABEL,
+      },
+      spec: {
+        type: 'openshift',
+      },
+    };
+
+    return formatYAMLDocument(sourceProvider) + formatYAMLDocument(destinationProvider);
+  }
+
+  /**
+   * Generate the vCenter credentials Secret template referenced by the vSphere Provider
+   */
+  generateCredentialsSecret(): string {
+    const secret: MTVSecret = {
+      apiVersion: 'v1',
+      kind: 'Secret',
+      metadata: {
+        name: this.getSecretName(),
+        namespace: this.options.namespace,
+        labels: {
+          ...MANAGED_BY_LABEL,
+          createdForProviderType: 'vsphere',
+          createdForResourceType: 'providers',
+        },
+      },
+      type: 'Opaque',
+      stringData: {
+        user: 'REPLACE_WITH_VCENTER_USER',
+        password: 'REPLACE_WITH_VCENTER_PASSWORD',
+        url: this.options.vcenterUrl || DEFAULT_VCENTER_URL,
+        insecureSkipVerify: 'false',
+      },
+    };
+
+    return formatYAMLDocument(secret);
+  }
+
+  /**
+   * Generate a pre- or post-migration Hook CRD, or null when the hook is not configured
+   */
+  generateHook(step: VMHook['step']): string | null {
+    const hookOptions = step === 'PreHook' ? this.options.preHook : this.options.postHook;
+    if (!hookOptions?.image) return null;
+
+    const hook: MTVHook = {
+      apiVersion: 'forklift.konveyor.io/v1beta1',
+      kind: 'Hook',
+      metadata: {
+        name: this.getHookName(step),
+        namespace: this.options.namespace,
+        labels: MANAGED_BY_LABEL,
+      },
+      spec: {
+        image: hookOptions.image,
+        ...(hookOptions.playbook && { playbook: encodeBase64(hookOptions.playbook) }),
+        ...(hookOptions.serviceAccount && { serviceAccount: hookOptions.serviceAccount }),
+      },
+    };
+
+    return formatYAMLDocument(hook);
+  }
+
+  /**
+   * Generate the Migration CR that starts the Plan for a wave
+   */
+  generateMigration(waveName: string): string {
+    const planName = this.sanitizeName(waveName);
+    const migration: MTVMigration = {
+      apiVersion: 'forklift.konveyor.io/v1beta1',
+      kind: 'Migration',
+      metadata: {
+        name: this.sanitizeName(`${planName.substring(0, 53)}-migration`),
+        namespace: this.options.namespace,
+        labels: MANAGED_BY_LABEL,
+      },
+      spec: {
+        plan: {
+          name: planName,
+          namespace: this.options.namespace,
+        },
+      },
+    };
+
+    return formatYAMLDocument(migration);
+  }
+
+  /**
+   * Assign RFC 1123 target names, unique across the given VMs
+   */
+  assignTargetNames(vms: VirtualMachine[]): Map<string, string> {
+    const targetNames = new Map<string, string>();
+    const used = new Set<string>();
+    for (const vm of vms) {
+      if (targetNames.has(vm.vmName)) continue;
+      const base = toRFC1123Name(vm.vmName);
+      let name = base;
+      for (let n = 2; used.has(name); n++) {
+        const suffix = `-${n}`;
+        name = `${base.substring(0, 63 - suffix.length).replace(/-+$/, '')}${suffix}`;
+      }
+      used.add(name);
+      targetNames.set(vm.vmName, name);
+    }
+    return targetNames;
+  }
+
+  /**
+   * Check that every network and datastore used by the VMs in the waves has an
+   * explicit mapping. Sources left to the default pod network or default
+   * storage class are reported, so a bundle is never exported on guesses.
+   */
+  validateBundle(
+    waves: MTVWave[],
     networks: VNetworkInfo[],
-    datastores: VDatastoreInfo[]
-  ): Promise<Blob> {
-    const files: { name: string; content: string }[] = [];
+    disks: VDiskInfo[] = []
+  ): MTVBundleValidation {
+    const errors: MTVValidationError[] = [];
 
-    // Generate NetworkMap
-    files.push({
-      name: 'network-map.yaml',
-      content: this.generateNetworkMap(networks),
-    });
+    if (!waves.some(w => w.vms.length > 0)) {
+      errors.push({ field: 'plan', source: '', message: 'No VMs to migrate — every wave is empty' });
+    }
 
-    // Generate StorageMap
-    files.push({
-      name: 'storage-map.yaml',
-      content: this.generateStorageMap(datastores),
-    });
+    const sources = collectBundleSources(waves, networks, disks);
+    const countVMs = (n: number) => `${n} VM${n !== 1 ? 's' : ''}`;
+    sources.networks
+      .filter(({ name }) => !this.options.networkMappings?.[name])
+      .forEach(({ name, vmCount }) => {
+        errors.push({ field: 'network', source: name, message: `Network "${name}" used by ${countVMs(vmCount)} is not mapped` });
+      });
+    sources.datastores
+      .filter(({ name }) => !this.options.storageMappings?.[name])
+      .forEach(({ name, vmCount }) => {
+        errors.push({ field: 'datastore', source: name, message: `Datastore "${name}" used by ${countVMs(vmCount)} is not mapped` });
+      });
+
+    return { valid: errors.length === 0, errors };
+  }
 
-    // Generate Plan for each wave
+  /**
+   * Generate all bundle files. Throws if the bundle fails validation.
+   */
+  generateBundleFiles(
+    waves: MTVWave[],
+    networks: VNetworkInfo[],
+    datastores: VDatastoreInfo[],
+    disks: VDiskInfo[] = []
+  ): MTVBundleFile[] {
+    const validation = this.validateBundle(waves, networks, disks);
+    if (!validation.valid) {
+      throw new Error(`MTV bundle validation failed: ${validation.errors.map(e => e.message).join('; ')}`);
+    }
+
+    const files: MTVBundleFile[] = [
+      { name: 'secret-vsphere-credentials.yaml', content: this.generateCredentialsSecret() },
+      { name: 'providers.yaml', content: this.generateProviders() },
+      { name: 'network-map.yaml', content: this.generateNetworkMap(networks) },
+      { name: 'storage-map.yaml', content: this.generateStorageMap(datastores) },
+    ];
+
+    const preHook = this.generateHook('PreHook');
+    if (preHook) files.push({ name: 'hook-pre-migration.yaml', content: preHook });
+    const postHook = this.generateHook('PostHook');
+    if (postHook) files.push({ name: 'hook-post-migration.yaml', content: postHook });
+
+    // Generate Plan for each wave, with target names unique across the bundle
+    const targetNames = this.assignTargetNames(waves.flatMap(w => w.vms));
     waves.forEach((wave, index) => {
       files.push({
         name: `plan-wave-${index + 1}-${this.sanitizeName(wave.name)}.yaml`,
-        content: this.generatePlan(wave.name, wave.vms),
+        content: this.generatePlan(wave.name, wave.vms, targetNames),
       });
     });
 
-    // Generate combined file
+    // Generate combined file — Migration CRs start a wave, so they stay out of it
     const combined = files.map(f => `# ${f.name}\n${f.content}`).join('\n');
     files.push({
       name: 'all-resources.yaml',
       content: combined,
     });
 
+    waves.forEach((wave, index) => {
+      files.push({
+        name: `migrations/migration-wave-${index + 1}-${this.sanitizeName(wave.name)}.yaml`,
+        content: this.generateMigration(wave.name),
+      });
+    });
+
+    return files;
+  }
+
+  /**
+   * Generate all YAML files and bundle them. Throws if the bundle fails validation.
+   */
+  async generateBundle(
+    waves: MTVWave[],
+    networks: VNetworkInfo[],
+    datastores: VDatastoreInfo[],
+    disks: VDiskInfo[] = []
+  ): Promise<Blob> {
     // Create ZIP file
-    return this.createZipBlob(files);
+    return this.createZipBlob(this.generateBundleFiles(waves, networks, datastores, disks));
   }
 
   /**
@@ -257,35 +581,50 @@ export class MTVYAMLGenerator {
 
   // Private helper methods
 
-  private vmToReference(vm: VirtualMachine): VMReference {
+  private vmToReference(vm: VirtualMachine, targetName?: string): VMReference {
+    const hooks: VMHook[] = (['PreHook', 'PostHook'] as const)
+      .filter(step => (step === 'PreHook' ? this.options.preHook : this.options.postHook)?.image)
+      .map(step => ({ hook: { name: this.getHookName(step), namespace: this.options.namespace }, step }));
+
     return {
       name: vm.vmName,
       // UUID is preferred but may not always be available
       ...(vm.uuid && { id: vm.uuid }),
+      ...(targetName && targetName !== vm.vmName && { targetName }),
+      ...(hooks.length > 0 && { hooks }),
     };
   }
 
-  private networkToMapEntry(network: VNetworkInfo): NetworkMapEntry {
+  private getSecretName(): string {
+    return this.options.credentialsSecretName || this.sanitizeName(`${this.options.sourceProviderName}-credentials`);
+  }
+
+  private getHookName(step: VMHook['step']): string {
+    return step === 'PreHook' ? 'pre-migration-hook' : 'post-migration-hook';
+  }
+
+  private networkToMapEntry(
+    network: VNetworkInfo,
+    // Default to pod networking - users can customize
+    // For multus: type: 'multus', name: 'nad-name', namespace: 'nad-namespace'
+    destination: NetworkMapEntry['destination'] = { type: 'pod' }
+  ): NetworkMapEntry {
     return {
       source: {
         name: network.networkName,
         type: network.switchName?.includes('dvs') ? 'dvportgroup' : 'network',
       },
-      destination: {
-        type: 'pod',
-        // Default to pod networking - users can customize
-        // For multus: type: 'multus', name: 'nad-name', namespace: 'nad-namespace'
-      },
+      destination,
     };
   }
 
-  private datastoreToMapEntry(datastore: VDatastoreInfo): StorageMapEntry {
+  private datastoreToMapEntry(datastore: VDatastoreInfo, storageClass = this.options.defaultStorageClass): StorageMapEntry {
     return {
       source: {
         name: datastore.name,
       },
       destination: {
-        storageClass: this.options.defaultStorageClass,
+        storageClass,
         accessMode: 'ReadWriteOnce',
         volumeMode: 'Filesystem',
       },
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyHealthMessage,
+  getHealthFindingsByVM,
+  countHealthFindings,
+} from './healthFindings';
+import type { VHealthInfo } from '@/types/rvtools';
+
+function makeHealth(entity: string, message: string, status = ''): VHealthInfo {
+  return { entity, entityType: '', status, message, timestamp: null };
+}
+
+describe('classifyHealthMessage', () => {
+  it.each([
+    ['Zombie', 'Possibly a Zombie vmdk file! Please check.', 'zombie-file'],
+    ['Multipath', 'Dead path found on LUN naa.600', 'dead-path'],
+    ['Datastore', 'Datastore is inaccessible', 'inaccessible-datastore'],
+    ['Consolidation', 'Virtual machine disks consolidation is needed.', 'consolidation-needed'],
+    ['Snapshot', 'Snapshot older than 30 days', 'stale-snapshot'],
+    ['Datastore', 'Datastore free space below 10%', 'datastore-capacity'],
+    ['VM Tools', 'VMware tools are not running', 'vmware-tools'],
+    ['NTP', 'NTP server not configured', 'other'],
+  ] as const)('classifies "%s: %s" as %s', (status, message, expected) => {
+    expect(classifyHealthMessage({ status, message })).toBe(expected);
+  });
+});
+
+describe('getHealthFindingsByVM', () => {
+  it('attributes findings to VMs by name, case-insensitively', () => {
+    const byVM = getHealthFindingsByVM(
+      [
+        makeHealth('APP-01', 'Virtual machine disks consolidation is needed.'),
+        makeHealth('app-01', 'Snapshot older than 30 days'),
+        makeHealth('[ds-01] orphan/orphan.vmdk', 'Possibly a Zombie vmdk file!'),
+      ],
+      ['app-01', 'db-01']
+    );
+
+    expect(byVM.get('app-01')?.map(f => f.category)).toEqual(['consolidation-needed', 'stale-snapshot']);
+    expect(byVM.has('db-01')).toBe(false);
+    expect(byVM.size).toBe(1);
+  });
+});
+
+describe('countHealthFindings', () => {
+  it('counts findings per category', () => {
+    const counts = countHealthFindings([
+      makeHealth('[ds] a.vmdk', 'Zombie vmdk'),
+      makeHealth('[ds] b.vmdk', 'Zombie vmdk'),
+      makeHealth('ds-01', 'Datastore is inaccessible'),
+    ]);
+
+    expect(counts['zombie-file']).toBe(2);
+    expect(counts['inaccessible-datastore']).toBe(1);
+    expect(counts['dead-path']).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+// Classification of RVTools vHealth messages into migration-relevant categories.
+// Pure functions, no AI dependency. vHealth rows are free-text vCenter findings,
+// so categories are matched from the message type and message text.
+
+import type { VHealthInfo } from '@/types/rvtools';
+
+export type HealthCategory =
+  | 'dead-path'
+  | 'inaccessible-datastore'
+  | 'zombie-file'
+  | 'stale-snapshot'
+  | 'consolidation-needed'
+  | 'datastore-capacity'
+  | 'vmware-tools'
+  | 'other';
+
+export interface HealthFinding {
+  entity: string;
+  category: HealthCategory;
+  message: string;
+}
+
+export const HEALTH_CATEGORY_LABELS: Record<HealthCategory, string> = {
+  'dead-path': 'Dead storage path',
+  'inaccessible-datastore': 'Inaccessible datastore',
+  'zombie-file': 'Zombie VMDK / VM file',
+  'stale-snapshot': 'Stale snapshot',
+  'consolidation-needed': 'Disk consolidation needed',
+  'datastore-capacity': 'Low datastore free space',
+  'vmware-tools': 'VMware Tools issue',
+  'other': 'Other health message',
+};
+
+// Order matters: the first matching pattern wins, so the more specific
+// storage faults are tested before generic snapshot / tools wording.
+const CATEGORY_PATTERNS: Array<[HealthCategory, RegExp]> = [
+  ['zombie-file', /zombie|orphan/i],
+  ['dead-path', /dead|path.*(down|lost)/i],
+  ['inaccessible-datastore', /inaccessible|not accessible/i],
+  ['consolidation-needed', /consolidat/i],
+  ['stale-snapshot', /snapshot/i],
+  ['datastore-capacity', /free space|space.*(low|threshold)|% free|\bfull\b/i],
+  ['vmware-tools', /tools/i],
+];
+
+/**
+ * Classify a vHealth message using its message type and text.
+ */
+export function classifyHealthMessage(entry: Pick<VHealthInfo, 'status' | 'message'>): HealthCategory {
+  const text = `${entry.status} ${entry.message}`;
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(text)) return category;
+  }
+  return 'other';
+}
+
+/**
+ * Classify all vHealth rows.
+ */
+export function getHealthFindings(vHealth: VHealthInfo[]): HealthFinding[] {
+  return vHealth.map(entry => ({
+    entity: entry.entity,
+    category: classifyHealthMessage(entry),
+    message: entry.message,
+  }));
+}
+
+/**
+ * Group findings by VM. vHealth names the affected object in its Name column,
+ * so findings are attributed to a VM when that name matches (case-insensitive).
+ * Findings about datastores, hosts and orphaned files are left out.
+ */
+export function getHealthFindingsByVM(
+  vHealth: VHealthInfo[],
+  vmNames: string[]
+): Map<string, HealthFinding[]> {
+  const namesLower = new Map(vmNames.map(name => [name.toLowerCase(), name]));
+  const byVM = new Map<string, HealthFinding[]>();
+
+  for (const finding of getHealthFindings(vHealth)) {
+    const vmName = namesLower.get(finding.entity.toLowerCase());
+    if (!vmName) continue;
+    const list = byVM.get(vmName) ?? [];
+    list.push(finding);
+    byVM.set(vmName, list);
+  }
+  return byVM;
+}
+
+/**
+ * Count findings per category.
+ */
+export function countHealthFindings(vHealth: VHealthInfo[]): Partial<Record<HealthCategory, number>> {
+  const counts: Partial<Record<HealthCategory, number>> = {};
+  for (const finding of getHealthFindings(vHealth)) {
+    counts[finding.category] = (counts[finding.category] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildAffinityGroups,
+  createDependencyWaves,
+  getAnnotationAppTag,
+  parseApplicationGroups,
+  formatApplicationGroups,
+  type AffinityVMInput,
+} from './dependencyWaves';
+import type { VMWaveData, NetworkData } from './wavePlanning';
+
+function makeVM(vmName: string, overrides: Partial<AffinityVMInput> = {}): AffinityVMInput {
+  return { vmName, folder: null, vApp: null, annotation: null, ...overrides };
+}
+
+function makeWaveVM(vmName: string, overrides: Partial<VMWaveData> = {}): VMWaveData {
+  return {
+    vmName,
+    complexity: 20,
+    osStatus: 'supported',
+    hasBlocker: false,
+    vcpus: 2,
+    memoryGiB: 4,
+    storageGiB: 100,
+    networkName: 'pg-app',
+    ipAddress: '',
+    subnet: 'Unknown',
+    cluster: 'c1',
+    ...overrides,
+  };
+}
+
+function makeNic(vmName: string, networkName: string, ipv4Address: string | null = null): NetworkData {
+  return { vmName, networkName, ipv4Address } as NetworkData;
+}
+
+describe('getAnnotationAppTag', () => {
+  it('extracts app tags from notes', () => {
+    expect(getAnnotationAppTag('Owner: ops\nApp: Billing')).toBe('billing');
+    expect(getAnnotationAppTag('service=payments-api')).toBe('payments-api');
+    expect(getAnnotationAppTag('Production database')).toBeNull();
+    expect(getAnnotationAppTag(null)).toBeNull();
+  });
+});
+
+describe('buildAffinityGroups', () => {
+  it('collects groups from every signal and drops singletons', () => {
+    const vms = [
+      makeVM('web', { folder: 'Billing', annotation: 'app: billing' }),
+      makeVM('api', { folder: 'Billing', vApp: 'billing-vapp', annotation: 'app: billing' }),
+      makeVM('db', { vApp: 'billing-vapp' }),
+      makeVM('lonely', { folder: 'Other' }),
+    ];
+    const networks = [
+      makeNic('web', 'pg-web', '10.0.1.10'),
+      makeNic('api', 'pg-web', '10.0.1.11'),
+      makeNic('api', 'pg-db', '10.0.2.11'),
+      makeNic('db', 'pg-db', '10.0.2.12'),
+      makeNic('not-in-scope', 'pg-db', '10.0.2.13'),
+    ];
+
+    const groups = buildAffinityGroups(vms, networks, [{ name: 'billing', vmNames: ['web', 'db', 'missing'] }]);
+
+    expect(groups.map(g => [g.source, g.key, g.vmNames])).toEqual([
+      ['applicationGroup', 'billing', ['web', 'db']],
+      ['annotation', 'billing', ['web', 'api']],
+      ['folder', 'Billing', ['web', 'api']],
+      ['vApp', 'billing-vapp', ['api', 'db']],
+      ['portGroup', 'pg-web', ['web', 'api']],
+      ['subnet', '10.0.1.0/24', ['web', 'api']],
+      ['portGroup', 'pg-db', ['api', 'db']],
+      ['subnet', '10.0.2.0/24', ['api', 'db']],
+    ]);
+  });
+});
+
+describe('createDependencyWaves', () => {
+  it('keeps connected components together when they fit', () => {
+    const vmWaveData = ['a1', 'a2', 'a3', 'b1', 'b2', 'solo'].map(name => makeWaveVM(name));
+    const groups = buildAffinityGroups(
+      vmWaveData.map(vm => makeVM(vm.vmName)),
+      [makeNic('a1', 'pg-a'), makeNic('a2', 'pg-a'), makeNic('a3', 'pg-a'), makeNic('b1', 'pg-b'), makeNic('b2', 'pg-b')],
+    );
+
+    const plan = createDependencyWaves(vmWaveData, groups, { maxVMsPerWave: 4, maxTiBPerWave: 100 });
+
+    expect(plan.waves.map(w => w.vms.map(vm => vm.vmName))).toEqual([
+      ['a1', 'a2', 'a3', 'solo'],
+      ['b1', 'b2'],
+    ]);
+    expect(plan.cutDependencies).toEqual([]);
+  });
+
+  it('cuts the weakest links when a component exceeds the caps and reports them', () => {
+    const vmWaveData = ['web', 'app', 'db', 'batch'].map(name => makeWaveVM(name));
+    const vms = vmWaveData.map(vm => makeVM(vm.vmName));
+    const networks = vmWaveData.map(vm => makeNic(vm.vmName, 'pg-flat'));
+    const groups = buildAffinityGroups(vms, networks, [{ name: 'shop', vmNames: ['web', 'app', 'db'] }]);
+
+    const plan = createDependencyWaves(vmWaveData, groups, { maxVMsPerWave: 3, maxTiBPerWave: 100 });
+
+    expect(plan.waves.map(w => w.vms.map(vm => vm.vmName))).toEqual([['web', 'app', 'db'], ['batch']]);
+    expect(plan.waves[0].description).toBe('Keeps together: shop');
+    expect(plan.cutDependencies).toEqual([
+      { source: 'portGroup', key: 'pg-flat', vmCount: 4, waveNames: ['Wave 1', 'Wave 2'] },
+    ]);
+  });
+
+  it('enforces the storage cap and keeps blockers out of clean waves', () => {
+    const vmWaveData = [
+      makeWaveVM('big1', { storageGiB: 800 }),
+      makeWaveVM('big2', { storageGiB: 800 }),
+      makeWaveVM('blocked', { hasBlocker: true }),
+    ];
+
+    const plan = createDependencyWaves(vmWaveData, [], { maxVMsPerWave: 10, maxTiBPerWave: 1 });
+
+    expect(plan.waves.map(w => [w.vms.map(vm => vm.vmName), w.hasBlockers])).toEqual([
+      [['big1'], false],
+      [['big2'], false],
+      [['blocked'], true],
+    ]);
+  });
+});
+
+describe('application group text', () => {
+  it('round-trips one group per line', () => {
+    const groups = parseApplicationGroups('billing: web, app , db\n\nno separator\ncrm: crm-01, crm-01');
+    expect(groups).toEqual([
+      { name: 'billing', vmNames: ['web', 'app', 'db'] },
+      { name: 'crm', vmNames: ['crm-01'] },
+    ]);
+    expect(formatApplicationGroups(groups)).toBe('billing: web, app, db\ncrm: crm-01');
+  });
+});
@@ -0,0 +1,324 @@
+// Dependency-aware wave planning — builds a VM affinity graph from shared
+// networks, folders, vApps, annotations and user-declared application groups,
+// then partitions it into waves under per-wave VM and storage caps.
+
+import type { VirtualMachine } from '@/types/rvtools';
+import type { VMWaveData, NetworkWaveGroup, NetworkData } from './wavePlanning';
+
+export type AffinitySource = 'applicationGroup' | 'vApp' | 'annotation' | 'folder' | 'subnet' | 'portGroup';
+
+export interface ApplicationGroup {
+  name: string;
+  vmNames: string[];
+}
+
+export interface DependencyWaveConfig {
+  maxVMsPerWave: number;
+  maxTiBPerWave: number;
+  applicationGroups: ApplicationGroup[];
+}
+
+/** A set of VMs that share one affinity signal (e.g. all VMs on one port group) */
+export interface AffinityGroup {
+  source: AffinitySource;
+  key: string;
+  vmNames: string[];
+}
+
+/** An affinity group whose VMs ended up in more than one wave */
+export interface CutDependency {
+  source: AffinitySource;
+  key: string;
+  vmCount: number;
+  waveNames: string[];
+}
+
+export interface DependencyWavePlan {
+  waves: NetworkWaveGroup[];
+  cutDependencies: CutDependency[];
+}
+
+export type AffinityVMInput = Pick<VirtualMachine, 'vmName' | 'folder' | 'vApp' | 'annotation'>;
+
+export const DEFAULT_DEPENDENCY_WAVE_CONFIG: DependencyWaveConfig = {
+  maxVMsPerWave: 50,
+  maxTiBPerWave: 25,
+  applicationGroups: [],
+};
+
+// Stronger signals are kept together first; weaker ones are cut first when a wave is full
+export const AFFINITY_SOURCE_WEIGHTS: Record<AffinitySource, number> = {
+  applicationGroup: 6,
+  vApp: 5,
+  annotation: 4,
+  folder: 3,
+  subnet: 2,
+  portGroup: 1,
+};
+
+export const AFFINITY_SOURCE_LABELS: Record<AffinitySource, string> = {
+  applicationGroup: 'Application group',
+  vApp: 'vApp',
+  annotation: 'Annotation',
+  folder: 'Folder',
+  subnet: 'IP subnet',
+  portGroup: 'Port group',
+};
+
+// "app: billing", "Application=crm", "service: payments" in VM notes
+const ANNOTATION_APP_PATTERN = /\b(?:app|application|service)\s*[:=]\s*([\w.-]+)/i;
+
+/**
+ * Extract an application tag from a VM annotation, or null when none is declared.
+ */
+export function getAnnotationAppTag(annotation: string | null): string | null {
+  if (!annotation) return null;
+  const match = annotation.match(ANNOTATION_APP_PATTERN);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function getSubnet(ipAddress: string): string | null {
+  const octets = ipAddress.split('.');
+  if (octets.length !== 4) return null;
+  return `${octets.slice(0, 3).join('.')}.0/24`;
+}
+
+/**
+ * Build the affinity groups (graph edges) for the in-scope VMs.
+ * Groups with fewer than two VMs carry no dependency and are dropped.
+ */
+export function buildAffinityGroups(
+  vms: AffinityVMInput[],
+  networks: NetworkData[],
+  applicationGroups: ApplicationGroup[] = []
+): AffinityGroup[] {
+  const inScope = new Set(vms.map(vm => vm.vmName));
+  const groups = new Map<string, { source: AffinitySource; key: string; vmNames: Set<string> }>();
+
+  const add = (source: AffinitySource, key: string, vmName: string) => {
+    const id = `${source}\u0000${key}`;
+    let group = groups.get(id);
+    if (!group) {
+      group = { source, key, vmNames: new Set() };
+      groups.set(id, group);
+    }
+    group.vmNames.add(vmName);
+  };
+
+  for (const appGroup of applicationGroups) {
+    for (const vmName of appGroup.vmNames) {
+      if (inScope.has(vmName)) add('applicationGroup', appGroup.name, vmName);
+    }
+  }
+
+  for (const vm of vms) {
+    if (vm.vApp) add('vApp', vm.vApp, vm.vmName);
+    const appTag = getAnnotationAppTag(vm.annotation);
+    if (appTag) add('annotation', appTag, vm.vmName);
+    if (vm.folder) add('folder', vm.folder, vm.vmName);
+  }
+
+  for (const nic of networks) {
+    if (!inScope.has(nic.vmName)) continue;
+    if (nic.networkName) add('portGroup', nic.networkName, nic.vmName);
+    const subnet = nic.ipv4Address ? getSubnet(nic.ipv4Address) : null;
+    if (subnet) add('subnet', subnet, nic.vmName);
+  }
+
+  return [...groups.values()]
+    .filter(group => group.vmNames.size > 1)
+    .map(group => ({ source: group.source, key: group.key, vmNames: [...group.vmNames] }));
+}
+
+/**
+ * Partition VMs into dependency-aware waves.
+ *
+ * Affinity groups are merged strongest-first with a size-aware union-find, so
+ * connected components stay whole whenever they fit the caps. Components that
+ * exceed a cap are split along their weakest links, and the affinity groups
+ * that end up spanning several waves are reported as cut dependencies.
+ */
+export function createDependencyWaves(
+  vmWaveData: VMWaveData[],
+  affinityGroups: AffinityGroup[],
+  config: Pick<DependencyWaveConfig, 'maxVMsPerWave' | 'maxTiBPerWave'>
+): DependencyWavePlan {
+  const maxVMs = config.maxVMsPerWave > 0 ? config.maxVMsPerWave : Infinity;
+  const maxStorageGiB = config.maxTiBPerWave > 0 ? config.maxTiBPerWave * 1024 : Infinity;
+  const vmByName = new Map(vmWaveData.map(vm => [vm.vmName, vm]));
+
+  // Union-find over VM names, tracking component size and storage at the root
+  const parent = new Map<string, string>();
+  const count = new Map<string, number>();
+  const storage = new Map<string, number>();
+  for (const vm of vmWaveData) {
+    parent.set(vm.vmName, vm.vmName);
+    count.set(vm.vmName, 1);
+    storage.set(vm.vmName, vm.storageGiB);
+  }
+
+  const find = (name: string): string => {
+    let root = name;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    let node = name;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  const union = (a: string, b: string): boolean => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return true;
+    const vmCount = count.get(rootA)! + count.get(rootB)!;
+    const storageGiB = storage.get(rootA)! + storage.get(rootB)!;
+    if (vmCount > maxVMs || storageGiB > maxStorageGiB) return false;
+    parent.set(rootB, rootA);
+    count.set(rootA, vmCount);
+    storage.set(rootA, storageGiB);
+    return true;
+  };
+
+  // Strongest signals first; within a source, tighter (smaller) groups first
+  const ordered = [...affinityGroups].sort((a, b) =>
+    AFFINITY_SOURCE_WEIGHTS[b.source] - AFFINITY_SOURCE_WEIGHTS[a.source] || a.vmNames.length - b.vmNames.length
+  );
+  for (const group of ordered) {
+    const members = group.vmNames.filter(name => vmByName.has(name));
+    let anchor = members[0];
+    for (const member of members.slice(1)) {
+      // When the anchor's component is full, continue the group from this member
+      if (!union(anchor, member)) anchor = member;
+    }
+  }
+
+  // Collect components, simplest first and blockers last
+  const components = new Map<string, VMWaveData[]>();
+  for (const vm of vmWaveData) {
+    const root = find(vm.vmName);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(vm);
+  }
+  const sortedComponents = [...components.values()]
+    .map(vms => ({
+      vms,
+      storageGiB: vms.reduce((sum, vm) => sum + vm.storageGiB, 0),
+      hasBlocker: vms.some(vm => vm.hasBlocker),
+      avgComplexity: vms.reduce((sum, vm) => sum + vm.complexity, 0) / vms.length,
+    }))
+    .sort((a, b) => {
+      if (a.hasBlocker !== b.hasBlocker) return a.hasBlocker ? 1 : -1;
+      return a.avgComplexity - b.avgComplexity || b.vms.length - a.vms.length;
+    });
+
+  // First-fit components into waves; blocker components never share a wave with clean ones
+  const bins: Array<{ vms: VMWaveData[]; storageGiB: number; hasBlocker: boolean }> = [];
+  for (const component of sortedComponents) {
+    const bin = bins.find(b =>
+      b.hasBlocker === component.hasBlocker &&
+      b.vms.length + component.vms.length <= maxVMs &&
+      b.storageGiB + component.storageGiB <= maxStorageGiB
+    );
+    if (bin) {
+      bin.vms.push(...component.vms);
+      bin.storageGiB += component.storageGiB;
+    } else {
+      bins.push({ vms: [...component.vms], storageGiB: component.storageGiB, hasBlocker: component.hasBlocker });
+    }
+  }
+
+  const waveOfVM = new Map<string, string>();
+  const waves: NetworkWaveGroup[] = bins.map((bin, idx) => {
+    const name = `Wave ${idx + 1}`;
+    bin.vms.forEach(vm => waveOfVM.set(vm.vmName, name));
+    return {
+      name,
+      description: describeWave(bin.vms, affinityGroups),
+      vms: bin.vms,
+      vmCount: bin.vms.length,
+      hasBlockers: bin.hasBlocker,
+      avgComplexity: bin.vms.reduce((sum, vm) => sum + vm.complexity, 0) / bin.vms.length,
+      vcpus: bin.vms.reduce((sum, vm) => sum + vm.vcpus, 0),
+      memoryGiB: bin.vms.reduce((sum, vm) => sum + vm.memoryGiB, 0),
+      storageGiB: bin.storageGiB,
+    };
+  });
+
+  return { waves, cutDependencies: findCutDependencies(affinityGroups, waveOfVM) };
+}
+
+/**
+ * Build the affinity graph for the VMs and partition it into waves.
+ */
+export function planDependencyWaves(
+  vms: AffinityVMInput[],
+  vmWaveData: VMWaveData[],
+  networks: NetworkData[],
+  config: DependencyWaveConfig
+): DependencyWavePlan {
+  const affinityGroups = buildAffinityGroups(vms, networks, config.applicationGroups);
+  return createDependencyWaves(vmWaveData, affinityGroups, config);
+}
+
+/**
+ * Affinity groups whose VMs are spread over more than one wave, strongest signal first.
+ */
+export function findCutDependencies(
+  affinityGroups: AffinityGroup[],
+  waveOfVM: Map<string, string>
+): CutDependency[] {
+  const cuts: CutDependency[] = [];
+  for (const group of affinityGroups) {
+    const waveNames = [...new Set(group.vmNames.map(name => waveOfVM.get(name)).filter((w): w is string => !!w))];
+    if (waveNames.length > 1) {
+      cuts.push({ source: group.source, key: group.key, vmCount: group.vmNames.length, waveNames });
+    }
+  }
+  return cuts.sort((a, b) =>
+    AFFINITY_SOURCE_WEIGHTS[b.source] - AFFINITY_SOURCE_WEIGHTS[a.source] || b.vmCount - a.vmCount
+  );
+}
+
+// Describe a wave by the strongest affinity groups it contains whole
+function describeWave(vms: VMWaveData[], affinityGroups: AffinityGroup[]): string {
+  const names = new Set(vms.map(vm => vm.vmName));
+  const contained = affinityGroups
+    .filter(group => group.source !== 'portGroup' && group.source !== 'subnet' && group.vmNames.every(name => names.has(name)))
+    .sort((a, b) => AFFINITY_SOURCE_WEIGHTS[b.source] - AFFINITY_SOURCE_WEIGHTS[a.source]);
+  if (contained.length > 0) {
+    const labels = contained.map(group => group.key);
+    return `Keeps together: ${labels.slice(0, 3).join(', ')}${labels.length > 3 ? ` +${labels.length - 3} more` : ''}`;
+  }
+  const portGroups = [...new Set(vms.map(vm => vm.networkName).filter(n => n && n !== 'No Network'))];
+  return portGroups.length > 0
+    ? `Port Group: ${portGroups.slice(0, 3).join(', ')}${portGroups.length > 3 ? ` +${portGroups.length - 3} more` : ''}`
+    : 'Independent VMs';
+}
+
+/**
+ * Parse application groups from text, one group per line: "name: vm1, vm2, vm3".
+ */
+export function parseApplicationGroups(text: string): ApplicationGroup[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const separator = line.indexOf(':');
+      return {
+        name: line.slice(0, separator).trim(),
+        vmNames: [...new Set(line.slice(separator + 1).split(',').map(vm => vm.trim()).filter(Boolean))],
+      };
+    })
+    .filter(group => group.name && group.vmNames.length > 0);
+}
+
+/**
+ * Format application groups back to the one-group-per-line text form.
+ */
+export function formatApplicationGroups(groups: ApplicationGroup[]): string {
+  return groups.map(group => `${group.name}: ${group.vmNames.join(', ')}`).join('\n');
+}
@@ -49,16 +49,55 @@ export {
   getWaveResources,
 } from './wavePlanning';
 
+// Wave Plan Editing
+export {
+  type EditableWave,
+  type WavePlanKey,
+  UNASSIGNED_WAVE_NAME,
+  getWavePlanKey,
+  toEditableWaves,
+  summarizeWave,
+  applyEditableWaves,
+  moveVMsToWave,
+  splitWave,
+  mergeWaves,
+  renameWave,
+  setWaveLocked,
+} from './wavePlanEditing';
+
+// Dependency-Aware Wave Planning
+export {
+  type AffinitySource,
+  type ApplicationGroup,
+  type DependencyWaveConfig,
+  type AffinityGroup,
+  type CutDependency,
+  type DependencyWavePlan,
+  type AffinityVMInput,
+  DEFAULT_DEPENDENCY_WAVE_CONFIG,
+  AFFINITY_SOURCE_WEIGHTS,
+  AFFINITY_SOURCE_LABELS,
+  getAnnotationAppTag,
+  buildAffinityGroups,
+  createDependencyWaves,
+  planDependencyWaves,
+  findCutDependencies,
+  parseApplicationGroups,
+  formatApplicationGroups,
+} from './dependencyWaves';
+
 // Remediation
 export {
   VPC_BOOT_DISK_MIN_GB,
   VPC_BOOT_DISK_MAX_GB,
   VPC_MAX_DISKS_PER_VM,
   VPC_DOCS,
+  OVE_DOCS,
   type PreflightCheckCounts,
   generateVSIRemediationItems,
   generateVSIAllChecks,
   generateROKSRemediationItems,
+  generateOVERemediationItems,
   generateRemediationItems,
   countRemediationSeverity,
 } from './remediation';
@@ -71,6 +110,7 @@ export {
   type ProfileFamily,
   type ProfileRecommendation,
   type VMClassification,
+  type RightSizingInput,
   getVSIProfiles,
   determineProfileFamily,
   mapVMToVSIProfile,
@@ -89,4 +129,72 @@ export {
   isStandardProfile,
   findBurstableProfile,
   findStandardProfile,
+  getRightSizedProfile,
 } from './vsiProfileMapping';
+
+// Utilisation-based right-sizing
+export {
+  type VMPerformanceMetrics,
+  type PerformanceDataset,
+  type RightSizedResources,
+  type RightSizingTotals,
+  type RightSizingComparison,
+  DEFAULT_RIGHTSIZING_HEADROOM_PERCENT,
+  parsePerformanceRows,
+  parsePerformanceFile,
+  generatePerformanceTemplate,
+  matchPerformanceMetrics,
+  getRightSizedResources,
+} from './performanceMetrics';
+
+// Block storage planning
+export {
+  type VolumeRole,
+  type IOPSSource,
+  type VolumeProfileLimits,
+  type VMStorageDisk,
+  type VMStorageInput,
+  type PlannedVolume,
+  type StoragePlanWarning,
+  type VMStoragePlan,
+  type StoragePlanSummary,
+  VOLUME_PROFILE_LIMITS,
+  getIOPSForThroughput,
+  getProvisionedIOPS,
+  selectVolumeProfile,
+  getDefaultIOPSPerGB,
+  planVMStorage,
+  summarizeStoragePlans,
+} from './storagePlanning';
+
+// PowerVS Profile Mapping
+export {
+  type PowerVSProcessorType,
+  type PowerVSStorageTier,
+  type PowerVSSizingConfig,
+  type PowerVSVMInput,
+  type PowerVSProfileMapping,
+  type PowerVSTotals,
+  getPowerVSSizingConfig,
+  getPowerVSStorageTier,
+  calculatePowerVSCores,
+  mapVMToPowerVS,
+  createPowerVSMappings,
+  calculatePowerVSTotals,
+} from './powervsProfileMapping';
+
+// VMware-retain (VCF on IBM Cloud) Sizing
+export {
+  type VMwareRetainSizingConfig,
+  type VMwareRetainSettings,
+  type VMwareRetainLimitingFactor,
+  type VMwareRetainClusterSizing,
+  type VMwareRetainSizing,
+  type CloudBlockerSummary,
+  DEFAULT_VMWARE_RETAIN_SETTINGS,
+  getVMwareRetainSizingConfig,
+  getVMwareRetainHostProfiles,
+  getLicensedCoresPerHost,
+  sizeVMwareRetain,
+  getCloudBlockerSummary,
+} from './vmwareRetainSizing';
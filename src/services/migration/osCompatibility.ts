@@ -3,7 +3,8 @@
 import roksOSCompatibilityData from '@/data/redhatOSCompatibility.json';
 import ibmCloudOSCompatibilityData from '@/data/ibmCloudOSCompatibility.json';
 
-export type MigrationMode = 'vsi' | 'roks';
+/** 'ove' is OpenShift Virtualization Engine: ROKS bare metal with the VM-only entitlement */
+export type MigrationMode = 'vsi' | 'roks' | 'ove';
 
 export interface VSIOSCompatibility {
   id: string;
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  parsePerformanceRows,
+  parsePerformanceFile,
+  generatePerformanceTemplate,
+  matchPerformanceMetrics,
+  getRightSizedResources,
+} from './performanceMetrics';
+import type { VMPerformanceMetrics, PerformanceDataset } from './performanceMetrics';
+import { createVMProfileMappings } from './vsiProfileMapping';
+import type { VirtualMachine } from '@/types/rvtools';
+
+function vm(vmName: string, uuid: string | null = null): VirtualMachine {
+  return { vmName, uuid, datacenter: 'DC1', cluster: 'Cluster1' } as VirtualMachine;
+}
+
+function metrics(overrides: Partial<VMPerformanceMetrics> = {}): VMPerformanceMetrics {
+  return {
+    vmName: 'web-01',
+    cpuP95Percent: null,
+    memoryP95GiB: null,
+    memoryP95Percent: null,
+    iopsP95: null,
+    throughputMBps: null,
+    ...overrides,
+  };
+}
+
+describe('parsePerformanceRows', () => {
+  it('reads the generic template columns', () => {
+    const dataset = parsePerformanceRows([
+      ['VM Name', 'VM UUID', 'CPU p95 (%)', 'Memory p95 (GiB)', 'IOPS p95', 'Throughput p95 (MB/s)'],
+      ['web-01', 'uuid-1', '25', '6.5', '1200', '40'],
+      ['', '', '', '', '', ''],
+    ], 'perf.csv');
+
+    expect(dataset.format).toBe('generic');
+    expect(dataset.vms).toEqual([{
+      vmName: 'web-01',
+      uuid: 'uuid-1',
+      cpuP95Percent: 25,
+      memoryP95GiB: 6.5,
+      memoryP95Percent: null,
+      iopsP95: 1200,
+      throughputMBps: 40,
+    }]);
+  });
+
+  it('skips title rows and converts Aria Operations units', () => {
+    const dataset = parsePerformanceRows([
+      ['VM Rightsizing - Last 30 days'],
+      ['Name', 'CPU|Usage (%)', 'Memory|Usage (%)', 'Virtual Disk:Aggregate of all Instances|Total Throughput (KBps)'],
+      ['db-01', 61.5, 80, 20480],
+    ]);
+
+    expect(dataset.format).toBe('aria');
+    expect(dataset.vms[0]).toMatchObject({ vmName: 'db-01', cpuP95Percent: 61.5, memoryP95Percent: 80, throughputMBps: 20 });
+  });
+
+  it('rejects files without a VM name or metric columns', () => {
+    expect(() => parsePerformanceRows([['Host', 'CPU p95 (%)']])).toThrow(/VM name/);
+    expect(() => parsePerformanceRows([['VM Name', 'Owner'], ['web-01', 'ops']])).toThrow(/No CPU/);
+  });
+
+  it('parses XLSX workbooks', () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['VM Name', 'CPU p95 (%)'], ['app-01', 10]]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Metrics');
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    expect(parsePerformanceFile(data, 'metrics.xlsx').vms[0]).toMatchObject({ vmName: 'app-01', cpuP95Percent: 10 });
+  });
+
+  it('round-trips the template', () => {
+    const csv = generatePerformanceTemplate([vm('web-01', 'uuid-1')]);
+    const rows = csv.split('\n').map(line => line.split(',').map(cell => cell.replace(/"/g, '')));
+    rows[1][2] = '30';
+
+    expect(parsePerformanceRows(rows).vms[0]).toMatchObject({ vmName: 'web-01', uuid: 'uuid-1', cpuP95Percent: 30 });
+  });
+});
+
+describe('matchPerformanceMetrics', () => {
+  const dataset: PerformanceDataset = {
+    fileName: 'perf.csv',
+    format: 'generic',
+    importedAt: '2026-01-01T00:00:00.000Z',
+    vms: [
+      metrics({ vmName: 'web-01', uuid: 'UUID-1', cpuP95Percent: 10 }),
+      metrics({ vmName: 'dup', cpuP95Percent: 20 }),
+      metrics({ vmName: 'dup', cpuP95Percent: 30 }),
+      metrics({ vmName: 'App-02', cpuP95Percent: 40 }),
+    ],
+  };
+
+  it('keys matches by VM identifier, by UUID first and then unique name', () => {
+    const matched = matchPerformanceMetrics(
+      [vm('renamed', 'uuid-1'), vm('app-02'), vm('dup'), vm('missing')],
+      dataset,
+    );
+
+    expect([...matched.keys()]).toEqual(['renamed::uuid-1', 'app-02::DC1::Cluster1']);
+    expect(matched.get('renamed::uuid-1')?.cpuP95Percent).toBe(10);
+  });
+
+  it('returns an empty map without a dataset', () => {
+    expect(matchPerformanceMetrics([vm('web-01')], null).size).toBe(0);
+  });
+});
+
+describe('getRightSizedResources', () => {
+  it('sizes to p95 plus headroom, capped at the allocation', () => {
+    expect(getRightSizedResources({ vcpus: 8, memoryGiB: 32 }, metrics({ cpuP95Percent: 20, memoryP95GiB: 10 }), 20))
+      .toEqual({ vcpus: 2, memoryGiB: 12 });
+    expect(getRightSizedResources({ vcpus: 4, memoryGiB: 8 }, metrics({ cpuP95Percent: 95, memoryP95Percent: 100 }), 20))
+      .toEqual({ vcpus: 4, memoryGiB: 8 });
+  });
+
+  it('keeps the allocation for dimensions without a metric and applies minimums', () => {
+    expect(getRightSizedResources({ vcpus: 4, memoryGiB: 16 }, metrics({ cpuP95Percent: 1, memoryP95Percent: 1 }), 0))
+      .toEqual({ vcpus: 1, memoryGiB: 2 });
+    expect(getRightSizedResources({ vcpus: 4, memoryGiB: 16 }, metrics({ iopsP95: 500 }), 20))
+      .toEqual({ vcpus: 4, memoryGiB: 16 });
+  });
+});
+
+describe('createVMProfileMappings right-sizing', () => {
+  it('adds a right-sized profile and measured IOPS for VMs with metrics', () => {
+    const [withMetrics, without] = createVMProfileMappings(
+      [
+        { vmName: 'oracle-db', cpus: 16, memory: 64 * 1024, vmId: 'oracle-db::uuid-1' },
+        { vmName: 'oracle-app', cpus: 16, memory: 64 * 1024, vmId: 'oracle-app::uuid-2' },
+      ],
+      [],
+      (_vmName, auto) => auto,
+      () => false,
+      {
+        metrics: new Map([['oracle-db::uuid-1', metrics({ vmName: 'oracle-db', cpuP95Percent: 20, memoryP95GiB: 12, iopsP95: 800 })]]),
+        headroomPercent: 20,
+      },
+    );
+
+    expect(withMetrics.autoProfile).toMatchObject({ vcpus: 16, memoryGiB: 64 });
+    expect(withMetrics.rightSizedProfile).toMatchObject({ vcpus: 4, memoryGiB: 16 });
+    expect(withMetrics.measuredIOPS).toBe(800);
+    expect(without.rightSizedProfile).toBeNull();
+    expect(without.measuredIOPS).toBeNull();
+  });
+});
@@ -0,0 +1,246 @@
+// Utilisation-based right-sizing - imports per-VM performance metrics (Aria Operations
+// export or the generic template) and derives right-sized vCPU and memory from them
+
+import * as XLSX from 'xlsx';
+import type { VirtualMachine } from '@/types/rvtools';
+import { getVMIdentifier } from '@/utils/vmIdentifier';
+
+// ===== TYPES =====
+
+export interface VMPerformanceMetrics {
+  vmName: string;
+  uuid?: string;
+  /** 95th percentile CPU usage, percent of allocated vCPUs */
+  cpuP95Percent: number | null;
+  /** 95th percentile memory usage in GiB */
+  memoryP95GiB: number | null;
+  /** 95th percentile memory usage, percent of allocated memory (used when no GiB value is given) */
+  memoryP95Percent: number | null;
+  /** 95th percentile disk IOPS across all virtual disks */
+  iopsP95: number | null;
+  /** 95th percentile disk throughput in MB/s */
+  throughputMBps: number | null;
+}
+
+export interface PerformanceDataset {
+  fileName: string;
+  format: 'aria' | 'generic';
+  importedAt: string;
+  vms: VMPerformanceMetrics[];
+}
+
+export interface RightSizedResources {
+  vcpus: number;
+  memoryGiB: number;
+}
+
+/** Totals for one side of an allocated vs right-sized comparison */
+export interface RightSizingTotals {
+  vcpus: number;
+  memoryGiB: number;
+  /** Cluster node count, for platforms sized by nodes */
+  nodes?: number;
+  monthlyCost: number | null;
+}
+
+export interface RightSizingComparison {
+  matchedVMs: number;
+  totalVMs: number;
+  allocated: RightSizingTotals;
+  rightSized: RightSizingTotals;
+}
+
+// ===== CONSTANTS =====
+
+/** Headroom added on top of the measured p95 before picking a size */
+export const DEFAULT_RIGHTSIZING_HEADROOM_PERCENT = 20;
+
+/** Right-sized memory never drops below this, whatever the measured usage */
+const MIN_RIGHTSIZED_MEMORY_GIB = 2;
+
+type MetricColumn = 'vmName' | 'uuid' | keyof Omit<VMPerformanceMetrics, 'vmName' | 'uuid'>;
+
+const TEMPLATE_HEADERS: Record<MetricColumn, string> = {
+  vmName: 'VM Name',
+  uuid: 'VM UUID',
+  cpuP95Percent: 'CPU p95 (%)',
+  memoryP95GiB: 'Memory p95 (GiB)',
+  memoryP95Percent: 'Memory p95 (%)',
+  iopsP95: 'IOPS p95',
+  throughputMBps: 'Throughput p95 (MB/s)',
+};
+
+// ===== IMPORT =====
+
+function normalizeHeader(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9%]/g, '');
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[%,\s]/g, ''));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Metric a column header refers to. Accepts the template headers and Aria
+ * Operations metric names such as `CPU|Usage (%)` or
+ * `Virtual Disk:Aggregate of all Instances|Total Throughput (KBps)`.
+ */
+function classifyHeader(header: string): { column: MetricColumn; scale: number } | null {
+  const h = normalizeHeader(header);
+  if (!h) return null;
+  if (['vmname', 'vm', 'name', 'objectname', 'virtualmachine', 'resource'].includes(h)) return { column: 'vmName', scale: 1 };
+  if (h.includes('uuid')) return { column: 'uuid', scale: 1 };
+  if (h.includes('iops') || h.includes('commandspersecond')) return { column: 'iopsP95', scale: 1 };
+  if (h.includes('throughput') || h.endsWith('kbps') || h.endsWith('mbps')) {
+    return { column: 'throughputMBps', scale: h.includes('kbps') ? 1 / 1024 : 1 };
+  }
+  if (h.startsWith('cpu') && !h.includes('hz') && (h.includes('%') || h.includes('usage') || h.includes('demand'))) {
+    return { column: 'cpuP95Percent', scale: 1 };
+  }
+  if (h.startsWith('mem')) {
+    if (h.includes('%')) return { column: 'memoryP95Percent', scale: 1 };
+    if (h.includes('gib') || h.includes('gb')) return { column: 'memoryP95GiB', scale: 1 };
+    if (h.includes('mib') || h.includes('mb')) return { column: 'memoryP95GiB', scale: 1 / 1024 };
+    if (h.includes('kb')) return { column: 'memoryP95GiB', scale: 1 / (1024 * 1024) };
+    if (h.includes('usage')) return { column: 'memoryP95Percent', scale: 1 };
+  }
+  return null;
+}
+
+/**
+ * Build a performance dataset from sheet rows. The header row is the first row
+ * with a VM name column; title rows above it (as in Aria Operations exports)
+ * are skipped.
+ */
+export function parsePerformanceRows(rows: unknown[][], fileName = 'performance.csv'): PerformanceDataset {
+  const headerIndex = rows.findIndex(row => row.some(cell => classifyHeader(String(cell ?? ''))?.column === 'vmName'));
+  if (headerIndex < 0) {
+    throw new Error('No VM name column found. Use the performance template or an Aria Operations CSV export.');
+  }
+
+  const headerRow = rows[headerIndex];
+  const columns = new Map<number, { column: MetricColumn; scale: number }>();
+  for (let i = 0; i < headerRow.length; i++) {
+    const match = classifyHeader(String(headerRow[i] ?? ''));
+    // First matching column wins (e.g. Usage (%) before Demand (%))
+    if (match && ![...columns.values()].some(c => c.column === match.column)) {
+      columns.set(i, match);
+    }
+  }
+  const metricColumns = [...columns.values()].filter(c => c.column !== 'vmName' && c.column !== 'uuid');
+  if (metricColumns.length === 0) {
+    throw new Error('No CPU, memory, IOPS or throughput columns found.');
+  }
+
+  const vms: VMPerformanceMetrics[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const entry: VMPerformanceMetrics = {
+      vmName: '',
+      cpuP95Percent: null,
+      memoryP95GiB: null,
+      memoryP95Percent: null,
+      iopsP95: null,
+      throughputMBps: null,
+    };
+    for (const [index, { column, scale }] of columns) {
+      const cell = row[index];
+      if (column === 'vmName') {
+        entry.vmName = String(cell ?? '').trim();
+      } else if (column === 'uuid') {
+        const uuid = String(cell ?? '').trim();
+        if (uuid) entry.uuid = uuid;
+      } else {
+        const value = parseNumber(cell);
+        entry[column] = value == null ? null : value * scale;
+      }
+    }
+    if (entry.vmName) vms.push(entry);
+  }
+
+  if (vms.length === 0) {
+    throw new Error('The file contains no VM rows.');
+  }
+
+  const format = headerRow.some(cell => String(cell ?? '').includes('|')) ? 'aria' : 'generic';
+  return { fileName, format, importedAt: new Date().toISOString(), vms };
+}
+
+/**
+ * Parse performance metrics from an XLSX or CSV file (first worksheet)
+ */
+export function parsePerformanceFile(data: ArrayBuffer, fileName?: string): PerformanceDataset {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file contains no worksheets.');
+  return parsePerformanceRows(XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 }), fileName);
+}
+
+/**
+ * Performance template as CSV, with one row per VM when VMs are given
+ */
+export function generatePerformanceTemplate(vms: Pick<VirtualMachine, 'vmName' | 'uuid'>[] = []): string {
+  const columns = Object.keys(TEMPLATE_HEADERS) as MetricColumn[];
+  const rows = [
+    columns.map(c => TEMPLATE_HEADERS[c]),
+    ...vms.map(vm => columns.map(c => (c === 'vmName' ? vm.vmName : c === 'uuid' ? vm.uuid ?? '' : ''))),
+  ];
+  return rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
+
+// ===== MATCHING =====
+
+/**
+ * Join imported metrics to inventory VMs, keyed by `getVMIdentifier`. Rows
+ * match on UUID first, then on VM name when the name is unique in the file.
+ */
+export function matchPerformanceMetrics(
+  vms: VirtualMachine[],
+  dataset: PerformanceDataset | null,
+): Map<string, VMPerformanceMetrics> {
+  const matched = new Map<string, VMPerformanceMetrics>();
+  if (!dataset) return matched;
+
+  const byUuid = new Map<string, VMPerformanceMetrics>();
+  const byName = new Map<string, VMPerformanceMetrics | null>();
+  for (const entry of dataset.vms) {
+    if (entry.uuid) byUuid.set(entry.uuid.toLowerCase(), entry);
+    const key = entry.vmName.toLowerCase();
+    // Duplicate names are ambiguous without a UUID
+    byName.set(key, byName.has(key) ? null : entry);
+  }
+
+  for (const vm of vms) {
+    const entry = (vm.uuid ? byUuid.get(vm.uuid.toLowerCase()) : undefined) ?? byName.get(vm.vmName.toLowerCase());
+    if (entry) matched.set(getVMIdentifier(vm), entry);
+  }
+  return matched;
+}
+
+// ===== RIGHT-SIZING =====
+
+/**
+ * vCPU and memory to provision for a VM from its measured p95 usage plus
+ * headroom. Never exceeds the allocation; a dimension without a metric keeps
+ * its allocated size.
+ */
+export function getRightSizedResources(
+  allocated: RightSizedResources,
+  metrics: VMPerformanceMetrics,
+  headroomPercent = DEFAULT_RIGHTSIZING_HEADROOM_PERCENT,
+): RightSizedResources {
+  const factor = 1 + headroomPercent / 100;
+
+  const vcpus = metrics.cpuP95Percent != null
+    ? Math.min(Math.max(Math.ceil(allocated.vcpus * (metrics.cpuP95Percent / 100) * factor), 1), allocated.vcpus)
+    : allocated.vcpus;
+
+  const usedMemoryGiB = metrics.memoryP95GiB
+    ?? (metrics.memoryP95Percent != null ? allocated.memoryGiB * (metrics.memoryP95Percent / 100) : null);
+  const memoryGiB = usedMemoryGiB != null
+    ? Math.min(Math.max(Math.ceil(usedMemoryGiB * factor), MIN_RIGHTSIZED_MEMORY_GIB), allocated.memoryGiB)
+    : allocated.memoryGiB;
+
+  return { vcpus, memoryGiB };
+}
@@ -0,0 +1,69 @@
+// Unit tests for PowerVS profile mapping
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePowerVSCores,
+  mapVMToPowerVS,
+  createPowerVSMappings,
+  calculatePowerVSTotals,
+  getPowerVSSizingConfig,
+} from './powervsProfileMapping';
+
+describe('calculatePowerVSCores', () => {
+  const config = { ...getPowerVSSizingConfig(), x86VcpusPerCore: 4, sharedCoreIncrement: 0.25, minSharedCores: 0.25, minDedicatedCores: 1 };
+
+  it('rounds shared cores up to the core increment', () => {
+    expect(calculatePowerVSCores(1, 'shared', config)).toBe(0.25);
+    expect(calculatePowerVSCores(6, 'shared', config)).toBe(1.5);
+    expect(calculatePowerVSCores(8, 'shared', config)).toBe(2);
+  });
+
+  it('allocates whole dedicated cores', () => {
+    expect(calculatePowerVSCores(2, 'dedicated', config)).toBe(1);
+    expect(calculatePowerVSCores(10, 'dedicated', config)).toBe(3);
+  });
+});
+
+describe('mapVMToPowerVS', () => {
+  it('places databases on dedicated cores with Tier 1 storage', () => {
+    const mapping = mapVMToPowerVS({ vmName: 'oracle-db-01', cpus: 8, memory: 65536, guestOS: 'Oracle Linux 8', storageGiB: 500.2 });
+
+    expect(mapping).toMatchObject({
+      processorType: 'dedicated',
+      storageTier: 'tier1',
+      memoryGiB: 64,
+      storageGiB: 501,
+      workloadCategory: 'databases',
+      systemType: getPowerVSSizingConfig().defaultSystemType,
+    });
+  });
+
+  it('places other workloads on shared cores with Tier 3 storage', () => {
+    const mapping = mapVMToPowerVS({ vmName: 'app-server', cpus: 2, memory: 1024 });
+
+    expect(mapping).toMatchObject({ processorType: 'shared', storageTier: 'tier3', memoryGiB: 2, storageGiB: 20 });
+  });
+
+  it('moves LPARs that exceed the default system to the large system type', () => {
+    const config = getPowerVSSizingConfig();
+    const mapping = mapVMToPowerVS({ vmName: 'hana-prod', cpus: 64, memory: 4096 * 1024 });
+
+    expect(mapping.systemType).toBe(config.largeSystemType);
+  });
+});
+
+describe('calculatePowerVSTotals', () => {
+  it('sums cores by processor type and storage by tier', () => {
+    const totals = calculatePowerVSTotals(createPowerVSMappings([
+      { vmName: 'oracle-db-01', cpus: 8, memory: 32768, storageGiB: 400 },
+      { vmName: 'sap-app-01', cpus: 4, memory: 16384, storageGiB: 100 },
+      { vmName: 'app-01', cpus: 4, memory: 8192, storageGiB: 50 },
+    ]));
+
+    expect(totals.instances).toBe(3);
+    expect(totals.dedicatedCores).toBe(3);
+    expect(totals.sharedCores).toBe(1);
+    expect(totals.memoryGiB).toBe(56);
+    expect(totals.tier1StorageGiB).toBe(500);
+    expect(totals.tier3StorageGiB).toBe(50);
+  });
+});
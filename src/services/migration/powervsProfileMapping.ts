@@ -0,0 +1,148 @@
+// PowerVS profile mapping services
+
+import { mibToGiB } from '@/utils/formatters';
+import ibmCloudConfig from '@/data/ibmCloudConfig.json';
+import { getVMWorkloadCategory, getStorageTierForWorkload } from '@/utils/workloadClassification';
+
+export type PowerVSProcessorType = 'shared' | 'dedicated';
+export type PowerVSStorageTier = 'tier1' | 'tier3';
+
+export interface PowerVSSizingConfig {
+  defaultSystemType: string;
+  largeSystemType: string;
+  defaultProcessorType: PowerVSProcessorType;
+  x86VcpusPerCore: number;
+  sharedCoreIncrement: number;
+  minSharedCores: number;
+  minDedicatedCores: number;
+  minMemoryGiB: number;
+  minStorageGiB: number;
+}
+
+export interface PowerVSVMInput {
+  vmName: string;
+  cpus: number;
+  memory: number; // in MiB
+  guestOS?: string;
+  annotation?: string | null;
+  /** Provisioned storage across all disks */
+  storageGiB?: number;
+}
+
+export interface PowerVSProfileMapping {
+  vmName: string;
+  guestOS: string;
+  vcpus: number;
+  sourceMemoryGiB: number;
+  systemType: string;
+  processorType: PowerVSProcessorType;
+  cores: number;
+  memoryGiB: number;
+  storageTier: PowerVSStorageTier;
+  storageGiB: number;
+  workloadCategory: string | null;
+}
+
+export interface PowerVSTotals {
+  instances: number;
+  sharedCores: number;
+  dedicatedCores: number;
+  memoryGiB: number;
+  tier1StorageGiB: number;
+  tier3StorageGiB: number;
+}
+
+/**
+ * Get PowerVS sizing rules from the IBM Cloud configuration
+ */
+export function getPowerVSSizingConfig(): PowerVSSizingConfig {
+  return ibmCloudConfig.powervs.sizing as PowerVSSizingConfig;
+}
+
+/**
+ * Map a workload category to a PowerVS storage tier.
+ * Workloads that default to 10 IOPS/GB block storage on VPC (databases, SAP) land on Tier 1.
+ */
+export function getPowerVSStorageTier(workloadCategory: string | null): PowerVSStorageTier {
+  return getStorageTierForWorkload(workloadCategory) === '10iops' ? 'tier1' : 'tier3';
+}
+
+/**
+ * Convert x86 vCPUs to PowerVS cores.
+ * Shared cores are allocated in fractional increments, dedicated cores in whole cores.
+ */
+export function calculatePowerVSCores(
+  vcpus: number,
+  processorType: PowerVSProcessorType,
+  config: PowerVSSizingConfig = getPowerVSSizingConfig()
+): number {
+  const rawCores = vcpus / config.x86VcpusPerCore;
+  if (processorType === 'dedicated') {
+    return Math.max(config.minDedicatedCores, Math.ceil(rawCores));
+  }
+  const increments = Math.ceil(rawCores / config.sharedCoreIncrement - 1e-9);
+  return Math.max(config.minSharedCores, increments * config.sharedCoreIncrement);
+}
+
+/**
+ * Map a single VM to a PowerVS LPAR (system type, cores, memory, storage tier)
+ */
+export function mapVMToPowerVS(
+  vm: PowerVSVMInput,
+  config: PowerVSSizingConfig = getPowerVSSizingConfig()
+): PowerVSProfileMapping {
+  const workloadCategory = getVMWorkloadCategory(vm.vmName, vm.annotation ?? null);
+  const storageTier = getPowerVSStorageTier(workloadCategory);
+
+  // Tier 1 workloads (production databases, SAP HANA) need guaranteed capacity
+  const processorType: PowerVSProcessorType = storageTier === 'tier1' ? 'dedicated' : config.defaultProcessorType;
+  const cores = calculatePowerVSCores(vm.cpus, processorType, config);
+  const sourceMemoryGiB = mibToGiB(vm.memory);
+  const memoryGiB = Math.max(config.minMemoryGiB, Math.ceil(sourceMemoryGiB));
+
+  const defaultSystem = ibmCloudConfig.powervs.systemTypes[config.defaultSystemType as keyof typeof ibmCloudConfig.powervs.systemTypes];
+  const exceedsDefault = !!defaultSystem && (cores > defaultSystem.maxCores || memoryGiB > defaultSystem.maxMemoryGiB);
+
+  return {
+    vmName: vm.vmName,
+    guestOS: vm.guestOS ?? '',
+    vcpus: vm.cpus,
+    sourceMemoryGiB: Math.round(sourceMemoryGiB),
+    systemType: exceedsDefault ? config.largeSystemType : config.defaultSystemType,
+    processorType,
+    cores,
+    memoryGiB,
+    storageTier,
+    storageGiB: Math.max(config.minStorageGiB, Math.ceil(vm.storageGiB ?? 0)),
+    workloadCategory,
+  };
+}
+
+/**
+ * Create PowerVS mappings for a list of VMs
+ */
+export function createPowerVSMappings(vms: PowerVSVMInput[]): PowerVSProfileMapping[] {
+  const config = getPowerVSSizingConfig();
+  return vms.map(vm => mapVMToPowerVS(vm, config));
+}
+
+/**
+ * Calculate totals from PowerVS mappings
+ */
+export function calculatePowerVSTotals(mappings: PowerVSProfileMapping[]): PowerVSTotals {
+  return mappings.reduce<PowerVSTotals>((totals, m) => {
+    totals.instances++;
+    if (m.processorType === 'dedicated') {
+      totals.dedicatedCores += m.cores;
+    } else {
+      totals.sharedCores += m.cores;
+    }
+    totals.memoryGiB += m.memoryGiB;
+    if (m.storageTier === 'tier1') {
+      totals.tier1StorageGiB += m.storageGiB;
+    } else {
+      totals.tier3StorageGiB += m.storageGiB;
+    }
+    return totals;
+  }, { instances: 0, sharedCores: 0, dedicatedCores: 0, memoryGiB: 0, tier1StorageGiB: 0, tier3StorageGiB: 0 });
+}
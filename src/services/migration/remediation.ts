@@ -21,6 +21,10 @@ export const VPC_DOCS = {
   ibmOnPremMigration: 'https://cloud.ibm.com/docs/cloud-infrastructure?topic=cloud-infrastructure-migrating-on-prem-cloud-vpc',
 };
 
+export const OVE_DOCS = {
+  overview: 'https://www.redhat.com/en/technologies/cloud-computing/openshift/virtualization-engine',
+};
+
 export interface PreflightCheckCounts {
   // Common checks
   vmsWithoutTools: number;
@@ -71,6 +75,10 @@ export interface PreflightCheckCounts {
   vmsWithInvalidHostnameList?: string[];
   vmsStaticIPPoweredOff?: number;
   vmsStaticIPPoweredOffList?: string[];
+
+  // OVE-specific checks
+  vmsWithContainerWorkloads?: number;
+  vmsWithContainerWorkloadsList?: string[];
 }
 
 /**
@@ -441,6 +449,29 @@ export function generateROKSRemediationItems(counts: PreflightCheckCounts): Reme
   return items;
 }
 
+/**
+ * Generate remediation items for OpenShift Virtualization Engine migration.
+ * OVE runs the same MTV pipeline as ROKS, plus the VM-only entitlement rule.
+ */
+export function generateOVERemediationItems(counts: PreflightCheckCounts): RemediationItem[] {
+  const items = generateROKSRemediationItems(counts);
+
+  if (counts.vmsWithContainerWorkloads && counts.vmsWithContainerWorkloads > 0) {
+    items.push({
+      id: 'ove-vm-only',
+      name: 'Container Workloads on OVE',
+      severity: 'warning',
+      description: 'The OpenShift Virtualization Engine entitlement covers virtual machines and supporting infrastructure only. These VMs host container platforms (Kubernetes, OpenShift, Docker) whose application pods cannot run on an OVE cluster.',
+      remediation: 'Keep these VMs as VMs without scheduling their container workloads onto the cluster, or migrate the container platform to a ROKS cluster with a full OpenShift Container Platform entitlement.',
+      documentationLink: OVE_DOCS.overview,
+      affectedCount: counts.vmsWithContainerWorkloads,
+      affectedVMs: counts.vmsWithContainerWorkloadsList || [],
+    });
+  }
+
+  return items;
+}
+
 /**
  * Generate ALL VSI check items (including passed checks for display)
  * This shows all VPC checks as dropdowns with their status
@@ -782,6 +813,9 @@ export function generateRemediationItems(
       ? generateVSIAllChecks(counts)
       : generateVSIRemediationItems(counts);
   }
+  if (mode === 'ove') {
+    return generateOVERemediationItems(counts);
+  }
   return generateROKSRemediationItems(counts);
 }
 
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  selectVolumeProfile,
+  getProvisionedIOPS,
+  getIOPSForThroughput,
+  planVMStorage,
+  summarizeStoragePlans,
+} from './storagePlanning';
+import type { VMStorageInput } from './storagePlanning';
+
+function input(overrides: Partial<VMStorageInput> = {}): VMStorageInput {
+  return {
+    vmName: 'app-01',
+    guestOS: 'Red Hat Enterprise Linux 8 (64-bit)',
+    disks: [
+      { label: 'Hard disk 1', capacityGiB: 60 },
+      { label: 'Hard disk 2', capacityGiB: 300 },
+      { label: 'Hard disk 3', capacityGiB: 100 },
+    ],
+    workloadCategory: null,
+    ...overrides,
+  };
+}
+
+describe('selectVolumeProfile', () => {
+  it('picks the lowest tiered profile covering the IOPS', () => {
+    expect(selectVolumeProfile(100, 300)).toBe('general-purpose');
+    expect(selectVolumeProfile(100, 450)).toBe('5iops');
+    expect(selectVolumeProfile(100, 900)).toBe('10iops');
+  });
+
+  it('falls back to custom IOPS beyond tiered density or size limits', () => {
+    expect(selectVolumeProfile(100, 2000)).toBe('sdp');
+    expect(selectVolumeProfile(20000, 1000)).toBe('sdp');
+  });
+
+  it('provisions tiered IOPS from capacity and sdp IOPS from demand', () => {
+    expect(getProvisionedIOPS('5iops', 200, 0)).toBe(1000);
+    expect(getProvisionedIOPS('10iops', 10000, 0)).toBe(48000);
+    expect(getProvisionedIOPS('sdp', 100, 5000)).toBe(5000);
+    expect(getProvisionedIOPS('sdp', 100, 500)).toBe(3000);
+  });
+
+  it('converts throughput to IOPS at 16 KiB per I/O', () => {
+    expect(getIOPSForThroughput(100)).toBe(6400);
+  });
+});
+
+describe('planVMStorage', () => {
+  it('splits a general-purpose boot volume from data volumes', () => {
+    const plan = planVMStorage(input({ guestOS: 'Microsoft Windows Server 2019 (64-bit)' }));
+
+    expect(plan.volumes.map(v => [v.role, v.capacityGiB, v.profile])).toEqual([
+      ['boot', 120, 'general-purpose'],
+      ['data', 300, 'general-purpose'],
+      ['data', 100, 'general-purpose'],
+    ]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it('uses the workload category default IOPS without metrics', () => {
+    const plan = planVMStorage(input({ workloadCategory: 'databases' }));
+
+    expect(plan.volumes[1]).toMatchObject({ requiredIOPS: 3000, iopsSource: 'category', profile: '10iops' });
+    expect(plan.dataProfile).toBe('10iops');
+  });
+
+  it('shares measured IOPS across data volumes by capacity', () => {
+    const plan = planVMStorage(input({ measured: { iops: 4000, throughputMBps: null }, dataScale: 0.5 }));
+    const [boot, large, small] = plan.volumes;
+
+    expect(boot.requiredIOPS).toBe(0);
+    expect(large).toMatchObject({ capacityGiB: 150, requiredIOPS: 3000, iopsSource: 'measured', profile: 'sdp' });
+    expect(small).toMatchObject({ capacityGiB: 50, requiredIOPS: 1000, profile: 'sdp', provisionedIOPS: 3000 });
+    expect(plan.dataProfile).toBe('sdp');
+  });
+
+  it('derives IOPS from measured throughput', () => {
+    const plan = planVMStorage(input({ disks: [{ label: 'boot', capacityGiB: 50 }, { label: 'data', capacityGiB: 1000 }], measured: { iops: 100, throughputMBps: 100 } }));
+
+    expect(plan.volumes[1]).toMatchObject({ requiredIOPS: 6400, profile: '10iops' });
+  });
+
+  it('applies a profile override to data volumes only', () => {
+    const plan = planVMStorage(input({ workloadCategory: 'databases', profileOverride: 'general-purpose' }));
+
+    expect(plan.volumes[0].profile).toBe('general-purpose');
+    expect(plan.volumes[1]).toMatchObject({ autoProfile: '10iops', profile: 'general-purpose', provisionedIOPS: 900 });
+    expect(plan.warnings[0].message).toMatch(/Needs 3000 IOPS/);
+  });
+
+  it('warns when a disk exceeds per-volume size, IOPS or boot limits', () => {
+    const plan = planVMStorage(input({
+      disks: [{ label: 'Hard disk 1', capacityGiB: 400 }, { label: 'Hard disk 2', capacityGiB: 40000 }],
+      measured: { iops: 80000, throughputMBps: null },
+    }));
+
+    expect(plan.volumes[0].capacityGiB).toBe(250);
+    expect(plan.warnings.map(w => w.message)).toEqual([
+      expect.stringMatching(/boot volumes are limited to 250 GB/),
+      expect.stringMatching(/exceeds the 32000 GB sdp volume limit/),
+      expect.stringMatching(/above the 64000 IOPS per-volume limit/),
+    ]);
+  });
+});
+
+describe('summarizeStoragePlans', () => {
+  it('totals boot, tiered and custom IOPS volumes', () => {
+    const summary = summarizeStoragePlans([
+      planVMStorage(input()),
+      planVMStorage(input({ vmName: 'db-01', measured: { iops: 8000, throughputMBps: null } })),
+    ]);
+
+    expect(summary.bootStorageGiB).toBe(200);
+    expect(summary.storageByTierGiB).toEqual({ 'general-purpose': 400 });
+    expect(summary.customIOPS).toEqual({ capacityGiB: 400, iops: 9000, volumes: 2 });
+  });
+});
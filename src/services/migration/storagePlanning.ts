@@ -0,0 +1,274 @@
+// Block storage planning - sizes VPC boot and data volumes per VM disk and picks
+// the volume profile from required IOPS and throughput
+
+import type { StorageTierType } from '@/utils/workloadClassification';
+import { getStorageTierForWorkload } from '@/utils/workloadClassification';
+
+// ===== TYPES =====
+
+export type VolumeRole = 'boot' | 'data';
+
+/** Where a volume's IOPS requirement came from */
+export type IOPSSource = 'measured' | 'category';
+
+export interface VolumeProfileLimits {
+  /** Fixed IOPS per GB for tiered profiles, null when IOPS are provisioned separately */
+  iopsPerGB: number | null;
+  minIOPS: number;
+  maxIOPS: number;
+  maxCapacityGiB: number;
+  maxThroughputMBps: number;
+}
+
+export interface VMStorageDisk {
+  label: string;
+  capacityGiB: number;
+}
+
+export interface VMStorageInput {
+  vmName: string;
+  guestOS: string;
+  /** Source disks in controller order; the first disk becomes the boot volume */
+  disks: VMStorageDisk[];
+  workloadCategory: string | null;
+  /** Measured p95 IOPS and throughput for the whole VM, null to use category defaults */
+  measured?: { iops: number | null; throughputMBps: number | null } | null;
+  /** Scale applied to data volume capacity for the selected storage metric (0-1) */
+  dataScale?: number;
+  /** Profile forced on every data volume */
+  profileOverride?: StorageTierType | null;
+}
+
+export interface PlannedVolume {
+  label: string;
+  role: VolumeRole;
+  capacityGiB: number;
+  requiredIOPS: number;
+  requiredThroughputMBps: number | null;
+  iopsSource: IOPSSource;
+  /** Profile chosen from the IOPS requirement, before any override */
+  autoProfile: StorageTierType;
+  profile: StorageTierType;
+  /** IOPS the volume delivers with the chosen profile */
+  provisionedIOPS: number;
+}
+
+export interface StoragePlanWarning {
+  vmName: string;
+  volume: string;
+  message: string;
+}
+
+export interface VMStoragePlan {
+  vmName: string;
+  volumes: PlannedVolume[];
+  /** Highest data volume profile, used as the VM's storage tier */
+  dataProfile: StorageTierType;
+  warnings: StoragePlanWarning[];
+}
+
+export interface StoragePlanSummary {
+  bootStorageGiB: number;
+  /** Data volume capacity per tiered profile, excluding custom IOPS volumes */
+  storageByTierGiB: Partial<Record<StorageTierType, number>>;
+  /** Custom IOPS (sdp) data volumes, priced by capacity and provisioned IOPS */
+  customIOPS: { capacityGiB: number; iops: number; volumes: number };
+  warnings: StoragePlanWarning[];
+}
+
+// ===== CONSTANTS =====
+
+/** Per-volume limits of the VPC block storage profiles */
+export const VOLUME_PROFILE_LIMITS: Record<StorageTierType, VolumeProfileLimits> = {
+  'general-purpose': { iopsPerGB: 3, minIOPS: 100, maxIOPS: 48000, maxCapacityGiB: 16000, maxThroughputMBps: 670 },
+  '5iops': { iopsPerGB: 5, minIOPS: 100, maxIOPS: 48000, maxCapacityGiB: 9600, maxThroughputMBps: 768 },
+  '10iops': { iopsPerGB: 10, minIOPS: 100, maxIOPS: 48000, maxCapacityGiB: 4800, maxThroughputMBps: 1024 },
+  sdp: { iopsPerGB: null, minIOPS: 3000, maxIOPS: 64000, maxCapacityGiB: 32000, maxThroughputMBps: 1024 },
+};
+
+/** Tiered profiles in the order they are tried, cheapest first */
+const TIERED_PROFILES: StorageTierType[] = ['general-purpose', '5iops', '10iops'];
+
+const PROFILE_RANK: Record<StorageTierType, number> = { 'general-purpose': 0, '5iops': 1, '10iops': 2, sdp: 3 };
+
+/** Tiered volumes deliver bandwidth at 16 KiB per IOPS */
+const IO_SIZE_KIB = 16;
+
+const MAX_BOOT_VOLUME_GIB = 250;
+const MIN_LINUX_BOOT_GIB = 100;
+const MIN_WINDOWS_BOOT_GIB = 120;
+
+// ===== PROFILE SELECTION =====
+
+/**
+ * IOPS a volume needs to sustain the given throughput at the tiered I/O size
+ */
+export function getIOPSForThroughput(throughputMBps: number): number {
+  return Math.ceil((throughputMBps * 1024) / IO_SIZE_KIB);
+}
+
+/**
+ * IOPS a volume of the given profile and capacity delivers. Tiered profiles
+ * scale with capacity; custom IOPS volumes provision what is required.
+ */
+export function getProvisionedIOPS(profile: StorageTierType, capacityGiB: number, requiredIOPS: number): number {
+  const limits = VOLUME_PROFILE_LIMITS[profile];
+  const iops = limits.iopsPerGB != null ? capacityGiB * limits.iopsPerGB : requiredIOPS;
+  return Math.round(Math.min(Math.max(iops, limits.minIOPS), limits.maxIOPS));
+}
+
+/**
+ * Cheapest volume profile for a capacity and IOPS requirement: the lowest
+ * tiered profile that covers it within its size and IOPS limits, otherwise a
+ * custom IOPS (sdp) volume.
+ */
+export function selectVolumeProfile(capacityGiB: number, requiredIOPS: number): StorageTierType {
+  for (const profile of TIERED_PROFILES) {
+    const limits = VOLUME_PROFILE_LIMITS[profile];
+    if (capacityGiB <= limits.maxCapacityGiB && requiredIOPS <= getProvisionedIOPS(profile, capacityGiB, requiredIOPS)) {
+      return profile;
+    }
+  }
+  return 'sdp';
+}
+
+/**
+ * Default IOPS per GB for a workload category, from the category's default tier
+ */
+export function getDefaultIOPSPerGB(workloadCategory: string | null): number {
+  return VOLUME_PROFILE_LIMITS[getStorageTierForWorkload(workloadCategory)].iopsPerGB ?? 3;
+}
+
+// ===== PLANNING =====
+
+function checkVolumeLimits(vmName: string, volume: PlannedVolume): StoragePlanWarning[] {
+  const limits = VOLUME_PROFILE_LIMITS[volume.profile];
+  const warnings: StoragePlanWarning[] = [];
+  const warn = (message: string) => warnings.push({ vmName, volume: volume.label, message });
+
+  if (volume.capacityGiB > limits.maxCapacityGiB) {
+    warn(`${volume.capacityGiB} GB exceeds the ${limits.maxCapacityGiB} GB ${volume.profile} volume limit; split the disk across volumes.`);
+  }
+  if (volume.requiredIOPS > volume.provisionedIOPS) {
+    warn(volume.requiredIOPS > limits.maxIOPS
+      ? `Needs ${volume.requiredIOPS} IOPS, above the ${limits.maxIOPS} IOPS per-volume limit; stripe the data across volumes.`
+      : `Needs ${volume.requiredIOPS} IOPS but a ${volume.profile} volume of ${volume.capacityGiB} GB delivers ${volume.provisionedIOPS}.`);
+  }
+  if (volume.requiredThroughputMBps != null && volume.requiredThroughputMBps > limits.maxThroughputMBps) {
+    warn(`Needs ${Math.round(volume.requiredThroughputMBps)} MB/s, above the ${limits.maxThroughputMBps} MB/s per-volume limit.`);
+  }
+  return warnings;
+}
+
+/**
+ * Plan the boot and data volumes for one VM. The first disk becomes a
+ * general-purpose boot volume; data volumes share the VM's measured IOPS and
+ * throughput in proportion to capacity, or use the workload category default
+ * IOPS per GB when nothing was measured.
+ */
+export function planVMStorage(input: VMStorageInput): VMStoragePlan {
+  const { vmName, disks, measured, dataScale = 1, profileOverride } = input;
+  const volumes: PlannedVolume[] = [];
+  const warnings: StoragePlanWarning[] = [];
+
+  const measuredIOPS = measured?.iops ?? null;
+  const measuredThroughput = measured?.throughputMBps ?? null;
+  const hasMeasurement = measuredIOPS != null || measuredThroughput != null;
+  const defaultIOPSPerGB = getDefaultIOPSPerGB(input.workloadCategory);
+
+  const [bootDisk, ...dataDisks] = disks;
+  const dataCapacities = dataDisks.map(d => Math.round(d.capacityGiB * dataScale));
+  const totalDataGiB = dataCapacities.reduce((sum, gib) => sum + gib, 0);
+
+  // Share of the VM's measured load a volume carries; the boot volume only carries measured load without data volumes
+  const demandFor = (share: number, capacityGiB: number): Pick<PlannedVolume, 'requiredIOPS' | 'requiredThroughputMBps' | 'iopsSource'> => {
+    if (!hasMeasurement) {
+      return { requiredIOPS: Math.ceil(capacityGiB * defaultIOPSPerGB), requiredThroughputMBps: null, iopsSource: 'category' };
+    }
+    const throughput = measuredThroughput != null ? measuredThroughput * share : null;
+    const iops = Math.max(Math.ceil((measuredIOPS ?? 0) * share), throughput != null ? getIOPSForThroughput(throughput) : 0);
+    return { requiredIOPS: iops, requiredThroughputMBps: throughput, iopsSource: 'measured' };
+  };
+
+  if (bootDisk) {
+    const sourceGiB = Math.round(bootDisk.capacityGiB);
+    const isWindows = input.guestOS.toLowerCase().includes('windows');
+    const capacityGiB = Math.min(Math.max(sourceGiB, isWindows ? MIN_WINDOWS_BOOT_GIB : MIN_LINUX_BOOT_GIB), MAX_BOOT_VOLUME_GIB);
+    if (sourceGiB > MAX_BOOT_VOLUME_GIB) {
+      warnings.push({
+        vmName,
+        volume: bootDisk.label,
+        message: `Boot disk is ${sourceGiB} GB; VPC boot volumes are limited to ${MAX_BOOT_VOLUME_GIB} GB, so move the excess to a data volume.`,
+      });
+    }
+    const demand = dataDisks.length === 0 && hasMeasurement
+      ? demandFor(1, capacityGiB)
+      : { requiredIOPS: 0, requiredThroughputMBps: null, iopsSource: hasMeasurement ? 'measured' as const : 'category' as const };
+    // Boot volumes are always general-purpose
+    const volume: PlannedVolume = {
+      label: bootDisk.label,
+      role: 'boot',
+      capacityGiB,
+      ...demand,
+      autoProfile: 'general-purpose',
+      profile: 'general-purpose',
+      provisionedIOPS: getProvisionedIOPS('general-purpose', capacityGiB, demand.requiredIOPS),
+    };
+    volumes.push(volume);
+    warnings.push(...checkVolumeLimits(vmName, volume));
+  }
+
+  dataDisks.forEach((disk, index) => {
+    const capacityGiB = dataCapacities[index];
+    const demand = demandFor(totalDataGiB > 0 ? capacityGiB / totalDataGiB : 1 / dataDisks.length, capacityGiB);
+    const autoProfile = selectVolumeProfile(capacityGiB, demand.requiredIOPS);
+    const profile = profileOverride ?? autoProfile;
+    const volume: PlannedVolume = {
+      label: disk.label,
+      role: 'data',
+      capacityGiB,
+      ...demand,
+      autoProfile,
+      profile,
+      provisionedIOPS: getProvisionedIOPS(profile, capacityGiB, demand.requiredIOPS),
+    };
+    volumes.push(volume);
+    warnings.push(...checkVolumeLimits(vmName, volume));
+  });
+
+  const dataVolumes = volumes.filter(v => v.role === 'data');
+  const dataProfile = dataVolumes.length > 0
+    ? dataVolumes.reduce<StorageTierType>((highest, v) => (PROFILE_RANK[v.autoProfile] > PROFILE_RANK[highest] ? v.autoProfile : highest), 'general-purpose')
+    : getStorageTierForWorkload(input.workloadCategory);
+
+  return { vmName, volumes, dataProfile, warnings };
+}
+
+/**
+ * Total boot, tiered and custom IOPS capacity across VM storage plans
+ */
+export function summarizeStoragePlans(plans: VMStoragePlan[]): StoragePlanSummary {
+  const summary: StoragePlanSummary = {
+    bootStorageGiB: 0,
+    storageByTierGiB: {},
+    customIOPS: { capacityGiB: 0, iops: 0, volumes: 0 },
+    warnings: [],
+  };
+
+  for (const plan of plans) {
+    for (const volume of plan.volumes) {
+      if (volume.role === 'boot') {
+        summary.bootStorageGiB += volume.capacityGiB;
+      } else if (volume.profile === 'sdp') {
+        summary.customIOPS.capacityGiB += volume.capacityGiB;
+        summary.customIOPS.iops += volume.provisionedIOPS;
+        summary.customIOPS.volumes += 1;
+      } else {
+        summary.storageByTierGiB[volume.profile] = (summary.storageByTierGiB[volume.profile] ?? 0) + volume.capacityGiB;
+      }
+    }
+    summary.warnings.push(...plan.warnings);
+  }
+
+  return summary;
+}
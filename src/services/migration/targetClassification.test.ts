@@ -4,6 +4,7 @@ import {
   classifyVMTarget,
   classifyAllVMs,
   getRecommendation,
+  VMWARE_RETAIN_BLOCKER_THRESHOLD,
 } from './targetClassification';
 import type { VMClassification } from './targetClassification';
 
@@ -343,6 +344,23 @@ describe('getRecommendation', () => {
     expect(result.type).toBe('split');
   });
 
+  it('recommends retaining VMware when enough VMs are blocked on every cloud target', () => {
+    const classifications = Array(10).fill(null).map((_, i) => makeClassification('roks', `r-${i}`));
+
+    const result = getRecommendation(classifications, 1000, 1200, 1100, { blockedPercentage: 40, monthlyCost: 900 });
+    expect(result.type).toBe('vmware-retain');
+    expect(result.blockedPercentage).toBe(40);
+    expect(result.reasoning[0]).toContain('40% of VMs have pre-flight blockers');
+    expect(result.reasoning.some(r => r.includes('most cost-effective'))).toBe(true);
+  });
+
+  it('keeps the migration recommendation below the retain blocker threshold', () => {
+    const classifications = Array(10).fill(null).map((_, i) => makeClassification('roks', `r-${i}`));
+
+    const result = getRecommendation(classifications, 1000, 1200, 1100, { blockedPercentage: VMWARE_RETAIN_BLOCKER_THRESHOLD - 1, monthlyCost: 500 });
+    expect(result.type).toBe('all-roks');
+  });
+
   it('handles 71% as all-roks', () => {
     // 71 ROKS, 29 VSI → 71%
     const classifications = [
@@ -10,6 +10,7 @@
 
 import type { VirtualMachine } from '@/types/rvtools';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
+import { formatCurrency } from '@/services/costEstimation';
 import rulesData from '@/data/targetClassificationRules.json';
 
 // --- Types ---
@@ -25,7 +26,7 @@ export interface VMClassification {
   confidence: ConfidenceLevel;
 }
 
-export type RecommendationType = 'all-roks' | 'all-vsi' | 'all-powervs' | 'split';
+export type RecommendationType = 'all-roks' | 'all-vsi' | 'all-powervs' | 'vmware-retain' | 'split';
 
 export interface ComparisonRecommendation {
   type: RecommendationType;
@@ -34,8 +35,20 @@ export interface ComparisonRecommendation {
   roksPercentage: number;
   vsiPercentage: number;
   powervsPercentage: number;
+  /** VMs blocked on every cloud target, in percent (VMware-retain recommendations only) */
+  blockedPercentage?: number;
 }
 
+/** VMware Cloud Foundation on IBM Cloud as the retain-and-defer alternative */
+export interface VMwareRetainComparison {
+  /** VMs with a pre-flight blocker on both ROKS and VSI, in percent */
+  blockedPercentage: number;
+  monthlyCost: number | null;
+}
+
+/** Blocked share of the estate from which retaining VMware is recommended */
+export const VMWARE_RETAIN_BLOCKER_THRESHOLD = 30;
+
 interface ClassificationRule {
   id: string;
   priority: number;
@@ -156,6 +169,7 @@ export function getRecommendation(
   roksCost: number,
   vsiCost: number,
   splitCost: number,
+  vmwareRetain?: VMwareRetainComparison,
 ): ComparisonRecommendation {
   if (classifications.length === 0) {
     return {
@@ -178,13 +192,36 @@ export function getRecommendation(
 
   const reasoning: string[] = [];
 
+  // Too much of the estate cannot leave VMware yet — lift it as-is first
+  if (vmwareRetain && vmwareRetain.blockedPercentage >= VMWARE_RETAIN_BLOCKER_THRESHOLD) {
+    reasoning.push(`${vmwareRetain.blockedPercentage}% of VMs have pre-flight blockers on both ROKS and VSI`);
+    const migrationCost = Math.min(...[roksCost, vsiCost, splitCost].filter(c => c > 0));
+    if (vmwareRetain.monthlyCost != null && Number.isFinite(migrationCost)) {
+      if (vmwareRetain.monthlyCost <= migrationCost) {
+        reasoning.push('Retaining VMware is also the most cost-effective option');
+      } else {
+        reasoning.push(`Migrating would be cheaper (${formatCurrency(migrationCost)} vs ${formatCurrency(vmwareRetain.monthlyCost)}), but the blockers must be remediated first`);
+      }
+    }
+    reasoning.push('Move to VMware Cloud Foundation on IBM Cloud now and re-platform once the blockers are remediated');
+    return {
+      type: 'vmware-retain',
+      title: 'Retain VMware (VCF on IBM Cloud)',
+      reasoning,
+      roksPercentage,
+      vsiPercentage,
+      powervsPercentage,
+      blockedPercentage: vmwareRetain.blockedPercentage,
+    };
+  }
+
   // Check for >70% threshold
   if (roksPercentage > 70) {
     reasoning.push(`${roksPercentage}% of VMs are classified for ROKS`);
     if (roksCost <= vsiCost) {
       reasoning.push('ROKS is also the most cost-effective option');
     } else {
-      reasoning.push(`VSI would be cheaper ($${vsiCost.toLocaleString()} vs $${roksCost.toLocaleString()}), but the workload mix strongly favors ROKS`);
+      reasoning.push(`VSI would be cheaper (${formatCurrency(vsiCost)} vs ${formatCurrency(roksCost)}), but the workload mix strongly favors ROKS`);
     }
     return { type: 'all-roks', title: 'All ROKS Migration', reasoning, roksPercentage, vsiPercentage, powervsPercentage };
   }
@@ -194,7 +231,7 @@ export function getRecommendation(
     if (vsiCost <= roksCost) {
       reasoning.push('VSI is also the most cost-effective option');
     } else {
-      reasoning.push(`ROKS would be cheaper ($${roksCost.toLocaleString()} vs $${vsiCost.toLocaleString()}), but the workload mix strongly favors VSI`);
+      reasoning.push(`ROKS would be cheaper (${formatCurrency(roksCost)} vs ${formatCurrency(vsiCost)}), but the workload mix strongly favors VSI`);
     }
     return { type: 'all-vsi', title: 'All VSI Migration', reasoning, roksPercentage, vsiPercentage, powervsPercentage };
   }
@@ -212,9 +249,9 @@ export function getRecommendation(
   if (splitCost === minCost) {
     reasoning.push('Split migration is the most cost-effective approach');
   } else if (roksCost === minCost) {
-    reasoning.push(`All-ROKS would be cheapest ($${roksCost.toLocaleString()}), but workload mix requires a split approach`);
+    reasoning.push(`All-ROKS would be cheapest (${formatCurrency(roksCost)}), but workload mix requires a split approach`);
   } else {
-    reasoning.push(`All-VSI would be cheapest ($${vsiCost.toLocaleString()}), but workload mix requires a split approach`);
+    reasoning.push(`All-VSI would be cheapest (${formatCurrency(vsiCost)}), but workload mix requires a split approach`);
   }
 
   return { type: 'split', title: 'Split Migration', reasoning, roksPercentage, vsiPercentage, powervsPercentage };
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sizeVMwareRetain,
+  getCloudBlockerSummary,
+  getLicensedCoresPerHost,
+  DEFAULT_VMWARE_RETAIN_SETTINGS,
+} from './vmwareRetainSizing';
+import type { RVToolsData, VirtualMachine, VHostInfo, VClusterInfo, VDiskInfo } from '@/types/rvtools';
+
+function makeVM(overrides: Partial<VirtualMachine>): VirtualMachine {
+  return {
+    vmName: 'test-vm',
+    powerState: 'poweredOn',
+    guestOS: 'Red Hat Enterprise Linux 8 (64-bit)',
+    cpus: 8,
+    memory: 32768,
+    inUseMiB: 102400,
+    cluster: 'cluster-a',
+    template: false,
+    ...overrides,
+  } as VirtualMachine;
+}
+
+function makeHost(overrides: Partial<VHostInfo>): VHostInfo {
+  return { name: 'esx-01', totalCpuCores: 32, cluster: 'cluster-a', ...overrides } as VHostInfo;
+}
+
+function makeCluster(overrides: Partial<VClusterInfo>): VClusterInfo {
+  return { name: 'cluster-a', hostCount: 2, numCpuCores: 64, haEnabled: false, haFailoverLevel: 0, ...overrides } as VClusterInfo;
+}
+
+function makeRVToolsData(vms: VirtualMachine[], extra: Partial<RVToolsData> = {}): RVToolsData {
+  return {
+    vInfo: vms,
+    vTools: [], vSnapshot: [], vDisk: [], vNetwork: [], vCD: [], vCPU: [], vMemory: [],
+    vHost: [], vCluster: [], vDatastore: [], vSource: [], vLicense: [], vPartition: [],
+    ...extra,
+  };
+}
+
+const fortyVMs = Array.from({ length: 40 }, (_, i) => makeVM({ vmName: `app-${i}` }));
+
+describe('getLicensedCoresPerHost', () => {
+  it('licenses every socket for at least 16 cores', () => {
+    expect(getLicensedCoresPerHost({ cpuSockets: 2, coresPerSocket: 32 })).toBe(64);
+    expect(getLicensedCoresPerHost({ cpuSockets: 2, coresPerSocket: 8 })).toBe(32);
+  });
+});
+
+describe('sizeVMwareRetain', () => {
+  it('keeps the observed consolidation ratio and sizes for the tightest resource', () => {
+    const sizing = sizeVMwareRetain(makeRVToolsData(fortyVMs, {
+      vHost: [makeHost({ name: 'esx-01' }), makeHost({ name: 'esx-02' })],
+      vCluster: [makeCluster({})],
+    }));
+
+    const [cluster] = sizing.clusters;
+    expect(cluster).toMatchObject({
+      cluster: 'cluster-a',
+      sourceHosts: 2,
+      sourceCores: 64,
+      vcpus: 320,
+      memoryGiB: 1280,
+      observedRatio: 5,
+      consolidationRatio: 5,
+      spareHosts: 1,
+      limitingFactor: 'memory',
+    });
+    // 1280 GiB over 768 GiB hosts at 80% needs 3 hosts, plus one HA spare
+    expect(cluster.hosts).toBe(4);
+    expect(sizing.hostProfileId).toBe(DEFAULT_VMWARE_RETAIN_SETTINGS.hostProfile);
+    expect(sizing.licensedCores).toBe(4 * getLicensedCoresPerHost(sizing.hostProfile));
+  });
+
+  it('applies a fixed ratio capped at the configured maximum', () => {
+    const rawData = makeRVToolsData(fortyVMs, { vHost: [makeHost({})] });
+    const sizing = sizeVMwareRetain(rawData, { ...DEFAULT_VMWARE_RETAIN_SETTINGS, vcpuPerCore: 20, memoryOvercommit: 2 });
+
+    expect(sizing.clusters[0].observedRatio).toBe(10);
+    expect(sizing.clusters[0].consolidationRatio).toBe(8);
+  });
+
+  it('keeps the vSAN minimum and source HA failover level', () => {
+    const sizing = sizeVMwareRetain(makeRVToolsData(
+      [makeVM({ vmName: 'small', cpus: 2, memory: 4096 }), makeVM({ vmName: 'edge', cluster: 'cluster-b' })],
+      { vCluster: [makeCluster({}), makeCluster({ name: 'cluster-b', haEnabled: true, haFailoverLevel: 2 })] },
+    ));
+
+    expect(sizing.clusters.map(c => [c.cluster, c.hosts, c.spareHosts, c.limitingFactor])).toEqual([
+      ['cluster-a', 3, 1, 'minimum'],
+      ['cluster-b', 3, 2, 'cpu'],
+    ]);
+    // Without vHost rows the cluster core count stands in for the source hosts
+    expect(sizing.clusters[0].sourceCores).toBe(64);
+  });
+
+  it('ignores powered-off VMs and templates, grouping standalone VMs together', () => {
+    const sizing = sizeVMwareRetain(makeRVToolsData([
+      makeVM({ vmName: 'off', powerState: 'poweredOff' }),
+      makeVM({ vmName: 'tpl', template: true }),
+      makeVM({ vmName: 'loose', cluster: '' }),
+    ]));
+
+    expect(sizing.clusters.map(c => c.cluster)).toEqual(['Standalone hosts']);
+    expect(sizing.vmCount).toBe(1);
+  });
+
+  it('falls back to the default host profile for unknown profiles', () => {
+    const sizing = sizeVMwareRetain(makeRVToolsData(fortyVMs), { ...DEFAULT_VMWARE_RETAIN_SETTINGS, hostProfile: 'missing' });
+    expect(sizing.hostProfileId).toBe(DEFAULT_VMWARE_RETAIN_SETTINGS.hostProfile);
+  });
+});
+
+describe('getCloudBlockerSummary', () => {
+  it('counts only VMs blocked on both ROKS and VSI', () => {
+    const vms = [
+      makeVM({ vmName: 'rdm-db', hardwareVersion: 'vmx-19' }),
+      makeVM({ vmName: 'web', hardwareVersion: 'vmx-19' }),
+    ];
+    const vDisk = [{ vmName: 'rdm-db', diskLabel: 'Hard disk 2', raw: true, capacityMiB: 1024 } as VDiskInfo];
+    const summary = getCloudBlockerSummary(makeRVToolsData(vms, { vDisk }), vms);
+
+    expect(summary.totalVMs).toBe(2);
+    expect(summary.blockedVMs).toBe(1);
+    expect(summary.blockedPercentage).toBe(50);
+  });
+
+  it('counts only in-scope VMs and keeps same-named VMs from different vCenters apart', () => {
+    const vms = [
+      makeVM({ vmName: 'rdm-db', uuid: 'uuid-a', sourceVCenter: 'vc-a', hardwareVersion: 'vmx-19' }),
+      makeVM({ vmName: 'rdm-db', uuid: 'uuid-b', sourceVCenter: 'vc-b', hardwareVersion: 'vmx-19' }),
+      makeVM({ vmName: 'web', uuid: 'uuid-c', hardwareVersion: 'vmx-19' }),
+      makeVM({ vmName: 'excluded', uuid: 'uuid-d', hardwareVersion: 'vmx-19' }),
+    ];
+    const vDisk = [{ vmName: 'rdm-db', diskLabel: 'Hard disk 2', raw: true, capacityMiB: 1024 } as VDiskInfo];
+    const summary = getCloudBlockerSummary(makeRVToolsData(vms, { vDisk }), vms.slice(0, 3));
+
+    expect(summary.totalVMs).toBe(3);
+    expect(summary.blockedVMs).toBe(2);
+    expect(summary.blockedPercentage).toBe(67);
+  });
+});
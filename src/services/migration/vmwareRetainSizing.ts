@@ -0,0 +1,239 @@
+// VMware-retain sizing services — VMware Cloud Foundation on IBM Cloud classic bare metal
+
+import type { RVToolsData, VClusterInfo, VHostInfo, VirtualMachine } from '@/types/rvtools';
+import type { VMwareRetainHostProfile } from '@/services/pricing/pricingCache';
+import { runPreFlightChecks } from '@/services/preflightChecks';
+import { mibToGiB } from '@/utils/formatters';
+import { getVMIdentifier } from '@/utils/vmIdentifier';
+import ibmCloudConfig from '@/data/ibmCloudConfig.json';
+
+export interface VMwareRetainSizingConfig {
+  defaultHostProfile: string;
+  defaultVcpuPerCore: number;
+  maxVcpuPerCore: number;
+  memoryOvercommit: number;
+  maxUtilisationPct: number;
+  haSpareHosts: number;
+  minHosts: number;
+  vsanUsableRatio: number;
+  vsanSlackPct: number;
+}
+
+export interface VMwareRetainSettings {
+  hostProfile: string;
+  /** Target vCPU:pCore ratio; null keeps each source cluster's observed consolidation ratio */
+  vcpuPerCore: number | null;
+  memoryOvercommit: number;
+  maxUtilisationPct: number;
+  /** Minimum spare hosts per cluster; vSphere HA failover levels above this are kept */
+  haSpareHosts: number;
+}
+
+export type VMwareRetainLimitingFactor = 'cpu' | 'memory' | 'storage' | 'minimum';
+
+export interface VMwareRetainClusterSizing {
+  cluster: string;
+  sourceHosts: number;
+  sourceCores: number;
+  vmCount: number;
+  vcpus: number;
+  memoryGiB: number;
+  storageGiB: number;
+  /** vCPU:pCore ratio running today */
+  observedRatio: number;
+  /** vCPU:pCore ratio the target hosts are sized for */
+  consolidationRatio: number;
+  spareHosts: number;
+  hosts: number;
+  limitingFactor: VMwareRetainLimitingFactor;
+}
+
+export interface VMwareRetainSizing {
+  hostProfileId: string;
+  hostProfile: VMwareRetainHostProfile;
+  clusters: VMwareRetainClusterSizing[];
+  totalHosts: number;
+  /** Physical cores across all target hosts */
+  totalCores: number;
+  /** Cores subscribed for vSphere and vSAN, after the per-socket minimum */
+  licensedCores: number;
+  sourceHosts: number;
+  sourceCores: number;
+  vmCount: number;
+  vcpus: number;
+  memoryGiB: number;
+  storageGiB: number;
+}
+
+export interface CloudBlockerSummary {
+  totalVMs: number;
+  /** VMs with a pre-flight blocker on every cloud target (ROKS and VSI) */
+  blockedVMs: number;
+  blockedPercentage: number;
+}
+
+const STANDALONE_CLUSTER = 'Standalone hosts';
+
+/**
+ * Get VMware-retain sizing rules from the IBM Cloud configuration
+ */
+export function getVMwareRetainSizingConfig(): VMwareRetainSizingConfig {
+  return ibmCloudConfig.vmwareRetain.sizing as VMwareRetainSizingConfig;
+}
+
+/**
+ * Classic bare metal host profiles offered for VMware Cloud Foundation
+ */
+export function getVMwareRetainHostProfiles(): Record<string, VMwareRetainHostProfile> {
+  return ibmCloudConfig.vmwareRetain.hostProfiles as Record<string, VMwareRetainHostProfile>;
+}
+
+export const DEFAULT_VMWARE_RETAIN_SETTINGS: VMwareRetainSettings = {
+  hostProfile: ibmCloudConfig.vmwareRetain.sizing.defaultHostProfile,
+  vcpuPerCore: null,
+  memoryOvercommit: ibmCloudConfig.vmwareRetain.sizing.memoryOvercommit,
+  maxUtilisationPct: ibmCloudConfig.vmwareRetain.sizing.maxUtilisationPct,
+  haSpareHosts: ibmCloudConfig.vmwareRetain.sizing.haSpareHosts,
+};
+
+/**
+ * Cores subscribed per host — VMware licenses every socket for at least 16 cores
+ */
+export function getLicensedCoresPerHost(
+  profile: Pick<VMwareRetainHostProfile, 'cpuSockets' | 'coresPerSocket'>,
+  minCoresPerSocket: number = ibmCloudConfig.vmwareRetain.licensing.minCoresPerSocket
+): number {
+  return profile.cpuSockets * Math.max(profile.coresPerSocket, minCoresPerSocket);
+}
+
+/**
+ * Size a vSphere cluster on the target host profile from its powered-on VMs.
+ * Hosts are the larger of the CPU, memory and vSAN capacity needs, plus HA spares.
+ */
+function sizeCluster(
+  cluster: string,
+  vms: RVToolsData['vInfo'],
+  hosts: VHostInfo[],
+  clusterInfo: VClusterInfo | undefined,
+  profile: VMwareRetainHostProfile,
+  settings: VMwareRetainSettings,
+  config: VMwareRetainSizingConfig
+): VMwareRetainClusterSizing {
+  const vcpus = vms.reduce((sum, vm) => sum + vm.cpus, 0);
+  const memoryGiB = vms.reduce((sum, vm) => sum + mibToGiB(vm.memory), 0);
+  const storageGiB = vms.reduce((sum, vm) => sum + mibToGiB(vm.inUseMiB), 0);
+  const sourceCores = hosts.length > 0
+    ? hosts.reduce((sum, h) => sum + h.totalCpuCores, 0)
+    : clusterInfo?.numCpuCores ?? 0;
+
+  const observedRatio = sourceCores > 0 ? vcpus / sourceCores : config.defaultVcpuPerCore;
+  const consolidationRatio = Math.min(config.maxVcpuPerCore, Math.max(1, settings.vcpuPerCore ?? observedRatio));
+
+  const utilisation = settings.maxUtilisationPct / 100;
+  const hostCores = profile.cpuSockets * profile.coresPerSocket;
+  const cpuHosts = Math.ceil(vcpus / consolidationRatio / (hostCores * utilisation));
+  const memoryHosts = Math.ceil(memoryGiB / settings.memoryOvercommit / (profile.memoryGiB * utilisation));
+  const vsanUsableGiB = profile.vsanRawTiB * 1024 * config.vsanUsableRatio;
+  const storageHosts = Math.ceil(storageGiB * (1 + config.vsanSlackPct / 100) / vsanUsableGiB);
+
+  const workloadHosts = Math.max(cpuHosts, memoryHosts, storageHosts, 1);
+  const spareHosts = Math.max(settings.haSpareHosts, clusterInfo?.haEnabled ? clusterInfo.haFailoverLevel : 0);
+  const limitingFactor: VMwareRetainLimitingFactor =
+    workloadHosts + spareHosts < config.minHosts ? 'minimum' :
+    workloadHosts === cpuHosts ? 'cpu' :
+    workloadHosts === memoryHosts ? 'memory' :
+    'storage';
+
+  return {
+    cluster,
+    sourceHosts: hosts.length || clusterInfo?.hostCount || 0,
+    sourceCores,
+    vmCount: vms.length,
+    vcpus,
+    memoryGiB: Math.round(memoryGiB),
+    storageGiB: Math.round(storageGiB),
+    observedRatio: Math.round(observedRatio * 10) / 10,
+    consolidationRatio: Math.round(consolidationRatio * 10) / 10,
+    spareHosts,
+    hosts: Math.max(workloadHosts + spareHosts, config.minHosts),
+    limitingFactor,
+  };
+}
+
+/**
+ * Size VMware Cloud Foundation hosts for the estate, one target cluster per source
+ * vSphere cluster so HA domains and consolidation ratios carry over
+ */
+export function sizeVMwareRetain(
+  rawData: Pick<RVToolsData, 'vInfo' | 'vHost' | 'vCluster'>,
+  settings: VMwareRetainSettings = DEFAULT_VMWARE_RETAIN_SETTINGS,
+  config: VMwareRetainSizingConfig = getVMwareRetainSizingConfig()
+): VMwareRetainSizing {
+  const profiles = getVMwareRetainHostProfiles();
+  const hostProfileId = profiles[settings.hostProfile] ? settings.hostProfile : config.defaultHostProfile;
+  const hostProfile = profiles[hostProfileId];
+
+  const vmsByCluster = new Map<string, RVToolsData['vInfo']>();
+  for (const vm of rawData.vInfo) {
+    if (vm.powerState !== 'poweredOn' || vm.template) continue;
+    const cluster = vm.cluster || STANDALONE_CLUSTER;
+    const list = vmsByCluster.get(cluster) ?? [];
+    list.push(vm);
+    vmsByCluster.set(cluster, list);
+  }
+
+  const clusters = [...vmsByCluster.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cluster, vms]) => sizeCluster(
+      cluster,
+      vms,
+      rawData.vHost.filter(h => (h.cluster || STANDALONE_CLUSTER) === cluster),
+      rawData.vCluster.find(c => c.name === cluster),
+      hostProfile,
+      settings,
+      config,
+    ));
+
+  const totalHosts = clusters.reduce((sum, c) => sum + c.hosts, 0);
+  return {
+    hostProfileId,
+    hostProfile,
+    clusters,
+    totalHosts,
+    totalCores: totalHosts * hostProfile.cpuSockets * hostProfile.coresPerSocket,
+    licensedCores: totalHosts * getLicensedCoresPerHost(hostProfile),
+    sourceHosts: clusters.reduce((sum, c) => sum + c.sourceHosts, 0),
+    sourceCores: clusters.reduce((sum, c) => sum + c.sourceCores, 0),
+    vmCount: clusters.reduce((sum, c) => sum + c.vmCount, 0),
+    vcpus: clusters.reduce((sum, c) => sum + c.vcpus, 0),
+    memoryGiB: clusters.reduce((sum, c) => sum + c.memoryGiB, 0),
+    storageGiB: clusters.reduce((sum, c) => sum + c.storageGiB, 0),
+  };
+}
+
+/**
+ * Share of in-scope powered-on VMs that cannot leave VMware yet: a pre-flight
+ * blocker on ROKS and on VSI alike. VMs are keyed by getVMIdentifier so that
+ * same-named VMs from different vCenters are counted separately.
+ */
+export function getCloudBlockerSummary(rawData: RVToolsData, inScopeVMs: VirtualMachine[]): CloudBlockerSummary {
+  const inScopeIds = new Set(inScopeVMs.map(getVMIdentifier));
+  // Pre-flight results follow the order of the powered-on, non-template vInfo rows
+  const checkedIds = rawData.vInfo
+    .filter(vm => vm.powerState === 'poweredOn' && !vm.template)
+    .map(getVMIdentifier);
+  const blockedIds = (mode: 'roks' | 'vsi') => new Set(
+    runPreFlightChecks(rawData, mode).flatMap((r, i) => (r.blockerCount > 0 ? [checkedIds[i]] : []))
+  );
+  const roksBlocked = blockedIds('roks');
+  const vsiBlocked = blockedIds('vsi');
+
+  const scopedIds = new Set(checkedIds.filter(id => inScopeIds.has(id)));
+  const totalVMs = scopedIds.size;
+  const blockedVMs = [...scopedIds].filter(id => roksBlocked.has(id) && vsiBlocked.has(id)).length;
+  return {
+    totalVMs,
+    blockedVMs,
+    blockedPercentage: totalVMs > 0 ? Math.round((blockedVMs / totalVMs) * 100) : 0,
+  };
+}
@@ -3,6 +3,8 @@
 import { mibToGiB } from '@/utils/formatters';
 import ibmCloudConfig from '@/data/ibmCloudConfig.json';
 import type { StorageTierType } from '@/utils/workloadClassification';
+import { getRightSizedResources, type VMPerformanceMetrics } from './performanceMetrics';
+import type { VMStoragePlan } from './storagePlanning';
 
 export interface VSIProfile {
   name: string;
@@ -46,6 +48,14 @@ export interface VMProfileMapping {
   workloadCategory: string | null;
   provisionedStorageGiB: number;
   inUseStorageGiB: number;
+  /** Guest-consumed storage from vPartition, null when the guest reported no partitions */
+  guestUsedStorageGiB: number | null;
+  /** Profile fitted to measured p95 utilisation, null without performance metrics */
+  rightSizedProfile: VSIProfile | null;
+  /** Measured p95 IOPS, null without performance metrics */
+  measuredIOPS: number | null;
+  /** Boot and data volume plan, null when the VM's disks are unknown */
+  storagePlan: VMStoragePlan | null;
 }
 
 export type ProfileFamily = 'balanced' | 'compute' | 'memory';
@@ -283,12 +293,38 @@ export function getProfileTypeFromName(profileName: string): 'Burstable' | 'Stan
   return isBurstableProfile(profileName) ? 'Burstable' : 'Standard';
 }
 
+/**
+ * Right-size a VM from its measured utilisation and map it to a profile of the
+ * same type (burstable or standard) as its allocation-based profile
+ */
+export function getRightSizedProfile(
+  vcpus: number,
+  memoryGiB: number,
+  metrics: VMPerformanceMetrics,
+  headroomPercent: number,
+  recommendation: ProfileRecommendation
+): VSIProfile {
+  const rightSized = getRightSizedResources({ vcpus, memoryGiB }, metrics, headroomPercent);
+  const burstable = recommendation === 'burstable'
+    ? findBurstableProfile(rightSized.vcpus, rightSized.memoryGiB)
+    : null;
+  return burstable ?? findStandardProfile(rightSized.vcpus, rightSized.memoryGiB);
+}
+
 export interface VMInput {
   vmName: string;
   cpus: number;
   memory: number; // in MiB
   nics?: number;
   guestOS?: string;
+  /** `getVMIdentifier` key, used to look up performance metrics */
+  vmId?: string;
+}
+
+export interface RightSizingInput {
+  /** Performance metrics keyed by `getVMIdentifier` */
+  metrics: Map<string, VMPerformanceMetrics>;
+  headroomPercent: number;
 }
 
 /**
@@ -298,7 +334,8 @@ export function createVMProfileMappings(
   vms: VMInput[],
   customProfiles: CustomProfile[],
   getEffectiveProfile: (vmName: string, autoProfile: string) => string,
-  hasOverride: (vmName: string) => boolean
+  hasOverride: (vmName: string) => boolean,
+  rightSizing?: RightSizingInput
 ): VMProfileMapping[] {
   return vms.map(vm => {
     const memoryGiB = mibToGiB(vm.memory);
@@ -341,6 +378,11 @@ export function createVMProfileMappings(
       }
     }
 
+    const metrics = vm.vmId ? rightSizing?.metrics.get(vm.vmId) : undefined;
+    const rightSizedProfile = metrics && rightSizing
+      ? getRightSizedProfile(vm.cpus, memoryGiB, metrics, rightSizing.headroomPercent, classification.recommendation)
+      : null;
+
     return {
       vmName: vm.vmName,
       vcpus: vm.cpus,
@@ -359,6 +401,10 @@ export function createVMProfileMappings(
       workloadCategory: null,
       provisionedStorageGiB: 0,
       inUseStorageGiB: 0,
+      guestUsedStorageGiB: null,
+      rightSizedProfile,
+      measuredIOPS: metrics?.iopsP95 ?? null,
+      storagePlan: null,
     };
   });
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toEditableWaves,
+  applyEditableWaves,
+  moveVMsToWave,
+  returnVMsToWaves,
+  splitWave,
+  mergeWaves,
+  renameWave,
+  setWaveLocked,
+  getWavePlanKey,
+  UNASSIGNED_WAVE_NAME,
+  type EditableWave,
+} from './wavePlanEditing';
+import type { VMWaveData, WaveGroup } from './wavePlanning';
+
+function makeVM(vmName: string, overrides: Partial<VMWaveData> = {}): VMWaveData {
+  return {
+    vmName,
+    complexity: 20,
+    osStatus: 'supported',
+    hasBlocker: false,
+    vcpus: 2,
+    memoryGiB: 4,
+    storageGiB: 100,
+    networkName: 'pg-app',
+    ipAddress: '10.0.0.1',
+    subnet: '10.0.0.0/24',
+    cluster: 'c1',
+    ...overrides,
+  } as VMWaveData;
+}
+
+function makePlan(): EditableWave[] {
+  return [
+    { id: 'w1', name: 'Wave 1', description: '', vmNames: ['a', 'b'], locked: false },
+    { id: 'w2', name: 'Wave 2', description: '', vmNames: ['c', 'd'], locked: false },
+    { id: 'w3', name: 'Wave 3', description: '', vmNames: ['e'], locked: false },
+  ];
+}
+
+describe('getWavePlanKey', () => {
+  it('keys network plans by grouping', () => {
+    expect(getWavePlanKey('roks', 'complexity', 'portGroup')).toBe('roks:complexity');
+    expect(getWavePlanKey('roks', 'network', 'portGroup')).toBe('roks:network:portGroup');
+  });
+
+  it('keeps ROKS and VSI plans apart', () => {
+    expect(getWavePlanKey('vsi', 'dependency', 'cluster')).toBe('vsi:dependency');
+    expect(getWavePlanKey('vsi', 'network', 'cluster')).not.toBe(getWavePlanKey('roks', 'network', 'cluster'));
+  });
+});
+
+describe('toEditableWaves / applyEditableWaves', () => {
+  it('round-trips generated waves', () => {
+    const vms = [makeVM('a'), makeVM('b', { hasBlocker: true }), makeVM('c')];
+    const generated: WaveGroup[] = [
+      { name: 'Pilot', description: 'first', vms: vms.slice(0, 2), vmCount: 2, vcpus: 4, memoryGiB: 8, storageGiB: 200, hasBlockers: true },
+      { name: 'Wave 2', description: 'second', vms: vms.slice(2), vmCount: 1, vcpus: 2, memoryGiB: 4, storageGiB: 100, hasBlockers: false },
+    ];
+
+    const waves = applyEditableWaves(toEditableWaves(generated), vms);
+
+    expect(waves.map(w => [w.name, w.vmCount, w.vcpus, w.storageGiB, w.hasBlockers])).toEqual([
+      ['Pilot', 2, 4, 200, true],
+      ['Wave 2', 1, 2, 100, false],
+    ]);
+  });
+
+  it('drops VMs no longer in scope and collects unplanned VMs', () => {
+    const waves = applyEditableWaves(makePlan(), [makeVM('a'), makeVM('c'), makeVM('d'), makeVM('new')]);
+
+    expect(waves.map(w => [w.name, w.vms.map(vm => vm.vmName)])).toEqual([
+      ['Wave 1', ['a']],
+      ['Wave 2', ['c', 'd']],
+      [UNASSIGNED_WAVE_NAME, ['new']],
+    ]);
+  });
+});
+
+describe('plan edits', () => {
+  it('moves VMs and removes waves left empty', () => {
+    const plan = moveVMsToWave(makePlan(), ['e', 'a'], 'w2');
+
+    expect(plan.map(w => [w.id, w.vmNames])).toEqual([
+      ['w1', ['b']],
+      ['w2', ['c', 'd', 'e', 'a']],
+    ]);
+  });
+
+  it('undoes a move without reverting later edits', () => {
+    const before = makePlan();
+    const moved = moveVMsToWave(before, ['e', 'a'], 'w2');
+    const edited = renameWave(moveVMsToWave(moved, ['c'], 'w1'), 'w2', 'Core');
+
+    expect(returnVMsToWaves(edited, before, ['e', 'a']).map(w => [w.id, w.name, w.vmNames])).toEqual([
+      ['w1', 'Wave 1', ['b', 'c', 'a']],
+      ['w2', 'Core', ['d']],
+      ['w3', 'Wave 3', ['e']],
+    ]);
+  });
+
+  it('keeps locked waves intact', () => {
+    const plan = setWaveLocked(makePlan(), 'w1', true);
+
+    expect(moveVMsToWave(plan, ['c'], 'w1')).toBe(plan);
+    expect(moveVMsToWave(plan, ['a', 'c'], 'w3').map(w => w.vmNames)).toEqual([['a', 'b'], ['d'], ['e', 'c']]);
+    expect(splitWave(plan, 'w1', ['a'])).toBe(plan);
+    expect(mergeWaves(plan, 'w2', 'w1')).toBe(plan);
+  });
+
+  it('splits selected VMs into a new wave after the source', () => {
+    const plan = splitWave(makePlan(), 'w2', ['d'], 'Wave 2b');
+
+    expect(plan.map(w => [w.name, w.vmNames])).toEqual([
+      ['Wave 1', ['a', 'b']],
+      ['Wave 2', ['c']],
+      ['Wave 2b', ['d']],
+      ['Wave 3', ['e']],
+    ]);
+    expect(splitWave(makePlan(), 'w2', ['c', 'd'])).toHaveLength(3);
+  });
+
+  it('merges and renames waves', () => {
+    const plan = renameWave(mergeWaves(makePlan(), 'w3', 'w1'), 'w1', '  Early movers ');
+
+    expect(plan.map(w => [w.name, w.vmNames])).toEqual([
+      ['Early movers', ['a', 'b', 'e']],
+      ['Wave 2', ['c', 'd']],
+    ]);
+    expect(renameWave(plan, 'w1', '   ')).toBe(plan);
+  });
+});
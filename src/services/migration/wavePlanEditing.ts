@@ -0,0 +1,194 @@
+// Wave plan editing — user edits (moves, splits, merges, renames, locks) on top
+// of the generated complexity or network waves. An edited plan stores only wave
+// membership by VM name; VM data is re-attached from the current dataset so the
+// plan survives re-sizing and exclusion changes.
+
+import type { VMWaveData, WaveGroup, NetworkGroupBy } from './wavePlanning';
+import type { MigrationMode } from './osCompatibility';
+
+export interface EditableWave {
+  id: string;
+  name: string;
+  description: string;
+  vmNames: string[];
+  /** Locked waves keep their VMs: nothing can be moved in or out, split off or merged */
+  locked: boolean;
+}
+
+type WavePlanStrategy = 'complexity' | 'dependency' | 'network:cluster' | 'network:portGroup';
+
+/** One edited plan per migration target and planning strategy */
+export type WavePlanKey = `${MigrationMode}:${WavePlanStrategy}`;
+
+export const UNASSIGNED_WAVE_NAME = 'Unassigned VMs';
+
+export function getWavePlanKey(
+  mode: MigrationMode,
+  wavePlanningMode: 'complexity' | 'network' | 'dependency',
+  networkGroupBy: NetworkGroupBy
+): WavePlanKey {
+  const strategy: WavePlanStrategy = wavePlanningMode === 'network' ? `network:${networkGroupBy}` : wavePlanningMode;
+  return `${mode}:${strategy}`;
+}
+
+let nextWaveId = 1;
+
+function createWaveId(): string {
+  return `wave-${Date.now().toString(36)}-${nextWaveId++}`;
+}
+
+/**
+ * Snapshot generated waves as an editable plan.
+ */
+export function toEditableWaves(waves: WaveGroup[]): EditableWave[] {
+  return waves.map((wave, index) => ({
+    id: `wave-${index + 1}`,
+    name: wave.name,
+    description: wave.description,
+    vmNames: wave.vms.map(vm => vm.vmName),
+    locked: false,
+  }));
+}
+
+/**
+ * Build a wave with totals from its VMs.
+ */
+export function summarizeWave(name: string, description: string, vms: VMWaveData[]): WaveGroup {
+  return {
+    name,
+    description,
+    vms,
+    vmCount: vms.length,
+    vcpus: vms.reduce((sum, vm) => sum + vm.vcpus, 0),
+    memoryGiB: vms.reduce((sum, vm) => sum + vm.memoryGiB, 0),
+    storageGiB: vms.reduce((sum, vm) => sum + vm.storageGiB, 0),
+    hasBlockers: vms.some(vm => vm.hasBlocker),
+    avgComplexity: vms.length > 0 ? vms.reduce((sum, vm) => sum + vm.complexity, 0) / vms.length : 0,
+  };
+}
+
+/**
+ * Resolve an edited plan against the current VM data.
+ * VMs that are no longer in scope are dropped; in-scope VMs the plan does not
+ * mention (new or re-included VMs) are collected in a trailing unassigned wave.
+ */
+export function applyEditableWaves(plan: EditableWave[], vmWaveData: VMWaveData[]): WaveGroup[] {
+  const vmByName = new Map(vmWaveData.map(vm => [vm.vmName, vm]));
+  const planned = new Set<string>();
+
+  const waves = plan.map(wave => {
+    const vms: VMWaveData[] = [];
+    for (const vmName of wave.vmNames) {
+      const vm = vmByName.get(vmName);
+      if (vm && !planned.has(vmName)) {
+        vms.push(vm);
+        planned.add(vmName);
+      }
+    }
+    return summarizeWave(wave.name, wave.description, vms);
+  });
+
+  const unassigned = vmWaveData.filter(vm => !planned.has(vm.vmName));
+  if (unassigned.length > 0) {
+    waves.push(summarizeWave(UNASSIGNED_WAVE_NAME, 'VMs not yet placed in the edited plan', unassigned));
+  }
+
+  return waves.filter(wave => wave.vmCount > 0);
+}
+
+function isLocked(plan: EditableWave[], waveId: string): boolean {
+  return plan.some(w => w.id === waveId && w.locked);
+}
+
+/**
+ * Move VMs into a wave. VMs in locked waves stay where they are, and nothing moves into a locked wave.
+ * Unlocked waves left empty by the move are removed.
+ */
+export function moveVMsToWave(plan: EditableWave[], vmNames: string[], targetWaveId: string): EditableWave[] {
+  if (isLocked(plan, targetWaveId) || !plan.some(w => w.id === targetWaveId)) return plan;
+
+  const lockedVMs = new Set(plan.filter(w => w.locked).flatMap(w => w.vmNames));
+  const moving = vmNames.filter(name => !lockedVMs.has(name));
+  if (moving.length === 0) return plan;
+  const movingSet = new Set(moving);
+
+  return plan
+    .map(wave => {
+      if (wave.id === targetWaveId) {
+        const kept = wave.vmNames.filter(name => !movingSet.has(name));
+        return { ...wave, vmNames: [...kept, ...moving] };
+      }
+      if (wave.locked || !wave.vmNames.some(name => movingSet.has(name))) return wave;
+      return { ...wave, vmNames: wave.vmNames.filter(name => !movingSet.has(name)) };
+    })
+    .filter(wave => wave.vmNames.length > 0 || wave.id === targetWaveId);
+}
+
+/**
+ * Undo a move: send the VMs back to the waves they were in in `before`, keeping
+ * any other edits made since. A wave the move emptied is restored in its old position.
+ */
+export function returnVMsToWaves(plan: EditableWave[], before: EditableWave[], vmNames: string[]): EditableWave[] {
+  const returning = new Set(vmNames);
+  let result = plan;
+  before.forEach((source, index) => {
+    const back = source.vmNames.filter(name => returning.has(name));
+    if (back.length === 0) return;
+    const withSource = result.some(w => w.id === source.id)
+      ? result
+      : [...result.slice(0, index), { ...source, vmNames: [] }, ...result.slice(index)];
+    const moved = moveVMsToWave(withSource, back, source.id);
+    if (moved !== withSource) result = moved;
+  });
+  return result;
+}
+
+/**
+ * Split VMs off an unlocked wave into a new wave placed right after it.
+ */
+export function splitWave(plan: EditableWave[], waveId: string, vmNames: string[], name?: string): EditableWave[] {
+  const index = plan.findIndex(w => w.id === waveId);
+  if (index === -1 || plan[index].locked) return plan;
+
+  const source = plan[index];
+  const splitSet = new Set(vmNames.filter(vm => source.vmNames.includes(vm)));
+  if (splitSet.size === 0 || splitSet.size === source.vmNames.length) return plan;
+
+  const newWave: EditableWave = {
+    id: createWaveId(),
+    name: name || `${source.name} (split)`,
+    description: source.description,
+    vmNames: source.vmNames.filter(vm => splitSet.has(vm)),
+    locked: false,
+  };
+
+  return [
+    ...plan.slice(0, index),
+    { ...source, vmNames: source.vmNames.filter(vm => !splitSet.has(vm)) },
+    newWave,
+    ...plan.slice(index + 1),
+  ];
+}
+
+/**
+ * Merge one unlocked wave into another; the target keeps its name and position.
+ */
+export function mergeWaves(plan: EditableWave[], sourceWaveId: string, targetWaveId: string): EditableWave[] {
+  const source = plan.find(w => w.id === sourceWaveId);
+  const target = plan.find(w => w.id === targetWaveId);
+  if (!source || !target || source.id === target.id || source.locked || target.locked) return plan;
+
+  return plan
+    .filter(w => w.id !== sourceWaveId)
+    .map(w => (w.id === targetWaveId ? { ...w, vmNames: [...w.vmNames, ...source.vmNames] } : w));
+}
+
+export function renameWave(plan: EditableWave[], waveId: string, name: string): EditableWave[] {
+  const trimmed = name.trim();
+  if (!trimmed) return plan;
+  return plan.map(w => (w.id === waveId ? { ...w, name: trimmed } : w));
+}
+
+export function setWaveLocked(plan: EditableWave[], waveId: string, locked: boolean): EditableWave[] {
+  return plan.map(w => (w.id === waveId ? { ...w, locked } : w));
+}
@@ -91,7 +91,7 @@ export function buildVMWaveData(
     // VSI-specific blockers
     const hasVeryLargeMem = mode === 'vsi' && mibToGiB(vm.memory) > 1024;
 
-    const hasBlocker = hasRDMOrShared || (mode === 'roks' && hasOldSnapshot) || (mode === 'roks' && noTools) || hasVeryLargeMem;
+    const hasBlocker = hasRDMOrShared || (mode !== 'vsi' && hasOldSnapshot) || (mode !== 'vsi' && noTools) || hasVeryLargeMem;
 
     // Get network info
     const vmNetworks = networksByVMName.get(vm.vmName.toLowerCase()) || [];
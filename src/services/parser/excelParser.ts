@@ -6,6 +6,7 @@ import {
   parseVCPU,
   parseVMemory,
   parseVDisk,
+  parseVPartition,
   parseVDatastore,
   parseVSnapshot,
   parseVNetwork,
@@ -15,6 +16,7 @@ import {
   parseVHost,
   parseVLicense,
   parseVRP,
+  parseVHealth,
   parseVSource,
 } from './tabParsers';
 import { REQUIRED_SHEETS, RECOMMENDED_SHEETS } from '@/utils/constants';
@@ -136,6 +138,11 @@ export async function parseRVToolsFile(
       ? parseVDisk(workbook.Sheets['vDisk'])
       : [];
 
+    reportProgress('vPartition');
+    const vPartition = sheetNames.includes('vPartition')
+      ? parseVPartition(workbook.Sheets['vPartition'])
+      : [];
+
     reportProgress('vDatastore');
     const vDatastore = sheetNames.includes('vDatastore')
       ? parseVDatastore(workbook.Sheets['vDatastore'])
@@ -181,6 +188,11 @@ export async function parseRVToolsFile(
       ? parseVRP(workbook.Sheets['vRP'])
       : [];
 
+    reportProgress('vHealth');
+    const vHealth = sheetNames.includes('vHealth')
+      ? parseVHealth(workbook.Sheets['vHealth'])
+      : [];
+
     reportProgress('vSource');
     const vSource = sheetNames.includes('vSource')
       ? parseVSource(workbook.Sheets['vSource'])
@@ -207,7 +219,7 @@ export async function parseRVToolsFile(
       vCPU,
       vMemory,
       vDisk,
-      vPartition: [], // TODO: Add parser if needed
+      vPartition,
       vNetwork,
       vCD,
       vSnapshot,
@@ -217,7 +229,7 @@ export async function parseRVToolsFile(
       vDatastore,
       vResourcePool,
       vLicense,
-      vHealth: [], // TODO: Add parser if needed
+      vHealth,
       vSource,
     };
 
@@ -1,4 +1,6 @@
 // Export parser services
 export { parseRVToolsFile, validateFile } from './excelParser';
 export type { ParsingProgress, ProgressCallback } from './excelParser';
+export { mergeRVToolsData, getSourceVCenters, getVCenterLabel } from './mergeRVTools';
+export type { RVToolsMergeResult, DuplicateVM } from './mergeRVTools';
 export * from './tabParsers';
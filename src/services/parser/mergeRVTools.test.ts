@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { mergeRVToolsData, getSourceVCenters } from './mergeRVTools';
+import { filterRawDataByVCenter } from '@/utils/filterRawData';
+import type { RVToolsData, VirtualMachine } from '@/types/rvtools';
+
+function makeVM(vmName: string, uuid: string | null): VirtualMachine {
+  return { vmName, uuid, powerState: 'poweredOn', template: false } as VirtualMachine;
+}
+
+function makeExport(server: string, vms: VirtualMachine[], fileName = `${server}.xlsx`): RVToolsData {
+  return {
+    metadata: { fileName, collectionDate: null, vCenterVersion: null, environment: null },
+    vInfo: vms,
+    vCPU: [],
+    vMemory: [],
+    vDisk: vms.map(vm => ({ vmName: vm.vmName, capacityMiB: 1024 })) as RVToolsData['vDisk'],
+    vPartition: [],
+    vNetwork: [],
+    vCD: [],
+    vSnapshot: [],
+    vTools: [],
+    vCluster: [{ name: `${server}-cluster` }] as RVToolsData['vCluster'],
+    vHost: [],
+    vDatastore: [],
+    vResourcePool: [],
+    vLicense: [],
+    vHealth: [],
+    vSource: server ? [{ server }] as RVToolsData['vSource'] : [],
+  };
+}
+
+describe('mergeRVToolsData', () => {
+  it('returns a single export unchanged', () => {
+    const data = makeExport('vc01', [makeVM('vm1', 'u1')]);
+    const result = mergeRVToolsData([data]);
+
+    expect(result.data).toBe(data);
+    expect(result.sources).toEqual(['vc01']);
+    expect(getSourceVCenters(result.data)).toEqual([]);
+  });
+
+  it('tags every row with its source vCenter', () => {
+    const result = mergeRVToolsData([
+      makeExport('vc01', [makeVM('vm1', 'u1')]),
+      makeExport('vc02', [makeVM('vm2', 'u2')]),
+    ]);
+
+    expect(result.sources).toEqual(['vc01', 'vc02']);
+    expect(result.data.vInfo.map(vm => vm.sourceVCenter)).toEqual(['vc01', 'vc02']);
+    expect(result.data.vDisk.map(d => d.sourceVCenter)).toEqual(['vc01', 'vc02']);
+    expect(result.data.vCluster.map(c => c.sourceVCenter)).toEqual(['vc01', 'vc02']);
+    expect(result.data.metadata.fileName).toBe('vc01.xlsx, vc02.xlsx');
+    expect(getSourceVCenters(result.data)).toEqual(['vc01', 'vc02']);
+  });
+
+  it('keeps the first copy of VMs duplicated across exports by UUID', () => {
+    const result = mergeRVToolsData([
+      makeExport('vc01', [makeVM('vm1', 'u1')]),
+      makeExport('vc02', [makeVM('vm1', 'u1'), makeVM('vm2', 'u2')]),
+    ]);
+
+    expect(result.data.vInfo.map(vm => vm.vmName)).toEqual(['vm1', 'vm2']);
+    expect(result.duplicates).toEqual([{ vmName: 'vm1', uuid: 'u1', keptFrom: 'vc01', droppedFrom: 'vc02' }]);
+    // The dropped copy's disks go with it
+    expect(result.data.vDisk.filter(d => d.vmName === 'vm1')).toHaveLength(1);
+  });
+
+  it('reports VM names reused by different VMs in different vCenters', () => {
+    const result = mergeRVToolsData([
+      makeExport('vc01', [makeVM('web01', 'u1')]),
+      makeExport('vc02', [makeVM('web01', 'u2')]),
+    ]);
+
+    expect(result.data.vInfo).toHaveLength(2);
+    expect(result.nameCollisions).toEqual(['web01']);
+  });
+
+  it('labels exports without vSource by file name and keeps labels unique', () => {
+    const result = mergeRVToolsData([
+      makeExport('', [makeVM('vm1', 'u1')], 'site-a.xlsx'),
+      makeExport('vc01', [makeVM('vm2', 'u2')]),
+      makeExport('vc01', [makeVM('vm3', 'u3')]),
+    ]);
+
+    expect(result.sources).toEqual(['site-a.xlsx', 'vc01', 'vc01 (2)']);
+  });
+
+  it('throws when there is nothing to merge', () => {
+    expect(() => mergeRVToolsData([])).toThrow();
+  });
+});
+
+describe('filterRawDataByVCenter', () => {
+  it('narrows every sheet to one vCenter', () => {
+    const { data } = mergeRVToolsData([
+      makeExport('vc01', [makeVM('vm1', 'u1')]),
+      makeExport('vc02', [makeVM('vm2', 'u2')]),
+    ]);
+
+    const scoped = filterRawDataByVCenter(data, 'vc02');
+
+    expect(scoped.vInfo.map(vm => vm.vmName)).toEqual(['vm2']);
+    expect(scoped.vDisk).toHaveLength(1);
+    expect(scoped.vCluster.map(c => c.name)).toEqual(['vc02-cluster']);
+    expect(filterRawDataByVCenter(data, null)).toBe(data);
+  });
+});
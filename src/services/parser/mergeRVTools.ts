@@ -0,0 +1,141 @@
+// Merge several RVTools exports (one per vCenter) into a single dataset.
+// Every row is tagged with sourceVCenter, and VMs that appear in more than
+// one export (same UUID, e.g. after a cross-vCenter vMotion) are kept once.
+
+import type { RVToolsData, RVToolsMetadata, SourceTagged } from '@/types/rvtools';
+
+export interface DuplicateVM {
+  vmName: string;
+  uuid: string;
+  /** vCenter whose copy of the VM was kept */
+  keptFrom: string;
+  /** vCenter whose copy of the VM was dropped */
+  droppedFrom: string;
+}
+
+export interface RVToolsMergeResult {
+  data: RVToolsData;
+  /** vCenter labels in upload order */
+  sources: string[];
+  duplicates: DuplicateVM[];
+  /** VM names used by different VMs in more than one vCenter */
+  nameCollisions: string[];
+}
+
+type SheetKey = Exclude<keyof RVToolsData, 'metadata'>;
+
+const SHEET_KEYS: SheetKey[] = [
+  'vInfo', 'vCPU', 'vMemory', 'vDisk', 'vPartition', 'vNetwork', 'vCD', 'vSnapshot', 'vTools',
+  'vCluster', 'vHost', 'vDatastore', 'vResourcePool', 'vLicense', 'vHealth', 'vSource',
+];
+
+// Sheets keyed by VM name whose rows follow the VM when a duplicate is dropped
+const VM_SCOPED_SHEETS: SheetKey[] = [
+  'vCPU', 'vMemory', 'vDisk', 'vPartition', 'vNetwork', 'vCD', 'vSnapshot', 'vTools',
+];
+
+/**
+ * Label an export by its vCenter server, falling back to the file name.
+ */
+export function getVCenterLabel(data: RVToolsData): string {
+  return data.vSource[0]?.server || data.metadata.fileName;
+}
+
+/**
+ * Distinct sourceVCenter values in a dataset, in order of first appearance.
+ * Empty for single-file uploads, which are not tagged.
+ */
+export function getSourceVCenters(data: RVToolsData): string[] {
+  const sources = new Set<string>();
+  for (const vm of data.vInfo) {
+    if (vm.sourceVCenter) sources.add(vm.sourceVCenter);
+  }
+  return [...sources];
+}
+
+function tagRows<T extends SourceTagged>(rows: T[], source: string): T[] {
+  return rows.map(row => ({ ...row, sourceVCenter: source }));
+}
+
+function mergeMetadata(datasets: RVToolsData[]): RVToolsMetadata {
+  const dates = datasets
+    .map(d => d.metadata.collectionDate)
+    .filter((d): d is Date => d !== null);
+  const environments = [...new Set(datasets.map(d => d.metadata.environment).filter(Boolean))];
+
+  return {
+    fileName: datasets.map(d => d.metadata.fileName).join(', '),
+    collectionDate: dates.length > 0 ? new Date(Math.max(...dates.map(d => d.getTime()))) : null,
+    vCenterVersion: datasets.find(d => d.metadata.vCenterVersion)?.metadata.vCenterVersion ?? null,
+    environment: environments.length > 0 ? environments.join(', ') : null,
+  };
+}
+
+/**
+ * Merge parsed RVTools exports into one dataset.
+ * A single export is returned untagged so existing single-vCenter behaviour is unchanged.
+ */
+export function mergeRVToolsData(datasets: RVToolsData[]): RVToolsMergeResult {
+  if (datasets.length === 0) {
+    throw new Error('No RVTools data to merge');
+  }
+  if (datasets.length === 1) {
+    return { data: datasets[0], sources: [getVCenterLabel(datasets[0])], duplicates: [], nameCollisions: [] };
+  }
+
+  // Give every export a unique label (the same vCenter may be exported twice)
+  const sources: string[] = [];
+  for (const data of datasets) {
+    const base = getVCenterLabel(data);
+    let label = base;
+    for (let n = 2; sources.includes(label); n++) label = `${base} (${n})`;
+    sources.push(label);
+  }
+
+  const merged = { metadata: mergeMetadata(datasets) } as RVToolsData;
+  for (const key of SHEET_KEYS) {
+    (merged[key] as SourceTagged[]) = [];
+  }
+
+  const keptByUuid = new Map<string, string>();
+  const sourceByName = new Map<string, string>();
+  const duplicates: DuplicateVM[] = [];
+  const nameCollisions = new Set<string>();
+
+  datasets.forEach((data, index) => {
+    const source = sources[index];
+    const droppedNames = new Set<string>();
+
+    for (const vm of data.vInfo) {
+      if (vm.uuid) {
+        const keptFrom = keptByUuid.get(vm.uuid);
+        if (keptFrom) {
+          duplicates.push({ vmName: vm.vmName, uuid: vm.uuid, keptFrom, droppedFrom: source });
+          droppedNames.add(vm.vmName);
+          continue;
+        }
+        keptByUuid.set(vm.uuid, source);
+      }
+
+      const nameSource = sourceByName.get(vm.vmName);
+      if (nameSource === undefined) {
+        sourceByName.set(vm.vmName, source);
+      } else if (nameSource !== source) {
+        nameCollisions.add(vm.vmName);
+      }
+
+      merged.vInfo.push({ ...vm, sourceVCenter: source });
+    }
+
+    for (const key of SHEET_KEYS) {
+      if (key === 'vInfo') continue;
+      let rows = data[key] as Array<SourceTagged & { vmName?: string }>;
+      if (droppedNames.size > 0 && VM_SCOPED_SHEETS.includes(key)) {
+        rows = rows.filter(row => !droppedNames.has(row.vmName ?? ''));
+      }
+      (merged[key] as SourceTagged[]).push(...tagRows(rows, source));
+    }
+  });
+
+  return { data: merged, sources, duplicates, nameCollisions: [...nameCollisions] };
+}
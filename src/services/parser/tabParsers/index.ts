@@ -3,6 +3,7 @@ export { parseVInfo } from './vInfoParser';
 export { parseVCPU } from './vCPUParser';
 export { parseVMemory } from './vMemoryParser';
 export { parseVDisk } from './vDiskParser';
+export { parseVPartition } from './vPartitionParser';
 export { parseVDatastore } from './vDatastoreParser';
 export { parseVSnapshot } from './vSnapshotParser';
 export { parseVNetwork } from './vNetworkParser';
@@ -12,5 +13,6 @@ export { parseVCluster } from './vClusterParser';
 export { parseVHost } from './vHostParser';
 export { parseVLicense } from './vLicenseParser';
 export { parseVRP } from './vRPParser';
+export { parseVHealth } from './vHealthParser';
 export { parseVSource } from './vSourceParser';
 export * from './utils';
@@ -0,0 +1,56 @@
+// Unit tests for vHealth parser
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseVHealth } from './vHealthParser';
+
+function createMockSheet(headers: string[], rows: unknown[][]): XLSX.WorkSheet {
+  const data = [headers, ...rows];
+  return XLSX.utils.aoa_to_sheet(data);
+}
+
+describe('parseVHealth', () => {
+  it('parses health messages with RVTools column names', () => {
+    const headers = ['Name', 'Message', 'Message type', 'VI SDK Server'];
+    const rows = [
+      ['[ds-01] old-vm/old-vm_1.vmdk', 'Possibly a Zombie vmdk file! Please check.', 'Zombie', 'vcenter01'],
+      ['app-server-01', 'Virtual machine disks consolidation is needed.', 'Consolidation', 'vcenter01'],
+    ];
+
+    const result = parseVHealth(createMockSheet(headers, rows));
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual({
+      entity: '[ds-01] old-vm/old-vm_1.vmdk',
+      entityType: '',
+      status: 'Zombie',
+      message: 'Possibly a Zombie vmdk file! Please check.',
+      timestamp: null,
+    });
+    expect(result[1]).toMatchObject({ entity: 'app-server-01', status: 'Consolidation' });
+  });
+
+  it('parses entity type and timestamp when present', () => {
+    const headers = ['Entity', 'Entity Type', 'Status', 'Message', 'Timestamp'];
+    const rows = [['ds-02', 'Datastore', 'Warning', 'Datastore is inaccessible', '2024-03-01T10:00:00Z']];
+
+    const result = parseVHealth(createMockSheet(headers, rows));
+
+    expect(result[0].entityType).toBe('Datastore');
+    expect(result[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('returns empty array for empty sheet', () => {
+    expect(parseVHealth(XLSX.utils.aoa_to_sheet([]))).toEqual([]);
+  });
+
+  it('filters out rows without entity or message', () => {
+    const headers = ['Name', 'Message'];
+    const rows = [
+      ['vm1', 'Snapshot older than 7 days'],
+      ['', 'Orphan message'],
+      ['vm2', ''],
+    ];
+
+    expect(parseVHealth(createMockSheet(headers, rows))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,34 @@
+// Parser for vHealth tab - vCenter health check messages reported by RVTools
+import type { VHealthInfo } from '@/types';
+import type { WorkSheet } from 'xlsx';
+import { parseSheet, getStringValue, getDateValue } from './utils';
+
+const COLUMN_MAP: Record<string, keyof VHealthInfo | null> = {
+  'Name': 'entity',
+  'Entity': 'entity',
+  'Object': 'entity',
+  'Entity Type': 'entityType',
+  'Object Type': 'entityType',
+  'Type': 'entityType',
+  'Message type': 'status',
+  'Message Type': 'status',
+  'Status': 'status',
+  'Severity': 'status',
+  'Message': 'message',
+  'Description': 'message',
+  'Timestamp': 'timestamp',
+  'Time': 'timestamp',
+  'Date': 'timestamp',
+};
+
+export function parseVHealth(sheet: WorkSheet): VHealthInfo[] {
+  const rows = parseSheet(sheet, COLUMN_MAP);
+
+  return rows.map((row): VHealthInfo => ({
+    entity: getStringValue(row, 'entity'),
+    entityType: getStringValue(row, 'entityType'),
+    status: getStringValue(row, 'status'),
+    message: getStringValue(row, 'message'),
+    timestamp: getDateValue(row, 'timestamp'),
+  })).filter(health => health.entity && health.message);
+}
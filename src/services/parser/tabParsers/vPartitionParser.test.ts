@@ -0,0 +1,108 @@
+// Unit tests for vPartition parser
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseVPartition } from './vPartitionParser';
+
+function createMockSheet(headers: string[], rows: unknown[][]): XLSX.WorkSheet {
+  const data = [headers, ...rows];
+  return XLSX.utils.aoa_to_sheet(data);
+}
+
+describe('parseVPartition', () => {
+  describe('basic parsing', () => {
+    it('parses partition data with standard column names', () => {
+      const headers = ['VM', 'Powerstate', 'Disk', 'Capacity MiB', 'Consumed MiB', 'Free MiB', 'Free %'];
+      const rows = [
+        ['web-server-01', 'poweredOn', 'C:\\', 102400, 40960, 61440, 60],
+        ['web-server-01', 'poweredOn', 'D:\\', 204800, 20480, 184320, 90],
+      ];
+
+      const sheet = createMockSheet(headers, rows);
+      const result = parseVPartition(sheet);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual({
+        vmName: 'web-server-01',
+        powerState: 'poweredOn',
+        partition: 'C:\\',
+        capacityMiB: 102400,
+        consumedMiB: 40960,
+        freeMiB: 61440,
+        freePercent: 60,
+      });
+      expect(result[1]).toMatchObject({
+        partition: 'D:\\',
+        consumedMiB: 20480,
+      });
+    });
+
+    it('parses partition data with legacy MB column names', () => {
+      const headers = ['VM Name', 'Power State', 'Partition', 'Capacity MB', 'Consumed MB', 'Free MB'];
+      const rows = [
+        ['db-server', 'poweredOn', '/', 51200, 25600, 25600],
+      ];
+
+      const sheet = createMockSheet(headers, rows);
+      const result = parseVPartition(sheet);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        vmName: 'db-server',
+        partition: '/',
+        capacityMiB: 51200,
+        consumedMiB: 25600,
+        freeMiB: 25600,
+      });
+    });
+  });
+
+  describe('derived values', () => {
+    it('derives consumed from capacity and free when consumed is missing', () => {
+      const headers = ['VM', 'Disk', 'Capacity MiB', 'Free MiB'];
+      const rows = [['vm1', '/var', 10240, 2048]];
+
+      const result = parseVPartition(createMockSheet(headers, rows));
+
+      expect(result[0].consumedMiB).toBe(8192);
+      expect(result[0].freePercent).toBe(20);
+    });
+
+    it('derives free from capacity and consumed when free is missing', () => {
+      const headers = ['VM', 'Disk', 'Capacity MiB', 'Consumed MiB'];
+      const rows = [['vm1', '/', 10240, 7168]];
+
+      const result = parseVPartition(createMockSheet(headers, rows));
+
+      expect(result[0].freeMiB).toBe(3072);
+      expect(result[0].freePercent).toBe(30);
+    });
+
+    it('returns zero free percent for zero capacity', () => {
+      const headers = ['VM', 'Disk', 'Capacity MiB', 'Consumed MiB'];
+      const rows = [['vm1', '/boot', 0, 0]];
+
+      const result = parseVPartition(createMockSheet(headers, rows));
+
+      expect(result[0].freePercent).toBe(0);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('returns empty array for empty sheet', () => {
+      const sheet = XLSX.utils.aoa_to_sheet([]);
+      expect(parseVPartition(sheet)).toEqual([]);
+    });
+
+    it('filters out rows without VM name', () => {
+      const headers = ['VM', 'Disk', 'Capacity MiB'];
+      const rows = [
+        ['vm1', '/', 10240],
+        ['', '/', 10240],
+      ];
+
+      const result = parseVPartition(createMockSheet(headers, rows));
+
+      expect(result).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+// Parser for vPartition tab - guest OS partition usage (requires VMware Tools)
+import type { VPartitionInfo } from '@/types';
+import type { WorkSheet } from 'xlsx';
+import { parseSheet, getStringValue, getNumberValue } from './utils';
+
+const COLUMN_MAP: Record<string, keyof VPartitionInfo | null> = {
+  'VM': 'vmName',
+  'VM Name': 'vmName',
+  'Powerstate': 'powerState',
+  'Power State': 'powerState',
+  'Disk': 'partition',
+  'Partition': 'partition',
+  'Capacity MB': 'capacityMiB',
+  'Capacity MiB': 'capacityMiB',
+  'Capacity': 'capacityMiB',
+  'Consumed MB': 'consumedMiB',
+  'Consumed MiB': 'consumedMiB',
+  'Consumed': 'consumedMiB',
+  'Free MB': 'freeMiB',
+  'Free MiB': 'freeMiB',
+  'Free': 'freeMiB',
+  'Free %': 'freePercent',
+  'Free Percent': 'freePercent',
+};
+
+export function parseVPartition(sheet: WorkSheet): VPartitionInfo[] {
+  const rows = parseSheet(sheet, COLUMN_MAP);
+
+  return rows.map((row): VPartitionInfo => {
+    const capacityMiB = getNumberValue(row, 'capacityMiB');
+    let consumedMiB = getNumberValue(row, 'consumedMiB');
+    let freeMiB = getNumberValue(row, 'freeMiB');
+
+    // Older exports omit one of consumed/free — derive it from capacity
+    if (row.consumedMiB === undefined && row.freeMiB !== undefined) {
+      consumedMiB = Math.max(0, capacityMiB - freeMiB);
+    } else if (row.freeMiB === undefined && row.consumedMiB !== undefined) {
+      freeMiB = Math.max(0, capacityMiB - consumedMiB);
+    }
+
+    const freePercent = row.freePercent !== undefined
+      ? getNumberValue(row, 'freePercent')
+      : capacityMiB > 0 ? Math.round((freeMiB / capacityMiB) * 100) : 0;
+
+    return {
+      vmName: getStringValue(row, 'vmName'),
+      powerState: getStringValue(row, 'powerState'),
+      partition: getStringValue(row, 'partition'),
+      capacityMiB,
+      consumedMiB,
+      freeMiB,
+      freePercent,
+    };
+  }).filter(partition => partition.vmName);
+}
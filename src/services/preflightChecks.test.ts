@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { runPreFlightChecks } from './preflightChecks';
+import { runPreFlightChecks, getChecksForMode, derivePreflightCounts } from './preflightChecks';
+import { generateRemediationItems } from '@/services/migration/remediation';
 import type { RVToolsData, VirtualMachine } from '@/types/rvtools';
 
 function makeVM(overrides: Partial<VirtualMachine>): VirtualMachine {
@@ -92,3 +93,56 @@ describe('preflightChecks vsi-os', () => {
     expect(osCheck.status).toBe('warn');
   });
 });
+
+describe('preflightChecks vcenter-health', () => {
+  it('should be n/a when no vHealth data was collected', () => {
+    const results = runPreFlightChecks(makeRVToolsData([makeVM({ vmName: 'app-01' })]), 'vsi');
+    expect(results[0].checks['vcenter-health'].status).toBe('na');
+  });
+
+  it('should flag VMs named in vHealth findings as warnings', () => {
+    const data = makeRVToolsData([makeVM({ vmName: 'app-01' }), makeVM({ vmName: 'app-02' })]);
+    data.vHealth = [
+      { entity: 'app-01', entityType: '', status: 'Consolidation', message: 'Virtual machine disks consolidation is needed.', timestamp: null },
+      { entity: 'ds-01', entityType: '', status: 'Datastore', message: 'Datastore is inaccessible', timestamp: null },
+    ];
+
+    const results = runPreFlightChecks(data, 'vsi');
+    const [flagged, clean] = results;
+
+    expect(flagged.checks['vcenter-health'].status).toBe('fail');
+    expect(flagged.checks['vcenter-health'].message).toBe('Disk consolidation needed');
+    expect(flagged.blockerCount).toBe(0);
+    expect(flagged.warningCount).toBeGreaterThan(0);
+    expect(clean.checks['vcenter-health'].status).toBe('pass');
+  });
+});
+
+describe('preflightChecks ove mode', () => {
+  it('runs the MTV checks plus the VM-only rule', () => {
+    const checkIds = getChecksForMode('ove').map(c => c.id);
+    expect(checkIds).toEqual(expect.arrayContaining(['tools-installed', 'cbt-enabled', 'os-compatible', 'ove-vm-only']));
+    expect(checkIds).not.toContain('vsi-os');
+    expect(getChecksForMode('roks').map(c => c.id)).not.toContain('ove-vm-only');
+  });
+
+  it('should flag container platform VMs as warnings', () => {
+    const results = runPreFlightChecks(makeRVToolsData([
+      makeVM({ vmName: 'k8s-worker-01', hardwareVersion: 'vmx-19' }),
+      makeVM({ vmName: 'billing-app', hardwareVersion: 'vmx-19' }),
+    ]), 'ove');
+
+    expect(results[0].checks['ove-vm-only']).toMatchObject({ status: 'fail', value: 'Container Platforms' });
+    expect(results[1].checks['ove-vm-only'].status).toBe('pass');
+    const counts = derivePreflightCounts(results, 'ove');
+    expect(counts).toMatchObject({
+      vmsWithContainerWorkloads: 1,
+      vmsWithContainerWorkloadsList: ['k8s-worker-01'],
+    });
+    expect(generateRemediationItems(counts, 'ove').find(item => item.id === 'ove-vm-only')).toMatchObject({
+      severity: 'warning',
+      affectedVMs: ['k8s-worker-01'],
+    });
+    expect(generateRemediationItems(counts, 'roks').some(item => item.id === 'ove-vm-only')).toBe(false);
+  });
+});
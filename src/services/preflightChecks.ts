@@ -16,11 +16,14 @@ import {
   SNAPSHOT_BLOCKER_AGE_DAYS,
 } from '@/utils/constants';
 import { getROKSOSCompatibility, getVSIOSCompatibility } from '@/services/migration/osCompatibility';
+import { getHealthFindingsByVM, HEALTH_CATEGORY_LABELS } from '@/services/healthFindings';
+import { getVMWorkloadCategory, getCategoryDisplayName } from '@/utils/workloadClassification';
+import type { HealthFinding } from '@/services/healthFindings';
 
 // ===== TYPE DEFINITIONS =====
 
 export type CheckStatus = 'pass' | 'fail' | 'warn' | 'na';
-export type CheckMode = 'roks' | 'vsi';
+export type CheckMode = 'roks' | 'ove' | 'vsi';
 
 export interface CheckResult {
   status: CheckStatus;
@@ -64,7 +67,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'tools',
     severity: 'blocker',
     description: 'VMware Tools must be installed for migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'tools-running',
@@ -73,7 +76,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'tools',
     severity: 'warning',
     description: 'VMware Tools should be running for best results',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'old-snapshots',
@@ -82,7 +85,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'storage',
     severity: 'blocker',
     description: 'Snapshots older than 30 days should be consolidated',
-    modes: ['roks', 'vsi'],
+    modes: ['roks', 'ove', 'vsi'],
   },
   {
     id: 'rdm-disks',
@@ -91,7 +94,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'storage',
     severity: 'blocker',
     description: 'Raw Device Mapping disks are not supported',
-    modes: ['roks', 'vsi'],
+    modes: ['roks', 'ove', 'vsi'],
   },
   {
     id: 'shared-disks',
@@ -100,7 +103,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'storage',
     severity: 'blocker',
     description: 'Shared/multi-writer disks are not supported',
-    modes: ['roks', 'vsi'],
+    modes: ['roks', 'ove', 'vsi'],
   },
   {
     id: 'independent-disks',
@@ -109,7 +112,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'storage',
     severity: 'blocker',
     description: 'Independent disk mode is not supported for migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'cd-connected',
@@ -118,7 +121,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'hardware',
     severity: 'warning',
     description: 'CD-ROM should be disconnected before migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'hw-version',
@@ -127,7 +130,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'hardware',
     severity: 'warning',
     description: `Hardware version should be ${HW_VERSION_MINIMUM} or higher`,
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'cbt-enabled',
@@ -136,7 +139,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'config',
     severity: 'warning',
     description: 'Changed Block Tracking should be enabled for warm migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'rfc1123-name',
@@ -145,7 +148,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'config',
     severity: 'warning',
     description: 'VM name should be RFC 1123 compliant (lowercase, alphanumeric, hyphens)',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'cpu-hotplug',
@@ -154,7 +157,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'config',
     severity: 'warning',
     description: 'CPU hot plug will be disabled after migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'mem-hotplug',
@@ -163,7 +166,7 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'config',
     severity: 'warning',
     description: 'Memory hot plug will be disabled after migration',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
   },
   {
     id: 'hostname-valid',
@@ -172,7 +175,16 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'config',
     severity: 'warning',
     description: 'Guest hostname should be configured (not localhost)',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
+  },
+  {
+    id: 'vcenter-health',
+    name: 'vCenter Health',
+    shortName: 'Health',
+    category: 'config',
+    severity: 'warning',
+    description: 'RVTools vHealth findings for this VM should be resolved before migration',
+    modes: ['roks', 'ove', 'vsi'],
   },
   {
     id: 'os-compatible',
@@ -181,7 +193,18 @@ export const CHECK_DEFINITIONS: CheckDefinition[] = [
     category: 'os',
     severity: 'warning',
     description: 'Operating system compatibility with OpenShift Virtualization',
-    modes: ['roks'],
+    modes: ['roks', 'ove'],
+  },
+
+  // OVE checks (OpenShift Virtualization Engine — VM-only entitlement)
+  {
+    id: 'ove-vm-only',
+    name: 'VM Workload Only',
+    shortName: 'VM Only',
+    category: 'config',
+    severity: 'warning',
+    description: 'OVE clusters may only run VMs; container platform nodes need a full OpenShift entitlement',
+    modes: ['ove'],
   },
 
   // VSI checks (IBM Cloud VPC)
@@ -292,6 +315,8 @@ interface CheckContext {
   cds: VCDInfo[];
   cpu?: VCPUInfo;
   memory?: VMemoryInfo;
+  healthFindings: HealthFinding[];
+  hasHealthData: boolean;
 }
 
 // ===== INDIVIDUAL CHECK EVALUATORS =====
@@ -590,6 +615,21 @@ function evaluateCheck(
       return { status: 'pass', value: hostname.substring(0, 30) };
     }
 
+    case 'vcenter-health': {
+      if (!context.hasHealthData) {
+        return { status: 'na', message: 'No vHealth data' };
+      }
+      if (context.healthFindings.length > 0) {
+        const labels = [...new Set(context.healthFindings.map(f => HEALTH_CATEGORY_LABELS[f.category]))];
+        return {
+          status: 'fail',
+          value: `${context.healthFindings.length} finding${context.healthFindings.length === 1 ? '' : 's'}`,
+          message: labels.join(', '),
+        };
+      }
+      return { status: 'pass', value: 'No findings' };
+    }
+
     // ===== OS CHECKS =====
     case 'os-compatible': {
       const compat = getROKSOSCompatibility(vm.guestOS);
@@ -631,6 +671,18 @@ function evaluateCheck(
       return { status: 'pass', value: vm.guestOS.substring(0, 30), message: compat.notes };
     }
 
+    case 'ove-vm-only': {
+      const category = getVMWorkloadCategory(vm.vmName, vm.annotation);
+      if (category === 'containers') {
+        return {
+          status: 'fail',
+          value: getCategoryDisplayName(category) ?? category,
+          message: 'Runs container workloads — target ROKS with a full OCP entitlement',
+        };
+      }
+      return { status: 'pass', value: getCategoryDisplayName(category) ?? 'Unclassified' };
+    }
+
     default:
       return { status: 'na', message: 'Check not implemented' };
   }
@@ -655,6 +707,8 @@ export function runPreFlightChecks(
   const cdByVM = groupBy(rawData.vCD, 'vmName');
   const cpuByVM = new Map(rawData.vCPU.map(c => [c.vmName, c]));
   const memByVM = new Map(rawData.vMemory.map(m => [m.vmName, m]));
+  const vHealth = rawData.vHealth ?? [];
+  const healthByVM = getHealthFindingsByVM(vHealth, vms.map(vm => vm.vmName));
 
   // Helper to find tools with case-insensitive fallback
   const findTools = (vmName: string) => {
@@ -674,6 +728,8 @@ export function runPreFlightChecks(
       cds: cdByVM[vm.vmName] || [],
       cpu: cpuByVM.get(vm.vmName),
       memory: memByVM.get(vm.vmName),
+      healthFindings: healthByVM.get(vm.vmName) || [],
+      hasHealthData: vHealth.length > 0,
     };
 
     checksForMode.forEach(checkDef => {
@@ -780,7 +836,7 @@ export function derivePreflightCounts(
     counts.vmsWithUnsupportedOSList = vmsWithUnsupportedOSList;
   }
 
-  if (mode === 'roks') {
+  if (mode !== 'vsi') {
     const vmsWithCdConnectedList = failedVMs('cd-connected');
     counts.vmsWithCdConnected = vmsWithCdConnectedList.length;
     counts.vmsWithCdConnectedList = vmsWithCdConnectedList;
@@ -810,5 +866,11 @@ export function derivePreflightCounts(
     counts.vmsWithInvalidHostnameList = vmsWithInvalidHostnameList;
   }
 
+  if (mode === 'ove') {
+    const vmsWithContainerWorkloadsList = failedVMs('ove-vm-only');
+    counts.vmsWithContainerWorkloads = vmsWithContainerWorkloadsList.length;
+    counts.vmsWithContainerWorkloadsList = vmsWithContainerWorkloadsList;
+  }
+
   return counts;
 }
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getActiveCurrency,
+  getCurrencySettings,
+  saveCurrencySettings,
+  reloadCurrencySettings,
+  parseExchangeRatesFile,
+  getExcelCurrencyFormat,
+  DEFAULT_CURRENCY_SETTINGS,
+  CURRENCY_STORAGE_KEY,
+} from './currency';
+
+describe('currency', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to USD at a rate of 1', () => {
+    expect(getCurrencySettings()).toEqual(DEFAULT_CURRENCY_SETTINGS);
+    expect(getActiveCurrency()).toMatchObject({ code: 'USD', rate: 1, rateSource: 'bundled' });
+  });
+
+  it('uses the bundled rate for the selected currency', () => {
+    saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR' });
+
+    expect(getActiveCurrency()).toMatchObject({ code: 'EUR', rate: 0.92, rateSource: 'bundled', symbol: '€' });
+  });
+
+  it('prefers user-entered rates over the bundled table', () => {
+    saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'GBP', customRates: { GBP: 0.8 } });
+
+    expect(getActiveCurrency()).toMatchObject({ code: 'GBP', rate: 0.8, rateSource: 'user' });
+  });
+
+  it('re-bases the rate when pricing is not in USD', () => {
+    const settings = { ...DEFAULT_CURRENCY_SETTINGS, currency: 'GBP', customRates: { EUR: 0.9, GBP: 0.72 } };
+
+    expect(getActiveCurrency('EUR', settings).rate).toBeCloseTo(0.8);
+  });
+
+  it('falls back to the base currency when the selection is unknown', () => {
+    saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'XYZ' });
+
+    expect(getActiveCurrency()).toMatchObject({ code: 'USD', rate: 1 });
+  });
+
+  it('serves saved settings from memory until they are reloaded', () => {
+    saveCurrencySettings({ ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR' });
+    localStorage.setItem(CURRENCY_STORAGE_KEY, JSON.stringify({ currency: 'GBP' }));
+
+    expect(getActiveCurrency().code).toBe('EUR');
+    expect(reloadCurrencySettings().currency).toBe('GBP');
+    expect(getActiveCurrency().code).toBe('GBP');
+  });
+
+  describe('parseExchangeRatesFile', () => {
+    it('accepts the bundled layout, a rates object and a flat map', () => {
+      expect(parseExchangeRatesFile('{"currencies":{"EUR":{"rate":0.9}}}')).toEqual({ EUR: 0.9 });
+      expect(parseExchangeRatesFile('{"base":"USD","rates":{"JPY":149.5,"GBP":0.78}}')).toEqual({ JPY: 149.5, GBP: 0.78 });
+      expect(parseExchangeRatesFile('{"aud":1.5}')).toEqual({ AUD: 1.5 });
+    });
+
+    it('ignores unsupported currencies and invalid rates', () => {
+      expect(parseExchangeRatesFile('{"EUR":0.9,"XYZ":2,"GBP":-1}')).toEqual({ EUR: 0.9 });
+    });
+
+    it('rejects files without usable rates', () => {
+      expect(() => parseExchangeRatesFile('not json')).toThrow('not valid JSON');
+      expect(() => parseExchangeRatesFile('{"XYZ":2}')).toThrow('no rates');
+    });
+  });
+
+  it('builds Excel number formats from the currency symbol and decimals', () => {
+    expect(getExcelCurrencyFormat('USD')).toBe('"$"#,##0.00');
+    expect(getExcelCurrencyFormat('EUR', 4)).toBe('"€"#,##0.0000');
+    expect(getExcelCurrencyFormat('JPY')).toBe('"¥"#,##0');
+  });
+});
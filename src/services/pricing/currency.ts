@@ -0,0 +1,183 @@
+// Quote currency selection and exchange rates for converting IBM Cloud list pricing
+
+import exchangeRates from '@/data/exchangeRates.json';
+
+export interface CurrencyDefinition {
+  code: string;
+  name: string;
+  symbol: string;
+  /** Locale used for number formatting in the UI and generated documents */
+  locale: string;
+  decimals: number;
+}
+
+export type ExchangeRateSource = 'bundled' | 'user' | 'file';
+
+export interface CurrencySettings {
+  currency: string;
+  /** Units of each currency per one unit of the base currency, overriding the bundled table */
+  customRates: Record<string, number>;
+  /** Where the custom rates came from: entered by hand or loaded from a JSON file */
+  customRatesSource: Exclude<ExchangeRateSource, 'bundled'>;
+  /** Name of the JSON file the custom rates were loaded from */
+  customRatesFileName: string | null;
+}
+
+export interface ActiveCurrency extends CurrencyDefinition {
+  /** Units of this currency per one unit of the pricing base currency */
+  rate: number;
+  rateSource: ExchangeRateSource;
+}
+
+export const CURRENCY_STORAGE_KEY = 'vcf-currency-settings';
+
+/** Currency of the bundled exchange rate table and of IBM Cloud list pricing */
+export const BASE_CURRENCY = exchangeRates.metadata.baseCurrency;
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: BASE_CURRENCY,
+  customRates: {},
+  customRatesSource: 'user',
+  customRatesFileName: null,
+};
+
+type BundledCurrency = Omit<CurrencyDefinition, 'code'> & { rate: number };
+
+const BUNDLED = exchangeRates.currencies as Record<string, BundledCurrency>;
+
+export function getCurrencies(): CurrencyDefinition[] {
+  return Object.entries(BUNDLED).map(([code, { name, symbol, locale, decimals }]) => ({
+    code, name, symbol, locale, decimals,
+  }));
+}
+
+export function getCurrencyDefinition(code: string): CurrencyDefinition {
+  const bundled = BUNDLED[code];
+  if (!bundled) {
+    return { code, name: code, symbol: code, locale: 'en-US', decimals: 2 };
+  }
+  const { name, symbol, locale, decimals } = bundled;
+  return { code, name, symbol, locale, decimals };
+}
+
+export function getBundledRate(code: string): number | null {
+  return BUNDLED[code]?.rate ?? null;
+}
+
+export function getExchangeRatesDate(): string {
+  return exchangeRates.metadata.lastUpdated;
+}
+
+// Amount formatters look up the quote currency for every value, so the stored
+// settings are parsed once and kept until they are saved again here or changed
+// in another tab.
+let cachedSettings: CurrencySettings | null = null;
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', e => {
+    if (e.key === CURRENCY_STORAGE_KEY || e.key === null) cachedSettings = null;
+  });
+}
+
+function loadCurrencySettings(): CurrencySettings {
+  try {
+    const stored = localStorage.getItem(CURRENCY_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_CURRENCY_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch {
+    // ignore
+  }
+  return DEFAULT_CURRENCY_SETTINGS;
+}
+
+export function getCurrencySettings(): CurrencySettings {
+  cachedSettings ??= loadCurrencySettings();
+  return cachedSettings;
+}
+
+/** Drop the cached copy and read the stored settings again */
+export function reloadCurrencySettings(): CurrencySettings {
+  cachedSettings = loadCurrencySettings();
+  return cachedSettings;
+}
+
+export function saveCurrencySettings(settings: CurrencySettings): void {
+  cachedSettings = settings;
+  try {
+    localStorage.setItem(CURRENCY_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+function resolveRate(code: string, settings: CurrencySettings): { rate: number; source: ExchangeRateSource } | null {
+  const custom = settings.customRates[code];
+  if (typeof custom === 'number' && custom > 0) {
+    return { rate: custom, source: settings.customRatesSource };
+  }
+  const bundled = getBundledRate(code);
+  return bundled != null ? { rate: bundled, source: 'bundled' } : null;
+}
+
+/**
+ * The quote currency selected on the Settings page, with its exchange rate from
+ * the given pricing base currency. Falls back to the base currency when no rate
+ * is known for the selection.
+ */
+export function getActiveCurrency(
+  baseCurrency: string = BASE_CURRENCY,
+  settings: CurrencySettings = getCurrencySettings(),
+): ActiveCurrency {
+  const target = resolveRate(settings.currency, settings);
+  const base = resolveRate(baseCurrency, settings);
+  if (!target || !base || settings.currency === baseCurrency) {
+    return { ...getCurrencyDefinition(baseCurrency), rate: 1, rateSource: 'bundled' };
+  }
+  return {
+    ...getCurrencyDefinition(settings.currency),
+    rate: target.rate / base.rate,
+    rateSource: target.source,
+  };
+}
+
+/**
+ * Parse a local exchange rate file. Accepts the bundled exchangeRates.json layout
+ * (`{ currencies: { EUR: { rate } } }`), a `{ rates: { EUR: 0.92 } }` object, or a
+ * flat `{ EUR: 0.92 }` map. Only currencies known to the application are kept.
+ */
+export function parseExchangeRatesFile(text: string): Record<string, number> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Exchange rate file is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Exchange rate file must contain a JSON object');
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  const table = (obj.currencies ?? obj.rates ?? obj) as Record<string, unknown>;
+  const rates: Record<string, number> = {};
+  for (const [code, value] of Object.entries(table)) {
+    const rate = typeof value === 'object' && value !== null ? (value as { rate?: unknown }).rate : value;
+    if (BUNDLED[code.toUpperCase()] && typeof rate === 'number' && rate > 0) {
+      rates[code.toUpperCase()] = rate;
+    }
+  }
+
+  if (Object.keys(rates).length === 0) {
+    throw new Error('Exchange rate file contains no rates for supported currencies');
+  }
+  return rates;
+}
+
+/**
+ * Excel number format for amounts in the given currency, e.g. `"€"#,##0.00`
+ */
+export function getExcelCurrencyFormat(code: string, decimals?: number): string {
+  const definition = getCurrencyDefinition(code);
+  const places = decimals ?? definition.decimals;
+  return `"${definition.symbol}"#,##0${places > 0 ? `.${'0'.repeat(places)}` : ''}`;
+}
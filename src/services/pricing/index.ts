@@ -3,3 +3,7 @@
 export * from './pricingCache';
 export * from './globalCatalogApi';
 export * from './pricingTransformer';
+export * from './currency';
+export * from './pricingHistory';
+export * from './pricingDrift';
+export * from './rateCard';
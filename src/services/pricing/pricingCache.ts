@@ -72,6 +72,43 @@ export interface DiscountOption {
   description: string;
 }
 
+export interface PowerVSSystemType {
+  name: string;
+  description: string;
+  sharedCoreMonthly: number;
+  dedicatedCoreMonthly: number;
+  memoryGBMonthly: number;
+  maxCores: number;
+  maxMemoryGiB: number;
+}
+
+export interface PowerVSPricing {
+  notes: string;
+  systemTypes: Record<string, PowerVSSystemType>;
+  storageTiers: Record<string, { tierName: string; iopsPerGB: number; costPerGBMonth: number; description: string }>;
+  regions: Record<string, { zone: string; multiplier: number }>;
+}
+
+export interface VMwareRetainHostProfile {
+  name: string;
+  description: string;
+  cpuSockets: number;
+  coresPerSocket: number;
+  memoryGiB: number;
+  vsanRawTiB: number;
+  monthlyRate: number;
+}
+
+export interface VMwareRetainPricing {
+  notes: string;
+  hostProfiles: Record<string, VMwareRetainHostProfile>;
+  licensing: {
+    vsphere: { perCoreMonthly: number; description: string };
+    vsan: { perCoreMonthly: number; description: string };
+    minCoresPerSocket: number;
+  };
+}
+
 export interface IBMCloudPricing {
   pricingVersion: string;
   baseCurrency: string;
@@ -105,6 +142,8 @@ export interface IBMCloudPricing {
       vsi?: Record<string, { hourlyRate: number; monthlyRate: number }>;
     };
   };
+  powervs?: PowerVSPricing;
+  vmwareRetain?: VMwareRetainPricing;
   networking: NetworkPricing;
   storageAddons: {
     snapshots: { costPerGBMonth: number; description: string };
@@ -377,6 +416,8 @@ export function getStaticPricing(): IBMCloudPricing {
     blockStorage: config.blockStorage,
     roks: config.roks,
     ove: (config as { ove?: IBMCloudPricing['ove'] }).ove,
+    powervs: (config as { powervs?: PowerVSPricing }).powervs,
+    vmwareRetain: (config as { vmwareRetain?: VMwareRetainPricing }).vmwareRetain,
     networking: config.networking,
     storageAddons: config.storageAddons,
     regions: config.regions,
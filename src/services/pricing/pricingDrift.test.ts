@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { diffPricing, diffEstimates } from './pricingDrift';
+import { getStaticPricing, type IBMCloudPricing } from './pricingCache';
+import type { CostEstimate } from '../costEstimation';
+
+function clonePricing(): IBMCloudPricing {
+  return structuredClone(getStaticPricing());
+}
+
+function makeEstimate(items: Array<[string, string, number]>): CostEstimate {
+  const lineItems = items.map(([category, description, monthlyCost]) => ({
+    category,
+    description,
+    quantity: 1,
+    unit: 'each',
+    unitCost: monthlyCost,
+    monthlyCost,
+    annualCost: monthlyCost * 12,
+  }));
+  const total = lineItems.reduce((sum, item) => sum + item.monthlyCost, 0);
+  return {
+    architecture: 'VPC VSI',
+    region: 'us-south',
+    regionName: 'Dallas',
+    discountType: 'onDemand',
+    discountPct: 0,
+    lineItems,
+    subtotalMonthly: total,
+    subtotalAnnual: total * 12,
+    discountAmountMonthly: 0,
+    discountAmountAnnual: 0,
+    totalMonthly: total,
+    totalAnnual: total * 12,
+    metadata: { pricingVersion: 'test', generatedAt: '2026-01-01T00:00:00Z', notes: [] },
+  };
+}
+
+describe('pricingDrift', () => {
+  describe('diffPricing', () => {
+    it('reports no changes for identical pricing', () => {
+      const pricing = clonePricing();
+      expect(diffPricing(pricing, clonePricing())).toEqual({ profiles: [], storageTiers: [] });
+    });
+
+    it('reports changed, added and removed profiles', () => {
+      const from = clonePricing();
+      const to = clonePricing();
+      const [changed, removed] = Object.keys(from.vsi);
+      to.vsi[changed] = { ...to.vsi[changed], monthlyRate: from.vsi[changed].monthlyRate * 1.1 };
+      delete to.vsi[removed];
+      to.vsi['new-profile'] = { ...from.vsi[changed], monthlyRate: 100 };
+
+      const { profiles } = diffPricing(from, to);
+
+      expect(profiles.find(p => p.name === changed)).toMatchObject({ kind: 'vsi' });
+      expect(profiles.find(p => p.name === changed)!.deltaPct).toBeCloseTo(10);
+      expect(profiles.find(p => p.name === removed)).toMatchObject({ to: null, deltaPct: null });
+      expect(profiles.find(p => p.name === 'new-profile')).toMatchObject({ from: null, to: 100, delta: 100 });
+      expect(profiles).toHaveLength(3);
+    });
+
+    it('compares storage tiers by cost per GB-month', () => {
+      const from = clonePricing();
+      const to = clonePricing();
+      const tier = Object.keys(from.blockStorage).find(t => from.blockStorage[t].costPerGBMonth != null)!;
+      to.blockStorage[tier] = { ...to.blockStorage[tier], costPerGBMonth: from.blockStorage[tier].costPerGBMonth! * 2 };
+
+      const { storageTiers } = diffPricing(from, to);
+
+      expect(storageTiers).toHaveLength(1);
+      expect(storageTiers[0]).toMatchObject({ kind: 'storage', name: tier, deltaPct: 100 });
+    });
+  });
+
+  describe('diffEstimates', () => {
+    it('matches line items by category and description', () => {
+      const from = makeEstimate([['Compute', 'bx2-4x16', 100], ['Storage', 'General purpose', 50]]);
+      const to = makeEstimate([['Compute', 'bx2-4x16', 120], ['Storage', 'General purpose', 50], ['Networking', 'VPN', 10]]);
+
+      const drift = diffEstimates(from, to);
+
+      expect(drift.lines).toEqual([
+        { category: 'Compute', description: 'bx2-4x16', from: 100, to: 120, delta: 20 },
+        { category: 'Networking', description: 'VPN', from: 0, to: 10, delta: 10 },
+      ]);
+      expect(drift).toMatchObject({ fromTotal: 150, toTotal: 180, delta: 30, deltaPct: 20 });
+    });
+
+    it('returns a null percentage when the original total is zero', () => {
+      expect(diffEstimates(makeEstimate([]), makeEstimate([['Compute', 'x', 5]])).deltaPct).toBeNull();
+    });
+  });
+});
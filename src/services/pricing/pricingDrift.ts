@@ -0,0 +1,114 @@
+// Price drift - compares two pricing snapshots and their effect on a cost estimate
+
+import type { CostEstimate } from '@/services/costEstimation';
+import type { BlockStorageTier, IBMCloudPricing } from './pricingCache';
+
+export type PriceChangeKind = 'bareMetal' | 'vsi' | 'storage';
+
+export interface PriceChange {
+  kind: PriceChangeKind;
+  name: string;
+  /** Monthly rate (profiles) or cost per GB-month (storage); null when absent from the snapshot */
+  from: number | null;
+  to: number | null;
+  delta: number;
+  /** Percentage change, null when the item was added or removed */
+  deltaPct: number | null;
+}
+
+export interface PricingDiff {
+  profiles: PriceChange[];
+  storageTiers: PriceChange[];
+}
+
+export interface EstimateDriftLine {
+  category: string;
+  description: string;
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface EstimateDrift {
+  lines: EstimateDriftLine[];
+  fromTotal: number;
+  toTotal: number;
+  delta: number;
+  deltaPct: number | null;
+}
+
+function change(kind: PriceChangeKind, name: string, from: number | null, to: number | null): PriceChange {
+  return {
+    kind,
+    name,
+    from,
+    to,
+    delta: (to ?? 0) - (from ?? 0),
+    deltaPct: from != null && to != null && from !== 0 ? ((to - from) / from) * 100 : null,
+  };
+}
+
+function diffRates(
+  kind: PriceChangeKind,
+  from: Record<string, number | undefined>,
+  to: Record<string, number | undefined>,
+): PriceChange[] {
+  const names = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+  return names
+    .map(name => change(kind, name, from[name] ?? null, to[name] ?? null))
+    .filter(c => c.from !== c.to);
+}
+
+function monthlyRates(profiles: Record<string, { monthlyRate: number }> | undefined): Record<string, number> {
+  return Object.fromEntries(Object.entries(profiles ?? {}).map(([name, p]) => [name, p.monthlyRate]));
+}
+
+function storageRates(tiers: Record<string, BlockStorageTier> | undefined): Record<string, number | undefined> {
+  return Object.fromEntries(
+    Object.entries(tiers ?? {}).map(([name, t]) => [name, t.costPerGBMonth ?? t.baseCostPerGBMonth]),
+  );
+}
+
+/**
+ * Per-profile and per-storage-tier price changes between two snapshots.
+ * Unchanged items are omitted.
+ */
+export function diffPricing(from: IBMCloudPricing, to: IBMCloudPricing): PricingDiff {
+  return {
+    profiles: [
+      ...diffRates('bareMetal', monthlyRates(from.bareMetal), monthlyRates(to.bareMetal)),
+      ...diffRates('vsi', monthlyRates(from.vsi), monthlyRates(to.vsi)),
+    ],
+    storageTiers: diffRates('storage', storageRates(from.blockStorage), storageRates(to.blockStorage)),
+  };
+}
+
+/**
+ * Line-by-line difference between the same estimate priced with two snapshots
+ */
+export function diffEstimates(from: CostEstimate, to: CostEstimate): EstimateDrift {
+  const key = (item: { category: string; description: string }) => `${item.category}\u0000${item.description}`;
+  const fromItems = new Map(from.lineItems.map(item => [key(item), item]));
+  const toItems = new Map(to.lineItems.map(item => [key(item), item]));
+
+  const lines: EstimateDriftLine[] = [];
+  for (const k of new Set([...fromItems.keys(), ...toItems.keys()])) {
+    const a = fromItems.get(k);
+    const b = toItems.get(k);
+    const item = (a ?? b)!;
+    const fromCost = a?.monthlyCost ?? 0;
+    const toCost = b?.monthlyCost ?? 0;
+    if (fromCost !== toCost) {
+      lines.push({ category: item.category, description: item.description, from: fromCost, to: toCost, delta: toCost - fromCost });
+    }
+  }
+
+  const delta = to.totalMonthly - from.totalMonthly;
+  return {
+    lines,
+    fromTotal: from.totalMonthly,
+    toTotal: to.totalMonthly,
+    delta,
+    deltaPct: from.totalMonthly !== 0 ? (delta / from.totalMonthly) * 100 : null,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  listPricingSnapshots,
+  getPricingSnapshot,
+  savePricingSnapshot,
+  getPricingPins,
+  savePricingPins,
+  getPinnedPricing,
+  getSnapshotId,
+  describeSnapshot,
+  BUNDLED_SNAPSHOT_ID,
+} from './pricingHistory';
+import { getStaticPricing } from './pricingCache';
+
+describe('pricingHistory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keys snapshots by pricing version and fetch time', () => {
+    expect(getSnapshotId('2026-09', '2026-10-01T00:00:00Z')).toBe('2026-09@2026-10-01T00:00:00Z');
+  });
+
+  it('always lists the bundled pricing, even without IndexedDB', async () => {
+    const snapshots = await listPricingSnapshots();
+
+    expect(snapshots.at(-1)).toMatchObject({ id: BUNDLED_SNAPSHOT_ID, source: 'static' });
+    expect((await getPricingSnapshot(BUNDLED_SNAPSHOT_ID))?.data).toEqual(getStaticPricing());
+    expect(describeSnapshot(snapshots.at(-1)!)).toContain('Bundled pricing');
+  });
+
+  it('does not fail when snapshots cannot be stored', async () => {
+    await expect(savePricingSnapshot(getStaticPricing(), 'proxy')).resolves.toBeNull();
+  });
+
+  it('persists pins with their pricing data', async () => {
+    const bundled = (await getPricingSnapshot(BUNDLED_SNAPSHOT_ID))!;
+    const pinned = { ...bundled, id: 'v1@2026-01-01T00:00:00Z' };
+    savePricingPins({ vsi: pinned });
+
+    expect(getPricingPins()).toEqual({ vsi: pinned });
+    expect(getPinnedPricing('vsi')).toEqual(bundled.data);
+    expect(getPinnedPricing('roks')).toBeNull();
+    // Pinned snapshots stay loadable after the history has been cleared
+    expect(await getPricingSnapshot(pinned.id)).toEqual(pinned);
+  });
+
+  it('handles corrupt pins gracefully', () => {
+    localStorage.setItem('vcf-pricing-pins', 'not-json');
+    expect(getPricingPins()).toEqual({});
+  });
+});
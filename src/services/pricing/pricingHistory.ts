@@ -0,0 +1,208 @@
+// Pricing snapshot history - keeps every fetched pricing dataset in IndexedDB so a
+// past quote can be regenerated with the prices it was built on, and lets each
+// cost estimate be pinned to one snapshot
+
+import { createLogger } from '@/utils/logger';
+import { getStaticPricing, type IBMCloudPricing, type PricingSource } from './pricingCache';
+
+const logger = createLogger('PricingHistory');
+
+// ===== TYPES =====
+
+export interface PricingSnapshotSummary {
+  /** `${pricingVersion}@${fetchedAt}` */
+  id: string;
+  pricingVersion: string;
+  /** ISO timestamp at which the pricing was fetched from the catalog */
+  fetchedAt: string;
+  source: PricingSource;
+}
+
+export interface PricingSnapshot extends PricingSnapshotSummary {
+  data: IBMCloudPricing;
+}
+
+export type PricingPinTarget = 'roks' | 'vsi';
+
+/** A pinned snapshot carries its data so estimates stay reproducible from a handover file */
+export type PricingPins = Partial<Record<PricingPinTarget, PricingSnapshot>>;
+
+// ===== CONSTANTS =====
+
+const DB_NAME = 'vcf-pricing-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+const MAX_SNAPSHOTS = 50;
+const PINS_KEY = 'vcf-pricing-pins';
+
+/** The pricing bundled with the application, always available as a snapshot */
+export const BUNDLED_SNAPSHOT_ID = 'bundled';
+
+// ===== SNAPSHOT STORE =====
+
+export function getSnapshotId(pricingVersion: string, fetchedAt: string): string {
+  return `${pricingVersion}@${fetchedAt}`;
+}
+
+/**
+ * Human-readable snapshot label for selectors and exports
+ */
+export function describeSnapshot(snapshot: PricingSnapshotSummary): string {
+  if (snapshot.id === BUNDLED_SNAPSHOT_ID) return `Bundled pricing (${snapshot.pricingVersion})`;
+  const fetched = new Date(snapshot.fetchedAt);
+  const date = Number.isNaN(fetched.getTime()) ? snapshot.fetchedAt : fetched.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return `${snapshot.pricingVersion} · fetched ${date}`;
+}
+
+function getBundledSnapshot(): PricingSnapshot {
+  const data = getStaticPricing();
+  return {
+    id: BUNDLED_SNAPSHOT_ID,
+    pricingVersion: data.pricingVersion,
+    fetchedAt: data.pricingVersion,
+    source: 'static',
+    data,
+  };
+}
+
+function toSummary({ id, pricingVersion, fetchedAt, source }: PricingSnapshot): PricingSnapshotSummary {
+  return { id, pricingVersion, fetchedAt, source };
+}
+
+function openDatabase(): Promise<IDBDatabase> | null {
+  if (typeof indexedDB === 'undefined') return null;
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      store.createIndex('fetchedAt', 'fetchedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | null> {
+  const opening = openDatabase();
+  if (!opening) return null;
+  const db = await opening;
+  try {
+    return await promisify(operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+async function getAllSnapshots(): Promise<PricingSnapshot[]> {
+  const all = await withStore<PricingSnapshot[]>('readonly', store => store.getAll());
+  return (all ?? []).sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt));
+}
+
+/**
+ * Record a fetched pricing dataset. Refetches of identical pricing are skipped,
+ * and only the most recent snapshots are retained.
+ */
+export async function savePricingSnapshot(
+  data: IBMCloudPricing,
+  source: PricingSource,
+  fetchedAt: string = new Date().toISOString(),
+): Promise<PricingSnapshotSummary | null> {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const existing = await getAllSnapshots();
+    const serialized = JSON.stringify(data);
+    if (existing[0] && JSON.stringify(existing[0].data) === serialized) return null;
+
+    const snapshot: PricingSnapshot = {
+      id: getSnapshotId(data.pricingVersion, fetchedAt),
+      pricingVersion: data.pricingVersion,
+      fetchedAt,
+      source,
+      data,
+    };
+    await withStore('readwrite', store => store.put(snapshot));
+
+    for (const old of existing.slice(MAX_SNAPSHOTS - 1)) {
+      await withStore('readwrite', store => store.delete(old.id));
+    }
+    return toSummary(snapshot);
+  } catch (error) {
+    logger.error('Failed to save pricing snapshot', error instanceof Error ? error : new Error(String(error)));
+    return null;
+  }
+}
+
+/**
+ * All stored snapshots, newest first, followed by the bundled pricing
+ */
+export async function listPricingSnapshots(): Promise<PricingSnapshotSummary[]> {
+  let stored: PricingSnapshot[] = [];
+  try {
+    stored = await getAllSnapshots();
+  } catch (error) {
+    logger.error('Failed to read pricing history', error instanceof Error ? error : new Error(String(error)));
+  }
+  return [...stored.map(toSummary), toSummary(getBundledSnapshot())];
+}
+
+export async function getPricingSnapshot(id: string): Promise<PricingSnapshot | null> {
+  if (id === BUNDLED_SNAPSHOT_ID) return getBundledSnapshot();
+  const pinned = Object.values(getPricingPins()).find(pin => pin.id === id);
+  try {
+    return (await withStore<PricingSnapshot | undefined>('readonly', store => store.get(id))) ?? pinned ?? null;
+  } catch (error) {
+    logger.error('Failed to read pricing snapshot', error instanceof Error ? error : new Error(String(error)));
+    return pinned ?? null;
+  }
+}
+
+export async function clearPricingHistory(): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.clear());
+  } catch (error) {
+    logger.error('Failed to clear pricing history', error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+// ===== PINS =====
+
+export function getPricingPins(): PricingPins {
+  try {
+    const stored = localStorage.getItem(PINS_KEY);
+    if (stored) return JSON.parse(stored) as PricingPins;
+  } catch {
+    // ignore
+  }
+  return {};
+}
+
+export function savePricingPins(pins: PricingPins): void {
+  try {
+    localStorage.setItem(PINS_KEY, JSON.stringify(pins));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Pricing an estimate is pinned to, or null when it follows the current pricing
+ */
+export function getPinnedPricing(target: PricingPinTarget): IBMCloudPricing | null {
+  return getPricingPins()[target]?.data ?? null;
+}
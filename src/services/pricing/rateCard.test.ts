@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  getRateCardSettings,
+  saveRateCardSettings,
+  getActiveRateCard,
+  getLineItemService,
+  applyRateCard,
+  parseRateCardRows,
+  parseRateCardFile,
+  generateRateCardTemplate,
+  DEFAULT_RATE_CARD_SETTINGS,
+  type RateCard,
+} from './rateCard';
+
+const rateCard: RateCard = {
+  name: 'ACME EA',
+  discounts: { bareMetal: 25, storage: 40 },
+  monthlyCredit: 500,
+  source: 'manual',
+  updatedAt: '2026-10-01T00:00:00Z',
+};
+
+function item(category: string, description: string, monthlyCost: number) {
+  return { category, description, quantity: 1, unit: 'each', unitCost: monthlyCost, monthlyCost, annualCost: monthlyCost * 12 };
+}
+
+describe('rateCard', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('is inactive by default and when switched off', () => {
+    expect(getRateCardSettings()).toEqual(DEFAULT_RATE_CARD_SETTINGS);
+    expect(getActiveRateCard()).toBeNull();
+
+    saveRateCardSettings({ enabled: false, rateCard });
+    expect(getActiveRateCard()).toBeNull();
+    saveRateCardSettings({ enabled: true, rateCard });
+    expect(getActiveRateCard()).toEqual(rateCard);
+  });
+
+  it('maps estimate line items to rate card services', () => {
+    expect(getLineItemService(item('Compute', 'Bare Metal - bx2d', 0))).toBe('bareMetal');
+    expect(getLineItemService(item('Storage - VSI', 'VSI - bx2-16x64', 0))).toBe('vsi');
+    expect(getLineItemService(item('Licensing', 'OpenShift Container Platform License', 0))).toBe('ocpLicense');
+    expect(getLineItemService(item('Licensing', 'ROV License', 0))).toBe('ocpLicense');
+    expect(getLineItemService(item('Licensing', 'Red Hat Advanced Cluster Management', 0))).toBe('otherLicensing');
+    expect(getLineItemService(item('Storage - ODF', 'OpenShift Data Foundation Advanced', 0))).toBe('odf');
+    expect(getLineItemService(item('Storage - Block', 'Boot Volumes', 0))).toBe('storage');
+  });
+
+  it('applies discounts per line and caps the credit at the discounted total', () => {
+    const applied = applyRateCard([item('Compute', 'BM', 1000), item('Storage - Block', 'Block', 100), item('Networking', 'LB', 50)], rateCard);
+
+    expect(applied.lineItems.map(i => i.contractedMonthlyCost)).toEqual([750, 60, 50]);
+    expect(applied.lineDiscountMonthly).toBe(290);
+    expect(applied.creditMonthly).toBe(500);
+
+    expect(applyRateCard([item('Networking', 'LB', 50)], rateCard).creditMonthly).toBe(50);
+  });
+
+  describe('import', () => {
+    it('parses template rows by service label or id', () => {
+      const card = parseRateCardRows([
+        ['Service', 'Discount %'],
+        ['Bare Metal', 25],
+        ['vsi', '20%'],
+        ['OCP License', '15'],
+        ['Committed-use credit (monthly)', 1000],
+        ['Name', 'ACME 2026'],
+      ], 'acme.csv');
+
+      expect(card).toMatchObject({
+        name: 'ACME 2026',
+        discounts: { bareMetal: 25, vsi: 20, ocpLicense: 15 },
+        monthlyCredit: 1000,
+        source: 'file',
+        fileName: 'acme.csv',
+      });
+    });
+
+    it('rejects invalid percentages and files without rate card rows', () => {
+      expect(() => parseRateCardRows([['VSI', 120]])).toThrow('between 0 and 100');
+      expect(() => parseRateCardRows([['Foo', 1]])).toThrow('no rate card rows');
+    });
+
+    it('round-trips the CSV template and reads XLSX workbooks', () => {
+      const csv = generateRateCardTemplate(rateCard);
+      const fromCsv = parseRateCardFile(new TextEncoder().encode(csv).buffer as ArrayBuffer, 'card.csv');
+      expect(fromCsv.discounts).toMatchObject(rateCard.discounts);
+      expect(fromCsv).toMatchObject({ name: 'ACME EA', monthlyCredit: 500 });
+
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['ODF', 12], ['Networking', 5]]), 'Rate Card');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+      expect(parseRateCardFile(buffer, 'deal.xlsx')).toMatchObject({ name: 'deal', discounts: { odf: 12, networking: 5 } });
+    });
+  });
+});
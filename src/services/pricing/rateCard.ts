@@ -0,0 +1,214 @@
+// Enterprise rate card - per-service contracted discounts and committed-use credits,
+// applied line-by-line to ROKS and VSI estimates in place of the flat discount option
+
+import * as XLSX from 'xlsx';
+import type { CostLineItem } from '../costEstimation';
+
+// ===== TYPES =====
+
+export type RateCardService =
+  | 'bareMetal'
+  | 'vsi'
+  | 'ocpLicense'
+  | 'odf'
+  | 'storage'
+  | 'networking'
+  | 'otherLicensing';
+
+export interface RateCard {
+  name: string;
+  /** Discount off list price per service, in percent */
+  discounts: Partial<Record<RateCardService, number>>;
+  /** Committed-use credit deducted from each monthly estimate, in the pricing base currency (USD) */
+  monthlyCredit: number;
+  source: 'manual' | 'file';
+  fileName?: string;
+  updatedAt: string;
+}
+
+export interface RateCardSettings {
+  enabled: boolean;
+  rateCard: RateCard | null;
+}
+
+/** Result of applying a rate card to an estimate's line items */
+export interface RateCardApplication {
+  lineItems: CostLineItem[];
+  /** Sum of per-line discounts */
+  lineDiscountMonthly: number;
+  /** Committed-use credit actually applied (never more than the discounted total) */
+  creditMonthly: number;
+}
+
+// ===== CONSTANTS =====
+
+export const RATE_CARD_STORAGE_KEY = 'vcf-rate-card';
+
+export const RATE_CARD_SERVICES: { id: RateCardService; label: string }[] = [
+  { id: 'bareMetal', label: 'Bare Metal' },
+  { id: 'vsi', label: 'VSI' },
+  { id: 'ocpLicense', label: 'OCP License' },
+  { id: 'odf', label: 'ODF' },
+  { id: 'storage', label: 'Block Storage' },
+  { id: 'networking', label: 'Networking' },
+  { id: 'otherLicensing', label: 'Other Licensing' },
+];
+
+const CREDIT_LABEL = 'Committed-use credit (monthly)';
+const NAME_LABEL = 'Name';
+
+export const DEFAULT_RATE_CARD_SETTINGS: RateCardSettings = {
+  enabled: false,
+  rateCard: null,
+};
+
+// ===== PERSISTENCE =====
+
+export function getRateCardSettings(): RateCardSettings {
+  try {
+    const stored = localStorage.getItem(RATE_CARD_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_RATE_CARD_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    // ignore
+  }
+  return DEFAULT_RATE_CARD_SETTINGS;
+}
+
+export function saveRateCardSettings(settings: RateCardSettings): void {
+  try {
+    localStorage.setItem(RATE_CARD_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * The rate card to apply to estimates, or null when none is loaded or it is switched off
+ */
+export function getActiveRateCard(settings: RateCardSettings = getRateCardSettings()): RateCard | null {
+  return settings.enabled ? settings.rateCard : null;
+}
+
+// ===== APPLICATION =====
+
+/**
+ * Rate card service a cost line item is billed under
+ */
+export function getLineItemService(item: Pick<CostLineItem, 'category' | 'description'>): RateCardService {
+  switch (item.category) {
+    case 'Compute':
+      return 'bareMetal';
+    case 'Compute - VSI':
+    case 'Storage - VSI':
+      return 'vsi';
+    case 'Storage - ODF':
+      return 'odf';
+    case 'Storage':
+    case 'Storage - Block':
+      return 'storage';
+    case 'Networking':
+      return 'networking';
+    case 'Licensing':
+      return /OpenShift|ROV/.test(item.description) ? 'ocpLicense' : 'otherLicensing';
+    default:
+      return 'otherLicensing';
+  }
+}
+
+/**
+ * Apply per-service discounts to each line item, then the committed-use credit.
+ * Line items keep their list price in `monthlyCost`; the contracted price is
+ * recorded alongside it.
+ */
+export function applyRateCard(lineItems: CostLineItem[], rateCard: RateCard): RateCardApplication {
+  let lineDiscountMonthly = 0;
+  const contracted = lineItems.map(item => {
+    const discountPct = rateCard.discounts[getLineItemService(item)] ?? 0;
+    const contractedMonthlyCost = item.monthlyCost * (1 - discountPct / 100);
+    lineDiscountMonthly += item.monthlyCost - contractedMonthlyCost;
+    return { ...item, discountPct, contractedMonthlyCost };
+  });
+
+  const discountedTotal = lineItems.reduce((sum, item) => sum + item.monthlyCost, 0) - lineDiscountMonthly;
+  return {
+    lineItems: contracted,
+    lineDiscountMonthly,
+    creditMonthly: Math.min(Math.max(rateCard.monthlyCredit, 0), Math.max(discountedTotal, 0)),
+  };
+}
+
+// ===== IMPORT =====
+
+function parsePercent(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace('%', '').trim());
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeLabel(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const SERVICE_LOOKUP = new Map<string, RateCardService>(
+  RATE_CARD_SERVICES.flatMap(({ id, label }) => [[normalizeLabel(id), id], [normalizeLabel(label), id]]),
+);
+
+/**
+ * Build a rate card from template rows: `Service, Discount %` rows for each
+ * service, plus optional `Committed-use credit (monthly)` and `Name` rows.
+ */
+export function parseRateCardRows(rows: unknown[][], fileName?: string): RateCard {
+  const discounts: RateCard['discounts'] = {};
+  let monthlyCredit = 0;
+  let name = fileName?.replace(/\.(csv|xlsx?)$/i, '') || 'Imported rate card';
+
+  for (const [label, value] of rows) {
+    const key = normalizeLabel(label);
+    if (!key) continue;
+    if (key === normalizeLabel(NAME_LABEL)) {
+      if (String(value ?? '').trim()) name = String(value).trim();
+      continue;
+    }
+    if (key.startsWith('committed')) {
+      const credit = parsePercent(value);
+      if (credit == null || credit < 0) throw new Error(`Invalid committed-use credit "${String(value)}".`);
+      monthlyCredit = credit;
+      continue;
+    }
+    const service = SERVICE_LOOKUP.get(key);
+    if (!service) continue;
+    const pct = parsePercent(value);
+    if (pct == null || pct < 0 || pct > 100) {
+      throw new Error(`Invalid discount "${String(value)}" for ${String(label)} — expected a percentage between 0 and 100.`);
+    }
+    discounts[service] = pct;
+  }
+
+  if (Object.keys(discounts).length === 0 && monthlyCredit === 0) {
+    throw new Error('The file contains no rate card rows. Use the rate card template.');
+  }
+
+  return { name, discounts, monthlyCredit, source: 'file', fileName, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Parse a rate card from an XLSX or CSV file (first worksheet)
+ */
+export function parseRateCardFile(data: ArrayBuffer, fileName?: string): RateCard {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file contains no worksheets.');
+  return parseRateCardRows(XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 }), fileName);
+}
+
+/**
+ * Rate card template as CSV, pre-filled with the given card (zero discounts by default)
+ */
+export function generateRateCardTemplate(rateCard?: RateCard | null): string {
+  const rows = [
+    ['Service', 'Discount %'],
+    ...RATE_CARD_SERVICES.map(({ id, label }) => [label, String(rateCard?.discounts[id] ?? 0)]),
+    [CREDIT_LABEL, String(rateCard?.monthlyCredit ?? 0)],
+    [NAME_LABEL, rateCard?.name ?? 'Enterprise agreement'],
+  ];
+  return rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+}
@@ -137,6 +137,24 @@ describe('generateAutoRisks', () => {
     expect(scaleRisk!.category).toBe('Ops & Tooling');
     expect(scaleRisk!.status).toBe('amber');
   });
+
+  it('generates vCenter health risks per finding category', () => {
+    const data = createMinimalRVToolsData({
+      vHealth: [
+        { entity: 'ds-01', entityType: '', status: 'Datastore', message: 'Datastore is inaccessible', timestamp: null },
+        { entity: '[ds-02] old/old.vmdk', entityType: '', status: 'Zombie', message: 'Possibly a Zombie vmdk file!', timestamp: null },
+        { entity: '[ds-02] old/old_1.vmdk', entityType: '', status: 'Zombie', message: 'Possibly a Zombie vmdk file!', timestamp: null },
+        { entity: 'esx01', entityType: '', status: 'NTP', message: 'NTP server not configured', timestamp: null },
+      ],
+    });
+
+    const result = generateAutoRisks(data);
+    const healthRisks = result.filter(r => r.id.startsWith('auto-health-'));
+
+    expect(healthRisks.map(r => r.id)).toEqual(['auto-health-inaccessible-datastore', 'auto-health-zombie-file']);
+    expect(healthRisks[0].status).toBe('red');
+    expect(healthRisks[1].evidenceDetail).toContain('2 vHealth messages');
+  });
 });
 
 describe('loadCuratedRisks', () => {
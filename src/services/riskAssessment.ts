@@ -4,6 +4,7 @@
 import type { RVToolsData } from '@/types/rvtools';
 import type {
   RiskRow,
+  RiskCategory,
   RiskStatus,
   RiskTableData,
   RiskTableOverrides,
@@ -15,9 +16,66 @@ import {
   calculateComplexityScores,
   getAssessmentSummary,
 } from '@/services/migration/migrationAssessment';
+import { countHealthFindings, HEALTH_CATEGORY_LABELS } from '@/services/healthFindings';
+import type { HealthCategory } from '@/services/healthFindings';
 
 // ===== AUTO-DETECTED RISKS =====
 
+interface HealthRiskTemplate {
+  category: RiskCategory;
+  description: string;
+  impactArea: string;
+  status: RiskStatus;
+  mitigationPlan: string;
+}
+
+// vHealth categories that warrant a risk row; tools and unclassified
+// messages are already covered by pre-flight checks.
+const HEALTH_RISK_TEMPLATES: Partial<Record<HealthCategory, HealthRiskTemplate>> = {
+  'dead-path': {
+    category: 'Technical',
+    description: 'vCenter reports dead storage paths. Degraded multipathing can stall disk reads during migration data copy.',
+    impactArea: 'Migration Readiness',
+    status: 'red',
+    mitigationPlan: 'Restore redundant storage paths with the storage team before migration waves start.',
+  },
+  'inaccessible-datastore': {
+    category: 'Technical',
+    description: 'vCenter reports inaccessible datastores. VMs on these datastores cannot be read by migration tooling.',
+    impactArea: 'Migration Readiness',
+    status: 'red',
+    mitigationPlan: 'Reconnect or decommission inaccessible datastores and confirm which VMs are affected.',
+  },
+  'zombie-file': {
+    category: 'Ops & Tooling',
+    description: 'Zombie VMDK or VM files found on datastores. They consume storage and inflate capacity-based sizing.',
+    impactArea: 'Sizing / Cost',
+    status: 'amber',
+    mitigationPlan: 'Validate orphaned files with application owners and delete or archive them before sizing the target.',
+  },
+  'stale-snapshot': {
+    category: 'Backup & DR',
+    description: 'vCenter reports stale snapshots. Long snapshot chains slow migration and may be mistaken for backups.',
+    impactArea: 'Migration Readiness',
+    status: 'amber',
+    mitigationPlan: 'Consolidate or delete stale snapshots and confirm backups do not rely on them.',
+  },
+  'consolidation-needed': {
+    category: 'Technical',
+    description: 'VMs need disk consolidation. Unconsolidated delta disks can fail migration or corrupt the copied image.',
+    impactArea: 'Migration Readiness',
+    status: 'amber',
+    mitigationPlan: 'Run disk consolidation on affected VMs before scheduling them into a wave.',
+  },
+  'datastore-capacity': {
+    category: 'Ops & Tooling',
+    description: 'Datastores are low on free space. Migration snapshots and CBT files may fail to allocate.',
+    impactArea: 'Operations',
+    status: 'amber',
+    mitigationPlan: 'Free space on affected datastores or move VMs before warm migration starts.',
+  },
+};
+
 export function generateAutoRisks(
   rawData: RVToolsData | null,
   costInput?: CostComparisonInput
@@ -143,6 +201,23 @@ export function generateAutoRisks(
     });
   }
 
+  // --- vCenter health findings ---
+  const healthCounts = countHealthFindings(rawData.vHealth ?? []);
+  for (const [healthCategory, template] of Object.entries(HEALTH_RISK_TEMPLATES) as Array<[HealthCategory, HealthRiskTemplate]>) {
+    const count = healthCounts[healthCategory];
+    if (!count) continue;
+    rows.push({
+      id: `auto-health-${healthCategory}`,
+      source: 'auto',
+      category: template.category,
+      description: template.description,
+      impactArea: template.impactArea,
+      status: template.status,
+      mitigationPlan: template.mitigationPlan,
+      evidenceDetail: `${count} vHealth message${count === 1 ? '' : 's'} (${HEALTH_CATEGORY_LABELS[healthCategory]})`,
+    });
+  }
+
   // --- VMware license count ---
   const licenses = rawData.vLicense?.length ?? 0;
   if (licenses > 0) {
@@ -12,5 +12,15 @@ export const SETTINGS_LABELS: Record<string, string> = {
   'vcf-risk-overrides': 'Risk Assessment',
   'vcf-vpc-design': 'VPC Network Design',
   'vcf-wave-planning-mode': 'Wave Planning Mode',
+  'vcf-wave-plans': 'Wave Plans',
+  'vcf-dependency-waves': 'Dependency Wave Planning',
   'vcf-workflow-progress': 'Workflow Progress',
+  'vcf-vsi-storage-settings': 'VSI Storage Settings',
+  'vcf-tco-settings': 'TCO Baseline',
+  'vcf-currency-settings': 'Quote Currency',
+  'vcf-pricing-pins': 'Pinned Pricing Snapshots',
+  'vcf-rate-card': 'Enterprise Rate Card',
+  'vcf-roks-worker-settings': 'ROKS Worker Pools',
+  'vcf-performance-metrics': 'Performance Metrics',
+  'vcf-vmware-retain-settings': 'VMware Retain Sizing',
 };
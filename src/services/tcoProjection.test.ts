@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMigrationRamp,
+  getVMwareLicensedCores,
+  projectTCO,
+  DEFAULT_VMWARE_BASELINE,
+  type TCOInput,
+} from './tcoProjection';
+import type { TimelinePhase } from '@/types/timeline';
+import type { VLicenseInfo, VHostInfo } from '@/types/rvtools';
+
+function phase(type: TimelinePhase['type'], startWeek: number, endWeek: number, waveVmCount?: number): TimelinePhase {
+  return {
+    id: `${type}-${startWeek}`,
+    name: type,
+    type,
+    durationWeeks: endWeek - startWeek,
+    defaultDurationWeeks: endWeek - startWeek,
+    waveVmCount,
+    startWeek,
+    endWeek,
+    color: '#000000',
+  };
+}
+
+function baseInput(overrides: Partial<TCOInput> = {}): TCOInput {
+  return {
+    scenarios: [{ id: 'cloud', label: 'Cloud', monthlyCost: 5000 }],
+    baseline: { ...DEFAULT_VMWARE_BASELINE, licenceCostPerCoreYear: 1200, hardwareRefreshCost: 0 },
+    licensedCores: 100,
+    ramp: { waves: [{ startMonth: 0, fraction: 1 }], exitMonth: 0 },
+    annualGrowthRate: 0,
+    horizonYears: 3,
+    ...overrides,
+  };
+}
+
+describe('getVMwareLicensedCores', () => {
+  it('sums used vSphere and VCF licences', () => {
+    const vLicense = [
+      { name: 'vSphere 8 Enterprise Plus', productName: 'VMware vSphere', used: 64 },
+      { name: 'VCF', productName: 'VMware Cloud Foundation', used: 32 },
+      { name: 'vCenter Server 8 Standard', productName: 'VMware vCenter Server', used: 1 },
+    ] as VLicenseInfo[];
+
+    expect(getVMwareLicensedCores({ vLicense, vHost: [] })).toBe(96);
+  });
+
+  it('falls back to host physical cores when no core licences are present', () => {
+    const vHost = [{ totalCpuCores: 32 }, { totalCpuCores: 48 }] as VHostInfo[];
+
+    expect(getVMwareLicensedCores({ vLicense: [], vHost })).toBe(80);
+  });
+});
+
+describe('buildMigrationRamp', () => {
+  it('weights waves by VM count and exits VMware when the timeline ends', () => {
+    const ramp = buildMigrationRamp([
+      phase('preparation', 0, 4),
+      phase('pilot', 4, 6, 10),
+      phase('production', 6, 14, 30),
+      phase('validation', 14, 15),
+      phase('buffer', 15, 16),
+    ]);
+
+    expect(ramp.waves).toEqual([
+      { startMonth: 0, fraction: 0.25 },
+      { startMonth: 1, fraction: 0.75 },
+    ]);
+    expect(ramp.exitMonth).toBe(4);
+  });
+
+  it('treats an empty timeline as an immediate cutover', () => {
+    expect(buildMigrationRamp([])).toEqual({ waves: [{ startMonth: 0, fraction: 1 }], exitMonth: 0 });
+  });
+});
+
+describe('projectTCO', () => {
+  it('projects the status quo from licensed cores and support', () => {
+    const tco = projectTCO(baseInput({ baseline: { ...DEFAULT_VMWARE_BASELINE, licenceCostPerCoreYear: 1200, annualSupportCost: 12000 } }));
+
+    expect(tco.months).toBe(36);
+    expect(tco.statusQuo.monthly[0]).toBe(11000);
+    expect(tco.statusQuo.yearly).toEqual([132000, 132000, 132000]);
+  });
+
+  it('adds a hardware refresh to the status quo but avoids it once VMware has exited', () => {
+    const tco = projectTCO(baseInput({
+      baseline: { ...DEFAULT_VMWARE_BASELINE, licenceCostPerCoreYear: 1200, hardwareRefreshCost: 200000, hardwareRefreshYear: 2 },
+      ramp: { waves: [{ startMonth: 0, fraction: 1 }], exitMonth: 6 },
+    }));
+
+    expect(tco.statusQuo.monthly[12]).toBe(210000);
+    expect(tco.scenarios[0].monthlyVMwareCost[12]).toBe(0);
+  });
+
+  it('ramps cloud spend by wave and counts dual-running months', () => {
+    const tco = projectTCO(baseInput({
+      ramp: { waves: [{ startMonth: 0, fraction: 0.25 }, { startMonth: 2, fraction: 0.75 }], exitMonth: 4 },
+    }));
+    const scenario = tco.scenarios[0];
+
+    expect(scenario.monthlyCloudCost.slice(0, 4)).toEqual([1250, 1250, 5000, 5000]);
+    expect(scenario.monthlyVMwareCost.slice(3, 5)).toEqual([10000, 0]);
+    expect(scenario.dualRunningCost).toBe(12500);
+  });
+
+  it('finds the break-even month after VMware exit', () => {
+    const tco = projectTCO(baseInput({
+      ramp: { waves: [{ startMonth: 0, fraction: 1 }], exitMonth: 6 },
+    }));
+
+    // 6 months of dual-running cost 30000; saving 5000/month afterwards
+    expect(tco.scenarios[0].breakEvenMonth).toBe(12);
+    expect(tco.scenarios[0].savings).toBe(tco.statusQuo.total - tco.scenarios[0].total);
+  });
+
+  it('returns no break-even when the cloud costs more than VMware', () => {
+    const tco = projectTCO(baseInput({ scenarios: [{ id: 'cloud', label: 'Cloud', monthlyCost: 20000 }] }));
+
+    expect(tco.scenarios[0].breakEvenMonth).toBeNull();
+  });
+
+  it('compounds capacity growth into both cloud and VMware costs', () => {
+    const tco = projectTCO(baseInput({ annualGrowthRate: 20 }));
+
+    expect(tco.statusQuo.monthly[12]).toBeCloseTo(12000);
+    expect(tco.scenarios[0].monthlyCloudCost[12]).toBeCloseTo(6000);
+  });
+
+  it('holds the growth-sized part of a scenario flat', () => {
+    const tco = projectTCO(baseInput({
+      annualGrowthRate: 20,
+      scenarios: [{ id: 'cloud', label: 'Cloud', monthlyCost: 5000, growthSizedMonthlyCost: 3000 }],
+    }));
+
+    expect(tco.scenarios[0].monthlyCloudCost[0]).toBeCloseTo(5000);
+    expect(tco.scenarios[0].monthlyCloudCost[12]).toBeCloseTo(2000 * 1.2 + 3000);
+  });
+});
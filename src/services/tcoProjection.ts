@@ -0,0 +1,204 @@
+// Multi-year TCO projection: cloud ramp-up, dual-running and the VMware status quo
+
+import type { RVToolsData } from '@/types/rvtools';
+import type { TimelinePhase } from '@/types/timeline';
+
+export const WEEKS_PER_MONTH = 52 / 12;
+
+/** User-entered cost of keeping the VMware estate running */
+export interface VMwareBaselineSettings {
+  /** Annual subscription cost per licensed core */
+  licenceCostPerCoreYear: number;
+  /** Overrides the core count derived from vLicense / vHost when set */
+  licensedCoresOverride: number | null;
+  /** Annual hardware and software support contracts */
+  annualSupportCost: number;
+  /** One-off hardware refresh cost avoided if migration completes first */
+  hardwareRefreshCost: number;
+  /** Planning year (1-based) in which the hardware refresh falls due */
+  hardwareRefreshYear: number;
+}
+
+export const DEFAULT_VMWARE_BASELINE: VMwareBaselineSettings = {
+  licenceCostPerCoreYear: 350,
+  licensedCoresOverride: null,
+  annualSupportCost: 0,
+  hardwareRefreshCost: 0,
+  hardwareRefreshYear: 2,
+};
+
+export interface TCOScenarioInput {
+  id: string;
+  label: string;
+  /** Steady-state monthly cloud cost once every VM has migrated */
+  monthlyCost: number;
+  /**
+   * Part of monthlyCost whose sizing already covers growth over the planning
+   * horizon (ROKS bare metal sizing); held flat instead of compounded again
+   */
+  growthSizedMonthlyCost?: number;
+}
+
+export interface MigrationRampWave {
+  /** 0-based month in which the wave starts (cloud capacity is provisioned ahead of it) */
+  startMonth: number;
+  /** Share of all migrated VMs moved by this wave */
+  fraction: number;
+}
+
+export interface MigrationRamp {
+  waves: MigrationRampWave[];
+  /** Number of months until the VMware estate is decommissioned */
+  exitMonth: number;
+}
+
+export interface TCOInput {
+  scenarios: TCOScenarioInput[];
+  baseline: VMwareBaselineSettings;
+  licensedCores: number;
+  ramp: MigrationRamp;
+  annualGrowthRate: number;
+  horizonYears: number;
+}
+
+export interface TCOCostSeries {
+  monthly: number[];
+  cumulative: number[];
+  yearly: number[];
+  total: number;
+}
+
+export interface TCOScenarioProjection extends TCOCostSeries {
+  id: string;
+  label: string;
+  monthlyCloudCost: number[];
+  monthlyVMwareCost: number[];
+  /** Cloud spend incurred while the VMware estate is still running */
+  dualRunningCost: number;
+  /** 1-based month in which cumulative cost drops to or below the status quo (null if not within the horizon) */
+  breakEvenMonth: number | null;
+  /** Status quo total minus scenario total over the horizon */
+  savings: number;
+}
+
+export interface TCOProjection {
+  months: number;
+  exitMonth: number;
+  licensedCores: number;
+  annualGrowthRate: number;
+  baseline: VMwareBaselineSettings;
+  statusQuo: TCOCostSeries;
+  scenarios: TCOScenarioProjection[];
+}
+
+const VMWARE_CORE_LICENCE_PATTERN = /vsphere|cloud foundation|vcf/i;
+
+/**
+ * Licensed cores for the status quo: the used count of vSphere / VCF licences,
+ * falling back to the physical cores of the inventoried hosts.
+ */
+export function getVMwareLicensedCores(rawData: Pick<RVToolsData, 'vLicense' | 'vHost'>): number {
+  const licensed = rawData.vLicense
+    .filter(l => VMWARE_CORE_LICENCE_PATTERN.test(l.productName) || VMWARE_CORE_LICENCE_PATTERN.test(l.name))
+    .reduce((sum, l) => sum + l.used, 0);
+  if (licensed > 0) return licensed;
+  return rawData.vHost.reduce((sum, h) => sum + h.totalCpuCores, 0);
+}
+
+/**
+ * Derive the cloud ramp-up from the migration timeline. Each pilot/production wave
+ * contributes its share of VMs from the month it starts; VMware is decommissioned
+ * when the last phase (validation and buffer included) ends.
+ */
+export function buildMigrationRamp(phases: TimelinePhase[]): MigrationRamp {
+  const waves = phases.filter(p => p.type === 'pilot' || p.type === 'production');
+  if (waves.length === 0) return { waves: [{ startMonth: 0, fraction: 1 }], exitMonth: 0 };
+
+  const weights = waves.map(w => w.waveVmCount ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const exitWeek = Math.max(...phases.map(p => p.endWeek));
+
+  return {
+    waves: waves.map((w, i) => ({
+      startMonth: Math.floor(w.startWeek / WEEKS_PER_MONTH),
+      fraction: totalWeight > 0 ? weights[i] / totalWeight : 1 / waves.length,
+    })),
+    exitMonth: Math.ceil(exitWeek / WEEKS_PER_MONTH),
+  };
+}
+
+function cloudFraction(ramp: MigrationRamp, month: number): number {
+  return Math.min(1, ramp.waves.reduce((sum, w) => (w.startMonth <= month ? sum + w.fraction : sum), 0));
+}
+
+function summarize(monthly: number[]): TCOCostSeries {
+  const cumulative: number[] = [];
+  const yearly: number[] = [];
+  let running = 0;
+  monthly.forEach((cost, m) => {
+    running += cost;
+    cumulative.push(running);
+    const year = Math.floor(m / 12);
+    yearly[year] = (yearly[year] ?? 0) + cost;
+  });
+  return { monthly, cumulative, yearly, total: running };
+}
+
+/**
+ * Project month-by-month cost of each cloud scenario against keeping VMware.
+ * Capacity (and therefore cost) compounds monthly at the annual growth rate,
+ * except the growth-sized part of a scenario which is already sized for it.
+ */
+export function projectTCO(input: TCOInput): TCOProjection {
+  const months = Math.max(1, Math.round(input.horizonYears * 12));
+  const { baseline, ramp } = input;
+  const growth = (m: number) => Math.pow(1 + input.annualGrowthRate / 100, m / 12);
+  const refreshMonth = (Math.max(1, baseline.hardwareRefreshYear) - 1) * 12;
+  const vmwareRunMonthly = (input.licensedCores * baseline.licenceCostPerCoreYear + baseline.annualSupportCost) / 12;
+
+  const statusQuoMonthly = Array.from({ length: months }, (_, m) =>
+    vmwareRunMonthly * growth(m) + (m === refreshMonth ? baseline.hardwareRefreshCost : 0),
+  );
+  const statusQuo = summarize(statusQuoMonthly);
+
+  const scenarios = input.scenarios.map<TCOScenarioProjection>(scenario => {
+    const growthSized = Math.min(scenario.growthSizedMonthlyCost ?? 0, scenario.monthlyCost);
+    const growing = scenario.monthlyCost - growthSized;
+    const monthlyCloudCost = statusQuoMonthly.map((_, m) => (growing * growth(m) + growthSized) * cloudFraction(ramp, m));
+    const monthlyVMwareCost = statusQuoMonthly.map((cost, m) => (m < ramp.exitMonth ? cost : 0));
+    const series = summarize(monthlyCloudCost.map((cost, m) => cost + monthlyVMwareCost[m]));
+    const dualRunningCost = monthlyCloudCost
+      .slice(0, ramp.exitMonth)
+      .reduce((sum, cost) => sum + cost, 0);
+
+    // Before VMware exit the migration path carries the full status quo plus cloud spend
+    let breakEvenMonth: number | null = null;
+    for (let m = Math.min(ramp.exitMonth, months); m < months; m++) {
+      if (series.cumulative[m] <= statusQuo.cumulative[m]) {
+        breakEvenMonth = m + 1;
+        break;
+      }
+    }
+
+    return {
+      id: scenario.id,
+      label: scenario.label,
+      ...series,
+      monthlyCloudCost,
+      monthlyVMwareCost,
+      dualRunningCost,
+      breakEvenMonth,
+      savings: statusQuo.total - series.total,
+    };
+  });
+
+  return {
+    months,
+    exitMonth: ramp.exitMonth,
+    licensedCores: input.licensedCores,
+    annualGrowthRate: input.annualGrowthRate,
+    baseline,
+    statusQuo,
+    scenarios,
+  };
+}
@@ -344,6 +344,27 @@ describe('File Upload E2E Tests', () => {
       expect(parsedData.metadata.fileName).toBe(file.name);
     });
 
+    it('should merge several dropped files into one dataset', async () => {
+      const onDataParsed = vi.fn();
+      render(<FileUpload onDataParsed={onDataParsed} />);
+
+      const files = [createValidExcelFile('vc01.xlsx'), createValidExcelFile('vc02.xlsx')];
+      const dropZone = screen.getByRole('button', { name: /upload rvtools excel file/i });
+      fireEvent.drop(dropZone, { dataTransfer: { files } });
+
+      await waitFor(() => {
+        expect(onDataParsed).toHaveBeenCalled();
+      });
+
+      expect(mockParseRVToolsFile).toHaveBeenCalledTimes(2);
+      const [parsedData, , , merge] = onDataParsed.mock.calls[0];
+      expect(merge.sources).toEqual(['vc01.xlsx', 'vc02.xlsx']);
+      // Both mock exports contain the same VM UUID, so only one copy is kept
+      expect(parsedData.vInfo).toHaveLength(1);
+      expect(parsedData.vInfo[0].sourceVCenter).toBe('vc01.xlsx');
+      expect(screen.getByText(/appear in more than one export/i)).toBeInTheDocument();
+    });
+
     it('should call onError callback when file validation fails in FileUpload', async () => {
       // Note: DropZone validates first. For FileUpload to validate, the file must
       // pass DropZone's validation (valid extension) but fail FileUpload's validateFile
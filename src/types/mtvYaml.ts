@@ -14,7 +14,7 @@ export interface MTVProvider {
   kind: 'Provider';
   metadata: MTVMetadata;
   spec: {
-    type: 'vsphere' | 'ovirt' | 'openstack';
+    type: 'vsphere' | 'ovirt' | 'openstack' | 'openshift';
     url?: string;
     secret?: {
       name: string;
@@ -24,6 +24,15 @@ export interface MTVProvider {
   };
 }
 
+// Provider credentials Secret
+export interface MTVSecret {
+  apiVersion: 'v1';
+  kind: 'Secret';
+  metadata: MTVMetadata;
+  type: 'Opaque';
+  stringData: Record<string, string>;
+}
+
 // NetworkMap CRD
 export interface MTVNetworkMap {
   apiVersion: 'forklift.konveyor.io/v1beta1';
@@ -127,6 +136,7 @@ export interface MTVPlan {
 export interface VMReference {
   id?: string;
   name?: string;
+  targetName?: string; // RFC 1123 name for the migrated VM when the source name is not valid
   hooks?: VMHook[];
 }
 
@@ -138,6 +148,18 @@ export interface VMHook {
   step: 'PreHook' | 'PostHook';
 }
 
+// Hook CRD (Ansible playbook run before or after a VM migrates)
+export interface MTVHook {
+  apiVersion: 'forklift.konveyor.io/v1beta1';
+  kind: 'Hook';
+  metadata: MTVMetadata;
+  spec: {
+    image: string;
+    playbook?: string; // base64-encoded Ansible playbook
+    serviceAccount?: string;
+  };
+}
+
 // Migration CRD (created from Plan)
 export interface MTVMigration {
   apiVersion: 'forklift.konveyor.io/v1beta1';
@@ -163,4 +185,31 @@ export interface MTVExportOptions {
   targetNamespace: string;
   warm?: boolean;
   preserveStaticIPs?: boolean;
+  vcenterUrl?: string;
+  credentialsSecretName?: string;
+  vddkInitImage?: string;
+  preHook?: MTVHookOptions;
+  postHook?: MTVHookOptions;
+  // Explicit mappings keyed by source network / datastore name. When set, only
+  // the listed sources are mapped and validation reports any others in use.
+  networkMappings?: Record<string, NetworkMapEntry['destination']>;
+  storageMappings?: Record<string, string>;
+}
+
+export interface MTVHookOptions {
+  image: string;
+  playbook?: string; // plain-text Ansible playbook, encoded on export
+  serviceAccount?: string;
+}
+
+// Bundle validation
+export interface MTVValidationError {
+  field: 'network' | 'datastore' | 'plan';
+  source: string;
+  message: string;
+}
+
+export interface MTVBundleValidation {
+  valid: boolean;
+  errors: MTVValidationError[];
 }
@@ -7,7 +7,12 @@ export interface RVToolsMetadata {
   environment: string | null;
 }
 
-export interface VirtualMachine {
+// Rows carry the vCenter they came from when several exports are merged
+export interface SourceTagged {
+  sourceVCenter?: string;
+}
+
+export interface VirtualMachine extends SourceTagged {
   vmName: string;
   powerState: 'poweredOn' | 'poweredOff' | 'suspended';
   template: boolean;
@@ -49,7 +54,7 @@ export interface VirtualMachine {
   cbtEnabled: boolean;
 }
 
-export interface VCPUInfo {
+export interface VCPUInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -67,7 +72,7 @@ export interface VCPUInfo {
   affinityRule: string | null;
 }
 
-export interface VMemoryInfo {
+export interface VMemoryInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -86,7 +91,7 @@ export interface VMemoryInfo {
   compressed: number | null;
 }
 
-export interface VDiskInfo {
+export interface VDiskInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -110,7 +115,7 @@ export interface VDiskInfo {
   host: string;
 }
 
-export interface VPartitionInfo {
+export interface VPartitionInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   partition: string;
@@ -120,7 +125,7 @@ export interface VPartitionInfo {
   freePercent: number;
 }
 
-export interface VNetworkInfo {
+export interface VNetworkInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -140,7 +145,7 @@ export interface VNetworkInfo {
   host: string;
 }
 
-export interface VCDInfo {
+export interface VCDInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -156,7 +161,7 @@ export interface VCDInfo {
   osFromTools: string;
 }
 
-export interface VSnapshotInfo {
+export interface VSnapshotInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   snapshotName: string;
@@ -176,7 +181,7 @@ export interface VSnapshotInfo {
   ageInDays: number;
 }
 
-export interface VToolsInfo {
+export interface VToolsInfo extends SourceTagged {
   vmName: string;
   powerState: string;
   template: boolean;
@@ -193,7 +198,7 @@ export interface VToolsInfo {
   operationReady: boolean;
 }
 
-export interface VClusterInfo {
+export interface VClusterInfo extends SourceTagged {
   name: string;
   configStatus: string;
   overallStatus: string;
@@ -214,7 +219,7 @@ export interface VClusterInfo {
   datacenter: string;
 }
 
-export interface VHostInfo {
+export interface VHostInfo extends SourceTagged {
   name: string;
   configStatus: string;
   overallStatus: string;
@@ -241,7 +246,7 @@ export interface VHostInfo {
   uptimeSeconds: number;
 }
 
-export interface VDatastoreInfo {
+export interface VDatastoreInfo extends SourceTagged {
   name: string;
   configStatus: string;
   address: string | null;
@@ -262,7 +267,7 @@ export interface VDatastoreInfo {
   cluster: string | null;
 }
 
-export interface VResourcePoolInfo {
+export interface VResourcePoolInfo extends SourceTagged {
   name: string;
   configStatus: string;
   cpuReservation: number;
@@ -280,7 +285,7 @@ export interface VResourcePoolInfo {
   path?: string; // Used for extracting datacenter/cluster from Resource Pool path
 }
 
-export interface VLicenseInfo {
+export interface VLicenseInfo extends SourceTagged {
   name: string;
   licenseKey: string;
   total: number;
@@ -290,15 +295,15 @@ export interface VLicenseInfo {
   productVersion: string;
 }
 
-export interface VHealthInfo {
+export interface VHealthInfo extends SourceTagged {
   entity: string;
   entityType: string;
   status: string;
   message: string;
-  timestamp: Date;
+  timestamp: Date | null;
 }
 
-export interface VSourceInfo {
+export interface VSourceInfo extends SourceTagged {
   server: string;
   ipAddress: string | null;
   version: string | null;
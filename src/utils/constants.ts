@@ -144,6 +144,7 @@ export const ROUTES = {
   discovery: '/discovery',
   networkDesign: '/network-design',
   tables: '/tables',
+  environmentDelta: '/environment-delta',
   info: '/info',
   userGuide: '/user-guide',
   documentation: '/documentation',
@@ -3,8 +3,8 @@
 export interface FilenameContext {
   sourceFileName?: string;
   region?: string;
-  mode?: string; // 'roks' | 'vsi'
-  wavePlanningMode?: 'network' | 'complexity';
+  mode?: string; // 'roks' | 'ove' | 'vsi'
+  wavePlanningMode?: 'network' | 'complexity' | 'dependency';
   networkGroupBy?: string;
 }
 
@@ -48,11 +48,17 @@ export function getDefaultFilename(exportType: string, context: FilenameContext
       const waveMode = context.wavePlanningMode || 'complexity';
       const modeLabel = waveMode === 'network'
         ? `network-${context.networkGroupBy || 'cluster'}`
-        : 'complexity';
+        : waveMode;
       return `wave-planning-${modeLabel}-${date}.xlsx`;
     }
     case 'mtv-yaml':
       return 'mtv-migration-bundle.zip';
+    case 'terraform':
+      return `vpc-terraform-${context.region || 'us-south'}-${date}.zip`;
+    case 'ansible': {
+      const mode = context.mode || 'roks';
+      return `ansible-remediation-${mode}-${date}.zip`;
+    }
     case 'rackware':
       return `rackware-export-${date}.csv`;
     case 'handover': {
@@ -2,7 +2,7 @@
 // Applies the 3-tier exclusion logic (force-include → manual exclude → auto-exclusion)
 // to produce a filtered dataset for target/migration sections in exports and reports.
 
-import type { RVToolsData, VirtualMachine } from '@/types/rvtools';
+import type { RVToolsData, VirtualMachine, SourceTagged } from '@/types/rvtools';
 import { getVMIdentifier } from '@/utils/vmIdentifier';
 
 export interface VMExclusionContext {
@@ -44,3 +44,39 @@ export function filterRawDataByExclusions(
     vMemory: rawData.vMemory.filter(m => includedNames.has(m.vmName)),
   };
 }
+
+/**
+ * Whether a row belongs to the selected vCenter (null selects all vCenters).
+ */
+export function isInVCenterScope(row: SourceTagged, vCenter: string | null): boolean {
+  return !vCenter || row.sourceVCenter === vCenter;
+}
+
+/**
+ * Narrow a merged multi-vCenter dataset to the rows from one vCenter.
+ * Every sheet is filtered, since merged rows all carry sourceVCenter.
+ */
+export function filterRawDataByVCenter(rawData: RVToolsData, vCenter: string | null): RVToolsData {
+  if (!vCenter) return rawData;
+  const inScope = (row: SourceTagged) => row.sourceVCenter === vCenter;
+
+  return {
+    metadata: rawData.metadata,
+    vInfo: rawData.vInfo.filter(inScope),
+    vCPU: rawData.vCPU.filter(inScope),
+    vMemory: rawData.vMemory.filter(inScope),
+    vDisk: rawData.vDisk.filter(inScope),
+    vPartition: rawData.vPartition.filter(inScope),
+    vNetwork: rawData.vNetwork.filter(inScope),
+    vCD: rawData.vCD.filter(inScope),
+    vSnapshot: rawData.vSnapshot.filter(inScope),
+    vTools: rawData.vTools.filter(inScope),
+    vCluster: rawData.vCluster.filter(inScope),
+    vHost: rawData.vHost.filter(inScope),
+    vDatastore: rawData.vDatastore.filter(inScope),
+    vResourcePool: rawData.vResourcePool.filter(inScope),
+    vLicense: rawData.vLicense.filter(inScope),
+    vHealth: rawData.vHealth.filter(inScope),
+    vSource: rawData.vSource.filter(inScope),
+  };
+}
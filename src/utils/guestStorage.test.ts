@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { buildGuestUsageMap, getGuestUsedMiB, calculateGuestStorage } from './guestStorage';
+import type { VirtualMachine, VPartitionInfo } from '@/types/rvtools';
+
+function makeVM(vmName: string, inUseMiB: number): VirtualMachine {
+  return { vmName, inUseMiB } as VirtualMachine;
+}
+
+function makePartition(vmName: string, partition: string, consumedMiB: number): VPartitionInfo {
+  return {
+    vmName,
+    powerState: 'poweredOn',
+    partition,
+    capacityMiB: consumedMiB * 2,
+    consumedMiB,
+    freeMiB: consumedMiB,
+    freePercent: 50,
+  };
+}
+
+describe('buildGuestUsageMap', () => {
+  it('sums consumed MiB across partitions per VM', () => {
+    const usage = buildGuestUsageMap([
+      makePartition('vm1', 'C:\\', 1024),
+      makePartition('vm1', 'D:\\', 2048),
+      makePartition('vm2', '/', 512),
+    ]);
+
+    expect(usage.get('vm1')).toBe(3072);
+    expect(usage.get('vm2')).toBe(512);
+  });
+});
+
+describe('getGuestUsedMiB', () => {
+  it('falls back to in-use storage when the VM has no partitions', () => {
+    const usage = buildGuestUsageMap([makePartition('vm1', '/', 1024)]);
+
+    expect(getGuestUsedMiB(makeVM('vm1', 9999), usage)).toBe(1024);
+    expect(getGuestUsedMiB(makeVM('vm2', 4096), usage)).toBe(4096);
+  });
+});
+
+describe('calculateGuestStorage', () => {
+  it('applies headroom to guest-consumed storage', () => {
+    const vms = [makeVM('vm1', 100 * 1024), makeVM('vm2', 200 * 1024)];
+    const partitions = [
+      makePartition('vm1', '/', 10 * 1024),
+      makePartition('vm2', '/', 30 * 1024),
+    ];
+
+    const result = calculateGuestStorage(vms, partitions, 25);
+
+    expect(result.guestUsedGiB).toBe(40);
+    expect(result.totalGiB).toBe(50);
+    expect(result.vmsWithPartitionData).toBe(2);
+    expect(result.vmsUsingFallback).toBe(0);
+  });
+
+  it('counts VMs without partition data as fallback', () => {
+    const vms = [makeVM('vm1', 100 * 1024), makeVM('vm2', 20 * 1024)];
+    const partitions = [makePartition('vm1', '/', 10 * 1024)];
+
+    const result = calculateGuestStorage(vms, partitions, 0);
+
+    expect(result.guestUsedGiB).toBe(30);
+    expect(result.vmsWithPartitionData).toBe(1);
+    expect(result.vmsUsingFallback).toBe(1);
+  });
+
+  it('ignores partitions for VMs outside the scope', () => {
+    const vms = [makeVM('vm1', 0)];
+    const partitions = [
+      makePartition('vm1', '/', 1024),
+      makePartition('excluded', '/', 99 * 1024),
+    ];
+
+    expect(calculateGuestStorage(vms, partitions, 0).guestUsedGiB).toBe(1);
+  });
+});
@@ -0,0 +1,79 @@
+// Pure functions for sizing storage from guest-level partition usage (vPartition).
+// In-use MiB from vInfo counts swap files, snapshots and zeroed-but-allocated blocks,
+// which heavily oversizes thin-provisioned estates. Guest-consumed space reflects
+// what the OS actually stores, so the target only needs that plus headroom.
+
+import type { VirtualMachine, VPartitionInfo } from '@/types/rvtools';
+
+export type StorageMetric = 'provisioned' | 'inUse' | 'diskCapacity' | 'guestUsed';
+
+/** Short lowercase labels used in storage breakdown descriptions */
+export const STORAGE_METRIC_LABELS: Record<StorageMetric, string> = {
+  provisioned: 'provisioned',
+  inUse: 'in-use',
+  diskCapacity: 'disk capacity',
+  guestUsed: 'guest-used',
+};
+
+/** Default free space added on top of guest-consumed storage (percent) */
+export const DEFAULT_GUEST_HEADROOM_PERCENT = 25;
+
+export interface GuestStorageSummary {
+  /** Guest-consumed storage across all VMs, before headroom */
+  guestUsedGiB: number;
+  /** Guest-consumed storage with headroom applied */
+  totalGiB: number;
+  /** VMs whose usage came from vPartition rows */
+  vmsWithPartitionData: number;
+  /** VMs with no partition rows (VMware Tools not running) that fell back to in-use storage */
+  vmsUsingFallback: number;
+}
+
+/**
+ * Sum consumed MiB per VM across all guest partitions.
+ */
+export function buildGuestUsageMap(partitions: VPartitionInfo[]): Map<string, number> {
+  const usage = new Map<string, number>();
+  for (const p of partitions) {
+    usage.set(p.vmName, (usage.get(p.vmName) ?? 0) + p.consumedMiB);
+  }
+  return usage;
+}
+
+/**
+ * Guest-consumed MiB for a VM, falling back to vInfo in-use MiB when the guest
+ * reported no partitions.
+ */
+export function getGuestUsedMiB(vm: VirtualMachine, guestUsage: Map<string, number>): number {
+  return guestUsage.get(vm.vmName) ?? vm.inUseMiB;
+}
+
+/**
+ * Calculate total guest-used storage for a set of VMs with headroom applied.
+ *
+ * @param vms - In-scope VMs
+ * @param partitions - vPartition rows (may include VMs outside the scope)
+ * @param headroomPercent - Free space to add on top of consumed storage
+ */
+export function calculateGuestStorage(
+  vms: VirtualMachine[],
+  partitions: VPartitionInfo[],
+  headroomPercent: number,
+): GuestStorageSummary {
+  const guestUsage = buildGuestUsageMap(partitions);
+  let guestUsedMiB = 0;
+  let vmsWithPartitionData = 0;
+
+  for (const vm of vms) {
+    if (guestUsage.has(vm.vmName)) vmsWithPartitionData++;
+    guestUsedMiB += getGuestUsedMiB(vm, guestUsage);
+  }
+
+  const guestUsedGiB = guestUsedMiB / 1024;
+  return {
+    guestUsedGiB,
+    totalGiB: guestUsedGiB * (1 + headroomPercent / 100),
+    vmsWithPartitionData,
+    vmsUsingFallback: vms.length - vmsWithPartitionData,
+  };
+}
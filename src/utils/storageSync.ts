@@ -0,0 +1,41 @@
+// Change notifications for localStorage-backed planning state.
+// Hooks such as useVMOverrides keep their own copy of the stored data per
+// component instance. When one instance saves (e.g. the chat assistant applying
+// an action while a page is open), the others re-read the key so a later save
+// from a stale copy cannot overwrite the change.
+
+const SYNC_EVENT = 'vcf-storage-sync';
+
+/**
+ * Announce that a localStorage key was written in this tab.
+ * Dispatched on a microtask because hooks often save inside a state updater,
+ * where updating other components is not allowed.
+ */
+export function notifyStorageChange(key: string): void {
+  if (typeof window === 'undefined') return;
+  queueMicrotask(() => {
+    window.dispatchEvent(new CustomEvent<string>(SYNC_EVENT, { detail: key }));
+  });
+}
+
+/**
+ * Call `listener` when `key` is written in this tab or another tab.
+ * Returns an unsubscribe function (suitable as a useEffect cleanup).
+ */
+export function subscribeStorageChange(key: string, listener: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const onSync = (e: Event) => {
+    if ((e as CustomEvent<string>).detail === key) listener();
+  };
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === key) listener();
+  };
+
+  window.addEventListener(SYNC_EVENT, onSync);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    window.removeEventListener(SYNC_EVENT, onSync);
+    window.removeEventListener('storage', onStorage);
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getEnvironmentFingerprint, fingerprintsMatch } from './vmIdentifier';
+import { mergeRVToolsData } from '@/services/parser/mergeRVTools';
+import type { RVToolsData, VirtualMachine } from '@/types/rvtools';
+
+function makeExport(server: string, clusters: string[], vmName: string): RVToolsData {
+  return {
+    metadata: { fileName: `${server}.xlsx`, collectionDate: null, vCenterVersion: null, environment: null },
+    vInfo: [{ vmName, uuid: `${vmName}-uuid` } as VirtualMachine],
+    vCPU: [], vMemory: [], vDisk: [], vPartition: [], vNetwork: [], vCD: [], vSnapshot: [], vTools: [],
+    vCluster: clusters.map(name => ({ name })) as RVToolsData['vCluster'],
+    vHost: [], vDatastore: [], vResourcePool: [], vLicense: [], vHealth: [],
+    vSource: [{ server, instanceUuid: `${server}-id` }] as RVToolsData['vSource'],
+  };
+}
+
+describe('getEnvironmentFingerprint', () => {
+  it('fingerprints a single vCenter by server, instance UUID and sorted clusters', () => {
+    expect(getEnvironmentFingerprint(makeExport('vc01', ['b', 'a'], 'vm1'))).toBe('vc01::vc01-id::a,b');
+  });
+
+  it('builds an order-independent composite fingerprint for merged data', () => {
+    const a = makeExport('vc01', ['c1'], 'vm1');
+    const b = makeExport('vc02', ['c2'], 'vm2');
+
+    const ab = getEnvironmentFingerprint(mergeRVToolsData([a, b]).data);
+    const ba = getEnvironmentFingerprint(mergeRVToolsData([b, a]).data);
+
+    expect(ab).toBe('vc01::vc01-id::c1||vc02::vc02-id::c2');
+    expect(ba).toBe(ab);
+  });
+});
+
+describe('fingerprintsMatch', () => {
+  it('matches a single vCenter against a merged set that contains it', () => {
+    const single = getEnvironmentFingerprint(makeExport('vc01', ['c1'], 'vm1'));
+    const merged = getEnvironmentFingerprint(mergeRVToolsData([
+      makeExport('vc01', ['c1'], 'vm1'),
+      makeExport('vc02', ['c2'], 'vm2'),
+    ]).data);
+
+    expect(fingerprintsMatch(single, merged)).toBe(true);
+    expect(fingerprintsMatch(merged, single)).toBe(true);
+  });
+
+  it('does not match unrelated environments', () => {
+    const merged = 'vc01::id::c1||vc02::id::c2';
+    expect(fingerprintsMatch('vc03::id::c3', merged)).toBe(false);
+    expect(fingerprintsMatch('vc01::id::c1', 'vc02::id::c2')).toBe(false);
+    expect(fingerprintsMatch('', merged)).toBe(false);
+  });
+});
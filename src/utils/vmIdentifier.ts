@@ -39,17 +39,31 @@ export function parseVMIdentifier(id: string): { vmName: string; uuid?: string;
  *
  * Creates a fingerprint from RVTools data to identify the source vCenter/environment.
  * Used to determine if saved overrides should apply to the current dataset.
+ * Merged multi-vCenter datasets get a composite fingerprint built from each
+ * vCenter's fingerprint, sorted so upload order does not matter.
  */
 export function getEnvironmentFingerprint(data: RVToolsData): string {
+  const vCenters = [...new Set(data.vInfo.map(vm => vm.sourceVCenter).filter(Boolean))];
+  if (vCenters.length > 1) {
+    return vCenters
+      .map(source => getSingleVCenterFingerprint(
+        data.vSource.filter(s => s.sourceVCenter === source),
+        data.vCluster.filter(c => c.sourceVCenter === source).map(c => c.name)
+      ))
+      .sort()
+      .join('||');
+  }
+
+  return getSingleVCenterFingerprint(data.vSource, data.vCluster.map(c => c.name));
+}
+
+function getSingleVCenterFingerprint(sources: RVToolsData['vSource'], clusterNames: string[]): string {
   // Get vCenter server info
-  const server = data.vSource[0]?.server || 'unknown';
-  const instanceUuid = data.vSource[0]?.instanceUuid || '';
+  const server = sources[0]?.server || 'unknown';
+  const instanceUuid = sources[0]?.instanceUuid || '';
 
   // Get sorted cluster names for consistency
-  const clusters = data.vCluster
-    .map(c => c.name)
-    .sort()
-    .join(',');
+  const clusters = [...clusterNames].sort().join(',');
 
   return `${server}::${instanceUuid}::${clusters}`;
 }
@@ -71,9 +85,19 @@ export function getShortFingerprint(data: RVToolsData): string {
 
 /**
  * Check if two fingerprints match.
+ * Composite fingerprints match when one vCenter set contains the other, so
+ * overrides saved for one vCenter stay attached after it is merged with others.
  */
 export function fingerprintsMatch(fp1: string, fp2: string): boolean {
-  return fp1 === fp2;
+  if (fp1 === fp2) return true;
+  if (!fp1 || !fp2) return false;
+
+  const parts1 = fp1.split('||');
+  const parts2 = fp2.split('||');
+  if (parts1.length === 1 && parts2.length === 1) return false;
+
+  const [smaller, larger] = parts1.length <= parts2.length ? [parts1, new Set(parts2)] : [parts2, new Set(parts1)];
+  return smaller.every(part => larger.has(part));
 }
 
 /**
@@ -84,8 +108,9 @@ export function getEnvironmentMetadata(data: RVToolsData): {
   clusterCount: number;
   vmCount: number;
 } {
+  const servers = [...new Set(data.vSource.map(s => s.server).filter(Boolean))];
   return {
-    server: data.vSource[0]?.server || 'Unknown',
+    server: servers.length > 0 ? servers.join(', ') : 'Unknown',
     clusterCount: data.vCluster.length,
     vmCount: data.vInfo.filter(vm => !vm.template).length,
   };
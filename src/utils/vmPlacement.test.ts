@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { simulatePlacement, findPlacementNodeCount } from './vmPlacement';
+import type { PlacementVM, PlacementNodeCapacity } from './vmPlacement';
+
+const capacity: PlacementNodeCapacity = {
+  vcpuCapacity: 100,
+  memoryCapacity: 400,
+  storageCapacityGiB: 1000,
+};
+
+function makeVMs(count: number, vcpus: number, memoryGiB: number, prefix = 'vm'): PlacementVM[] {
+  return Array.from({ length: count }, (_, i) => ({ vmName: `${prefix}-${i + 1}`, vcpus, memoryGiB }));
+}
+
+describe('simulatePlacement', () => {
+  it('spreads VMs across nodes and reports per-node utilisation', () => {
+    const result = simulatePlacement(makeVMs(6, 10, 40), capacity, { nodeCount: 3, evictionThreshold: 100 });
+
+    expect(result.allPlaced).toBe(true);
+    expect(result.nodes.map(n => n.vmNames.length)).toEqual([2, 2, 2]);
+    expect(result.nodes[0]).toMatchObject({ name: 'worker-1', zone: 1, usedVCPUs: 20, cpuUtil: 20, memoryUtil: 20 });
+    expect(result.nodes.map(n => n.zone)).toEqual([1, 2, 3]);
+  });
+
+  it('flags VMs larger than a node as unplaceable regardless of node count', () => {
+    const result = simulatePlacement(
+      [{ vmName: 'big-db', vcpus: 120, memoryGiB: 500 }, ...makeVMs(2, 4, 16)],
+      capacity,
+      { nodeCount: 6, evictionThreshold: 90 },
+    );
+
+    expect(result.allPlaced).toBe(false);
+    expect(result.unplaceable).toEqual([
+      { vmName: 'big-db', vcpus: 120, memoryGiB: 500, reason: 'exceeds-node', resource: 'both' },
+    ]);
+  });
+
+  it('detects fragmentation when aggregate capacity is sufficient but no node has room', () => {
+    // 4 x 60-vCPU VMs on 3 nodes: 240 of 300 vCPUs, but only one fits per node
+    const result = simulatePlacement(makeVMs(4, 60, 10), capacity, { nodeCount: 3, evictionThreshold: 100 });
+
+    expect(result.unplaceable).toHaveLength(1);
+    expect(result.unplaceable[0]).toMatchObject({ reason: 'insufficient-capacity', resource: 'cpu' });
+  });
+
+  it('honours the eviction threshold as the fill limit', () => {
+    const result = simulatePlacement(makeVMs(1, 90, 10), capacity, { nodeCount: 3, evictionThreshold: 80 });
+
+    expect(result.unplaceable[0]).toMatchObject({ vmName: 'vm-1', reason: 'insufficient-capacity' });
+  });
+
+  it('simulates the loss of any single node', () => {
+    const surviving = simulatePlacement(makeVMs(8, 20, 20), capacity, { nodeCount: 4, evictionThreshold: 100 });
+    expect(surviving.nodeFailure.survives).toBe(true);
+    expect(surviving.nodeFailure.scenarios).toHaveLength(4);
+    expect(surviving.nodeFailure.worstCase?.displacedVMs).toBe(2);
+
+    const failing = simulatePlacement(makeVMs(12, 30, 20), capacity, { nodeCount: 4, evictionThreshold: 100 });
+    expect(failing.allPlaced).toBe(true);
+    expect(failing.nodeFailure.survives).toBe(false);
+    expect(failing.nodeFailure.worstCase?.unplacedVMs).toHaveLength(3);
+  });
+
+  it('fails node loss when ODF storage or quorum no longer fits', () => {
+    const result = simulatePlacement(makeVMs(3, 5, 5), capacity, { nodeCount: 4, evictionThreshold: 100, totalStorageGiB: 3500 });
+    expect(result.nodeFailure.survives).toBe(false);
+    expect(result.nodeFailure.worstCase?.storageUtil).toBeGreaterThan(100);
+
+    const threeNodes = simulatePlacement(makeVMs(3, 5, 5), capacity, { nodeCount: 3, evictionThreshold: 100 });
+    expect(threeNodes.nodeFailure.survives).toBe(false);
+  });
+
+  it('simulates the loss of an entire zone', () => {
+    const result = simulatePlacement(makeVMs(6, 40, 40), capacity, { nodeCount: 6, evictionThreshold: 100 });
+
+    expect(result.zoneFailure?.scenarios.map(s => s.label)).toEqual(['zone 1', 'zone 2', 'zone 3']);
+    expect(result.zoneFailure?.scenarios[0].failedNodes).toBe(2);
+    expect(result.zoneFailure?.survives).toBe(true);
+
+    const tight = simulatePlacement(makeVMs(6, 60, 40), capacity, { nodeCount: 6, evictionThreshold: 100 });
+    expect(tight.nodeFailure.survives).toBe(false);
+    expect(tight.zoneFailure?.survives).toBe(false);
+  });
+});
+
+describe('findPlacementNodeCount', () => {
+  it('adds rack groups until every VM is placed and a node can fail', () => {
+    expect(findPlacementNodeCount(makeVMs(12, 30, 20), capacity, { nodeCount: 3, evictionThreshold: 100 })).toBe(6);
+  });
+
+  it('ignores VMs that are larger than any node', () => {
+    const vms = [{ vmName: 'huge', vcpus: 500, memoryGiB: 10 }, ...makeVMs(2, 10, 10)];
+    expect(findPlacementNodeCount(vms, capacity, { nodeCount: 4, evictionThreshold: 100 })).toBe(4);
+  });
+
+  it('returns null when no node count within the limit works', () => {
+    expect(findPlacementNodeCount(makeVMs(100, 50, 10), capacity, { nodeCount: 3, evictionThreshold: 100 }, 9)).toBeNull();
+  });
+});
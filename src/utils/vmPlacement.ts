@@ -0,0 +1,284 @@
+// VM-level placement simulation for ROKS bare metal clusters. Complements the
+// aggregate node count from nodeCalculation by packing each VM onto a node, which
+// exposes VMs too large for any node, fragmentation, and failover placement.
+
+export interface PlacementVM {
+  vmName: string;
+  /** vCPUs including virtualization overhead */
+  vcpus: number;
+  /** Memory including virtualization overhead */
+  memoryGiB: number;
+}
+
+export interface PlacementNodeCapacity {
+  /** Schedulable vCPUs per node after reservations and overcommit */
+  vcpuCapacity: number;
+  /** Schedulable memory per node after reservations and overcommit */
+  memoryCapacity: number;
+  /** Usable ODF storage per node (0 when storage is external) */
+  storageCapacityGiB: number;
+}
+
+export interface PlacementOptions {
+  nodeCount: number;
+  /** Nodes are not filled beyond this percentage of capacity (eviction threshold) */
+  evictionThreshold: number;
+  /** Nodes are spread round-robin across this many zones */
+  zoneCount?: number;
+  /** Cluster-wide storage demand, checked against the surviving nodes' ODF capacity */
+  totalStorageGiB?: number;
+}
+
+export interface PlacedNode {
+  name: string;
+  zone: number;
+  vmNames: string[];
+  usedVCPUs: number;
+  usedMemoryGiB: number;
+  cpuUtil: number;
+  memoryUtil: number;
+}
+
+export type UnplaceableReason = 'exceeds-node' | 'insufficient-capacity';
+
+export interface UnplaceableVM {
+  vmName: string;
+  vcpus: number;
+  memoryGiB: number;
+  reason: UnplaceableReason;
+  resource: 'cpu' | 'memory' | 'both';
+}
+
+export interface FailureScenarioResult {
+  label: string;
+  failedNodes: number;
+  displacedVMs: number;
+  unplacedVMs: string[];
+  maxCpuUtil: number;
+  maxMemoryUtil: number;
+  storageUtil: number;
+  survives: boolean;
+}
+
+export interface FailureSimulation {
+  survives: boolean;
+  scenarios: FailureScenarioResult[];
+  /** First failing scenario, or the one with the highest post-failure utilisation */
+  worstCase: FailureScenarioResult | null;
+}
+
+export interface PlacementResult {
+  nodes: PlacedNode[];
+  unplaceable: UnplaceableVM[];
+  allPlaced: boolean;
+  nodeFailure: FailureSimulation;
+  zoneFailure: FailureSimulation | null;
+}
+
+interface NodeState {
+  name: string;
+  zone: number;
+  vms: PlacementVM[];
+  vcpus: number;
+  memoryGiB: number;
+}
+
+const DEFAULT_ZONE_COUNT = 3;
+
+function exceededResource(vm: PlacementVM, cpuLimit: number, memoryLimit: number): 'cpu' | 'memory' | 'both' | null {
+  const cpu = vm.vcpus > cpuLimit;
+  const memory = vm.memoryGiB > memoryLimit;
+  if (cpu && memory) return 'both';
+  if (cpu) return 'cpu';
+  if (memory) return 'memory';
+  return null;
+}
+
+/**
+ * Place VMs largest-first onto the least-allocated node that still has room,
+ * mirroring the Kubernetes scheduler's default LeastAllocated scoring.
+ * Mutates the node states and returns the VMs that could not be placed.
+ */
+function placeOntoNodes(
+  vms: PlacementVM[],
+  nodes: NodeState[],
+  cpuLimit: number,
+  memoryLimit: number,
+): PlacementVM[] {
+  const share = (cpu: number, memory: number) => Math.max(
+    cpuLimit > 0 ? cpu / cpuLimit : Infinity,
+    memoryLimit > 0 ? memory / memoryLimit : Infinity,
+  );
+  const sorted = [...vms].sort((a, b) => share(b.vcpus, b.memoryGiB) - share(a.vcpus, a.memoryGiB));
+  const unplaced: PlacementVM[] = [];
+
+  for (const vm of sorted) {
+    let best: NodeState | null = null;
+    let bestShare = Infinity;
+    for (const node of nodes) {
+      const cpu = node.vcpus + vm.vcpus;
+      const memory = node.memoryGiB + vm.memoryGiB;
+      if (cpu > cpuLimit || memory > memoryLimit) continue;
+      const nodeShare = share(cpu, memory);
+      if (nodeShare < bestShare) {
+        best = node;
+        bestShare = nodeShare;
+      }
+    }
+    if (best) {
+      best.vms.push(vm);
+      best.vcpus += vm.vcpus;
+      best.memoryGiB += vm.memoryGiB;
+    } else {
+      unplaced.push(vm);
+    }
+  }
+
+  return unplaced;
+}
+
+function simulateFailure(
+  label: string,
+  failed: Set<string>,
+  nodes: NodeState[],
+  capacity: PlacementNodeCapacity,
+  cpuLimit: number,
+  memoryLimit: number,
+  totalStorageGiB: number,
+  minSurvivingNodes: number,
+): FailureScenarioResult {
+  const survivors = nodes
+    .filter(n => !failed.has(n.name))
+    .map(n => ({ ...n, vms: [...n.vms] }));
+  const displaced = nodes.filter(n => failed.has(n.name)).flatMap(n => n.vms);
+  const unplaced = placeOntoNodes(displaced, survivors, cpuLimit, memoryLimit);
+
+  const maxCpuUtil = capacity.vcpuCapacity > 0
+    ? Math.max(0, ...survivors.map(n => (n.vcpus / capacity.vcpuCapacity) * 100))
+    : 0;
+  const maxMemoryUtil = capacity.memoryCapacity > 0
+    ? Math.max(0, ...survivors.map(n => (n.memoryGiB / capacity.memoryCapacity) * 100))
+    : 0;
+  const storageCapacity = survivors.length * capacity.storageCapacityGiB;
+  const storageUtil = storageCapacity > 0 ? (totalStorageGiB / storageCapacity) * 100 : 0;
+  const storagePasses = capacity.storageCapacityGiB === 0 || storageUtil <= 100;
+
+  return {
+    label,
+    failedNodes: failed.size,
+    displacedVMs: displaced.length,
+    unplacedVMs: unplaced.map(vm => vm.vmName),
+    maxCpuUtil,
+    maxMemoryUtil,
+    storageUtil,
+    survives: unplaced.length === 0 && storagePasses && survivors.length >= minSurvivingNodes,
+  };
+}
+
+function summarizeFailures(scenarios: FailureScenarioResult[]): FailureSimulation {
+  const failing = scenarios.find(s => !s.survives);
+  const worstCase = failing ?? scenarios.reduce<FailureScenarioResult | null>(
+    (worst, s) => !worst || Math.max(s.maxCpuUtil, s.maxMemoryUtil) > Math.max(worst.maxCpuUtil, worst.maxMemoryUtil) ? s : worst,
+    null,
+  );
+  return { survives: !failing, scenarios, worstCase };
+}
+
+/**
+ * Pack every VM onto a node of the given capacity and simulate losing any
+ * single node and any entire zone.
+ */
+export function simulatePlacement(
+  vms: PlacementVM[],
+  capacity: PlacementNodeCapacity,
+  options: PlacementOptions,
+): PlacementResult {
+  const zoneCount = Math.max(1, options.zoneCount ?? DEFAULT_ZONE_COUNT);
+  const totalStorageGiB = options.totalStorageGiB ?? 0;
+  const evictionFactor = options.evictionThreshold / 100;
+  const cpuLimit = capacity.vcpuCapacity * evictionFactor;
+  const memoryLimit = capacity.memoryCapacity * evictionFactor;
+
+  const nodes: NodeState[] = Array.from({ length: Math.max(0, options.nodeCount) }, (_, i) => ({
+    name: `worker-${i + 1}`,
+    zone: (i % zoneCount) + 1,
+    vms: [],
+    vcpus: 0,
+    memoryGiB: 0,
+  }));
+
+  // VMs larger than a whole node can never be scheduled, regardless of node count
+  const unplaceable: UnplaceableVM[] = [];
+  const candidates: PlacementVM[] = [];
+  for (const vm of vms) {
+    const resource = exceededResource(vm, capacity.vcpuCapacity, capacity.memoryCapacity);
+    if (resource) {
+      unplaceable.push({ ...vm, reason: 'exceeds-node', resource });
+    } else {
+      candidates.push(vm);
+    }
+  }
+
+  for (const vm of placeOntoNodes(candidates, nodes, cpuLimit, memoryLimit)) {
+    const cpuBlocked = nodes.every(n => n.vcpus + vm.vcpus > cpuLimit);
+    const memoryBlocked = nodes.every(n => n.memoryGiB + vm.memoryGiB > memoryLimit);
+    unplaceable.push({
+      ...vm,
+      reason: 'insufficient-capacity',
+      resource: cpuBlocked && !memoryBlocked ? 'cpu' : memoryBlocked && !cpuBlocked ? 'memory' : 'both',
+    });
+  }
+
+  const placedNodes: PlacedNode[] = nodes.map(n => ({
+    name: n.name,
+    zone: n.zone,
+    vmNames: n.vms.map(vm => vm.vmName),
+    usedVCPUs: n.vcpus,
+    usedMemoryGiB: n.memoryGiB,
+    cpuUtil: capacity.vcpuCapacity > 0 ? (n.vcpus / capacity.vcpuCapacity) * 100 : 0,
+    memoryUtil: capacity.memoryCapacity > 0 ? (n.memoryGiB / capacity.memoryCapacity) * 100 : 0,
+  }));
+
+  // ODF needs three surviving storage nodes after a single node failure
+  const nodeScenarios = nodes.map(n =>
+    simulateFailure(n.name, new Set([n.name]), nodes, capacity, cpuLimit, memoryLimit, totalStorageGiB, 3),
+  );
+
+  let zoneFailure: FailureSimulation | null = null;
+  if (zoneCount > 1 && nodes.length > 1) {
+    const zoneScenarios: FailureScenarioResult[] = [];
+    for (let zone = 1; zone <= Math.min(zoneCount, nodes.length); zone++) {
+      const failed = new Set(nodes.filter(n => n.zone === zone).map(n => n.name));
+      zoneScenarios.push(simulateFailure(`zone ${zone}`, failed, nodes, capacity, cpuLimit, memoryLimit, totalStorageGiB, 1));
+    }
+    zoneFailure = summarizeFailures(zoneScenarios);
+  }
+
+  return {
+    nodes: placedNodes,
+    unplaceable,
+    allPlaced: unplaceable.length === 0,
+    nodeFailure: summarizeFailures(nodeScenarios),
+    zoneFailure,
+  };
+}
+
+/**
+ * Find the smallest node count (stepping in rack groups of three from the
+ * starting count) at which every schedulable VM is placed and the cluster
+ * survives any single node failure. Returns null when no count up to the
+ * limit works.
+ */
+export function findPlacementNodeCount(
+  vms: PlacementVM[],
+  capacity: PlacementNodeCapacity,
+  options: PlacementOptions,
+  maxNodeCount: number = options.nodeCount + 30,
+): number | null {
+  for (let nodeCount = Math.max(3, options.nodeCount); nodeCount <= maxNodeCount; nodeCount += 3) {
+    const result = simulatePlacement(vms, capacity, { ...options, nodeCount });
+    const placed = result.unplaceable.every(vm => vm.reason === 'exceeds-node');
+    if (placed && result.nodeFailure.survives) return nodeCount;
+  }
+  return null;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { designWorkerPools, getWorkloadFamily, getAllocatableCapacity, getFamilyProfiles, DEFAULT_WORKER_POOL_OPTIONS } from './vsiWorkerPools';
+import type { WorkerProfileOption, WorkerPoolWorkload } from './vsiWorkerPools';
+
+const profiles: WorkerProfileOption[] = [
+  { name: 'cx2-8x16', vcpus: 8, memoryGiB: 16 },
+  { name: 'cx2-16x32', vcpus: 16, memoryGiB: 32 },
+  { name: 'bx2-8x32', vcpus: 8, memoryGiB: 32 },
+  { name: 'bx2-16x64', vcpus: 16, memoryGiB: 64 },
+  { name: 'bx2-32x128', vcpus: 32, memoryGiB: 128 },
+  { name: 'bx2d-16x64', vcpus: 16, memoryGiB: 64 },
+  { name: 'mx2-16x128', vcpus: 16, memoryGiB: 128 },
+];
+
+function makeWorkloads(count: number, vcpus: number, memoryGiB: number): WorkerPoolWorkload[] {
+  return Array.from({ length: count }, () => ({ vcpus, memoryGiB }));
+}
+
+describe('getWorkloadFamily', () => {
+  it('classifies workloads by memory per vCPU', () => {
+    expect(getWorkloadFamily({ vcpus: 4, memoryGiB: 8 })).toBe('cx');
+    expect(getWorkloadFamily({ vcpus: 4, memoryGiB: 16 })).toBe('bx');
+    expect(getWorkloadFamily({ vcpus: 2, memoryGiB: 32 })).toBe('mx');
+  });
+});
+
+describe('getAllocatableCapacity', () => {
+  it('deducts tiered worker reserves from the profile', () => {
+    const allocatable = getAllocatableCapacity({ vcpus: 16, memoryGiB: 64 });
+    expect(allocatable.vcpus).toBeCloseTo(15.89);
+    expect(allocatable.memoryGiB).toBeCloseTo(58.42);
+  });
+});
+
+describe('getFamilyProfiles', () => {
+  it('returns gen2 profiles of the family, smallest first', () => {
+    expect(getFamilyProfiles('bx', profiles).map(p => p.name)).toEqual(['bx2-8x32', 'bx2-16x64', 'bx2-32x128']);
+  });
+});
+
+describe('designWorkerPools', () => {
+  it('creates one pool per family present in the workloads', () => {
+    const pools = designWorkerPools(
+      [...makeWorkloads(10, 4, 16), ...makeWorkloads(2, 2, 32)],
+      profiles,
+    );
+
+    expect(pools.map(p => [p.name, p.profile, p.workloadCount])).toEqual([
+      ['balanced', 'bx2-16x64', 10],
+      ['memory', 'mx2-16x128', 2],
+    ]);
+  });
+
+  it('sizes workers to the utilization ceiling and rounds to whole zones', () => {
+    // 40 x 4 vCPU = 160 vCPUs; 15.89 allocatable x 80% → 12.6 workers → 15 across 3 zones
+    const [pool] = designWorkerPools(makeWorkloads(40, 4, 16), profiles);
+
+    expect(pool.calculatedWorkers).toBe(15);
+    expect(pool.workers).toBe(15);
+    expect(pool.cpuUtilization).toBeLessThanOrEqual(DEFAULT_WORKER_POOL_OPTIONS.maxUtilization);
+  });
+
+  it('keeps at least one worker per zone, and two for single-zone clusters', () => {
+    expect(designWorkerPools(makeWorkloads(1, 1, 4), profiles)[0].workers).toBe(3);
+    expect(designWorkerPools(makeWorkloads(1, 1, 4), profiles, { ...DEFAULT_WORKER_POOL_OPTIONS, zoneCount: 1 })[0].workers).toBe(2);
+  });
+
+  it('steps up the profile so the largest workload fits on one worker', () => {
+    const [pool] = designWorkerPools([{ vcpus: 24, memoryGiB: 96 }], profiles);
+
+    expect(pool.profile).toBe('bx2-32x128');
+    expect(pool.oversizedWorkloads).toBe(0);
+  });
+
+  it('applies profile and worker overrides', () => {
+    const [pool] = designWorkerPools(makeWorkloads(40, 4, 16), profiles, {
+      ...DEFAULT_WORKER_POOL_OPTIONS,
+      profileOverrides: { bx: 'bx2-8x32' },
+      workerOverrides: { bx: 9 },
+    });
+
+    expect(pool.profile).toBe('bx2-8x32');
+    expect(pool.workers).toBe(9);
+    expect(pool.calculatedWorkers).toBe(30);
+    expect(pool.cpuUtilization).toBeGreaterThan(100);
+  });
+});
@@ -0,0 +1,191 @@
+// Worker-pool design for ROKS clusters on VPC VSI workers. VSI workers cannot run
+// OpenShift Virtualization, so this sizes the estate as containerised workloads:
+// each VM's footprint is grouped into a pool by its memory-to-vCPU ratio (profile
+// family) and each pool is sized from the allocatable capacity of its worker profile.
+
+export type WorkerPoolFamily = 'cx' | 'bx' | 'mx';
+
+export interface WorkerPoolWorkload {
+  vcpus: number;
+  memoryGiB: number;
+}
+
+export interface WorkerProfileOption {
+  name: string;
+  vcpus: number;
+  memoryGiB: number;
+}
+
+export interface WorkerPoolOptions {
+  /** Workers are spread evenly across this many zones */
+  zoneCount: number;
+  /** Pools are not filled beyond this percentage of allocatable capacity */
+  maxUtilization: number;
+  /** Profile to use per family instead of the default choice */
+  profileOverrides?: Partial<Record<WorkerPoolFamily, string>>;
+  /** Worker count per family instead of the calculated count */
+  workerOverrides?: Partial<Record<WorkerPoolFamily, number>>;
+}
+
+export interface WorkerPoolDesign {
+  family: WorkerPoolFamily;
+  name: string;
+  profile: string;
+  workers: number;
+  /** Calculated worker count before any override */
+  calculatedWorkers: number;
+  workloadCount: number;
+  requiredVCPUs: number;
+  requiredMemoryGiB: number;
+  /** Allocatable capacity per worker after IBM Cloud worker reserves */
+  allocatableVCPUs: number;
+  allocatableMemoryGiB: number;
+  /** Percent of pool allocatable capacity used by the workloads */
+  cpuUtilization: number;
+  memoryUtilization: number;
+  /** Largest single workload does not fit on one worker of this profile */
+  oversizedWorkloads: number;
+}
+
+export const WORKER_POOL_FAMILIES: { family: WorkerPoolFamily; name: string; label: string }[] = [
+  { family: 'cx', name: 'compute', label: 'Compute (1:2)' },
+  { family: 'bx', name: 'balanced', label: 'Balanced (1:4)' },
+  { family: 'mx', name: 'memory', label: 'Memory (1:8)' },
+];
+
+/** Preferred worker size per family when no override is set */
+const DEFAULT_WORKER_VCPUS = 16;
+
+export const DEFAULT_WORKER_POOL_OPTIONS: WorkerPoolOptions = {
+  zoneCount: 3,
+  maxUtilization: 80,
+};
+
+/**
+ * Profile family for a workload by memory per vCPU: up to 3 GiB/vCPU runs on
+ * compute profiles, up to 6 GiB/vCPU on balanced, anything higher on memory.
+ */
+export function getWorkloadFamily(workload: WorkerPoolWorkload): WorkerPoolFamily {
+  const ratio = workload.memoryGiB / Math.max(workload.vcpus, 1);
+  if (ratio <= 3) return 'cx';
+  if (ratio <= 6) return 'bx';
+  return 'mx';
+}
+
+/**
+ * Approximation of IBM Cloud worker node resource reserves (kubelet, system
+ * daemons and eviction threshold), returning allocatable capacity per worker.
+ */
+export function getAllocatableCapacity(profile: Pick<WorkerProfileOption, 'vcpus' | 'memoryGiB'>): { vcpus: number; memoryGiB: number } {
+  const cpuTiers: [number, number][] = [[1, 0.06], [1, 0.01], [2, 0.005], [Infinity, 0.0025]];
+  const memoryTiers: [number, number][] = [[4, 0.25], [4, 0.2], [8, 0.1], [112, 0.06], [Infinity, 0.02]];
+
+  const reserve = (total: number, tiers: [number, number][]) => {
+    let remaining = total;
+    let reserved = 0;
+    for (const [size, pct] of tiers) {
+      const portion = Math.min(remaining, size);
+      reserved += portion * pct;
+      remaining -= portion;
+      if (remaining <= 0) break;
+    }
+    return reserved;
+  };
+
+  return {
+    vcpus: Math.max(profile.vcpus - reserve(profile.vcpus, cpuTiers), 0),
+    memoryGiB: Math.max(profile.memoryGiB - reserve(profile.memoryGiB, memoryTiers) - 0.1, 0),
+  };
+}
+
+/**
+ * Gen2 profiles of a family (e.g. `bx2-16x64`), smallest first
+ */
+export function getFamilyProfiles(family: WorkerPoolFamily, profiles: WorkerProfileOption[]): WorkerProfileOption[] {
+  const pattern = new RegExp(`^${family}2-\\d+x\\d+$`);
+  return profiles
+    .filter(p => pattern.test(p.name))
+    .sort((a, b) => a.vcpus - b.vcpus || a.memoryGiB - b.memoryGiB);
+}
+
+/**
+ * Default worker profile for a family: the 16 vCPU size, stepped up until the
+ * largest workload in the pool fits on one worker.
+ */
+function pickProfile(family: WorkerPoolFamily, largest: WorkerPoolWorkload, profiles: WorkerProfileOption[]): WorkerProfileOption | undefined {
+  const candidates = getFamilyProfiles(family, profiles);
+  const start = candidates.findIndex(p => p.vcpus >= DEFAULT_WORKER_VCPUS);
+  const ordered = start >= 0 ? candidates.slice(start) : candidates.slice().reverse();
+  return ordered.find(p => {
+    const allocatable = getAllocatableCapacity(p);
+    return allocatable.vcpus >= largest.vcpus && allocatable.memoryGiB >= largest.memoryGiB;
+  }) ?? ordered[ordered.length - 1];
+}
+
+function roundUpToMultiple(value: number, multiple: number): number {
+  return Math.ceil(value / multiple) * multiple;
+}
+
+/**
+ * Design one worker pool per profile family that has workloads. Worker counts
+ * cover CPU and memory demand at the utilization ceiling, are spread evenly
+ * across zones, and never drop below one worker per zone (two for single-zone).
+ */
+export function designWorkerPools(
+  workloads: WorkerPoolWorkload[],
+  profiles: WorkerProfileOption[],
+  options: WorkerPoolOptions = DEFAULT_WORKER_POOL_OPTIONS,
+): WorkerPoolDesign[] {
+  const zoneCount = Math.max(Math.floor(options.zoneCount), 1);
+  const utilization = Math.min(Math.max(options.maxUtilization, 1), 100) / 100;
+  const minWorkers = Math.max(zoneCount, 2);
+
+  const byFamily = new Map<WorkerPoolFamily, WorkerPoolWorkload[]>();
+  for (const workload of workloads) {
+    if (workload.vcpus <= 0 && workload.memoryGiB <= 0) continue;
+    const family = getWorkloadFamily(workload);
+    const members = byFamily.get(family);
+    if (members) members.push(workload);
+    else byFamily.set(family, [workload]);
+  }
+
+  const pools: WorkerPoolDesign[] = [];
+  for (const { family, name } of WORKER_POOL_FAMILIES) {
+    const members = byFamily.get(family);
+    if (!members) continue;
+
+    const largest = {
+      vcpus: Math.max(...members.map(w => w.vcpus)),
+      memoryGiB: Math.max(...members.map(w => w.memoryGiB)),
+    };
+    const override = options.profileOverrides?.[family];
+    const profile = profiles.find(p => p.name === override) ?? pickProfile(family, largest, profiles);
+    if (!profile) continue;
+
+    const allocatable = getAllocatableCapacity(profile);
+    const requiredVCPUs = members.reduce((sum, w) => sum + w.vcpus, 0);
+    const requiredMemoryGiB = members.reduce((sum, w) => sum + w.memoryGiB, 0);
+    const byCpu = allocatable.vcpus > 0 ? requiredVCPUs / (allocatable.vcpus * utilization) : Infinity;
+    const byMemory = allocatable.memoryGiB > 0 ? requiredMemoryGiB / (allocatable.memoryGiB * utilization) : Infinity;
+    const calculatedWorkers = Math.max(roundUpToMultiple(Math.ceil(Math.max(byCpu, byMemory)), zoneCount), minWorkers);
+    const workers = Math.max(Math.floor(options.workerOverrides?.[family] ?? calculatedWorkers), 1);
+
+    pools.push({
+      family,
+      name,
+      profile: profile.name,
+      workers,
+      calculatedWorkers,
+      workloadCount: members.length,
+      requiredVCPUs: Math.round(requiredVCPUs * 10) / 10,
+      requiredMemoryGiB: Math.round(requiredMemoryGiB * 10) / 10,
+      allocatableVCPUs: Math.round(allocatable.vcpus * 100) / 100,
+      allocatableMemoryGiB: Math.round(allocatable.memoryGiB * 10) / 10,
+      cpuUtilization: Math.round((requiredVCPUs / (allocatable.vcpus * workers)) * 100),
+      memoryUtilization: Math.round((requiredMemoryGiB / (allocatable.memoryGiB * workers)) * 100),
+      oversizedWorkloads: members.filter(w => w.vcpus > allocatable.vcpus || w.memoryGiB > allocatable.memoryGiB).length,
+    });
+  }
+
+  return pools;
+}
@@ -122,6 +122,7 @@ describe('workloadClassification', () => {
       expect(getStorageTierLabel('general-purpose')).toBe('3 IOPS/GB');
       expect(getStorageTierLabel('5iops')).toBe('5 IOPS/GB');
       expect(getStorageTierLabel('10iops')).toBe('10 IOPS/GB');
+      expect(getStorageTierLabel('sdp')).toBe('Custom IOPS');
     });
   });
 });
@@ -3,7 +3,8 @@
 
 import workloadPatterns from '@/data/workloadPatterns.json';
 
-export type StorageTierType = 'general-purpose' | '5iops' | '10iops';
+/** VPC block volume profile: general-purpose and tiered IOPS/GB profiles, or custom IOPS (sdp) */
+export type StorageTierType = 'general-purpose' | '5iops' | '10iops' | 'sdp';
 
 type CategoryDef = {
   name: string;
@@ -65,5 +66,6 @@ export function getStorageTierLabel(tier: StorageTierType): string {
     case '10iops': return '10 IOPS/GB';
     case '5iops': return '5 IOPS/GB';
     case 'general-purpose': return '3 IOPS/GB';
+    case 'sdp': return 'Custom IOPS';
   }
 }
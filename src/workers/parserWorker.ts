@@ -2,6 +2,7 @@
 import * as XLSX from 'xlsx';
 import type { RVToolsData, RVToolsMetadata, ParseResult, VirtualMachine } from '@/types';
 import { REQUIRED_SHEETS } from '@/utils/constants';
+import { parseVPartition } from '@/services/parser/tabParsers/vPartitionParser';
 
 // Message types
 interface ParseMessage {
@@ -101,6 +102,12 @@ async function parseFile(arrayBuffer: ArrayBuffer, fileName: string): Promise<vo
     reportProgress('vInfo');
     const vInfo = parseVInfoSheet(workbook.Sheets['vInfo']);
 
+    // Parse vPartition - guest usage drives the guest-used storage sizing method
+    reportProgress('vPartition');
+    const vPartition = sheetNames.includes('vPartition')
+      ? parseVPartition(workbook.Sheets['vPartition'])
+      : [];
+
     // Parse other sheets (simplified for worker - main thread uses full parsers)
     reportProgress('vDisk');
     reportProgress('vDatastore');
@@ -124,7 +131,7 @@ async function parseFile(arrayBuffer: ArrayBuffer, fileName: string): Promise<vo
       return;
     }
 
-    // Assemble result - worker only parses vInfo fully
+    // Assemble result - worker only parses vInfo and vPartition fully
     // Other sheets are parsed by main thread using full parsers
     const data: RVToolsData = {
       metadata,
@@ -132,7 +139,7 @@ async function parseFile(arrayBuffer: ArrayBuffer, fileName: string): Promise<vo
       vCPU: [],
       vMemory: [],
       vDisk: [],
-      vPartition: [],
+      vPartition,
       vNetwork: [],
       vCD: [],
       vSnapshot: [],